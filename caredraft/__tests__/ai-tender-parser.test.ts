@@ -0,0 +1,125 @@
+/**
+ * AI tender parser test suite
+ * Tests rule-based extraction of tender fields from ITT text
+ */
+
+import { AITenderParser } from '../lib/services/ai-tender-parser'
+import { splitSentences } from '../lib/utils/sentences'
+
+const SAMPLE_ITT = `Invitation to Tender for Domiciliary Care Services in North Yorkshire
+Contracting Authority: North Yorkshire Council
+
+Key Dates
+Clarification questions deadline: 10 January 2025 at 17:00
+Supplier briefing event: 14/01/2025
+Tender submission deadline: 31 January 2025 at 12:00
+
+Evaluation
+Quality: 60%
+Price: 30%
+Social Value: 10%
+
+Requirements
+The provider must be registered with the Care Quality Commission (CQC) for personal care.
+All care workers shall hold an enhanced DBS check.
+The provider will pay at least the Real Living Wage and create local apprenticeships.
+TUPE is expected to apply to staff currently delivering the service.
+
+Section 2: Quality
+Q2.1 Describe your approach to safeguarding adults at risk. (500 words)
+Q2.2 How will you recruit and retain care workers? Maximum 750 words. Weighting 15%
+
+Enquiries
+Contact name: Jane Smith
+Email: procurement@northyorks.gov.uk
+Tel: 01609 780780
+Address: County Hall, Northallerton, DL7 8AD`
+
+describe('AITenderParser', () => {
+  const parser = new AITenderParser()
+
+  describe('parseText', () => {
+    const result = parser.parseText(SAMPLE_ITT)
+
+    test('should extract the title and issuing authority', () => {
+      expect(result.title).toBe('Domiciliary Care Services in North Yorkshire')
+      expect(result.issuingAuthority).toBe('North Yorkshire Council')
+      expect(result.fieldConfidence.title).toBeGreaterThanOrEqual(90)
+    })
+
+    test('should pick the submission deadline rather than the clarification date', () => {
+      expect(result.deadline).toBe('2025-01-31T12:00:00.000Z')
+      expect(result.keyDates).toHaveLength(3)
+      expect(result.keyDates.find(d => d.description.includes('briefing'))?.type).toBe('meeting')
+    })
+
+    test('should extract scoring weightings', () => {
+      expect(result.scoringWeightings).toEqual([
+        { criteria: 'Quality', weight: 60 },
+        { criteria: 'Price', weight: 30 },
+        { criteria: 'Social Value', weight: 10 }
+      ])
+      expect(result.fieldConfidence.evaluationCriteria).toBe(95)
+    })
+
+    test('should classify requirements, social value and TUPE sentences', () => {
+      expect(result.complianceRequirements).toEqual(expect.arrayContaining([
+        expect.stringContaining('Care Quality Commission'),
+        expect.stringContaining('enhanced DBS check')
+      ]))
+      expect(result.socialValueCriteria).toEqual([expect.stringContaining('Real Living Wage')])
+      expect(result.tupeRequirements).toEqual([expect.stringContaining('TUPE')])
+    })
+
+    test('should extract questions with word limits, weightings and section reference', () => {
+      expect(result.questions).toEqual([
+        expect.objectContaining({ questionNumber: '2.1', wordLimit: 500, sectionReference: 'Quality' }),
+        expect.objectContaining({ questionNumber: '2.2', wordLimit: 750, weightingPercentage: 15 })
+      ])
+      expect(result.wordLimits).toEqual([
+        { section: 'Question 2.1', limit: 500 },
+        { section: 'Question 2.2', limit: 750 }
+      ])
+    })
+
+    test('should extract contact information', () => {
+      expect(result.contactInformation).toEqual({
+        name: 'Jane Smith',
+        email: 'procurement@northyorks.gov.uk',
+        phone: '01609 780780',
+        address: 'County Hall, Northallerton, DL7 8AD'
+      })
+    })
+
+    test('should score missing fields as zero confidence', () => {
+      const empty = parser.parseText('Some unrelated text without any tender details at all.')
+      expect(empty.fieldConfidence.deadline).toBe(0)
+      expect(empty.fieldConfidence.questions).toBe(0)
+      expect(empty.confidence).toBeLessThan(result.confidence)
+    })
+  })
+
+  describe('validateParsingResult', () => {
+    test('should warn when weightings do not add up to 100%', () => {
+      const result = parser.parseText('Tender title: Test\nQuality: 60%\nPrice: 30%')
+      const validation = parser.validateParsingResult(result)
+      expect(validation.isValid).toBe(true)
+      expect(validation.warnings).toContain('Scoring weightings add up to 90% rather than 100%')
+    })
+  })
+
+  describe('extractTenderSections', () => {
+    test('should return the body under a matching heading', async () => {
+      const sections = await parser.extractTenderSections(SAMPLE_ITT, ['Requirements'])
+      expect(sections.Requirements).toContain('Care Quality Commission')
+      expect(sections.Requirements).not.toContain('Describe your approach')
+    })
+  })
+
+  describe('splitSentences', () => {
+    test('should not split on abbreviations', () => {
+      expect(splitSentences('Providers must hold insurance, e.g. public liability cover. Staff shall be trained.'))
+        .toEqual(['Providers must hold insurance, e.g. public liability cover.', 'Staff shall be trained.'])
+    })
+  })
+})
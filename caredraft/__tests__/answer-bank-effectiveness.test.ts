@@ -0,0 +1,141 @@
+/**
+ * Answer bank effectiveness test suite
+ * Tests bid metrics, monthly trends and usage recording against tender outcomes
+ */
+
+import { AnswerBankService, buildEffectivenessTrend } from '../lib/services/answer-bank'
+import type { AnswerBankBidUsage } from '../lib/types/answer-bank.types'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+function createBid(overrides: Partial<AnswerBankBidUsage> = {}): AnswerBankBidUsage {
+  return {
+    answer_id: 'answer-1',
+    organization_id: 'org-1',
+    tender_workflow_id: 'tender-1',
+    first_used_at: '2024-11-10T09:00:00Z',
+    outcome: 'won',
+    final_score: 82,
+    submission_date: '2024-11-30T00:00:00Z',
+    questions_answered: 1,
+    scored_questions: 1,
+    avg_evaluator_score: 80,
+    ...overrides
+  }
+}
+
+describe('Answer bank effectiveness', () => {
+  describe('buildEffectivenessTrend', () => {
+    const now = new Date('2024-12-15T12:00:00Z')
+
+    test('should bucket bids by month, including months without bids', () => {
+      const trend = buildEffectivenessTrend([
+        createBid({ tender_workflow_id: 'tender-1', outcome: 'won' }),
+        createBid({ tender_workflow_id: 'tender-2', outcome: 'lost', first_used_at: '2024-11-20T09:00:00Z' }),
+        createBid({ tender_workflow_id: 'tender-3', outcome: 'pending', first_used_at: '2024-12-01T09:00:00Z' })
+      ], 3, now)
+
+      expect(trend.map(point => point.period)).toEqual(['2024-10', '2024-11', '2024-12'])
+      expect(trend[0]).toEqual({ period: '2024-10', bids_used: 0, bids_won: 0, bids_lost: 0, win_rate: null, avg_evaluator_score: null })
+      expect(trend[1]).toMatchObject({ bids_used: 2, bids_won: 1, bids_lost: 1, win_rate: 0.5 })
+      // Pending bids count as used but not towards the win rate
+      expect(trend[2]).toMatchObject({ bids_used: 1, win_rate: null })
+    })
+
+    test('should average evaluator scores over questions rather than bids', () => {
+      const [point] = buildEffectivenessTrend([
+        createBid({ tender_workflow_id: 'tender-1', scored_questions: 3, avg_evaluator_score: 90 }),
+        createBid({ tender_workflow_id: 'tender-2', scored_questions: 1, avg_evaluator_score: 50 }),
+        createBid({ tender_workflow_id: 'tender-3', scored_questions: 0, avg_evaluator_score: null })
+      ], 1, new Date('2024-11-30T00:00:00Z'))
+
+      expect(point.avg_evaluator_score).toBe(80)
+    })
+
+    test('should ignore bids outside the window', () => {
+      const trend = buildEffectivenessTrend([createBid({ first_used_at: '2023-01-05T00:00:00Z' })], 12, now)
+
+      expect(trend).toHaveLength(12)
+      expect(trend.every(point => point.bids_used === 0)).toBe(true)
+    })
+  })
+
+  describe('AnswerBankService', () => {
+    test('should key bid metrics by answer and coerce numeric columns', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_effectiveness: [{
+          data: [{
+            answer_id: 'answer-1',
+            title: 'Safeguarding approach',
+            bids_used: 4,
+            bids_won: 2,
+            bids_lost: 1,
+            bids_pending: 1,
+            win_rate: '0.6667',
+            avg_evaluator_score: '78.50',
+            avg_final_score: null,
+            last_used_in_bid_at: '2024-11-10T09:00:00Z'
+          }],
+          error: null
+        }]
+      })
+
+      const effectiveness = await new AnswerBankService(mock.client).getEffectiveness(['answer-1', 'answer-2'])
+
+      expect(Object.keys(effectiveness)).toEqual(['answer-1'])
+      expect(effectiveness['answer-1']).toMatchObject({ bids_used: 4, win_rate: 0.6667, avg_evaluator_score: 78.5, avg_final_score: null })
+    })
+
+    test('should report zero bids for an answer never used in a bid', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_effectiveness: [{ data: [], error: null }],
+        answer_bank_bid_usage: [{ data: [], error: null }]
+      })
+
+      const report = await new AnswerBankService(mock.client).getEffectivenessReport('answer-1', 6)
+
+      expect(report.effectiveness).toMatchObject({ answer_id: 'answer-1', bids_used: 0, win_rate: null })
+      expect(report.trend).toHaveLength(6)
+    })
+
+    test('should only rank answers with enough decided bids', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_effectiveness: [{
+          data: [
+            { answer_id: 'lucky', bids_used: 1, bids_won: 1, bids_lost: 0, win_rate: 1 },
+            { answer_id: 'proven', bids_used: 6, bids_won: 4, bids_lost: 1, win_rate: 0.8 },
+            { answer_id: 'steady', bids_used: 4, bids_won: 2, bids_lost: 2, win_rate: 0.5 }
+          ],
+          error: null
+        }]
+      })
+
+      const answers = await new AnswerBankService(mock.client).listMostEffective({ minDecidedBids: 2, limit: 5 })
+
+      expect(answers.map(answer => answer.answer_id)).toEqual(['proven', 'steady'])
+    })
+
+    test('should record usage against a tender workflow and question', async () => {
+      const mock = createSupabaseMock({})
+
+      await new AnswerBankService(mock.client).recordUsage('answer-1', {
+        userId: 'user-1',
+        context: 'proposal_draft',
+        tenderWorkflowId: 'tender-1',
+        tenderQuestionId: 'question-1'
+      })
+
+      expect(mock.writes).toEqual([{
+        table: 'increment_answer_usage',
+        op: 'rpc',
+        values: {
+          answer_id_param: 'answer-1',
+          user_id_param: 'user-1',
+          context_param: 'proposal_draft',
+          session_id_param: null,
+          tender_workflow_id_param: 'tender-1',
+          tender_question_id_param: 'question-1'
+        }
+      }])
+    })
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Answer bank versioning test suite
+ * Tests versioned edits, diffs, restores, template forks and lineage
+ */
+
+import { AnswerBankService, AnswerVersionError } from '../lib/services/answer-bank'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+function createAnswer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'answer-1',
+    title: 'Safeguarding approach',
+    content: 'Concerns are reported to the safeguarding lead within one hour.',
+    tags: ['safeguarding'],
+    version: 2,
+    is_template: false,
+    parent_id: null,
+    forked_from_version: null,
+    updated_at: '2024-06-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+function createVersion(version: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `version-${version}`,
+    answer_id: 'answer-1',
+    version,
+    title: 'Safeguarding approach',
+    content: 'Concerns are reported to the safeguarding lead within one hour.',
+    tags: ['safeguarding'],
+    created_at: '2024-06-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('Answer bank versioning', () => {
+  describe('editAnswer', () => {
+    test('should save the edit as a new version, keeping fields that were left out', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [{ data: createAnswer(), error: null }],
+        save_answer_version: [{ data: createVersion(3, { change_note: 'Faster escalation' }), error: null }]
+      })
+
+      const version = await new AnswerBankService(mock.client).editAnswer('answer-1', {
+        content: 'Concerns are reported to the safeguarding lead within thirty minutes.',
+        change_note: ' Faster escalation '
+      })
+
+      expect(version.version).toBe(3)
+      expect(mock.writes).toEqual([{
+        table: 'save_answer_version',
+        op: 'rpc',
+        values: {
+          p_answer_id: 'answer-1',
+          p_title: 'Safeguarding approach',
+          p_content: 'Concerns are reported to the safeguarding lead within thirty minutes.',
+          p_tags: ['safeguarding'],
+          p_change_note: 'Faster escalation',
+          p_restored_from_version: null
+        }
+      }])
+    })
+
+    test('should report an edit that changes nothing', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [{ data: createAnswer(), error: null }],
+        save_answer_version: [{ data: { id: null, version: null }, error: null }]
+      })
+
+      await expect(new AnswerBankService(mock.client).editAnswer('answer-1', { title: 'Safeguarding approach' }))
+        .rejects.toMatchObject({ code: 'no_changes' })
+    })
+
+    test('should refuse edits the database does not permit', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [{ data: createAnswer(), error: null }],
+        save_answer_version: [{ data: null, error: { message: 'You can only edit answers you created', code: '42501' } }]
+      })
+
+      const edit = new AnswerBankService(mock.client).editAnswer('answer-1', { title: 'New title' })
+
+      await expect(edit).rejects.toBeInstanceOf(AnswerVersionError)
+      await expect(edit).rejects.toMatchObject({ code: 'not_permitted' })
+    })
+  })
+
+  describe('diffVersions', () => {
+    test('should diff two versions older first, including title and tag changes', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_versions: [{
+          data: [
+            createVersion(3, {
+              title: 'Safeguarding adults approach',
+              content: 'Concerns are reported within thirty minutes.',
+              tags: ['safeguarding', 'cqc']
+            }),
+            createVersion(1, { content: 'Concerns are reported within one hour.' })
+          ],
+          error: null
+        }]
+      })
+
+      const diff = await new AnswerBankService(mock.client).diffVersions('answer-1', 3, 1)
+
+      expect(diff?.from.version).toBe(1)
+      expect(diff?.to.version).toBe(3)
+      expect(diff?.title_changed).toBe(true)
+      expect(diff?.tags_added).toEqual(['cqc'])
+      expect(diff?.tags_removed).toEqual([])
+      expect(diff?.stats).toEqual({ wordsAdded: 2, wordsRemoved: 2, unchanged: false })
+    })
+
+    test('should return null when a version is missing', async () => {
+      const mock = createSupabaseMock({ answer_bank_versions: [{ data: [createVersion(1)], error: null }] })
+
+      await expect(new AnswerBankService(mock.client).diffVersions('answer-1', 1, 9)).resolves.toBeNull()
+    })
+  })
+
+  describe('restoreVersion', () => {
+    test('should restore an earlier version as a new version', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_versions: [{ data: createVersion(1, { content: 'Original wording of the answer.' }), error: null }],
+        save_answer_version: [{ data: createVersion(4, { restored_from_version: 1 }), error: null }]
+      })
+
+      const version = await new AnswerBankService(mock.client).restoreVersion('answer-1', 1)
+
+      expect(version.version).toBe(4)
+      expect(mock.writes[0].values).toEqual(expect.objectContaining({
+        p_content: 'Original wording of the answer.',
+        p_change_note: 'Restored version 1',
+        p_restored_from_version: 1
+      }))
+    })
+  })
+
+  describe('forkTemplate', () => {
+    test('should record the template and the version it was forked from', async () => {
+      const template = createAnswer({ id: 'template-1', is_template: true, version: 5, category_id: 'category-1' })
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: template, error: null },
+          { data: createAnswer({ id: 'answer-9', parent_id: 'template-1', forked_from_version: 5 }), error: null }
+        ]
+      })
+
+      await new AnswerBankService(mock.client).forkTemplate('template-1', { organizationId: 'org-1', userId: 'user-1' })
+
+      expect(mock.writes[0].values).toEqual(expect.objectContaining({
+        title: 'Safeguarding approach',
+        organization_id: 'org-1',
+        created_by: 'user-1',
+        parent_id: 'template-1',
+        forked_from_version: 5,
+        is_template: false
+      }))
+    })
+
+    test('should only fork templates', async () => {
+      const mock = createSupabaseMock({ answer_bank: [{ data: createAnswer(), error: null }] })
+
+      await expect(new AnswerBankService(mock.client).forkTemplate('answer-1', { organizationId: 'org-1', userId: 'user-1' }))
+        .rejects.toMatchObject({ code: 'not_a_template' })
+      expect(mock.writes).toHaveLength(0)
+    })
+  })
+
+  describe('getLineage', () => {
+    test('should list ancestors root first and flag forks whose parent has changed', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: createAnswer({ parent_id: 'template-2', forked_from_version: 1, version: 3 }), error: null },
+          { data: createAnswer({ id: 'template-2', title: 'Regional template', is_template: true, parent_id: 'template-1', forked_from_version: 2 }), error: null },
+          { data: createAnswer({ id: 'template-1', title: 'Master template', is_template: true }), error: null },
+          {
+            data: [
+              createAnswer({ id: 'fork-1', parent_id: 'answer-1', forked_from_version: 2 }),
+              createAnswer({ id: 'fork-2', parent_id: 'answer-1', forked_from_version: 3 })
+            ],
+            error: null
+          }
+        ]
+      })
+
+      const lineage = await new AnswerBankService(mock.client).getLineage('answer-1')
+
+      expect(lineage?.ancestors.map(node => node.id)).toEqual(['template-1', 'template-2'])
+      expect(lineage?.forks.map(fork => [fork.id, fork.parent_changed_since_fork])).toEqual([
+        ['fork-1', true],
+        ['fork-2', false]
+      ])
+    })
+
+    test('should stop at a parent_id cycle', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: createAnswer({ parent_id: 'answer-2' }), error: null },
+          { data: createAnswer({ id: 'answer-2', parent_id: 'answer-1' }), error: null },
+          { data: [], error: null }
+        ]
+      })
+
+      const lineage = await new AnswerBankService(mock.client).getLineage('answer-1')
+
+      expect(lineage?.ancestors.map(node => node.id)).toEqual(['answer-2'])
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Answer duplicates test suite
+ * Tests shingle similarity, clustering and the detection job's cluster bookkeeping
+ */
+
+import {
+  AnswerDuplicateService,
+  DuplicateCandidate,
+  clusterDuplicates,
+  clusterMemberKey,
+  jaccardSimilarity,
+  textShingles
+} from '../lib/services/answer-duplicates'
+import { AnswerVersionError } from '../lib/services/answer-bank'
+import type { EmbeddingService } from '../lib/services/embedding-service'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+// Embeds each text as the vector given for its title
+function createEmbeddingsMock(vectors: Record<string, number[]>) {
+  return {
+    generateBatchEmbeddings: async ({ texts }: { texts: string[] }) => ({
+      embeddings: texts.map(text => ({ embedding: vectors[text.split('\n')[0]], model: 'test', tokens: 0 })),
+      total_tokens: 0,
+      processing_time_ms: 0,
+      cached_count: 0
+    })
+  } as unknown as EmbeddingService
+}
+
+const SAFEGUARDING = 'Our safeguarding approach puts the person at the centre of every decision. All staff complete level two safeguarding training and concerns are reported to the designated lead the same day.'
+
+function createCandidate(overrides: Partial<DuplicateCandidate> = {}): DuplicateCandidate {
+  return {
+    id: 'answer-1',
+    title: 'Safeguarding approach',
+    content: SAFEGUARDING,
+    usage_count: 0,
+    updated_at: '2024-11-01T00:00:00Z',
+    embedding: [1, 0, 0],
+    ...overrides
+  }
+}
+
+describe('Answer duplicates', () => {
+  describe('textShingles', () => {
+    test('should ignore case and punctuation', () => {
+      expect(jaccardSimilarity(
+        textShingles('All staff complete safeguarding training.'),
+        textShingles('all staff, complete Safeguarding training')
+      )).toBe(1)
+    })
+
+    test('should treat short texts as a single shingle', () => {
+      expect(Array.from(textShingles('Safeguarding lead'))).toEqual(['safeguarding lead'])
+      expect(textShingles('').size).toBe(0)
+    })
+
+    test('should score partial rewrites between 0 and 1', () => {
+      const similarity = jaccardSimilarity(
+        textShingles(SAFEGUARDING),
+        textShingles(SAFEGUARDING.replace('level two', 'level three'))
+      )
+
+      expect(similarity).toBeGreaterThan(0.5)
+      expect(similarity).toBeLessThan(1)
+    })
+  })
+
+  describe('clusterDuplicates', () => {
+    test('should cluster rewordings by embedding and copies by wording', () => {
+      const clusters = clusterDuplicates([
+        createCandidate({ id: 'original', usage_count: 3 }),
+        // Copied with a small edit, embedded differently
+        createCandidate({ id: 'edited', content: SAFEGUARDING.replace('same day', 'same working day'), embedding: [0, 1, 0], usage_count: 9 }),
+        // Reworded but the same meaning
+        createCandidate({ id: 'reworded', content: 'We put people first when keeping them safe from harm and abuse.', embedding: [0.99, 0.05, 0] }),
+        createCandidate({ id: 'unrelated', title: 'Recruitment', content: 'We recruit locally through job fairs and colleges.', embedding: [0, 0, 1] })
+      ])
+
+      expect(clusters).toHaveLength(1)
+      expect(clusters[0].member_key).toBe(clusterMemberKey(['original', 'edited', 'reworded']))
+      // Most used member is suggested
+      expect(clusters[0].suggested_canonical_id).toBe('edited')
+      const reworded = clusters[0].members.find(member => member.answer_id === 'reworded')
+      expect(reworded?.embedding_similarity).toBeGreaterThan(0.95)
+      expect(reworded?.shingle_similarity).toBeLessThan(0.3)
+    })
+
+    test('should not cluster answers that are only on the same topic', () => {
+      const clusters = clusterDuplicates([
+        createCandidate({ id: 'a', embedding: [1, 0.4, 0] }),
+        createCandidate({ id: 'b', content: 'Safeguarding concerns are escalated to the local authority within 24 hours.', embedding: [1, 0, 0.2] })
+      ])
+
+      expect(clusters).toEqual([])
+    })
+  })
+
+  describe('AnswerDuplicateService', () => {
+    const answers = [
+      { id: 'a', organization_id: 'org-1', title: 'Safeguarding approach', content: SAFEGUARDING, usage_count: 4, updated_at: '2024-11-01T00:00:00Z' },
+      { id: 'b', organization_id: 'org-1', title: 'Safeguarding', content: SAFEGUARDING, usage_count: 1, updated_at: '2024-11-02T00:00:00Z' },
+      { id: 'c', organization_id: 'org-2', title: 'Safeguarding approach', content: SAFEGUARDING, usage_count: 0, updated_at: '2024-11-03T00:00:00Z' }
+    ]
+    const embeddings = createEmbeddingsMock({ 'Safeguarding approach': [1, 0], Safeguarding: [1, 0] })
+
+    test('should add new clusters per organisation and close stale ones', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [{ data: answers, error: null }],
+        answer_bank_duplicate_clusters: [
+          { data: [{ id: 'stale', member_key: 'a,x', status: 'open' }], error: null },
+          { data: null, error: null },
+          { data: { id: 'new-cluster' }, error: null }
+        ],
+        answer_bank_duplicate_members: [{ data: null, error: null }]
+      })
+
+      const result = await new AnswerDuplicateService(mock.client, embeddings).detectDuplicates()
+
+      // The org-2 answer has nothing to match within its own organisation
+      expect(result).toMatchObject({ organizationsScanned: 2, answersScanned: 3, clustersFound: 1, clustersAdded: 1, clustersClosed: 1 })
+      expect(mock.writes[0]).toMatchObject({ table: 'answer_bank_duplicate_clusters', op: 'delete' })
+      expect(mock.writes[1]).toMatchObject({
+        op: 'insert',
+        values: { organization_id: 'org-1', member_key: 'a,b', suggested_canonical_id: 'a' }
+      })
+      expect(mock.writes[2]).toMatchObject({
+        table: 'answer_bank_duplicate_members',
+        values: [{ cluster_id: 'new-cluster', answer_id: 'a' }, { cluster_id: 'new-cluster', answer_id: 'b' }]
+      })
+    })
+
+    test('should not raise a dismissed cluster again', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [{ data: answers.slice(0, 2), error: null }],
+        answer_bank_duplicate_clusters: [{ data: [{ id: 'dismissed', member_key: 'a,b', status: 'dismissed' }], error: null }]
+      })
+
+      const result = await new AnswerDuplicateService(mock.client, embeddings).detectDuplicates()
+
+      expect(result).toMatchObject({ clustersFound: 1, clustersAdded: 0, clustersClosed: 0 })
+      expect(mock.writes).toEqual([])
+    })
+
+    test('should leave out merged members and clusters left with one answer', async () => {
+      const member = (answerId: string) => ({ answer_id: answerId, embedding_similarity: '0.970', shingle_similarity: '0.800' })
+      const mock = createSupabaseMock({
+        answer_bank_duplicate_clusters: [{
+          data: [
+            { id: 'c1', suggested_canonical_id: 'a', max_similarity: '0.970', status: 'open', detected_at: '2024-12-01T00:00:00Z', answer_bank_duplicate_members: [member('a'), member('b'), member('merged')] },
+            { id: 'c2', suggested_canonical_id: 'd', max_similarity: '0.960', status: 'open', detected_at: '2024-12-01T00:00:00Z', answer_bank_duplicate_members: [member('d'), member('merged')] }
+          ],
+          error: null
+        }],
+        answer_bank_with_stats: [{
+          data: ['a', 'b', 'd'].map(id => ({ id, title: id, content: '', tags: [], usage_count: 1, avg_rating: '4.50', rating_count: 2, updated_at: '2024-12-01T00:00:00Z' })),
+          error: null
+        }]
+      })
+
+      const clusters = await new AnswerDuplicateService(mock.client, embeddings).listClusters()
+
+      expect(clusters.map(cluster => cluster.id)).toEqual(['c1'])
+      expect(clusters[0].members.map(m => m.answer_id)).toEqual(['a', 'b'])
+      expect(clusters[0].members[0]).toMatchObject({ avg_rating: 4.5, embedding_similarity: 0.97 })
+    })
+
+    test('should report a refused merge as not permitted', async () => {
+      const mock = createSupabaseMock({
+        merge_answer_bank_duplicates: [{ data: null, error: { message: 'Only the author, owner or a manager can merge into this answer', code: '42501' } }]
+      })
+
+      const merge = new AnswerDuplicateService(mock.client, embeddings).mergeDuplicates({ canonical_id: 'a', duplicate_ids: ['b'] }, 'c1')
+
+      await expect(merge).rejects.toBeInstanceOf(AnswerVersionError)
+      await expect(merge).rejects.toMatchObject({ code: 'not_permitted' })
+    })
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Answer freshness test suite
+ * Tests freshness status, review queue ordering and the scheduled expiry and review reminder job
+ */
+
+import { AnswerBankService, getFreshnessStatus } from '../lib/services/answer-bank'
+import { AnswerFreshnessManager } from '../lib/services/answer-freshness'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+const now = new Date('2024-12-15T12:00:00Z')
+
+describe('Answer freshness', () => {
+  describe('getFreshnessStatus', () => {
+    test('should treat an answer past its expiry date as expired even before the job runs', () => {
+      expect(getFreshnessStatus({ expires_at: '2024-12-01T00:00:00Z', expired_at: null, next_review_at: null }, now)).toBe('expired')
+    })
+
+    test('should prefer expiry over a due review', () => {
+      expect(getFreshnessStatus({
+        expires_at: '2025-06-01T00:00:00Z',
+        expired_at: '2024-12-10T06:00:00Z',
+        next_review_at: '2024-12-01T00:00:00Z'
+      }, now)).toBe('expired')
+    })
+
+    test('should flag reviews that are due now or within two weeks', () => {
+      expect(getFreshnessStatus({ expires_at: null, expired_at: null, next_review_at: '2024-12-15T12:00:00Z' }, now)).toBe('review_due')
+      expect(getFreshnessStatus({ expires_at: null, expired_at: null, next_review_at: '2024-12-25T00:00:00Z' }, now)).toBe('review_soon')
+      expect(getFreshnessStatus({ expires_at: '2024-12-20T00:00:00Z', expired_at: null, next_review_at: null }, now)).toBe('review_soon')
+    })
+
+    test('should treat answers without a review cycle or expiry as fresh', () => {
+      expect(getFreshnessStatus({ expires_at: null, expired_at: null, next_review_at: null }, now)).toBe('fresh')
+      expect(getFreshnessStatus({ expires_at: '2025-06-01T00:00:00Z', expired_at: null, next_review_at: '2025-03-01T00:00:00Z' }, now)).toBe('fresh')
+    })
+  })
+
+  describe('AnswerBankService.listReviewQueue', () => {
+    test('should put expired answers first, then the most overdue', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_with_stats: [{
+          data: [
+            { id: 'soon', title: 'Soon', next_review_at: '2024-12-20T00:00:00Z', expires_at: null, expired_at: null },
+            { id: 'due-recently', title: 'Due recently', next_review_at: '2024-12-10T00:00:00Z', expires_at: null, expired_at: null },
+            { id: 'expired', title: 'Expired', next_review_at: null, expires_at: '2024-12-14T00:00:00Z', expired_at: null },
+            { id: 'due-long-ago', title: 'Due long ago', next_review_at: '2024-09-01T00:00:00Z', expires_at: null, expired_at: null }
+          ],
+          error: null
+        }]
+      })
+
+      const queue = await new AnswerBankService(mock.client).listReviewQueue('org-1', { ownerId: 'user-1' }, now)
+
+      expect(queue.map(item => item.id)).toEqual(['expired', 'due-long-ago', 'due-recently', 'soon'])
+      expect(queue.map(item => item.freshness)).toEqual(['expired', 'review_due', 'review_due', 'review_soon'])
+      expect(mock.filters.filter(filter => filter.method === 'eq')).toEqual([
+        { table: 'answer_bank_with_stats', method: 'eq', column: 'organization_id', value: 'org-1' },
+        { table: 'answer_bank_with_stats', method: 'eq', column: 'owner_id', value: 'user-1' }
+      ])
+    })
+  })
+
+  describe('AnswerFreshnessManager', () => {
+    const answer = {
+      id: 'answer-1',
+      title: 'CQC rating',
+      owner_id: 'owner-1',
+      created_by: 'author-1',
+      expires_at: '2024-12-14T23:59:59Z',
+      next_review_at: null
+    }
+
+    test('should expire answers past their expiry date and notify the owner', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: [answer], error: null },
+          { data: [{ id: 'answer-1' }], error: null },
+          { data: [], error: null }
+        ]
+      })
+
+      const result = await new AnswerFreshnessManager(mock.client).processFreshness(now)
+
+      expect(result).toMatchObject({ answersExpired: 1, reviewRemindersSent: 0, errors: [] })
+      expect(mock.writes[0]).toEqual({ table: 'answer_bank', op: 'update', values: { expired_at: now.toISOString() } })
+      expect(mock.writes[1]).toMatchObject({
+        table: 'notifications',
+        op: 'insert',
+        values: [{ user_id: 'owner-1', type: 'deadline', related_entity_id: 'answer-1' }]
+      })
+    })
+
+    test('should remind the author when an answer has no owner', async () => {
+      const dueAnswer = { ...answer, owner_id: null, expires_at: null, next_review_at: '2024-12-01T00:00:00Z' }
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: [], error: null },
+          { data: [dueAnswer], error: null },
+          { data: [{ id: 'answer-1' }], error: null }
+        ]
+      })
+
+      const result = await new AnswerFreshnessManager(mock.client).processFreshness(now)
+
+      expect(result).toMatchObject({ answersExpired: 0, reviewRemindersSent: 1 })
+      expect(mock.writes[0]).toEqual({ table: 'answer_bank', op: 'update', values: { review_notified_at: now.toISOString() } })
+      expect(mock.writes[1]).toMatchObject({
+        table: 'notifications',
+        values: [{ user_id: 'author-1', type: 'review_request' }]
+      })
+    })
+
+    test('should not notify twice when another run already handled the answer', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: [answer], error: null },
+          { data: [], error: null },
+          { data: [], error: null }
+        ]
+      })
+
+      const result = await new AnswerFreshnessManager(mock.client).processFreshness(now)
+
+      expect(result.answersExpired).toBe(0)
+      expect(mock.writes.filter(write => write.table === 'notifications')).toHaveLength(0)
+    })
+
+    test('should record a failure and carry on with the other answers', async () => {
+      const mock = createSupabaseMock({
+        answer_bank: [
+          { data: [answer, { ...answer, id: 'answer-2' }], error: null },
+          { data: null, error: { message: 'update failed' } },
+          { data: [{ id: 'answer-2' }], error: null },
+          { data: [], error: null }
+        ]
+      })
+
+      const result = await new AnswerFreshnessManager(mock.client).processFreshness(now)
+
+      expect(result.answersExpired).toBe(1)
+      expect(result.errors).toEqual([{ answerId: 'answer-1', error: 'Database error: update failed', type: 'expiry' }])
+    })
+  })
+})
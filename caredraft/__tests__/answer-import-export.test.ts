@@ -0,0 +1,198 @@
+/**
+ * Answer import/export test suite
+ * Tests file parsing, column mapping, row validation, duplicate checks and the export
+ */
+
+import JSZip from 'jszip'
+import {
+  AnswerImportError,
+  AnswerImportExportService,
+  ParsedImportFile,
+  buildImportRows,
+  exportToCsv,
+  markImportDuplicates,
+  parseCsv,
+  parseJsonRecords,
+  parseXlsx,
+  splitDocxSections,
+  suggestColumnMapping
+} from '../lib/services/answer-import-export'
+import type { AnswerBankExportData } from '../lib/types/answer-bank.types'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+const SAFEGUARDING = 'Our safeguarding approach puts the person at the centre of every decision. All staff complete level two safeguarding training.'
+const RECRUITMENT = 'We recruit locally through job fairs, colleges and referrals from our existing care workers.'
+
+function createParsed(records: Array<Record<string, unknown>>): ParsedImportFile {
+  return { format: 'csv', columns: ['Question', 'Answer', 'Category', 'Tags', 'Template'], records, firstRowNumber: 2 }
+}
+
+const MAPPING = suggestColumnMapping(['Question', 'Answer', 'Category', 'Tags', 'Template'])
+const CATEGORIES = [{ id: 'cat-safe', name: 'Safeguarding' }]
+
+describe('Answer import/export', () => {
+  describe('parsing', () => {
+    test('should parse quoted CSV fields with commas, quotes and newlines', () => {
+      const rows = parseCsv('\uFEFFTitle,Content\r\n"Staffing, rotas","Line one\nSaid ""yes"""\r\n\r\nPlain,Text')
+
+      expect(rows).toEqual([
+        ['Title', 'Content'],
+        ['Staffing, rotas', 'Line one\nSaid "yes"'],
+        ['Plain', 'Text']
+      ])
+    })
+
+    test('should read shared and inline strings from the first worksheet', async () => {
+      const zip = new JSZip()
+      zip.file('xl/workbook.xml', '<workbook><sheets><sheet name="Answers" sheetId="1" r:id="rId1"/></sheets></workbook>')
+      zip.file('xl/_rels/workbook.xml.rels', '<Relationships><Relationship Id="rId1" Target="worksheets/answers.xml"/></Relationships>')
+      zip.file('xl/sharedStrings.xml', '<sst><si><t>Title</t></si><si><t>Content</t></si><si><r><t>Staff &amp; </t></r><r><t>rotas</t></r></si></sst>')
+      zip.file('xl/worksheets/answers.xml', [
+        '<worksheet><sheetData>',
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>',
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>3</v></c></row>',
+        '<row r="3"><c r="B3" t="inlineStr"><is><t>Inline</t></is></c></row>',
+        '</sheetData></worksheet>'
+      ].join(''))
+
+      const rows = await parseXlsx(await zip.generateAsync({ type: 'nodebuffer' }))
+
+      expect(rows).toEqual([['Title', 'Content'], ['Staff & rotas', '', '3'], ['', 'Inline']])
+    })
+
+    test('should split a document into one answer per heading, grouped by parent headings', () => {
+      const records = splitDocxSections([
+        '<h1>Safeguarding</h1>',
+        '<h2>Our approach</h2><p>Person centred.</p><ul><li>Training</li></ul>',
+        '<h2>Reporting</h2><p>Same day.</p>',
+        '<h1>Recruitment</h1><p>We recruit locally.</p>'
+      ].join(''))
+
+      expect(records).toEqual([
+        { Title: 'Our approach', Content: 'Person centred.\n\n- Training', Category: 'Safeguarding' },
+        { Title: 'Reporting', Content: 'Same day.', Category: 'Safeguarding' },
+        { Title: 'Recruitment', Content: 'We recruit locally.', Category: '' }
+      ])
+    })
+
+    test('should accept an export file as JSON input', () => {
+      const records = parseJsonRecords(JSON.stringify({ version: '1', answers: [{ title: 'A', content: 'B' }] }))
+
+      expect(records).toEqual([{ title: 'A', content: 'B' }])
+      expect(() => parseJsonRecords('{"title": "A"}')).toThrow(AnswerImportError)
+    })
+  })
+
+  describe('buildImportRows', () => {
+    test('should map columns by header name', () => {
+      expect(MAPPING).toEqual({ title: 'Question', content: 'Answer', category: 'Category', tags: 'Tags', is_template: 'Template' })
+    })
+
+    test('should validate rows and normalise tags, categories and template flags', () => {
+      const rows = buildImportRows(createParsed([
+        { Question: 'Safeguarding approach', Answer: SAFEGUARDING, Category: 'safeguarding', Tags: 'care; Safety, care', Template: 'Yes' },
+        { Question: 'Hi', Answer: 'Too short', Category: '', Tags: '', Template: '' },
+        { Question: 'Recruitment', Answer: RECRUITMENT, Category: 'Workforce', Tags: '', Template: 'maybe' }
+      ]), MAPPING, { categories: CATEGORIES })
+
+      expect(rows[0]).toMatchObject({ row_number: 2, category_id: 'cat-safe', tags: ['care', 'Safety'], is_template: true, errors: [], warnings: [] })
+      expect(rows[1].errors).toEqual(['Title must be at least 3 characters', 'Content must be at least 10 characters'])
+      expect(rows[2]).toMatchObject({ category_id: null, is_template: false })
+      expect(rows[2].warnings).toHaveLength(2)
+    })
+
+    test('should flag copies of existing answers and of earlier rows', () => {
+      const rows = buildImportRows(createParsed([
+        { Question: 'Safeguarding', Answer: `${SAFEGUARDING} Updated.` },
+        { Question: 'Recruitment', Answer: RECRUITMENT },
+        { Question: 'Recruitment plan', Answer: RECRUITMENT },
+        { Question: 'Our Approach!', Answer: 'Something different altogether, written fresh.' }
+      ]), MAPPING, { categories: CATEGORIES })
+
+      markImportDuplicates(rows, [
+        { id: 'existing-1', title: 'Safeguarding approach', content: SAFEGUARDING },
+        { id: 'existing-2', title: 'Our approach', content: 'Unrelated text about mobilisation.' }
+      ])
+
+      expect(rows[0].duplicate_of).toMatchObject({ answer_id: 'existing-1', reason: 'content' })
+      expect(rows[1].duplicate_of).toBeUndefined()
+      expect(rows[2].duplicate_of).toMatchObject({ row_number: 3, reason: 'content' })
+      expect(rows[3].duplicate_of).toMatchObject({ answer_id: 'existing-2', reason: 'title' })
+    })
+  })
+
+  describe('AnswerImportExportService', () => {
+    test('should import valid rows and skip duplicates', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_categories: [{ data: CATEGORIES, error: null }],
+        answer_bank: [
+          { data: [{ id: 'existing-1', title: 'Safeguarding approach', content: SAFEGUARDING }], error: null },
+          { data: [{ id: 'new-1' }], error: null }
+        ]
+      })
+      const service = new AnswerImportExportService(mock.client)
+
+      const preview = await service.previewImport(createParsed([
+        { Question: 'Safeguarding', Answer: SAFEGUARDING, Category: 'Safeguarding' },
+        { Question: 'Recruitment', Answer: RECRUITMENT, Tags: 'workforce' },
+        { Question: '', Answer: '' }
+      ]), { duplicate_strategy: 'skip', organizationId: 'org-1' })
+      const result = await service.commitImport(preview, {
+        duplicate_strategy: 'skip',
+        organizationId: 'org-1',
+        userId: 'user-1',
+        fileName: 'answers.csv'
+      })
+
+      expect(preview.summary).toEqual({ total: 3, valid: 2, invalid: 1, duplicates: 1 })
+      expect(result).toEqual({ imported: 1, skipped_duplicates: 1, skipped_invalid: 1, answer_ids: ['new-1'] })
+      expect(mock.writes).toEqual([{
+        table: 'answer_bank',
+        op: 'insert',
+        values: [expect.objectContaining({
+          title: 'Recruitment',
+          tags: ['workforce'],
+          organization_id: 'org-1',
+          created_by: 'user-1',
+          metadata: { imported_from: 'answers.csv', import_row: 3 }
+        })]
+      }])
+    })
+
+    test('should refuse a preview without title and content columns', async () => {
+      const service = new AnswerImportExportService(createSupabaseMock({}).client)
+
+      await expect(service.previewImport(createParsed([{ Question: 'A' }]), {
+        mapping: { title: 'Question' },
+        duplicate_strategy: 'skip',
+        organizationId: 'org-1'
+      })).rejects.toBeInstanceOf(AnswerImportError)
+    })
+
+    test('should export answers with bid stats and write them as CSV', async () => {
+      const mock = createSupabaseMock({
+        answer_bank_categories: [{ data: [{ id: 'cat-safe', name: 'Safeguarding', sort_order: 1 }], error: null }],
+        answer_bank_with_stats: [{
+          data: [{
+            id: 'a', title: 'Safeguarding, approach', content: 'Says "hello"', category_id: 'cat-safe', category_name: 'Safeguarding',
+            tags: ['care', 'safety'], is_template: false, is_public: false, version: 2, usage_count: 5,
+            popularity_score: '3.50', avg_rating: '4.00', rating_count: 2, created_at: '2024-11-01T00:00:00Z', updated_at: '2024-12-01T00:00:00Z'
+          }],
+          error: null
+        }],
+        answer_bank_effectiveness: [{ data: [{ answer_id: 'a', bids_used: 4, bids_won: 3, win_rate: '0.75' }], error: null }]
+      })
+
+      const data: AnswerBankExportData = await new AnswerImportExportService(mock.client)
+        .exportLibrary('org-1', new Date('2024-12-20T10:00:00Z'))
+      const csv = exportToCsv(data)
+
+      expect(data.answers[0]).toMatchObject({ popularity_score: 3.5, avg_rating: 4, bids_used: 4, bids_won: 3, win_rate: 0.75, owner_email: null })
+      expect(data.categories).toHaveLength(1)
+      expect(mock.filters.filter(filter => filter.method === 'eq')).toEqual([
+        { table: 'answer_bank_with_stats', method: 'eq', column: 'organization_id', value: 'org-1' }
+      ])
+      expect(csv.split('\r\n')[1]).toBe('"Safeguarding, approach","Says ""hello""",Safeguarding,"care, safety",false,false,2,,,,5,3.5,4,2,4,3,0.75,2024-11-01T00:00:00Z,2024-12-01T00:00:00Z')
+    })
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * Section comments test suite
+ * Tests anchor re-mapping across edits, threading, and mentions on new comments
+ */
+
+import {
+  CommentError,
+  CommentsService,
+  buildCommentThreads,
+  remapAnchors,
+  sectionAnchorText
+} from '../lib/services/collaboration'
+import type { NotificationTriggersService } from '../lib/services/notification-triggers'
+import { diffTextBySentence } from '../lib/utils/text-diff'
+import type { Comment } from '../types/collaboration'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+function createNotificationsMock() {
+  const triggerMentionNotification = jest.fn().mockResolvedValue(undefined)
+  return {
+    notifications: { triggerMentionNotification } as unknown as NotificationTriggersService,
+    triggerMentionNotification
+  }
+}
+
+const BEFORE = 'We train every carer in safeguarding. Training is refreshed each year. Records are kept for audit.'
+
+function createComment(overrides: Partial<Comment>): Comment {
+  return {
+    id: 'c1',
+    section_id: 'section-1',
+    user_id: 'user-1',
+    content: 'Comment',
+    is_resolved: false,
+    created_at: '2024-12-01T10:00:00Z',
+    updated_at: '2024-12-01T10:00:00Z',
+    ...overrides
+  }
+}
+
+describe('Section comments', () => {
+  describe('remapAnchors', () => {
+    const anchor = { id: 'c1', start: BEFORE.indexOf('refreshed'), end: BEFORE.indexOf('refreshed') + 'refreshed each year'.length }
+
+    test('should shift an anchor when text is inserted before it', () => {
+      const after = `Since 2019, ${BEFORE}`
+
+      const [moved] = remapAnchors(BEFORE, after, [anchor])
+
+      expect(moved).toEqual({ id: 'c1', start: anchor.start + 12, end: anchor.end + 12, anchor_text: 'refreshed each year', orphaned: false })
+    })
+
+    test('should shrink an anchor when part of its text is deleted', () => {
+      const after = BEFORE.replace(' each year', '')
+
+      const [moved] = remapAnchors(BEFORE, after, [anchor])
+
+      expect(moved).toMatchObject({ start: anchor.start, anchor_text: 'refreshed', orphaned: false })
+    })
+
+    test('should orphan an anchor when all of its text is deleted', () => {
+      const after = BEFORE.replace(' Training is refreshed each year.', '')
+
+      const [moved] = remapAnchors(BEFORE, after, [anchor])
+
+      expect(moved).toMatchObject({ id: 'c1', start: anchor.start, end: anchor.end, orphaned: true })
+    })
+
+    test('should keep anchors right in long text edited far away from them', () => {
+      const paragraphs = Array.from({ length: 200 }, (_, i) => `Paragraph ${i} describes how the service handles case ${i}.`)
+      const before = paragraphs.join('\n')
+      const after = ['An opening line.', ...paragraphs.slice(0, 150), ...paragraphs.slice(151)].join('\n')
+      const start = before.indexOf('case 180')
+
+      const [moved] = remapAnchors(before, after, [{ id: 'c1', start, end: start + 'case 180'.length }])
+
+      expect(moved).toMatchObject({ start: after.indexOf('case 180'), anchor_text: 'case 180', orphaned: false })
+    })
+  })
+
+  test('should measure anchors against the section text without tags', () => {
+    expect(sectionAnchorText('<p>Care &amp; <strong>support</strong></p>')).toBe('Care & support')
+    expect(sectionAnchorText(null)).toBe('')
+  })
+
+  test('should diff by sentence and refine changed sentences by word', () => {
+    const segments = diffTextBySentence('One fine day. Two cats sat.', 'One fine day. Two dogs sat.')
+
+    expect(segments.filter(s => s.type !== 'equal')).toEqual([
+      { type: 'delete', value: 'cats' },
+      { type: 'insert', value: 'dogs' }
+    ])
+    expect(segments.filter(s => s.type !== 'insert').map(s => s.value).join('')).toBe('One fine day. Two cats sat.')
+  })
+
+  test('should nest replies under their thread, oldest first', () => {
+    const threads = buildCommentThreads([
+      createComment({ id: 'reply-2', parent_comment_id: 'root', created_at: '2024-12-01T12:00:00Z' }),
+      createComment({ id: 'root' }),
+      createComment({ id: 'reply-1', parent_comment_id: 'root', created_at: '2024-12-01T11:00:00Z' })
+    ])
+
+    expect(threads).toHaveLength(1)
+    expect(threads[0].replies!.map(r => r.id)).toEqual(['reply-1', 'reply-2'])
+  })
+
+  describe('CommentsService', () => {
+    const section = { id: 'section-1', title: 'Safeguarding', content: `<p>${BEFORE}</p>` }
+
+    test('should anchor a new comment, record mentions and notify the mentioned users', async () => {
+      const mock = createSupabaseMock({
+        sections: [{ data: section, error: null }],
+        comments: [{ data: { ...createComment({}), text_range_start: 3, text_range_end: 8 }, error: null }],
+        mentions: [{ data: [{ mentioned_user_id: 'user-3' }], error: null }],
+        users: [
+          { data: [{ id: 'user-1', email: 'amy@example.com', full_name: 'Amy Carter' }, { id: 'user-2', email: 'ben@example.com', full_name: 'Ben' }], error: null },
+          { data: [{ id: 'user-1', email: 'amy@example.com', full_name: 'Amy Carter' }], error: null }
+        ]
+      })
+      const { notifications, triggerMentionNotification } = createNotificationsMock()
+
+      const comment = await new CommentsService(mock.client, notifications).createComment({
+        section_id: 'section-1',
+        content: '@Ben can you check this?',
+        text_range_start: 3,
+        text_range_end: 8,
+        mentioned_user_ids: ['user-2', 'user-3', 'user-1', 'user-missing']
+      }, 'user-1')
+
+      expect(mock.writes[0]).toEqual({
+        table: 'comments',
+        op: 'insert',
+        values: expect.objectContaining({ text_range_start: 3, text_range_end: 8, anchor_text: 'train', parent_comment_id: null })
+      })
+      expect(mock.writes[1]).toEqual({
+        table: 'mentions',
+        op: 'insert',
+        values: [{ comment_id: 'c1', mentioned_user_id: 'user-2', mentioning_user_id: 'user-1' }]
+      })
+      expect(triggerMentionNotification).toHaveBeenCalledTimes(1)
+      expect(triggerMentionNotification).toHaveBeenCalledWith(expect.objectContaining({
+        mentionedUserId: 'user-2',
+        mentionerName: 'Amy Carter',
+        entityTitle: 'Safeguarding',
+        actionUrl: '/draft-builder?section=section-1&comment=c1'
+      }))
+      expect(comment.user?.user_metadata?.full_name).toBe('Amy Carter')
+    })
+
+    test('should refuse an anchor outside the section text', async () => {
+      const mock = createSupabaseMock({ sections: [{ data: section, error: null }] })
+
+      await expect(new CommentsService(mock.client, createNotificationsMock().notifications).createComment({
+        section_id: 'section-1',
+        content: 'Out of range',
+        text_range_start: 90,
+        text_range_end: 500
+      }, 'user-1')).rejects.toMatchObject({ code: 'invalid_anchor' })
+      expect(mock.writes).toEqual([])
+    })
+
+    test('should only send anchors that moved or were orphaned', async () => {
+      const after = BEFORE.replace('Records are kept for audit.', '').replace('We train', 'We fully train')
+      const mock = createSupabaseMock({
+        comments: [{
+          data: [
+            { id: 'c1', text_range_start: 0, text_range_end: 2 },
+            { id: 'c2', text_range_start: BEFORE.indexOf('safeguarding'), text_range_end: BEFORE.indexOf('safeguarding') + 12 },
+            { id: 'c3', text_range_start: BEFORE.indexOf('Records'), text_range_end: BEFORE.length }
+          ],
+          error: null
+        }],
+        remap_comment_anchors: [{ data: 2, error: null }]
+      })
+
+      const count = await new CommentsService(mock.client, createNotificationsMock().notifications)
+        .remapSectionAnchors('section-1', `<p>${BEFORE}</p>`, `<p>${after}</p>`)
+
+      expect(count).toBe(2)
+      expect(mock.writes).toEqual([{
+        table: 'remap_comment_anchors',
+        op: 'rpc',
+        values: {
+          p_section_id: 'section-1',
+          p_anchors: [
+            { id: 'c2', start: after.indexOf('safeguarding'), end: after.indexOf('safeguarding') + 12, anchor_text: 'safeguarding', orphaned: false },
+            expect.objectContaining({ id: 'c3', orphaned: true })
+          ]
+        }
+      }])
+    })
+
+    test('should map a missing comment to a not found error when resolving', async () => {
+      const mock = createSupabaseMock({
+        set_comment_resolution: [{ data: null, error: { message: 'Comment not found', code: 'P0002' } }]
+      })
+
+      const result = new CommentsService(mock.client, createNotificationsMock().notifications).toggleCommentResolution('missing', true)
+
+      await expect(result).rejects.toBeInstanceOf(CommentError)
+      await expect(result).rejects.toMatchObject({ code: 'not_found' })
+    })
+  })
+})
@@ -0,0 +1,246 @@
+/**
+ * Colour-team reviews test suite
+ * Tests scorecard aggregation, quality score prediction and scoring rules
+ */
+
+import {
+  ColourTeamReviewService,
+  ReviewError,
+  buildStageScorecard,
+  summariseReviews,
+  type ReviewScore,
+  type ReviewStage,
+  type ReviewedQuestion
+} from '../lib/services/colour-team-reviews'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+function createStage(overrides: Partial<ReviewStage>): ReviewStage {
+  return {
+    id: 'pink',
+    tender_workflow_id: 'tender-1',
+    name: 'Pink team',
+    colour: 'pink',
+    stage_order: 1,
+    status: 'open',
+    due_date: null,
+    created_by: 'user-1',
+    created_at: '2024-12-01T10:00:00Z',
+    updated_at: '2024-12-01T10:00:00Z',
+    ...overrides
+  }
+}
+
+function createScore(overrides: Partial<ReviewScore>): ReviewScore {
+  return {
+    id: 'score-1',
+    stage_id: 'pink',
+    question_id: 'q1',
+    reviewer_id: 'user-2',
+    score: 3,
+    strengths: [],
+    weaknesses: [],
+    comments: null,
+    created_at: '2024-12-01T10:00:00Z',
+    updated_at: '2024-12-01T10:00:00Z',
+    ...overrides
+  }
+}
+
+const QUESTIONS: ReviewedQuestion[] = [
+  { id: 'q1', question_number: '1', question_text: 'Describe your staff training.', evaluation_criteria: 'Induction and refresher training', weighting_percentage: 30 },
+  { id: 'q2', question_number: '2', question_text: 'How do you safeguard service users?', evaluation_criteria: null, weighting_percentage: 10 }
+]
+
+describe('Colour-team reviews', () => {
+  test('should average reviewers per question and weight the prediction', () => {
+    const scorecard = buildStageScorecard(createStage({}), QUESTIONS, [
+      createScore({ score: 4, strengths: ['Clear induction plan'] }),
+      createScore({ id: 'score-2', reviewer_id: 'user-3', score: 2, weaknesses: ['No refresher cycle'] }),
+      createScore({ id: 'score-3', question_id: 'q2', score: 5 })
+    ], 5)
+
+    expect(scorecard.questions[0]).toMatchObject({
+      averageScore: 3,
+      spread: 2,
+      reviewerCount: 2,
+      weight: 30,
+      strengths: ['Clear induction plan'],
+      weaknesses: ['No refresher cycle']
+    })
+    // (30 x 0.6 + 10 x 1) / 40
+    expect(scorecard.predictedScore).toBe(70)
+    expect(scorecard.predictedMarks).toBe(28)
+    expect(scorecard.availableMarks).toBe(40)
+  })
+
+  test('should weight questions equally when none are weighted', () => {
+    const unweighted = QUESTIONS.map(question => ({ ...question, weighting_percentage: null }))
+    const scorecard = buildStageScorecard(createStage({}), unweighted, [
+      createScore({ score: 10 }),
+      createScore({ id: 'score-2', question_id: 'q2', score: 5 })
+    ], 10)
+
+    expect(scorecard.predictedScore).toBe(75)
+    expect(scorecard.predictedMarks).toBeNull()
+  })
+
+  test('should predict from the latest stage with scores', () => {
+    const stages = [createStage({}), createStage({ id: 'red', name: 'Red team', colour: 'red', stage_order: 2 }), createStage({ id: 'gold', name: 'Gold team', colour: 'gold', stage_order: 3 })]
+    const questions = QUESTIONS.map(question => ({ ...question, evaluator_score: question.id === 'q1' ? 80 : 60 }))
+
+    const analytics = summariseReviews(stages, questions, [
+      createScore({ score: 2 }),
+      createScore({ id: 'score-2', stage_id: 'red', score: 4, weaknesses: ['Vague on supervision'] }),
+      createScore({ id: 'score-3', stage_id: 'red', question_id: 'q2', score: 3 })
+    ], 5, [
+      { stage_id: 'red', reviewer_id: 'user-2', assigned_by: 'user-1', assigned_at: '2024-12-01T10:00:00Z', submitted_at: '2024-12-02T10:00:00Z' }
+    ])
+
+    expect(analytics.stages.map(stage => [stage.name, stage.predictedScore])).toEqual([
+      ['Pink team', 40], ['Red team', 75], ['Gold team', null]
+    ])
+    expect(analytics.predictedFrom).toBe('Red team')
+    expect(analytics.predictedScore).toBe(75)
+    expect(analytics.weakestQuestions.map(question => question.questionId)).toEqual(['q2', 'q1'])
+    expect(analytics.stages[1]).toMatchObject({ submittedReviewers: 1, totalReviewers: 1 })
+    // (30 x 0.8 + 10 x 0.6) / 40
+    expect(analytics.actualScore).toBe(75)
+  })
+
+  test('should save a score with tidied strengths and weaknesses', async () => {
+    const { client, writes } = createSupabaseMock({
+      tender_review_stages: [{ data: { ...createStage({}), tender: { scoring_scale_max: 10 } }, error: null }],
+      tender_review_assignments: [{ data: { stage_id: 'pink' }, error: null }],
+      tender_review_scores: [{ data: createScore({ score: 7.5 }), error: null }]
+    })
+
+    await new ColourTeamReviewService(client).saveScore('pink', 'user-2', {
+      question_id: 'q1',
+      score: 7.5,
+      strengths: [' Clear induction plan ', '', 'Clear induction plan'],
+      weaknesses: ['No refresher cycle'],
+      comments: '  '
+    })
+
+    expect(writes).toEqual([{
+      table: 'tender_review_scores',
+      op: 'upsert',
+      values: {
+        stage_id: 'pink',
+        question_id: 'q1',
+        reviewer_id: 'user-2',
+        score: 7.5,
+        strengths: ['Clear induction plan'],
+        weaknesses: ['No refresher cycle'],
+        comments: null
+      },
+      options: { onConflict: 'stage_id,question_id,reviewer_id' }
+    }])
+  })
+
+  test('should refuse scores above the scale, outside an open stage or from unassigned reviewers', async () => {
+    const stageResult = (status: ReviewStage['status']) => ({ data: { ...createStage({ status }), tender: { scoring_scale_max: 5 } }, error: null })
+    const { client, writes } = createSupabaseMock({
+      tender_review_stages: [stageResult('open'), stageResult('closed'), stageResult('open')],
+      tender_review_assignments: [{ data: null, error: null }]
+    })
+    const service = new ColourTeamReviewService(client)
+
+    await expect(service.saveScore('pink', 'user-2', { question_id: 'q1', score: 6 }))
+      .rejects.toMatchObject({ code: 'invalid_score' })
+    await expect(service.saveScore('pink', 'user-2', { question_id: 'q1', score: 4 }))
+      .rejects.toMatchObject({ code: 'stage_not_open' })
+    await expect(service.saveScore('pink', 'user-4', { question_id: 'q1', score: 4 }))
+      .rejects.toThrow(ReviewError)
+    expect(writes).toEqual([])
+  })
+
+  test('should not shrink the scale below scores already given', async () => {
+    const { client, writes } = createSupabaseMock({
+      tender_review_stages: [{ data: [createStage({})], error: null }],
+      tender_review_scores: [{ data: [{ id: 'score-1' }], error: null }]
+    })
+
+    await expect(new ColourTeamReviewService(client).setScoringScale('tender-1', 5))
+      .rejects.toMatchObject({ code: 'invalid_score' })
+    expect(writes).toEqual([])
+  })
+
+  test('should record evaluator scores and clear them with null', async () => {
+    const { client, writes } = createSupabaseMock({
+      tender_questions: [
+        { data: [{ id: 'q1' }, { id: 'q2' }], error: null },
+        { data: [{ ...QUESTIONS[0], evaluator_score: '72.50' }, { ...QUESTIONS[1], evaluator_score: null }], error: null }
+      ],
+      record_evaluator_scores: [{ data: 2, error: null }]
+    })
+
+    const questions = await new ColourTeamReviewService(client).recordEvaluatorScores('tender-1', [
+      { question_id: 'q1', score: 72.5 },
+      { question_id: 'q2', score: null }
+    ])
+
+    expect(writes).toEqual([{
+      table: 'record_evaluator_scores',
+      op: 'rpc',
+      values: {
+        p_tender_workflow_id: 'tender-1',
+        p_scores: [{ question_id: 'q1', score: 72.5 }, { question_id: 'q2', score: null }]
+      }
+    }])
+    expect(questions.map(question => question.evaluator_score)).toEqual([72.5, null])
+  })
+
+  test('should refuse evaluator scores outside 0-100 or for questions of another tender', async () => {
+    const { client, writes } = createSupabaseMock({
+      tender_questions: [{ data: [{ id: 'q1' }], error: null }]
+    })
+    const service = new ColourTeamReviewService(client)
+
+    await expect(service.recordEvaluatorScores('tender-1', [{ question_id: 'q1', score: 101 }]))
+      .rejects.toMatchObject({ code: 'invalid_score' })
+    await expect(service.recordEvaluatorScores('tender-1', [
+      { question_id: 'q1', score: 50 },
+      { question_id: 'q9', score: 50 }
+    ])).rejects.toMatchObject({ code: 'not_found' })
+    expect(writes).toEqual([])
+  })
+
+  test('should submit scorecards through submit_review_scorecard and refuse non-reviewers', async () => {
+    const assignment = { stage_id: 'pink', reviewer_id: 'user-2', submitted_at: '2024-12-02T10:00:00Z' }
+    const { client, writes } = createSupabaseMock({
+      submit_review_scorecard: [{ data: assignment, error: null }, { data: null, error: null }]
+    })
+    const service = new ColourTeamReviewService(client)
+
+    await expect(service.submitScorecard('pink')).resolves.toEqual(assignment)
+    await expect(service.submitScorecard('red')).rejects.toMatchObject({ code: 'not_permitted' })
+    expect(writes).toEqual([
+      { table: 'submit_review_scorecard', op: 'rpc', values: { p_stage_id: 'pink' } },
+      { table: 'submit_review_scorecard', op: 'rpc', values: { p_stage_id: 'red' } }
+    ])
+  })
+
+  test('should add stages after the existing ones and report duplicate names', async () => {
+    const { client, writes } = createSupabaseMock({
+      tender_review_stages: [
+        { data: [createStage({}), createStage({ id: 'red', stage_order: 2 })], error: null },
+        { data: createStage({ id: 'gold', stage_order: 3 }), error: null },
+        { data: null, error: { message: 'duplicate key value', code: '23505' } }
+      ]
+    })
+    const service = new ColourTeamReviewService(client)
+
+    await service.createStage('tender-1', { name: ' Gold team ', colour: 'gold' })
+    await expect(service.createStage('tender-1', { name: 'Gold team', colour: 'gold', stage_order: 4 }))
+      .rejects.toMatchObject({ code: 'duplicate_stage' })
+
+    expect(writes[0].values).toEqual({
+      tender_workflow_id: 'tender-1',
+      name: 'Gold team',
+      colour: 'gold',
+      due_date: null,
+      stage_order: 3
+    })
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Compliance coverage test suite
+ * Tests scoring drafted responses against compliance requirements
+ */
+
+import {
+  analyseCoverage,
+  coverageStatusForScore,
+  extractKeyTerms,
+  scoreResponse,
+  CoverageResponse
+} from '../lib/services/compliance-coverage'
+
+function createResponse(id: string, content: string, type: CoverageResponse['type'] = 'section'): CoverageResponse {
+  return { id, type, title: `Response ${id}`, content }
+}
+
+describe('Compliance coverage', () => {
+  describe('extractKeyTerms', () => {
+    test('should drop generic words and weight acronyms and numbers', () => {
+      const terms = extractKeyTerms('The provider must hold ISO 9001 certification.')
+
+      expect(terms.map(term => term.term)).toEqual(['iso', '9001', 'certification'])
+      expect(terms.find(term => term.term === 'iso')?.weight).toBe(2)
+      expect(terms.find(term => term.term === '9001')?.weight).toBe(2)
+      expect(terms.find(term => term.term === 'certification')?.weight).toBe(1)
+    })
+  })
+
+  describe('scoreResponse', () => {
+    test('should match word forms through stemming', () => {
+      const terms = extractKeyTerms('Staff must complete safeguarding training annually.')
+      const { score, matchedTerms } = scoreResponse(terms, 'All staff completed safeguarding trainings this year.')
+
+      expect(matchedTerms).toEqual(expect.arrayContaining(['staff', 'complete', 'safeguarding', 'training']))
+      expect(score).toBeGreaterThanOrEqual(0.6)
+    })
+
+    test('should return zero when nothing matches', () => {
+      expect(scoreResponse(extractKeyTerms('Hold Cyber Essentials Plus'), 'Our carers are local.').score).toBe(0)
+    })
+  })
+
+  describe('coverageStatusForScore', () => {
+    test('should map scores to coverage bands', () => {
+      expect(coverageStatusForScore(0.8)).toBe('covered')
+      expect(coverageStatusForScore(0.4)).toBe('weak')
+      expect(coverageStatusForScore(0.1)).toBe('uncovered')
+    })
+  })
+
+  describe('analyseCoverage', () => {
+    const items = [
+      { id: 'cqc', requirement: 'The provider must be registered with the CQC for personal care.' },
+      { id: 'iso', requirement: 'The provider must hold ISO 27001 certification.' },
+      { id: 'lwage', requirement: 'Care workers must be paid the Real Living Wage and receive mileage.' }
+    ]
+    const responses = [
+      createResponse('s1', 'We are registered with the CQC to provide personal care and rated Good.'),
+      createResponse('q1', 'Our care workers are paid the Real Living Wage.', 'question'),
+      createResponse('empty', '')
+    ]
+
+    test('should flag covered, weak and uncovered requirements', () => {
+      const coverage = analyseCoverage(items, responses)
+
+      expect(coverage.find(c => c.itemId === 'cqc')).toEqual(expect.objectContaining({ status: 'covered' }))
+      expect(coverage.find(c => c.itemId === 'cqc')!.matches[0].responseId).toBe('s1')
+      expect(coverage.find(c => c.itemId === 'iso')).toEqual(expect.objectContaining({ status: 'uncovered', matches: [] }))
+      expect(coverage.find(c => c.itemId === 'lwage')!.matches[0].responseType).toBe('question')
+    })
+
+    test('should ignore responses with no drafted content', () => {
+      const coverage = analyseCoverage(items, responses)
+      const matched = coverage.flatMap(c => c.matches.map(match => match.responseId))
+
+      expect(matched).not.toContain('empty')
+    })
+
+    test('should treat manual links to drafted responses as covering', () => {
+      const coverage = analyseCoverage(items, responses, [
+        { itemId: 'iso', responseId: 's1', responseType: 'section' }
+      ])
+      const iso = coverage.find(c => c.itemId === 'iso')!
+
+      expect(iso.status).toBe('covered')
+      expect(iso.matches[0]).toEqual(expect.objectContaining({ responseId: 's1', linkType: 'manual' }))
+    })
+  })
+})
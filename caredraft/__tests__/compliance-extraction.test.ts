@@ -0,0 +1,113 @@
+/**
+ * Compliance extraction test suite
+ * Tests finding compliance requirements in tender text and merging duplicates
+ */
+
+import {
+  classifyRequirement,
+  extractComplianceRequirements,
+  normaliseRequirementKey,
+  splitIntoPages,
+  ComplianceExtractionService
+} from '../lib/services/compliance-extraction'
+
+describe('Compliance extraction', () => {
+  describe('splitIntoPages', () => {
+    test('should use explicit page texts when given', () => {
+      expect(splitIntoPages('ignored', ['first', 'second'])).toEqual([
+        { page: 1, text: 'first' },
+        { page: 2, text: 'second' }
+      ])
+    })
+
+    test('should split on page markers from browser extraction', () => {
+      const pages = splitIntoPages('Page 1:\nIntro text\n\nPage 2:\nMore text')
+      expect(pages.map(p => p.page)).toEqual([1, 2])
+      expect(pages[1].text.trim()).toBe('More text')
+    })
+
+    test('should return a single unnumbered page otherwise', () => {
+      expect(splitIntoPages('Plain text')).toEqual([{ page: null, text: 'Plain text' }])
+    })
+  })
+
+  describe('classifyRequirement', () => {
+    test('should classify certifications, regulatory mandates and obligations', () => {
+      expect(classifyRequirement('The provider must hold Cyber Essentials Plus certification.')).toBe('certification')
+      expect(classifyRequirement('The provider must be registered with the Care Quality Commission.')).toBe('regulatory')
+      expect(classifyRequirement('The provider shall submit monthly monitoring reports.')).toBe('obligation')
+    })
+
+    test('should ignore sentences without an obligation', () => {
+      expect(classifyRequirement('The service currently supports 120 people across the county.')).toBeNull()
+    })
+  })
+
+  describe('normaliseRequirementKey', () => {
+    test('should ignore wording that does not change the requirement', () => {
+      expect(normaliseRequirementKey('The Provider must hold ISO 9001.'))
+        .toBe(normaliseRequirementKey('Suppliers shall hold ISO 9001'))
+    })
+  })
+
+  describe('extractComplianceRequirements', () => {
+    test('should record the source page and exact quote', () => {
+      const results = extractComplianceRequirements([{
+        documentId: 'doc-1',
+        documentName: 'ITT.pdf',
+        text: '',
+        pageTexts: [
+          'Background to the service.',
+          '4.1 The provider must be registered with the CQC for personal care.'
+        ]
+      }])
+
+      expect(results).toHaveLength(1)
+      expect(results[0]).toEqual(expect.objectContaining({
+        content: 'The provider must be registered with the CQC for personal care.',
+        category: 'regulatory',
+        sourcePage: 2,
+        sourceText: '4.1 The provider must be registered with the CQC for personal care.'
+      }))
+      expect(results[0].confidence).toBeGreaterThan(0.8)
+    })
+
+    test('should merge duplicates across documents and keep every source', () => {
+      const results = extractComplianceRequirements([
+        { documentId: 'itt', text: 'The Provider must hold ISO 9001 certification.' },
+        { documentId: 'spec', text: 'Suppliers shall hold ISO 9001 certification.', pageTexts: ['Suppliers shall hold ISO 9001 certification.'] }
+      ])
+
+      expect(results).toHaveLength(1)
+      expect(results[0].sources.map(source => source.document_id)).toEqual(['itt', 'spec'])
+      expect(results[0].sources[1].page).toBe(1)
+    })
+
+    test('should skip questions', () => {
+      expect(extractComplianceRequirements([{ text: 'What training must staff complete before starting?' }])).toEqual([])
+    })
+  })
+
+  describe('transformToComplianceItems', () => {
+    test('should build auto items with traceability fields', () => {
+      const service = new ComplianceExtractionService({} as never)
+      const results = extractComplianceRequirements([{
+        documentId: 'doc-1',
+        text: 'All staff must have an enhanced DBS check.',
+        pageTexts: ['All staff must have an enhanced DBS check.']
+      }])
+
+      const [item] = service.transformToComplianceItems(results, 'proposal-1')
+
+      expect(item).toEqual(expect.objectContaining({
+        proposal_id: 'proposal-1',
+        source_type: 'auto',
+        category: 'certification',
+        source_document_id: 'doc-1',
+        source_page: 1,
+        source_quote: 'All staff must have an enhanced DBS check.'
+      }))
+      expect(item.requirement_key).toBe(normaliseRequirementKey(item.requirement))
+    })
+  })
+})
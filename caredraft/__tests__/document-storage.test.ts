@@ -0,0 +1,226 @@
+/**
+ * Document storage test suite
+ * Tests export versioning, share link rules and access logging
+ */
+
+import {
+  DocumentStorageService,
+  accessContextFromHeaders,
+  buildExportStoragePath,
+  evaluateShareAccess
+} from '../lib/services/document-storage'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+/**
+ * Supabase stand-in with a signed-in user and a storage bucket that records
+ * uploads and removals
+ */
+function createStorageMock(results: Record<string, QueryResult[]>) {
+  const uploads: string[] = []
+  const removed: string[][] = []
+
+  const storage = {
+    from: () => ({
+      upload: async (path: string) => {
+        uploads.push(path)
+        return { data: { path }, error: null }
+      },
+      remove: async (paths: string[]) => {
+        removed.push(paths)
+        return { data: [], error: null }
+      },
+      createSignedUrl: async (path: string) => ({ data: { signedUrl: `https://storage.test/${path}?token=x` }, error: null })
+    })
+  }
+
+  const mock = createSupabaseMock(results, {
+    client: { auth: { getUser: async () => ({ data: { user: { id: 'user-1' } } }) }, storage }
+  })
+  return { ...mock, uploads, removed }
+}
+
+const documentRow = {
+  id: 'doc-1',
+  filename: 'home-care-tender-2024-12-01.docx',
+  original_title: 'Home Care Tender',
+  export_format: 'docx',
+  organization_id: 'org-1',
+  user_id: 'user-1',
+  proposal_id: 'proposal-1',
+  file_size: 2048,
+  file_path: 'user-1/proposal-1/v2-home-care-tender-2024-12-01.docx',
+  version: 2,
+  content_hash: 'abc',
+  download_count: 0,
+  expires_at: null,
+  is_public: false,
+  metadata: {},
+  shareable_link: null,
+  created_at: '2024-12-01T10:00:00Z',
+  updated_at: '2024-12-01T10:00:00Z'
+}
+
+function createShareRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'share-1',
+    document_id: 'doc-1',
+    shared_by: 'user-1',
+    share_token: 'token-1',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    allow_download: true,
+    require_authentication: false,
+    max_downloads: null,
+    download_count: 0,
+    custom_message: 'Final submission copy',
+    notify_on_access: false,
+    revoked_at: null,
+    created_at: '2024-12-01T10:00:00Z',
+    exported_documents: documentRow,
+    ...overrides
+  }
+}
+
+describe('Document storage', () => {
+  test('should build versioned storage paths inside the uploader folder', () => {
+    expect(buildExportStoragePath('user-1', 'proposal-1', 3, 'Tender: Final (v2).docx')).toBe(
+      'user-1/proposal-1/v3-Tender-Final-v2-.docx'
+    )
+    expect(buildExportStoragePath('user-1', undefined, 1, 'draft.pdf')).toBe('user-1/unassigned/v1-draft.pdf')
+  })
+
+  describe('evaluateShareAccess', () => {
+    const now = new Date('2024-12-01T12:00:00Z')
+    const share = {
+      expires_at: '2024-12-08T12:00:00Z',
+      revoked_at: null,
+      allow_download: true,
+      require_authentication: false,
+      max_downloads: 2,
+      download_count: 1
+    }
+
+    test('should allow viewing and downloading within the share rules', () => {
+      expect(evaluateShareAccess(share, {}, now)).toBeNull()
+      expect(evaluateShareAccess(share, { download: true }, now)).toBeNull()
+    })
+
+    test('should refuse expired, revoked and exhausted links', () => {
+      expect(evaluateShareAccess({ ...share, expires_at: '2024-12-01T11:59:59Z' }, {}, now)).toBe('expired')
+      expect(evaluateShareAccess({ ...share, revoked_at: '2024-12-01T11:00:00Z' }, {}, now)).toBe('revoked')
+      expect(evaluateShareAccess({ ...share, download_count: 2 }, { download: true }, now)).toBe('download_limit_reached')
+      expect(evaluateShareAccess({ ...share, download_count: 2 }, {}, now)).toBeNull()
+    })
+
+    test('should enforce download permission and authentication', () => {
+      expect(evaluateShareAccess({ ...share, allow_download: false }, { download: true }, now)).toBe('download_not_allowed')
+      expect(evaluateShareAccess({ ...share, require_authentication: true }, {}, now)).toBe('authentication_required')
+      expect(evaluateShareAccess({ ...share, require_authentication: true }, { userId: 'user-2' }, now)).toBeNull()
+    })
+  })
+
+  test('should read the first forwarded address for access logs', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0' })
+
+    expect(accessContextFromHeaders(headers)).toEqual({ ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0' })
+  })
+
+  describe('storeExportedDocument', () => {
+    test('should store the next version of a proposal and log its creation', async () => {
+      const { client, writes, uploads } = createStorageMock({
+        users: [{ data: { organization_id: 'org-1' }, error: null }],
+        exported_documents: [
+          { data: [{ version: 1 }], error: null },
+          { data: documentRow, error: null }
+        ]
+      })
+      const service = new DocumentStorageService(client)
+
+      const document = await service.storeExportedDocument(Buffer.from('docx bytes'), {
+        filename: 'home-care-tender-2024-12-01.docx',
+        originalTitle: 'Home Care Tender',
+        exportFormat: 'docx',
+        proposalId: 'proposal-1'
+      })
+
+      const inserts = writes.filter(write => write.op === 'insert')
+      expect(uploads).toEqual(['user-1/proposal-1/v2-home-care-tender-2024-12-01.docx'])
+      expect(inserts[0].values).toEqual(expect.objectContaining({
+        organization_id: 'org-1',
+        version: 2,
+        file_size: 10,
+        content_hash: expect.stringMatching(/^[0-9a-f]{64}$/)
+      }))
+      expect(inserts[1]).toEqual({ table: 'document_access_logs', op: 'insert', values: expect.objectContaining({ access_type: 'create', document_id: 'doc-1' }) })
+      expect(document).toEqual(expect.objectContaining({ id: 'doc-1', version: 2, proposalId: 'proposal-1' }))
+    })
+
+    test('should retry with a new version when another export took the number', async () => {
+      const { client, uploads, removed } = createStorageMock({
+        users: [{ data: { organization_id: 'org-1' }, error: null }],
+        exported_documents: [
+          { data: [{ version: 1 }], error: null },
+          { data: null, error: { message: 'duplicate key', code: '23505' } },
+          { data: [{ version: 2 }], error: null },
+          { data: { ...documentRow, version: 3 }, error: null }
+        ]
+      })
+      const service = new DocumentStorageService(client)
+
+      const document = await service.storeExportedDocument(Buffer.from('x'), {
+        filename: 'tender.docx',
+        originalTitle: 'Tender',
+        exportFormat: 'docx',
+        proposalId: 'proposal-1'
+      })
+
+      expect(uploads).toEqual(['user-1/proposal-1/v2-tender.docx', 'user-1/proposal-1/v3-tender.docx'])
+      expect(removed).toEqual([['user-1/proposal-1/v2-tender.docx']])
+      expect(document.version).toBe(3)
+    })
+  })
+
+  describe('getDocumentByShareToken', () => {
+    test('should sign a download, count it against the share and log it', async () => {
+      const { client, writes } = createStorageMock({
+        document_shares: [{ data: createShareRow(), error: null }]
+      })
+      const service = new DocumentStorageService(client)
+
+      const result = await service.getDocumentByShareToken('token-1', { download: true, ipAddress: '203.0.113.7' })
+
+      expect(result.success).toBe(true)
+      expect(result.url).toContain('user-1/proposal-1/v2-home-care-tender-2024-12-01.docx')
+      expect(result.share?.customMessage).toBe('Final submission copy')
+      expect(writes).toEqual([{
+        table: 'increment_download_count',
+        op: 'rpc',
+        values: { doc_id: 'doc-1', share_id: 'share-1' }
+      }, {
+        table: 'document_access_logs',
+        op: 'insert',
+        values: expect.objectContaining({ access_type: 'download', share_id: 'share-1', ip_address: '203.0.113.7', success: true })
+      }])
+    })
+
+    test('should log refused access without signing a URL', async () => {
+      const { client, writes } = createStorageMock({
+        document_shares: [{ data: createShareRow({ revoked_at: '2024-12-01T11:00:00Z' }), error: null }]
+      })
+      const service = new DocumentStorageService(client)
+
+      const result = await service.getDocumentByShareToken('token-1', { download: true })
+
+      expect(result).toEqual(expect.objectContaining({ success: false, reason: 'revoked' }))
+      expect(result.url).toBeUndefined()
+      expect(writes).toHaveLength(1)
+      expect(writes[0].values).toEqual(expect.objectContaining({ success: false, error_message: 'revoked' }))
+    })
+
+    test('should report unknown tokens as not found', async () => {
+      const { client } = createStorageMock({ document_shares: [{ data: null, error: null }] })
+      const service = new DocumentStorageService(client)
+
+      expect(await service.getDocumentByShareToken('missing')).toEqual(expect.objectContaining({ success: false, reason: 'not_found' }))
+    })
+  })
+})
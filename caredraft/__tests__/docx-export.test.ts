@@ -0,0 +1,257 @@
+/**
+ * DOCX export test suite
+ * Generates real Word documents and inspects the packaged XML
+ */
+
+import JSZip from 'jszip'
+import { DOCXGenerator, createExportFilename, readImageInfo } from '../lib/services/docx-generator'
+import { DocumentExportService, ValidationError, splitHtmlSections, type ProposalExportData } from '../lib/services/export'
+
+async function readDocx(buffer: Buffer | ArrayBuffer) {
+  const zip = await JSZip.loadAsync(buffer)
+  const read = async (path: string) => (await zip.file(path)?.async('string')) ?? ''
+  return {
+    document: await read('word/document.xml'),
+    header: await read('word/header1.xml'),
+    footer: await read('word/footer1.xml'),
+    styles: await read('word/styles.xml'),
+    core: await read('docProps/core.xml')
+  }
+}
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+describe('DOCX export', () => {
+  describe('DOCXGenerator.generateFromSections', () => {
+    test('should render sections in order with rich text', async () => {
+      const result = await DOCXGenerator.generateFromSections(
+        [
+          { title: 'Executive Summary', content: '<p>We are <strong>rated Good</strong>.</p>', level: 1 },
+          { title: 'Staffing', content: '<ul><li>42 carers</li></ul><table><tr><th>Role</th></tr><tr><td>Nurse</td></tr></table>', level: 2 }
+        ],
+        { title: 'Home Care Tender' }
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.filename).toMatch(/^home-care-tender-\d{4}-\d{2}-\d{2}\.docx$/)
+      expect(result.metadata?.wordCount).toBe(11)
+
+      const { document } = await readDocx(result.buffer!)
+      expect(document.indexOf('Executive Summary')).toBeLessThan(document.indexOf('Staffing'))
+      expect(document).toMatch(/<w:pStyle w:val="Heading1"\/>[\s\S]*Executive Summary/)
+      expect(document).toMatch(/<w:pStyle w:val="Heading2"\/>[\s\S]*Staffing/)
+      expect(document).toMatch(/<w:b\/>[\s\S]*rated Good/)
+      expect(document).toContain('<w:numPr>')
+      expect(document).toContain('<w:tbl>')
+    })
+
+    test('should honour layout, header, footer and watermark options', async () => {
+      const result = await DOCXGenerator.generateFromSections([{ title: 'Method', content: 'Text' }], {
+        title: 'Tender',
+        author: 'Bid Team',
+        keywords: ['care', 'tender'],
+        includeTableOfContents: true,
+        includePageNumbers: true,
+        pageSize: 'Letter',
+        pageOrientation: 'landscape',
+        margins: { top: 10, left: 25 },
+        headerText: 'Commercial in confidence',
+        footerText: 'Acme Care Ltd',
+        watermark: 'DRAFT',
+        styles: { heading1: { font: 'Georgia', size: 20, color: '#123456' } }
+      })
+
+      const { document, header, footer, styles, core } = await readDocx(result.buffer!)
+      expect(document).toMatch(/TOC [^<]*&quot;1-3&quot;/)
+      expect(document).toMatch(/<w:pgSz w:w="15840" w:h="12240" w:orient="landscape"\/>/)
+      expect(document).toContain('w:top="566"')
+      expect(document).toContain('w:left="1417"')
+      expect(header).toContain('Commercial in confidence')
+      expect(header).toContain('DRAFT')
+      expect(header).toContain('<w:framePr')
+      expect(footer).toContain('Acme Care Ltd')
+      expect(footer).toContain('NUMPAGES')
+      const heading1 = styles.match(/w:styleId="Heading1"[\s\S]*?<\/w:style>/)![0]
+      expect(heading1).toContain('Georgia')
+      expect(heading1).toContain('<w:color w:val="123456"/>')
+      expect(heading1).toContain('<w:sz w:val="40"/>')
+      expect(core).toContain('Bid Team')
+      expect(core).toContain('care, tender')
+    })
+
+    test('should reject invalid options without throwing', async () => {
+      const result = await DOCXGenerator.generateFromSections([], { margins: { top: -5 }, styles: { normal: { color: 'blue' } } })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('Margin top')
+      expect(result.error).toContain('Invalid colour for normal style')
+    })
+
+    test('should embed the organisation logo and brand colours', async () => {
+      // 1x1 transparent PNG
+      const png = Buffer.from(
+        'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+        'base64'
+      )
+      const logoUrl = 'https://project.supabase.co/storage/v1/object/public/branding/logo.png'
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => png })
+      const originalFetch = global.fetch
+      const originalUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+      global.fetch = fetchMock as unknown as typeof fetch
+      process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://project.supabase.co'
+
+      try {
+        const result = await DOCXGenerator.generateFromSections([{ title: 'Overview', content: 'Text' }], {
+          title: 'Tender',
+          branding: { logo_url: logoUrl, primary_color: '#0a7f5a' }
+        })
+        const zip = await JSZip.loadAsync(result.buffer!)
+        const { styles } = await readDocx(result.buffer!)
+
+        expect(fetchMock).toHaveBeenCalledWith(logoUrl, expect.objectContaining({ signal: expect.anything() }))
+        expect(Object.keys(zip.files).some(path => path.startsWith('word/media/'))).toBe(true)
+        expect(styles).toMatch(/w:styleId="Heading1"[\s\S]*?0A7F5A/)
+      } finally {
+        global.fetch = originalFetch
+        process.env.NEXT_PUBLIC_SUPABASE_URL = originalUrl
+      }
+    })
+
+    test('should only fetch logos from Supabase storage, and only small ones', async () => {
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new Uint8Array(3 * 1024 * 1024) })
+      const originalFetch = global.fetch
+      const originalUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+      global.fetch = fetchMock as unknown as typeof fetch
+      process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://project.supabase.co'
+
+      try {
+        for (const logoUrl of ['http://169.254.169.254/latest/meta-data', 'https://project.supabase.co/storage/v1/object/public/branding/huge.png']) {
+          const result = await DOCXGenerator.generateFromSections([{ title: 'Overview', content: 'Text' }], {
+            branding: { logo_url: logoUrl }
+          })
+          const zip = await JSZip.loadAsync(result.buffer!)
+
+          expect(result.success).toBe(true)
+          expect(Object.keys(zip.files).some(path => path.startsWith('word/media/'))).toBe(false)
+        }
+        expect(fetchMock).toHaveBeenCalledTimes(1)
+      } finally {
+        global.fetch = originalFetch
+        process.env.NEXT_PUBLIC_SUPABASE_URL = originalUrl
+      }
+    })
+
+    test('should export reviewer suggestions as Word tracked changes', async () => {
+      const result = await DOCXGenerator.generateFromSections([{
+        title: 'Training',
+        content: '<p>We train <del data-suggestion-id="d1" data-author-name="Ben Reviewer" data-created-at="2024-12-01T10:00:00Z">every</del>' +
+          '<ins data-suggestion-id="i1" data-author-name="Ben Reviewer" data-created-at="2024-12-01T10:00:00Z">each</ins> carer.</p>'
+      }])
+      const zip = await JSZip.loadAsync(result.buffer!)
+      const { document } = await readDocx(result.buffer!)
+      const settings = await zip.file('word/settings.xml')!.async('string')
+
+      expect(document).toMatch(/<w:del w:id="\d+" w:author="Ben Reviewer" w:date="2024-12-01T10:00:00Z">[\s\S]*?<w:delText[^>]*>every<\/w:delText>/)
+      expect(document).toMatch(/<w:ins w:id="\d+" w:author="Ben Reviewer" w:date="2024-12-01T10:00:00Z">[\s\S]*?each/)
+      expect(settings).toContain('<w:trackRevisions/>')
+    })
+
+    test('should number tracked changes from one in every document', async () => {
+      const content = '<p><ins data-suggestion-id="i1" data-author-name="Ben Reviewer">each</ins> carer.</p>'
+      const first = await readDocx((await DOCXGenerator.generateFromSections([{ title: 'Training', content }])).buffer!)
+      const second = await readDocx((await DOCXGenerator.generateFromSections([{ title: 'Training', content }])).buffer!)
+
+      expect(first.document).toContain('<w:ins w:id="1"')
+      expect(second.document).toContain('<w:ins w:id="1"')
+    })
+  })
+
+  describe('readImageInfo', () => {
+    test('should read PNG dimensions and ignore unsupported formats', () => {
+      const png = Buffer.from(
+        'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+        'base64'
+      )
+
+      expect(readImageInfo(new Uint8Array(png))).toEqual({ type: 'png', width: 1, height: 1 })
+      expect(readImageInfo(new Uint8Array(Buffer.from('<svg></svg>')))).toBeNull()
+    })
+  })
+
+  describe('DocumentExportService.exportDocument', () => {
+    const proposal: ProposalExportData = {
+      id: 'proposal-1',
+      title: 'Domiciliary Care & Support',
+      content: '',
+      metadata: { author: 'Bid Team', organization: 'Acme Care', version: '2' },
+      sections: [
+        { id: 's2', title: 'Social Value', content: '<p>Local hiring.</p>', order: 2 },
+        { id: 's1', title: 'Quality', content: '<p>Rated Good.</p>', order: 1 }
+      ],
+      compliance: {
+        checklist: [{ item: 'CQC registration', status: 'complete', notes: 'Certificate attached' }],
+        requirements: ['Hold ISO 9001']
+      }
+    }
+
+    test('should export sections in order with the compliance checklist', async () => {
+      const result = await DocumentExportService.getInstance().exportDocument(proposal, {
+        format: 'docx',
+        includeMetadata: true,
+        includeCompliance: true
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.data!.filename).toMatch(/^domiciliary-care-support-\d{4}-\d{2}-\d{2}\.docx$/)
+      expect(result.data!.size).toBeGreaterThan(0)
+
+      const { document } = await readDocx(await readBlob(result.data!.blob))
+      expect(document.indexOf('Quality')).toBeLessThan(document.indexOf('Social Value'))
+      expect(document).toContain('CQC registration')
+      expect(document).toContain('Hold ISO 9001')
+      expect(document).toContain('Acme Care')
+    })
+
+    test('should reject proposals without a title', async () => {
+      await expect(
+        DocumentExportService.getInstance().exportDocument({ ...proposal, title: ' ' }, { format: 'docx' })
+      ).rejects.toBeInstanceOf(ValidationError)
+    })
+  })
+
+  describe('splitHtmlSections', () => {
+    test('should give each heading the content that follows it', () => {
+      const sections = splitHtmlSections(
+        '<p>Cover note.</p><h1>Quality</h1><p>Rated <strong>Good</strong>.</p><ul><li>Audits</li></ul><h2>Training</h2><p>Yearly.</p>'
+      )
+
+      expect(sections).toEqual([
+        { id: 'section-1', title: '', content: '<p>Cover note.</p>', order: 1, level: 1 },
+        { id: 'section-2', title: 'Quality', content: '<p>Rated <strong>Good</strong>.</p><ul><li>Audits</li></ul>', order: 2, level: 1 },
+        { id: 'section-3', title: 'Training', content: '<p>Yearly.</p>', order: 3, level: 2 }
+      ])
+    })
+
+    test('should keep suggestions in the section content', () => {
+      const suggestion = '<ins data-suggestion-id="i1" data-author-name="Ben Reviewer">each</ins>'
+      const [section] = splitHtmlSections(`<h1>Training</h1><p>We train ${suggestion} carer.</p>`)
+
+      expect(section.content).toBe(`<p>We train ${suggestion} carer.</p>`)
+    })
+
+    test('should leave content without headings as a single block', () => {
+      expect(splitHtmlSections('<p>Just a paragraph.</p>')).toEqual([])
+    })
+  })
+
+  test('should build slugged filenames', () => {
+    expect(createExportFilename('Proposal & Analysis: "Success"', 'docx')).toMatch(/^proposal-analysis-success-\d{4}-\d{2}-\d{2}\.docx$/)
+  })
+})
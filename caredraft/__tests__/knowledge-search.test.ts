@@ -0,0 +1,220 @@
+/**
+ * Knowledge search test suite
+ * Tests unified search across internal sources, facet counts, filters,
+ * highlighted excerpts, suggested queries and AI summaries
+ */
+
+import {
+  KnowledgeSearchService,
+  SearchQuery,
+  buildExcerpt,
+  tokenizeQuery
+} from '../lib/services/knowledge-search'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+// Sources with nothing queued return no rows
+function createSearchMock(results: Record<string, QueryResult[]>) {
+  return createSupabaseMock(results, { empty: { data: [], error: null } })
+}
+
+const recent = new Date().toISOString()
+const lastYear = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000).toISOString()
+
+function sourceResults(): Record<string, QueryResult[]> {
+  return {
+    search_chunks_fulltext: [{
+      data: [{
+        document_id: 'doc-1',
+        chunk_content: 'All staff complete safeguarding training within their first week and refresh it every year.',
+        text_rank: 0.4
+      }],
+      error: null
+    }],
+    knowledge_documents: [{
+      data: [{
+        id: 'doc-1',
+        title: 'Safeguarding Adults Policy',
+        content: null,
+        document_type: 'pdf',
+        uploaded_by: 'user-2',
+        uploaded_at: recent,
+        updated_at: recent,
+        tags: ['policy', 'CQC']
+      }],
+      error: null
+    }],
+    answer_bank: [{
+      data: [{
+        id: 'answer-1',
+        title: 'Safeguarding training approach',
+        content: 'Our safeguarding training is delivered face to face by accredited trainers.',
+        tags: ['cqc', 'training'],
+        usage_count: 9,
+        word_count: 12,
+        is_template: false,
+        created_at: lastYear,
+        updated_at: lastYear
+      }],
+      error: null
+    }],
+    proposals: [{
+      data: [{
+        id: 'proposal-1',
+        title: 'Leeds safeguarding support contract',
+        issuing_authority: 'Leeds City Council',
+        status: 'submitted',
+        created_at: recent,
+        updated_at: recent
+      }],
+      error: null
+    }],
+    compliance_items: [{
+      data: [{
+        id: 'item-1',
+        proposal_id: 'proposal-1',
+        requirement: 'Provide evidence of safeguarding training for all staff',
+        notes: null,
+        completed: true,
+        created_at: recent,
+        updated_at: recent
+      }],
+      error: null
+    }]
+  }
+}
+
+function createQuery(overrides: Partial<SearchQuery['filters']> = {}, query = 'safeguarding training'): SearchQuery {
+  return {
+    query,
+    useLibraryAI: true,
+    useInternetAI: false,
+    filters: { contentType: 'all', dateRange: 'all', source: 'all', sortBy: 'relevance', ...overrides }
+  }
+}
+
+describe('Knowledge search', () => {
+  describe('tokenizeQuery', () => {
+    test('should drop stop words, single letters and repeats', () => {
+      expect(tokenizeQuery('How is the Safeguarding policy reviewed? safeguarding, a')).toEqual([
+        'safeguarding',
+        'policy',
+        'reviewed'
+      ])
+    })
+  })
+
+  describe('buildExcerpt', () => {
+    test('should centre the excerpt on the first match and return matched terms in their original case', () => {
+      const content = `${'Introduction to the service. '.repeat(20)}Safeguarding concerns go to the lead within one hour.`
+
+      const { excerpt, highlights } = buildExcerpt(content, ['safeguarding', 'lead'], 80)
+
+      expect(excerpt.startsWith('…')).toBe(true)
+      expect(excerpt).toContain('Safeguarding concerns')
+      expect(highlights).toEqual(['Safeguarding', 'lead'])
+    })
+  })
+
+  describe('search', () => {
+    test('should merge every source into one ranked list with highlights', async () => {
+      const { client } = createSearchMock(sourceResults())
+
+      const response = await new KnowledgeSearchService(client).search(createQuery())
+
+      expect(response.totalCount).toBe(4)
+      expect(response.results.map(result => result.source)).toEqual(expect.arrayContaining([
+        'knowledge-base', 'answer-bank', 'proposals', 'compliance'
+      ]))
+      expect(response.results[0].relevanceScore).toBeGreaterThanOrEqual(response.results[3].relevanceScore)
+
+      const policy = response.results.find(result => result.id === 'doc-1')
+      expect(policy).toEqual(expect.objectContaining({ type: 'policy', source: 'knowledge-base' }))
+      expect(policy?.metadata.highlights).toEqual(['safeguarding', 'training'])
+    })
+
+    test('should count each facet without its own filter applied', async () => {
+      const { client } = createSearchMock(sourceResults())
+
+      const response = await new KnowledgeSearchService(client).search(createQuery({ contentType: 'answer' }))
+
+      expect(response.results.map(result => result.id)).toEqual(['answer-1'])
+      expect(response.facets.contentTypes).toEqual({ policy: 1, answer: 1, proposal: 1, compliance: 1 })
+      expect(response.facets.sources).toEqual({ 'answer-bank': 1 })
+      expect(response.facets.tags).toEqual({ cqc: 1, training: 1 })
+    })
+
+    test('should filter by date range and require every selected tag', async () => {
+      const { client } = createSearchMock(sourceResults())
+
+      const response = await new KnowledgeSearchService(client).search(createQuery({ dateRange: 'month', tags: ['CQC'] }))
+
+      expect(response.results.map(result => result.id)).toEqual(['doc-1'])
+    })
+
+    test('should keep searching the other sources when one fails', async () => {
+      const results = sourceResults()
+      results.answer_bank = [{ data: null, error: { message: 'permission denied' } }]
+      const { client } = createSearchMock(results)
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const response = await new KnowledgeSearchService(client).search(createQuery())
+
+      expect(response.results.map(result => result.id)).not.toContain('answer-1')
+      expect(response.totalCount).toBe(3)
+    })
+
+    test('should suggest earlier searches by how often they were run and record this one', async () => {
+      const { client, writes } = createSearchMock({
+        ...sourceResults(),
+        rag_search_queries: [{
+          data: [
+            { query_text: 'safeguarding training' },
+            { query_text: 'safeguarding audit' },
+            { query_text: 'Staff training matrix' },
+            { query_text: 'staff training matrix' }
+          ],
+          error: null
+        }]
+      })
+
+      const response = await new KnowledgeSearchService(client).search(createQuery(), 'user-1')
+
+      expect(response.suggestedQueries).toEqual(['Staff training matrix', 'safeguarding audit'])
+      expect(writes).toContainEqual({
+        table: 'rag_search_queries',
+        op: 'insert',
+        values: expect.objectContaining({
+          user_id: 'user-1',
+          query_text: 'safeguarding training',
+          results_count: 4,
+          metadata: expect.objectContaining({ source: 'knowledge-search' })
+        })
+      })
+    })
+
+    test('should summarise the top results only when asked', async () => {
+      const summarize = jest.fn().mockResolvedValue('Training is delivered in the first week [1].')
+
+      const plain = await new KnowledgeSearchService(createSearchMock(sourceResults()).client, summarize)
+        .search(createQuery())
+      expect(plain.aiSummary).toBeUndefined()
+      expect(summarize).not.toHaveBeenCalled()
+
+      const summarised = await new KnowledgeSearchService(createSearchMock(sourceResults()).client, summarize)
+        .search({ ...createQuery(), includeSummary: true })
+      expect(summarised.aiSummary).toBe('Training is delivered in the first week [1].')
+      expect(summarize.mock.calls[0][0][1].content).toContain('[1]')
+    })
+
+    test('should still return results when the summary fails', async () => {
+      const summarize = jest.fn().mockRejectedValue(new Error('model unavailable'))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const response = await new KnowledgeSearchService(createSearchMock(sourceResults()).client, summarize)
+        .search({ ...createQuery(), includeSummary: true })
+
+      expect(response.aiSummary).toBeUndefined()
+      expect(response.totalCount).toBe(4)
+    })
+  })
+})
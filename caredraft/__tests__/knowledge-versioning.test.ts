@@ -0,0 +1,286 @@
+/**
+ * Knowledge document versioning test suite
+ * Tests text diffs, versioned uploads, supersession after ingestion and
+ * citation review flags
+ */
+
+import { LocalEmbeddingProvider } from '../lib/services/embedding-providers'
+import { EmbeddingService } from '../lib/services/embedding-service'
+import { KnowledgeCitationService } from '../lib/services/knowledge-citations'
+import { RAGService } from '../lib/services/rag'
+import { RAGIngestionPipeline } from '../lib/services/rag-ingestion'
+import { diffStats, diffText } from '../lib/utils/text-diff'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+function createDocument(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'doc-1',
+    title: 'Safeguarding Policy',
+    content: 'Concerns are reported to the safeguarding lead within one hour.',
+    document_type: 'text',
+    mime_type: 'text/plain',
+    file_name: null,
+    storage_path: null,
+    processing_status: 'completed',
+    processing_attempts: 1,
+    metadata: {},
+    version: 1,
+    document_family_id: 'doc-1',
+    previous_version_id: null,
+    ...overrides
+  }
+}
+
+describe('Knowledge document versioning', () => {
+  describe('diffText', () => {
+    test('should mark inserted and removed words and rebuild both texts', () => {
+      const before = 'Concerns are reported within one hour.'
+      const after = 'Concerns are reported to the lead within thirty minutes.'
+
+      const segments = diffText(before, after)
+
+      expect(segments.filter(s => s.type !== 'insert').map(s => s.value).join('')).toBe(before)
+      expect(segments.filter(s => s.type !== 'delete').map(s => s.value).join('')).toBe(after)
+      expect(segments).toContainEqual({ type: 'insert', value: 'to the lead ' })
+      expect(diffStats(segments)).toEqual({ wordsAdded: 5, wordsRemoved: 2, unchanged: false })
+    })
+
+    test('should report identical texts as unchanged', () => {
+      expect(diffStats(diffText('Same policy text', 'Same policy text'))).toEqual({
+        wordsAdded: 0,
+        wordsRemoved: 0,
+        unchanged: true
+      })
+    })
+  })
+
+  describe('RAGService', () => {
+    function createService(results: Record<string, QueryResult[]>) {
+      const mock = createSupabaseMock(results)
+      const service = new RAGService(mock.client, new EmbeddingService(mock.client, new LocalEmbeddingProvider()))
+      return { service, ...mock }
+    }
+
+    const upload = {
+      title: 'Safeguarding Policy',
+      content: 'Concerns are reported to the safeguarding lead within thirty minutes.',
+      document_type: 'text' as const
+    }
+
+    test('should store an upload titled like a current document as its next version', async () => {
+      const { service, writes, filters } = createService({
+        knowledge_documents: [
+          { data: null, error: null },
+          { data: createDocument({ id: 'doc-2', version: 2, document_family_id: 'doc-1' }), error: null },
+          { data: createDocument({ id: 'doc-3', version: 3 }), error: null }
+        ]
+      })
+
+      await service.uploadDocument(upload, 'user-1')
+
+      expect(filters).toContainEqual(expect.objectContaining({ method: 'ilike', column: 'title', value: 'Safeguarding Policy' }))
+      expect(filters).toContainEqual(expect.objectContaining({ method: 'is', column: 'superseded_at', value: null }))
+      expect(writes[0].values).toEqual(expect.objectContaining({
+        version: 3,
+        document_family_id: 'doc-1',
+        previous_version_id: 'doc-2',
+        processing_status: 'pending'
+      }))
+    })
+
+    test('should start a new family when nothing matches', async () => {
+      const { service, writes } = createService({
+        knowledge_documents: [
+          { data: null, error: null },
+          { data: null, error: null },
+          { data: createDocument(), error: null }
+        ]
+      })
+
+      await service.uploadDocument(upload, 'user-1')
+
+      expect(writes[0].values).toEqual(expect.objectContaining({
+        version: 1,
+        document_family_id: null,
+        previous_version_id: null
+      }))
+    })
+
+    test('should escape wildcards when matching titles', async () => {
+      const { service, filters } = createService({
+        knowledge_documents: [{ data: null, error: null }, { data: null, error: null }, { data: createDocument(), error: null }]
+      })
+
+      await service.uploadDocument({ ...upload, title: 'Rota 50%_draft' }, 'user-1')
+
+      expect(filters).toContainEqual(expect.objectContaining({ method: 'ilike', value: 'Rota 50\\%\\_draft' }))
+    })
+
+    test('should return the existing document when the content is unchanged', async () => {
+      const existing = createDocument()
+      const { service, writes } = createService({ knowledge_documents: [{ data: existing, error: null }] })
+
+      await expect(service.uploadDocument(upload, 'user-1')).resolves.toBe(existing)
+      expect(writes).toHaveLength(0)
+    })
+
+    test('should reject an unknown previous version', async () => {
+      const { service } = createService({
+        knowledge_documents: [{ data: null, error: null }, { data: null, error: null }]
+      })
+
+      await expect(service.uploadDocument({ ...upload, previous_version_id: 'missing' }, 'user-1'))
+        .rejects.toThrow('Previous version not found')
+    })
+
+    test('should diff two versions of the same document, older first', async () => {
+      const { service } = createService({
+        knowledge_documents: [{
+          data: [
+            createDocument({ id: 'doc-2', version: 2, content: 'Report within thirty minutes.' }),
+            createDocument({ id: 'doc-1', version: 1, content: 'Report within one hour.' })
+          ],
+          error: null
+        }]
+      })
+
+      const diff = await service.diffVersions('doc-2', 'doc-1')
+
+      expect(diff?.from.id).toBe('doc-1')
+      expect(diff?.to.id).toBe('doc-2')
+      expect(diff?.stats).toEqual({ wordsAdded: 2, wordsRemoved: 2, unchanged: false })
+    })
+
+    test('should not diff documents from different families', async () => {
+      const { service } = createService({
+        knowledge_documents: [{
+          data: [createDocument({ id: 'doc-1' }), createDocument({ id: 'doc-9', document_family_id: 'doc-9' })],
+          error: null
+        }]
+      })
+
+      await expect(service.diffVersions('doc-1', 'doc-9')).resolves.toBeNull()
+    })
+  })
+
+  describe('RAGIngestionPipeline', () => {
+    test('should supersede previous versions once a new version is ingested', async () => {
+      const mock = createSupabaseMock({
+        knowledge_documents: [
+          { data: createDocument({ id: 'doc-2', version: 2, processing_status: 'pending', processing_attempts: 0, previous_version_id: 'doc-1' }), error: null },
+          { data: [{ id: 'doc-2' }], error: null }
+        ],
+        document_chunks: [
+          { data: null, error: null },
+          { data: [{ id: 'chunk-1', chunk_index: 0 }], error: null }
+        ],
+        supersede_knowledge_document: [{ data: 2, error: null }]
+      })
+      const pipeline = new RAGIngestionPipeline(mock.client, new EmbeddingService(mock.client, new LocalEmbeddingProvider()))
+
+      const result = await pipeline.processDocument('doc-2')
+
+      expect(result.success).toBe(true)
+      expect(mock.writes.filter(write => write.op === 'rpc')).toEqual([
+        { table: 'supersede_knowledge_document', op: 'rpc', values: { p_document_id: 'doc-2' } }
+      ])
+    })
+
+    test('should leave first versions alone', async () => {
+      const mock = createSupabaseMock({
+        knowledge_documents: [
+          { data: createDocument({ processing_status: 'pending', processing_attempts: 0 }), error: null },
+          { data: [{ id: 'doc-1' }], error: null }
+        ],
+        document_chunks: [
+          { data: null, error: null },
+          { data: [{ id: 'chunk-1', chunk_index: 0 }], error: null }
+        ]
+      })
+      const pipeline = new RAGIngestionPipeline(mock.client, new EmbeddingService(mock.client, new LocalEmbeddingProvider()))
+
+      await pipeline.processDocument('doc-1')
+
+      expect(mock.writes.some(write => write.op === 'rpc')).toBe(false)
+    })
+  })
+
+  describe('KnowledgeCitationService', () => {
+    test('should record each cited chunk once per source', async () => {
+      const mock = createSupabaseMock({ knowledge_citations: [{ data: null, error: null }] })
+
+      const recorded = await new KnowledgeCitationService(mock.client).recordCitations('proposal', 'proposal-1', [
+        { document_id: 'doc-1', chunk_id: 'chunk-1', excerpt: 'Concerns are reported within one hour.' }
+      ], 'user-1')
+
+      expect(recorded).toBe(1)
+      expect(mock.writes[0]).toEqual({
+        table: 'knowledge_citations',
+        op: 'upsert',
+        values: [expect.objectContaining({ source_type: 'proposal', source_id: 'proposal-1', chunk_id: 'chunk-1', cited_by: 'user-1' })],
+        options: { onConflict: 'source_type,source_id,chunk_id', ignoreDuplicates: true }
+      })
+    })
+
+    test('should copy an inserted answer\'s citations to the draft, keeping review flags', async () => {
+      const mock = createSupabaseMock({
+        knowledge_citations: [{
+          data: [{
+            document_id: 'doc-1',
+            chunk_id: 'chunk-1',
+            chunk_excerpt: 'Concerns are reported within one hour.',
+            needs_review: true,
+            flagged_at: '2024-12-05T10:00:00Z',
+            flag_reason: 'Cites version 1 of "Safeguarding Policy", replaced by version 2',
+            replacement_document_id: 'doc-2'
+          }],
+          error: null
+        }]
+      })
+
+      const copied = await new KnowledgeCitationService(mock.client).copyCitations('answer', 'answer-1', 'proposal', 'proposal-1', 'user-1')
+
+      expect(copied).toBe(1)
+      expect(mock.filters).toContainEqual(expect.objectContaining({ column: 'source_id', value: 'answer-1' }))
+      expect(mock.writes[0]).toEqual({
+        table: 'knowledge_citations',
+        op: 'upsert',
+        values: [expect.objectContaining({
+          source_type: 'proposal',
+          source_id: 'proposal-1',
+          chunk_id: 'chunk-1',
+          cited_by: 'user-1',
+          needs_review: true,
+          replacement_document_id: 'doc-2'
+        })],
+        options: { onConflict: 'source_type,source_id,chunk_id', ignoreDuplicates: true }
+      })
+    })
+
+    test('should list flagged citations with the old and new document titles', async () => {
+      const mock = createSupabaseMock({
+        knowledge_citations: [{
+          data: [{
+            id: 'citation-1',
+            chunk_excerpt: 'Concerns are reported within one hour.',
+            needs_review: true,
+            flag_reason: 'Cites version 1 of "Safeguarding Policy", replaced by version 2',
+            document: { title: 'Safeguarding Policy' },
+            replacement: { title: 'Safeguarding Policy' }
+          }],
+          error: null
+        }]
+      })
+
+      const flagged = await new KnowledgeCitationService(mock.client).getFlaggedCitations('proposal', 'proposal-1')
+
+      expect(flagged).toEqual([expect.objectContaining({
+        id: 'citation-1',
+        document_title: 'Safeguarding Policy',
+        replacement_document_title: 'Safeguarding Policy'
+      })])
+      expect(flagged[0]).not.toHaveProperty('document')
+      expect(mock.filters).toContainEqual(expect.objectContaining({ column: 'needs_review', value: true }))
+    })
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Portal export test suite
+ * Tests question-by-question exports and word limit checks
+ */
+
+import JSZip from 'jszip'
+import {
+  buildPortalExportRows,
+  getWordLimitViolations,
+  toPortalCopyPack,
+  toPortalCsv,
+  toPortalXlsx
+} from '../lib/services/portal-export'
+import type { TenderQuestion } from '../lib/types/tender'
+
+function createQuestion(overrides: Partial<TenderQuestion>): TenderQuestion {
+  return {
+    id: 'q',
+    tender_workflow_id: 'tender-1',
+    question_text: 'Describe your approach.',
+    mandatory: true,
+    status: 'in_progress',
+    word_count: 0,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('Portal export', () => {
+  const questions = [
+    createQuestion({
+      id: 'q10',
+      question_number: '1.10',
+      question_text: 'How will you recruit, "retain" and train staff?',
+      response_content: '<p>We recruit locally.</p><ul><li>Induction</li><li>Care Certificate</li></ul>',
+      word_limit: 5,
+      weighting_percentage: 15
+    }),
+    createQuestion({
+      id: 'q2',
+      question_number: '1.2',
+      question_text: 'Describe your mobilisation plan.',
+      response_content: '<p>Mobilisation starts <strong>week one</strong>.</p>',
+      word_limit: 500,
+      weighting_percentage: 10,
+      question_category: 'Quality'
+    }),
+    createQuestion({ id: 'q3', question_number: '1.3', question_text: 'Confirm insurance.', response_content: undefined })
+  ]
+
+  describe('buildPortalExportRows', () => {
+    test('should order by question number and convert responses to plain text', () => {
+      const rows = buildPortalExportRows(questions)
+
+      expect(rows.map(row => row.questionNumber)).toEqual(['1.2', '1.3', '1.10'])
+      expect(rows[2].response).toBe('We recruit locally.\n\n- Induction\n- Care Certificate')
+      expect(rows[0].response).toBe('Mobilisation starts week one.')
+    })
+
+    test('should count words and flag responses over the limit', () => {
+      const rows = buildPortalExportRows(questions)
+
+      expect(rows[2]).toEqual(expect.objectContaining({ wordCount: 6, wordLimit: 5, overLimit: true }))
+      expect(rows[0]).toEqual(expect.objectContaining({ wordCount: 4, overLimit: false }))
+      expect(getWordLimitViolations(rows)).toEqual([
+        { questionId: 'q10', questionNumber: '1.10', wordCount: 6, wordLimit: 5 }
+      ])
+    })
+  })
+
+  test('should quote CSV fields containing commas, quotes and newlines', () => {
+    const csv = toPortalCsv(buildPortalExportRows(questions))
+    const lines = csv.replace(/^\uFEFF/, '').split('\r\n')
+
+    expect(lines[0]).toBe('Question Number,Question,Response,Word Count,Word Limit,Over Limit,Weighting (%),Category,Mandatory,Status')
+    expect(lines[1]).toBe('1.2,Describe your mobilisation plan.,Mobilisation starts week one.,4,500,No,10,Quality,Yes,in progress')
+    expect(csv).toContain('"How will you recruit, ""retain"" and train staff?","We recruit locally.\n\n- Induction\n- Care Certificate",6,5,Yes,15')
+  })
+
+  test('should stop spreadsheets reading question text and answers as formulas', async () => {
+    const rows = buildPortalExportRows([
+      createQuestion({ id: 'q1', question_number: '1', question_text: '=HYPERLINK("https://example.com","Click")', response_content: '<p>@SUM(A1)</p>' })
+    ])
+    const csv = toPortalCsv(rows)
+    const zip = await JSZip.loadAsync(await toPortalXlsx(rows))
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string')
+
+    expect(csv).toContain(`1,"'=HYPERLINK(""https://example.com"",""Click"")",'@SUM(A1),`)
+    expect(sheet).toContain("<t xml:space=\"preserve\">'=HYPERLINK(")
+    expect(sheet).toContain("<t xml:space=\"preserve\">'@SUM(A1)</t>")
+  })
+
+  test('should build an XLSX workbook with highlighted over-limit rows', async () => {
+    const zip = await JSZip.loadAsync(await toPortalXlsx(buildPortalExportRows(questions)))
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string')
+
+    expect(zip.file('xl/workbook.xml')).not.toBeNull()
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Question Number</t></is></c>')
+    expect(sheet).toContain('<c r="D4" s="3"><v>6</v></c>')
+    expect(sheet).toContain('How will you recruit, &quot;retain&quot; and train staff?')
+    expect(sheet).toContain('<autoFilter ref="A1:J4"/>')
+  })
+
+  test('should build a copy pack with one answer file per question', async () => {
+    const zip = await JSZip.loadAsync(await toPortalCopyPack(buildPortalExportRows(questions), 'Home Care Lot 2'))
+    const combined = await zip.file('all-answers.txt')!.async('string')
+
+    expect(Object.keys(zip.files).filter(name => name.startsWith('answers/') && !name.endsWith('/'))).toEqual([
+      'answers/1-Q1.2.txt',
+      'answers/2-Q1.3.txt',
+      'answers/3-Q1.10.txt'
+    ])
+    expect(await zip.file('answers/1-Q1.2.txt')!.async('string')).toBe('Mobilisation starts week one.\n')
+    expect(combined).toContain('1.10. How will you recruit')
+    expect(combined).toContain('6 / 5 words (OVER LIMIT by 1) | Weighting: 15%')
+    expect(combined).toContain('[No response drafted]')
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Proposal deadline manager test suite
+ * Tests deadline evaluation, rule validation and deadline processing runs
+ */
+
+import {
+  DeadlineRule,
+  ProposalDeadlineManager,
+  evaluateDeadline,
+  validateDeadlineRules
+} from '../lib/services/proposal-deadline-manager'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+const rule: DeadlineRule = {
+  id: 'rule-1',
+  fromStatus: 'draft',
+  toStatus: 'review',
+  deadlineHours: 72,
+  notificationHours: [48, 24],
+  autoTransition: true,
+  requiresApproval: false,
+  description: 'Drafts go to review within three days'
+}
+
+function createRuleRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'rule-1',
+    organization_id: 'org-1',
+    from_status: 'draft',
+    to_status: 'review',
+    deadline_hours: 72,
+    notification_hours: [24, 48],
+    auto_transition: true,
+    requires_approval: false,
+    description: 'Drafts go to review within three days',
+    enabled: true,
+    created_at: '2024-12-01T00:00:00Z',
+    updated_at: '2024-12-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+
+function processingResults(statusChangedAt: string, overrides: Record<string, QueryResult[]> = {}) {
+  return {
+    proposal_deadline_rules: [{ data: [createRuleRow()], error: null }],
+    users: [{ data: [{ id: 'owner-1', organization_id: 'org-1' }], error: null }],
+    proposals: [{
+      data: [{ id: 'proposal-1', title: 'Home Care Tender', status: 'draft', owner_id: 'owner-1', created_at: hoursAgo(200), updated_at: hoursAgo(1) }],
+      error: null
+    }],
+    proposal_status_history: [{ data: [{ proposal_id: 'proposal-1', to_status: 'draft', changed_at: statusChangedAt }], error: null }],
+    proposal_deadline_notifications: [{ data: [], error: null }],
+    ...overrides
+  }
+}
+
+describe('Proposal deadline manager', () => {
+  describe('evaluateDeadline', () => {
+    const input = {
+      proposalId: 'proposal-1',
+      proposalTitle: 'Home Care Tender',
+      currentStatus: 'draft' as const,
+      statusChangedAt: '2024-12-01T00:00:00Z',
+      rule,
+      sentNotificationHours: [] as number[]
+    }
+
+    test('should measure the deadline from when the proposal entered its status', () => {
+      const result = evaluateDeadline(input, new Date('2024-12-01T12:00:00Z'))
+
+      expect(result.deadlineAt).toBe('2024-12-04T00:00:00.000Z')
+      expect(result.hoursRemaining).toBe(60)
+      expect(result.shouldNotify).toBe(false)
+      expect(result.nextNotificationHours).toBe(12)
+    })
+
+    test('should only fire reminders that have not been sent', () => {
+      const now = new Date('2024-12-03T06:00:00Z')
+
+      expect(evaluateDeadline(input, now).dueNotificationHours).toEqual([48, 24])
+      expect(evaluateDeadline({ ...input, sentNotificationHours: [48] }, now).dueNotificationHours).toEqual([24])
+      expect(evaluateDeadline({ ...input, sentNotificationHours: [48, 24] }, now).shouldNotify).toBe(false)
+    })
+
+    test('should transition overdue proposals only when the rule allows it', () => {
+      const now = new Date('2024-12-04T01:00:00Z')
+
+      expect(evaluateDeadline(input, now).shouldTransition).toBe(true)
+      expect(evaluateDeadline({ ...input, rule: { ...rule, autoTransition: false } }, now).shouldTransition).toBe(false)
+      expect(evaluateDeadline(input, now).nextNotificationHours).toBeNull()
+    })
+  })
+
+  test('should reject rules that loop, repeat a status or remind outside the deadline', () => {
+    expect(validateDeadlineRules([rule])).toEqual([])
+    expect(validateDeadlineRules([
+      { ...rule, toStatus: 'draft' },
+      { ...rule, notificationHours: [96] }
+    ])).toHaveLength(3)
+  })
+
+  describe('processAllProposalDeadlines', () => {
+    test('should remind the owner once per threshold and record the run', async () => {
+      const { client, writes } = createSupabaseMock(processingResults(hoursAgo(30)))
+      const manager = new ProposalDeadlineManager(client)
+
+      const result = await manager.processAllProposalDeadlines({ triggeredBy: 'admin-1' })
+
+      expect(result).toEqual(expect.objectContaining({ proposalsChecked: 1, notificationsSent: 1, transitionsPerformed: 0, errors: [] }))
+      expect(writes[0]).toEqual({
+        table: 'notifications',
+        op: 'insert',
+        values: [expect.objectContaining({ user_id: 'owner-1', type: 'deadline', related_entity_id: 'proposal-1' })]
+      })
+      expect(writes[1]).toEqual({
+        table: 'proposal_deadline_notifications',
+        op: 'upsert',
+        values: [expect.objectContaining({ kind: 'reminder', notification_hours: 48 })],
+        options: expect.objectContaining({ ignoreDuplicates: true })
+      })
+      expect(writes[2]).toEqual({
+        table: 'proposal_deadline_runs',
+        op: 'insert',
+        values: expect.objectContaining({ organization_id: 'org-1', triggered_by: 'admin-1', notifications_sent: 1 })
+      })
+    })
+
+    test('should move overdue proposals on automatically when no approval is needed', async () => {
+      const { client, writes } = createSupabaseMock(processingResults(hoursAgo(80), {
+        proposal_deadline_rules: [{ data: [createRuleRow({ notification_hours: [] })], error: null }]
+      }), { rpc: () => ({ data: true, error: null }) })
+      const manager = new ProposalDeadlineManager(client)
+
+      const result = await manager.processAllProposalDeadlines()
+
+      expect(writes.filter(write => write.op === 'rpc')).toEqual([{
+        table: 'apply_proposal_deadline_transition',
+        op: 'rpc',
+        values: expect.objectContaining({ p_proposal_id: 'proposal-1', p_from_status: 'draft', p_to_status: 'review' })
+      }])
+      expect(result.transitionsPerformed).toBe(1)
+      expect(writes.some(write => write.table === 'notifications' &&
+        (write.values as Array<{ type: string }>)[0].type === 'proposal_update')).toBe(true)
+    })
+
+    test('should ask managers to approve instead of transitioning when the rule requires it', async () => {
+      const { client, writes } = createSupabaseMock(processingResults(hoursAgo(80), {
+        proposal_deadline_rules: [{ data: [createRuleRow({ requires_approval: true, notification_hours: [] })], error: null }],
+        users: [
+          { data: [{ id: 'owner-1', organization_id: 'org-1' }], error: null },
+          { data: [{ id: 'manager-1' }, { id: 'admin-1' }], error: null }
+        ]
+      }))
+      const manager = new ProposalDeadlineManager(client)
+
+      const result = await manager.processAllProposalDeadlines()
+
+      expect(writes.some(write => write.op === 'rpc')).toBe(false)
+      expect(result.notificationsSent).toBe(2)
+      expect(writes[0].values).toEqual([
+        expect.objectContaining({ user_id: 'manager-1', type: 'review_request' }),
+        expect.objectContaining({ user_id: 'admin-1', type: 'review_request' })
+      ])
+      expect(writes[1].values).toEqual([expect.objectContaining({ kind: 'approval_request' })])
+    })
+
+    test('should report failed transitions without stopping the run', async () => {
+      const { client } = createSupabaseMock(
+        processingResults(hoursAgo(80), { proposal_deadline_rules: [{ data: [createRuleRow({ notification_hours: [] })], error: null }] }),
+        { rpc: () => ({ data: null, error: { message: 'permission denied' } }) }
+      )
+      const manager = new ProposalDeadlineManager(client)
+
+      const result = await manager.processAllProposalDeadlines()
+
+      expect(result.errors).toEqual([{ proposalId: 'proposal-1', error: 'Database error: permission denied', type: 'transition' }])
+    })
+  })
+})
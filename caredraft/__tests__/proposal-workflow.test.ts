@@ -0,0 +1,214 @@
+/**
+ * Proposal workflow test suite
+ * Tests status transition permissions, reviewer sign-off and the transition call
+ */
+
+import {
+  DEFAULT_WORKFLOW_SETTINGS,
+  ProposalWorkflowService,
+  WorkflowContext,
+  WorkflowTransitionError,
+  checkStatusTransition,
+  getStatusTransitions
+} from '../lib/services/proposal-workflow'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+const defaultPermissions: WorkflowContext['permissions'] = [
+  { from_status: 'draft', to_status: 'review', required_role: 'writer', enabled: true },
+  { from_status: 'review', to_status: 'submitted', required_role: 'manager', enabled: true },
+  { from_status: 'review', to_status: 'draft', required_role: 'manager', enabled: true },
+  { from_status: 'submitted', to_status: 'archived', required_role: 'manager', enabled: true }
+]
+
+function createAssignment(reviewerId: string, decision: 'submitted' | 'review' | null, completedAt: string | null) {
+  return {
+    id: `assignment-${reviewerId}`,
+    proposal_id: 'proposal-1',
+    reviewer_id: reviewerId,
+    assigned_by: 'manager-1',
+    assigned_at: '2024-12-01T09:00:00Z',
+    completed_at: completedAt,
+    decision,
+    review_comments: null,
+    created_at: '2024-12-01T09:00:00Z'
+  }
+}
+
+function createContext(overrides: Partial<WorkflowContext> = {}): WorkflowContext {
+  return {
+    proposal: { id: 'proposal-1', title: 'Home Care Tender', status: 'review', ownerId: 'writer-1' },
+    user: { id: 'manager-1', role: 'manager' },
+    permissions: defaultPermissions,
+    settings: { ...DEFAULT_WORKFLOW_SETTINGS, requiredApprovals: 2 },
+    assignments: [],
+    reviewStartedAt: '2024-12-02T09:00:00Z',
+    ...overrides
+  }
+}
+
+describe('Proposal workflow', () => {
+  describe('checkStatusTransition', () => {
+    test('should only offer transitions the role is permitted to make', () => {
+      const writer = createContext({ user: { id: 'writer-1', role: 'writer' }, proposal: { ...createContext().proposal, status: 'draft' } })
+
+      expect(getStatusTransitions(writer).map(check => check.toStatus)).toEqual(['review'])
+      expect(checkStatusTransition(writer, 'submitted')).toBeNull()
+      expect(getStatusTransitions(createContext()).map(check => check.toStatus)).toEqual(['draft', 'submitted'])
+    })
+
+    test('should not let writers move proposals they do not own', () => {
+      const context = createContext({ user: { id: 'writer-2', role: 'writer' }, proposal: { ...createContext().proposal, status: 'draft' } })
+
+      expect(getStatusTransitions(context)).toEqual([])
+    })
+
+    test('should require approvals from the current review round before submission', () => {
+      const context = createContext({
+        assignments: [
+          createAssignment('reviewer-1', 'submitted', '2024-12-03T10:00:00Z'),
+          createAssignment('reviewer-2', 'submitted', '2024-11-28T10:00:00Z')
+        ]
+      })
+
+      expect(checkStatusTransition(context, 'submitted')).toEqual(expect.objectContaining({
+        allowed: false,
+        blockers: ['Needs 2 reviewer approvals, 1 received']
+      }))
+
+      context.assignments[1] = createAssignment('reviewer-2', 'submitted', '2024-12-03T11:00:00Z')
+      expect(checkStatusTransition(context, 'submitted')?.allowed).toBe(true)
+    })
+
+    test('should block submission while changes are requested and ignore self approval', () => {
+      const context = createContext({
+        settings: { ...DEFAULT_WORKFLOW_SETTINGS, requiredApprovals: 1 },
+        assignments: [
+          createAssignment('writer-1', 'submitted', '2024-12-03T10:00:00Z'),
+          createAssignment('reviewer-1', 'review', '2024-12-03T11:00:00Z')
+        ]
+      })
+
+      expect(checkStatusTransition(context, 'submitted')?.blockers).toEqual([
+        '1 reviewer has requested changes',
+        'Needs 1 reviewer approval, 0 received'
+      ])
+    })
+
+    test('should require a comment when returning a proposal to draft', () => {
+      expect(checkStatusTransition(createContext(), 'draft')).toEqual(expect.objectContaining({ allowed: true, requiresComment: true }))
+    })
+  })
+
+  describe('transitionStatus', () => {
+    function workflowResults(assignments: unknown[] = []) {
+      return {
+        proposals: [{ data: { id: 'proposal-1', title: 'Home Care Tender', status: 'review', owner_id: 'writer-1' }, error: null }],
+        users: [{
+          data: [
+            { id: 'manager-1', role: 'manager', organization_id: 'org-1' },
+            { id: 'writer-1', role: 'writer', organization_id: 'org-1' }
+          ],
+          error: null
+        }],
+        proposal_workflow_permissions: [{ data: defaultPermissions.filter(p => p.required_role === 'manager'), error: null }],
+        proposal_workflow_settings: [{
+          data: { required_approvals: 1, require_comments_on_rejection: true, require_comments_on_approval: false, allow_self_approval: false },
+          error: null
+        }],
+        proposal_reviewer_assignments: [{ data: assignments, error: null }],
+        proposal_status_history: [{ data: { changed_at: '2024-12-02T09:00:00Z' }, error: null }]
+      }
+    }
+
+    test('should record the comment and reason through the transition function', async () => {
+      const { client, writes } = createSupabaseMock({
+        ...workflowResults([createAssignment('reviewer-1', 'submitted', '2024-12-03T10:00:00Z')]),
+        transition_proposal_status: [{ data: true, error: null }]
+      })
+      const service = new ProposalWorkflowService(client)
+
+      await service.transitionStatus('proposal-1', 'manager-1', 'submitted', { comment: ' Ready to go ', reason: 'meets_requirements' })
+
+      expect(writes).toEqual([{
+        table: 'transition_proposal_status',
+        op: 'rpc',
+        values: {
+          p_proposal_id: 'proposal-1',
+          p_from_status: 'review',
+          p_to_status: 'submitted',
+          p_comment: 'Ready to go',
+          p_reason: 'meets_requirements'
+        }
+      }])
+    })
+
+    test('should refuse submission without sign-off before calling the database', async () => {
+      const { client, writes } = createSupabaseMock(workflowResults())
+      const service = new ProposalWorkflowService(client)
+
+      await expect(service.transitionStatus('proposal-1', 'manager-1', 'submitted')).rejects.toMatchObject({
+        code: 'approvals_required',
+        blockers: ['Needs 1 reviewer approval, 0 received']
+      })
+      expect(writes).toHaveLength(0)
+    })
+
+    test('should refuse rejections without a comment', async () => {
+      const { client } = createSupabaseMock(workflowResults())
+      const service = new ProposalWorkflowService(client)
+
+      await expect(service.transitionStatus('proposal-1', 'manager-1', 'draft')).rejects.toBeInstanceOf(WorkflowTransitionError)
+    })
+
+    test('should report a status that changed underneath the user', async () => {
+      const { client } = createSupabaseMock({
+        ...workflowResults(),
+        transition_proposal_status: [{ data: false, error: null }]
+      })
+      const service = new ProposalWorkflowService(client)
+
+      await expect(service.transitionStatus('proposal-1', 'manager-1', 'draft', { comment: 'Needs pricing' }))
+        .rejects.toMatchObject({ code: 'status_changed' })
+    })
+  })
+
+  describe('assignReviewers', () => {
+    test('should refuse reviewers from another organisation', async () => {
+      const { client } = createSupabaseMock({
+        proposals: [{ data: { id: 'proposal-1', title: 'Home Care Tender', status: 'draft', owner_id: 'writer-1' }, error: null }],
+        users: [
+          {
+            data: [
+              { id: 'manager-1', role: 'manager', organization_id: 'org-1' },
+              { id: 'writer-1', role: 'writer', organization_id: 'org-1' }
+            ],
+            error: null
+          },
+          { data: { organization_id: 'org-1' }, error: null },
+          { data: [{ id: 'reviewer-1' }], error: null }
+        ]
+      })
+      const service = new ProposalWorkflowService(client)
+
+      await expect(service.assignReviewers('proposal-1', ['reviewer-1', 'outsider-1'], 'manager-1'))
+        .rejects.toMatchObject({ code: 'not_permitted' })
+    })
+
+    test('should not find proposals owned by another organisation', async () => {
+      const { client } = createSupabaseMock({
+        proposals: [{ data: { id: 'proposal-1', title: 'Home Care Tender', status: 'draft', owner_id: 'writer-2' }, error: null }],
+        users: [{
+          data: [
+            { id: 'manager-1', role: 'manager', organization_id: 'org-1' },
+            { id: 'writer-2', role: 'writer', organization_id: 'org-2' }
+          ],
+          error: null
+        }]
+      })
+      const service = new ProposalWorkflowService(client)
+
+      await expect(service.assignReviewers('proposal-1', ['reviewer-1'], 'manager-1'))
+        .rejects.toMatchObject({ code: 'not_found' })
+    })
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * RAG ingestion test suite
+ * Tests local embeddings, the embedding cache and the document ingestion pipeline
+ */
+
+import { EmbeddingProvider, LocalEmbeddingProvider, OpenAIEmbeddingProvider, createEmbeddingProvider } from '../lib/services/embedding-providers'
+import { EmbeddingService, contentChecksum, formatVector } from '../lib/services/embedding-service'
+import { RAGIngestionPipeline, getNextRetryAt } from '../lib/services/rag-ingestion'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+/**
+ * Supabase stand-in whose storage bucket serves the given files; writes are
+ * recorded with their filters
+ */
+function createIngestionMock(results: Record<string, QueryResult[]>, files: Record<string, string> = {}) {
+  const storage = {
+    from: () => ({
+      download: async (path: string) => {
+        if (files[path] === undefined) return { data: null, error: { message: 'Object not found' } }
+        const buffer = Buffer.from(files[path])
+        return { data: { arrayBuffer: async () => buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) }, error: null }
+      }
+    })
+  }
+
+  return createSupabaseMock(results, { recordWriteFilters: true, client: { storage } })
+}
+
+function createDocument(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'doc-1',
+    title: 'Safeguarding Policy',
+    content: 'All staff complete safeguarding training every year. Concerns are reported to the safeguarding lead within one hour. Records are kept securely for six years.',
+    document_type: 'text',
+    mime_type: 'text/plain',
+    file_name: 'safeguarding.txt',
+    storage_path: null,
+    processing_status: 'pending',
+    processing_attempts: 0,
+    metadata: {},
+    ...overrides
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0)
+}
+
+describe('RAG ingestion', () => {
+  describe('createEmbeddingProvider', () => {
+    test('should only use local embeddings when asked for explicitly', async () => {
+      expect(createEmbeddingProvider('local')).toBeInstanceOf(LocalEmbeddingProvider)
+      expect(createEmbeddingProvider(undefined)).toBeInstanceOf(OpenAIEmbeddingProvider)
+      expect(() => createEmbeddingProvider('hashing')).toThrow('Unknown EMBEDDING_PROVIDER')
+      await expect(new OpenAIEmbeddingProvider('text-embedding-3-small', '').embed(['text']))
+        .rejects.toThrow('OPENAI_API_KEY is required')
+    })
+  })
+
+  describe('LocalEmbeddingProvider', () => {
+    test('should produce deterministic unit vectors of the stored dimension', async () => {
+      const provider = new LocalEmbeddingProvider()
+      const { embeddings: [first] } = await provider.embed(['Medication is administered by trained staff'])
+      const { embeddings: [second] } = await provider.embed(['Medication is administered by trained staff'])
+
+      expect(first).toHaveLength(1536)
+      expect(first).toEqual(second)
+      expect(cosine(first, first)).toBeCloseTo(1)
+    })
+
+    test('should score texts sharing vocabulary as more similar', async () => {
+      const provider = new LocalEmbeddingProvider()
+      const { embeddings: [query, related, unrelated] } = await provider.embed([
+        'staff safeguarding training',
+        'All staff complete safeguarding training annually',
+        'The invoice is payable within thirty days'
+      ])
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+    })
+  })
+
+  describe('EmbeddingService', () => {
+    test('should only embed texts missing from the cache, once each', async () => {
+      const cachedText = 'Cached chunk'
+      const cachedVector = [0.6, 0.8]
+      const embed = jest.fn(async (texts: string[]) => ({ embeddings: texts.map(() => [1, 0]), tokens: texts.length * 2 }))
+      const provider: EmbeddingProvider = { model: 'test-model', dimensions: 2, embed }
+      const { client, writes } = createSupabaseMock({
+        embedding_cache: [{ data: [{ content_checksum: contentChecksum(cachedText), embedding: formatVector(cachedVector) }], error: null }]
+      })
+      const service = new EmbeddingService(client, provider)
+
+      const result = await service.generateBatchEmbeddings({ texts: ['New chunk', cachedText, 'New chunk'] })
+
+      expect(embed).toHaveBeenCalledTimes(1)
+      expect(embed).toHaveBeenCalledWith(['New chunk'])
+      expect(result.cached_count).toBe(1)
+      expect(result.embeddings.map(e => e.embedding)).toEqual([[1, 0], cachedVector, [1, 0]])
+      expect(writes.find(w => w.op === 'upsert')?.values).toEqual([
+        { content_checksum: contentChecksum('New chunk'), embedding_model: 'test-model', embedding: '[1,0]', token_count: 2 }
+      ])
+
+      // Served from memory the second time
+      await service.generateBatchEmbeddings({ texts: ['New chunk'] })
+      expect(embed).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('RAGIngestionPipeline', () => {
+    const provider = new LocalEmbeddingProvider()
+
+    function createPipeline(results: Record<string, QueryResult[]>, files: Record<string, string> = {}, embeddingProvider: EmbeddingProvider = provider) {
+      const mock = createIngestionMock(results, files)
+      const pipeline = new RAGIngestionPipeline(mock.client, new EmbeddingService(mock.client, embeddingProvider))
+      return { pipeline, writes: mock.writes }
+    }
+
+    test('should chunk, embed and store a document, then mark it complete', async () => {
+      const { pipeline, writes } = createPipeline({
+        knowledge_documents: [
+          { data: createDocument(), error: null },
+          { data: [{ id: 'doc-1' }], error: null }
+        ],
+        document_chunks: [
+          { data: null, error: null },
+          { data: [{ id: 'chunk-1', chunk_index: 0 }], error: null }
+        ]
+      })
+
+      const result = await pipeline.processDocument('doc-1')
+
+      expect(result).toEqual(expect.objectContaining({ success: true, chunks_created: 1, embeddings_generated: 1 }))
+
+      const claim = writes[0]
+      expect(claim.values).toEqual(expect.objectContaining({ processing_status: 'processing', processing_attempts: 1 }))
+      expect(claim.filters).toEqual({ id: 'doc-1', processing_status: 'pending', processing_attempts: 0 })
+
+      const chunks = writes.find(w => w.table === 'document_chunks' && w.op === 'insert')?.values as Array<Record<string, unknown>>
+      expect(chunks[0]).toEqual(expect.objectContaining({
+        document_id: 'doc-1',
+        chunk_index: 0,
+        content_checksum: contentChecksum(chunks[0].content as string)
+      }))
+
+      const embeddings = writes.find(w => w.table === 'document_embeddings')?.values as Array<Record<string, unknown>>
+      expect(embeddings).toEqual([expect.objectContaining({ chunk_id: 'chunk-1', embedding_model: 'local-hashing-v1' })])
+      expect(embeddings[0].embedding).toMatch(/^\[.*\]$/)
+
+      const progress = writes
+        .filter(w => w.table === 'knowledge_documents' && w.op === 'update')
+        .map(w => (w.values as { processing_progress?: number }).processing_progress)
+      expect(progress).toEqual([5, 20, 30, 90, 100])
+    })
+
+    test('should extract text from the uploaded file when the document has no content', async () => {
+      const { pipeline, writes } = createPipeline({
+        knowledge_documents: [
+          { data: createDocument({ content: '', storage_path: 'user-1/abc-notes.md', mime_type: 'text/markdown', file_name: 'notes.md' }), error: null },
+          { data: [{ id: 'doc-1' }], error: null }
+        ],
+        document_chunks: [
+          { data: null, error: null },
+          { data: [{ id: 'chunk-1', chunk_index: 0 }], error: null }
+        ]
+      }, { 'user-1/abc-notes.md': '# Staffing\n\nRotas are published four weeks in advance.' })
+
+      const result = await pipeline.processDocument('doc-1')
+
+      expect(result.success).toBe(true)
+      expect(writes.find(w => w.op === 'update' && 'content' in (w.values as object))?.values)
+        .toEqual({ content: expect.stringContaining('Rotas are published four weeks in advance.') })
+    })
+
+    test('should record failures and schedule a retry', async () => {
+      const failing: EmbeddingProvider = {
+        model: 'failing',
+        dimensions: 1536,
+        embed: async () => { throw new Error('Rate limit reached') }
+      }
+      const { pipeline, writes } = createPipeline({
+        knowledge_documents: [
+          { data: createDocument({ processing_status: 'failed', processing_attempts: 1 }), error: null },
+          { data: [{ id: 'doc-1' }], error: null }
+        ]
+      }, {}, failing)
+
+      const result = await pipeline.processDocument('doc-1')
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'Rate limit reached' }))
+      const failure = writes[writes.length - 1].values as Record<string, unknown>
+      expect(failure).toEqual(expect.objectContaining({ processing_status: 'failed', processing_error: 'Rate limit reached' }))
+      expect(failure.next_retry_at).toEqual(expect.any(String))
+      expect(writes.some(w => w.table === 'document_chunks')).toBe(false)
+    })
+
+    test('should skip documents another worker has claimed', async () => {
+      const { pipeline, writes } = createPipeline({
+        knowledge_documents: [
+          { data: createDocument(), error: null },
+          { data: [], error: null }
+        ]
+      })
+
+      const result = await pipeline.processDocument('doc-1')
+
+      expect(result.success).toBe(false)
+      expect(writes).toHaveLength(1)
+    })
+
+    test('should back off between retries and stop after the last attempt', () => {
+      const now = new Date('2024-12-19T10:00:00Z')
+
+      expect(getNextRetryAt(1, now)).toBe('2024-12-19T10:05:00.000Z')
+      expect(getNextRetryAt(2, now)).toBe('2024-12-19T10:10:00.000Z')
+      expect(getNextRetryAt(3, now)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,166 @@
+/**
+ * RAG query pipeline test suite
+ * Tests hybrid result fusion, reranking, cited answers and query logging
+ */
+
+import { LocalEmbeddingProvider } from '../lib/services/embedding-providers'
+import { EmbeddingService } from '../lib/services/embedding-service'
+import {
+  AnswerGenerator,
+  RAGQueryPipeline,
+  extractCitationNumbers,
+  fuseResults,
+  rerankResults
+} from '../lib/services/rag-query-pipeline'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+function createChunk(id: string, content: string, overrides: Record<string, unknown> = {}) {
+  return {
+    chunk_id: id,
+    document_id: `doc-${id}`,
+    document_title: `Policy ${id}`,
+    chunk_content: content,
+    metadata: {},
+    ...overrides
+  }
+}
+
+const trainingChunk = createChunk('a', 'All care staff complete safeguarding training every year, refreshed after any incident.')
+const leadChunk = createChunk('b', 'Safeguarding concerns are reported to the designated lead within one hour.')
+const rotaChunk = createChunk('c', 'Rotas are published four weeks in advance.')
+
+describe('RAG query pipeline', () => {
+  describe('fuseResults', () => {
+    test('should rank chunks found by both searches above chunks found by one', () => {
+      const fused = fuseResults(
+        [{ ...rotaChunk, similarity_score: 0.9 }, { ...trainingChunk, similarity_score: 0.8 }],
+        [{ ...trainingChunk, text_rank: 0.4 }, { ...leadChunk, text_rank: 0.2 }]
+      )
+
+      expect(fused.map(result => result.chunk_id)).toEqual(['a', 'c', 'b'])
+      expect(fused.map(result => result.retrieval_method)).toEqual(['hybrid', 'semantic', 'keyword'])
+      expect(fused[0].similarity_score).toBe(0.8)
+    })
+
+    test('should let the hybrid weight favour keyword results', () => {
+      const fused = fuseResults([{ ...rotaChunk, similarity_score: 0.9 }], [{ ...leadChunk, text_rank: 0.5 }], 0.2)
+
+      expect(fused[0].chunk_id).toBe('b')
+    })
+  })
+
+  describe('rerankResults', () => {
+    test('should promote chunks covering more of the question', () => {
+      const reranked = rerankResults('How often is safeguarding training refreshed?', [
+        { ...leadChunk, similarity_score: 0, relevance_score: 0.6 },
+        { ...trainingChunk, similarity_score: 0, relevance_score: 0.5 }
+      ])
+
+      expect(reranked[0].chunk_id).toBe('a')
+    })
+  })
+
+  describe('extractCitationNumbers', () => {
+    test('should list cited sources once, in order, ignoring unknown numbers', () => {
+      expect(extractCitationNumbers('Training is annual [2]. Leads respond fast [1][2]. See [7].', 3)).toEqual([2, 1])
+    })
+  })
+
+  describe('processQuery', () => {
+    function createPipeline(results: Record<string, QueryResult[]>, generate: AnswerGenerator) {
+      const { client, writes } = createSupabaseMock(results)
+      const embeddings = new EmbeddingService(client, new LocalEmbeddingProvider())
+      return { pipeline: new RAGQueryPipeline(client, embeddings, generate), writes }
+    }
+
+    test('should answer with citations and log which results were used', async () => {
+      const generate = jest.fn<ReturnType<AnswerGenerator>, Parameters<AnswerGenerator>>(
+        async () => ({ text: 'Staff complete safeguarding training every year [1].', tokens: 120 })
+      )
+      const { pipeline, writes } = createPipeline({
+        search_similar_chunks: [{ data: [{ ...trainingChunk, similarity_score: 0.82 }, { ...leadChunk, similarity_score: 0.71 }], error: null }],
+        search_chunks_fulltext: [{ data: [{ ...trainingChunk, text_rank: 0.3 }], error: null }],
+        document_chunks: [{
+          data: [
+            { id: 'a', page_number: 4, section_title: 'Training', document: { id: 'doc-a', title: 'Policy a', document_type: 'pdf' } },
+            { id: 'b', page_number: null, section_title: null, document: { id: 'doc-b', title: 'Policy b', document_type: 'word' } }
+          ],
+          error: null
+        }],
+        rag_search_queries: [{ data: { id: 'query-1' }, error: null }]
+      }, generate)
+
+      const result = await pipeline.processQuery({ query: 'How often do staff complete safeguarding training?', user_id: 'user-1' })
+
+      expect(result).toEqual(expect.objectContaining({ success: true, query_id: 'query-1', tokens_used: 120 }))
+      expect(result.citations).toEqual([expect.objectContaining({
+        number: 1,
+        chunk_id: 'a',
+        document_title: 'Policy a',
+        page_number: 4,
+        section_title: 'Training'
+      })])
+      expect(result.confidence_score).toBe(0.82)
+
+      const prompt = generate.mock.calls[0][0][1].content
+      expect(prompt).toContain('[1] Policy a, Training, page 4')
+      expect(prompt).toContain('[2] Policy b')
+
+      expect(writes.find(write => write.op === 'insert' && write.table === 'rag_search_results')?.values).toEqual([
+        expect.objectContaining({ query_id: 'query-1', chunk_id: 'a', rank_position: 1, was_used_in_response: true, retrieval_method: 'hybrid' }),
+        expect.objectContaining({ query_id: 'query-1', chunk_id: 'b', rank_position: 2, was_used_in_response: false, retrieval_method: 'semantic' })
+      ])
+    })
+
+    test('should drop sources outside the requested document types', async () => {
+      const generate = jest.fn(async () => ({ text: 'Concerns go to the lead [1].', tokens: 50 }))
+      const { pipeline } = createPipeline({
+        search_similar_chunks: [{ data: [{ ...trainingChunk, similarity_score: 0.82 }, { ...leadChunk, similarity_score: 0.71 }], error: null }],
+        search_chunks_fulltext: [{ data: [], error: null }],
+        document_chunks: [{
+          data: [
+            { id: 'a', page_number: 4, section_title: null, document: { id: 'doc-a', document_type: 'pdf' } },
+            { id: 'b', page_number: null, section_title: null, document: { id: 'doc-b', document_type: 'word' } }
+          ],
+          error: null
+        }],
+        rag_search_queries: [{ data: { id: 'query-3' }, error: null }]
+      }, generate)
+
+      const result = await pipeline.processQuery({ query: 'safeguarding', search_options: { document_types: ['word'] } })
+
+      expect(result.sources.map(source => source.chunk_id)).toEqual(['b'])
+      expect(result.citations[0].chunk_id).toBe('b')
+    })
+
+    test('should not generate an answer when nothing relevant is found', async () => {
+      const generate = jest.fn(async () => ({ text: '', tokens: 0 }))
+      const { pipeline, writes } = createPipeline({
+        search_similar_chunks: [{ data: [], error: null }],
+        search_chunks_fulltext: [{ data: [], error: null }],
+        rag_search_queries: [{ data: { id: 'query-2' }, error: null }]
+      }, generate)
+
+      const result = await pipeline.processQuery({ query: 'parking arrangements' })
+
+      expect(generate).not.toHaveBeenCalled()
+      expect(result).toEqual(expect.objectContaining({ success: true, sources: [], citations: [], confidence_score: 0 }))
+      expect(writes.find(write => write.op === 'insert' && write.table === 'rag_search_queries')?.values)
+        .toEqual(expect.objectContaining({ response_generated: false, results_count: 0 }))
+    })
+
+    test('should fall back to semantic results when keyword search fails', async () => {
+      const { pipeline } = createPipeline({
+        search_similar_chunks: [{ data: [{ ...leadChunk, similarity_score: 0.75 }], error: null }],
+        search_chunks_fulltext: [{ data: null, error: { message: 'function does not exist' } }],
+        document_chunks: [{ data: [{ id: 'b', page_number: null, section_title: null, document: {} }], error: null }]
+      }, async () => ({ text: 'Within one hour [1].', tokens: 10 }))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await pipeline.processQuery({ query: 'safeguarding lead' })
+
+      expect(result.success).toBe(true)
+      expect(result.sources.map(source => source.retrieval_method)).toEqual(['semantic'])
+    })
+  })
+})
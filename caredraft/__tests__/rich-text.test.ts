@@ -0,0 +1,100 @@
+/**
+ * Rich text parsing test suite
+ * Tests converting editor HTML and plain text into document blocks
+ */
+
+import { countRichTextWords, decodeHtmlEntities, parseRichText, richTextToPlainText } from '../lib/utils/rich-text'
+
+describe('Rich text parsing', () => {
+  describe('parseRichText with HTML', () => {
+    test('should keep headings, paragraphs and inline formatting', () => {
+      const blocks = parseRichText('<h2>Approach</h2><p>We deliver <strong>person-centred</strong> and <em>safe</em> care.</p>')
+
+      expect(blocks[0]).toEqual({ type: 'heading', level: 2, runs: [{ text: 'Approach' }] })
+      expect(blocks[1]).toEqual({
+        type: 'paragraph',
+        runs: [
+          { text: 'We deliver ' },
+          { text: 'person-centred', bold: true },
+          { text: ' and ' },
+          { text: 'safe', italics: true },
+          { text: ' care.' }
+        ]
+      })
+    })
+
+    test('should nest list items and number each ordered list separately', () => {
+      const blocks = parseRichText(
+        '<ol><li>Assess</li><li>Plan<ul><li>Review weekly</li></ul></li></ol><p>Then:</p><ol><li>Deliver</li></ol>'
+      )
+      const items = blocks.filter(block => block.type === 'list-item')
+
+      expect(items.map(item => item.type === 'list-item' && [item.ordered, item.level])).toEqual([
+        [true, 0],
+        [true, 0],
+        [false, 1],
+        [true, 0]
+      ])
+      const first = items[0]
+      const last = items[3]
+      expect(first.type === 'list-item' && last.type === 'list-item' && first.listId !== last.listId).toBe(true)
+    })
+
+    test('should parse tables with header rows', () => {
+      const [table] = parseRichText(
+        '<table><tr><th>KPI</th><th>Target</th></tr><tr><td>Missed visits</td><td><p>0%</p></td></tr></table>'
+      )
+
+      expect(table).toEqual({
+        type: 'table',
+        rows: [
+          { header: true, cells: [[{ text: 'KPI' }], [{ text: 'Target' }]] },
+          { header: false, cells: [[{ text: 'Missed visits' }], [{ text: '0%' }]] }
+        ]
+      })
+    })
+
+    test('should drop scripts and decode entities', () => {
+      const blocks = parseRichText('<p>Fish &amp; chips&nbsp;&#163;5</p><script>alert("x")</script>')
+
+      expect(richTextToPlainText(blocks)).toBe('Fish & chips £5')
+    })
+
+    test('should keep reviewer suggestions on runs', () => {
+      const blocks = parseRichText(
+        '<p>We train <del data-suggestion-id="d1" data-author-name="Ben Reviewer" data-created-at="2024-12-01T10:00:00Z">every</del>' +
+        '<ins data-suggestion-id="i1" data-author-name="Ben Reviewer">each</ins> <del>new</del> carer.</p>'
+      )
+
+      expect(blocks[0].type === 'paragraph' && blocks[0].runs).toEqual([
+        { text: 'We train ' },
+        { text: 'every', suggestion: { type: 'deletion', id: 'd1', author: 'Ben Reviewer', date: '2024-12-01T10:00:00Z' } },
+        { text: 'each', suggestion: { type: 'insertion', id: 'i1', author: 'Ben Reviewer' } },
+        { text: ' ' },
+        { text: 'new' },
+        { text: ' carer.' }
+      ])
+    })
+  })
+
+  describe('parseRichText with plain text', () => {
+    test('should read markdown-style headings, lists and emphasis', () => {
+      const blocks = parseRichText('# Staffing\n\nWe employ **42** carers.\n\n- Day team\n- Night team\n\n1. Recruit\n2. Train')
+
+      expect(blocks.map(block => block.type)).toEqual([
+        'heading', 'paragraph', 'list-item', 'list-item', 'list-item', 'list-item'
+      ])
+      expect(blocks[1].type === 'paragraph' && blocks[1].runs[1]).toEqual({ text: '42', bold: true })
+      expect(blocks[4].type === 'list-item' && blocks[4].ordered).toBe(true)
+    })
+  })
+
+  test('should decode numeric and named entities', () => {
+    expect(decodeHtmlEntities('&lt;b&gt; &#x2013; &unknown;')).toBe('<b> – &unknown;')
+  })
+
+  test('should count words across rich text content', () => {
+    expect(countRichTextWords('<p>One <strong>two</strong></p><ul><li>three four</li></ul>')).toBe(4)
+    expect(countRichTextWords('')).toBe(0)
+  })
+})
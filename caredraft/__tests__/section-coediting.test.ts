@@ -0,0 +1,193 @@
+/**
+ * Section co-editing test suite
+ * Tests that concurrent and offline edits converge, and loading and saving
+ * section documents
+ */
+
+import { SectionCoeditingService, externalEditSite } from '../lib/services/section-coediting'
+import { CrdtOperation, TextCrdt } from '../lib/utils/text-crdt'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+const BASE = 'Carers are trained in safeguarding.'
+
+// Two copies of the same starting text, as two writers would have
+function twoCopies(text = BASE): [TextCrdt, TextCrdt] {
+  const alice = TextCrdt.fromText(text, 'alice')
+  const bob = new TextCrdt('bob', alice.toState())
+  return [alice, bob]
+}
+
+describe('Section co-editing', () => {
+  describe('TextCrdt', () => {
+    test('should converge when concurrent edits arrive in different orders', () => {
+      const [alice, bob] = twoCopies()
+
+      const fromAlice = alice.applyLocalText('All carers are trained in safeguarding.')
+      const fromBob = bob.applyLocalText('Carers are trained in safeguarding every year.')
+      alice.apply(fromBob)
+      bob.apply(fromAlice)
+
+      expect(alice.text()).toBe('All carers are trained in safeguarding every year.')
+      expect(bob.text()).toBe(alice.text())
+    })
+
+    test('should keep concurrent inserts at the same place together', () => {
+      const [alice, bob] = twoCopies()
+
+      const fromAlice = alice.applyLocalText(`${BASE} Training is refreshed.`)
+      const fromBob = bob.applyLocalText(`${BASE} Records are kept.`)
+      alice.apply(fromBob)
+      bob.apply(fromAlice)
+
+      expect(alice.text()).toBe(bob.text())
+      expect([
+        `${BASE} Training is refreshed. Records are kept.`,
+        `${BASE} Records are kept. Training is refreshed.`
+      ]).toContain(alice.text())
+    })
+
+    test('should converge when one writer deletes text another is editing', () => {
+      const [alice, bob] = twoCopies('First sentence. Second sentence. Third sentence.')
+
+      const fromAlice = alice.applyLocalText('First sentence. Third sentence.')
+      const fromBob = bob.applyLocalText('First sentence. Second and better sentence. Third sentence.')
+      alice.apply(fromBob)
+      bob.apply(fromAlice)
+
+      expect(alice.text()).toBe(bob.text())
+      expect(alice.text()).toBe('First sentence. and better Third sentence.')
+    })
+
+    test('should ignore operations it has already applied', () => {
+      const [alice, bob] = twoCopies()
+      const ops = alice.applyLocalText('Carers are trained.')
+
+      expect(bob.apply(ops)).toBe(true)
+      expect(bob.apply(ops)).toBe(false)
+      expect(bob.text()).toBe('Carers are trained.')
+    })
+
+    test('should hold operations until the text they refer to arrives', () => {
+      const [alice, bob] = twoCopies()
+      const first = alice.applyLocalText(`${BASE} Training is refreshed.`)
+      const second = alice.applyLocalText(`${BASE} Training is refreshed yearly.`)
+
+      expect(bob.apply(second)).toBe(false)
+      expect(bob.pendingCount).toBe(1)
+
+      bob.apply(first)
+
+      expect(bob.pendingCount).toBe(0)
+      expect(bob.text()).toBe(alice.text())
+    })
+
+    test('should give the same ids to every copy built from the same text', () => {
+      const alice = TextCrdt.fromText(BASE, 'alice')
+      const bob = TextCrdt.fromText(BASE, 'bob')
+
+      bob.apply(alice.applyLocalText('Carers are trained in safeguarding and first aid.'))
+
+      expect(bob.text()).toBe('Carers are trained in safeguarding and first aid.')
+    })
+
+    test('should round-trip its state', () => {
+      const [alice] = twoCopies()
+      alice.applyLocalText('Carers are trained in first aid.')
+      alice.applyLocalText('All carers are trained in first aid.')
+
+      const copy = new TextCrdt('copy', alice.toState())
+
+      expect(copy.text()).toBe(alice.text())
+      expect(copy.toState()).toEqual(alice.toState())
+      expect(alice.merge(copy.toState())).toBe(false)
+    })
+
+    test('should merge edits made offline with edits made meanwhile', () => {
+      const [alice, bob] = twoCopies()
+
+      // Bob edits offline while Alice's edits are logged
+      const offline: CrdtOperation[][] = [
+        bob.applyLocalText('Carers are trained in safeguarding. Training is refreshed.'),
+        bob.applyLocalText('Carers are trained in safeguarding. Training is refreshed yearly.')
+      ]
+      const logged = alice.applyLocalText('All new carers are trained in safeguarding.')
+
+      // Back online: Bob catches up on the log and sends his edits
+      bob.apply(logged)
+      offline.forEach(ops => alice.apply(ops))
+
+      expect(alice.text()).toBe('All new carers are trained in safeguarding. Training is refreshed yearly.')
+      expect(bob.text()).toBe(alice.text())
+    })
+  })
+
+  describe('SectionCoeditingService', () => {
+    test('should start a document from the section content', async () => {
+      const { client } = createSupabaseMock({
+        sections: [{ data: { id: 'section-1', content: BASE, updated_at: '2024-12-01T10:00:00Z' }, error: null }],
+        section_documents: [{ data: null, error: null }],
+        section_edit_ops: [{ data: [], error: null }]
+      })
+
+      const document = await new SectionCoeditingService(client).loadDocument('section-1')
+
+      expect(document.content).toBe(BASE)
+      expect(document.lastOpId).toBe(0)
+      expect(new TextCrdt('other', document.state).toState()).toEqual(TextCrdt.fromText(BASE, 'other').toState())
+    })
+
+    test('should bring in content saved outside co-editing after the snapshot', async () => {
+      const saved = TextCrdt.fromText(BASE, 'alice')
+      const content = 'Carers are trained in safeguarding and first aid.'
+      const { client } = createSupabaseMock({
+        sections: [{ data: { id: 'section-1', content, updated_at: '2024-12-02T10:00:00Z' }, error: null }],
+        section_documents: [{ data: { state: saved.toState(), last_op_id: 4, updated_at: '2024-12-01T10:00:00Z' }, error: null }],
+        section_edit_ops: [{ data: [], error: null }]
+      })
+
+      const document = await new SectionCoeditingService(client).loadDocument('section-1')
+
+      expect(document.content).toBe(content)
+      expect(document.lastOpId).toBe(4)
+      // Every copy records the outside edit with the same ids
+      const expected = new TextCrdt(externalEditSite(content), saved.toState())
+      expected.applyLocalText(content)
+      expect(document.state).toEqual(expected.toState())
+    })
+
+    test('should not save over a newer snapshot', async () => {
+      const { client, writes } = createSupabaseMock({
+        save_section_document: [{ data: { saved: false, previous_content: BASE }, error: null }]
+      })
+      const crdt = TextCrdt.fromText(BASE, 'alice')
+      crdt.applyLocalText('Carers are trained.')
+
+      const saved = await new SectionCoeditingService(client).saveDocument('section-1', crdt, 3)
+
+      expect(saved).toBe(false)
+      expect(writes.map(write => write.table)).toEqual(['save_section_document'])
+    })
+
+    test('should move comment anchors to the saved content', async () => {
+      const previous = 'We train carers. Records are kept for audit.'
+      const { client, writes } = createSupabaseMock({
+        save_section_document: [{ data: { saved: true, previous_content: previous }, error: null }],
+        comments: [{ data: [{ id: 'c1', text_range_start: 17, text_range_end: 24 }], error: null }]
+      })
+      const crdt = TextCrdt.fromText(previous, 'alice')
+      crdt.applyLocalText(`Since 2019, ${previous}`)
+
+      const saved = await new SectionCoeditingService(client).saveDocument('section-1', crdt, 7)
+
+      expect(saved).toBe(true)
+      expect(writes[0]).toMatchObject({
+        table: 'save_section_document',
+        values: { p_section_id: 'section-1', p_content: `Since 2019, ${previous}`, p_last_op_id: 7 }
+      })
+      expect(writes[1]).toMatchObject({
+        table: 'remap_comment_anchors',
+        values: { p_anchors: [{ id: 'c1', start: 29, end: 36, anchor_text: 'Records', orphaned: false }] }
+      })
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Section versions test suite
+ * Tests saving versions, word diffs between them, milestones and restores
+ */
+
+import { SectionVersionError, SectionVersionsService, sectionPlainText } from '../lib/services/section-versions'
+import { TextCrdt } from '../lib/utils/text-crdt'
+import type { Version } from '../types/collaboration'
+import { createSupabaseMock } from './utils/supabase-mock'
+
+function createVersion(overrides: Partial<Version>): Version {
+  return {
+    id: 'v1',
+    section_id: 'section-1',
+    user_id: 'user-1',
+    content_snapshot: '<p>We train every carer.</p>',
+    version_number: 1,
+    word_count: 4,
+    save_kind: 'autosave',
+    milestone_name: null,
+    word_count_limit: 0,
+    created_at: '2024-12-01T10:00:00Z',
+    ...overrides
+  }
+}
+
+const USERS = [
+  { id: 'user-1', email: 'amy@example.com', full_name: 'Amy Writer' },
+  { id: 'user-2', email: 'ben@example.com', full_name: 'Ben Editor' }
+]
+
+describe('Section versions', () => {
+  test('should read section content as text, one block per line', () => {
+    expect(sectionPlainText('<p>First &amp; foremost.</p><p>Second.</p>')).toBe('First & foremost.\nSecond.')
+    expect(sectionPlainText(null)).toBe('')
+  })
+
+  test('should list versions newest first with their authors', async () => {
+    const { client } = createSupabaseMock({
+      versions: [{ data: [createVersion({ id: 'v2', version_number: 2, user_id: 'user-2' }), createVersion({})], error: null }],
+      users: [{ data: USERS, error: null }]
+    })
+
+    const versions = await new SectionVersionsService(client).getVersions('section-1')
+
+    expect(versions.map(v => [v.version_number, v.user?.user_metadata?.full_name])).toEqual([[2, 'Ben Editor'], [1, 'Amy Writer']])
+  })
+
+  test('should save a version with its word count and kind', async () => {
+    const { client, writes } = createSupabaseMock({
+      save_section_version: [{ data: createVersion({ version_number: 3, milestone_name: 'Submitted' }), error: null }]
+    })
+
+    const version = await new SectionVersionsService(client).saveVersion({
+      section_id: 'section-1',
+      content_snapshot: '<p>We train every carer.</p><p>Records are kept.</p>',
+      save_kind: 'manual',
+      milestone_name: '  Submitted '
+    })
+
+    expect(version.milestone_name).toBe('Submitted')
+    expect(writes[0]).toEqual({
+      table: 'save_section_version',
+      op: 'rpc',
+      values: {
+        p_section_id: 'section-1',
+        p_content: '<p>We train every carer.</p><p>Records are kept.</p>',
+        p_word_count: 7,
+        p_change_summary: null,
+        p_save_kind: 'manual',
+        p_milestone_name: 'Submitted',
+        p_restored_from_version: null
+      }
+    })
+  })
+
+  test('should diff two versions word by word with everyone who changed them', async () => {
+    const { client } = createSupabaseMock({
+      versions: [{
+        data: [
+          createVersion({ version_number: 1, content_snapshot: '<p>We train every carer.</p>' }),
+          createVersion({ id: 'v2', version_number: 2, user_id: 'user-2', content_snapshot: '<p>We train every new carer.</p>' }),
+          createVersion({ id: 'v3', version_number: 3, user_id: 'user-1', content_snapshot: '<p>We train every new carer yearly.</p>' })
+        ],
+        error: null
+      }],
+      sections: [{ data: { word_count_limit: 5 }, error: null }],
+      users: [{ data: USERS, error: null }]
+    })
+
+    const diff = await new SectionVersionsService(client).diffVersions('section-1', 3, 1)
+
+    expect(diff).not.toBeNull()
+    expect([diff!.from.version_number, diff!.to.version_number]).toEqual([1, 3])
+    expect(diff!.segments).toEqual([
+      { type: 'equal', value: 'We train every ' },
+      { type: 'insert', value: 'new ' },
+      { type: 'equal', value: 'carer' },
+      { type: 'insert', value: ' yearly' },
+      { type: 'equal', value: '.' }
+    ])
+    expect(diff!.stats).toEqual({ wordsAdded: 2, wordsRemoved: 0, unchanged: false })
+    expect(diff!.authors.map(author => author.id)).toEqual(['user-2', 'user-1'])
+    expect(diff!.word_count_limit).toBe(5)
+  })
+
+  test('should return null when a compared version is missing', async () => {
+    const { client } = createSupabaseMock({
+      versions: [{ data: [createVersion({})], error: null }],
+      sections: [{ data: { word_count_limit: 0 }, error: null }]
+    })
+
+    expect(await new SectionVersionsService(client).diffVersions('section-1', 1, 4)).toBeNull()
+  })
+
+  test('should keep the current text as a version before restoring an earlier one', async () => {
+    const current = '<p>We train every new carer yearly.</p>'
+    const restoredContent = '<p>We train every carer.</p>'
+    const { client, writes } = createSupabaseMock({
+      versions: [{ data: createVersion({ content_snapshot: restoredContent }), error: null }],
+      sections: [{ data: { id: 'section-1', content: current, updated_at: '2024-12-01T10:00:00Z' }, error: null }],
+      section_documents: [{ data: null, error: null }],
+      section_edit_ops: [{ data: [], error: null }, { data: { id: 12 }, error: null }],
+      save_section_version: [
+        { data: createVersion({ id: 'v4', version_number: 4, content_snapshot: current }), error: null },
+        { data: createVersion({ id: 'v5', version_number: 5, save_kind: 'restore', restored_from_version: 1 }), error: null }
+      ],
+      save_section_document: [{ data: { saved: true, previous_content: current }, error: null }],
+      comments: [{ data: [], error: null }]
+    })
+
+    const version = await new SectionVersionsService(client).restoreVersion('section-1', 1)
+
+    expect(version).toMatchObject({ version_number: 5, save_kind: 'restore', restored_from_version: 1 })
+    expect(writes.map(write => write.table)).toEqual([
+      'save_section_version',
+      'section_edit_ops',
+      'save_section_document',
+      'save_section_version'
+    ])
+    expect(writes[0].values).toMatchObject({ p_content: current, p_save_kind: 'autosave', p_change_summary: 'Before restoring version 1' })
+    expect(writes[2].values).toMatchObject({ p_content: restoredContent, p_last_op_id: 12 })
+    expect(writes[3].values).toMatchObject({ p_content: restoredContent, p_save_kind: 'restore', p_restored_from_version: 1 })
+
+    // The restore is logged as an edit, so open editors pick it up
+    const edit = writes[1].values as { ops: Parameters<TextCrdt['apply']>[0] }
+    const editor = TextCrdt.fromText(current, 'editor')
+    editor.apply(edit.ops)
+    expect(editor.text()).toBe(restoredContent)
+  })
+
+  test('should refuse to restore a version the section already matches', async () => {
+    const content = '<p>We train every carer.</p>'
+    const { client, writes } = createSupabaseMock({
+      versions: [{ data: createVersion({ content_snapshot: content }), error: null }],
+      sections: [{ data: { id: 'section-1', content, updated_at: '2024-12-01T10:00:00Z' }, error: null }],
+      section_documents: [{ data: null, error: null }],
+      section_edit_ops: [{ data: [], error: null }]
+    })
+
+    await expect(new SectionVersionsService(client).restoreVersion('section-1', 1))
+      .rejects.toMatchObject({ code: 'no_changes' })
+    expect(writes).toEqual([])
+  })
+
+  test('should report a missing version when naming a milestone', async () => {
+    const { client } = createSupabaseMock({ versions: [{ data: null, error: null }] })
+
+    const naming = new SectionVersionsService(client).nameMilestone('section-1', 9, 'Sent for red review')
+
+    await expect(naming).rejects.toBeInstanceOf(SectionVersionError)
+    await expect(naming).rejects.toMatchObject({ code: 'not_found' })
+  })
+})
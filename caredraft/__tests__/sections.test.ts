@@ -0,0 +1,80 @@
+/**
+ * Section tree test suite
+ * Tests building and flattening the hierarchical section tree
+ */
+
+import { buildSectionTree, flattenSectionTree } from '../lib/sections'
+import type { Section } from '../lib/database.types'
+
+function createSection(overrides: Partial<Section> & { id: string }): Section {
+  return {
+    title: overrides.id,
+    content: null,
+    created_at: '2024-12-01T00:00:00Z',
+    current_word_count: 0,
+    description: null,
+    due_date: null,
+    owner_id: null,
+    parent_section_id: null,
+    project_id: 'project-1',
+    sort_order: 0,
+    status: 'not_started',
+    tender_question_id: null,
+    updated_at: null,
+    word_count_limit: 0,
+    ...overrides
+  }
+}
+
+describe('Section tree', () => {
+  describe('buildSectionTree', () => {
+    test('should nest children under their parents', () => {
+      const tree = buildSectionTree([
+        createSection({ id: 'root' }),
+        createSection({ id: 'child', parent_section_id: 'root' }),
+        createSection({ id: 'grandchild', parent_section_id: 'child' })
+      ])
+
+      expect(tree).toHaveLength(1)
+      expect(tree[0].children![0].id).toBe('child')
+      expect(tree[0].children![0].children![0].id).toBe('grandchild')
+    })
+
+    test('should order siblings by sort_order then creation time', () => {
+      const tree = buildSectionTree([
+        createSection({ id: 'b', sort_order: 1 }),
+        createSection({ id: 'c', sort_order: 1, created_at: '2024-12-02T00:00:00Z' }),
+        createSection({ id: 'a', sort_order: 0 })
+      ])
+
+      expect(tree.map(s => s.id)).toEqual(['a', 'b', 'c'])
+    })
+
+    test('should treat sections with a missing parent as roots', () => {
+      const tree = buildSectionTree([
+        createSection({ id: 'orphan', parent_section_id: 'not-loaded' })
+      ])
+
+      expect(tree.map(s => s.id)).toEqual(['orphan'])
+    })
+
+    test('should attach owner details when available', () => {
+      const owners = new Map([['user-1', { id: 'user-1', email: 'writer@example.com', full_name: 'Writer' }]])
+      const tree = buildSectionTree([createSection({ id: 'owned', owner_id: 'user-1' })], owners)
+
+      expect(tree[0].owner?.full_name).toBe('Writer')
+    })
+  })
+
+  describe('flattenSectionTree', () => {
+    test('should return sections in depth-first order', () => {
+      const tree = buildSectionTree([
+        createSection({ id: '1', sort_order: 0 }),
+        createSection({ id: '2', sort_order: 1 }),
+        createSection({ id: '1.1', parent_section_id: '1' })
+      ])
+
+      expect(flattenSectionTree(tree).map(s => s.id)).toEqual(['1', '1.1', '2'])
+    })
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Tender knowledge integration test suite
+ * Tests semantic relevance scoring, diversification and case study
+ * recommendations across the knowledge base and answer bank
+ */
+
+import { LocalEmbeddingProvider } from '../lib/services/embedding-providers'
+import { EmbeddingService } from '../lib/services/embedding-service'
+import {
+  TenderContextQuery,
+  TenderKnowledgeIntegrationService,
+  diversifyResults,
+  similarityToScore
+} from '../lib/services/tender-knowledge-integration'
+import { createSupabaseMock, type QueryResult } from './utils/supabase-mock'
+
+/**
+ * Supabase stand-in where tables with nothing queued return no rows and each
+ * function always returns the same result
+ */
+function createKnowledgeMock(results: Record<string, QueryResult[]>, rpcResults: Record<string, QueryResult> = {}) {
+  const empty = { data: [], error: null }
+  return createSupabaseMock(results, { empty, rpc: name => rpcResults[name] ?? empty }).client
+}
+
+const query: TenderContextQuery = {
+  tender_id: 'tender-1',
+  requirements: [
+    '24/7 emergency response capability for domiciliary care visits',
+    'Electronic call monitoring of care visits'
+  ],
+  evaluation_criteria: [
+    { criteria: 'Technical quality of domiciliary care delivery', weight: 60 },
+    { criteria: 'Social value and local employment', weight: 40 }
+  ],
+  compliance_requirements: ['Safeguarding adults policies and procedures'],
+  issuing_authority: 'Leeds City Council',
+  max_results: 5
+}
+
+const caseStudy = {
+  chunk_id: 'chunk-1',
+  document_id: 'doc-case',
+  document_title: 'Leeds domiciliary care case study',
+  chunk_content: 'Case study: for Leeds City Council we run 24/7 emergency response for domiciliary care visits, with electronic call monitoring of every care visit.',
+  similarity_score: 0.82,
+  metadata: {}
+}
+
+const policy = {
+  chunk_id: 'chunk-2',
+  document_id: 'doc-policy',
+  document_title: 'Safeguarding adults policy',
+  chunk_content: 'Safeguarding adults policies and procedures: concerns are reported to the safeguarding lead within one hour.',
+  similarity_score: 0.76,
+  metadata: {}
+}
+
+describe('Tender knowledge integration', () => {
+  describe('similarityToScore', () => {
+    test('should treat weak similarity as no match and scale the rest to 100', () => {
+      expect(similarityToScore(0.1)).toBe(0)
+      expect(similarityToScore(0.6)).toBe(50)
+      expect(similarityToScore(1)).toBe(100)
+    })
+  })
+
+  describe('diversifyResults', () => {
+    test('should prefer a different source over a near-duplicate of one already chosen', () => {
+      const items = [
+        { id: 'a', embedding: [1, 0], relevance: 0.9 },
+        { id: 'a-copy', embedding: [0.99, 0.01], relevance: 0.88 },
+        { id: 'b', embedding: [0, 1], relevance: 0.7 }
+      ]
+
+      expect(diversifyResults(items, 2).map(item => item.id)).toEqual(['a', 'b'])
+      expect(diversifyResults(items, 2, 1).map(item => item.id)).toEqual(['a', 'a-copy'])
+    })
+  })
+
+  describe('rankKnowledge', () => {
+    function createService(answers: unknown[]) {
+      const client = createKnowledgeMock({
+        knowledge_documents: [{
+          data: [
+            { id: 'doc-case', title: 'Leeds domiciliary care case study', tags: ['case study'], metadata: {}, updated_at: '2024-05-01' },
+            { id: 'doc-policy', title: 'Safeguarding adults policy', tags: [], metadata: {}, updated_at: '2024-04-01' }
+          ],
+          error: null
+        }],
+        answer_bank: [{ data: answers, error: null }]
+      }, {
+        search_similar_chunks: { data: [caseStudy, policy], error: null }
+      })
+      return new TenderKnowledgeIntegrationService(client, new EmbeddingService(client, new LocalEmbeddingProvider()))
+    }
+
+    const socialValueAnswer = {
+      id: 'answer-1',
+      title: 'Social value commitments',
+      content: 'Our social value approach focuses on local employment, apprenticeships and community benefit.',
+      tags: ['social value'],
+      usage_count: 12,
+      updated_at: '2024-03-01'
+    }
+
+    test('should rank sources from both the knowledge base and answer bank with a score breakdown', async () => {
+      const result = await createService([socialValueAnswer]).rankKnowledge(query)
+
+      expect(result.sources[0]).toEqual(expect.objectContaining({ id: 'doc-case', type: 'case-study', origin: 'knowledge-base' }))
+      expect(result.sources.map(source => source.origin)).toEqual(expect.arrayContaining(['knowledge-base', 'answer-bank']))
+
+      const caseScore = result.relevance_scores[0]
+      expect(caseScore.source_id).toBe('doc-case')
+      expect(caseScore.relevance_factors.authority_match).toBe(100)
+      expect(caseScore.relevance_factors.requirement_match).toBeGreaterThan(0)
+      expect(caseScore.matched_requirements?.[0].score).toBeGreaterThan(0)
+      expect(caseScore.case_study_applicability).toBeGreaterThan(0)
+
+      const answerScore = result.relevance_scores[result.sources.findIndex(source => source.id === 'answer-1')]
+      expect(answerScore.relevance_factors.historical_success).toBe(24)
+      expect(answerScore.suggested_sections[0]).toBe('Social value and local employment')
+    })
+
+    test('should recommend case studies with the requirement they evidence', async () => {
+      const result = await createService([]).rankKnowledge(query)
+
+      expect(result.case_study_recommendations).toHaveLength(1)
+      expect(result.case_study_recommendations[0]).toMatch(/^Leeds domiciliary care case study: Evidences ".+" for Leeds City Council$/)
+    })
+
+    test('should still rank the answer bank when knowledge search fails', async () => {
+      const client = createKnowledgeMock({ answer_bank: [{ data: [socialValueAnswer], error: null }] }, {
+        search_similar_chunks: { data: null, error: { message: 'function does not exist' } }
+      })
+      const service = new TenderKnowledgeIntegrationService(client, new EmbeddingService(client, new LocalEmbeddingProvider()))
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await service.rankKnowledge(query)
+
+      expect(result.sources.map(source => source.id)).toEqual(['answer-1'])
+    })
+  })
+
+  describe('getRelevantKnowledge', () => {
+    test('should rank against the stored tender and return its details', async () => {
+      const client = createKnowledgeMock({
+        tender_workflows: [{
+          data: {
+            title: 'Leeds domiciliary care',
+            issuing_authority: null,
+            deadline: '2025-03-01T12:00:00Z',
+            contract_value: 250000000,
+            tender_metadata: [{
+              issuing_body: 'Leeds City Council',
+              scoring_weightings: { 'Technical quality': 60, 'Social value': 40 },
+              compliance_requirements: ['Safeguarding adults policies and procedures'],
+              special_conditions: ['TUPE applies to existing staff']
+            }],
+            tender_questions: [{ question_text: 'Describe your 24/7 emergency response.' }]
+          },
+          error: null
+        }]
+      })
+      const service = new TenderKnowledgeIntegrationService(client, new EmbeddingService(client, new LocalEmbeddingProvider()))
+
+      const result = await service.getRelevantKnowledge('tender-1')
+
+      expect(result?.tender).toEqual({
+        title: 'Leeds domiciliary care',
+        issuing_authority: 'Leeds City Council',
+        deadline: '2025-03-01T12:00:00Z',
+        contract_value: 2500000,
+        requirements: ['Describe your 24/7 emergency response.', 'TUPE applies to existing staff'],
+        evaluation_criteria: [{ criteria: 'Technical quality', weight: 60 }, { criteria: 'Social value', weight: 40 }],
+        compliance_requirements: ['Safeguarding adults policies and procedures']
+      })
+      expect(result?.sources).toEqual([])
+    })
+
+    test('should return null for a tender the caller cannot see', async () => {
+      const client = createKnowledgeMock({ tender_workflows: [{ data: null, error: null }] })
+
+      await expect(new TenderKnowledgeIntegrationService(client).getRelevantKnowledge('tender-2')).resolves.toBeNull()
+    })
+  })
+})
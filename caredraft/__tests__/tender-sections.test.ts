@@ -0,0 +1,124 @@
+/**
+ * Tender section generation test suite
+ * Tests planning a section hierarchy from tender questions and writing it
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  TenderSectionService,
+  parseSectionReference,
+  planSectionsFromQuestions,
+  questionSectionTitle
+} from '../lib/services/tender-sections'
+import type { TenderQuestion } from '../lib/types/tender'
+
+function createQuestion(overrides: Partial<TenderQuestion> & { id: string }): TenderQuestion {
+  return {
+    tender_workflow_id: 'tender-1',
+    question_text: 'Describe your approach.',
+    mandatory: true,
+    status: 'not_started',
+    word_count: 0,
+    created_at: '2024-12-01T00:00:00Z',
+    updated_at: '2024-12-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('Tender section generation', () => {
+  describe('parseSectionReference', () => {
+    test('should expand dotted numbers into nested levels', () => {
+      expect(parseSectionReference('2.1.3')).toEqual(['2', '2.1', '2.1.3'])
+    })
+
+    test('should split named paths', () => {
+      expect(parseSectionReference('Quality > Staffing')).toEqual(['Quality', 'Staffing'])
+    })
+
+    test('should return no levels for an empty reference', () => {
+      expect(parseSectionReference(undefined)).toEqual([])
+      expect(parseSectionReference('  ')).toEqual([])
+    })
+  })
+
+  describe('questionSectionTitle', () => {
+    test('should prefix the question number and keep the first sentence', () => {
+      expect(questionSectionTitle({
+        question_number: '3.2',
+        question_text: 'Describe your safeguarding approach. Include escalation routes.'
+      })).toBe('Q3.2: Describe your safeguarding approach.')
+    })
+
+    test('should not double the Q prefix', () => {
+      expect(questionSectionTitle({ question_number: 'Q1', question_text: 'Mobilisation plan' }))
+        .toBe('Q1: Mobilisation plan')
+    })
+  })
+
+  describe('planSectionsFromQuestions', () => {
+    test('should create one section per question nested by section reference', () => {
+      const plan = planSectionsFromQuestions([
+        createQuestion({ id: 'q2', question_number: '2', section_reference: 'Quality', word_limit: 500 }),
+        createQuestion({ id: 'q1', question_number: '1', section_reference: 'Quality', assigned_to: 'user-1' }),
+        createQuestion({ id: 'q3', question_number: '3', section_reference: 'Social Value' })
+      ])
+
+      expect(plan.map(node => node.title)).toEqual(['Quality', 'Social Value'])
+      expect(plan[0].children.map(node => node.questionId)).toEqual(['q1', 'q2'])
+      expect(plan[0].children[0].ownerId).toBe('user-1')
+      expect(plan[0].children[1].wordCountLimit).toBe(500)
+    })
+
+    test('should order questions naturally and keep unreferenced questions at the root', () => {
+      const plan = planSectionsFromQuestions([
+        createQuestion({ id: 'q10', question_number: '10' }),
+        createQuestion({ id: 'q9', question_number: '9' })
+      ])
+
+      expect(plan.map(node => node.questionId)).toEqual(['q9', 'q10'])
+    })
+
+    test('should give group sections the earliest question due date', () => {
+      const plan = planSectionsFromQuestions([
+        createQuestion({ id: 'a', section_reference: '1.1', due_date: '2025-01-10T00:00:00Z' }),
+        createQuestion({ id: 'b', section_reference: '1.2', due_date: '2025-01-05T00:00:00Z' })
+      ])
+
+      expect(plan[0].title).toBe('Section 1')
+      expect(plan[0].dueDate).toBe('2025-01-05T00:00:00Z')
+      expect(plan[0].children.map(node => node.title)).toEqual(['Section 1.1', 'Section 1.2'])
+    })
+  })
+
+  describe('TenderSectionService.generateSectionsFromQuestions', () => {
+    test('should write the whole plan in one call, leaving owners to the question', async () => {
+      const questions = [createQuestion({ id: 'q1', question_number: '1', section_reference: 'Quality', assigned_to: 'user-2' })]
+      const query = (data: unknown) => {
+        const builder: Record<string, unknown> = {}
+        builder.select = builder.eq = builder.order = () => builder
+        builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve({ data, error: null }).then(resolve)
+        return builder
+      }
+      const rpc = jest.fn().mockResolvedValue({ data: { created: 2, skipped: 0 }, error: null })
+      const client = {
+        from: (table: string) => query(table === 'tender_questions' ? questions : []),
+        rpc
+      } as unknown as SupabaseClient
+
+      const result = await new TenderSectionService(client).generateSectionsFromQuestions('tender-1')
+
+      expect(rpc).toHaveBeenCalledTimes(1)
+      expect(rpc).toHaveBeenCalledWith('generate_tender_sections', {
+        p_tender_workflow_id: 'tender-1',
+        p_plan: [{
+          title: 'Quality',
+          description: null,
+          question_id: null,
+          due_date: null,
+          children: [{ title: 'Q1: Describe your approach.', description: 'Describe your approach.', question_id: 'q1', due_date: null, children: [] }]
+        }]
+      })
+      expect(result).toMatchObject({ created: 2, skipped: 0, sections: [] })
+    })
+  })
+})
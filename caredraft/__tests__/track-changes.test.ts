@@ -0,0 +1,130 @@
+/**
+ * Track changes test suite
+ * Tests recording edits as suggestions and accepting or rejecting them
+ */
+
+import { Editor } from '@tiptap/react'
+import StarterKit from '@tiptap/starter-kit'
+import { TrackChanges, getSuggestions } from '../lib/editor/track-changes'
+
+const REVIEWER = { id: 'user-2', name: 'Ben Reviewer' }
+
+function createEditor(content: string) {
+  return new Editor({ extensions: [StarterKit, TrackChanges], content })
+}
+
+// Position just after the first occurrence of text
+function positionAfter(editor: Editor, text: string): number {
+  let found = -1
+  editor.state.doc.descendants((node, pos) => {
+    if (found >= 0 || !node.isText) return
+    const index = node.text!.indexOf(text)
+    if (index >= 0) found = pos + index + text.length
+  })
+  if (found < 0) throw new Error(`"${text}" not found`)
+  return found
+}
+
+describe('Track changes', () => {
+  let editor: Editor
+
+  afterEach(() => editor?.destroy())
+
+  test('should edit directly when not suggesting', () => {
+    editor = createEditor('<p>We train every carer.</p>')
+
+    editor.commands.insertContentAt(positionAfter(editor, 'every'), ' new')
+
+    expect(editor.getHTML()).toBe('<p>We train every new carer.</p>')
+    expect(getSuggestions(editor.state.doc)).toEqual([])
+  })
+
+  test('should record typing as one insertion by the reviewer', () => {
+    editor = createEditor('<p>We train every carer.</p>')
+    editor.commands.setSuggesting(REVIEWER)
+
+    const at = positionAfter(editor, 'every')
+    editor.commands.insertContentAt(at, ' ')
+    editor.commands.insertContentAt(at + 1, 'new')
+
+    const suggestions = getSuggestions(editor.state.doc)
+    expect(suggestions).toHaveLength(1)
+    expect(suggestions[0]).toMatchObject({ type: 'insertion', authorId: 'user-2', authorName: 'Ben Reviewer', text: ' new' })
+    expect(editor.getHTML()).toContain('data-author-name="Ben Reviewer"')
+    expect(editor.getText()).toBe('We train every new carer.')
+  })
+
+  test('should keep deleted text as a deletion and step the cursor back over it', () => {
+    editor = createEditor('<p>We train every carer.</p>')
+    editor.commands.setSuggesting(REVIEWER)
+    const end = positionAfter(editor, 'every')
+    editor.commands.setTextSelection(end)
+
+    editor.commands.deleteRange({ from: end - 1, to: end })
+    editor.commands.deleteRange({ from: end - 2, to: end - 1 })
+
+    expect(editor.getText()).toBe('We train every carer.')
+    expect(getSuggestions(editor.state.doc)).toEqual([
+      expect.objectContaining({ type: 'deletion', authorId: 'user-2', text: 'ry' })
+    ])
+    expect(editor.state.selection.from).toBe(end - 2)
+  })
+
+  test('should take back a suggested insertion when it is deleted', () => {
+    editor = createEditor('<p>We train every carer.</p>')
+    editor.commands.setSuggesting(REVIEWER)
+    const at = positionAfter(editor, 'every')
+
+    editor.commands.insertContentAt(at, ' new')
+    editor.commands.deleteRange({ from: at, to: at + 4 })
+
+    expect(editor.getHTML()).toBe('<p>We train every carer.</p>')
+    expect(getSuggestions(editor.state.doc)).toEqual([])
+  })
+
+  test('should suggest replacing selected text with both a deletion and an insertion', () => {
+    editor = createEditor('<p>We train every carer.</p>')
+    editor.commands.setSuggesting(REVIEWER)
+    const end = positionAfter(editor, 'every')
+
+    editor.chain().setTextSelection({ from: end - 5, to: end }).insertContent('each').run()
+
+    expect(editor.getText()).toBe('We train everyeach carer.')
+    expect(getSuggestions(editor.state.doc).map(s => [s.type, s.text])).toEqual([['deletion', 'every'], ['insertion', 'each']])
+  })
+
+  test('should accept or reject one suggestion at a time', () => {
+    editor = createEditor(
+      '<p>We train <del data-suggestion-id="d1" data-author-id="user-2">every</del><ins data-suggestion-id="i1" data-author-id="user-2">each</ins> carer<ins data-suggestion-id="i2" data-author-id="user-3"> yearly</ins>.</p>'
+    )
+
+    editor.commands.acceptSuggestion('d1')
+    editor.commands.rejectSuggestion('i2')
+
+    expect(editor.getText()).toBe('We train each carer.')
+    expect(getSuggestions(editor.state.doc).map(s => s.id)).toEqual(['i1'])
+  })
+
+  test('should accept or reject every suggestion at once', () => {
+    const content = '<p>We train <del data-suggestion-id="d1">every</del><ins data-suggestion-id="i1">each</ins> carer.</p>'
+
+    editor = createEditor(content)
+    editor.commands.acceptAllSuggestions()
+    expect(editor.getHTML()).toBe('<p>We train each carer.</p>')
+    editor.destroy()
+
+    editor = createEditor(content)
+    editor.commands.rejectAllSuggestions()
+    expect(editor.getHTML()).toBe('<p>We train every carer.</p>')
+  })
+
+  test('should not record accepting a suggestion as a new one', () => {
+    editor = createEditor('<p>We train <del data-suggestion-id="d1">every</del> carer.</p>')
+    editor.commands.setSuggesting(REVIEWER)
+
+    editor.commands.acceptSuggestion('d1')
+
+    expect(editor.getText()).toBe('We train  carer.')
+    expect(getSuggestions(editor.state.doc)).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type QueryResult = { data: unknown; error: { message: string; code?: string } | null }
+
+export type Write = {
+  // The table written to, or the function called for `rpc`
+  table: string
+  op: 'insert' | 'update' | 'upsert' | 'delete' | 'rpc'
+  values?: unknown
+  options?: unknown
+  // Equality filters of the write's query, with recordWriteFilters
+  filters?: Record<string, unknown>
+}
+
+export type Filter = { table: string; method: string; column: string; value: unknown }
+
+export interface SupabaseMockOptions {
+  // Result for a table or function with nothing queued
+  empty?: QueryResult
+  // Result for a function call with nothing queued, instead of `empty`
+  rpc?: (name: string, args: unknown) => QueryResult
+  // Record each write's equality filters on the write
+  recordWriteFilters?: boolean
+  // Extra client members, such as auth or storage stand-ins
+  client?: Record<string, unknown>
+}
+
+const MODIFIERS = ['select', 'or', 'order', 'limit', 'range']
+const FILTERS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'like', 'ilike', 'is', 'in', 'not', 'contains']
+const WRITES = ['insert', 'update', 'upsert', 'delete'] as const
+
+/**
+ * Minimal Supabase stand-in: table queries and RPC calls resolve with the
+ * next queued result for that table or function; writes, RPC calls and
+ * filters are recorded in the order they are made
+ */
+export function createSupabaseMock(results: Record<string, QueryResult[]>, options: SupabaseMockOptions = {}) {
+  const writes: Write[] = []
+  const filters: Filter[] = []
+  const empty = options.empty ?? { data: null, error: null }
+  const next = (key: string) => results[key]?.shift()
+
+  const from = (table: string) => {
+    const equalities: Record<string, unknown> = {}
+    const result = () => Promise.resolve(next(table) ?? empty)
+    const builder: Record<string, unknown> = {}
+
+    for (const method of MODIFIERS) {
+      builder[method] = () => builder
+    }
+    for (const method of FILTERS) {
+      builder[method] = (column: string, value: unknown) => {
+        filters.push({ table, method, column, value })
+        if (method === 'eq') equalities[column] = value
+        return builder
+      }
+    }
+    for (const op of WRITES) {
+      builder[op] = (values?: unknown, writeOptions?: unknown) => {
+        writes.push({
+          table,
+          op,
+          values,
+          options: writeOptions,
+          filters: options.recordWriteFilters ? equalities : undefined
+        })
+        return builder
+      }
+    }
+    builder.single = builder.maybeSingle = result
+    builder.then = (resolve: (value: QueryResult) => unknown, reject?: (reason: unknown) => unknown) =>
+      result().then(resolve, reject)
+    return builder
+  }
+
+  const rpc = (name: string, args?: unknown) => {
+    writes.push({ table: name, op: 'rpc', values: args })
+    const result = Promise.resolve(next(name) ?? options.rpc?.(name, args) ?? empty)
+    return Object.assign(result, { single: () => result, maybeSingle: () => result })
+  }
+
+  const client = { ...options.client, from, rpc } as unknown as SupabaseClient
+  return { client, writes, filters }
+}
@@ -0,0 +1,14 @@
+'use client'
+
+import DeadlineDashboard from '@/components/admin/DeadlineDashboard'
+
+export default function DeadlinesPage() {
+  return (
+    <div className="container mx-auto py-6">
+      <DeadlineDashboard />
+    </div>
+  )
+}
+
+// Disable static generation for this page since it has client-side functionality
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,11 @@
+import { Metadata } from 'next'
+import AnswerReviewQueue from '@/components/answer-bank/AnswerReviewQueue'
+
+export const metadata: Metadata = {
+  title: 'Answer Review Queue | CareDraft',
+  description: 'Review expired answers and answers due for review',
+}
+
+export default function AnswerReviewQueuePage() {
+  return <AnswerReviewQueue />
+}
@@ -7,10 +7,18 @@ export const metadata: Metadata = {
 }
 
 interface DraftBuilderPageProps {
-  searchParams: Promise<{ proposalId?: string }>
+  // section and comment come from comment and mention notifications
+  searchParams: Promise<{ proposalId?: string; tenderId?: string; section?: string; comment?: string }>
 }
 
 export default async function DraftBuilderPage({ searchParams }: DraftBuilderPageProps) {
   const resolvedSearchParams = await searchParams
-  return <LazyDraftBuilder proposalId={resolvedSearchParams.proposalId} />
+  return (
+    <LazyDraftBuilder
+      proposalId={resolvedSearchParams.proposalId}
+      tenderId={resolvedSearchParams.tenderId}
+      sectionId={resolvedSearchParams.section}
+      commentId={resolvedSearchParams.comment}
+    />
+  )
 } 
\ No newline at end of file
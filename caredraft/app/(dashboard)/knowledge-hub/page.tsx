@@ -6,41 +6,19 @@ export const dynamic = 'force-dynamic'
 
 
 
-import React, { useState } from 'react'
-import { Search, Filter, BookOpen, Globe, TrendingUp, FileText, Clock, Star, Settings } from 'lucide-react'
+import React, { useCallback, useEffect, useState } from 'react'
+import { Search, Filter, BookOpen, Globe, TrendingUp, FileText, Clock, Star, Trash2, Tag, Lightbulb } from 'lucide-react'
 // SearchBar and SearchFilters components removed - functionality integrated inline
 import SearchResults from '@/components/knowledge-hub/SearchResults'
-import { KnowledgeSearchService } from '@/lib/services/knowledge-search'
+import type { SearchResponse, SearchResult } from '@/types/knowledge-search'
+import { INTERNAL_SEARCH_SOURCES } from '@/types/knowledge-search'
 
 interface SearchFiltersState {
   contentType: string
   dateRange: string
   source: string
   sortBy: string
-}
-
-interface SearchResult {
-  id: string
-  title: string
-  content?: string
-  excerpt: string
-  type: 'document' | 'policy' | 'template' | 'research' | 'news' | 'compliance' | 'web' | 'regulatory' | 'guidance'
-  source: string
-  url?: string
-  date: string
-  relevanceScore: number
-  metadata: {
-    author?: string
-    tags: string[]
-    fileType?: string
-    wordCount?: number
-    lastModified?: string
-    domain?: string
-    hasImages?: boolean
-    isNews?: boolean
-    language?: string
-    highlights?: string[]
-  }
+  tags: string[]
 }
 
 interface SearchState {
@@ -53,6 +31,8 @@ interface SearchState {
   totalCount: number
   searchTime: number
   aiSummary?: string
+  suggestedQueries: string[]
+  facets: SearchResponse['facets']
 }
 
 export default function KnowledgeHubPage() {
@@ -64,49 +44,107 @@ export default function KnowledgeHubPage() {
       contentType: 'all',
       dateRange: 'all',
       source: 'all',
-      sortBy: 'relevance'
+      sortBy: 'relevance',
+      tags: []
     },
     isSearching: false,
     results: [],
     totalCount: 0,
     searchTime: 0,
-    aiSummary: undefined
+    aiSummary: undefined,
+    suggestedQueries: [],
+    facets: { contentTypes: {}, sources: {}, tags: {} }
   })
+  const [searchHistory, setSearchHistory] = useState<string[]>([])
 
   const [activeTab, setActiveTab] = useState<'internal' | 'external' | 'competitor' | 'policy'>('internal')
   const [showFilters, setShowFilters] = useState(false)
 
-  const handleSearch = async () => {
-    if (!searchState.query.trim()) return
-    
-    setSearchState(prev => ({ ...prev, isSearching: true }))
-    
+  const loadSearchHistory = useCallback(async () => {
     try {
-      const searchService = KnowledgeSearchService.getInstance()
-      const searchQuery = {
-        query: searchState.query,
-        useLibraryAI: searchState.useLibraryAI,
-        useInternetAI: searchState.useInternetAI,
-        filters: searchState.filters
+      const response = await fetch('/api/knowledge-hub/search/history')
+      if (!response.ok) return
+      const data = await response.json()
+      setSearchHistory(data.history)
+    } catch (error) {
+      console.error('Failed to load search history:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSearchHistory()
+  }, [loadSearchHistory])
+
+  const runSearch = async (query: string, filters: SearchFiltersState) => {
+    if (!query.trim()) return
+
+    setSearchState(prev => ({ ...prev, query, filters, isSearching: true }))
+
+    try {
+      const response = await fetch('/api/knowledge-hub/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query,
+          useLibraryAI: searchState.useLibraryAI,
+          useInternetAI: searchState.useInternetAI,
+          // The library AI toggle asks for a summary of the top results
+          includeSummary: searchState.useLibraryAI,
+          filters
+        })
+      })
+      if (!response.ok) {
+        throw new Error(`Search failed: ${response.status}`)
       }
-      
-      const response = await searchService.search(searchQuery)
-      
+
+      const result: SearchResponse = await response.json()
+
       setSearchState(prev => ({
         ...prev,
-        results: response.results,
-        totalCount: response.totalCount,
-        searchTime: response.searchTime,
-        aiSummary: response.aiSummary,
+        results: result.results,
+        totalCount: result.totalCount,
+        searchTime: result.searchTime,
+        aiSummary: result.aiSummary,
+        suggestedQueries: result.suggestedQueries || [],
+        facets: result.facets,
         isSearching: false
       }))
-      
+      loadSearchHistory()
     } catch (error) {
       console.error('Search error:', error)
       setSearchState(prev => ({ ...prev, isSearching: false }))
     }
   }
 
+  const handleSearch = () => runSearch(searchState.query, searchState.filters)
+
+  // Filters apply straight away once there are results to narrow
+  const updateFilters = (changes: Partial<SearchFiltersState>) => {
+    const filters = { ...searchState.filters, ...changes }
+    const hasSearched = Object.keys(searchState.facets.sources).length > 0
+    if (searchState.query.trim() && hasSearched) {
+      runSearch(searchState.query, filters)
+    } else {
+      setSearchState(prev => ({ ...prev, filters }))
+    }
+  }
+
+  const toggleTag = (tag: string) => {
+    const tags = searchState.filters.tags.includes(tag)
+      ? searchState.filters.tags.filter(existing => existing !== tag)
+      : [...searchState.filters.tags, tag]
+    updateFilters({ tags })
+  }
+
+  const clearSearchHistory = async () => {
+    try {
+      const response = await fetch('/api/knowledge-hub/search/history', { method: 'DELETE' })
+      if (response.ok) setSearchHistory([])
+    } catch (error) {
+      console.error('Failed to clear search history:', error)
+    }
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch()
@@ -121,7 +159,7 @@ export default function KnowledgeHubPage() {
     alert('Content copied to clipboard!')
   }
 
-  const handleSaveToAnswerBank = (result: SearchResult) => {
+  const handleSaveToAnswerBank = (result: Pick<SearchResult, 'id' | 'title' | 'excerpt'>) => {
     // TODO: Integrate with answer bank system
     console.log('Saving to answer bank:', result)
     alert('Saved to answer bank!')
@@ -129,22 +167,28 @@ export default function KnowledgeHubPage() {
 
   // Calculate tab counts based on search results
   const getTabCounts = () => {
-    const internal = searchState.results.filter(r => r.source === 'internal' || ['document', 'policy', 'template'].includes(r.type)).length
-    const external = searchState.results.filter(r => r.type === 'web' || r.type === 'news' || r.source !== 'internal').length
+    const internal = searchState.results.filter(r => INTERNAL_SEARCH_SOURCES.includes(r.source)).length
+    const external = searchState.results.filter(r => !INTERNAL_SEARCH_SOURCES.includes(r.source)).length
     const competitor = searchState.results.filter(r => r.type === 'news' && (r.metadata.tags.some(tag => tag.includes('competitor')) || r.title.toLowerCase().includes('competitor'))).length
-    const policy = searchState.results.filter(r => ['regulatory', 'compliance', 'guidance'].includes(r.type) || r.metadata.tags.some(tag => ['policy', 'regulation', 'compliance', 'cqc'].includes(tag))).length
+    const policy = searchState.results.filter(r => ['policy', 'compliance'].includes(r.type) || r.metadata.tags.some(tag => ['policy', 'regulation', 'compliance', 'cqc'].includes(tag))).length
     
     return { internal, external, competitor, policy }
   }
 
   const tabCounts = getTabCounts()
 
+  // Facet counts from the last search, shown next to each option
+  const withCount = (label: string, count?: number) => count === undefined ? label : `${label} (${count})`
+
   const contentTypeOptions = [
     { value: 'all', label: 'All Content' },
-    { value: 'documents', label: 'Documents' },
-    { value: 'templates', label: 'Templates' },
-    { value: 'examples', label: 'Examples' },
-    { value: 'guidelines', label: 'Guidelines' }
+    { value: 'document', label: withCount('Documents', searchState.facets.contentTypes.document) },
+    { value: 'policy', label: withCount('Policies', searchState.facets.contentTypes.policy) },
+    { value: 'answer', label: withCount('Answers', searchState.facets.contentTypes.answer) },
+    { value: 'template', label: withCount('Templates', searchState.facets.contentTypes.template) },
+    { value: 'proposal', label: withCount('Past Proposals', searchState.facets.contentTypes.proposal) },
+    { value: 'research', label: withCount('Research', searchState.facets.contentTypes.research) },
+    { value: 'compliance', label: withCount('Compliance Items', searchState.facets.contentTypes.compliance) }
   ]
 
   const dateRangeOptions = [
@@ -158,12 +202,17 @@ export default function KnowledgeHubPage() {
 
   const sourceOptions = [
     { value: 'all', label: 'All Sources' },
-    { value: 'internal', label: 'Internal Library' },
-    { value: 'gov-uk', label: 'GOV.UK' },
-    { value: 'contracts-finder', label: 'Contracts Finder' },
-    { value: 'industry-news', label: 'Industry News' }
+    { value: 'knowledge-base', label: withCount('Knowledge Base', searchState.facets.sources['knowledge-base']) },
+    { value: 'answer-bank', label: withCount('Answer Bank', searchState.facets.sources['answer-bank']) },
+    { value: 'proposals', label: withCount('Proposals', searchState.facets.sources.proposals) },
+    { value: 'research-sessions', label: withCount('Research Sessions', searchState.facets.sources['research-sessions']) },
+    { value: 'compliance', label: withCount('Compliance', searchState.facets.sources.compliance) }
   ]
 
+  const tagFacets = Object.entries(searchState.facets.tags)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 12)
+
   const sortOptions = [
     { value: 'relevance', label: 'Relevance' },
     { value: 'date', label: 'Date' },
@@ -284,10 +333,7 @@ export default function KnowledgeHubPage() {
                       </label>
                       <select
                         value={searchState.filters.contentType}
-                        onChange={(e) => setSearchState(prev => ({
-                          ...prev,
-                          filters: { ...prev.filters, contentType: e.target.value }
-                        }))}
+                        onChange={(e) => updateFilters({ contentType: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-[brand-primary] focus:border-[brand-primary]"
                       >
                         {contentTypeOptions.map(option => (
@@ -304,10 +350,7 @@ export default function KnowledgeHubPage() {
                       </label>
                       <select
                         value={searchState.filters.dateRange}
-                        onChange={(e) => setSearchState(prev => ({
-                          ...prev,
-                          filters: { ...prev.filters, dateRange: e.target.value }
-                        }))}
+                        onChange={(e) => updateFilters({ dateRange: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-[brand-primary] focus:border-[brand-primary]"
                       >
                         {dateRangeOptions.map(option => (
@@ -324,10 +367,7 @@ export default function KnowledgeHubPage() {
                       </label>
                       <select
                         value={searchState.filters.source}
-                        onChange={(e) => setSearchState(prev => ({
-                          ...prev,
-                          filters: { ...prev.filters, source: e.target.value }
-                        }))}
+                        onChange={(e) => updateFilters({ source: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-[brand-primary] focus:border-[brand-primary]"
                       >
                         {sourceOptions.map(option => (
@@ -344,10 +384,7 @@ export default function KnowledgeHubPage() {
                       </label>
                       <select
                         value={searchState.filters.sortBy}
-                        onChange={(e) => setSearchState(prev => ({
-                          ...prev,
-                          filters: { ...prev.filters, sortBy: e.target.value }
-                        }))}
+                        onChange={(e) => updateFilters({ sortBy: e.target.value })}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-[brand-primary] focus:border-[brand-primary]"
                       >
                         {sortOptions.map(option => (
@@ -377,18 +414,82 @@ export default function KnowledgeHubPage() {
                     <Clock className="w-4 h-4 mr-2 text-[brand-primary]" />
                     Recent Searches
                   </h3>
-                  <button className="text-gray-400 hover:text-gray-600">
-                    <Settings className="w-4 h-4" />
-                  </button>
+                  {searchHistory.length > 0 && (
+                    <button
+                      onClick={clearSearchHistory}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Clear search history"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
                 
-                {/* Placeholder for search history */}
-                <div className="space-y-2">
-                  <div className="text-sm text-gray-500 text-center py-8">
-                    No recent searches
-                  </div>
+                <div className="space-y-1">
+                  {searchHistory.length === 0 ? (
+                    <div className="text-sm text-gray-500 text-center py-8">
+                      No recent searches
+                    </div>
+                  ) : (
+                    searchHistory.map(query => (
+                      <button
+                        key={query}
+                        onClick={() => runSearch(query, searchState.filters)}
+                        className="block w-full text-left px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-50 truncate"
+                      >
+                        {query}
+                      </button>
+                    ))
+                  )}
                 </div>
 
+                {searchState.suggestedQueries.length > 0 && (
+                  <div className="mt-6 pt-4 border-t border-gray-200">
+                    <h4 className="font-medium text-gray-900 flex items-center mb-3">
+                      <Lightbulb className="w-4 h-4 mr-2 text-[brand-primary]" />
+                      Related Searches
+                    </h4>
+                    <div className="space-y-1">
+                      {searchState.suggestedQueries.map(query => (
+                        <button
+                          key={query}
+                          onClick={() => runSearch(query, searchState.filters)}
+                          className="block w-full text-left px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-50 truncate"
+                        >
+                          {query}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {tagFacets.length > 0 && (
+                  <div className="mt-6 pt-4 border-t border-gray-200">
+                    <h4 className="font-medium text-gray-900 flex items-center mb-3">
+                      <Tag className="w-4 h-4 mr-2 text-[brand-primary]" />
+                      Tags
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {tagFacets.map(([tag, count]) => {
+                        const isSelected = searchState.filters.tags.includes(tag)
+                        return (
+                          <button
+                            key={tag}
+                            onClick={() => toggleTag(tag)}
+                            className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                              isSelected
+                                ? 'bg-[brand-primary] text-white border-[brand-primary]'
+                                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            {tag} ({count})
+                          </button>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 <div className="mt-6 pt-4 border-t border-gray-200">
                   <h4 className="font-medium text-gray-900 flex items-center mb-3">
                     <Star className="w-4 h-4 mr-2 text-[brand-primary]" />
@@ -171,24 +171,21 @@ export default function UploadFirstProposalPage() {
         throw new Error(result.error || 'AI parsing was unsuccessful')
       }
 
-      console.log(`AI parsing completed for ${fileName} with ${result.parsedData.confidence_score}% confidence`)
+      console.log(`AI parsing completed for ${fileName} with ${result.parsedData.confidence}% confidence`)
       
       return {
         title: result.parsedData.title,
-        issuing_authority: result.parsedData.issuing_authority,
-        contract_value: result.parsedData.contract_value,
-        region: result.parsedData.region,
+        issuing_authority: result.parsedData.issuingAuthority,
         deadline: result.parsedData.deadline,
-        description: result.parsedData.description,
-        evaluation_criteria: result.parsedData.evaluation_criteria || [],
-        compliance_requirements: result.parsedData.compliance_requirements || [],
-        key_dates: result.parsedData.key_dates || [],
-        confidence_score: result.parsedData.confidence_score || 75,
-        extracted_sections: result.parsedData.extracted_sections || {},
+        evaluation_criteria: result.parsedData.scoringWeightings || [],
+        compliance_requirements: result.parsedData.complianceRequirements || [],
+        key_dates: result.parsedData.keyDates || [],
+        confidence_score: result.parsedData.confidence,
+        field_confidence: result.parsedData.fieldConfidence,
+        validation: result.validation,
         ai_processing_metadata: {
           processedAt: result.metadata.processedAt,
-          fileType: result.metadata.fileType,
-          model: 'gpt-4.1-nano'
+          fileType: result.metadata.fileType
         }
       }
     } catch (error) {
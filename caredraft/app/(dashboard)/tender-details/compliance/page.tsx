@@ -6,7 +6,7 @@ export const dynamic = 'force-dynamic'
 
 
 
-import React, { useState, useEffect, use } from 'react'
+import React, { useState, useEffect, useCallback, use } from 'react'
 import { ChevronLeft, FileText, BarChart3 } from 'lucide-react'
 import Link from 'next/link'
 
@@ -19,6 +19,13 @@ import {
   ComplianceStats, 
   CompliancePDFExport 
 } from '@/components/compliance'
+import { useToast } from '@/components/ui/toast'
+import { useAuth } from '@/components/providers/MinimalAuthProvider'
+import {
+  complianceCoverageService,
+  type ComplianceCoverageMatrix,
+  type CoverageMatrixRow
+} from '@/lib/services/compliance-coverage'
 
 // These services would be implemented for document integration
 // import { extractApiService } from '@/lib/services/extract-api'
@@ -29,11 +36,16 @@ interface CompliancePageProps {
     proposalId?: string
     tenderName?: string
     organizationName?: string
+    // Comma-separated extracted document ids to scan for requirements
+    documentIds?: string
+    // Tender workflow whose drafted responses are checked for coverage
+    tenderId?: string
   }>
 }
 
 export default function CompliancePage({ searchParams }: CompliancePageProps) {
-  const { proposalId, tenderName, organizationName } = use(searchParams)
+  const { proposalId, tenderName, organizationName, documentIds, tenderId } = use(searchParams)
+  const sourceDocumentIds = documentIds ? documentIds.split(',').filter(Boolean) : undefined
   // TODO: These will be used when document integration is implemented
   // const [extractedText, setExtractedText] = useState<string>('')
   // const [sourceDocumentId, setSourceDocumentId] = useState<string>('')
@@ -45,9 +57,41 @@ export default function CompliancePage({ searchParams }: CompliancePageProps) {
     manualItems: 0
   })
   const [isLoadingText, setIsLoadingText] = useState(false)
-  
-  // TODO: Toast will be used for compliance notifications
-  // const toast = useToast()
+  const [coverage, setCoverage] = useState<ComplianceCoverageMatrix | null>(null)
+  const [isAnalysingCoverage, setIsAnalysingCoverage] = useState(false)
+
+  const toast = useToast()
+  const { user } = useAuth()
+
+  const loadCoverage = useCallback(async () => {
+    if (!proposalId) return
+    try {
+      setCoverage(await complianceCoverageService.getCoverageMatrix(proposalId))
+    } catch (error) {
+      console.error('Failed to load compliance coverage:', error)
+    }
+  }, [proposalId])
+
+  const handleAnalyseCoverage = async () => {
+    if (!proposalId || !tenderId) return
+
+    setIsAnalysingCoverage(true)
+    try {
+      const result = await complianceCoverageService.analyseProposalCoverage(proposalId, tenderId)
+      setCoverage(result)
+
+      const gaps = result.summary.uncovered + result.summary.weak
+      if (gaps > 0) {
+        toast.warning('Coverage gaps found', `${gaps} requirements are not addressed or only weakly addressed`)
+      } else {
+        toast.success('Coverage analysed', 'Every requirement is addressed by a drafted response')
+      }
+    } catch (error) {
+      toast.error('Failed to analyse coverage', String(error))
+    } finally {
+      setIsAnalysingCoverage(false)
+    }
+  }
 
   // TODO: Auto-extract text from uploaded documents for compliance analysis
   // This would integrate with document upload and text extraction services
@@ -60,7 +104,31 @@ export default function CompliancePage({ searchParams }: CompliancePageProps) {
     
     // For now, we'll work with manually provided text
     setIsLoadingText(false)
-  }, [proposalId])
+    loadCoverage()
+  }, [loadCoverage])
+
+  // Manual links count as addressed; auto links are confirmed by linking them by hand
+  const handleToggleLink = async (
+    itemId: string,
+    response: ComplianceCoverageMatrix['responses'][number],
+    cell?: CoverageMatrixRow['cells'][string]
+  ) => {
+    try {
+      if (cell?.linkType === 'manual') {
+        await complianceCoverageService.removeLink(cell.linkId)
+      } else {
+        await complianceCoverageService.linkItemToResponse(itemId, response, user?.id)
+      }
+
+      if (proposalId && tenderId) {
+        setCoverage(await complianceCoverageService.analyseProposalCoverage(proposalId, tenderId))
+      } else {
+        await loadCoverage()
+      }
+    } catch (error) {
+      toast.error('Failed to update coverage link', String(error))
+    }
+  }
 
   const handleStatsUpdate = (stats: {
     total: number
@@ -150,6 +218,10 @@ export default function CompliancePage({ searchParams }: CompliancePageProps) {
                     </div>
                     <ComplianceStats 
                       stats={complianceStats}
+                      coverage={coverage}
+                      onAnalyseCoverage={tenderId ? handleAnalyseCoverage : undefined}
+                      isAnalysingCoverage={isAnalysingCoverage}
+                      onToggleLink={handleToggleLink}
                       className="space-y-4"
                     />
                   </Card>
@@ -238,7 +310,7 @@ export default function CompliancePage({ searchParams }: CompliancePageProps) {
                   <ComplianceChecklist
                     proposalId={proposalId}
                     // extractedText={extractedText}
-                    // sourceDocumentId={sourceDocumentId}
+                    sourceDocumentIds={sourceDocumentIds}
                     onStatsUpdate={handleStatsUpdate}
                     className="min-h-[400px]"
                   />
@@ -6,7 +6,8 @@ export const dynamic = 'force-dynamic'
 
 
 
-import React, { useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
 import { 
   BarChart3, 
   TrendingUp, 
@@ -29,6 +30,8 @@ import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import EvaluatorScoresCard from '@/components/tender/EvaluatorScoresCard'
+import type { ReviewAnalytics } from '@/lib/services/colour-team-reviews'
 
 interface Metric {
   label: string
@@ -55,9 +58,32 @@ interface ComplianceItem {
 }
 
 export default function TenderAnalyticsPage() {
-  // const params = useParams()
-  // const tenderId = params.tenderId as string
+  const params = useParams()
+  const tenderId = params.tenderId as string
   const [timeRange, setTimeRange] = useState('7d')
+  const [reviews, setReviews] = useState<ReviewAnalytics | null>(null)
+
+  const loadReviewAnalytics = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tender/${tenderId}/reviews/analytics`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load review analytics')
+      setReviews(data.analytics)
+    } catch (error) {
+      console.error('Error loading review analytics:', error)
+    }
+  }, [tenderId])
+
+  useEffect(() => {
+    loadReviewAnalytics()
+  }, [loadReviewAnalytics])
+
+  // Predicted from the latest colour-team review, set against the actual score once awarded
+  const qualityScore = reviews?.predictedScore ?? null
+  const actualScore = reviews?.actualScore ?? null
+  const qualityChange = actualScore !== null && qualityScore !== null
+    ? Math.round(actualScore - qualityScore)
+    : null
 
   const metrics: Metric[] = [
     {
@@ -82,10 +108,12 @@ export default function TenderAnalyticsPage() {
       icon: Clock
     },
     {
-      label: 'Quality Score',
-      value: '92/100',
-      change: '+5',
-      changeType: 'positive',
+      label: actualScore !== null ? 'Quality Score' : 'Predicted Quality Score',
+      value: actualScore === null && qualityScore === null ? '—' : `${Math.round(actualScore ?? qualityScore ?? 0)}/100`,
+      change: qualityChange !== null
+        ? `${qualityChange >= 0 ? '+' : ''}${qualityChange} vs prediction`
+        : reviews?.predictedFrom ?? 'No reviews yet',
+      changeType: qualityChange === null ? 'neutral' : qualityChange >= 0 ? 'positive' : 'negative',
       icon: Award
     },
     {
@@ -231,7 +259,7 @@ export default function TenderAnalyticsPage() {
       </div>
 
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">
             <BarChart3 className="w-4 h-4 mr-2" />
             Overview
@@ -244,6 +272,10 @@ export default function TenderAnalyticsPage() {
             <CheckCircle2 className="w-4 h-4 mr-2" />
             Compliance
           </TabsTrigger>
+          <TabsTrigger value="reviews">
+            <Award className="w-4 h-4 mr-2" />
+            Reviews
+          </TabsTrigger>
           <TabsTrigger value="performance">
             <TrendingUp className="w-4 h-4 mr-2" />
             Performance
@@ -392,6 +424,76 @@ export default function TenderAnalyticsPage() {
           </Card>
         </TabsContent>
 
+        {/* Reviews Tab */}
+        <TabsContent value="reviews" className="space-y-6">
+          {!reviews || reviews.stages.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center text-gray-500">
+                No colour-team reviews yet. Set up review stages in the Reviews tab.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Predicted Score by Stage</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {reviews.stages.map(stage => (
+                    <div key={stage.id} className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span>{stage.name}</span>
+                        <span className="font-medium">
+                          {stage.predictedScore === null ? 'Not scored' : `${stage.predictedScore}%`}
+                        </span>
+                      </div>
+                      <Progress value={stage.predictedScore ?? 0} className="h-2" />
+                      <div className="text-xs text-gray-600">
+                        {stage.scoredQuestions}/{reviews.totalQuestions} questions scored •{' '}
+                        {stage.submittedReviewers}/{stage.totalReviewers} scorecards submitted
+                      </div>
+                    </div>
+                  ))}
+                  {reviews.actualScore !== null && (
+                    <div className="flex items-center justify-between pt-4 border-t text-sm">
+                      <span>Actual score awarded</span>
+                      <span className="font-medium">{reviews.actualScore}%</span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Weakest Answers{reviews.predictedFrom && ` (${reviews.predictedFrom})`}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {reviews.weakestQuestions.length === 0 && (
+                    <p className="text-sm text-gray-600">No answers scored yet.</p>
+                  )}
+                  {reviews.weakestQuestions.map(question => (
+                    <div key={question.questionId} className="p-3 border rounded-lg">
+                      <div className="flex items-start justify-between gap-3">
+                        <span className="font-medium text-sm">
+                          {question.questionNumber && `${question.questionNumber} `}{question.questionText}
+                        </span>
+                        <Badge variant="secondary">{question.averageScore}/{reviews.scaleMax}</Badge>
+                      </div>
+                      {question.weaknesses.length > 0 && (
+                        <ul className="mt-2 list-disc pl-5 text-sm text-gray-600">
+                          {question.weaknesses.slice(0, 3).map(weakness => <li key={weakness}>{weakness}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          <EvaluatorScoresCard tenderId={tenderId} onSaved={loadReviewAnalytics} />
+        </TabsContent>
+
         {/* Performance Tab */}
         <TabsContent value="performance" className="space-y-6">
           <div className="grid gap-6 lg:grid-cols-2">
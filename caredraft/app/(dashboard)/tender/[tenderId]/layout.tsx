@@ -18,7 +18,8 @@ import {
   Users,
   Brain,
   Download,
-  BarChart3
+  BarChart3,
+  Award
 } from 'lucide-react'
 
 import { Card, CardContent } from '@/components/ui/card'
@@ -92,7 +93,8 @@ export default function TenderLayout({ children }: TenderLayoutProps) {
       Brain,
       Users,
       Download,
-      BarChart3
+      BarChart3,
+      Award
     }
     const Icon = icons[iconName as keyof typeof icons] || FileText
     return Icon
@@ -276,9 +278,20 @@ export default function TenderLayout({ children }: TenderLayoutProps) {
               <CardContent className="p-4">
                 <h3 className="font-semibold text-gray-900 mb-3">Quick Actions</h3>
                 <div className="space-y-2">
-                  <Button 
-                    size="sm" 
-                    variant="outline" 
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full justify-start"
+                    asChild
+                  >
+                    <Link href={`/draft-builder?tenderId=${tenderId}`}>
+                      <Edit3 className="w-4 h-4 mr-2" />
+                      Draft Responses
+                    </Link>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
                     className="w-full justify-start"
                   >
                     <FileText className="w-4 h-4 mr-2" />
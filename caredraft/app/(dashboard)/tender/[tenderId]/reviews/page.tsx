@@ -0,0 +1,372 @@
+'use client'
+
+// Disable static generation for this page since it has client-side functionality
+export const dynamic = 'force-dynamic'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { AlertCircle, Loader2, Lock, Plus, Trash2, Unlock, UserPlus } from 'lucide-react'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import ReviewScorecard from '@/components/tender/ReviewScorecard'
+import { useAuth } from '@/components/providers/MinimalAuthProvider'
+import { usePermissions } from '@/hooks/usePermissions'
+import { createClient } from '@/lib/supabase'
+import { getUserDisplayName } from '@/types/collaboration'
+import {
+  DEFAULT_REVIEW_STAGES,
+  REVIEW_COLOURS,
+  SCORING_SCALES,
+  type ReviewColour,
+  type ReviewStageStatus,
+  type ReviewStageWithReviewers,
+  type ScoringScaleMax
+} from '@/lib/services/colour-team-reviews'
+
+const COLOUR_CLASSES: Record<ReviewColour, string> = {
+  blue: 'bg-blue-500',
+  black: 'bg-gray-900',
+  pink: 'bg-pink-400',
+  red: 'bg-red-600',
+  green: 'bg-green-600',
+  gold: 'bg-yellow-500',
+  white: 'bg-white border border-gray-300'
+}
+
+const STATUS_LABELS: Record<ReviewStageStatus, string> = {
+  planned: 'Planned',
+  open: 'Open for scoring',
+  closed: 'Closed'
+}
+
+interface OrganisationUser {
+  id: string
+  full_name: string | null
+  email: string
+}
+
+export default function TenderReviewsPage() {
+  const params = useParams()
+  const tenderId = params.tenderId as string
+  const { user } = useAuth()
+  const { hasRole, getUserOrganizationId } = usePermissions()
+  const canManage = hasRole('manager')
+  const organizationId = getUserOrganizationId()
+
+  const [scaleMax, setScaleMax] = useState<ScoringScaleMax>(5)
+  const [stages, setStages] = useState<ReviewStageWithReviewers[]>([])
+  const [selectedStageId, setSelectedStageId] = useState<string | null>(null)
+  const [members, setMembers] = useState<OrganisationUser[]>([])
+  const [newStageName, setNewStageName] = useState('')
+  const [newStageColour, setNewStageColour] = useState<ReviewColour>('pink')
+  const [reviewerToAdd, setReviewerToAdd] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const baseUrl = `/api/tender/${tenderId}/reviews`
+
+  const loadSetup = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load review stages')
+      setScaleMax(data.scaleMax)
+      setStages(data.stages)
+      setSelectedStageId(current => current ?? data.stages[0]?.id ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review stages')
+    } finally {
+      setLoading(false)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    loadSetup()
+  }, [loadSetup])
+
+  // Reviewers are picked from the organisation's users
+  const loadMembers = useCallback(async () => {
+    if (!canManage || !organizationId) return
+
+    const { data } = await createClient()
+      .from('users')
+      .select('id, full_name, email')
+      .eq('organization_id', organizationId)
+      .order('full_name', { ascending: true })
+    setMembers((data || []) as OrganisationUser[])
+  }, [canManage, organizationId])
+
+  useEffect(() => {
+    loadMembers()
+  }, [loadMembers])
+
+  // Runs a change against the API, then reloads the stages
+  const mutate = async (url: string, method: string, body?: unknown) => {
+    try {
+      setBusy(true)
+      setError(null)
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Request failed')
+      await loadSetup()
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addStage = async (name: string, colour: ReviewColour) => {
+    const data = await mutate(baseUrl, 'POST', { name, colour })
+    if (data?.stage) setSelectedStageId(data.stage.id)
+  }
+
+  const addDefaultStages = async () => {
+    for (const stage of DEFAULT_REVIEW_STAGES) {
+      await mutate(baseUrl, 'POST', stage)
+    }
+  }
+
+  const deleteStage = async (stageId: string) => {
+    if (!confirm('Delete this review stage and all its scores?')) return
+    const data = await mutate(`${baseUrl}/${stageId}`, 'DELETE')
+    if (data && selectedStageId === stageId) setSelectedStageId(null)
+  }
+
+  const selectedStage = stages.find(stage => stage.id === selectedStageId) ?? null
+  const ownAssignment = selectedStage?.reviewers.find(reviewer => reviewer.reviewer_id === user?.id)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Colour-Team Reviews</h1>
+          <p className="text-gray-600 mt-1">Score each response against the evaluation criteria before submission</p>
+        </div>
+        {canManage && (
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="scoring-scale" className="text-gray-600">Commissioner&apos;s scale</label>
+            <select
+              id="scoring-scale"
+              value={scaleMax}
+              disabled={busy}
+              onChange={event => mutate(baseUrl, 'PATCH', { scaleMax: Number(event.target.value) })}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              {SCORING_SCALES.map(scale => (
+                <option key={scale} value={scale}>0–{scale}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-4 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Review Stages</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {stages.length === 0 && (
+                <p className="text-sm text-gray-500">No review stages yet.</p>
+              )}
+              {stages.map(stage => (
+                <button
+                  key={stage.id}
+                  onClick={() => setSelectedStageId(stage.id)}
+                  className={`w-full text-left p-3 rounded-md border transition-colors ${
+                    stage.id === selectedStageId ? 'border-teal-500 bg-teal-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`w-3 h-3 rounded-full ${COLOUR_CLASSES[stage.colour]}`} />
+                    <span className="font-medium text-gray-900">{stage.name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {STATUS_LABELS[stage.status]} · {stage.reviewers.length} reviewer{stage.reviewers.length === 1 ? '' : 's'}
+                  </p>
+                </button>
+              ))}
+
+              {canManage && (
+                <div className="pt-3 border-t space-y-2">
+                  {stages.length === 0 && (
+                    <Button variant="outline" size="sm" className="w-full" onClick={addDefaultStages} disabled={busy}>
+                      Add pink, red and gold teams
+                    </Button>
+                  )}
+                  <Input
+                    placeholder="Stage name"
+                    value={newStageName}
+                    onChange={event => setNewStageName(event.target.value)}
+                  />
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={newStageColour}
+                      onChange={event => setNewStageColour(event.target.value as ReviewColour)}
+                      className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm capitalize"
+                    >
+                      {REVIEW_COLOURS.map(colour => (
+                        <option key={colour} value={colour}>{colour}</option>
+                      ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      disabled={busy || !newStageName.trim()}
+                      onClick={async () => {
+                        await addStage(newStageName.trim(), newStageColour)
+                        setNewStageName('')
+                      }}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {selectedStage && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Reviewers</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {selectedStage.reviewers.length === 0 && (
+                  <p className="text-sm text-gray-500">No reviewers assigned.</p>
+                )}
+                {selectedStage.reviewers.map(assignment => (
+                  <div key={assignment.reviewer_id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-900">
+                      {assignment.reviewer ? getUserDisplayName(assignment.reviewer) : 'Unknown reviewer'}
+                    </span>
+                    <Badge variant={assignment.submitted_at ? 'default' : 'outline'}>
+                      {assignment.submitted_at ? 'Submitted' : 'Scoring'}
+                    </Badge>
+                  </div>
+                ))}
+
+                {canManage && (
+                  <div className="flex items-center gap-2 pt-3 border-t">
+                    <select
+                      value={reviewerToAdd}
+                      onChange={event => setReviewerToAdd(event.target.value)}
+                      className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="">Choose a reviewer</option>
+                      {members
+                        .filter(member => !selectedStage.reviewers.some(reviewer => reviewer.reviewer_id === member.id))
+                        .map(member => (
+                          <option key={member.id} value={member.id}>{member.full_name || member.email}</option>
+                        ))}
+                    </select>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busy || !reviewerToAdd}
+                      onClick={async () => {
+                        await mutate(`${baseUrl}/${selectedStage.id}/reviewers`, 'POST', { reviewerIds: [reviewerToAdd] })
+                        setReviewerToAdd('')
+                      }}
+                    >
+                      <UserPlus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-3 space-y-4">
+          {selectedStage ? (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <span className={`w-4 h-4 rounded-full ${COLOUR_CLASSES[selectedStage.colour]}`} />
+                  <h2 className="text-xl font-semibold text-gray-900">{selectedStage.name}</h2>
+                  <Badge variant="outline">{STATUS_LABELS[selectedStage.status]}</Badge>
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-2">
+                    {selectedStage.status === 'open' ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy}
+                        onClick={() => mutate(`${baseUrl}/${selectedStage.id}`, 'PATCH', { status: 'closed' })}
+                      >
+                        <Lock className="w-4 h-4 mr-1" />
+                        Close scoring
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => mutate(`${baseUrl}/${selectedStage.id}`, 'PATCH', { status: 'open' })}
+                      >
+                        <Unlock className="w-4 h-4 mr-1" />
+                        Open for scoring
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={busy}
+                      onClick={() => deleteStage(selectedStage.id)}
+                      title="Delete stage"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <ReviewScorecard
+                key={`${selectedStage.id}-${selectedStage.status}`}
+                tenderId={tenderId}
+                stageId={selectedStage.id}
+                canScore={Boolean(ownAssignment) && selectedStage.status === 'open'}
+                submitted={Boolean(ownAssignment?.submitted_at)}
+                onSubmitted={loadSetup}
+              />
+            </>
+          ) : (
+            <Card>
+              <CardContent className="p-12 text-center text-gray-500">
+                Add a review stage to start scoring this tender&apos;s responses.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,7 +6,7 @@ export const dynamic = 'force-dynamic'
 
 
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { useParams } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
@@ -31,6 +31,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import type { KnowledgeRelevanceScore, TenderDetails, TenderKnowledgeSource } from '@/lib/services/tender-knowledge-integration'
 
 interface StrategySection {
   title: string
@@ -62,6 +63,7 @@ interface KnowledgeSource {
   type: string
   relevance_score: number
   tags: string[]
+  breakdown?: KnowledgeRelevanceScore
 }
 
 export default function TenderStrategyPage() {
@@ -76,76 +78,55 @@ export default function TenderStrategyPage() {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set())
   const [selectedSources, setSelectedSources] = useState<Set<string>>(new Set())
 
-  // Mock tender data
-  const tenderData = {
-    title: "Community Care Services - Yorkshire Region",
-    issuing_authority: "NHS Yorkshire and Humber ICB",
-    deadline: "2024-03-15",
-    contract_value: 2500000,
-    requirements: [
-      "24/7 emergency response capability",
-      "CQC Outstanding or Good rating required",
-      "Minimum 5 years experience in community care",
-      "Electronic care monitoring systems",
-      "Local workforce development programs"
-    ],
-    evaluation_criteria: [
-      { criteria: "Technical Quality", weight: 40 },
-      { criteria: "Price", weight: 30 },
-      { criteria: "Social Value", weight: 20 },
-      { criteria: "Management Approach", weight: 10 }
-    ],
-    compliance_requirements: [
-      "CQC registration and compliance",
-      "Safeguarding policies and procedures",
-      "GDPR data protection compliance",
-      "Health and safety regulations",
-      "Professional indemnity insurance"
-    ]
-  }
+  const [tender, setTender] = useState<TenderDetails | null>(null)
+  const [isLoadingKnowledge, setIsLoadingKnowledge] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [generateError, setGenerateError] = useState<string | null>(null)
 
-  // Mock knowledge sources
-  const mockKnowledgeSources: KnowledgeSource[] = [
-    {
-      id: "1",
-      title: "CQC Inspection Preparation Guide",
-      content: "Comprehensive guide for preparing for CQC inspections including documentation requirements, staff training protocols, and quality assurance measures...",
-      type: "document",
-      relevance_score: 95,
-      tags: ["cqc", "inspection", "compliance", "quality"]
-    },
-    {
-      id: "2",
-      title: "Community Care Best Practices",
-      content: "Evidence-based approaches to community care delivery including person-centered planning, risk assessment methodologies, and outcome measurement...",
-      type: "guide",
-      relevance_score: 92,
-      tags: ["community-care", "best-practices", "person-centered", "outcomes"]
-    },
-    {
-      id: "3",
-      title: "NHS Contract Success Case Study",
-      content: "Detailed case study of successful NHS contract delivery highlighting innovation, quality improvements, and cost efficiencies achieved...",
-      type: "case-study",
-      relevance_score: 88,
-      tags: ["nhs", "contract", "success", "innovation"]
-    },
-    {
-      id: "4",
-      title: "Social Value Framework",
-      content: "Comprehensive framework for demonstrating social value including local employment, community engagement, and environmental sustainability measures...",
-      type: "framework",
-      relevance_score: 85,
-      tags: ["social-value", "community", "employment", "sustainability"]
+  // Load the tender and rank the Knowledge Hub and answer bank against it
+  const loadRelevantKnowledge = useCallback(async () => {
+    setIsLoadingKnowledge(true)
+    setLoadError(null)
+    try {
+      const response = await fetch(`/api/tender/${tenderId}/knowledge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load relevant knowledge')
+
+      const { tender: details, sources, relevance_scores }: {
+        tender: TenderDetails
+        sources: TenderKnowledgeSource[]
+        relevance_scores: KnowledgeRelevanceScore[]
+      } = data
+      setTender(details)
+      setKnowledgeSources(sources.map((source, index) => ({
+        id: source.id,
+        title: source.title,
+        content: source.content,
+        type: source.type,
+        relevance_score: Math.round(source.relevance_score),
+        tags: source.topic_tags,
+        breakdown: relevance_scores[index]
+      })))
+    } catch (error) {
+      console.error('Error loading relevant knowledge:', error)
+      setLoadError(error instanceof Error ? error.message : 'Failed to load relevant knowledge')
+    } finally {
+      setIsLoadingKnowledge(false)
     }
-  ]
+  }, [tenderId])
 
   useEffect(() => {
-    setKnowledgeSources(mockKnowledgeSources)
-  }, [])
+    loadRelevantKnowledge()
+  }, [loadRelevantKnowledge])
 
   const generateStrategy = async () => {
+    if (!tender) return
     setIsGenerating(true)
+    setGenerateError(null)
     
     try {
       const contextDocuments = Array.from(selectedSources).map(sourceId => {
@@ -165,20 +146,18 @@ export default function TenderStrategyPage() {
         },
         body: JSON.stringify({
           tender_id: tenderId,
-          tender_details: tenderData,
+          tender_details: tender,
           context_documents: contextDocuments,
           strategy_focus: strategyFocus
         })
       })
 
-      if (response.ok) {
-        const data = await response.json()
-        setStrategy(data.strategy)
-      } else {
-        console.error('Strategy generation failed')
-      }
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Strategy generation failed')
+      setStrategy(data.strategy)
     } catch (error) {
       console.error('Error generating strategy:', error)
+      setGenerateError(error instanceof Error ? error.message : 'Strategy generation failed')
     } finally {
       setIsGenerating(false)
     }
@@ -205,10 +184,10 @@ export default function TenderStrategyPage() {
   }
 
   const exportStrategy = () => {
-    if (!strategy) return
+    if (!strategy || !tender) return
     
     const strategyText = `
-# Bid Strategy: ${tenderData.title}
+# Bid Strategy: ${tender.title}
 
 ## Executive Summary
 ${strategy.executive_summary}
@@ -303,7 +282,7 @@ ${strategy.timeline_strategy}
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Strategy Focus
                   </label>
-                  <Select value={strategyFocus} onValueChange={(value: any) => setStrategyFocus(value)}>
+                  <Select value={strategyFocus} onValueChange={(value) => setStrategyFocus(value as typeof strategyFocus)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -324,6 +303,29 @@ ${strategy.timeline_strategy}
                     <Badge variant="secondary">{knowledgeSources.length}</Badge>
                   </div>
                   
+                  {isLoadingKnowledge && (
+                    <div className="flex items-center gap-2 text-sm text-gray-500">
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                      Finding relevant knowledge...
+                    </div>
+                  )}
+                  {loadError && (
+                    <div className="flex items-start gap-2 text-sm text-red-600">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <p>{loadError}</p>
+                        <button type="button" onClick={loadRelevantKnowledge} className="underline">
+                          Try again
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  {!isLoadingKnowledge && !loadError && knowledgeSources.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      Nothing in the Knowledge Hub or answer bank matches this tender yet.
+                    </p>
+                  )}
+
                   <div className="space-y-2 max-h-96 overflow-y-auto">
                     {knowledgeSources
                       .filter(source => 
@@ -356,6 +358,18 @@ ${strategy.timeline_strategy}
                                   <span className="text-xs text-gray-600">{source.relevance_score}%</span>
                                 </div>
                               </div>
+                              {source.breakdown && (
+                                <div className="mt-2 space-y-1 text-xs text-gray-500">
+                                  <div className="flex flex-wrap gap-x-3">
+                                    <span>Requirements {source.breakdown.relevance_factors.requirement_match}%</span>
+                                    <span>Compliance {source.breakdown.relevance_factors.compliance_match}%</span>
+                                    <span>Commissioner {source.breakdown.relevance_factors.authority_match}%</span>
+                                  </div>
+                                  {source.breakdown.matched_requirements?.[0] && (
+                                    <p className="line-clamp-1">Best match: {source.breakdown.matched_requirements[0].text}</p>
+                                  )}
+                                </div>
+                              )}
                             </div>
                             {selectedSources.has(source.id) && (
                               <CheckCircle2 className="h-4 w-4 text-purple-600 mt-1" />
@@ -367,9 +381,12 @@ ${strategy.timeline_strategy}
                 </div>
 
                 {/* Generate Button */}
+                {generateError && (
+                  <p className="text-sm text-red-600">{generateError}</p>
+                )}
                 <Button
                   onClick={generateStrategy}
-                  disabled={isGenerating}
+                  disabled={isGenerating || !tender}
                   className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
                 >
                   {isGenerating ? (
@@ -396,11 +413,11 @@ ${strategy.timeline_strategy}
                   <Brain className="h-16 w-16 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No Strategy Generated</h3>
                   <p className="text-gray-600 mb-4">
-                    Select knowledge sources and click "Generate AI Strategy" to begin
+                    Select knowledge sources and click &ldquo;Generate AI Strategy&rdquo; to begin
                   </p>
                   <Button
                     onClick={generateStrategy}
-                    disabled={isGenerating}
+                    disabled={isGenerating || !tender}
                     className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700"
                   >
                     <Sparkles className="h-4 w-4 mr-2" />
@@ -420,7 +437,7 @@ ${strategy.timeline_strategy}
                           Bid Strategy Generated
                         </CardTitle>
                         <CardDescription>
-                          AI-powered strategy for {tenderData.title}
+                          AI-powered strategy for {tender?.title}
                         </CardDescription>
                       </div>
                       <Button onClick={exportStrategy} variant="outline">
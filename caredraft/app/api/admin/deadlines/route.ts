@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { ProposalDeadlineManager, validateDeadlineRules } from '@/lib/services/proposal-deadline-manager'
+
+const proposalStatusSchema = z.enum(['draft', 'review', 'submitted', 'archived'])
+
+const updateRulesSchema = z.object({
+  rules: z.array(z.object({
+    id: z.string().default(''),
+    fromStatus: proposalStatusSchema,
+    toStatus: proposalStatusSchema,
+    deadlineHours: z.number().int().positive(),
+    notificationHours: z.array(z.number().int().min(0)),
+    autoTransition: z.boolean(),
+    requiresApproval: z.boolean(),
+    description: z.string().max(500).default(''),
+    enabled: z.boolean().optional()
+  }))
+})
+
+// GET /api/admin/deadlines - Upcoming deadlines, rules and processing runs for the user's organisation
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id || !['admin', 'manager'].includes(currentUser.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const hoursAhead = Math.min(Math.max(parseInt(searchParams.get('hoursAhead') || '168') || 168, 1), 24 * 90)
+
+    // Proposals of other members are not visible to the caller, so read them
+    // with the service role, scoped to the caller's organisation
+    const manager = new ProposalDeadlineManager(createAdminClient())
+    const [upcoming, rules, runs] = await Promise.all([
+      manager.getUpcomingDeadlines(hoursAhead, currentUser.organization_id),
+      manager.getDeadlineRules(currentUser.organization_id),
+      manager.getProcessingRuns(currentUser.organization_id)
+    ])
+
+    return NextResponse.json({ upcoming, rules, runs })
+  } catch (error) {
+    console.error('Error loading proposal deadlines:', error)
+    return NextResponse.json({ error: 'Failed to load proposal deadlines' }, { status: 500 })
+  }
+}
+
+// PUT /api/admin/deadlines - Replace the organisation's deadline rules
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id || currentUser.role !== 'admin') {
+      return NextResponse.json({ error: 'Only admins can change deadline rules' }, { status: 403 })
+    }
+
+    const parsed = updateRulesSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid request', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const ruleErrors = validateDeadlineRules(parsed.data.rules)
+    if (ruleErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid deadline rules', details: ruleErrors }, { status: 400 })
+    }
+
+    const manager = new ProposalDeadlineManager(supabase)
+    await manager.updateDeadlineRules(currentUser.organization_id, parsed.data.rules)
+
+    return NextResponse.json({ rules: await manager.getDeadlineRules(currentUser.organization_id) })
+  } catch (error) {
+    console.error('Error updating deadline rules:', error)
+    return NextResponse.json({ error: 'Failed to update deadline rules' }, { status: 500 })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { ProposalDeadlineManager } from '@/lib/services/proposal-deadline-manager'
+
+// POST /api/admin/deadlines/run - Process deadlines for the user's organisation now
+export async function POST() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('role, organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id || !['admin', 'manager'].includes(currentUser.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Notifications go to other members, which needs the service role
+    const manager = new ProposalDeadlineManager(createAdminClient())
+    const result = await manager.processAllProposalDeadlines({
+      organizationId: currentUser.organization_id,
+      triggeredBy: user.id
+    })
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    console.error('Error processing proposal deadlines:', error)
+    return NextResponse.json({ error: 'Failed to process proposal deadlines' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
 import { KnowledgeSearchService, SearchQuery } from '@/lib/services/knowledge-search'
 import { AIError } from '@/lib/errors'
 
@@ -37,7 +38,7 @@ export async function POST(req: NextRequest) {
     const body = await req.json()
     const { query, context_text, search_scope, result_limit, include_summaries, content_types } = searchRequestSchema.parse(body)
 
-    const searchService = KnowledgeSearchService.getInstance()
+    const searchService = new KnowledgeSearchService(await createClient())
     
     // Prepare search query with enhanced context
     const enhancedQuery = context_text ? 
@@ -48,6 +49,8 @@ export async function POST(req: NextRequest) {
       query: enhancedQuery,
       useLibraryAI: search_scope === 'knowledge_base' || search_scope === 'both',
       useInternetAI: search_scope === 'web' || search_scope === 'both',
+      includeSummary: include_summaries,
+      limit: result_limit,
       filters: {
         contentType: content_types?.join(',') || 'all',
         dateRange: 'all',
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
+
+const effectivenessSchema = z.object({
+  months: z.coerce.number().int().min(1).max(36).default(12)
+})
+
+// GET /api/answers/[id]/effectiveness - Bids used in, win rate, evaluator score and monthly trend
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = effectivenessSchema.safeParse({
+      months: request.nextUrl.searchParams.get('months') ?? undefined
+    })
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid parameters', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const service = new AnswerBankService(supabase)
+    if (!(await service.getAnswer(id))) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    const report = await service.getEffectivenessReport(id, parsed.data.months)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error loading answer effectiveness:', error)
+    return NextResponse.json({ error: 'Failed to load answer effectiveness' }, { status: 500 })
+  }
+}
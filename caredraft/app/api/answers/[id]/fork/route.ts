@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ANSWER_VERSION_ERROR_STATUS,
+  AnswerBankService,
+  AnswerVersionError
+} from '@/lib/services/answer-bank'
+
+const forkSchema = z.object({
+  title: z.string().trim().min(3).max(255).optional()
+})
+
+// POST /api/answers/[id]/fork - Start a new answer from a template
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = forkSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid fork', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const answer = await new AnswerBankService(supabase).forkTemplate(id, {
+      organizationId: currentUser.organization_id,
+      userId: user.id,
+      title: parsed.data.title
+    })
+
+    return NextResponse.json({ answer }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error forking answer template:', error)
+    return NextResponse.json({ error: 'Failed to fork template' }, { status: 500 })
+  }
+}
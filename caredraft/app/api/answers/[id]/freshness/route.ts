@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ANSWER_VERSION_ERROR_STATUS,
+  AnswerBankService,
+  AnswerVersionError
+} from '@/lib/services/answer-bank'
+
+const freshnessSchema = z.object({
+  owner_id: z.string().uuid().optional(),
+  review_interval_days: z.number().int().min(1).max(1095).nullable().optional(),
+  expires_at: z.string().datetime({ offset: true }).nullable().optional()
+}).refine(settings => Object.values(settings).some(value => value !== undefined), {
+  message: 'Nothing to change'
+})
+
+// PATCH /api/answers/[id]/freshness - Set an answer's owner, review interval or expiry date
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = freshnessSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid freshness settings', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const answer = await new AnswerBankService(supabase).updateFreshnessSettings(id, user.id, parsed.data)
+
+    return NextResponse.json({ answer })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error updating answer freshness:', error)
+    return NextResponse.json({ error: 'Failed to update freshness settings' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
+
+// GET /api/answers/[id]/lineage - Templates the answer was forked from and answers forked from it
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const lineage = await new AnswerBankService(supabase).getLineage(id)
+    if (!lineage) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ lineage })
+  } catch (error) {
+    console.error('Error loading answer lineage:', error)
+    return NextResponse.json({ error: 'Failed to load answer lineage' }, { status: 500 })
+  }
+}
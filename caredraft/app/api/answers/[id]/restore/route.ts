@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ANSWER_VERSION_ERROR_STATUS,
+  AnswerBankService,
+  AnswerVersionError
+} from '@/lib/services/answer-bank'
+
+const restoreSchema = z.object({
+  version: z.number().int().min(1),
+  change_note: z.string().max(500).optional()
+})
+
+// POST /api/answers/[id]/restore - Make an earlier version current, as a new version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = restoreSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid restore', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const version = await new AnswerBankService(supabase)
+      .restoreVersion(id, parsed.data.version, parsed.data.change_note)
+
+    return NextResponse.json({ version })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error restoring answer version:', error)
+    return NextResponse.json({ error: 'Failed to restore answer version' }, { status: 500 })
+  }
+}
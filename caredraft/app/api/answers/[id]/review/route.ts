@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ANSWER_VERSION_ERROR_STATUS,
+  AnswerBankService,
+  AnswerVersionError
+} from '@/lib/services/answer-bank'
+
+const reviewSchema = z.object({
+  expires_at: z.string().datetime({ offset: true }).nullable().optional()
+})
+
+// POST /api/answers/[id]/review - Confirm an answer is still accurate and restart its review interval
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = reviewSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid review', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const answer = await new AnswerBankService(supabase).markReviewed(id, user.id, parsed.data)
+
+    return NextResponse.json({ answer })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error reviewing answer:', error)
+    return NextResponse.json({ error: 'Failed to review answer' }, { status: 500 })
+  }
+}
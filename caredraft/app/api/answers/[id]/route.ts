@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ANSWER_VERSION_ERROR_STATUS,
+  AnswerBankService,
+  AnswerVersionError
+} from '@/lib/services/answer-bank'
+
+const editAnswerSchema = z.object({
+  title: z.string().trim().min(3, 'Title must be at least 3 characters').max(255).optional(),
+  content: z.string().min(10, 'Content must be at least 10 characters').optional(),
+  tags: z.array(z.string().trim().min(1)).max(50).optional(),
+  change_note: z.string().max(500).optional()
+}).refine(edit => edit.title !== undefined || edit.content !== undefined || edit.tags !== undefined, {
+  message: 'Nothing to change'
+})
+
+// GET /api/answers/[id] - A single answer
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const answer = await new AnswerBankService(supabase).getAnswer(id)
+    if (!answer) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ answer })
+  } catch (error) {
+    console.error('Error loading answer:', error)
+    return NextResponse.json({ error: 'Failed to load answer' }, { status: 500 })
+  }
+}
+
+// PATCH /api/answers/[id] - Edit an answer, saving the result as a new version
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = editAnswerSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid answer', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const version = await new AnswerBankService(supabase).editAnswer(id, parsed.data)
+
+    return NextResponse.json({ version })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error editing answer:', error)
+    return NextResponse.json({ error: 'Failed to edit answer' }, { status: 500 })
+  }
+}
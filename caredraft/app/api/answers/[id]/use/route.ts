@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
+import { KnowledgeCitationService } from '@/lib/services/knowledge-citations'
+
+const useAnswerSchema = z.object({
+  context: z.string().trim().min(1).max(100).optional(),
+  session_id: z.string().uuid().optional(),
+  tender_workflow_id: z.string().uuid().optional(),
+  tender_question_id: z.string().uuid().optional(),
+  // Draft the answer was inserted into; it inherits the answer's knowledge citations
+  proposal_id: z.string().uuid().optional()
+})
+
+// POST /api/answers/[id]/use - Record that an answer was used, optionally in a bid
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = useAnswerSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid usage', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const service = new AnswerBankService(supabase)
+    if (!(await service.getAnswer(id))) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    if (parsed.data.tender_workflow_id && !(await service.canAccessTenderWorkflow(parsed.data.tender_workflow_id))) {
+      return NextResponse.json({ error: 'Tender workflow not found' }, { status: 404 })
+    }
+
+    await service.recordUsage(id, {
+      userId: user.id,
+      context: parsed.data.context,
+      sessionId: parsed.data.session_id,
+      tenderWorkflowId: parsed.data.tender_workflow_id,
+      tenderQuestionId: parsed.data.tender_question_id
+    })
+
+    if (parsed.data.proposal_id) {
+      await new KnowledgeCitationService(supabase)
+        .copyCitations('answer', id, 'proposal', parsed.data.proposal_id, user.id)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error recording answer usage:', error)
+    return NextResponse.json({ error: 'Failed to record answer usage' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
+
+const compareSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1)
+})
+
+// GET /api/answers/[id]/versions?from=&to= - Version history, or a diff between two versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const service = new AnswerBankService(supabase)
+    const searchParams = request.nextUrl.searchParams
+
+    if (searchParams.has('from') || searchParams.has('to')) {
+      const parsed = compareSchema.safeParse({ from: searchParams.get('from'), to: searchParams.get('to') })
+      if (!parsed.success) {
+        return NextResponse.json({ error: 'Invalid versions', details: parsed.error.errors }, { status: 400 })
+      }
+
+      const diff = await service.diffVersions(id, parsed.data.from, parsed.data.to)
+      if (!diff) {
+        return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+      }
+      return NextResponse.json({ diff })
+    }
+
+    const versions = await service.getVersions(id)
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error loading answer versions:', error)
+    return NextResponse.json({ error: 'Failed to load answer versions' }, { status: 500 })
+  }
+}
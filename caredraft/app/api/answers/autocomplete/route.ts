@@ -42,13 +42,15 @@ export async function POST(request: NextRequest) {
     const suggestions: AutocompleteSuggestion[] = []
     const queryLower = query.toLowerCase()
 
-    // Get title suggestions from answers
+    // Get title suggestions from answers, leaving out expired and merged ones
     if (include_titles) {
       const { data: titleResults, error: titleError } = await supabase
         .from('answer_bank')
         .select('title, usage_count')
         .eq('organization_id', organization_id)
         .ilike('title', `%${query}%`)
+        .is('merged_into_id', null)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
         .order('usage_count', { ascending: false })
         .limit(Math.ceil(limit * 0.6)) // Allocate 60% to titles
 
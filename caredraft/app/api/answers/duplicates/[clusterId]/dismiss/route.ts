@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { ANSWER_VERSION_ERROR_STATUS, AnswerVersionError } from '@/lib/services/answer-bank'
+import { AnswerDuplicateService } from '@/lib/services/answer-duplicates'
+
+// POST /api/answers/duplicates/[clusterId]/dismiss - Mark a group as not duplicates
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ clusterId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { clusterId } = await params
+    await new AnswerDuplicateService(supabase).dismissCluster(clusterId, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error dismissing duplicate answers:', error)
+    return NextResponse.json({ error: 'Failed to dismiss duplicates' }, { status: 500 })
+  }
+}
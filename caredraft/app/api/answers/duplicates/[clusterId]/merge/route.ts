@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { ANSWER_VERSION_ERROR_STATUS, AnswerVersionError } from '@/lib/services/answer-bank'
+import { AnswerDuplicateService } from '@/lib/services/answer-duplicates'
+
+const mergeSchema = z.object({
+  canonical_id: z.string().uuid(),
+  duplicate_ids: z.array(z.string().uuid()).min(1)
+}).refine(merge => !merge.duplicate_ids.includes(merge.canonical_id), {
+  message: 'The canonical answer cannot also be a duplicate'
+})
+
+// POST /api/answers/duplicates/[clusterId]/merge - Merge duplicates into the chosen canonical answer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ clusterId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = mergeSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid merge', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { clusterId } = await params
+    const answer = await new AnswerDuplicateService(supabase).mergeDuplicates(parsed.data, clusterId)
+
+    return NextResponse.json({ answer })
+  } catch (error) {
+    if (error instanceof AnswerVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ANSWER_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error merging duplicate answers:', error)
+    return NextResponse.json({ error: 'Failed to merge answers' }, { status: 500 })
+  }
+}
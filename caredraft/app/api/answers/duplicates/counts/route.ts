@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerDuplicateService } from '@/lib/services/answer-duplicates'
+
+// GET /api/answers/duplicates/counts - Answers with open duplicates, per category
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const counts = await new AnswerDuplicateService(supabase).getDuplicateCounts()
+
+    return NextResponse.json({ counts })
+  } catch (error) {
+    console.error('Error loading duplicate counts:', error)
+    return NextResponse.json({ error: 'Failed to load duplicate counts' }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerDuplicateService } from '@/lib/services/answer-duplicates'
+
+// GET /api/answers/duplicates - Open groups of near-duplicate answers, closest matches first
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const clusters = await new AnswerDuplicateService(supabase).listClusters()
+
+    return NextResponse.json({ clusters })
+  } catch (error) {
+    console.error('Error loading duplicate answers:', error)
+    return NextResponse.json({ error: 'Failed to load duplicate answers' }, { status: 500 })
+  }
+}
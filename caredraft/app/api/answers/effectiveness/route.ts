@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
+
+const mostEffectiveSchema = z.object({
+  min_bids: z.coerce.number().int().min(1).max(50).default(2),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+})
+
+// GET /api/answers/effectiveness - Answers ranked by the win rate of the bids they were used in
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const parsed = mostEffectiveSchema.safeParse({
+      min_bids: searchParams.get('min_bids') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    })
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid parameters', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const answers = await new AnswerBankService(supabase).listMostEffective({
+      minDecidedBids: parsed.data.min_bids,
+      limit: parsed.data.limit
+    })
+
+    return NextResponse.json({ answers })
+  } catch (error) {
+    console.error('Error loading effective answers:', error)
+    return NextResponse.json({ error: 'Failed to load effective answers' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerImportExportService, exportToCsv } from '@/lib/services/answer-import-export'
+
+// GET /api/answers/export - Download every answer with its category and usage stats as JSON or CSV
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'json'
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'Format must be json or csv' }, { status: 400 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const data = await new AnswerImportExportService(supabase).exportLibrary(currentUser.organization_id)
+    const fileName = `answer-bank-${data.export_date.slice(0, 10)}.${format}`
+
+    return new NextResponse(format === 'csv' ? exportToCsv(data) : JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting answers:', error)
+    return NextResponse.json({ error: 'Failed to export answers' }, { status: 500 })
+  }
+}
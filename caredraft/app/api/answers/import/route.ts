@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  AnswerImportError,
+  AnswerImportExportService,
+  parseImportFile,
+  resolveImportFormat
+} from '@/lib/services/answer-import-export'
+
+export const runtime = 'nodejs'
+
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024
+
+const columnName = z.string().trim().min(1).optional()
+
+const importSchema = z.object({
+  mode: z.enum(['preview', 'commit']).default('preview'),
+  options: z.object({
+    mapping: z.object({
+      title: columnName,
+      content: columnName,
+      category: columnName,
+      tags: columnName,
+      is_template: columnName
+    }).optional(),
+    duplicate_strategy: z.enum(['skip', 'import']).default('skip'),
+    default_category_id: z.string().uuid().optional()
+  }).default({})
+})
+
+// POST /api/answers/import - Preview or import answers from a CSV, XLSX, DOCX or JSON file
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 })
+    }
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json({ error: 'File size exceeds 10MB limit' }, { status: 400 })
+    }
+
+    const format = resolveImportFormat(file.name)
+    if (!format) {
+      return NextResponse.json({ error: 'Upload a CSV, XLSX, DOCX or JSON file' }, { status: 400 })
+    }
+
+    let options: unknown = undefined
+    try {
+      const rawOptions = formData.get('options')
+      options = typeof rawOptions === 'string' && rawOptions ? JSON.parse(rawOptions) : undefined
+    } catch {
+      return NextResponse.json({ error: 'Options must be valid JSON' }, { status: 400 })
+    }
+
+    const parsed = importSchema.safeParse({ mode: formData.get('mode') ?? undefined, options })
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid import', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const service = new AnswerImportExportService(supabase)
+    const preview = await service.previewImport(
+      await parseImportFile(await file.arrayBuffer(), format),
+      { ...parsed.data.options, organizationId: currentUser.organization_id }
+    )
+
+    if (parsed.data.mode === 'preview') {
+      return NextResponse.json({ preview })
+    }
+
+    const result = await service.commitImport(preview, {
+      ...parsed.data.options,
+      organizationId: currentUser.organization_id,
+      userId: user.id,
+      fileName: file.name
+    })
+
+    return NextResponse.json({ result, preview }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AnswerImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error importing answers:', error)
+    return NextResponse.json({ error: 'Failed to import answers' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
+
+const reviewQueueSchema = z.object({
+  scope: z.enum(['mine', 'all']).default('mine'),
+  within_days: z.coerce.number().int().min(0).max(365).optional()
+})
+
+// GET /api/answers/review-queue - Expired answers and answers due for review, most urgent first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const parsed = reviewQueueSchema.safeParse({
+      scope: searchParams.get('scope') ?? undefined,
+      within_days: searchParams.get('within_days') ?? undefined
+    })
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid parameters', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const answers = await new AnswerBankService(supabase).listReviewQueue(currentUser.organization_id, {
+      ownerId: parsed.data.scope === 'mine' ? user.id : undefined,
+      withinDays: parsed.data.within_days
+    })
+
+    return NextResponse.json({ answers })
+  } catch (error) {
+    console.error('Error loading answer review queue:', error)
+    return NextResponse.json({ error: 'Failed to load review queue' }, { status: 500 })
+  }
+}
@@ -1,9 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-// import { createClient } from '@/lib/supabase.client'
+import { createClient } from '@/utils/supabase/server'
+import { AnswerBankService } from '@/lib/services/answer-bank'
 // Types removed as they are not used in this file
 
 // Request validation schemas
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true')
+
+const listAnswersSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(20),
+  query: z.string().optional(),
+  category_id: z.string().uuid().optional(),
+  tags: z.string().optional(), // comma-separated tags
+  sort_by: z.enum(['created_at', 'updated_at', 'title', 'usage_count', 'popularity_score']).default('updated_at'),
+  sort_order: z.enum(['asc', 'desc']).default('desc'),
+  is_template: booleanParam.optional(),
+  is_public: booleanParam.optional()
+})
+
 // const createAnswerSchema = z.object({
 //   title: z.string().min(1, 'Title is required').max(255, 'Title must be less than 255 characters'),
 //   content: z.string().min(1, 'Content is required'),
@@ -14,18 +29,6 @@ import { z } from 'zod'
 //   is_public: z.boolean().default(false)
 // })
 
-// const listAnswersSchema = z.object({
-//   page: z.coerce.number().min(1).default(1),
-//   limit: z.coerce.number().min(1).max(100).default(20),
-//   category_id: z.string().uuid().optional(),
-//   search: z.string().optional(),
-//   tags: z.string().optional(), // comma-separated tags
-//   sort_by: z.enum(['created_at', 'updated_at', 'title', 'usage_count']).default('created_at'),
-//   sort_order: z.enum(['asc', 'desc']).default('desc'),
-//   is_template: z.coerce.boolean().optional(),
-//   is_public: z.coerce.boolean().optional()
-// })
-
 // Type definitions removed as they are not used
 
 // Helper function to get user context (mock for now)
@@ -39,107 +42,49 @@ import { z } from 'zod'
 // }
 
 // GET /api/answers - List answers with filtering and pagination
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    // TODO: Implement answer bank functionality
-    // This requires answer_bank_categories and other tables to be added to the database schema
-    return NextResponse.json({
-      success: false,
-      error: 'Answer bank functionality not yet implemented - database schema incomplete'
-    }, { status: 501 })
-
-    // const url = new URL(request.url)
-    // const searchParams = url.searchParams
-    
-    // // Validate query parameters
-    // const validatedParams = getAnswersSchema.parse({
-    //   page: searchParams.get('page') ? parseInt(searchParams.get('page')!) : undefined,
-    //   limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined,
-    //   search: searchParams.get('search') || undefined,
-    //   category: searchParams.get('category') || undefined,
-    //   sort: searchParams.get('sort') || undefined,
-    //   order: searchParams.get('order') || undefined
-    // })
-
-    // const { page, limit, search, category, sort, order } = validatedParams
-    
-    // // Get user context
-    // const { organization_id } = await getUserContext()
-    
-    // const supabase = createClient()
-    // const offset = (page - 1) * limit
-
-    // // Build query
-    // let query = supabase
-    //   .from('answer_bank')
-    //   .select(`
-    //     id,
-    //     title,
-    //     content,
-    //     category,
-    //     usage_count,
-    //     created_at,
-    //     updated_at
-    //   `)
-    //   .eq('organization_id', organization_id)
-
-    // // Apply filters
-    // if (search) {
-    //   query = query.or(`title.ilike.%${search}%,content.ilike.%${search}%`)
-    // }
-
-    // if (category) {
-    //   query = query.eq('category', category)
-    // }
-
-    // // Apply sorting
-    // if (sort === 'usage') {
-    //   query = query.order('usage_count', { ascending: order === 'asc' })
-    // } else if (sort === 'title') {
-    //   query = query.order('title', { ascending: order === 'asc' })
-    // } else {
-    //   query = query.order('created_at', { ascending: order === 'asc' })
-    // }
-
-    // // Apply pagination
-    // query = query.range(offset, offset + limit - 1)
+    const supabase = await createClient()
 
-    // const { data: answers, error } = await query
-    
-  } catch (error) {
-    console.error('Error in GET /api/answers:', error)
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
 
-    if (error instanceof z.ZodError) {
+    const searchParams = request.nextUrl.searchParams
+    const parsed = listAnswersSchema.safeParse(Object.fromEntries(searchParams.entries()))
+    if (!parsed.success) {
       return NextResponse.json(
-        {
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid query parameters',
-            details: error.errors,
-            timestamp: new Date().toISOString()
-          }
-        },
+        { success: false, error: 'Invalid query parameters', details: parsed.error.errors },
         { status: 400 }
       )
     }
 
-    return NextResponse.json(
-      {
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: 'Internal server error',
-          timestamp: new Date().toISOString()
-        }
-      },
-      { status: 500 }
-    )
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser?.organization_id) {
+      return NextResponse.json({ success: false, error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { tags, ...filters } = parsed.data
+    const result = await new AnswerBankService(supabase).listAnswers(currentUser.organization_id, {
+      ...filters,
+      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error listing answers:', error)
+    return NextResponse.json({ success: false, error: 'Failed to list answers' }, { status: 500 })
   }
 }
 
 // POST /api/answers - Create new answer
-export async function POST(_request: NextRequest) {
+export async function POST() {
   try {
     // TODO: Implement answer bank functionality
     // This requires answer_bank_categories and other tables to be added to the database schema
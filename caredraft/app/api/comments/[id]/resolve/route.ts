@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { COMMENT_ERROR_STATUS, CommentError, CommentsService } from '@/lib/services/collaboration'
+
+const resolveSchema = z.object({
+  resolved: z.boolean().default(true)
+})
+
+// POST /api/comments/[id]/resolve - Resolve or reopen a comment thread
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = resolveSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid resolution', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const comment = await new CommentsService(supabase).toggleCommentResolution(id, parsed.data.resolved)
+
+    return NextResponse.json({ comment })
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: COMMENT_ERROR_STATUS[error.code] })
+    }
+    console.error('Error resolving comment:', error)
+    return NextResponse.json({ error: 'Failed to resolve comment' }, { status: 500 })
+  }
+}
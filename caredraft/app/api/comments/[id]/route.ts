@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { COMMENT_ERROR_STATUS, CommentError, CommentsService } from '@/lib/services/collaboration'
+import { NotificationTriggersService } from '@/lib/services/notification-triggers'
+
+const updateCommentSchema = z.object({
+  content: z.string().trim().min(1).max(1000),
+  mentioned_user_ids: z.array(z.string().uuid()).max(20).optional()
+})
+
+// PATCH /api/comments/[id] - Edit your own comment
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = updateCommentSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid comment', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const comment = await new CommentsService(supabase, new NotificationTriggersService(createAdminClient()))
+      .updateComment(id, parsed.data, user.id)
+
+    return NextResponse.json({ comment })
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: COMMENT_ERROR_STATUS[error.code] })
+    }
+    console.error('Error updating comment:', error)
+    return NextResponse.json({ error: 'Failed to update comment' }, { status: 500 })
+  }
+}
+
+// DELETE /api/comments/[id] - Delete your own comment and its replies
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    await new CommentsService(supabase).deleteComment(id, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: COMMENT_ERROR_STATUS[error.code] })
+    }
+    console.error('Error deleting comment:', error)
+    return NextResponse.json({ error: 'Failed to delete comment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { ComplianceExtractionService, ComplianceSourceText } from '@/lib/services/compliance-extraction'
+import { DocumentExtractionService } from '@/lib/services/document-extraction'
+import { STORAGE_BUCKETS } from '@/lib/storage'
+
+// pdf-parse and mammoth need Node APIs
+export const runtime = 'nodejs'
+
+// Scan uploaded tender documents for compliance requirements
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createRouteHandlerClient({ cookies })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const proposalId: string | undefined = body.proposalId
+    const documentIds: string[] = Array.isArray(body.documentIds) ? body.documentIds : []
+
+    if (!proposalId || documentIds.length === 0) {
+      return NextResponse.json({ error: 'proposalId and documentIds are required' }, { status: 400 })
+    }
+
+    const { data: documents, error: documentsError } = await supabase
+      .from('extracted_documents')
+      .select('id, file_name, file_path, file_type, original_text')
+      .in('id', documentIds)
+
+    if (documentsError) {
+      return NextResponse.json({ error: 'Failed to load documents' }, { status: 500 })
+    }
+    if (!documents || documents.length === 0) {
+      return NextResponse.json({ error: 'Documents not found' }, { status: 404 })
+    }
+
+    const sources: ComplianceSourceText[] = []
+
+    for (const document of documents) {
+      // Re-extract from the stored file so requirements keep their page numbers
+      const { data: file } = await supabase.storage
+        .from(STORAGE_BUCKETS.TENDER_DOCUMENTS)
+        .download(document.file_path)
+
+      if (file) {
+        try {
+          const extracted = await DocumentExtractionService.extractFromBuffer(
+            Buffer.from(await file.arrayBuffer()),
+            document.file_name,
+            document.file_type || file.type
+          )
+          sources.push({
+            documentId: document.id,
+            documentName: document.file_name,
+            text: extracted.content,
+            pageTexts: extracted.pageTexts
+          })
+          continue
+        } catch (error) {
+          console.warn(`Falling back to stored text for ${document.file_name}:`, error)
+        }
+      }
+
+      if (document.original_text) {
+        sources.push({
+          documentId: document.id,
+          documentName: document.file_name,
+          text: document.original_text
+        })
+      }
+    }
+
+    if (sources.length === 0) {
+      return NextResponse.json({ error: 'No text could be extracted from the documents' }, { status: 422 })
+    }
+
+    const result = await new ComplianceExtractionService(supabase).extractFromDocuments(
+      proposalId,
+      sources,
+      body.replaceExisting === true
+    )
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      ...result,
+      documentsScanned: sources.length
+    })
+  } catch (error) {
+    console.error('Compliance extraction error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to extract compliance requirements'
+    }, { status: 500 })
+  }
+}
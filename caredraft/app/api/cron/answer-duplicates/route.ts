@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { AnswerDuplicateService } from '@/lib/services/answer-duplicates'
+
+// This route groups near-duplicate answer bank entries for review in the
+// answer bank. Call it from a cron job or Vercel Cron.
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify the request is authorized (for security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // There is no signed-in user here, so use the service role
+    const result = await new AnswerDuplicateService(createAdminClient()).detectDuplicates()
+
+    if (result.errors.length > 0) {
+      console.error('Errors during answer duplicate detection:', result.errors)
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: `Found ${result.clustersFound} duplicate groups in ${result.answersScanned} answers (${result.clustersAdded} new, ${result.clustersClosed} closed)`
+    })
+
+  } catch (error) {
+    console.error('Fatal error in answer duplicate detection:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+// Support POST method as well for webhook integrations
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
+
+// Export the route configuration
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { AnswerFreshnessManager } from '@/lib/services/answer-freshness'
+
+// This route expires answer bank entries past their expiry date and reminds
+// owners of answers due for review. Call it from a cron job or Vercel Cron.
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify the request is authorized (for security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // There is no signed-in user here, so use the service role
+    const result = await new AnswerFreshnessManager(createAdminClient()).processFreshness()
+
+    if (result.errors.length > 0) {
+      console.error('Errors during answer freshness processing:', result.errors)
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: `Expired ${result.answersExpired} answers, sent ${result.reviewRemindersSent} review reminders`
+    })
+
+  } catch (error) {
+    console.error('Fatal error in answer freshness processing:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+// Support POST method as well for webhook integrations
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
+
+// Export the route configuration
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { proposalDeadlineManager, DeadlineProcessingResult } from '@/lib/services/proposal-deadline-manager'
+import { createAdminClient } from '@/lib/supabase'
+import { ProposalDeadlineManager, DeadlineProcessingResult } from '@/lib/services/proposal-deadline-manager'
 
 // This route handles automated proposal deadline processing
 // It can be called by cron jobs, webhooks, or scheduling services like Vercel Cron
@@ -17,8 +18,9 @@ export async function GET(request: NextRequest) {
 
     console.log('Starting automated deadline processing...')
     
-    // Process all proposal deadlines
-    const result: DeadlineProcessingResult = await proposalDeadlineManager.processAllProposalDeadlines()
+    // Process all proposal deadlines. There is no signed-in user here, so use the service role
+    const manager = new ProposalDeadlineManager(createAdminClient())
+    const result: DeadlineProcessingResult = await manager.processAllProposalDeadlines()
     
     // Log the processing result
     console.log('Deadline processing completed:', {
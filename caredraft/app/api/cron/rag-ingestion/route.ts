@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { RAGIngestionPipeline } from '@/lib/services/rag-ingestion'
+
+// This route picks up knowledge documents that were never processed, are due
+// a retry, or were abandoned mid-run. Call it from a cron job or Vercel Cron.
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify the request is authorized (for security)
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '5') || 5, 25)
+
+    const pipeline = new RAGIngestionPipeline(createAdminClient())
+    const result = await pipeline.processPendingDocuments(limit)
+
+    if (result.failed > 0) {
+      console.error('Errors during document ingestion:', result.results.filter(r => !r.success))
+    }
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: `Processed ${result.processed} documents, ${result.succeeded} succeeded, ${result.failed} failed`
+    })
+
+  } catch (error) {
+    console.error('Fatal error in document ingestion:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+// Support POST method as well for webhook integrations
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
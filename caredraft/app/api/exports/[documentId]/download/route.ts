@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { createClient } from '@/utils/supabase/server'
+import { DocumentStorageService, accessContextFromHeaders } from '@/lib/services/document-storage'
+
+// Re-download a stored export. Row level security decides who can see the
+// document; the admin client only signs the URL for the file.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { documentId } = await params
+    const service = new DocumentStorageService(supabase, createAdminClient())
+    const result = await service.generateDownloadUrl(documentId, 300, {
+      userId: user.id,
+      ...accessContextFromHeaders(request.headers)
+    })
+
+    if (!result.success || !result.url) {
+      const status = result.error === 'Document not found' ? 404 : 500
+      return NextResponse.json({ error: result.error }, { status })
+    }
+
+    return NextResponse.redirect(result.url)
+  } catch (error) {
+    console.error('Export download error:', error)
+    return NextResponse.json({ error: 'Failed to download export' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { DocumentStorageService } from '@/lib/services/document-storage'
+
+// Revoke a share link
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ documentId: string; shareId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { shareId } = await params
+    const service = new DocumentStorageService(supabase)
+    const share = await service.revokeShareLink(shareId)
+
+    if (!share) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ share })
+  } catch (error) {
+    console.error('Revoke share error:', error)
+    return NextResponse.json({ error: 'Failed to revoke share link' }, { status: 500 })
+  }
+}
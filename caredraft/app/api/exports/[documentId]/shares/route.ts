@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { DocumentStorageService } from '@/lib/services/document-storage'
+
+const MAX_SHARE_DAYS = 90
+
+const createShareSchema = z.object({
+  expiresAt: z.string().datetime(),
+  allowDownload: z.boolean().default(true),
+  requireAuthentication: z.boolean().default(false),
+  maxDownloads: z.number().int().positive().optional(),
+  customMessage: z.string().max(1000).optional()
+})
+
+// List the share links of a stored export
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { documentId } = await params
+    const service = new DocumentStorageService(supabase)
+
+    return NextResponse.json({ shares: await service.listShareLinks(documentId) })
+  } catch (error) {
+    console.error('List shares error:', error)
+    return NextResponse.json({ error: 'Failed to list share links' }, { status: 500 })
+  }
+}
+
+// Create an expiring share link for a stored export
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = createShareSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid share link', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const expiresAt = new Date(parsed.data.expiresAt)
+    const maxExpiry = Date.now() + MAX_SHARE_DAYS * 24 * 60 * 60 * 1000
+    if (expiresAt.getTime() <= Date.now() || expiresAt.getTime() > maxExpiry) {
+      return NextResponse.json(
+        { error: `Share links must expire within ${MAX_SHARE_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    const { documentId } = await params
+    const service = new DocumentStorageService(supabase)
+
+    const document = await service.getDocumentMetadata(documentId)
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const share = await service.generateShareLink(documentId, { ...parsed.data, expiresAt })
+    return NextResponse.json({ share }, { status: 201 })
+  } catch (error) {
+    console.error('Create share error:', error)
+    return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 })
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createAdminClient } from '@/lib/supabase'
+import { createClient } from '@/utils/supabase/server'
+import { EXPORT_CONFIG } from '@/lib/config/export.config'
+import { DocumentStorageService } from '@/lib/services/document-storage'
+
+const storeExportSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  format: z.enum(EXPORT_CONFIG.SUPPORTED_FORMATS),
+  proposalId: z.string().uuid().optional(),
+  metadata: z.record(z.unknown()).optional()
+})
+
+const MAX_EXPORT_SIZE: Record<(typeof EXPORT_CONFIG.SUPPORTED_FORMATS)[number], number> = {
+  pdf: EXPORT_CONFIG.MAX_FILE_SIZE.PDF,
+  docx: EXPORT_CONFIG.MAX_FILE_SIZE.DOCX
+}
+
+// Store a generated export as the next version of its proposal
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const rawMetadata = formData.get('metadata')
+    const parsed = storeExportSchema.safeParse({
+      title: formData.get('title'),
+      format: formData.get('format'),
+      proposalId: formData.get('proposalId') || undefined,
+      metadata: typeof rawMetadata === 'string' && rawMetadata ? JSON.parse(rawMetadata) : undefined
+    })
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid export', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { title, format, proposalId, metadata } = parsed.data
+    if (file.size > MAX_EXPORT_SIZE[format]) {
+      return NextResponse.json({ error: 'File too large' }, { status: 400 })
+    }
+
+    const service = new DocumentStorageService(supabase, createAdminClient())
+    const document = await service.storeExportedDocument(Buffer.from(await file.arrayBuffer()), {
+      filename: file.name,
+      originalTitle: title,
+      exportFormat: format,
+      proposalId,
+      metadata
+    })
+
+    return NextResponse.json({ document }, { status: 201 })
+  } catch (error) {
+    console.error('Store export error:', error)
+    return NextResponse.json({ error: 'Failed to store export' }, { status: 500 })
+  }
+}
+
+// List stored exports for a proposal, or the organisation's recent exports
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const service = new DocumentStorageService(supabase)
+    const proposalId = request.nextUrl.searchParams.get('proposalId')
+
+    if (proposalId) {
+      return NextResponse.json({ documents: await service.listProposalDocuments(proposalId) })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
+    }
+
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 50, 100)
+    const offset = Math.max(Number(request.nextUrl.searchParams.get('offset')) || 0, 0)
+
+    return NextResponse.json({
+      documents: await service.listOrganizationDocuments(profile.organization_id, limit, offset)
+    })
+  } catch (error) {
+    console.error('List exports error:', error)
+    return NextResponse.json({ error: 'Failed to list exports' }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { KnowledgeSearchService } from '@/lib/services/knowledge-search'
+
+// GET /api/knowledge-hub/search/history - The user's recent Knowledge Hub searches
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const history = await new KnowledgeSearchService(supabase).getSearchHistory(user.id)
+    return NextResponse.json({ history })
+  } catch (error) {
+    console.error('Error loading search history:', error)
+    return NextResponse.json({ error: 'Failed to load search history' }, { status: 500 })
+  }
+}
+
+// DELETE /api/knowledge-hub/search/history - Clear the user's Knowledge Hub searches
+export async function DELETE() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await new KnowledgeSearchService(supabase).clearSearchHistory(user.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error clearing search history:', error)
+    return NextResponse.json({ error: 'Failed to clear search history' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { KnowledgeSearchService } from '@/lib/services/knowledge-search'
+import { rateLimit, rateLimitConfigs } from '@/lib/rate-limiter'
+
+const knowledgeSearchSchema = z.object({
+  query: z.string().trim().min(1, 'Search query is required').max(500),
+  useLibraryAI: z.boolean().default(true),
+  useInternetAI: z.boolean().default(false),
+  includeSummary: z.boolean().default(false),
+  limit: z.number().int().min(1).max(100).default(20),
+  filters: z.object({
+    contentType: z.string().default('all'),
+    dateRange: z.enum(['all', 'today', 'week', 'month', 'quarter', 'year']).default('all'),
+    source: z.string().default('all'),
+    sortBy: z.enum(['relevance', 'date', 'popularity', 'alphabetical']).default('relevance'),
+    tags: z.array(z.string()).max(20).default([])
+  }).default({})
+})
+
+// POST /api/knowledge-hub/search - Faceted search across documents, answers, proposals, research and compliance items
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = knowledgeSearchSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid search', details: parsed.error.errors }, { status: 400 })
+    }
+
+    // Only the AI summary counts against the AI limit
+    if (parsed.data.includeSummary) {
+      const limitResult = await rateLimit(request, rateLimitConfigs.ai)
+      if (!limitResult.success) {
+        return NextResponse.json(
+          { error: 'Rate limit exceeded', retryAfter: limitResult.retryAfter },
+          { status: 429, headers: { 'Retry-After': limitResult.retryAfter?.toString() || '60' } }
+        )
+      }
+    }
+
+    const response = await new KnowledgeSearchService(supabase).search(parsed.data, user.id)
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error searching the knowledge hub:', error)
+    return NextResponse.json({ error: 'Failed to search the knowledge hub' }, { status: 500 })
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ProposalWorkflowService,
+  WORKFLOW_ERROR_STATUS,
+  WorkflowTransitionError
+} from '@/lib/services/proposal-workflow'
+
+const assignSchema = z.object({
+  reviewerIds: z.array(z.string().uuid()).min(1).max(20)
+})
+
+const decisionSchema = z.object({
+  approved: z.boolean(),
+  comments: z.string().max(2000).optional()
+})
+
+// GET /api/proposals/[proposalId]/reviewers - Reviewer assignments and decisions
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { proposalId } = await params
+    const { data: assignments, error } = await supabase
+      .from('proposal_reviewer_assignments')
+      .select('*, reviewer:users!proposal_reviewer_assignments_reviewer_id_fkey(id, full_name, email)')
+      .eq('proposal_id', proposalId)
+      .order('assigned_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return NextResponse.json({ assignments })
+  } catch (error) {
+    console.error('Error loading reviewer assignments:', error)
+    return NextResponse.json({ error: 'Failed to load reviewers' }, { status: 500 })
+  }
+}
+
+// POST /api/proposals/[proposalId]/reviewers - Assign reviewers (managers and admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!currentUser || !['admin', 'manager'].includes(currentUser.role)) {
+      return NextResponse.json({ error: 'Only managers and admins can assign reviewers' }, { status: 403 })
+    }
+
+    const parsed = assignSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid reviewers', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { proposalId } = await params
+    const service = new ProposalWorkflowService(supabase)
+    const assignments = await service.assignReviewers(proposalId, parsed.data.reviewerIds, user.id)
+
+    return NextResponse.json({ assignments }, { status: 201 })
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: WORKFLOW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error assigning reviewers:', error)
+    return NextResponse.json({ error: 'Failed to assign reviewers' }, { status: 500 })
+  }
+}
+
+// PATCH /api/proposals/[proposalId]/reviewers - Record the current reviewer's sign-off
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = decisionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid review decision', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { proposalId } = await params
+    const service = new ProposalWorkflowService(supabase)
+    const assignment = await service.recordReviewDecision(proposalId, user.id, parsed.data.approved, parsed.data.comments)
+
+    return NextResponse.json({ assignment })
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: WORKFLOW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error recording review decision:', error)
+    return NextResponse.json({ error: 'Failed to record review decision' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ProposalWorkflowService,
+  WORKFLOW_ERROR_STATUS,
+  WorkflowTransitionError
+} from '@/lib/services/proposal-workflow'
+
+const transitionSchema = z.object({
+  toStatus: z.enum(['draft', 'review', 'submitted', 'archived']),
+  comment: z.string().max(2000).optional(),
+  reason: z.string().max(100).optional()
+})
+
+// GET /api/proposals/[proposalId]/status - Current status, transitions open to the user and status history
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { proposalId } = await params
+    const service = new ProposalWorkflowService(supabase)
+    const [state, history] = await Promise.all([
+      service.getWorkflowState(proposalId, user.id),
+      service.getStatusHistory(proposalId)
+    ])
+
+    return NextResponse.json({ ...state, history })
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: WORKFLOW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error loading proposal workflow:', error)
+    return NextResponse.json({ error: 'Failed to load proposal workflow' }, { status: 500 })
+  }
+}
+
+// POST /api/proposals/[proposalId]/status - Change the proposal's status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proposalId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = transitionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid status change', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { proposalId } = await params
+    const { toStatus, comment, reason } = parsed.data
+    const service = new ProposalWorkflowService(supabase)
+    await service.transitionStatus(proposalId, user.id, toStatus, { comment, reason })
+
+    return NextResponse.json(await service.getWorkflowState(proposalId, user.id))
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, blockers: error.blockers },
+        { status: WORKFLOW_ERROR_STATUS[error.code] }
+      )
+    }
+    console.error('Error changing proposal status:', error)
+    return NextResponse.json({ error: 'Failed to change proposal status' }, { status: 500 })
+  }
+}
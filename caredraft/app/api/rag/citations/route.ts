@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { KnowledgeCitationService } from '@/lib/services/knowledge-citations'
+
+const sourceTypeSchema = z.enum(['answer', 'proposal', 'section'])
+
+const recordCitationsSchema = z.object({
+  source_type: sourceTypeSchema,
+  source_id: z.string().uuid(),
+  citations: z.array(z.object({
+    document_id: z.string().uuid(),
+    chunk_id: z.string().uuid(),
+    excerpt: z.string().min(1)
+  })).min(1).max(50)
+})
+
+const flaggedCitationsSchema = z.object({
+  source_type: sourceTypeSchema,
+  source_id: z.string().uuid()
+})
+
+const reviewCitationsSchema = z.object({
+  citation_ids: z.array(z.string().uuid()).min(1).max(100)
+})
+
+// POST /api/rag/citations - Record the knowledge chunks an answer or draft cites
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = recordCitationsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid citations', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { source_type, source_id, citations } = parsed.data
+    const recorded = await new KnowledgeCitationService(supabase)
+      .recordCitations(source_type, source_id, citations, user.id)
+
+    return NextResponse.json({ recorded }, { status: 201 })
+  } catch (error) {
+    console.error('Error recording knowledge citations:', error)
+    return NextResponse.json({ error: 'Failed to record citations' }, { status: 500 })
+  }
+}
+
+// GET /api/rag/citations?source_type=&source_id= - Citations flagged because the cited document was superseded
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const parsed = flaggedCitationsSchema.safeParse({
+      source_type: searchParams.get('source_type'),
+      source_id: searchParams.get('source_id')
+    })
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid source', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const citations = await new KnowledgeCitationService(supabase)
+      .getFlaggedCitations(parsed.data.source_type, parsed.data.source_id)
+
+    return NextResponse.json({ citations })
+  } catch (error) {
+    console.error('Error fetching flagged citations:', error)
+    return NextResponse.json({ error: 'Failed to fetch flagged citations' }, { status: 500 })
+  }
+}
+
+// PATCH /api/rag/citations - Mark flagged citations as reviewed
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = reviewCitationsSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid citations', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const reviewed = await new KnowledgeCitationService(supabase)
+      .markReviewed(parsed.data.citation_ids, user.id)
+
+    return NextResponse.json({ reviewed })
+  } catch (error) {
+    console.error('Error reviewing knowledge citations:', error)
+    return NextResponse.json({ error: 'Failed to review citations' }, { status: 500 })
+  }
+}
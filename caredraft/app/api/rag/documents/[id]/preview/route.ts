@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { RAGService } from '@/lib/services/rag'
+
+// GET /api/rag/documents/[id]/preview - File details and a short-lived link for DocumentPreview
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    // Reading through the user's client applies the document's RLS
+    const document = await new RAGService(supabase).getDocument(id)
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const fileUrl = document.storage_path
+      ? await new RAGService(createAdminClient()).createFileUrl(document.storage_path)
+      : null
+
+    return NextResponse.json({
+      preview: {
+        documentId: document.id,
+        title: document.title,
+        fileName: document.file_name || document.title,
+        fileType: document.mime_type || 'text/plain',
+        fileUrl
+      }
+    })
+  } catch (error) {
+    console.error('Error preparing document preview:', error)
+    return NextResponse.json({ error: 'Failed to prepare document preview' }, { status: 500 })
+  }
+}
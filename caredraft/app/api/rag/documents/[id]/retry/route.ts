@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { RAGService } from '@/lib/services/rag'
+import { RAGIngestionPipeline } from '@/lib/services/rag-ingestion'
+
+// POST /api/rag/documents/[id]/retry - Re-run ingestion for a failed document
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const [document, { data: userData }] = await Promise.all([
+      new RAGService(supabase).getDocument(id),
+      supabase
+        .from('users')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+    ])
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (document.uploaded_by !== user.id && userData?.role !== 'admin') {
+      return NextResponse.json({ error: 'Only the uploader or an admin can retry processing' }, { status: 403 })
+    }
+    if (document.processing_status !== 'failed') {
+      return NextResponse.json({ error: 'Only failed documents can be retried' }, { status: 409 })
+    }
+
+    const pipeline = new RAGIngestionPipeline(createAdminClient())
+    await pipeline.retryDocument(id)
+    after(() => pipeline.processDocument(id))
+
+    return NextResponse.json({ success: true, message: 'Document queued for processing' })
+  } catch (error) {
+    console.error('Error retrying document ingestion:', error)
+    return NextResponse.json({ error: 'Failed to retry processing' }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { RAGService } from '@/lib/services/rag'
+
+// GET /api/rag/documents/[id] - Document with ingestion progress and chunk counts
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const document = await new RAGService(supabase).getDocument(id)
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ document })
+  } catch (error) {
+    console.error('Error fetching knowledge document:', error)
+    return NextResponse.json({ error: 'Failed to fetch document' }, { status: 500 })
+  }
+}
+
+// DELETE /api/rag/documents/[id] - Remove a document with its chunks, embeddings and file
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    // RLS limits deletion to the uploader and admins
+    const deleted = await new RAGService(supabase).deleteDocument(id)
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting knowledge document:', error)
+    return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { RAGService } from '@/lib/services/rag'
+
+// GET /api/rag/documents/[id]/versions - Version history, or a word diff with ?compare=<versionId>
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const service = new RAGService(supabase)
+    const compare = request.nextUrl.searchParams.get('compare')
+
+    if (compare) {
+      const diff = await service.diffVersions(id, compare)
+      if (!diff) {
+        return NextResponse.json({ error: 'Versions not found' }, { status: 404 })
+      }
+      return NextResponse.json({ diff })
+    }
+
+    const versions = await service.getVersions(id)
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error fetching document versions:', error)
+    return NextResponse.json({ error: 'Failed to fetch document versions' }, { status: 500 })
+  }
+}
@@ -1,22 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { ragService } from '@/lib/services/rag'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { RAGService } from '@/lib/services/rag'
+import { RAGIngestionPipeline } from '@/lib/services/rag-ingestion'
 import { DocumentUploadRequest } from '@/types/rag'
 
 export async function GET(request: NextRequest) {
   try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '20')
     const type = searchParams.get('type') || undefined
     const status = searchParams.get('status') || undefined
     const search = searchParams.get('search') || undefined
+    const includeSuperseded = searchParams.get('include_superseded') === 'true'
 
-    const result = await ragService.listDocuments({
+    const result = await new RAGService(supabase).listDocuments({
       page,
       limit,
       type,
       status,
-      search
+      search,
+      include_superseded: includeSuperseded
     })
 
     return NextResponse.json({
@@ -43,6 +55,13 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const body = await request.json()
     
     const uploadRequest: DocumentUploadRequest = {
@@ -51,7 +70,8 @@ export async function POST(request: NextRequest) {
       document_type: body.document_type,
       tags: body.tags,
       metadata: body.metadata,
-      source_url: body.source_url
+      source_url: body.source_url,
+      previous_version_id: body.previous_version_id
     }
 
     // Validate required fields
@@ -69,7 +89,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const document = await ragService.uploadDocument(uploadRequest)
+    const document = await new RAGService(supabase).uploadDocument(uploadRequest, user.id)
+
+    if (document.processing_status === 'pending') {
+      after(() => new RAGIngestionPipeline(createAdminClient()).processDocument(document.id))
+    }
 
     return NextResponse.json({
       success: true,
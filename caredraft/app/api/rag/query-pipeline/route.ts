@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ragQueryPipeline, RAGQueryRequest } from '@/lib/services/rag-query-pipeline'
+import { createClient } from '@/utils/supabase/server'
+import { RAGQueryPipeline, RAGQueryRequest } from '@/lib/services/rag-query-pipeline'
 import { rateLimit, rateLimitConfigs } from '@/lib/rate-limiter'
 
-export async function GET(request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     // Apply rate limiting
     const limitResult = await rateLimit(request, rateLimitConfigs.ai)
     
@@ -49,9 +57,10 @@ export async function GET(request: NextRequest) {
     }
 
     // Process the RAG query
-    const result = await ragQueryPipeline.processQuery({
+    const result = await new RAGQueryPipeline(supabase).processQuery({
       query: query.trim(),
       context,
+      user_id: user.id,
       search_options: {
         max_results: Math.min(search_options.max_results || 5, 20), // Cap at 20
         similarity_threshold: search_options.similarity_threshold || 0.6,
@@ -96,8 +105,16 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const pipeline = new RAGQueryPipeline(supabase)
     const { searchParams } = new URL(request.url)
     const action = searchParams.get('action')
     const query = searchParams.get('query')
@@ -111,7 +128,7 @@ export async function POST(request: NextRequest) {
           )
         }
 
-        const suggestions = await ragQueryPipeline.getQuerySuggestions(query)
+        const suggestions = await pipeline.getQuerySuggestions(query)
         
         return NextResponse.json({
           success: true,
@@ -125,7 +142,7 @@ export async function POST(request: NextRequest) {
       case 'health': {
         // Health check for the RAG query pipeline
         try {
-          const testResult = await ragQueryPipeline.processQuery({
+          const testResult = await pipeline.processQuery({
             query: 'health check test',
             search_options: { max_results: 1 },
             generation_options: { max_tokens: 50 }
@@ -3,7 +3,7 @@ import { ragService } from '@/lib/services/rag'
 import { RAGQueryRequest } from '@/types/rag'
 import { NextRequest } from 'next/server'
 
-export async function GET(request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     
@@ -1,15 +1,46 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { ragService } from '@/lib/services/rag'
-// import { documentProcessor } from '@/lib/services/document-processor'
-import { DocumentUploadRequest, DocumentType } from '@/types/rag'
+import { NextRequest, NextResponse, after } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { RAGService } from '@/lib/services/rag'
+import { RAGIngestionPipeline } from '@/lib/services/rag-ingestion'
+import { DocumentUploadRequest, DocumentType, MAX_FILE_SIZE } from '@/types/rag'
+
+// Text is extracted from these during ingestion
+const SUPPORTED_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt', 'md', 'markdown']
+
+// Determine document type from file extension
+const getDocumentType = (fileName: string): DocumentType => {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  switch (extension) {
+    case 'pdf': return 'pdf'
+    case 'doc':
+    case 'docx': return 'word'
+    case 'txt': return 'text'
+    case 'md':
+    case 'markdown': return 'markdown'
+    case 'xls':
+    case 'xlsx': return 'excel'
+    case 'ppt':
+    case 'pptx': return 'powerpoint'
+    default: return 'other'
+  }
+}
 
-export async function GET(request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const formData = await request.formData()
     const file = formData.get('file') as File
     const title = formData.get('title') as string
     const tags = formData.get('tags') as string
     const metadata = formData.get('metadata') as string
+    const previousVersionId = formData.get('previous_version_id') as string | null
 
     if (!file) {
       return NextResponse.json(
@@ -25,9 +56,7 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Validate file size (50MB limit)
-    const maxSize = 50 * 1024 * 1024 // 50MB
-    if (file.size > maxSize) {
+    if (file.size > MAX_FILE_SIZE) {
       return NextResponse.json(
         {
           success: false,
@@ -41,33 +70,14 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Extract text content from file
-    let content: string
-    try {
-      if (file.type.startsWith('text/') || file.name.endsWith('.txt') || file.name.endsWith('.md')) {
-        content = await file.text()
-      } else {
-        // For now, only support text files
-        // In production, you'd add PDF, Word, etc. parsers
-        return NextResponse.json(
-          {
-            success: false,
-            error: {
-              code: 'UNSUPPORTED_FILE_TYPE',
-              message: `File type ${file.type} is not supported yet. Please upload text files (.txt, .md)`,
-              timestamp: new Date().toISOString()
-            }
-          },
-          { status: 400 }
-        )
-      }
-    } catch (error) {
+    const extension = file.name.split('.').pop()?.toLowerCase() || ''
+    if (!SUPPORTED_EXTENSIONS.includes(extension)) {
       return NextResponse.json(
         {
           success: false,
           error: {
-            code: 'FILE_PROCESSING_ERROR',
-            message: 'Failed to extract text from file',
+            code: 'UNSUPPORTED_FILE_TYPE',
+            message: `File type ${file.type || extension} is not supported. Please upload PDF, Word, text or Markdown files`,
             timestamp: new Date().toISOString()
           }
         },
@@ -75,24 +85,6 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Determine document type from file extension
-    const getDocumentType = (fileName: string): DocumentType => {
-      const extension = fileName.split('.').pop()?.toLowerCase()
-      switch (extension) {
-        case 'pdf': return 'pdf'
-        case 'doc':
-        case 'docx': return 'word'
-        case 'txt': return 'text'
-        case 'md':
-        case 'markdown': return 'markdown'
-        case 'xls':
-        case 'xlsx': return 'excel'
-        case 'ppt':
-        case 'pptx': return 'powerpoint'
-        default: return 'other'
-      }
-    }
-
     // Parse optional fields
     const parsedTags = tags ? tags.split(',').map(tag => tag.trim()) : []
     const parsedMetadata = metadata ? JSON.parse(metadata) : {}
@@ -100,7 +92,6 @@ export async function GET(request: NextRequest) {
     const uploadRequest: DocumentUploadRequest = {
       file,
       title: title || file.name.replace(/\.[^/.]+$/, ''), // Remove extension if no title provided
-      content,
       document_type: getDocumentType(file.name),
       tags: parsedTags,
       metadata: {
@@ -109,10 +100,16 @@ export async function GET(request: NextRequest) {
         file_size: file.size,
         mime_type: file.type,
         upload_method: 'file_upload'
-      }
+      },
+      previous_version_id: previousVersionId || undefined
     }
 
-    const document = await ragService.uploadDocument(uploadRequest)
+    const document = await new RAGService(supabase).uploadDocument(uploadRequest, user.id)
+
+    if (document.processing_status === 'pending') {
+      // Ingest after responding; the pipeline needs the service role to read the file
+      after(() => new RAGIngestionPipeline(createAdminClient()).processDocument(document.id))
+    }
 
     return NextResponse.json({
       success: true,
@@ -140,8 +137,15 @@ export async function GET(request: NextRequest) {
 }
 
 // Get upload status and progress
-export async function POST(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const documentId = searchParams.get('documentId')
 
@@ -159,7 +163,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const document = await ragService.getDocument(documentId)
+    const document = await new RAGService(supabase).getDocument(documentId)
 
     if (!document) {
       return NextResponse.json(
@@ -182,6 +186,10 @@ export async function POST(request: NextRequest) {
         processing_complete: document.processing_complete || false,
         progress: {
           status: document.processing_status,
+          percent: document.processing_progress ?? 0,
+          error: document.processing_error ?? null,
+          attempts: document.processing_attempts ?? 0,
+          next_retry_at: document.next_retry_at ?? null,
           chunks: document.chunk_count || 0,
           embeddings: document.embedding_count || 0,
           total_tokens: document.total_tokens || 0
@@ -204,4 +212,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { createAdminClient } from '@/lib/supabase'
+import { COMMENT_ERROR_STATUS, CommentError, CommentsService } from '@/lib/services/collaboration'
+import { NotificationTriggersService } from '@/lib/services/notification-triggers'
+
+const createCommentSchema = z.object({
+  content: z.string().trim().min(1).max(1000),
+  parent_comment_id: z.string().uuid().nullable().optional(),
+  text_range_start: z.number().int().min(0).nullable().optional(),
+  text_range_end: z.number().int().min(0).nullable().optional(),
+  mentioned_user_ids: z.array(z.string().uuid()).max(20).optional()
+})
+
+// GET /api/sections/[id]/comments - Comment threads on a section with their replies
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const comments = await new CommentsService(supabase).getCommentsBySection(id)
+
+    return NextResponse.json({ comments })
+  } catch (error) {
+    console.error('Error loading comments:', error)
+    return NextResponse.json({ error: 'Failed to load comments' }, { status: 500 })
+  }
+}
+
+// POST /api/sections/[id]/comments - Comment on a section, a selected range of it, or reply to a thread
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = createCommentSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid comment', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    // Mention notifications go to other users, which only the service role can write
+    const comment = await new CommentsService(supabase, new NotificationTriggersService(createAdminClient()))
+      .createComment({ ...parsed.data, section_id: id }, user.id)
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error) {
+    if (error instanceof CommentError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: COMMENT_ERROR_STATUS[error.code] })
+    }
+    console.error('Error creating comment:', error)
+    return NextResponse.json({ error: 'Failed to create comment' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  SECTION_VERSION_ERROR_STATUS,
+  SectionVersionError,
+  SectionVersionsService
+} from '@/lib/services/section-versions'
+
+const restoreSchema = z.object({
+  version: z.number().int().min(1)
+})
+
+// POST /api/sections/[id]/restore - Make an earlier version current, keeping the current text as a version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = restoreSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid restore', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const version = await new SectionVersionsService(supabase).restoreVersion(id, parsed.data.version)
+
+    return NextResponse.json({ version })
+  } catch (error) {
+    if (error instanceof SectionVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: SECTION_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error restoring section version:', error)
+    return NextResponse.json({ error: 'Failed to restore section version' }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  SECTION_VERSION_ERROR_STATUS,
+  SectionVersionError,
+  SectionVersionsService
+} from '@/lib/services/section-versions'
+
+const milestoneSchema = z.object({
+  milestone_name: z.string().trim().max(100).nullable()
+})
+
+// PATCH /api/sections/[id]/versions/[version] - Name a version as a milestone, or clear its name
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, version: versionParam } = await params
+    const versionNumber = Number(versionParam)
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 })
+    }
+
+    const parsed = milestoneSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid milestone', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const version = await new SectionVersionsService(supabase)
+      .nameMilestone(id, versionNumber, parsed.data.milestone_name)
+
+    return NextResponse.json({ version })
+  } catch (error) {
+    if (error instanceof SectionVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: SECTION_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error naming section version:', error)
+    return NextResponse.json({ error: 'Failed to name section version' }, { status: 500 })
+  }
+}
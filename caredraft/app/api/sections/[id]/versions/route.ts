@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  SECTION_VERSION_ERROR_STATUS,
+  SectionVersionError,
+  SectionVersionsService
+} from '@/lib/services/section-versions'
+
+const compareSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1)
+})
+
+const saveSchema = z.object({
+  content: z.string(),
+  change_summary: z.string().max(500).optional(),
+  save_kind: z.enum(['autosave', 'manual']).default('manual'),
+  milestone_name: z.string().trim().min(1).max(100).optional()
+})
+
+// GET /api/sections/[id]/versions?from=&to= - Version history, or a word diff between two versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const service = new SectionVersionsService(supabase)
+    const searchParams = request.nextUrl.searchParams
+
+    if (searchParams.has('from') || searchParams.has('to')) {
+      const parsed = compareSchema.safeParse({ from: searchParams.get('from'), to: searchParams.get('to') })
+      if (!parsed.success) {
+        return NextResponse.json({ error: 'Invalid versions', details: parsed.error.errors }, { status: 400 })
+      }
+
+      const diff = await service.diffVersions(id, parsed.data.from, parsed.data.to)
+      if (!diff) {
+        return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+      }
+      return NextResponse.json({ diff })
+    }
+
+    const versions = await service.getVersions(id)
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error loading section versions:', error)
+    return NextResponse.json({ error: 'Failed to load section versions' }, { status: 500 })
+  }
+}
+
+// POST /api/sections/[id]/versions - Save the section content as a version, optionally naming it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = saveSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid version', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id } = await params
+    const version = await new SectionVersionsService(supabase).saveVersion({
+      section_id: id,
+      content_snapshot: parsed.data.content,
+      change_summary: parsed.data.change_summary,
+      save_kind: parsed.data.save_kind,
+      milestone_name: parsed.data.milestone_name
+    })
+
+    return NextResponse.json({ version }, { status: 201 })
+  } catch (error) {
+    if (error instanceof SectionVersionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: SECTION_VERSION_ERROR_STATUS[error.code] })
+    }
+    console.error('Error saving section version:', error)
+    return NextResponse.json({ error: 'Failed to save section version' }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { createClient } from '@/utils/supabase/server'
+import {
+  DocumentStorageService,
+  SHARE_DENIAL_STATUS,
+  accessContextFromHeaders
+} from '@/lib/services/document-storage'
+
+// Download a shared document, counting against the share's download limit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { token } = await params
+    const service = new DocumentStorageService(createAdminClient())
+    const result = await service.getDocumentByShareToken(token, {
+      download: true,
+      userId: user?.id,
+      ...accessContextFromHeaders(request.headers)
+    })
+
+    if (!result.success || !result.url) {
+      const status = result.reason ? SHARE_DENIAL_STATUS[result.reason] : 500
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status })
+    }
+
+    return NextResponse.redirect(result.url)
+  } catch (error) {
+    console.error('Shared document download error:', error)
+    return NextResponse.json({ error: 'Failed to download shared document' }, { status: 500 })
+  }
+}
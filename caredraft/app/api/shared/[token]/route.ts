@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase'
+import { createClient } from '@/utils/supabase/server'
+import {
+  DocumentStorageService,
+  SHARE_DENIAL_STATUS,
+  accessContextFromHeaders
+} from '@/lib/services/document-storage'
+
+// Describe a shared document to someone opening a share link. Share links
+// work for people outside the organisation, so resolution uses the admin
+// client and the share's own rules decide access.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const { token } = await params
+    const service = new DocumentStorageService(createAdminClient())
+    const result = await service.getDocumentByShareToken(token, {
+      userId: user?.id,
+      ...accessContextFromHeaders(request.headers)
+    })
+
+    if (!result.success) {
+      const status = result.reason ? SHARE_DENIAL_STATUS[result.reason] : 500
+      return NextResponse.json({ error: result.error, reason: result.reason }, { status })
+    }
+
+    return NextResponse.json({ document: result.document, share: result.share })
+  } catch (error) {
+    console.error('Shared document error:', error)
+    return NextResponse.json({ error: 'Failed to open share link' }, { status: 500 })
+  }
+}
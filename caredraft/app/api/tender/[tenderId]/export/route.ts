@@ -3,15 +3,29 @@ import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { z } from 'zod'
 import jsPDF from 'jspdf'
-import { Document, Packer, Paragraph, TextRun, HeadingLevel } from 'docx'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DOCXGenerator, normaliseColor, type DOCXSection } from '@/lib/services/docx-generator'
+import { organizationService, type OrganizationSettings } from '@/lib/services/organization-service'
+import { TenderSectionService } from '@/lib/services/tender-sections'
+import { parseRichText, richTextToPlainText } from '@/lib/utils/rich-text'
+import {
+  PORTAL_EXPORT_CONTENT_TYPES,
+  PORTAL_EXPORT_EXTENSIONS,
+  PORTAL_EXPORT_FORMATS,
+  PortalExportService,
+  getWordLimitViolations,
+  type PortalExportFormat
+} from '@/lib/services/portal-export'
 
 const exportRequestSchema = z.object({
-  format: z.enum(['pdf', 'docx', 'html']),
+  format: z.enum(['pdf', 'docx', 'html', ...PORTAL_EXPORT_FORMATS]),
   includeBranding: z.boolean().default(true),
   includeAppendices: z.boolean().default(true),
   watermark: z.boolean().default(false),
   password: z.string().optional(),
-  sections: z.array(z.string()).optional()
+  sections: z.array(z.string()).optional(),
+  // Portal formats refuse to export over-limit responses unless this is set
+  allowOverLimit: z.boolean().default(false)
 })
 
 export async function POST(
@@ -43,7 +57,7 @@ export async function POST(
     }
 
     const body = await request.json()
-    const { format, includeBranding, includeAppendices, watermark, password: _password, sections: _sections } = exportRequestSchema.parse(body)
+    const { format, includeBranding, includeAppendices, watermark, password: _password, sections: _sections, allowOverLimit } = exportRequestSchema.parse(body)
     
     const { tenderId } = await params
 
@@ -61,28 +75,49 @@ export async function POST(
       return NextResponse.json({ error: 'Tender not found' }, { status: 404 })
     }
 
-    // Mock tender content for demonstration
-    const tenderContent = {
-      title: tender.title || 'NHS Community Care Services - Yorkshire Region',
-      executiveSummary: 'CareDraft is a leading provider of community care services with over 15 years of experience in delivering high-quality, person-centered care across Yorkshire. Our comprehensive approach combines qualified staff, innovative technology, and deep community connections to deliver exceptional outcomes for service users.',
-      technicalApproach: 'Our technical approach is built on evidence-based practices, continuous quality improvement, and robust compliance frameworks. We utilize digital care planning systems, real-time monitoring, and comprehensive staff training programs to ensure consistent, high-quality service delivery.',
-      commercial: 'Our competitive pricing model reflects our commitment to delivering value for money while maintaining the highest standards of care. We offer transparent pricing with no hidden costs and flexible contract terms that adapt to changing needs.',
-      qualityAssurance: 'Quality is at the heart of everything we do. Our quality assurance framework includes regular audits, continuous staff training, service user feedback systems, and compliance monitoring to ensure we exceed regulatory requirements and deliver outstanding outcomes.',
-      riskManagement: 'We have identified and developed comprehensive mitigation strategies for all potential risks including staffing, regulatory compliance, technology failures, and service continuity. Our risk register is regularly reviewed and updated.',
-      implementationPlan: 'Our implementation plan includes a phased approach with clear milestones, dedicated project management, staff transition planning, and comprehensive service user communication to ensure seamless service delivery from day one.'
+    if (isPortalExportFormat(format)) {
+      return exportPortalFormat(supabase, tenderId, tender.title, format, allowOverLimit)
+    }
+
+    const loadSections = (projectId: string) => new TenderSectionService(supabase).getTenderSections(projectId)
+    const sections = DOCXGenerator.sectionsFromTree(await loadSections(tenderId))
+    if (sections.length === 0) {
+      return NextResponse.json({ error: 'This tender has no drafted sections to export' }, { status: 400 })
+    }
+
+    const organization = includeBranding && tender.organization_id
+      ? await organizationService.getOrganization(tender.organization_id)
+      : null
+    const title = tender.title || 'Tender Response'
+    const options = {
+      includeBranding,
+      includeAppendices,
+      watermark,
+      organizationName: organization?.name,
+      branding: organization?.settings?.branding
     }
 
     let exportData: Buffer | string
 
     switch (format) {
       case 'pdf':
-        exportData = await generatePDF(tenderContent, { includeBranding, includeAppendices, watermark })
+        exportData = await generatePDF(title, sections, options)
         break
-      case 'docx':
-        exportData = await generateDOCX(tenderContent, { includeBranding, includeAppendices, watermark })
+      case 'docx': {
+        const result = await DOCXGenerator.generateProposalDocument(tenderId, {
+          title,
+          organizationName: options.organizationName,
+          branding: options.branding,
+          watermark: watermark ? 'DRAFT' : undefined
+        }, loadSections)
+        if (!result.success || !result.buffer) {
+          throw new Error(result.error || 'DOCX generation failed')
+        }
+        exportData = result.buffer
         break
+      }
       case 'html':
-        exportData = generateHTML(tenderContent, { includeBranding, includeAppendices, watermark })
+        exportData = generateHTML(title, sections, options)
         break
       default:
         return NextResponse.json({ error: 'Invalid format' }, { status: 400 })
@@ -109,12 +144,72 @@ export async function POST(
   }
 }
 
-async function generatePDF(content: any, options: any): Promise<Buffer> {
+function isPortalExportFormat(format: string): format is PortalExportFormat {
+  return (PORTAL_EXPORT_FORMATS as readonly string[]).includes(format)
+}
+
+/**
+ * Export question-by-question responses for pasting into a commissioner's
+ * e-tendering portal. Over-limit responses block the export with a 422
+ * unless allowOverLimit is set, in which case they are reported in the
+ * X-Word-Limit-Warnings header and flagged in the file.
+ */
+async function exportPortalFormat(
+  supabase: SupabaseClient,
+  tenderId: string,
+  title: string | null,
+  format: PortalExportFormat,
+  allowOverLimit: boolean
+) {
+  const service = new PortalExportService(supabase)
+  const rows = await service.getExportRows(tenderId)
+
+  if (rows.length === 0) {
+    return NextResponse.json({ error: 'This tender has no questions to export' }, { status: 400 })
+  }
+
+  const violations = getWordLimitViolations(rows)
+  if (violations.length > 0 && !allowOverLimit) {
+    return NextResponse.json(
+      {
+        error: `${violations.length} response${violations.length === 1 ? ' is' : 's are'} over the word limit`,
+        violations
+      },
+      { status: 422 }
+    )
+  }
+
+  const exportData = await service.render(rows, format, title || undefined)
+  const fileName = `tender-${tenderId}-responses.${PORTAL_EXPORT_EXTENSIONS[format]}`
+
+  return new NextResponse(exportData, {
+    status: 200,
+    headers: {
+      'Content-Type': PORTAL_EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Content-Length': exportData.length.toString(),
+      'X-Word-Limit-Warnings': violations.map(v => `${v.questionNumber}:${v.wordCount}/${v.wordLimit}`).join(',')
+    }
+  })
+}
+
+interface RenderOptions {
+  includeBranding: boolean
+  includeAppendices: boolean
+  watermark: boolean
+  organizationName?: string
+  branding?: OrganizationSettings['branding']
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+async function generatePDF(title: string, sections: DOCXSection[], options: RenderOptions): Promise<Buffer> {
   const doc = new jsPDF()
 
   // Title page
   doc.setFontSize(24)
-  doc.text(content.title, 20, 40)
+  doc.text(title, 20, 40)
   
   if (options.watermark) {
     doc.setTextColor(200, 200, 200)
@@ -124,34 +219,27 @@ async function generatePDF(content: any, options: any): Promise<Buffer> {
   }
 
   // Add branding if requested
-  if (options.includeBranding) {
+  if (options.includeBranding && options.organizationName) {
     doc.setFontSize(12)
-    doc.text('CareDraft - Professional Care Services', 20, 20)
+    doc.text(options.organizationName, 20, 20)
   }
 
   // Content sections
   let yPosition = 60
-  const sections = [
-    { title: 'Executive Summary', content: content.executiveSummary },
-    { title: 'Technical Approach', content: content.technicalApproach },
-    { title: 'Commercial Proposal', content: content.commercial },
-    { title: 'Quality Assurance', content: content.qualityAssurance },
-    { title: 'Risk Management', content: content.riskManagement },
-    { title: 'Implementation Plan', content: content.implementationPlan }
-  ]
-
   sections.forEach((section) => {
     if (yPosition > 250) {
       doc.addPage()
       yPosition = 20
     }
 
-    doc.setFontSize(16)
-    doc.text(section.title, 20, yPosition)
-    yPosition += 10
+    if (section.title.trim()) {
+      doc.setFontSize(Math.max(18 - (section.level ?? 1) * 2, 12))
+      doc.text(section.title.trim(), 20, yPosition)
+      yPosition += 10
+    }
 
     doc.setFontSize(11)
-    const splitText = doc.splitTextToSize(section.content, 170)
+    const splitText = doc.splitTextToSize(richTextToPlainText(parseRichText(section.content)), 170)
     doc.text(splitText, 20, yPosition)
     yPosition += splitText.length * 5 + 10
   })
@@ -167,104 +255,37 @@ async function generatePDF(content: any, options: any): Promise<Buffer> {
   return Buffer.from(doc.output('arraybuffer'))
 }
 
-async function generateDOCX(content: any, options: any): Promise<Buffer> {
-  const paragraphs = []
-
-  // Title
-  paragraphs.push(
-    new Paragraph({
-      text: content.title,
-      heading: HeadingLevel.TITLE,
-    })
-  )
-
-  if (options.watermark) {
-    paragraphs.push(
-      new Paragraph({
-        children: [new TextRun({ text: 'DRAFT - CONFIDENTIAL', color: 'CCCCCC', size: 48 })]
-      })
-    )
-  }
-
-  // Branding
-  if (options.includeBranding) {
-    paragraphs.push(
-      new Paragraph({
-        children: [new TextRun({ text: 'CareDraft - Professional Care Services', bold: true })]
-      })
-    )
-  }
-
-  // Content sections
-  const sections = [
-    { title: 'Executive Summary', content: content.executiveSummary },
-    { title: 'Technical Approach', content: content.technicalApproach },
-    { title: 'Commercial Proposal', content: content.commercial },
-    { title: 'Quality Assurance', content: content.qualityAssurance },
-    { title: 'Risk Management', content: content.riskManagement },
-    { title: 'Implementation Plan', content: content.implementationPlan }
-  ]
-
-  sections.forEach((section) => {
-    paragraphs.push(
-      new Paragraph({
-        text: section.title,
-        heading: HeadingLevel.HEADING_1,
-      })
-    )
-    paragraphs.push(
-      new Paragraph({
-        text: section.content,
-      })
-    )
-    paragraphs.push(new Paragraph({ text: '' })) // Empty paragraph for spacing
-  })
-
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: paragraphs,
-      },
-    ],
-  })
-
-  const buffer = await Packer.toBuffer(doc)
-  return buffer
-}
-
-function generateHTML(content: any, options: any): string {
-  const branding = options.includeBranding ? '<div class="branding">CareDraft - Professional Care Services</div>' : ''
+function generateHTML(title: string, sections: DOCXSection[], options: RenderOptions): string {
+  const branding = options.includeBranding && options.organizationName
+    ? `<div class="branding">${escapeHtml(options.organizationName)}</div>`
+    : ''
   const watermark = options.watermark ? '<div class="watermark">DRAFT</div>' : ''
+  // Validated, as it is written into the style block
+  const accent = `#${normaliseColor(options.branding?.primary_color) ?? '007ACC'}`
 
-  const sections = [
-    { title: 'Executive Summary', content: content.executiveSummary },
-    { title: 'Technical Approach', content: content.technicalApproach },
-    { title: 'Commercial Proposal', content: content.commercial },
-    { title: 'Quality Assurance', content: content.qualityAssurance },
-    { title: 'Risk Management', content: content.riskManagement },
-    { title: 'Implementation Plan', content: content.implementationPlan }
-  ]
-
-  const sectionsHTML = sections.map(section => `
+  // Section content is the editor's HTML, so it is embedded as is
+  const sectionsHTML = sections.map(section => {
+    const level = Math.min((section.level ?? 1) + 1, 6)
+    return `
     <section>
-      <h2>${section.title}</h2>
-      <p>${section.content}</p>
+      ${section.title.trim() ? `<h${level}>${escapeHtml(section.title.trim())}</h${level}>` : ''}
+      ${section.content}
     </section>
-  `).join('')
+  `
+  }).join('')
 
   return `
     <!DOCTYPE html>
     <html>
     <head>
-      <title>${content.title}</title>
+      <title>${escapeHtml(title)}</title>
       <style>
         body { font-family: Arial, sans-serif; line-height: 1.6; margin: 40px; }
         .branding { color: #666; font-size: 12px; margin-bottom: 20px; }
         .watermark { position: fixed; top: 50%; left: 50%; transform: translate(-50%, -50%) rotate(-45deg); 
                      font-size: 72px; color: rgba(200, 200, 200, 0.3); z-index: -1; }
-        h1 { color: #333; border-bottom: 2px solid #007ACC; padding-bottom: 10px; }
-        h2 { color: #007ACC; margin-top: 30px; }
+        h1 { color: #333; border-bottom: 2px solid ${accent}; padding-bottom: 10px; }
+        h2, h3, h4, h5, h6 { color: ${accent}; margin-top: 30px; }
         section { margin-bottom: 30px; }
         p { text-align: justify; }
         @media print { .watermark { position: absolute; } }
@@ -273,7 +294,7 @@ function generateHTML(content: any, options: any): string {
     <body>
       ${branding}
       ${watermark}
-      <h1>${content.title}</h1>
+      <h1>${escapeHtml(title)}</h1>
       ${sectionsHTML}
     </body>
     </html>
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import { TenderKnowledgeIntegrationService } from '@/lib/services/tender-knowledge-integration'
+import { rateLimit, rateLimitConfigs } from '@/lib/rate-limiter'
+
+const relevantKnowledgeSchema = z.object({
+  max_results: z.number().int().min(1).max(25).default(10)
+})
+
+// POST /api/tender/[tenderId]/knowledge - The tender's details with Knowledge Hub documents and answers ranked against it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Every requirement is embedded, so this counts against the AI limit
+    const limitResult = await rateLimit(request, rateLimitConfigs.ai)
+    if (!limitResult.success) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: limitResult.retryAfter },
+        { status: 429, headers: { 'Retry-After': limitResult.retryAfter?.toString() || '60' } }
+      )
+    }
+
+    const parsed = relevantKnowledgeSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid options', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { tenderId } = await params
+    const knowledge = await new TenderKnowledgeIntegrationService(supabase)
+      .getRelevantKnowledge(tenderId, parsed.data)
+    if (!knowledge) {
+      return NextResponse.json({ error: 'Tender not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(knowledge)
+  } catch (error) {
+    console.error('Error finding relevant knowledge:', error)
+    return NextResponse.json({ error: 'Failed to find relevant knowledge' }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_ERROR_STATUS,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+const assignSchema = z.object({
+  reviewerIds: z.array(z.string().uuid()).min(1).max(20)
+})
+
+// POST /api/tender/[tenderId]/reviews/[stageId]/reviewers - Assign reviewers to a stage
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string; stageId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = assignSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid reviewers', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { stageId } = await params
+    const assignments = await new ColourTeamReviewService(supabase)
+      .assignReviewers(stageId, parsed.data.reviewerIds, user.id)
+
+    return NextResponse.json({ assignments }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error assigning stage reviewers:', error)
+    return NextResponse.json({ error: 'Failed to assign reviewers' }, { status: 500 })
+  }
+}
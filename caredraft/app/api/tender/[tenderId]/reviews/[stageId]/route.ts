@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_COLOURS,
+  REVIEW_ERROR_STATUS,
+  REVIEW_STAGE_STATUSES,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+const updateStageSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  colour: z.enum(REVIEW_COLOURS).optional(),
+  status: z.enum(REVIEW_STAGE_STATUSES).optional(),
+  due_date: z.string().datetime().nullable().optional(),
+  stage_order: z.number().int().min(0).optional()
+})
+
+// GET /api/tender/[tenderId]/reviews/[stageId] - Aggregated scorecard for a stage
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string; stageId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { stageId } = await params
+    const scorecard = await new ColourTeamReviewService(supabase).getStageScorecard(stageId, user.id)
+
+    return NextResponse.json({ scorecard })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error loading review scorecard:', error)
+    return NextResponse.json({ error: 'Failed to load review scorecard' }, { status: 500 })
+  }
+}
+
+// PATCH /api/tender/[tenderId]/reviews/[stageId] - Update a stage, or open and close it for scoring
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string; stageId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = updateStageSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid review stage', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { stageId } = await params
+    const stage = await new ColourTeamReviewService(supabase).updateStage(stageId, parsed.data)
+
+    return NextResponse.json({ stage })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error updating review stage:', error)
+    return NextResponse.json({ error: 'Failed to update review stage' }, { status: 500 })
+  }
+}
+
+// DELETE /api/tender/[tenderId]/reviews/[stageId] - Remove a stage and its scores
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string; stageId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { stageId } = await params
+    await new ColourTeamReviewService(supabase).deleteStage(stageId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error deleting review stage:', error)
+    return NextResponse.json({ error: 'Failed to delete review stage' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_ERROR_STATUS,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+const noteList = z.array(z.string().max(500)).max(20)
+
+const scoreSchema = z.object({
+  question_id: z.string().uuid(),
+  // Half marks are allowed; the tender's scale is checked by the service
+  score: z.number().min(0).max(10).multipleOf(0.5),
+  strengths: noteList.optional(),
+  weaknesses: noteList.optional(),
+  comments: z.string().max(2000).nullable().optional()
+})
+
+// PUT /api/tender/[tenderId]/reviews/[stageId]/scores - Save the current reviewer's score for a question
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string; stageId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = scoreSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid score', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { stageId } = await params
+    const score = await new ColourTeamReviewService(supabase).saveScore(stageId, user.id, parsed.data)
+
+    return NextResponse.json({ score })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error saving review score:', error)
+    return NextResponse.json({ error: 'Failed to save score' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_ERROR_STATUS,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+// POST /api/tender/[tenderId]/reviews/[stageId]/submit - Submit the current reviewer's scorecard
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string; stageId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { stageId } = await params
+    const assignment = await new ColourTeamReviewService(supabase).submitScorecard(stageId)
+
+    return NextResponse.json({ assignment })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error submitting scorecard:', error)
+    return NextResponse.json({ error: 'Failed to submit scorecard' }, { status: 500 })
+  }
+}
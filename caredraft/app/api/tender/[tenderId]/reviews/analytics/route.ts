@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_ERROR_STATUS,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+// GET /api/tender/[tenderId]/reviews/analytics - Predicted quality score from the review stages
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { tenderId } = await params
+    const analytics = await new ColourTeamReviewService(supabase).getReviewAnalytics(tenderId)
+
+    return NextResponse.json({ analytics })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error loading review analytics:', error)
+    return NextResponse.json({ error: 'Failed to load review analytics' }, { status: 500 })
+  }
+}
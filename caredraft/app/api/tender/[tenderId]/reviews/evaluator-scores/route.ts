@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_ERROR_STATUS,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+const evaluatorScoresSchema = z.object({
+  scores: z.array(z.object({
+    question_id: z.string().uuid(),
+    score: z.number().min(0).max(100).nullable()
+  })).min(1).max(500)
+})
+
+// GET /api/tender/[tenderId]/reviews/evaluator-scores - Questions with the scores the commissioner awarded
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { tenderId } = await params
+    const questions = await new ColourTeamReviewService(supabase).getEvaluatorScores(tenderId)
+
+    return NextResponse.json({ questions })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error loading evaluator scores:', error)
+    return NextResponse.json({ error: 'Failed to load evaluator scores' }, { status: 500 })
+  }
+}
+
+// PUT /api/tender/[tenderId]/reviews/evaluator-scores - Record the scores the commissioner awarded per question
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = evaluatorScoresSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid evaluator scores', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { tenderId } = await params
+    const questions = await new ColourTeamReviewService(supabase).recordEvaluatorScores(tenderId, parsed.data.scores)
+
+    return NextResponse.json({ questions })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error recording evaluator scores:', error)
+    return NextResponse.json({ error: 'Failed to record evaluator scores' }, { status: 500 })
+  }
+}
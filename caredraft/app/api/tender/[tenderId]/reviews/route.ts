@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/utils/supabase/server'
+import {
+  ColourTeamReviewService,
+  REVIEW_COLOURS,
+  REVIEW_ERROR_STATUS,
+  ReviewError
+} from '@/lib/services/colour-team-reviews'
+
+const createStageSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  colour: z.enum(REVIEW_COLOURS),
+  due_date: z.string().datetime().nullable().optional(),
+  stage_order: z.number().int().min(0).optional()
+})
+
+const scaleSchema = z.object({
+  scaleMax: z.union([z.literal(5), z.literal(10)])
+})
+
+// GET /api/tender/[tenderId]/reviews - Scoring scale and review stages with their reviewers
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { tenderId } = await params
+    const setup = await new ColourTeamReviewService(supabase).getReviewSetup(tenderId)
+
+    return NextResponse.json(setup)
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error loading review stages:', error)
+    return NextResponse.json({ error: 'Failed to load review stages' }, { status: 500 })
+  }
+}
+
+// POST /api/tender/[tenderId]/reviews - Add a review stage
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = createStageSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid review stage', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { tenderId } = await params
+    const stage = await new ColourTeamReviewService(supabase).createStage(tenderId, parsed.data)
+
+    return NextResponse.json({ stage }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error creating review stage:', error)
+    return NextResponse.json({ error: 'Failed to create review stage' }, { status: 500 })
+  }
+}
+
+// PATCH /api/tender/[tenderId]/reviews - Set the commissioner's scoring scale
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = scaleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Scoring scale must be 0-5 or 0-10', details: parsed.error.errors }, { status: 400 })
+    }
+
+    const { tenderId } = await params
+    const scaleMax = await new ColourTeamReviewService(supabase).setScoringScale(tenderId, parsed.data.scaleMax)
+
+    return NextResponse.json({ scaleMax })
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: REVIEW_ERROR_STATUS[error.code] })
+    }
+    console.error('Error setting scoring scale:', error)
+    return NextResponse.json({ error: 'Failed to set scoring scale' }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { TenderSectionService } from '@/lib/services/tender-sections'
+
+async function createSupabase() {
+  const cookieStore = await cookies()
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value, options }) =>
+            cookieStore.set(name, value, options)
+          )
+        },
+      },
+    }
+  )
+}
+
+// Get the section tree for a tender
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createSupabase()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { tenderId } = await params
+    const sections = await new TenderSectionService(supabase).getTenderSections(tenderId)
+
+    return NextResponse.json({ sections })
+  } catch (error) {
+    console.error('Error fetching tender sections:', error)
+    return NextResponse.json({ error: 'Failed to fetch tender sections' }, { status: 500 })
+  }
+}
+
+// Generate sections from the confirmed tender questions (Map & Auto-Fill step)
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ tenderId: string }> }
+) {
+  try {
+    const supabase = await createSupabase()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { tenderId } = await params
+
+    const { data: tender, error: tenderError } = await supabase
+      .from('tender_workflows')
+      .select('id')
+      .eq('id', tenderId)
+      .single()
+
+    if (tenderError || !tender) {
+      return NextResponse.json({ error: 'Tender not found' }, { status: 404 })
+    }
+
+    const result = await new TenderSectionService(supabase).generateSectionsFromQuestions(tenderId)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+  } catch (error) {
+    console.error('Error generating tender sections:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to generate sections'
+    }, { status: 500 })
+  }
+}
@@ -1,7 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
 import { cookies } from 'next/headers'
-import { AITenderParser } from '@/lib/services/ai-tender-parser'
+import { AITenderParser, saveTenderParsingResult, TenderParsingResult } from '@/lib/services/ai-tender-parser'
+import { DocumentExtractionService } from '@/lib/services/document-extraction'
+import { STORAGE_BUCKETS } from '@/lib/storage'
+
+// pdf-parse and mammoth need Node APIs
+export const runtime = 'nodejs'
+
+const allowedTypes = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain'
+]
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,22 +25,48 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const formData = await request.formData()
-    const file = formData.get('file') as File
-    
-    if (!file) {
-      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
-    }
+    let buffer: Buffer
+    let fileName: string
+    let fileType: string
+    let tenderWorkflowId: string | null = null
+    let tenderDocumentId: string | null = null
+
+    // Accept either a multipart upload or a path to a file already in storage
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json()
+      if (!body.filePath || !body.fileName) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+
+      const { data, error } = await supabase.storage
+        .from(STORAGE_BUCKETS.TENDER_DOCUMENTS)
+        .download(body.filePath)
+
+      if (error || !data) {
+        return NextResponse.json({ error: 'Failed to download file' }, { status: 404 })
+      }
+
+      buffer = Buffer.from(await data.arrayBuffer())
+      fileName = body.fileName
+      fileType = DocumentExtractionService.resolveFileType(fileName, data.type)
+      tenderWorkflowId = body.tenderWorkflowId ?? null
+      tenderDocumentId = body.tenderDocumentId ?? null
+    } else {
+      const formData = await request.formData()
+      const file = formData.get('file') as File
+
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
 
-    // Validate file type
-    const allowedTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'text/plain'
-    ]
+      buffer = Buffer.from(await file.arrayBuffer())
+      fileName = file.name
+      fileType = DocumentExtractionService.resolveFileType(file.name, file.type)
+      tenderWorkflowId = (formData.get('tenderWorkflowId') as string | null) || null
+      tenderDocumentId = (formData.get('tenderDocumentId') as string | null) || null
+    }
 
-    if (!allowedTypes.includes(file.type)) {
+    if (!allowedTypes.includes(fileType)) {
       return NextResponse.json({ 
         error: 'Invalid file type. Please upload PDF, Word, or text files.' 
       }, { status: 400 })
@@ -36,27 +74,63 @@ export async function POST(request: NextRequest) {
 
     // Validate file size (10MB limit for processing)
     const maxSize = 10 * 1024 * 1024 // 10MB
-    if (file.size > maxSize) {
+    if (buffer.length > maxSize) {
       return NextResponse.json({ 
         error: 'File too large for processing. Maximum size is 10MB.' 
       }, { status: 400 })
     }
 
-    console.log(`Starting AI parsing for file: ${file.name} (${file.size} bytes)`)
+    console.log(`Starting AI parsing for file: ${fileName} (${buffer.length} bytes)`)
+
+    if (tenderDocumentId) {
+      await supabase
+        .from('tender_documents')
+        .update({ extraction_status: 'processing' })
+        .eq('id', tenderDocumentId)
+    }
 
-    // Parse document with AI
-    const parser = new AITenderParser()
-    const parsedData = await parser.parseTenderDocument(file)
+    let parsedData: TenderParsingResult
+    try {
+      const parser = new AITenderParser()
+      parsedData = await parser.parseTenderDocument(buffer, { fileName, mimeType: fileType })
+    } catch (parseError) {
+      if (tenderDocumentId) {
+        await supabase
+          .from('tender_documents')
+          .update({ extraction_status: 'failed' })
+          .eq('id', tenderDocumentId)
+      }
+      throw parseError
+    }
 
-    console.log(`AI parsing completed for ${file.name} with confidence: ${parsedData.confidence}%`)
+    const validation = new AITenderParser().validateParsingResult(parsedData)
+
+    console.log(`AI parsing completed for ${fileName} with confidence: ${parsedData.confidence}%`)
+
+    let saved: { metadataId: string; questionsCreated: number } | null = null
+    if (tenderWorkflowId) {
+      saved = await saveTenderParsingResult(supabase, tenderWorkflowId, parsedData)
+    }
+
+    if (tenderDocumentId) {
+      // Store the parsed fields without the raw document text
+      const extractedData: Partial<TenderParsingResult> = { ...parsedData }
+      delete extractedData.rawText
+      await supabase
+        .from('tender_documents')
+        .update({ extraction_status: 'completed', extracted_data: extractedData })
+        .eq('id', tenderDocumentId)
+    }
 
     return NextResponse.json({
       success: true,
       parsedData,
+      validation,
+      saved,
       metadata: {
-        fileName: file.name,
-        fileSize: file.size,
-        fileType: file.type,
+        fileName,
+        fileSize: buffer.length,
+        fileType,
         processedAt: new Date().toISOString()
       }
     })
@@ -73,4 +147,4 @@ export async function POST(request: NextRequest) {
       fallback: true
     }, { status: 500 })
   }
-} 
\ No newline at end of file
+}
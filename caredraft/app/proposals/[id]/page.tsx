@@ -1,6 +1,8 @@
 import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import ProposalStatusControl from '@/components/proposal-workflow/ProposalStatusControl'
+import ProposalReviewersPanel from '@/components/proposal-workflow/ProposalReviewersPanel'
 import { ArrowLeft, FileText, Calendar, User, Building, CheckCircle, Clock, AlertCircle } from 'lucide-react'
 
 interface ProposalPageProps {
@@ -32,10 +34,7 @@ export default async function ProposalPage({ params }: ProposalPageProps) {
               </p>
             </div>
             <div className="flex items-center space-x-3">
-              <div className="flex items-center px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
-                <Clock className="w-4 h-4 mr-1" />
-                In Progress
-              </div>
+              <ProposalStatusControl proposalId={proposalId} />
               <Button>Edit Proposal</Button>
             </div>
           </div>
@@ -179,6 +178,8 @@ export default async function ProposalPage({ params }: ProposalPageProps) {
 
           {/* Sidebar */}
           <div className="space-y-6">
+            <ProposalReviewersPanel proposalId={proposalId} />
+
             {/* Quick Stats */}
             <Card>
               <CardHeader>
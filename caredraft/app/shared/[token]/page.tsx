@@ -0,0 +1,87 @@
+import Link from 'next/link'
+import { headers } from 'next/headers'
+import { AlertCircle, Download, FileText } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { createAdminClient } from '@/lib/supabase'
+import { createClient } from '@/utils/supabase/server'
+import { DocumentStorageService, accessContextFromHeaders } from '@/lib/services/document-storage'
+
+// Every visit is logged, so never serve this page from a cache
+export const dynamic = 'force-dynamic'
+
+interface SharedDocumentPageProps {
+  params: Promise<{
+    token: string
+  }>
+}
+
+export default async function SharedDocumentPage({ params }: SharedDocumentPageProps) {
+  const { token } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const service = new DocumentStorageService(createAdminClient())
+  const result = await service.getDocumentByShareToken(token, {
+    userId: user?.id,
+    ...accessContextFromHeaders(await headers())
+  })
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-16">
+      <div className="max-w-xl mx-auto px-4 sm:px-6 lg:px-8">
+        {result.success && result.document && result.share ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center space-x-3">
+                <div className="flex items-center justify-center w-10 h-10 bg-brand-primary-light rounded-lg">
+                  <FileText className="h-5 w-5 text-brand-primary" />
+                </div>
+                <div>
+                  <CardTitle>{result.document.originalTitle}</CardTitle>
+                  <CardDescription>
+                    {result.document.exportFormat.toUpperCase()} · Version {result.document.version} ·{' '}
+                    {(result.document.fileSize / 1024).toFixed(1)} KB
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {result.share.customMessage && (
+                <p className="text-sm text-gray-700 whitespace-pre-line bg-gray-50 p-3 rounded border">
+                  {result.share.customMessage}
+                </p>
+              )}
+              <p className="text-xs text-gray-500">
+                Exported {new Date(result.document.createdAt).toLocaleDateString('en-GB')}. This link expires{' '}
+                {new Date(result.share.expiresAt).toLocaleString('en-GB')}.
+              </p>
+              {result.share.allowDownload ? (
+                <Button asChild>
+                  <a href={`/api/shared/${token}/download`}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download {result.document.filename}
+                  </a>
+                </Button>
+              ) : (
+                <p className="text-sm text-gray-600">The sender has not allowed downloads for this link.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-8 text-center space-y-4">
+              <AlertCircle className="w-10 h-10 text-red-500 mx-auto" />
+              <p className="text-gray-900 font-medium">{result.error || 'This share link cannot be opened'}</p>
+              {result.reason === 'authentication_required' && (
+                <Button asChild>
+                  <Link href={`/login?redirectTo=${encodeURIComponent(`/shared/${token}`)}`}>Sign in</Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
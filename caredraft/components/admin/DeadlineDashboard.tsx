@@ -1,8 +1,14 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
-import { Clock, AlertTriangle, CheckCircle, Play, Calendar, Bell } from 'lucide-react'
-import { DeadlineCheckResult, DeadlineRule, DeadlineProcessingResult } from '@/lib/services/proposal-deadline-manager'
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Clock, AlertTriangle, CheckCircle, Play, Calendar, Bell, History } from 'lucide-react'
+import type {
+  DeadlineCheckResult,
+  DeadlineRule,
+  DeadlineProcessingResult,
+  DeadlineProcessingRun
+} from '@/lib/services/proposal-deadline-manager'
 import ProposalStatusBadge from '@/components/proposal-workflow/ProposalStatusBadge'
 
 interface DeadlineDashboardProps {
@@ -11,51 +17,51 @@ interface DeadlineDashboardProps {
 
 export default function DeadlineDashboard({ className = '' }: DeadlineDashboardProps) {
   const [upcomingDeadlines, setUpcomingDeadlines] = useState<DeadlineCheckResult[]>([])
-  const [, setDeadlineRules] = useState<DeadlineRule[]>([])
+  const [deadlineRules, setDeadlineRules] = useState<DeadlineRule[]>([])
+  const [processingRuns, setProcessingRuns] = useState<DeadlineProcessingRun[]>([])
+  const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [processing, setProcessing] = useState(false)
   const [lastProcessingResult, setLastProcessingResult] = useState<DeadlineProcessingResult | null>(null)
   const [hoursAhead, setHoursAhead] = useState(168) // 1 week default
 
-  // Load data on component mount
-  useEffect(() => {
-    loadDashboardData()
-  }, [hoursAhead])
-
-  const loadDashboardData = async () => {
+  const loadDashboardData = useCallback(async () => {
     setLoading(true)
     try {
-      // Load upcoming deadlines and rules
-      // In a real implementation, these would be API calls
-      console.log('Loading deadline dashboard data...')
-      
-      // Mock data for now
-      setUpcomingDeadlines([])
-      setDeadlineRules([])
-      
+      const response = await fetch(`/api/admin/deadlines?hoursAhead=${hoursAhead}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load deadlines')
+      }
+
+      setUpcomingDeadlines(data.upcoming)
+      setDeadlineRules(data.rules)
+      setProcessingRuns(data.runs)
+      setError(null)
     } catch (error) {
       console.error('Error loading deadline dashboard:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load deadlines')
     } finally {
       setLoading(false)
     }
-  }
+  }, [hoursAhead])
+
+  // Reload whenever the look-ahead window changes
+  useEffect(() => {
+    loadDashboardData()
+  }, [loadDashboardData])
 
   const triggerManualProcessing = async () => {
     setProcessing(true)
     try {
-      const response = await fetch('/api/cron/deadline-processor', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      })
+      const response = await fetch('/api/admin/deadlines/run', { method: 'POST' })
 
       if (response.ok) {
         const result = await response.json()
         setLastProcessingResult(result.result)
         await loadDashboardData() // Refresh data
       } else {
-        console.error('Manual processing failed')
+        setError('Manual processing failed')
       }
     } catch (error) {
       console.error('Error triggering manual processing:', error)
@@ -156,6 +162,12 @@ export default function DeadlineDashboard({ className = '' }: DeadlineDashboardP
       </div>
 
       <div className="p-6">
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -258,11 +270,13 @@ export default function DeadlineDashboard({ className = '' }: DeadlineDashboardP
                       />
                       
                       <div>
-                        <p className="font-medium text-gray-900">
-                          Proposal {deadline.proposalId}
-                        </p>
+                        <Link href={`/proposals/${deadline.proposalId}`} className="font-medium text-gray-900 hover:underline">
+                          {deadline.proposalTitle}
+                        </Link>
                         <p className="text-sm text-gray-600">
-                          {deadline.applicableRule?.description}
+                          {deadline.applicableRule?.description ||
+                            `Move to ${deadline.applicableRule?.toStatus} within ${deadline.applicableRule?.deadlineHours}h`}
+                          {deadline.shouldTransition && deadline.applicableRule?.requiresApproval && ' · Awaiting approval'}
                         </p>
                       </div>
                     </div>
@@ -274,7 +288,7 @@ export default function DeadlineDashboard({ className = '' }: DeadlineDashboardP
                       <p className="text-xs text-gray-500">
                         Deadline: {new Date(deadline.deadlineAt).toLocaleString()}
                       </p>
-                      {deadline.nextNotificationHours && (
+                      {deadline.nextNotificationHours !== null && (
                         <div className="flex items-center space-x-1 text-xs text-gray-500 mt-1">
                           <Bell className="h-3 w-3" />
                           <span>Next reminder in {deadline.nextNotificationHours}h</span>
@@ -287,7 +301,70 @@ export default function DeadlineDashboard({ className = '' }: DeadlineDashboardP
             </div>
           )}
         </div>
+
+        {/* Deadline Rules */}
+        <div className="mt-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Deadline Rules</h3>
+          {deadlineRules.length === 0 ? (
+            <p className="text-sm text-gray-500">No deadline rules are configured for your organisation.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {deadlineRules.map((rule) => (
+                <li key={rule.id} className={`p-3 text-sm flex items-center justify-between ${rule.enabled === false ? 'opacity-50' : ''}`}>
+                  <div className="flex items-center space-x-2">
+                    <ProposalStatusBadge status={rule.fromStatus} size="sm" showIcon={false} showLabel={true} />
+                    <span className="text-gray-400">→</span>
+                    <ProposalStatusBadge status={rule.toStatus} size="sm" showIcon={false} showLabel={true} />
+                    <span className="text-gray-600">within {rule.deadlineHours}h</span>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    Reminders at {rule.notificationHours.length > 0 ? rule.notificationHours.map(h => `${h}h`).join(', ') : 'none'} ·{' '}
+                    {rule.autoTransition ? (rule.requiresApproval ? 'Moves on after approval' : 'Moves on automatically') : 'Reminders only'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Processing History */}
+        <div className="mt-8">
+          <div className="flex items-center space-x-2 mb-4">
+            <History className="h-5 w-5 text-gray-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Processing History</h3>
+          </div>
+          {processingRuns.length === 0 ? (
+            <p className="text-sm text-gray-500">Deadlines have not been processed yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Processed</th>
+                  <th className="py-2 font-medium">Trigger</th>
+                  <th className="py-2 font-medium">Checked</th>
+                  <th className="py-2 font-medium">Notifications</th>
+                  <th className="py-2 font-medium">Transitions</th>
+                  <th className="py-2 font-medium">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {processingRuns.map((run) => (
+                  <tr key={run.id} className="border-b border-gray-100">
+                    <td className="py-2">{new Date(run.processedAt).toLocaleString()}</td>
+                    <td className="py-2 text-gray-600">{run.triggeredBy ? 'Manual' : 'Scheduled'}</td>
+                    <td className="py-2">{run.proposalsChecked}</td>
+                    <td className="py-2">{run.notificationsSent}</td>
+                    <td className="py-2">{run.transitionsPerformed}</td>
+                    <td className={`py-2 ${run.errors.length > 0 ? 'text-red-600' : 'text-green-600'}`} title={run.errors.map(e => e.error).join('\n')}>
+                      {run.errors.length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
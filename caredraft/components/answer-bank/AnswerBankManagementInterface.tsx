@@ -18,8 +18,16 @@ import {
   TrendingUp,
   BarChart3,
   Eye,
-  Users
+  Users,
+  History,
+  GitBranch,
+  Target,
+  CalendarClock,
+  Copy,
+  Upload,
+  Download
 } from 'lucide-react'
+import Link from 'next/link'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -27,13 +35,23 @@ import {
   AnswerBankWithStats, 
   AnswerBankCategory, 
   AnswerBankSearchParams,
-  AnswerBankAnalytics
+  AnswerBankAnalytics,
+  AnswerBankEffectiveness,
+  AnswerBankDuplicateCluster
 } from '@/lib/types/answer-bank.types'
+import AnswerEditModal from './AnswerEditModal'
+import AnswerEffectivenessPanel, { formatWinRate } from './AnswerEffectivenessPanel'
+import AnswerVersionHistory from './AnswerVersionHistory'
+import AnswerDuplicateReview from './AnswerDuplicateReview'
+import AnswerImportModal from './AnswerImportModal'
+import { getFreshnessStatus } from '@/lib/services/answer-bank'
 
 interface AnswerBankManagementInterfaceState {
   answers: AnswerBankWithStats[]
   categories: AnswerBankCategory[]
   analytics: AnswerBankAnalytics | null
+  effectiveAnswers: AnswerBankEffectiveness[]
+  duplicateClusters: AnswerBankDuplicateCluster[]
   searchParams: AnswerBankSearchParams
   viewMode: 'grid' | 'list'
   selectedAnswers: string[]
@@ -48,6 +66,8 @@ export function AnswerBankManagementInterface() {
     answers: [],
     categories: [],
     analytics: null,
+    effectiveAnswers: [],
+    duplicateClusters: [],
     searchParams: {
       query: '',
       sort_by: 'updated_at',
@@ -63,13 +83,19 @@ export function AnswerBankManagementInterface() {
     currentPage: 1
   })
 
-  const [activeTab, setActiveTab] = useState<'library' | 'analytics' | 'categories'>('library')
+  const [activeTab, setActiveTab] = useState<'library' | 'duplicates' | 'analytics' | 'categories'>('library')
+  const [editingAnswer, setEditingAnswer] = useState<AnswerBankWithStats | null>(null)
+  const [historyAnswer, setHistoryAnswer] = useState<AnswerBankWithStats | null>(null)
+  const [effectivenessAnswer, setEffectivenessAnswer] = useState<{ id: string; title: string } | null>(null)
+  const [showImport, setShowImport] = useState(false)
 
   // Load initial data
   useEffect(() => {
     loadAnswers()
     loadCategories()
     loadAnalytics()
+    loadEffectiveAnswers()
+    loadDuplicates()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [state.searchParams.query, state.searchParams.sort_by, state.searchParams.sort_order, state.searchParams.page, state.searchParams.per_page])
 
@@ -127,6 +153,39 @@ export function AnswerBankManagementInterface() {
     }
   }
 
+  const loadEffectiveAnswers = async () => {
+    try {
+      const response = await fetch('/api/answers/effectiveness?limit=5')
+      if (response.ok) {
+        const data = await response.json()
+        setState(prev => ({ ...prev, effectiveAnswers: data.answers || [] }))
+      }
+    } catch (error) {
+      console.error('Failed to load effective answers:', error)
+    }
+  }
+
+  const loadDuplicates = async () => {
+    try {
+      const response = await fetch('/api/answers/duplicates')
+      if (response.ok) {
+        const data = await response.json()
+        setState(prev => ({ ...prev, duplicateClusters: data.clusters || [] }))
+      }
+    } catch (error) {
+      console.error('Failed to load duplicate answers:', error)
+    }
+  }
+
+  const handleDuplicatesResolved = () => {
+    loadDuplicates()
+    loadAnswers()
+  }
+
+  const handleShowEffectiveness = (answer: { id: string; title: string }) => {
+    setEffectivenessAnswer({ id: answer.id, title: answer.title })
+  }
+
   const handleSearch = (query: string) => {
     setState(prev => ({
       ...prev,
@@ -163,8 +222,23 @@ export function AnswerBankManagementInterface() {
   }
 
   const handleEditAnswer = (answer: AnswerBankWithStats) => {
-    // TODO: Open edit form
-    console.log('Edit answer:', answer)
+    setEditingAnswer(answer)
+  }
+
+  const handleForkTemplate = async (template: AnswerBankWithStats) => {
+    try {
+      const response = await fetch(`/api/answers/${template.id}/fork`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to fork template: ${response.status}`)
+      }
+      loadAnswers()
+    } catch (error) {
+      console.error('Failed to fork template:', error)
+    }
   }
 
   const getCategoryById = (categoryId: string) => {
@@ -177,6 +251,7 @@ export function AnswerBankManagementInterface() {
 
   const tabs = [
     { id: 'library' as const, label: 'Answer Library', icon: FileText, count: state.totalCount },
+    { id: 'duplicates' as const, label: 'Duplicates', icon: Copy, count: state.duplicateClusters.length },
     { id: 'analytics' as const, label: 'Analytics', icon: BarChart3, count: null },
     { id: 'categories' as const, label: 'Categories', icon: Tag, count: state.categories.length }
   ]
@@ -230,6 +305,32 @@ export function AnswerBankManagementInterface() {
                   </Button>
                 </div>
 
+                <Link href="/answer-bank/review">
+                  <Button variant="outline">
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    Review Queue
+                  </Button>
+                </Link>
+
+                <Button variant="outline" onClick={() => setShowImport(true)}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
+
+                <div className="flex items-center border rounded-lg">
+                  <a href="/api/answers/export?format=json" download>
+                    <Button variant="ghost" size="sm" className="rounded-r-none" title="Export every answer with categories and usage stats">
+                      <Download className="h-4 w-4 mr-2" />
+                      JSON
+                    </Button>
+                  </a>
+                  <a href="/api/answers/export?format=csv" download>
+                    <Button variant="ghost" size="sm" className="rounded-l-none" title="Export every answer as a spreadsheet">
+                      CSV
+                    </Button>
+                  </a>
+                </div>
+
                 <Button onClick={() => console.log('Create new answer')}>
                   <Plus className="h-4 w-4 mr-2" />
                   New Answer
@@ -309,13 +410,27 @@ export function AnswerBankManagementInterface() {
               isLoading={state.isLoading}
               onAnswerSelect={handleAnswerSelect}
               onEditAnswer={handleEditAnswer}
+              onShowHistory={setHistoryAnswer}
+              onForkTemplate={handleForkTemplate}
+              onShowEffectiveness={handleShowEffectiveness}
               getCategoryById={getCategoryById}
               formatDate={formatDate}
             />
           )}
           
+          {activeTab === 'duplicates' && (
+            <AnswerDuplicateReview
+              clusters={state.duplicateClusters}
+              onResolved={handleDuplicatesResolved}
+            />
+          )}
+
           {activeTab === 'analytics' && (
-            <AnalyticsView analytics={state.analytics} />
+            <AnalyticsView
+              analytics={state.analytics}
+              effectiveAnswers={state.effectiveAnswers}
+              onShowEffectiveness={handleShowEffectiveness}
+            />
           )}
           
           {activeTab === 'categories' && (
@@ -326,6 +441,37 @@ export function AnswerBankManagementInterface() {
           )}
         </div>
       </div>
+
+      <AnswerEditModal
+        answer={editingAnswer}
+        onClose={() => setEditingAnswer(null)}
+        onSaved={loadAnswers}
+      />
+
+      {historyAnswer && (
+        <AnswerVersionHistory
+          answerId={historyAnswer.id}
+          title={historyAnswer.title}
+          isOpen={!!historyAnswer}
+          onClose={() => setHistoryAnswer(null)}
+          onRestored={loadAnswers}
+        />
+      )}
+
+      {effectivenessAnswer && (
+        <AnswerEffectivenessPanel
+          answerId={effectivenessAnswer.id}
+          title={effectivenessAnswer.title}
+          isOpen={!!effectivenessAnswer}
+          onClose={() => setEffectivenessAnswer(null)}
+        />
+      )}
+
+      <AnswerImportModal
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={loadAnswers}
+      />
     </div>
   )
 }
@@ -338,6 +484,9 @@ interface AnswerLibraryViewProps {
   isLoading: boolean
   onAnswerSelect: (id: string, selected: boolean) => void
   onEditAnswer: (answer: AnswerBankWithStats) => void
+  onShowHistory: (answer: AnswerBankWithStats) => void
+  onForkTemplate: (answer: AnswerBankWithStats) => void
+  onShowEffectiveness: (answer: AnswerBankWithStats) => void
   getCategoryById: (id: string) => AnswerBankCategory | undefined
   formatDate: (date: string) => string
 }
@@ -349,6 +498,9 @@ function AnswerLibraryView({
   isLoading,
   onAnswerSelect,
   onEditAnswer,
+  onShowHistory,
+  onForkTemplate,
+  onShowEffectiveness,
   getCategoryById,
   formatDate
 }: AnswerLibraryViewProps) {
@@ -380,6 +532,9 @@ function AnswerLibraryView({
             isSelected={selectedAnswers.includes(answer.id)}
             onSelect={onAnswerSelect}
             onEdit={onEditAnswer}
+            onShowHistory={onShowHistory}
+            onForkTemplate={onForkTemplate}
+            onShowEffectiveness={onShowEffectiveness}
             getCategoryById={getCategoryById}
             formatDate={formatDate}
           />
@@ -397,6 +552,9 @@ function AnswerLibraryView({
           isSelected={selectedAnswers.includes(answer.id)}
           onSelect={onAnswerSelect}
           onEdit={onEditAnswer}
+          onShowHistory={onShowHistory}
+          onForkTemplate={onForkTemplate}
+          onShowEffectiveness={onShowEffectiveness}
           getCategoryById={getCategoryById}
           formatDate={formatDate}
         />
@@ -411,11 +569,14 @@ interface AnswerCardProps {
   isSelected: boolean
   onSelect: (id: string, selected: boolean) => void
   onEdit: (answer: AnswerBankWithStats) => void
+  onShowHistory: (answer: AnswerBankWithStats) => void
+  onForkTemplate: (answer: AnswerBankWithStats) => void
+  onShowEffectiveness: (answer: AnswerBankWithStats) => void
   getCategoryById: (id: string) => AnswerBankCategory | undefined
   formatDate: (date: string) => string
 }
 
-function AnswerGridCard({ answer, isSelected, onSelect, onEdit, getCategoryById, formatDate }: AnswerCardProps) {
+function AnswerGridCard({ answer, isSelected, onSelect, onEdit, onShowHistory, onForkTemplate, onShowEffectiveness, getCategoryById, formatDate }: AnswerCardProps) {
   const category = answer.category_id ? getCategoryById(answer.category_id) : null
 
   return (
@@ -434,6 +595,10 @@ function AnswerGridCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
               {answer.is_template && (
                 <Badge variant="secondary">Template</Badge>
               )}
+              {answer.version > 1 && (
+                <Badge variant="outline">v{answer.version}</Badge>
+              )}
+              <FreshnessBadge answer={answer} />
               {category && (
                 <Badge style={{ backgroundColor: category.color + '20', color: category.color }}>
                   {category.name}
@@ -442,9 +607,19 @@ function AnswerGridCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
             </div>
             <h3 className="font-semibold text-gray-900 line-clamp-2">{answer.title}</h3>
           </div>
-          <Button variant="ghost" size="sm" onClick={() => onEdit(answer)}>
-            <MoreVertical className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center">
+            {answer.is_template && (
+              <Button variant="ghost" size="sm" onClick={() => onForkTemplate(answer)} title="Start a new answer from this template">
+                <GitBranch className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => onShowHistory(answer)} title="Version history">
+              <History className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onEdit(answer)}>
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </CardHeader>
       
@@ -463,6 +638,9 @@ function AnswerGridCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
               <Star className="h-3 w-3 mr-1" />
               {answer.avg_rating.toFixed(1)}
             </div>
+            {answer.effectiveness && (
+              <EffectivenessStat answer={answer} onShowEffectiveness={onShowEffectiveness} />
+            )}
           </div>
           <div className="flex items-center">
             <Clock className="h-3 w-3 mr-1" />
@@ -474,7 +652,7 @@ function AnswerGridCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
   )
 }
 
-function AnswerListCard({ answer, isSelected, onSelect, onEdit, getCategoryById, formatDate }: AnswerCardProps) {
+function AnswerListCard({ answer, isSelected, onSelect, onEdit, onShowHistory, onForkTemplate, onShowEffectiveness, getCategoryById, formatDate }: AnswerCardProps) {
   const category = answer.category_id ? getCategoryById(answer.category_id) : null
 
   return (
@@ -494,6 +672,10 @@ function AnswerListCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
               {answer.is_template && (
                 <Badge variant="secondary" className="text-xs">Template</Badge>
               )}
+              {answer.version > 1 && (
+                <Badge variant="outline" className="text-xs">v{answer.version}</Badge>
+              )}
+              <FreshnessBadge answer={answer} className="text-xs" />
               {category && (
                 <Badge 
                   style={{ backgroundColor: category.color + '20', color: category.color }}
@@ -515,12 +697,23 @@ function AnswerListCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
               <Star className="h-4 w-4 mr-1" />
               {answer.avg_rating.toFixed(1)}
             </div>
+            {answer.effectiveness && (
+              <EffectivenessStat answer={answer} onShowEffectiveness={onShowEffectiveness} />
+            )}
             <div className="flex items-center">
               <Clock className="h-4 w-4 mr-1" />
               {formatDate(answer.updated_at)}
             </div>
           </div>
           
+          {answer.is_template && (
+            <Button variant="ghost" size="sm" onClick={() => onForkTemplate(answer)} title="Start a new answer from this template">
+              <GitBranch className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => onShowHistory(answer)} title="Version history">
+            <History className="h-4 w-4" />
+          </Button>
           <Button variant="ghost" size="sm" onClick={() => onEdit(answer)}>
             <Edit3 className="h-4 w-4" />
           </Button>
@@ -530,15 +723,59 @@ function AnswerListCard({ answer, isSelected, onSelect, onEdit, getCategoryById,
   )
 }
 
+// Win rate of the bids an answer was used in; opens the effectiveness panel
+interface EffectivenessStatProps {
+  answer: AnswerBankWithStats
+  onShowEffectiveness: (answer: AnswerBankWithStats) => void
+}
+
+function EffectivenessStat({ answer, onShowEffectiveness }: EffectivenessStatProps) {
+  const effectiveness = answer.effectiveness
+  if (!effectiveness) return null
+
+  return (
+    <button
+      onClick={() => onShowEffectiveness(answer)}
+      className="flex items-center hover:text-brand-primary"
+      title={`Used in ${effectiveness.bids_used} bids: ${effectiveness.bids_won} won, ${effectiveness.bids_lost} lost`}
+    >
+      <Target className="h-3 w-3 mr-1" />
+      {formatWinRate(effectiveness.win_rate)} win · {effectiveness.bids_used} {effectiveness.bids_used === 1 ? 'bid' : 'bids'}
+    </button>
+  )
+}
+
+// Flags answers that are expired or need reviewing; fresh answers show nothing
+const FRESHNESS_BADGES = {
+  expired: { label: 'Expired', className: 'bg-red-100 text-red-800 border-transparent' },
+  review_due: { label: 'Review due', className: 'bg-amber-100 text-amber-800 border-transparent' },
+  review_soon: { label: 'Review soon', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' }
+}
+
+function FreshnessBadge({ answer, className = '' }: { answer: AnswerBankWithStats; className?: string }) {
+  const freshness = getFreshnessStatus(answer)
+  if (freshness === 'fresh') return null
+
+  const badge = FRESHNESS_BADGES[freshness]
+  return <Badge className={`${badge.className} ${className}`}>{badge.label}</Badge>
+}
+
 // Analytics View Component
 interface AnalyticsViewProps {
   analytics: AnswerBankAnalytics | null
+  effectiveAnswers: AnswerBankEffectiveness[]
+  onShowEffectiveness: (answer: { id: string; title: string }) => void
 }
 
-function AnalyticsView({ analytics }: AnalyticsViewProps) {
+function AnalyticsView({ analytics, effectiveAnswers, onShowEffectiveness }: AnalyticsViewProps) {
+  const winningAnswers = (
+    <WinningAnswersCard answers={effectiveAnswers} onShowEffectiveness={onShowEffectiveness} />
+  )
+
   if (!analytics) {
     return (
       <div className="space-y-6">
+        {winningAnswers}
         <Card>
           <CardContent className="p-6">
             <div className="text-center py-8">
@@ -605,6 +842,8 @@ function AnalyticsView({ analytics }: AnalyticsViewProps) {
         </Card>
       </div>
 
+      {winningAnswers}
+
       {/* Additional Analytics */}
       <Card>
         <CardHeader>
@@ -631,6 +870,48 @@ function AnalyticsView({ analytics }: AnalyticsViewProps) {
   )
 }
 
+// Answers whose bids win most often
+interface WinningAnswersCardProps {
+  answers: AnswerBankEffectiveness[]
+  onShowEffectiveness: (answer: { id: string; title: string }) => void
+}
+
+function WinningAnswersCard({ answers, onShowEffectiveness }: WinningAnswersCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Answers That Win</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {answers.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Win rates appear once answers have been used in at least two bids with a recorded outcome.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {answers.map(answer => (
+              <button
+                key={answer.answer_id}
+                onClick={() => onShowEffectiveness({ id: answer.answer_id, title: answer.title || 'Answer' })}
+                className="w-full flex items-center justify-between p-3 border rounded-lg text-left hover:bg-gray-50"
+              >
+                <span className="text-sm font-medium text-gray-900 truncate">{answer.title}</span>
+                <span className="flex items-center space-x-4 text-sm text-gray-600 flex-shrink-0">
+                  <span>{formatWinRate(answer.win_rate)} win</span>
+                  <span>{answer.bids_won}/{answer.bids_won + answer.bids_lost} bids</span>
+                  {answer.avg_evaluator_score !== null && (
+                    <span>score {answer.avg_evaluator_score.toFixed(1)}</span>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 // Categories View Component
 interface CategoriesViewProps {
   categories: AnswerBankCategory[]
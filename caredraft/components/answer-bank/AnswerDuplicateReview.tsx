@@ -0,0 +1,220 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { AlertCircle, Copy, Eye, GitMerge, Star, XCircle } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { AnswerBankDuplicateCluster } from '@/lib/types/answer-bank.types'
+
+interface AnswerDuplicateReviewProps {
+  clusters: AnswerBankDuplicateCluster[]
+  onResolved: () => void
+}
+
+function formatSimilarity(similarity: number): string {
+  return `${Math.round(similarity * 100)}%`
+}
+
+// Groups of near-identical answers; pick the one to keep and merge the rest into it
+export default function AnswerDuplicateReview({ clusters, onResolved }: AnswerDuplicateReviewProps) {
+  if (clusters.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center py-8">
+            <Copy className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No duplicates found</h3>
+            <p className="text-gray-600">Near-identical answers are checked for every night.</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {clusters.map(cluster => (
+        <DuplicateClusterCard key={cluster.id} cluster={cluster} onResolved={onResolved} />
+      ))}
+    </div>
+  )
+}
+
+interface DuplicateClusterCardProps {
+  cluster: AnswerBankDuplicateCluster
+  onResolved: () => void
+}
+
+function DuplicateClusterCard({ cluster, onResolved }: DuplicateClusterCardProps) {
+  const [canonicalId, setCanonicalId] = useState('')
+  const [mergeIds, setMergeIds] = useState<string[]>([])
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const keep = cluster.suggested_canonical_id && cluster.members.some(member => member.answer_id === cluster.suggested_canonical_id)
+      ? cluster.suggested_canonical_id
+      : cluster.members[0].answer_id
+    setCanonicalId(keep)
+    setMergeIds(cluster.members.map(member => member.answer_id).filter(id => id !== keep))
+  }, [cluster])
+
+  const handleKeep = (answerId: string) => {
+    setMergeIds(prev => [...prev.filter(id => id !== answerId), ...(canonicalId ? [canonicalId] : [])])
+    setCanonicalId(answerId)
+  }
+
+  const toggleMerge = (answerId: string) => {
+    setMergeIds(prev => prev.includes(answerId) ? prev.filter(id => id !== answerId) : [...prev, answerId])
+  }
+
+  const merging = cluster.members.filter(member => member.answer_id === canonicalId || mergeIds.includes(member.answer_id))
+  const combinedTags = Array.from(new Set(merging.flatMap(member => member.tags))).sort()
+  const combinedUsage = merging.reduce((total, member) => total + member.usage_count, 0)
+  const canonical = cluster.members.find(member => member.answer_id === canonicalId)
+
+  const handleMerge = async () => {
+    if (!canonical || mergeIds.length === 0) return
+    if (!confirm(`Merge ${mergeIds.length} ${mergeIds.length === 1 ? 'answer' : 'answers'} into "${canonical.title}"?`)) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/answers/duplicates/${cluster.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ canonical_id: canonicalId, duplicate_ids: mergeIds })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to merge answers')
+
+      onResolved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge answers')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDismiss = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/answers/duplicates/${cluster.id}/dismiss`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to dismiss duplicates')
+
+      onResolved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to dismiss duplicates')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Copy className="h-5 w-5 mr-2 text-brand-primary" />
+            {cluster.members.length} similar answers
+          </CardTitle>
+          <Badge variant="outline">Up to {formatSimilarity(cluster.max_similarity)} similar</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="divide-y divide-gray-200 border rounded-lg">
+          {cluster.members.map(member => {
+            const isCanonical = member.answer_id === canonicalId
+            return (
+              <div key={member.answer_id} className={`p-4 ${isCanonical ? 'bg-brand-50' : ''}`}>
+                <div className="flex items-start gap-4">
+                  <label className="flex items-center gap-1 text-xs text-gray-700 pt-1">
+                    <input
+                      type="radio"
+                      name={`canonical-${cluster.id}`}
+                      checked={isCanonical}
+                      onChange={() => handleKeep(member.answer_id)}
+                      className="h-4 w-4 text-brand-primary"
+                    />
+                    Keep
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-gray-700 pt-1">
+                    <input
+                      type="checkbox"
+                      checked={isCanonical || mergeIds.includes(member.answer_id)}
+                      disabled={isCanonical}
+                      onChange={() => toggleMerge(member.answer_id)}
+                      className="h-4 w-4 text-brand-primary rounded"
+                    />
+                    Merge
+                  </label>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h4 className="font-medium text-gray-900 truncate">{member.title}</h4>
+                      {member.category_name && <Badge variant="secondary" className="text-xs">{member.category_name}</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-600 line-clamp-2">{member.content}</p>
+                    {previewId === member.answer_id && (
+                      <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">{member.content}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-x-4 mt-2 text-xs text-gray-500">
+                      <span>Meaning {formatSimilarity(member.embedding_similarity)}</span>
+                      <span>Wording {formatSimilarity(member.shingle_similarity)}</span>
+                      <span className="flex items-center"><Eye className="h-3 w-3 mr-1" />{member.usage_count}</span>
+                      <span className="flex items-center">
+                        <Star className="h-3 w-3 mr-1" />
+                        {member.avg_rating.toFixed(1)} ({member.rating_count})
+                      </span>
+                      <span>Updated {new Date(member.updated_at).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPreviewId(previewId === member.answer_id ? null : member.answer_id)}
+                  >
+                    {previewId === member.answer_id ? 'Hide' : 'Full text'}
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700">
+          <p>
+            Keeps <strong>{canonical?.title}</strong> with {combinedUsage} uses and tags:{' '}
+            {combinedTags.length > 0 ? combinedTags.join(', ') : 'none'}.
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            Ratings move to the kept answer. Merged answers are hidden from the bank but stay linked to it.
+          </p>
+        </div>
+
+        {error && (
+          <div className="flex items-center text-sm text-red-600">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleDismiss} disabled={isSaving}>
+            <XCircle className="h-4 w-4 mr-2" />
+            Not duplicates
+          </Button>
+          <Button onClick={handleMerge} disabled={isSaving || mergeIds.length === 0}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            {isSaving ? 'Merging...' : `Merge ${mergeIds.length} into kept answer`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
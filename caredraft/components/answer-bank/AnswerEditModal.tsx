@@ -0,0 +1,216 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { AlertCircle, Save, X } from 'lucide-react'
+import type { AnswerBank } from '@/lib/types/answer-bank.types'
+
+const REVIEW_INTERVALS = [
+  { days: 30, label: 'Every month' },
+  { days: 90, label: 'Every 3 months' },
+  { days: 182, label: 'Every 6 months' },
+  { days: 365, label: 'Every year' }
+]
+
+// Date inputs work in local calendar days; an answer expires at the end of its day
+function toDateInput(value?: string | null): string {
+  if (!value) return ''
+  const date = new Date(value)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function fromDateInput(value: string): string | null {
+  return value ? new Date(`${value}T23:59:59`).toISOString() : null
+}
+
+interface AnswerEditModalProps {
+  answer: AnswerBank | null
+  onClose: () => void
+  onSaved: () => void
+}
+
+// Edits an answer bank entry; each save becomes a new version with the change note
+export default function AnswerEditModal({ answer, onClose, onSaved }: AnswerEditModalProps) {
+  const [title, setTitle] = useState('')
+  const [content, setContent] = useState('')
+  const [tags, setTags] = useState('')
+  const [changeNote, setChangeNote] = useState('')
+  const [reviewInterval, setReviewInterval] = useState('')
+  const [expiresOn, setExpiresOn] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!answer) return
+    setTitle(answer.title)
+    setContent(answer.content)
+    setTags((answer.tags || []).join(', '))
+    setChangeNote('')
+    setReviewInterval(answer.review_interval_days ? String(answer.review_interval_days) : '')
+    setExpiresOn(toDateInput(answer.expires_at))
+    setError(null)
+  }, [answer])
+
+  if (!answer) return null
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/answers/${answer.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          content,
+          tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+          change_note: changeNote.trim() || undefined
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save answer')
+
+      // Review cycle and expiry are settings, not content, so they don't create a version
+      const freshness: Record<string, number | string | null> = {}
+      const intervalDays = reviewInterval ? Number(reviewInterval) : null
+      if (intervalDays !== (answer.review_interval_days ?? null)) {
+        freshness.review_interval_days = intervalDays
+      }
+      if (expiresOn !== toDateInput(answer.expires_at)) {
+        freshness.expires_at = fromDateInput(expiresOn)
+      }
+      if (Object.keys(freshness).length > 0) {
+        const freshnessResponse = await fetch(`/api/answers/${answer.id}/freshness`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(freshness)
+        })
+        const freshnessData = await freshnessResponse.json()
+        if (!freshnessResponse.ok) throw new Error(freshnessData.error || 'Failed to save review settings')
+      }
+
+      onSaved()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save answer')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500 bg-opacity-75 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-semibold text-gray-900">Edit answer</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded transition-colors" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Content</label>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              rows={12}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Comma separated"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Review</label>
+              <select
+                value={reviewInterval}
+                onChange={(e) => setReviewInterval(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+              >
+                <option value="">No review cycle</option>
+                {REVIEW_INTERVALS.map(interval => (
+                  <option key={interval.days} value={interval.days}>{interval.label}</option>
+                ))}
+                {answer.review_interval_days && !REVIEW_INTERVALS.some(interval => interval.days === answer.review_interval_days) && (
+                  <option value={answer.review_interval_days}>Every {answer.review_interval_days} days</option>
+                )}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires on</label>
+              <input
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+              />
+            </div>
+            <p className="col-span-2 -mt-2 text-xs text-gray-500">
+              The owner is reminded when a review is due. Writers are warned before inserting an expired answer.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Change note</label>
+            <input
+              type="text"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              maxLength={500}
+              placeholder="What changed and why, e.g. Updated CQC rating to Outstanding"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Saving creates version {answer.version + 1}. Earlier versions stay in the history.
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 px-6 py-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !title.trim() || !content.trim()}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {isSaving ? 'Saving...' : 'Save version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { AlertCircle, RefreshCw, Target, TrendingUp, X } from 'lucide-react'
+import type { AnswerBankEffectivenessReport } from '@/lib/types/answer-bank.types'
+
+interface AnswerEffectivenessPanelProps {
+  answerId: string
+  title: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function formatWinRate(winRate: number | null): string {
+  return winRate === null ? '–' : `${Math.round(winRate * 100)}%`
+}
+
+// Bid outcomes for an answer: how often it was used, how often those bids won and the scores it earned
+export default function AnswerEffectivenessPanel({ answerId, title, isOpen, onClose }: AnswerEffectivenessPanelProps) {
+  const [report, setReport] = useState<AnswerBankEffectivenessReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadReport = async () => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/answers/${answerId}/effectiveness`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load effectiveness')
+        setReport(data as AnswerBankEffectivenessReport)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load effectiveness')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReport()
+  }, [answerId, isOpen])
+
+  if (!isOpen) return null
+
+  const effectiveness = report?.effectiveness
+  const trend = report?.trend || []
+  const busiestMonth = Math.max(1, ...trend.map(point => point.bids_used))
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500 bg-opacity-75 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-brand-primary" />
+            <h2 className="text-lg font-semibold text-gray-900">Effectiveness: {title}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded transition-colors" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {isLoading && (
+            <div className="flex items-center text-sm text-gray-600">
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Loading effectiveness...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          {!isLoading && effectiveness && effectiveness.bids_used === 0 && (
+            <p className="text-sm text-gray-600">
+              This answer has not been used in a bid yet. Insert it into a tender response to start tracking outcomes.
+            </p>
+          )}
+
+          {!isLoading && effectiveness && effectiveness.bids_used > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500">Bids used in</p>
+                  <p className="text-2xl font-bold text-gray-900">{effectiveness.bids_used}</p>
+                  {effectiveness.bids_pending > 0 && (
+                    <p className="text-xs text-gray-500">{effectiveness.bids_pending} awaiting outcome</p>
+                  )}
+                </div>
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500">Win rate</p>
+                  <p className="text-2xl font-bold text-gray-900">{formatWinRate(effectiveness.win_rate)}</p>
+                  <p className="text-xs text-gray-500">
+                    {effectiveness.bids_won} won, {effectiveness.bids_lost} lost
+                  </p>
+                </div>
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500">Avg question score</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {effectiveness.avg_evaluator_score === null ? '–' : effectiveness.avg_evaluator_score.toFixed(1)}
+                  </p>
+                  <p className="text-xs text-gray-500">Evaluator score out of 100</p>
+                </div>
+                <div className="border border-gray-200 rounded-lg p-4">
+                  <p className="text-xs font-medium text-gray-500">Avg bid score</p>
+                  <p className="text-2xl font-bold text-gray-900">
+                    {effectiveness.avg_final_score === null ? '–' : effectiveness.avg_final_score.toFixed(1)}
+                  </p>
+                  <p className="text-xs text-gray-500">Final tender score</p>
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center gap-2 mb-3">
+                  <TrendingUp className="h-4 w-4 text-gray-500" />
+                  <h3 className="text-sm font-medium text-gray-900">Last 12 months</h3>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1 font-medium">Month</th>
+                      <th className="py-1 font-medium">Bids</th>
+                      <th className="py-1 font-medium">Won / lost</th>
+                      <th className="py-1 font-medium">Win rate</th>
+                      <th className="py-1 font-medium">Avg score</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {trend.map(point => (
+                      <tr key={point.period} className={point.bids_used === 0 ? 'text-gray-400' : 'text-gray-700'}>
+                        <td className="py-1.5">{point.period}</td>
+                        <td className="py-1.5">
+                          <div className="flex items-center gap-2">
+                            <div
+                              className="h-2 rounded bg-brand-primary"
+                              style={{ width: `${(point.bids_used / busiestMonth) * 80}px` }}
+                            />
+                            {point.bids_used}
+                          </div>
+                        </td>
+                        <td className="py-1.5">{point.bids_won} / {point.bids_lost}</td>
+                        <td className="py-1.5">{formatWinRate(point.win_rate)}</td>
+                        <td className="py-1.5">
+                          {point.avg_evaluator_score === null ? '–' : point.avg_evaluator_score.toFixed(1)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { AlertCircle, AlertTriangle, CheckCircle, Copy, Upload, X, XCircle } from 'lucide-react'
+import type {
+  AnswerBankImportField,
+  AnswerBankImportMapping,
+  AnswerBankImportPreview,
+  AnswerBankImportResult,
+  AnswerBankImportRow
+} from '@/lib/types/answer-bank.types'
+
+const IMPORT_FIELDS: Array<{ field: AnswerBankImportField; label: string; required?: boolean }> = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'content', label: 'Content', required: true },
+  { field: 'category', label: 'Category' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'is_template', label: 'Template flag' }
+]
+
+const ACCEPTED_FILES = '.csv,.xlsx,.docx,.json'
+
+interface AnswerImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => void
+}
+
+function RowStatus({ row }: { row: AnswerBankImportRow }) {
+  if (row.errors.length > 0) {
+    return <span className="flex items-center text-red-600"><XCircle className="h-4 w-4 mr-1" />{row.errors.join('; ')}</span>
+  }
+  if (row.duplicate_of) {
+    const match = row.duplicate_of.answer_id ? `existing answer "${row.duplicate_of.title}"` : `row ${row.duplicate_of.row_number}`
+    return (
+      <span className="flex items-center text-amber-600">
+        <Copy className="h-4 w-4 mr-1" />
+        {row.duplicate_of.reason === 'title' ? 'Same title as' : 'Duplicates'} {match}
+      </span>
+    )
+  }
+  if (row.warnings.length > 0) {
+    return <span className="flex items-center text-amber-600"><AlertTriangle className="h-4 w-4 mr-1" />{row.warnings.join('; ')}</span>
+  }
+  return <span className="flex items-center text-green-600"><CheckCircle className="h-4 w-4 mr-1" />Ready</span>
+}
+
+// Uploads a file of past answers, previews how each row maps and validates, then imports
+export default function AnswerImportModal({ isOpen, onClose, onImported }: AnswerImportModalProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [mapping, setMapping] = useState<AnswerBankImportMapping | undefined>(undefined)
+  const [duplicateStrategy, setDuplicateStrategy] = useState<'skip' | 'import'>('skip')
+  const [preview, setPreview] = useState<AnswerBankImportPreview | null>(null)
+  const [result, setResult] = useState<AnswerBankImportResult | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setFile(null)
+    setMapping(undefined)
+    setDuplicateStrategy('skip')
+    setPreview(null)
+    setResult(null)
+    setError(null)
+  }, [isOpen])
+
+  if (!isOpen) return null
+
+  const submit = async (mode: 'preview' | 'commit', nextMapping: AnswerBankImportMapping | undefined = mapping) => {
+    if (!file) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('mode', mode)
+      formData.append('options', JSON.stringify({ mapping: nextMapping, duplicate_strategy: duplicateStrategy }))
+
+      const response = await fetch('/api/answers/import', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to import answers')
+
+      setPreview(data.preview)
+      setMapping(data.preview.mapping)
+      if (mode === 'commit') {
+        setResult(data.result)
+        onImported()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import answers')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] ?? null)
+    setMapping(undefined)
+    setPreview(null)
+    setResult(null)
+  }
+
+  const handleMappingChange = (field: AnswerBankImportField, column: string) => {
+    const nextMapping = { ...mapping, [field]: column || undefined }
+    setMapping(nextMapping)
+    submit('preview', nextMapping)
+  }
+
+  const importCount = preview
+    ? preview.summary.valid - (duplicateStrategy === 'skip' ? preview.summary.duplicates : 0)
+    : 0
+  // Headings in a Word document map themselves
+  const canMap = preview && preview.format !== 'docx'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500 bg-opacity-75 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-semibold text-gray-900">Import answers</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded transition-colors" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">File</label>
+            <input
+              type="file"
+              accept={ACCEPTED_FILES}
+              onChange={handleFileChange}
+              className="w-full text-sm text-gray-700"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              CSV or Excel with a header row, a Word document with one heading per answer, or a JSON export. Up to 10MB.
+            </p>
+          </div>
+
+          {canMap && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">
+                    {label}{required && ' *'}
+                  </label>
+                  <select
+                    value={mapping?.[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    disabled={isLoading}
+                    className="w-full px-2 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                  >
+                    <option value="">Not imported</option>
+                    {preview.columns.map(column => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-700">
+                <span>{preview.summary.total} rows</span>
+                <span className="text-green-600">{preview.summary.valid} valid</span>
+                {preview.summary.invalid > 0 && <span className="text-red-600">{preview.summary.invalid} with errors</span>}
+                {preview.summary.duplicates > 0 && (
+                  <label className="flex items-center gap-2 text-amber-600">
+                    {preview.summary.duplicates} possible duplicates:
+                    <select
+                      value={duplicateStrategy}
+                      onChange={(e) => setDuplicateStrategy(e.target.value as 'skip' | 'import')}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-700"
+                    >
+                      <option value="skip">Skip</option>
+                      <option value="import">Import anyway</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              <div className="border rounded-lg overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Title</th>
+                      <th className="px-3 py-2">Category</th>
+                      <th className="px-3 py-2">Tags</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {preview.rows.map(row => (
+                      <tr key={row.row_number} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.row_number}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {row.title || <span className="text-gray-400">Untitled</span>}
+                          {row.is_template && <span className="ml-2 text-xs text-brand-primary">Template</span>}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{row.category_name || '-'}</td>
+                        <td className="px-3 py-2 text-gray-600">{row.tags.join(', ') || '-'}</td>
+                        <td className="px-3 py-2 text-xs"><RowStatus row={row} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {result && (
+            <div className="flex items-center text-sm text-green-700 bg-green-50 rounded-lg p-3">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Imported {result.imported} answers. Skipped {result.skipped_duplicates} duplicates and {result.skipped_invalid} rows with errors.
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 px-6 py-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            {result ? 'Done' : 'Cancel'}
+          </button>
+          {!result && (preview ? (
+            <button
+              onClick={() => submit('commit')}
+              disabled={isLoading || importCount <= 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark disabled:opacity-50"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {isLoading ? 'Working...' : `Import ${importCount} answers`}
+            </button>
+          ) : (
+            <button
+              onClick={() => submit('preview')}
+              disabled={isLoading || !file}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark disabled:opacity-50"
+            >
+              {isLoading ? 'Checking...' : 'Preview'}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
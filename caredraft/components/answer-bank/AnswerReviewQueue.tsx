@@ -0,0 +1,179 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ArrowLeft, CalendarClock, CheckCircle, RefreshCw } from 'lucide-react'
+import type { AnswerBankReviewQueueItem, AnswerFreshnessStatus } from '@/lib/types/answer-bank.types'
+
+type QueueScope = 'mine' | 'all'
+
+const STATUS_STYLES: Record<AnswerFreshnessStatus, { label: string; className: string }> = {
+  expired: { label: 'Expired', className: 'bg-red-100 text-red-800' },
+  review_due: { label: 'Review due', className: 'bg-amber-100 text-amber-800' },
+  review_soon: { label: 'Review soon', className: 'bg-yellow-50 text-yellow-700' },
+  fresh: { label: 'Fresh', className: 'bg-green-100 text-green-800' }
+}
+
+function formatDate(date?: string | null): string {
+  return date
+    ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+    : '–'
+}
+
+// Answers that have expired or are due for review, most urgent first; reviewing restarts the cycle
+export default function AnswerReviewQueue() {
+  const [scope, setScope] = useState<QueueScope>('mine')
+  const [items, setItems] = useState<AnswerBankReviewQueueItem[]>([])
+  const [newExpiry, setNewExpiry] = useState<Record<string, string>>({})
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/answers/review-queue?scope=${scope}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load review queue')
+      setItems(data.answers || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review queue')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [scope])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const handleReviewed = async (item: AnswerBankReviewQueueItem) => {
+    const expiry = newExpiry[item.id]
+    if (item.freshness === 'expired' && !expiry) {
+      setError(`Set a new expiry date for "${item.title}" before marking it reviewed`)
+      return
+    }
+
+    setReviewingId(item.id)
+    setError(null)
+    try {
+      const response = await fetch(`/api/answers/${item.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(expiry ? { expires_at: new Date(`${expiry}T23:59:59`).toISOString() } : {})
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to mark answer reviewed')
+
+      setItems(prev => prev.filter(queued => queued.id !== item.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark answer reviewed')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/answer-bank" className="inline-flex items-center text-sm text-gray-600 hover:text-brand-primary mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Answer Bank
+          </Link>
+          <div className="flex items-center">
+            <CalendarClock className="h-7 w-7 text-brand-primary mr-3" />
+            <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+          </div>
+          <p className="text-gray-600 mt-1">
+            Check the figures, ratings and dates in these answers are still correct before they go into a bid.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex items-center border rounded-lg overflow-hidden">
+            {(['mine', 'all'] as QueueScope[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={`px-3 py-1.5 text-sm ${scope === option ? 'bg-brand-primary text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option === 'mine' ? 'My answers' : 'All answers'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={loadQueue}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+            aria-label="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {!isLoading && items.length === 0 && !error && (
+        <div className="text-center py-12 border border-dashed border-gray-300 rounded-lg">
+          <CheckCircle className="h-10 w-10 text-green-500 mx-auto mb-3" />
+          <p className="text-gray-700 font-medium">Nothing to review</p>
+          <p className="text-sm text-gray-500">No answers are expired or due for review in the next two weeks.</p>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {items.map(item => {
+            const status = STATUS_STYLES[item.freshness]
+            return (
+              <div key={item.id} className="p-4 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                    <h3 className="font-medium text-gray-900 truncate">{item.title}</h3>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 text-xs text-gray-500">
+                    {item.category_name && <span>{item.category_name}</span>}
+                    {scope === 'all' && <span>Owner: {item.owner_email || 'Unassigned'}</span>}
+                    <span>Review due: {formatDate(item.next_review_at)}</span>
+                    <span>Expires: {formatDate(item.expires_at)}</span>
+                    <span>Last reviewed: {formatDate(item.last_reviewed_at)}</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <label className="text-xs text-gray-600">
+                    New expiry
+                    <input
+                      type="date"
+                      value={newExpiry[item.id] || ''}
+                      onChange={(e) => setNewExpiry(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      className="ml-2 px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                    />
+                  </label>
+                  <button
+                    onClick={() => handleReviewed(item)}
+                    disabled={reviewingId === item.id}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-brand-primary rounded-lg hover:bg-brand-primary-dark disabled:opacity-50"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    {reviewingId === item.id ? 'Saving...' : 'Mark reviewed'}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
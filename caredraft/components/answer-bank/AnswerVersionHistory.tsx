@@ -0,0 +1,305 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, GitBranch, GitCompare, History, RefreshCw, RotateCcw, X } from 'lucide-react'
+import type {
+  AnswerBankLineage,
+  AnswerBankVersion,
+  AnswerBankVersionDiff
+} from '@/lib/types/answer-bank.types'
+import type { DiffSegment } from '@/lib/utils/text-diff'
+
+interface AnswerVersionHistoryProps {
+  answerId: string
+  title: string
+  isOpen: boolean
+  onClose: () => void
+  // Called after a version is restored so the library can refresh
+  onRestored?: () => void
+}
+
+const segmentClassName: Record<DiffSegment['type'], string> = {
+  equal: 'text-gray-700',
+  insert: 'bg-green-100 text-green-900',
+  delete: 'bg-red-100 text-red-800 line-through'
+}
+
+// Version history, word diff, restore and template lineage for an answer bank entry
+export default function AnswerVersionHistory({ answerId, title, isOpen, onClose, onRestored }: AnswerVersionHistoryProps) {
+  const [activeTab, setActiveTab] = useState<'history' | 'lineage'>('history')
+  const [versions, setVersions] = useState<AnswerBankVersion[]>([])
+  const [lineage, setLineage] = useState<AnswerBankLineage | null>(null)
+  const [fromVersion, setFromVersion] = useState<number | null>(null)
+  const [toVersion, setToVersion] = useState<number | null>(null)
+  const [diff, setDiff] = useState<AnswerBankVersionDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    setDiff(null)
+    try {
+      const [versionsResponse, lineageResponse] = await Promise.all([
+        fetch(`/api/answers/${answerId}/versions`),
+        fetch(`/api/answers/${answerId}/lineage`)
+      ])
+      const versionsData = await versionsResponse.json()
+      if (!versionsResponse.ok) throw new Error(versionsData.error || 'Failed to load versions')
+
+      const loaded = versionsData.versions as AnswerBankVersion[]
+      setVersions(loaded)
+      // Default to comparing the latest version with the one before it
+      setToVersion(loaded[0]?.version ?? null)
+      setFromVersion(loaded[1]?.version ?? null)
+
+      if (lineageResponse.ok) {
+        const lineageData = await lineageResponse.json()
+        setLineage(lineageData.lineage as AnswerBankLineage)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [answerId])
+
+  useEffect(() => {
+    if (isOpen) loadHistory()
+  }, [isOpen, loadHistory])
+
+  useEffect(() => {
+    if (!fromVersion || !toVersion || fromVersion === toVersion) {
+      setDiff(null)
+      return
+    }
+
+    const loadDiff = async () => {
+      setError(null)
+      try {
+        const response = await fetch(`/api/answers/${answerId}/versions?from=${fromVersion}&to=${toVersion}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to compare versions')
+        setDiff(data.diff as AnswerBankVersionDiff)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare versions')
+      }
+    }
+
+    loadDiff()
+  }, [answerId, fromVersion, toVersion])
+
+  const restoreVersion = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current text is kept in the history.`)) return
+
+    setIsRestoring(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/answers/${answerId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to restore version')
+
+      await loadHistory()
+      onRestored?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const currentVersion = versions[0]?.version
+  const versionLabel = (version: AnswerBankVersion) =>
+    `Version ${version.version} • ${new Date(version.created_at).toLocaleDateString()}`
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500 bg-opacity-75 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-brand-primary" />
+            <h2 className="text-lg font-semibold text-gray-900">History: {title}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded transition-colors" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex border-b border-gray-200 px-6">
+          {(['history', 'lineage'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-brand-primary text-brand-primary'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'history' ? 'Versions' : 'Lineage'}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {isLoading && (
+            <div className="flex items-center text-sm text-gray-600">
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Loading history...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          {!isLoading && activeTab === 'history' && versions.length > 0 && (
+            <>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {versions.map(version => (
+                  <li key={version.id} className="flex items-start justify-between gap-4 px-4 py-3 text-sm">
+                    <div>
+                      <p className="text-gray-900">{versionLabel(version)}</p>
+                      <p className="text-xs text-gray-500">
+                        {version.change_note || 'No change note'}
+                        {version.restored_from_version && ` • restored from version ${version.restored_from_version}`}
+                      </p>
+                    </div>
+                    {version.version === currentVersion ? (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
+                        Current
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => restoreVersion(version.version)}
+                        disabled={isRestoring}
+                        className="inline-flex items-center text-xs font-medium text-brand-primary hover:underline disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {versions.length === 1 && (
+                <p className="text-sm text-gray-600">This is the only version. Each edit adds a new one.</p>
+              )}
+
+              {versions.length > 1 && (
+                <div className="space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <GitCompare className="h-4 w-4 text-gray-500" />
+                    <select
+                      value={fromVersion ?? ''}
+                      onChange={(e) => setFromVersion(Number(e.target.value))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                    >
+                      {versions.map(version => (
+                        <option key={version.id} value={version.version}>{versionLabel(version)}</option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-500">compared with</span>
+                    <select
+                      value={toVersion ?? ''}
+                      onChange={(e) => setToVersion(Number(e.target.value))}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                    >
+                      {versions.map(version => (
+                        <option key={version.id} value={version.version}>{versionLabel(version)}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {diff && (
+                    <>
+                      <p className="text-sm text-gray-600">
+                        {diff.stats.unchanged
+                          ? 'No text changes between these versions.'
+                          : `Version ${diff.to.version} adds ${diff.stats.wordsAdded} and removes ${diff.stats.wordsRemoved} words compared with version ${diff.from.version}.`}
+                        {diff.title_changed && ` Title changed from "${diff.from.title}" to "${diff.to.title}".`}
+                        {diff.tags_added.length > 0 && ` Tags added: ${diff.tags_added.join(', ')}.`}
+                        {diff.tags_removed.length > 0 && ` Tags removed: ${diff.tags_removed.join(', ')}.`}
+                      </p>
+                      <div className="border border-gray-200 rounded-lg p-4 text-sm leading-relaxed whitespace-pre-wrap max-h-[50vh] overflow-y-auto">
+                        {diff.segments.map((segment, index) => (
+                          <span key={index} className={segmentClassName[segment.type]}>
+                            {segment.value}
+                          </span>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {!isLoading && activeTab === 'lineage' && lineage && (
+            <div className="space-y-4 text-sm">
+              {lineage.ancestors.length === 0 && lineage.forks.length === 0 && (
+                <p className="text-gray-600">This answer was not forked from a template and has no forks.</p>
+              )}
+
+              {lineage.ancestors.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-2">Forked from</h3>
+                  <ol className="space-y-1">
+                    {lineage.ancestors.map((ancestor, index) => {
+                      const child = lineage.ancestors[index + 1] ?? lineage.answer
+                      return (
+                        <li key={ancestor.id} className="flex items-center gap-2 text-gray-700">
+                          <GitBranch className="h-4 w-4 text-gray-400" />
+                          <span>{ancestor.title}</span>
+                          {ancestor.is_template && <span className="text-xs text-gray-500">(template)</span>}
+                          {child.forked_from_version && (
+                            <span className="text-xs text-gray-500">
+                              version {child.forked_from_version}
+                              {ancestor.version > child.forked_from_version && `, now version ${ancestor.version}`}
+                            </span>
+                          )}
+                        </li>
+                      )
+                    })}
+                  </ol>
+                </div>
+              )}
+
+              {lineage.forks.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-gray-900 mb-2">Answers forked from this one</h3>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {lineage.forks.map(fork => (
+                      <li key={fork.id} className="flex items-center justify-between px-4 py-2">
+                        <span className="text-gray-900">{fork.title}</span>
+                        <span className="flex items-center gap-2 text-xs text-gray-500">
+                          {fork.forked_from_version && `from version ${fork.forked_from_version}`}
+                          {fork.parent_changed_since_fork && (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full font-medium bg-amber-100 text-amber-800 border border-amber-200">
+                              Template updated since
+                            </span>
+                          )}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -12,6 +12,7 @@ import {
   ChevronRight,
   ChevronDown,
   BarChart3,
+  Copy,
 //  Settings,
 //  Copy,
 //  Move,
@@ -20,6 +21,7 @@ import {
 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import type { AnswerBankDuplicateCount } from '@/lib/types/answer-bank.types'
 
 interface Category {
   id: string
@@ -78,6 +80,7 @@ export default function CategoryManager({
 }: CategoryManagerProps) {
   const [categories, setCategories] = useState<Category[]>([])
   const [stats, setStats] = useState<CategoryStats | null>(null)
+  const [duplicateCounts, setDuplicateCounts] = useState<Record<string, number>>({})
   const [loading, setLoading] = useState(true)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [editingCategory, setEditingCategory] = useState<string | null>(null)
@@ -97,6 +100,7 @@ export default function CategoryManager({
     loadCategories()
     if (mode === 'management') {
       loadStats()
+      loadDuplicateCounts()
     }
   }, [mode])
 
@@ -129,6 +133,22 @@ export default function CategoryManager({
     }
   }
 
+  const loadDuplicateCounts = async () => {
+    try {
+      const response = await fetch('/api/answers/duplicates/counts')
+      if (response.ok) {
+        const data = await response.json()
+        const counts: Record<string, number> = {}
+        for (const count of (data.counts || []) as AnswerBankDuplicateCount[]) {
+          if (count.category_id) counts[count.category_id] = count.duplicate_answers
+        }
+        setDuplicateCounts(counts)
+      }
+    } catch (error) {
+      console.error('Error loading duplicate counts:', error)
+    }
+  }
+
   const buildCategoryTree = (flatCategories: Category[]): Category[] => {
     const categoryMap = new Map<string, Category>()
     const rootCategories: Category[] = []
@@ -341,6 +361,17 @@ export default function CategoryManager({
             {category.answer_count}
           </Badge>
 
+          {/* Answers with near-duplicates waiting to be merged */}
+          {duplicateCounts[category.id] > 0 && (
+            <Badge
+              className="text-xs bg-amber-100 text-amber-800 border-transparent"
+              title={`${duplicateCounts[category.id]} answers have near-duplicates to review`}
+            >
+              <Copy className="h-3 w-3 mr-1" />
+              {duplicateCounts[category.id]}
+            </Badge>
+          )}
+
           {/* Actions */}
           {mode === 'management' && (
             <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -5,7 +5,7 @@ import { UserPresence, getUserColor, getUserDisplayName } from '@/types/collabor
 
 interface CollaborativeCursorsProps {
   presences: UserPresence[]
-  editorRef: React.RefObject<HTMLElement>
+  editorRef: React.RefObject<HTMLElement | null>
   className?: string
 }
 
@@ -15,6 +15,8 @@ interface CursorPosition {
   userId: string
   userName: string
   color: string
+  // Highlighted lines of the user's selection, if any
+  selection: Array<{ x: number; y: number; width: number; height: number }>
 }
 
 export function CollaborativeCursors({ 
@@ -42,7 +44,10 @@ export function CollaborativeCursors({
               y: position.y,
               userId: presence.user_id,
               userName: getUserDisplayName(presence.user || {}),
-              color: getUserColor(presence.user_id)
+              color: getUserColor(presence.user_id),
+              selection: presence.selection_start != null && presence.selection_end != null
+                ? getSelectionRects(presence.selection_start, presence.selection_end)
+                : []
             })
           }
         } catch (error) {
@@ -53,6 +58,52 @@ export function CollaborativeCursors({
       setCursorPositions(positions)
     }
 
+    // Text node and offset within it for a character offset into the editor
+    const locate = (offset: number): { node: Node; offset: number } | null => {
+      if (!editorRef.current) return null
+
+      const walker = document.createTreeWalker(editorRef.current, NodeFilter.SHOW_TEXT, null)
+      let currentOffset = 0
+      let node
+      let last: Node | null = null
+
+      while ((node = walker.nextNode())) {
+        const nodeLength = node.textContent?.length || 0
+        if (currentOffset + nodeLength >= offset) {
+          return { node, offset: offset - currentOffset }
+        }
+        currentOffset += nodeLength
+        last = node
+      }
+
+      return last ? { node: last, offset: last.textContent?.length || 0 } : null
+    }
+
+    const getSelectionRects = (start: number, end: number) => {
+      const from = locate(Math.min(start, end))
+      const to = locate(Math.max(start, end))
+      if (!editorRef.current || !from || !to) return []
+
+      try {
+        const range = document.createRange()
+        range.setStart(from.node, from.offset)
+        range.setEnd(to.node, to.offset)
+        const editorRect = editorRef.current.getBoundingClientRect()
+
+        return Array.from(range.getClientRects())
+          .filter(rect => rect.width > 0)
+          .map(rect => ({
+            x: rect.left - editorRect.left,
+            y: rect.top - editorRect.top,
+            width: rect.width,
+            height: rect.height
+          }))
+      } catch (error) {
+        console.warn('Error in getSelectionRects:', error)
+        return []
+      }
+    }
+
     const getTextPosition = (offset: number): { x: number; y: number } | null => {
       if (!editorRef.current) return null
 
@@ -129,6 +180,19 @@ export function CollaborativeCursors({
 
   return (
     <div className={`absolute inset-0 pointer-events-none z-10 ${className}`}>
+      {cursorPositions.flatMap(cursor => cursor.selection.map((rect, index) => (
+        <div
+          key={`${cursor.userId}-selection-${index}`}
+          className="absolute opacity-20"
+          style={{
+            left: `${rect.x}px`,
+            top: `${rect.y}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`,
+            backgroundColor: cursor.color
+          }}
+        />
+      )))}
       {cursorPositions.map(cursor => (
         <CollaborativeCursor
           key={cursor.userId}
@@ -0,0 +1,222 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef } from 'react'
+import { useEditor, EditorContent } from '@tiptap/react'
+import type { Editor } from '@tiptap/react'
+import StarterKit from '@tiptap/starter-kit'
+import Underline from '@tiptap/extension-underline'
+import { CloudOff, Loader2, Radio } from 'lucide-react'
+import { CollaborativeCursors } from './CollaborativeCursors'
+import { UserPresenceIndicator } from './UserPresenceIndicator'
+import VersionControlPanel from './VersionControlPanel'
+import { useAutoSave } from '@/hooks/useAutoSave'
+import { useCollaborativeSection } from '@/hooks/useCollaborativeSection'
+import { useUserPresence } from '@/hooks/useUserPresence'
+import { TrackChanges } from '@/lib/editor/track-changes'
+import { sectionAnchorText } from '@/lib/services/collaboration'
+import { diffTextBySentence } from '@/lib/utils/text-diff'
+
+interface CollaborativeSectionEditorProps {
+  sectionId: string
+  // Lets the host drive the editor from its own toolbar and panels
+  onEditorChange?: (editor: Editor | null) => void
+  // Merged content, after local and remote edits
+  onContentChange?: (content: string) => void
+  className?: string
+}
+
+// How often to tell others where the cursor is, at most
+const PRESENCE_THROTTLE_MS = 200
+// Keeps presence fresh while the cursor sits still
+const PRESENCE_HEARTBEAT_MS = 60000
+
+// Text offset of a document position, counted the way comment anchors and
+// presence are: text only, no separators between blocks
+function textOffsetAt(editor: Editor, pos: number): number {
+  return editor.state.doc.textBetween(0, pos, '', '').length
+}
+
+function positionAtOffset(editor: Editor, offset: number): number {
+  let remaining = offset
+  let found: number | null = null
+  editor.state.doc.descendants((node, pos) => {
+    if (found !== null) return false
+    if (!node.isText) return true
+    const length = node.text?.length ?? 0
+    if (remaining <= length) {
+      found = pos + remaining
+      return false
+    }
+    remaining -= length
+    return false
+  })
+  return found ?? editor.state.doc.content.size
+}
+
+// Where an offset into the old text ends up in the new text
+function mapOffset(before: string, after: string, offset: number): number {
+  let oldOffset = 0
+  let newOffset = 0
+  for (const segment of diffTextBySentence(before, after)) {
+    const length = segment.value.length
+    if (segment.type === 'insert') {
+      newOffset += length
+      continue
+    }
+    if (offset < oldOffset + length) {
+      return segment.type === 'equal' ? newOffset + offset - oldOffset : newOffset
+    }
+    oldOffset += length
+    if (segment.type === 'equal') newOffset += length
+  }
+  return newOffset
+}
+
+export function CollaborativeSectionEditor({
+  sectionId,
+  onEditorChange,
+  onContentChange,
+  className = ''
+}: CollaborativeSectionEditorProps) {
+  const { content, status, unsyncedEdits, error, applyLocalContent } = useCollaborativeSection(sectionId)
+  const { presences, updatePresence } = useUserPresence(sectionId)
+  const autoSave = useAutoSave({ sectionId, content: content ?? '', enabled: content !== null })
+  const containerRef = useRef<HTMLDivElement>(null)
+  // Set while remote changes are written into the editor, so they aren't sent back
+  const applyingRemoteRef = useRef(false)
+  const presenceTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const lastPresenceRef = useRef<{ start: number; end: number } | null>(null)
+
+  const publishPresence = useCallback(() => {
+    const selection = lastPresenceRef.current ?? { start: 0, end: 0 }
+    const collapsed = selection.start === selection.end
+    updatePresence(selection.end, collapsed ? null : selection.start, collapsed ? null : selection.end)
+  }, [updatePresence])
+
+  const sendPresence = (start: number, end: number) => {
+    lastPresenceRef.current = { start, end }
+    if (presenceTimeoutRef.current) return
+    presenceTimeoutRef.current = setTimeout(() => {
+      presenceTimeoutRef.current = null
+      publishPresence()
+    }, PRESENCE_THROTTLE_MS)
+  }
+
+  const editor = useEditor({
+    extensions: [
+      StarterKit,
+      Underline,
+      // Keeps reviewers' suggestions in the content rather than dropping them
+      TrackChanges,
+    ],
+    content: '',
+    editable: false,
+    editorProps: {
+      attributes: {
+        class: 'prose prose-lg max-w-none focus:outline-none p-6 min-h-[300px] text-gray-900',
+      },
+    },
+    immediatelyRender: false,
+    onUpdate: ({ editor: current }) => {
+      if (applyingRemoteRef.current) return
+      applyLocalContent(current.getHTML())
+    },
+    onSelectionUpdate: ({ editor: current }) => {
+      const { from, to } = current.state.selection
+      sendPresence(textOffsetAt(current, from), textOffsetAt(current, to))
+    },
+  }, [applyLocalContent])
+
+  // Bring merged content into the editor, keeping the local selection on the
+  // same text
+  useEffect(() => {
+    if (!editor || content === null) return
+    if (!editor.isEditable) editor.setEditable(true)
+    const current = editor.getHTML()
+    if (content === current) return
+
+    const { from, to } = editor.state.selection
+    const before = sectionAnchorText(current)
+    const after = sectionAnchorText(content)
+    const start = mapOffset(before, after, textOffsetAt(editor, from))
+    const end = mapOffset(before, after, textOffsetAt(editor, to))
+
+    applyingRemoteRef.current = true
+    try {
+      editor.commands.setContent(content, false)
+      editor.commands.setTextSelection({ from: positionAtOffset(editor, start), to: positionAtOffset(editor, end) })
+    } finally {
+      applyingRemoteRef.current = false
+    }
+  }, [editor, content])
+
+  useEffect(() => {
+    onEditorChange?.(editor)
+    return () => onEditorChange?.(null)
+  }, [editor, onEditorChange])
+
+  useEffect(() => {
+    if (content !== null) onContentChange?.(content)
+  }, [content, onContentChange])
+
+  useEffect(() => {
+    publishPresence()
+    const heartbeat = setInterval(publishPresence, PRESENCE_HEARTBEAT_MS)
+    return () => {
+      clearInterval(heartbeat)
+      if (presenceTimeoutRef.current) clearTimeout(presenceTimeoutRef.current)
+    }
+  }, [publishPresence])
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="bg-white border border-gray-200 rounded-lg">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+          <div className="flex items-center space-x-2 text-sm">
+            {status === 'connecting' && (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                <span className="text-gray-500">Connecting...</span>
+              </>
+            )}
+            {status === 'live' && (
+              <>
+                <Radio className="w-4 h-4 text-green-600" />
+                <span className="text-green-700">Live</span>
+              </>
+            )}
+            {status === 'offline' && (
+              <>
+                <CloudOff className="w-4 h-4 text-amber-600" />
+                <span className="text-amber-700">
+                  Offline{unsyncedEdits > 0 && ` - ${unsyncedEdits} unsent ${unsyncedEdits === 1 ? 'edit' : 'edits'}, merged when you reconnect`}
+                </span>
+              </>
+            )}
+          </div>
+          <UserPresenceIndicator presences={presences} />
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 text-sm text-red-600 bg-red-50 border-b border-red-100">{error}</div>
+        )}
+
+        <div ref={containerRef} className="relative">
+          <EditorContent editor={editor} />
+          <CollaborativeCursors presences={presences} editorRef={containerRef} />
+        </div>
+      </div>
+
+      {/* Restores reach the editor through co-editing like any other edit */}
+      <VersionControlPanel
+        sectionId={sectionId}
+        currentContent={content ?? ''}
+        isSaving={autoSave.isSaving}
+        lastSaved={autoSave.lastSaved}
+        saveError={autoSave.saveError}
+        hasUnsavedChanges={autoSave.hasUnsavedChanges}
+        onSaveNow={autoSave.saveNow}
+      />
+    </div>
+  )
+}
@@ -1,14 +1,15 @@
 'use client'
 
 import React, { useState } from 'react'
-import { MessageCircle, MoreVertical, Check, X, Reply, Edit, Trash2 } from 'lucide-react'
-import { Comment } from '@/types/collaboration'
+import { MessageCircle, MoreVertical, Check, X, Reply, Edit, Trash2, Unlink } from 'lucide-react'
+import { Comment, getMentionedUserIds } from '@/types/collaboration'
 import { formatTimeAgo, getUserDisplayName, getUserColor } from '@/types/collaboration'
+import { MentionInput, mentionDisplayName } from './MentionInput'
 
 interface CommentBubbleProps {
   comments: Comment[]
-  onReply: (parentId: string, content: string) => void
-  onEdit: (commentId: string, content: string) => void
+  onReply: (parentId: string, content: string, mentionedUserIds: string[]) => void
+  onEdit: (commentId: string, content: string, mentionedUserIds: string[]) => void
   onDelete: (commentId: string) => void
   onResolve: (commentId: string) => void
   onUnresolve: (commentId: string) => void
@@ -18,13 +19,11 @@ interface CommentBubbleProps {
 
 interface CommentItemProps {
   comment: Comment
-  onReply: (content: string) => void
-  onEdit: (content: string) => void
-  onDelete: () => void
-  onResolve: () => void
-  onUnresolve: () => void
-  canEdit: boolean
-  canDelete: boolean
+  onReply: (parentId: string, content: string, mentionedUserIds: string[]) => void
+  onEdit: (commentId: string, content: string, mentionedUserIds: string[]) => void
+  onDelete: (commentId: string) => void
+  onResolve: (commentId: string) => void
+  onUnresolve: (commentId: string) => void
   level: number
   currentUserId: string
 }
@@ -36,8 +35,6 @@ function CommentItem({
   onDelete,
   onResolve,
   onUnresolve,
-  canEdit,
-  canDelete,
   level,
   currentUserId
 }: CommentItemProps) {
@@ -46,7 +43,11 @@ function CommentItem({
   const [replyText, setReplyText] = useState('')
   const [editText, setEditText] = useState(comment.content)
   const [showActions, setShowActions] = useState(false)
+  const [mentionedUsers, setMentionedUsers] = useState<Array<{ id: string; name: string }>>([])
 
+  const canEdit = comment.user_id === currentUserId
+  const canDelete = comment.user_id === currentUserId
+  const isThread = !comment.parent_comment_id
   const userColor = getUserColor(comment.user_id)
   const displayName = getUserDisplayName(comment.user || { email: '', user_metadata: {} })
   const isResolved = comment.is_resolved
@@ -54,8 +55,9 @@ function CommentItem({
   const handleReplySubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (replyText.trim()) {
-      onReply(replyText.trim())
+      onReply(comment.id, replyText.trim(), getMentionedUserIds(replyText, mentionedUsers))
       setReplyText('')
+      setMentionedUsers([])
       setIsReplying(false)
     }
   }
@@ -63,7 +65,8 @@ function CommentItem({
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (editText.trim() && editText.trim() !== comment.content) {
-      onEdit(editText.trim())
+      onEdit(comment.id, editText.trim(), getMentionedUserIds(editText, mentionedUsers))
+      setMentionedUsers([])
       setIsEditing(false)
     }
   }
@@ -145,10 +148,10 @@ function CommentItem({
                   </button>
                 )}
 
-                {comment.parent_comment_id === null && (
+                {isThread && (
                   <button
                     onClick={() => {
-                      if (isResolved) { onUnresolve() } else { onResolve() }
+                      if (isResolved) { onUnresolve(comment.id) } else { onResolve(comment.id) }
                       setShowActions(false)
                     }}
                     className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
@@ -172,7 +175,7 @@ function CommentItem({
                     <div className="border-t border-gray-100" />
                     <button
                       onClick={() => {
-                        onDelete()
+                        onDelete(comment.id)
                         setShowActions(false)
                       }}
                       className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
@@ -187,13 +190,27 @@ function CommentItem({
           </div>
         </div>
 
+        {/* Anchored text, kept after it is deleted from the section */}
+        {isThread && comment.anchor_text && (
+          <div className="mb-2 pl-2 border-l-2 border-gray-200 text-xs text-gray-500 italic line-clamp-2">
+            &quot;{comment.anchor_text}&quot;
+          </div>
+        )}
+        {comment.is_orphaned && (
+          <div className="mb-2 flex items-center gap-1 text-xs text-amber-700">
+            <Unlink className="w-3 h-3" />
+            The text this comment was on has been deleted
+          </div>
+        )}
+
         {/* Comment Content */}
         {isEditing ? (
           <form onSubmit={handleEditSubmit} className="space-y-2">
-            <textarea
+            <MentionInput
               value={editText}
-              onChange={(e) => setEditText(e.target.value)}
-              className="w-full p-2 text-sm border border-gray-300 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary"
+              onChange={setEditText}
+              onMentionSelect={(user) => setMentionedUsers(prev => [...prev, { id: user.id, name: mentionDisplayName(user) }])}
+              className="text-sm"
               rows={3}
               placeholder="Edit your comment..."
             />
@@ -221,13 +238,13 @@ function CommentItem({
         {/* Reply Form */}
         {isReplying && (
           <form onSubmit={handleReplySubmit} className="mt-3 space-y-2">
-            <textarea
+            <MentionInput
               value={replyText}
-              onChange={(e) => setReplyText(e.target.value)}
-              className="w-full p-2 text-sm border border-gray-300 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary"
+              onChange={setReplyText}
+              onMentionSelect={(user) => setMentionedUsers(prev => [...prev, { id: user.id, name: mentionDisplayName(user) }])}
+              className="text-sm"
               rows={3}
-              placeholder="Write a reply..."
-              autoFocus
+              placeholder="Write a reply... Type @ to mention someone"
             />
             <div className="flex gap-2">
               <button
@@ -267,13 +284,11 @@ function CommentItem({
             <CommentItem
               key={reply.id}
               comment={reply}
-              onReply={(content) => onReply(content)}
-              onEdit={(content) => onEdit(content)}
-              onDelete={() => onDelete()}
-              onResolve={() => onResolve()}
-              onUnresolve={() => onUnresolve()}
-              canEdit={reply.user_id === currentUserId}
-              canDelete={reply.user_id === currentUserId}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onResolve={onResolve}
+              onUnresolve={onUnresolve}
               level={level + 1}
               currentUserId={currentUserId}
             />
@@ -331,13 +346,11 @@ export function CommentBubble({
           <CommentItem
             key={comment.id}
             comment={comment}
-            onReply={(content) => onReply(comment.id, content)}
-            onEdit={(content) => onEdit(comment.id, content)}
-            onDelete={() => onDelete(comment.id)}
-            onResolve={() => onResolve(comment.id)}
-            onUnresolve={() => onUnresolve(comment.id)}
-            canEdit={comment.user_id === currentUserId}
-            canDelete={comment.user_id === currentUserId}
+            onReply={onReply}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onResolve={onResolve}
+            onUnresolve={onUnresolve}
             level={0}
             currentUserId={currentUserId}
           />
@@ -2,7 +2,9 @@
 
 import React, { useState, useRef, useEffect } from 'react'
 import { MessageCircle, Send, X, Bold, Italic, Link, AtSign } from 'lucide-react'
-import { CreateCommentInput } from '@/types/collaboration'
+import { CreateCommentInput, getMentionedUserIds } from '@/types/collaboration'
+import { UserSearchResult, usersService } from '@/lib/services/users'
+import { mentionDisplayName } from './MentionInput'
 
 interface CommentFormProps {
   sectionId: string
@@ -18,12 +20,6 @@ interface CommentFormProps {
   className?: string
 }
 
-interface MentionSuggestion {
-  id: string
-  name: string
-  email: string
-}
-
 export function CommentForm({
   sectionId,
   textRange,
@@ -37,20 +33,13 @@ export function CommentForm({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [showMentions, setShowMentions] = useState(false)
   const [mentionQuery, setMentionQuery] = useState('')
-  const [mentionSuggestions, setMentionSuggestions] = useState<MentionSuggestion[]>([])
+  const [mentionSuggestions, setMentionSuggestions] = useState<UserSearchResult[]>([])
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0)
+  const [mentionedUsers, setMentionedUsers] = useState<Array<{ id: string; name: string }>>([])
   
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const formRef = useRef<HTMLDivElement>(null)
 
-  // Mock mention suggestions - in real app this would come from API
-  const mockUsers: MentionSuggestion[] = [
-    { id: '1', name: 'John Smith', email: 'john.smith@example.com' },
-    { id: '2', name: 'Sarah Johnson', email: 'sarah.johnson@example.com' },
-    { id: '3', name: 'Mike Davis', email: 'mike.davis@example.com' },
-    { id: '4', name: 'Emily Brown', email: 'emily.brown@example.com' },
-  ]
-
   // Auto-focus textarea
   useEffect(() => {
     if (autoFocus && textareaRef.current) {
@@ -74,22 +63,20 @@ export function CommentForm({
       const spaceIndex = textAfterAt.indexOf(' ')
       const query = spaceIndex === -1 ? textAfterAt : textAfterAt.slice(0, spaceIndex)
       
-      if (query.length >= 0 && spaceIndex === -1) {
+      if (query.length > 0 && spaceIndex === -1) {
+        let cancelled = false
         setMentionQuery(query)
-        setShowMentions(true)
-        setMentionSuggestions(
-          mockUsers.filter(user => 
-            user.name.toLowerCase().includes(query.toLowerCase()) ||
-            user.email.toLowerCase().includes(query.toLowerCase())
-          )
-        )
-        setSelectedMentionIndex(0)
-      } else {
-        setShowMentions(false)
+        usersService.searchUsers(query, 8).then(results => {
+          if (cancelled) return
+          setMentionSuggestions(results)
+          setShowMentions(true)
+          setSelectedMentionIndex(0)
+        })
+        return () => { cancelled = true }
       }
-    } else {
-      setShowMentions(false)
     }
+    setShowMentions(false)
+    return undefined
   }, [content])
 
   // Handle keyboard navigation for mentions
@@ -117,12 +104,14 @@ export function CommentForm({
     }
   }
 
-  const insertMention = (user: MentionSuggestion) => {
+  const insertMention = (user: UserSearchResult) => {
+    const name = mentionDisplayName(user)
     const lastAtIndex = content.lastIndexOf('@')
     const beforeAt = content.slice(0, lastAtIndex)
     const afterMention = content.slice(lastAtIndex + mentionQuery.length + 1)
     
-    setContent(`${beforeAt}@${user.name} ${afterMention}`)
+    setContent(`${beforeAt}@${name} ${afterMention}`)
+    setMentionedUsers(prev => [...prev, { id: user.id, name }])
     setShowMentions(false)
     textareaRef.current?.focus()
   }
@@ -135,12 +124,14 @@ export function CommentForm({
       const commentData: CreateCommentInput = {
         section_id: sectionId,
         content: content.trim(),
-        text_range_start: textRange?.start || null,
-        text_range_end: textRange?.end || null,
+        text_range_start: textRange ? textRange.start : null,
+        text_range_end: textRange ? textRange.end : null,
+        mentioned_user_ids: getMentionedUserIds(content, mentionedUsers)
       }
 
       await onSubmit(commentData)
       setContent('')
+      setMentionedUsers([])
     } catch (error) {
       console.error('Error submitting comment:', error)
     } finally {
@@ -242,10 +233,10 @@ export function CommentForm({
                   }`}
                 >
                   <div className="w-6 h-6 bg-brand-primary rounded-full flex items-center justify-center text-xs font-medium text-white">
-                    {user.name.charAt(0).toUpperCase()}
+                    {mentionDisplayName(user).charAt(0).toUpperCase()}
                   </div>
                   <div className="flex-1 min-w-0">
-                    <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                    <div className="text-sm font-medium text-gray-900">{mentionDisplayName(user)}</div>
                     <div className="text-xs text-gray-500 truncate">{user.email}</div>
                   </div>
                 </button>
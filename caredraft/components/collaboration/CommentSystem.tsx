@@ -1,18 +1,20 @@
 'use client'
 
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { MessageCircle, Plus } from 'lucide-react'
 import { CommentBubble } from './CommentBubble'
 import { CommentForm } from './CommentForm'
 import { Comment, CreateCommentInput } from '@/types/collaboration'
-import { CommentsService } from '@/lib/services/collaboration'
+import { commentsService } from '@/lib/services/collaboration'
 
 interface CommentSystemProps {
   sectionId: string
+  // Section HTML; comment ranges are offsets into its text with tags stripped
   content: string
-  comments: Comment[]
   currentUserId: string
-  onCommentsUpdate: (comments: Comment[]) => void
+  // Thread to open once the comments load, e.g. the one a mention notification links to
+  focusCommentId?: string
+  onCommentsUpdate?: (comments: Comment[]) => void
   className?: string
 }
 
@@ -21,7 +23,6 @@ interface CommentMarker {
   start: number
   end: number
   comments: Comment[]
-  position: { top: number; left: number }
 }
 
 interface TextSelection {
@@ -31,96 +32,176 @@ interface TextSelection {
   position: { top: number; left: number }
 }
 
+// Character offset of a point in the container's text
+function textOffset(container: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange()
+  range.selectNodeContents(container)
+  range.setEnd(node, offset)
+  return range.toString().length
+}
+
+// Wrap the text between two offsets in highlight marks, one per text node it spans
+function highlightRange(container: HTMLElement, marker: CommentMarker) {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  const textNodes: Text[] = []
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text)
+
+  const unresolved = marker.comments.some(c => !c.is_resolved)
+  let position = 0
+  for (const node of textNodes) {
+    const nodeStart = position
+    position += node.length
+    if (position <= marker.start || nodeStart >= marker.end) continue
+
+    const from = Math.max(marker.start - nodeStart, 0)
+    const to = Math.min(marker.end - nodeStart, node.length)
+    const target = node.splitText(from)
+    target.splitText(to - from)
+
+    const mark = document.createElement('mark')
+    mark.dataset.commentMarker = marker.id
+    mark.title = `${marker.comments.length} comment${marker.comments.length !== 1 ? 's' : ''}`
+    mark.className = unresolved
+      ? 'cursor-pointer bg-yellow-100 border-b-2 border-yellow-400 hover:bg-yellow-200'
+      : 'cursor-pointer bg-green-100 border-b-2 border-green-400 hover:bg-green-200'
+    target.parentNode!.replaceChild(mark, target)
+    mark.appendChild(target)
+  }
+}
+
+function containsComment(comment: Comment, commentId: string): boolean {
+  return comment.id === commentId || (comment.replies ?? []).some(reply => containsComment(reply, commentId))
+}
+
+async function requestJson(url: string, init?: RequestInit) {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Comment request failed')
+  return data
+}
+
 export function CommentSystem({
   sectionId,
   content,
-  comments,
   currentUserId,
+  focusCommentId,
   onCommentsUpdate,
   className = ''
 }: CommentSystemProps) {
+  const [comments, setComments] = useState<Comment[]>([])
+  const [error, setError] = useState<string | null>(null)
   const [showCommentForm, setShowCommentForm] = useState(false)
   const [selectedText, setSelectedText] = useState<TextSelection | null>(null)
-  const [activeCommentMarker, setActiveCommentMarker] = useState<string | null>(null)
-  const [commentMarkers, setCommentMarkers] = useState<CommentMarker[]>([])
-  
+  const [activeCommentMarker, setActiveCommentMarker] = useState<{ id: string; top: number } | null>(null)
+
   const contentRef = useRef<HTMLDivElement>(null)
+  const generalCommentsRef = useRef<HTMLDivElement>(null)
+  const focusedCommentRef = useRef<string | null>(null)
+  const onCommentsUpdateRef = useRef(onCommentsUpdate)
+  onCommentsUpdateRef.current = onCommentsUpdate
+
+  const loadComments = useCallback(async () => {
+    try {
+      const data = await requestJson(`/api/sections/${sectionId}/comments`)
+      setComments(data.comments)
+      setError(null)
+      onCommentsUpdateRef.current?.(data.comments)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments')
+    }
+  }, [sectionId])
 
-  // Group comments by text range to create markers
+  // Load, then reload whenever anyone changes a comment on the section
   useEffect(() => {
-    const markers: CommentMarker[] = []
-    const groupedComments = new Map<string, Comment[]>()
+    loadComments()
+    return commentsService.subscribeToSection(sectionId, loadComments)
+  }, [sectionId, loadComments])
 
+  // Threads still on their text, grouped by range
+  const commentMarkers = useMemo(() => {
+    const grouped = new Map<string, CommentMarker>()
     comments.forEach(comment => {
-      if (comment.text_range_start !== null && comment.text_range_end !== null) {
-        const key = `${comment.text_range_start}-${comment.text_range_end}`
-        if (!groupedComments.has(key)) {
-          groupedComments.set(key, [])
-        }
-        groupedComments.get(key)!.push(comment)
+      if (comment.text_range_start == null || comment.text_range_end == null || comment.is_orphaned) return
+      const key = `${comment.text_range_start}-${comment.text_range_end}`
+      if (!grouped.has(key)) {
+        grouped.set(key, { id: key, start: comment.text_range_start, end: comment.text_range_end, comments: [] })
       }
+      grouped.get(key)!.comments.push(comment)
     })
+    return Array.from(grouped.values()).sort((a, b) => a.start - b.start)
+  }, [comments])
 
-    groupedComments.forEach((commentGroup, key) => {
-      const [start, end] = key.split('-').map(Number)
-      markers.push({
-        id: key,
-        start,
-        end,
-        comments: commentGroup,
-        position: { top: 0, left: 0 } // Will be calculated when needed
-      })
-    })
+  // General comments, and comments whose text has been deleted
+  const unanchoredComments = useMemo(
+    () => comments.filter(c => c.text_range_start == null || c.is_orphaned),
+    [comments]
+  )
 
-    setCommentMarkers(markers)
-  }, [comments])
+  // Render content with comment highlights
+  useEffect(() => {
+    const container = contentRef.current
+    if (!container) return
+    container.innerHTML = content
+    commentMarkers.forEach(marker => highlightRange(container, marker))
+  }, [content, commentMarkers])
+
+  // Bring the focused thread into view and open it, once
+  useEffect(() => {
+    const container = contentRef.current
+    if (!focusCommentId || focusedCommentRef.current === focusCommentId || !container) return
+    const thread = comments.find(comment => containsComment(comment, focusCommentId))
+    if (!thread) return
+    focusedCommentRef.current = focusCommentId
+
+    const marker = commentMarkers.find(candidate => candidate.comments.includes(thread))
+    const mark = marker && container.querySelector<HTMLElement>(`[data-comment-marker="${marker.id}"]`)
+    if (!marker || !mark) {
+      generalCommentsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+      return
+    }
+    mark.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setActiveCommentMarker({ id: marker.id, top: mark.getBoundingClientRect().top - container.getBoundingClientRect().top })
+  }, [focusCommentId, comments, commentMarkers])
 
   // Handle text selection
   const handleTextSelection = useCallback(() => {
     const selection = window.getSelection()
-    if (!selection || !contentRef.current || selection.rangeCount === 0) {
-      setSelectedText(null)
-      setShowCommentForm(false)
+    if (!selection || !contentRef.current || selection.rangeCount === 0 || selection.isCollapsed) {
       return
     }
 
     const range = selection.getRangeAt(0)
-    const selectedText = selection.toString().trim()
-
-    if (selectedText.length === 0) {
-      setSelectedText(null)
-      setShowCommentForm(false)
-      return
-    }
-
     // Check if selection is within our content area
     if (!contentRef.current.contains(range.commonAncestorContainer)) {
       return
     }
 
+    const rawText = selection.toString()
+    const selectedText = rawText.trim()
+    if (selectedText.length === 0) return
+
+    // Calculate text offsets, leaving out whitespace at either end
+    const leading = rawText.length - rawText.trimStart().length
+    const start = textOffset(contentRef.current, range.startContainer, range.startOffset) + leading
+    const end = start + selectedText.length
+
     // Calculate position relative to content
     const contentRect = contentRef.current.getBoundingClientRect()
     const rangeRect = range.getBoundingClientRect()
-    
-    const position = {
-      top: rangeRect.bottom - contentRect.top + 10,
-      left: rangeRect.left - contentRect.left
-    }
-
-    // Calculate text offsets
-    const preCaretRange = range.cloneRange()
-    preCaretRange.selectNodeContents(contentRef.current)
-    preCaretRange.setEnd(range.startContainer, range.startOffset)
-    const start = preCaretRange.toString().length
-
-    const end = start + selectedText.length
 
     setSelectedText({
       start,
       end,
       selectedText,
-      position
+      position: {
+        top: rangeRect.bottom - contentRect.top + 10,
+        left: rangeRect.left - contentRect.left
+      }
     })
+    setActiveCommentMarker(null)
     setShowCommentForm(true)
   }, [])
 
@@ -134,162 +215,93 @@ export function CommentSystem({
     return () => document.removeEventListener('mouseup', handleMouseUp)
   }, [handleTextSelection])
 
-  // Handle comment creation
-  const handleCreateComment = async (commentData: CreateCommentInput) => {
-    try {
-      const newComment = await CommentsService.createComment(commentData)
-      const updatedComments = [...comments, newComment]
-      onCommentsUpdate(updatedComments)
-      setShowCommentForm(false)
-      setSelectedText(null)
-    } catch (error) {
-      console.error('Error creating comment:', error)
-      throw error
-    }
-  }
+  // Open the threads on a highlight when it is clicked
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const mark = (e.target as HTMLElement).closest<HTMLElement>('[data-comment-marker]')
+    if (!mark || !contentRef.current || !window.getSelection()?.isCollapsed) return
 
-  // Handle comment actions
-  const handleReply = async (parentId: string, content: string) => {
-    try {
-      const replyData: CreateCommentInput = {
-        section_id: sectionId,
-        content,
-        parent_comment_id: parentId,
-        text_range_start: null,
-        text_range_end: null
-      }
-      const newReply = await CommentsService.createComment(replyData)
-      const updatedComments = [...comments, newReply]
-      onCommentsUpdate(updatedComments)
-    } catch (error) {
-      console.error('Error creating reply:', error)
-    }
+    const id = mark.dataset.commentMarker!
+    const top = mark.getBoundingClientRect().top - contentRef.current.getBoundingClientRect().top
+    setActiveCommentMarker(activeCommentMarker?.id === id ? null : { id, top })
   }
 
-  const handleEdit = async (commentId: string, content: string) => {
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
     try {
-      const updatedComment = await CommentsService.updateComment(commentId, content)
-      const updatedComments = comments.map(c => 
-        c.id === commentId ? updatedComment : c
-      )
-      onCommentsUpdate(updatedComments)
-    } catch (error) {
-      console.error('Error updating comment:', error)
+      await action()
+      await loadComments()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+      throw err
     }
   }
 
-  const handleDelete = async (commentId: string) => {
-    try {
-      await CommentsService.deleteComment(commentId)
-      const updatedComments = comments.filter(c => c.id !== commentId)
-      onCommentsUpdate(updatedComments)
-    } catch (error) {
-      console.error('Error deleting comment:', error)
-    }
-  }
-
-  const handleResolve = async (commentId: string) => {
-    try {
-      const updatedComment = await CommentsService.toggleCommentResolution(commentId, true)
-      const updatedComments = comments.map(c => 
-        c.id === commentId ? updatedComment : c
-      )
-      onCommentsUpdate(updatedComments)
-    } catch (error) {
-      console.error('Error resolving comment:', error)
-    }
+  // Handle comment creation
+  const handleCreateComment = async (commentData: CreateCommentInput) => {
+    await runAction(() => requestJson(`/api/sections/${sectionId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify(commentData)
+    }), 'Failed to create comment')
+    setShowCommentForm(false)
+    setSelectedText(null)
+    window.getSelection()?.removeAllRanges()
   }
 
-  const handleUnresolve = async (commentId: string) => {
-    try {
-      const updatedComment = await CommentsService.toggleCommentResolution(commentId, false)
-      const updatedComments = comments.map(c => 
-        c.id === commentId ? updatedComment : c
-      )
-      onCommentsUpdate(updatedComments)
-    } catch (error) {
-      console.error('Error unresolving comment:', error)
-    }
+  // Handle comment actions
+  const handleReply = (parentId: string, content: string, mentionedUserIds: string[]) =>
+    runAction(() => requestJson(`/api/sections/${sectionId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ content, parent_comment_id: parentId, mentioned_user_ids: mentionedUserIds })
+    }), 'Failed to reply').catch(() => {})
+
+  const handleEdit = (commentId: string, content: string, mentionedUserIds: string[]) =>
+    runAction(() => requestJson(`/api/comments/${commentId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ content, mentioned_user_ids: mentionedUserIds })
+    }), 'Failed to update comment').catch(() => {})
+
+  const handleDelete = (commentId: string) =>
+    runAction(() => requestJson(`/api/comments/${commentId}`, { method: 'DELETE' }), 'Failed to delete comment')
+      .catch(() => {})
+
+  const setResolution = (commentId: string, resolved: boolean) =>
+    runAction(() => requestJson(`/api/comments/${commentId}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ resolved })
+    }), 'Failed to resolve comment').catch(() => {})
+
+  const bubbleProps = {
+    onReply: handleReply,
+    onEdit: handleEdit,
+    onDelete: handleDelete,
+    onResolve: (commentId: string) => setResolution(commentId, true),
+    onUnresolve: (commentId: string) => setResolution(commentId, false),
+    currentUserId
   }
 
-  // Render content with comment highlights
-  const renderContentWithHighlights = () => {
-    if (commentMarkers.length === 0) {
-      return <div dangerouslySetInnerHTML={{ __html: content }} />
-    }
-
-    // Sort markers by start position
-    const sortedMarkers = [...commentMarkers].sort((a, b) => a.start - b.start)
-    
-    let lastIndex = 0
-    const elements: React.ReactNode[] = []
-
-    sortedMarkers.forEach((marker, index) => {
-      // Add text before this marker
-      if (marker.start > lastIndex) {
-        const beforeText = content.slice(lastIndex, marker.start)
-        elements.push(
-          <span key={`text-${index}`} dangerouslySetInnerHTML={{ __html: beforeText }} />
-        )
-      }
-
-      // Add highlighted text with comment marker
-      const highlightedText = content.slice(marker.start, marker.end)
-      const unresolvedCount = marker.comments.filter(c => !c.is_resolved).length
-      
-      elements.push(
-        <span
-          key={`highlight-${marker.id}`}
-          className={`relative cursor-pointer transition-colors ${
-            unresolvedCount > 0 
-              ? 'bg-yellow-100 border-b-2 border-yellow-400 hover:bg-yellow-200' 
-              : 'bg-green-100 border-b-2 border-green-400 hover:bg-green-200'
-          }`}
-          onClick={() => setActiveCommentMarker(
-            activeCommentMarker === marker.id ? null : marker.id
-          )}
-          title={`${marker.comments.length} comment${marker.comments.length !== 1 ? 's' : ''}`}
-        >
-          <span dangerouslySetInnerHTML={{ __html: highlightedText }} />
-          <MessageCircle className="inline w-3 h-3 ml-1 text-brand-primary" />
-          {unresolvedCount > 0 && (
-            <span className="absolute -top-1 -right-1 w-4 h-4 bg-orange-500 text-white text-xs rounded-full flex items-center justify-center">
-              {unresolvedCount}
-            </span>
-          )}
-        </span>
-      )
-
-      lastIndex = marker.end
-    })
-
-    // Add remaining text
-    if (lastIndex < content.length) {
-      const remainingText = content.slice(lastIndex)
-      elements.push(
-        <span key="text-end" dangerouslySetInnerHTML={{ __html: remainingText }} />
-      )
-    }
-
-    return <div>{elements}</div>
-  }
+  const activeMarker = activeCommentMarker
+    ? commentMarkers.find(marker => marker.id === activeCommentMarker.id)
+    : undefined
+  const isGeneralComment = showCommentForm && selectedText?.selectedText === ''
 
   return (
     <div className={`relative ${className}`}>
       {/* Content area with text selection */}
       <div
         ref={contentRef}
+        onClick={handleContentClick}
         className="prose prose-lg max-w-none select-text"
         style={{ userSelect: 'text' }}
-      >
-        {renderContentWithHighlights()}
-      </div>
+      />
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600">{error}</p>
+      )}
 
       {/* Comment form for new selections */}
       {showCommentForm && selectedText && (
         <div
-          className="absolute z-50"
-          style={{
+          className={isGeneralComment ? 'fixed bottom-20 right-6 z-50' : 'absolute z-50'}
+          style={isGeneralComment ? { maxWidth: '400px' } : {
             top: selectedText.position.top,
             left: selectedText.position.left,
             maxWidth: '400px'
@@ -297,7 +309,7 @@ export function CommentSystem({
         >
           <CommentForm
             sectionId={sectionId}
-            textRange={selectedText}
+            textRange={isGeneralComment ? undefined : selectedText}
             onSubmit={handleCreateComment}
             onCancel={() => {
               setShowCommentForm(false)
@@ -308,31 +320,23 @@ export function CommentSystem({
       )}
 
       {/* Comment bubbles for existing comments */}
-      {activeCommentMarker && (
-        <div className="absolute z-40">
-          {commentMarkers
-            .filter(marker => marker.id === activeCommentMarker)
-            .map(marker => (
-              <div
-                key={marker.id}
-                className="absolute"
-                style={{
-                  top: marker.position.top,
-                  left: marker.position.left + 300, // Position to the right
-                  maxWidth: '400px'
-                }}
-              >
-                <CommentBubble
-                  comments={marker.comments}
-                  onReply={handleReply}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
-                  onResolve={handleResolve}
-                  onUnresolve={handleUnresolve}
-                  currentUserId={currentUserId}
-                />
-              </div>
-            ))}
+      {activeCommentMarker && activeMarker && (
+        <div
+          className="absolute z-40 right-0"
+          style={{ top: activeCommentMarker.top, maxWidth: '400px' }}
+        >
+          <CommentBubble comments={activeMarker.comments} {...bubbleProps} />
+        </div>
+      )}
+
+      {/* General comments, and comments whose text has been deleted */}
+      {unanchoredComments.length > 0 && (
+        <div ref={generalCommentsRef} className="mt-6">
+          <h4 className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-2">
+            <MessageCircle className="w-4 h-4 text-brand-primary" />
+            General comments
+          </h4>
+          <CommentBubble comments={unanchoredComments} className="w-full max-h-none shadow-none" {...bubbleProps} />
         </div>
       )}
 
@@ -345,6 +349,7 @@ export function CommentSystem({
             selectedText: '',
             position: { top: 0, left: 0 }
           })
+          setActiveCommentMarker(null)
           setShowCommentForm(true)
         }}
         className="fixed bottom-6 right-6 w-12 h-12 bg-brand-primary text-white rounded-full shadow-lg hover:bg-brand-primary-dark transition-colors flex items-center justify-center z-30"
@@ -366,4 +371,4 @@ export function CommentSystem({
       )}
     </div>
   )
-} 
\ No newline at end of file
+}
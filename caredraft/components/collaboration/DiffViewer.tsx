@@ -1,52 +1,98 @@
 'use client'
 
-import React, { useMemo } from 'react'
-import { X, GitBranch, Clock, User } from 'lucide-react'
-import { Version } from '@/types/collaboration'
+import React, { useEffect, useMemo, useState } from 'react'
+import { X, GitBranch, Clock, User, Flag } from 'lucide-react'
+import { Version, VersionDiff } from '@/types/collaboration'
 import { formatRelativeTime, getUserDisplayName } from '@/types/collaboration'
+import { parseRichText, richTextToPlainText } from '@/lib/utils/rich-text'
 
 interface DiffViewerProps {
+  sectionId: string
   version1: Version
   version2?: Version
   onClose: () => void
   className?: string
 }
 
-interface DiffLine {
-  type: 'added' | 'removed' | 'unchanged' | 'modified'
-  content: string
-  lineNumber?: number
-  oldLineNumber?: number
-  newLineNumber?: number
-}
+const segmentClassName = {
+  equal: '',
+  insert: 'bg-green-100 text-green-800',
+  delete: 'bg-red-100 text-red-700 line-through'
+} as const
 
 export default function DiffViewer({
+  sectionId,
   version1,
   version2,
   onClose,
   className = ''
 }: DiffViewerProps) {
-  const diffLines = useMemo(() => {
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
     if (!version2) {
-      // Show single version content
-      return version1.content_snapshot.split('\n').map((line, index) => ({
-        type: 'unchanged' as const,
-        content: line,
-        lineNumber: index + 1
-      }))
+      setDiff(null)
+      return
+    }
+
+    const loadDiff = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/sections/${sectionId}/versions?from=${version2.version_number}&to=${version1.version_number}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to compare versions')
+        setDiff(data.diff as VersionDiff)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare versions')
+      } finally {
+        setLoading(false)
+      }
     }
 
-    // Compare two versions
-    return generateDiff(version2.content_snapshot, version1.content_snapshot)
-  }, [version1, version2])
+    loadDiff()
+  }, [sectionId, version1, version2])
+
+  // Versions may have been picked in either order; show the older one first
+  const older = diff?.from ?? version2
+  const newer = diff?.to ?? version1
+  const plainText = useMemo(() => richTextToPlainText(parseRichText(version1.content_snapshot)), [version1])
+  const limit = diff?.word_count_limit ?? version1.word_count_limit ?? 0
+
+  const renderVersionInfo = (version: Version, label: string, badgeClassName: string) => (
+    <div className="flex items-center space-x-3">
+      <div className="flex items-center space-x-2">
+        <GitBranch className="h-4 w-4 text-gray-400" />
+        <span className="font-medium text-gray-900">
+          Version {version.version_number}
+        </span>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full ${badgeClassName}`}>
+          {label}
+        </span>
+        {version.milestone_name && (
+          <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-brand-100 text-brand-800 rounded-full">
+            <Flag className="h-3 w-3 mr-1" />
+            {version.milestone_name}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center space-x-4 text-sm text-gray-500">
+        <div className="flex items-center space-x-1">
+          <Clock className="h-3 w-3" />
+          <span>{formatRelativeTime(version.created_at)}</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <User className="h-3 w-3" />
+          <span>{getUserDisplayName(version.user || {})}</span>
+        </div>
+      </div>
+    </div>
+  )
 
-  const stats = useMemo(() => {
-    const added = diffLines.filter(line => line.type === 'added').length
-    const removed = diffLines.filter(line => line.type === 'removed').length
-    const modified = diffLines.filter(line => line.type === 'modified').length
-    
-    return { added, removed, modified }
-  }, [diffLines])
+  const wordCountText = (version: Version) =>
+    limit > 0 ? `${version.word_count}/${limit} words` : `${version.word_count} words`
 
   return (
     <div className={`fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 ${className}`}>
@@ -58,19 +104,14 @@ export default function DiffViewer({
               {version2 ? 'Version Comparison' : 'Version Details'}
             </h2>
             
-            {version2 && (
+            {diff && (
               <div className="flex items-center space-x-2 text-sm text-gray-500">
                 <span className="px-2 py-1 bg-red-100 text-red-700 rounded">
-                  -{stats.removed}
+                  -{diff.stats.wordsRemoved}
                 </span>
                 <span className="px-2 py-1 bg-green-100 text-green-700 rounded">
-                  +{stats.added}
+                  +{diff.stats.wordsAdded}
                 </span>
-                {stats.modified > 0 && (
-                  <span className="px-2 py-1 bg-brand-100 text-brand-700 rounded">
-                    ~{stats.modified}
-                  </span>
-                )}
               </div>
             )}
           </div>
@@ -86,114 +127,73 @@ export default function DiffViewer({
         {/* Version Info */}
         <div className="p-4 bg-gray-50 border-b border-gray-200">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Version 1 (newer/current) */}
-            <div className="flex items-center space-x-3">
-              <div className="flex items-center space-x-2">
-                <GitBranch className="h-4 w-4 text-gray-400" />
-                <span className="font-medium text-gray-900">
-                  Version {version1.version_number}
-                </span>
-                {!version2 && (
-                  <span className="px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded-full">
-                    Current
-                  </span>
-                )}
-              </div>
-              <div className="flex items-center space-x-4 text-sm text-gray-500">
-                <div className="flex items-center space-x-1">
-                  <Clock className="h-3 w-3" />
-                  <span>{formatRelativeTime(version1.created_at)}</span>
-                </div>
-                <div className="flex items-center space-x-1">
-                  <User className="h-3 w-3" />
-                  <span>{getUserDisplayName(version1.user || {})}</span>
-                </div>
-              </div>
-            </div>
-
-            {/* Version 2 (older) */}
-            {version2 && (
-              <div className="flex items-center space-x-3">
-                <div className="flex items-center space-x-2">
-                  <GitBranch className="h-4 w-4 text-gray-400" />
-                  <span className="font-medium text-gray-900">
-                    Version {version2.version_number}
-                  </span>
-                  <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded-full">
-                    Previous
-                  </span>
-                </div>
-                <div className="flex items-center space-x-4 text-sm text-gray-500">
-                  <div className="flex items-center space-x-1">
-                    <Clock className="h-3 w-3" />
-                    <span>{formatRelativeTime(version2.created_at)}</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <User className="h-3 w-3" />
-                    <span>{getUserDisplayName(version2.user || {})}</span>
-                  </div>
-                </div>
-              </div>
-            )}
+            {older && older !== newer && renderVersionInfo(older, 'Previous', 'bg-gray-100 text-gray-700')}
+            {renderVersionInfo(newer, version2 ? 'Newer' : 'Current', 'bg-green-100 text-green-800')}
           </div>
 
           {/* Change summaries */}
           <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
-            {version1.change_summary && (
+            {older && older !== newer && older.change_summary && (
               <div>
-                <div className="text-xs font-medium text-gray-700 mb-1">Latest Changes:</div>
-                <p className="text-sm text-gray-600">{version1.change_summary}</p>
+                <div className="text-xs font-medium text-gray-700 mb-1">Previous Changes:</div>
+                <p className="text-sm text-gray-600">{older.change_summary}</p>
               </div>
             )}
-            {version2?.change_summary && (
+            {newer.change_summary && (
               <div>
-                <div className="text-xs font-medium text-gray-700 mb-1">Previous Changes:</div>
-                <p className="text-sm text-gray-600">{version2.change_summary}</p>
+                <div className="text-xs font-medium text-gray-700 mb-1">Latest Changes:</div>
+                <p className="text-sm text-gray-600">{newer.change_summary}</p>
               </div>
             )}
           </div>
+
+          {diff && diff.authors.length > 0 && (
+            <p className="mt-3 text-sm text-gray-600">
+              Changed by {diff.authors.map(author => getUserDisplayName(author)).join(', ')}
+            </p>
+          )}
         </div>
 
         {/* Diff Content */}
-        <div className="flex-1 overflow-auto">
-          <div className="font-mono text-sm">
-            {diffLines.map((line, index) => (
-              <div
-                key={index}
-                className={`flex ${getDiffLineClassName(line.type)}`}
-              >
-                <div className="flex-shrink-0 w-16 px-2 py-1 text-xs text-gray-500 bg-gray-50 border-r border-gray-200 text-right">
-                  {line.type === 'added'
-                    ? line.newLineNumber
-                    : line.type === 'removed'
-                      ? line.oldLineNumber
-                      : line.lineNumber || ''}
-                </div>
-                <div className="flex-1 px-3 py-1 whitespace-pre-wrap break-words">
-                  {line.type === 'added' && <span className="text-green-600 mr-1">+</span>}
-                  {line.type === 'removed' && <span className="text-red-600 mr-1">-</span>}
-                  {line.type === 'modified' && <span className="text-brand-600 mr-1">~</span>}
-                  {line.content}
-                </div>
-              </div>
-            ))}
-          </div>
+        <div className="flex-1 overflow-auto p-4">
+          {loading && <p className="text-sm text-gray-500">Comparing versions...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {diff && (
+            <div className="text-sm leading-relaxed whitespace-pre-wrap">
+              {diff.stats.unchanged && (
+                <p className="mb-3 text-gray-600">No text changes between these versions.</p>
+              )}
+              {diff.segments.map((segment, index) => (
+                <span key={index} className={segmentClassName[segment.type]}>
+                  {segment.value}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {!version2 && (
+            <div className="text-sm leading-relaxed whitespace-pre-wrap">{plainText}</div>
+          )}
         </div>
 
         {/* Footer */}
         <div className="p-4 bg-gray-50 border-t border-gray-200">
           <div className="flex items-center justify-between text-sm text-gray-500">
             <div>
-              {version2 ? (
+              {older && older !== newer ? (
                 <span>
-                  Comparing Version {version2.version_number} → Version {version1.version_number}
+                  Comparing Version {older.version_number} → Version {newer.version_number}
                 </span>
               ) : (
-                <span>Viewing Version {version1.version_number}</span>
+                <span>Viewing Version {newer.version_number}</span>
               )}
             </div>
-            <div>
-              {diffLines.length} line{diffLines.length !== 1 ? 's' : ''}
+            <div className={limit > 0 && newer.word_count > limit ? 'text-red-600 font-medium' : ''}>
+              {older && older !== newer
+                ? `${wordCountText(older)} → ${wordCountText(newer)}`
+                : wordCountText(newer)}
+              {limit > 0 && newer.word_count > limit && ` (${newer.word_count - limit} over the limit)`}
             </div>
           </div>
         </div>
@@ -201,99 +201,3 @@ export default function DiffViewer({
     </div>
   )
 }
-
-// Helper function to generate diff between two text strings
-function generateDiff(oldText: string, newText: string): DiffLine[] {
-  const oldLines = oldText.split('\n')
-  const newLines = newText.split('\n')
-  const diffLines: DiffLine[] = []
-
-  // Simple line-by-line diff algorithm
-  let oldIndex = 0
-  let newIndex = 0
-
-  while (oldIndex < oldLines.length || newIndex < newLines.length) {
-    const oldLine = oldLines[oldIndex]
-    const newLine = newLines[newIndex]
-
-    if (oldIndex >= oldLines.length) {
-      // Only new lines remaining
-      diffLines.push({
-        type: 'added',
-        content: newLine,
-        newLineNumber: newIndex + 1
-      })
-      newIndex++
-    } else if (newIndex >= newLines.length) {
-      // Only old lines remaining
-      diffLines.push({
-        type: 'removed',
-        content: oldLine,
-        oldLineNumber: oldIndex + 1
-      })
-      oldIndex++
-    } else if (oldLine === newLine) {
-      // Lines are identical
-      diffLines.push({
-        type: 'unchanged',
-        content: oldLine,
-        lineNumber: newIndex + 1
-      })
-      oldIndex++
-      newIndex++
-    } else {
-      // Lines are different - check if it's a modification or addition/deletion
-      const nextOldLine = oldLines[oldIndex + 1]
-      const nextNewLine = newLines[newIndex + 1]
-
-      if (nextOldLine === newLine) {
-        // Old line was deleted
-        diffLines.push({
-          type: 'removed',
-          content: oldLine,
-          oldLineNumber: oldIndex + 1
-        })
-        oldIndex++
-      } else if (nextNewLine === oldLine) {
-        // New line was added
-        diffLines.push({
-          type: 'added',
-          content: newLine,
-          newLineNumber: newIndex + 1
-        })
-        newIndex++
-      } else {
-        // Line was modified
-        diffLines.push({
-          type: 'removed',
-          content: oldLine,
-          oldLineNumber: oldIndex + 1
-        })
-        diffLines.push({
-          type: 'added',
-          content: newLine,
-          newLineNumber: newIndex + 1
-        })
-        oldIndex++
-        newIndex++
-      }
-    }
-  }
-
-  return diffLines
-}
-
-// Helper function to get CSS classes for diff line types
-function getDiffLineClassName(type: DiffLine['type']): string {
-  switch (type) {
-    case 'added':
-      return 'bg-green-50 border-l-4 border-green-400'
-    case 'removed':
-      return 'bg-red-50 border-l-4 border-red-400'
-    case 'modified':
-      return 'bg-brand-50 border-l-4 border-brand-400'
-    case 'unchanged':
-    default:
-      return 'bg-white hover:bg-gray-50'
-  }
-} 
\ No newline at end of file
@@ -2,7 +2,7 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react'
 import { AtSign, User } from 'lucide-react'
-import { UserSearchResult, UsersService } from '@/lib/services/users'
+import { UserSearchResult, usersService } from '@/lib/services/users'
 import { getUserDisplayName, getUserColor } from '@/types/collaboration'
 
 interface MentionInputProps {
@@ -16,6 +16,11 @@ interface MentionInputProps {
   rows?: number
 }
 
+// Name written into the text after the @
+export function mentionDisplayName(user: UserSearchResult): string {
+  return user.full_name || getUserDisplayName(user)
+}
+
 interface MentionMatch {
   start: number
   end: number
@@ -40,7 +45,6 @@ export function MentionInput({
   
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const suggestionsRef = useRef<HTMLDivElement>(null)
-  const usersService = new UsersService()
 
   // Find mention pattern in text
   const findMentionMatch = useCallback((text: string, cursorPos: number): MentionMatch | null => {
@@ -89,7 +93,7 @@ export function MentionInput({
     } finally {
       setLoading(false)
     }
-  }, [usersService])
+  }, [])
 
   // Handle text change
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -139,7 +143,7 @@ export function MentionInput({
   const insertMention = (user: UserSearchResult) => {
     if (!currentMention || !textareaRef.current) return
 
-    const displayName = getUserDisplayName(user)
+    const displayName = mentionDisplayName(user)
     const beforeMention = value.slice(0, currentMention.start)
     const afterMention = value.slice(currentMention.end)
     const newValue = `${beforeMention}@${displayName} ${afterMention}`
@@ -254,7 +258,7 @@ export function MentionInput({
                 {user.avatar_url ? (
                   <img
                     src={user.avatar_url}
-                    alt={getUserDisplayName(user)}
+                    alt={mentionDisplayName(user)}
                     className="w-6 h-6 rounded-full object-cover"
                   />
                 ) : (
@@ -262,14 +266,14 @@ export function MentionInput({
                     className="w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium text-white"
                     style={{ backgroundColor: getUserColor(user.id) }}
                   >
-                    {getUserDisplayName(user).charAt(0).toUpperCase()}
+                    {mentionDisplayName(user).charAt(0).toUpperCase()}
                   </div>
                 )}
 
                 {/* User info */}
                 <div className="flex-1 min-w-0">
                   <div className="text-sm font-medium text-gray-900 truncate">
-                    {getUserDisplayName(user)}
+                    {mentionDisplayName(user)}
                   </div>
                   <div className="text-xs text-gray-500 truncate">
                     {user.email}
@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState } from 'react'
-import { Save, Clock, AlertCircle, CheckCircle, History, GitBranch } from 'lucide-react'
+import { Save, Clock, AlertCircle, CheckCircle, History, GitBranch, Flag } from 'lucide-react'
 import { Version } from '@/types/collaboration'
 import { formatRelativeTime } from '@/types/collaboration'
 import VersionHistory from './VersionHistory'
@@ -14,7 +14,8 @@ interface VersionControlPanelProps {
   lastSaved?: Date | null
   saveError?: string | null
   hasUnsavedChanges?: boolean
-  onSaveNow?: () => Promise<void>
+  // Save by hand, optionally naming the version as a milestone
+  onSaveNow?: (milestoneName?: string) => Promise<void>
   onRestoreVersion?: (version: Version) => void
   className?: string
 }
@@ -34,6 +35,7 @@ export default function VersionControlPanel({
   const [diffVersion1, setDiffVersion1] = useState<Version | null>(null)
   const [diffVersion2, setDiffVersion2] = useState<Version | null>(null)
   const [showDiff, setShowDiff] = useState(false)
+  const [milestoneName, setMilestoneName] = useState<string | null>(null)
 
   const handleViewDiff = (version1: Version, version2?: Version) => {
     setDiffVersion1(version1)
@@ -47,6 +49,12 @@ export default function VersionControlPanel({
     setDiffVersion2(null)
   }
 
+  const handleSaveMilestone = async () => {
+    if (!onSaveNow || !milestoneName?.trim()) return
+    await onSaveNow(milestoneName.trim())
+    setMilestoneName(null)
+  }
+
   const handleRestoreVersion = (version: Version) => {
     onRestoreVersion?.(version)
     setShowHistory(false)
@@ -119,17 +127,61 @@ export default function VersionControlPanel({
               </span>
             </div>
             
-            {(hasUnsavedChanges || saveError) && onSaveNow && (
+            <div className="flex items-center space-x-2">
+              {onSaveNow && milestoneName === null && (
+                <button
+                  onClick={() => setMilestoneName('')}
+                  disabled={isSaving}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Flag className="h-4 w-4 mr-1" />
+                  Save Milestone
+                </button>
+              )}
+
+              {(hasUnsavedChanges || saveError) && onSaveNow && (
+                <button
+                  onClick={() => onSaveNow()}
+                  disabled={isSaving}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-brand-primary border border-transparent rounded-md hover:bg-brand-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save Now
+                </button>
+              )}
+            </div>
+          </div>
+
+          {milestoneName !== null && (
+            <div className="mt-3 flex items-center space-x-2">
+              <input
+                type="text"
+                value={milestoneName}
+                onChange={(e) => setMilestoneName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveMilestone()
+                  if (e.key === 'Escape') setMilestoneName(null)
+                }}
+                placeholder="Milestone name, e.g. Submitted"
+                maxLength={100}
+                autoFocus
+                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary"
+              />
               <button
-                onClick={onSaveNow}
-                disabled={isSaving}
-                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-brand-primary border border-transparent rounded-md hover:bg-brand-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-primary disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                onClick={handleSaveMilestone}
+                disabled={isSaving || !milestoneName.trim()}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-brand-primary rounded-md hover:bg-brand-primary-dark disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
-                <Save className="h-4 w-4 mr-1" />
-                Save Now
+                Save
               </button>
-            )}
-          </div>
+              <button
+                onClick={() => setMilestoneName(null)}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
 
           {saveError && (
             <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-md">
@@ -166,6 +218,8 @@ export default function VersionControlPanel({
         {showHistory && (
           <div className="border-t border-gray-200">
             <VersionHistory
+              // Reload after each save
+              key={lastSaved?.getTime() ?? 0}
               sectionId={sectionId}
               currentContent={currentContent}
               onRestoreVersion={handleRestoreVersion}
@@ -179,6 +233,7 @@ export default function VersionControlPanel({
       {/* Diff Viewer Modal */}
       {showDiff && diffVersion1 && (
         <DiffViewer
+          sectionId={sectionId}
           version1={diffVersion1}
           version2={diffVersion2 || undefined}
           onClose={handleCloseDiff}
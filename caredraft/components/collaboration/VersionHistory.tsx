@@ -1,14 +1,14 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
-import { ChevronDown, Clock, User, RotateCcw, Eye, GitBranch, Diff } from 'lucide-react'
+import React, { useState, useEffect, useCallback } from 'react'
+import { ChevronDown, Clock, User, RotateCcw, Eye, GitBranch, Diff, Flag } from 'lucide-react'
 import { Version } from '@/types/collaboration'
-import { VersionsService } from '@/lib/services/collaboration'
-import { formatRelativeTime, formatDateTime } from '@/types/collaboration'
+import { formatRelativeTime, formatDateTime, getUserDisplayName } from '@/types/collaboration'
 
 interface VersionHistoryProps {
   sectionId: string
   currentContent?: string
+  // Called with the new version a restore saved
   onRestoreVersion?: (version: Version) => void
   onViewDiff?: (version: Version, compareWith?: Version) => void
   className?: string
@@ -25,21 +25,70 @@ export default function VersionHistory({
   const [loading, setLoading] = useState(true)
   const [selectedVersions, setSelectedVersions] = useState<string[]>([])
   const [expandedVersions, setExpandedVersions] = useState<Set<string>>(new Set())
+  const [naming, setNaming] = useState<{ versionNumber: number; name: string } | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    loadVersions()
-  }, [sectionId])
-
-  const loadVersions = async () => {
+  const loadVersions = useCallback(async () => {
     try {
       setLoading(true)
-      const versionsData = await VersionsService.getVersionsBySection(sectionId)
-      setVersions(versionsData)
+      const response = await fetch(`/api/sections/${sectionId}/versions`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load versions')
+      setVersions(data.versions as Version[])
     } catch (error) {
       console.error('Error loading versions:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load versions')
     } finally {
       setLoading(false)
     }
+  }, [sectionId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const handleNameMilestone = async () => {
+    if (!naming) return
+    setError(null)
+    try {
+      const response = await fetch(`/api/sections/${sectionId}/versions/${naming.versionNumber}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ milestone_name: naming.name.trim() || null })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to name version')
+
+      const named = data.version as Version
+      setVersions(prev => prev.map(v => v.id === named.id ? { ...v, milestone_name: named.milestone_name } : v))
+      setNaming(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to name version')
+    }
+  }
+
+  const handleRestore = async (version: Version) => {
+    if (!confirm(`Restore version ${version.version_number}? The current text is kept in the history.`)) return
+
+    setRestoring(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/sections/${sectionId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ version: version.version_number })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to restore version')
+
+      await loadVersions()
+      onRestoreVersion?.(data.version as Version)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore version')
+    } finally {
+      setRestoring(false)
+    }
   }
 
   const handleVersionSelect = (versionId: string) => {
@@ -81,6 +130,9 @@ export default function VersionHistory({
     const isSelected = selectedVersions.includes(version.id)
     const isExpanded = expandedVersions.has(version.id)
     const isLatest = index === 0
+    const previous = versions[index + 1]
+    const wordChange = previous ? version.word_count - previous.word_count : null
+    const limit = version.word_count_limit ?? 0
 
     return (
       <div
@@ -112,6 +164,18 @@ export default function VersionHistory({
                       Latest
                     </span>
                   )}
+                  {version.milestone_name && (
+                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-brand-100 text-brand-800 rounded-full">
+                      <Flag className="h-3 w-3 mr-1" />
+                      {version.milestone_name}
+                    </span>
+                  )}
+                  {version.save_kind === 'manual' && (
+                    <span className="text-xs text-gray-500">Saved by hand</span>
+                  )}
+                  {version.save_kind === 'restore' && version.restored_from_version && (
+                    <span className="text-xs text-gray-500">Restored from version {version.restored_from_version}</span>
+                  )}
                 </div>
               </div>
 
@@ -122,8 +186,16 @@ export default function VersionHistory({
                 </div>
                 <div className="flex items-center space-x-1">
                   <User className="h-3 w-3" />
-                  <span>{version.user?.user_metadata?.full_name || version.user?.email || 'Unknown'}</span>
+                  <span>{version.user ? getUserDisplayName(version.user) : 'Unknown'}</span>
                 </div>
+                <span className={limit > 0 && version.word_count > limit ? 'text-red-600 font-medium' : ''}>
+                  {limit > 0 ? `${version.word_count}/${limit} words` : `${version.word_count} words`}
+                  {wordChange !== null && wordChange !== 0 && (
+                    <span className={wordChange > 0 ? 'text-green-600' : 'text-red-600'}>
+                      {' '}({wordChange > 0 ? '+' : ''}{wordChange})
+                    </span>
+                  )}
+                </span>
               </div>
 
               {version.change_summary && (
@@ -132,6 +204,36 @@ export default function VersionHistory({
                 </p>
               )}
 
+              {naming?.versionNumber === version.version_number && (
+                <div className="mt-2 flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={naming.name}
+                    onChange={(e) => setNaming({ ...naming, name: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleNameMilestone()
+                      if (e.key === 'Escape') setNaming(null)
+                    }}
+                    placeholder="e.g. Sent for red review"
+                    maxLength={100}
+                    autoFocus
+                    className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                  />
+                  <button
+                    onClick={handleNameMilestone}
+                    className="px-2 py-1 text-sm font-medium text-white bg-brand-primary rounded-md hover:bg-brand-primary-dark transition-colors"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setNaming(null)}
+                    className="px-2 py-1 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
               {isExpanded && (
                 <div className="mt-3 p-2 bg-gray-50 rounded text-xs text-gray-600">
                   <div className="font-medium mb-1">Full timestamp:</div>
@@ -159,20 +261,29 @@ export default function VersionHistory({
               <ChevronDown className={`h-4 w-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
             </button>
 
+            <button
+              onClick={() => setNaming({ versionNumber: version.version_number, name: version.milestone_name || '' })}
+              className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+              title={version.milestone_name ? 'Rename milestone' : 'Name as milestone'}
+            >
+              <Flag className="h-4 w-4" />
+            </button>
+
             {onViewDiff && (
               <button
-                onClick={() => onViewDiff(version)}
+                onClick={() => onViewDiff(version, previous)}
                 className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
-                title="View changes"
+                title={previous ? 'View changes from the previous version' : 'View this version'}
               >
                 <Eye className="h-4 w-4" />
               </button>
             )}
 
-            {onRestoreVersion && !isLatest && (
+            {!isLatest && (
               <button
-                onClick={() => onRestoreVersion(version)}
-                className="p-1 text-gray-400 hover:text-brand-primary transition-colors"
+                onClick={() => handleRestore(version)}
+                disabled={restoring}
+                className="p-1 text-gray-400 hover:text-brand-primary disabled:opacity-50 transition-colors"
                 title="Restore this version"
               >
                 <RotateCcw className="h-4 w-4" />
@@ -215,6 +326,12 @@ export default function VersionHistory({
         )}
       </div>
 
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
       {selectedVersions.length > 0 && (
         <div className="mb-3 p-2 bg-brand-50 border border-brand-200 rounded-md">
           <p className="text-sm text-brand-700">
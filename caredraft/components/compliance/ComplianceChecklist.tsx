@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { Plus, CheckCircle2, Circle, Trash2, RefreshCw, FileText } from 'lucide-react'
+import { Plus, CheckCircle2, Circle, Trash2, RefreshCw, FileText, Quote } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
@@ -9,13 +9,24 @@ import { Badge } from '@/components/ui/badge'
 import { LoadingButton } from '@/components/ui/loading-button'
 import { useToast } from '@/components/ui/toast'
 
-import { complianceExtractionService } from '@/lib/services/compliance-extraction'
+import { DocumentPreview } from '@/components/shared/DocumentPreview'
+import {
+  complianceExtractionService,
+  getSourceReferences,
+  ComplianceSourceDocument,
+  ComplianceSourceReference
+} from '@/lib/services/compliance-extraction'
 import { ComplianceItem } from '@/lib/database.types'
 
 interface ComplianceChecklistProps {
   proposalId: string
   extractedText?: string
+  // Per-page text of the extracted document, used for source page numbers
+  pageTexts?: string[]
+  documentName?: string
   sourceDocumentId?: string
+  // Stored documents to scan on the server when no extracted text is given
+  sourceDocumentIds?: string[]
   onStatsUpdate?: (stats: {
     total: number
     completed: number
@@ -30,10 +41,30 @@ interface ComplianceStats {
   completionPercentage: number
 }
 
+interface SourcePreview {
+  document: ComplianceSourceDocument
+  page?: number
+  quote: string
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  obligation: 'Obligation',
+  regulatory: 'Regulatory',
+  certification: 'Certification'
+}
+
+function getFileType(fileName: string, fileType: string | null): string {
+  if (fileType) return fileType
+  return fileName.toLowerCase().endsWith('.pdf') ? 'application/pdf' : 'application/octet-stream'
+}
+
 export function ComplianceChecklist({
   proposalId,
   extractedText,
+  pageTexts,
+  documentName,
   sourceDocumentId,
+  sourceDocumentIds,
   onStatsUpdate,
   className = ''
 }: ComplianceChecklistProps) {
@@ -43,6 +74,11 @@ export function ComplianceChecklist({
   const [newRequirement, setNewRequirement] = useState('')
   const [isAddingManual, setIsAddingManual] = useState(false)
   const [hasAutoItems, setHasAutoItems] = useState(false)
+  const [sourceDocuments, setSourceDocuments] = useState<Map<string, ComplianceSourceDocument>>(new Map())
+  const [previewSource, setPreviewSource] = useState<SourcePreview | null>(null)
+
+  const documentIdsToScan = sourceDocumentIds ?? (sourceDocumentId ? [sourceDocumentId] : [])
+  const canExtract = !!extractedText || documentIdsToScan.length > 0
 
   const toast = useToast()
 
@@ -55,6 +91,7 @@ export function ComplianceChecklist({
       
       const hasAuto = result.some(item => item.source_type === 'auto')
       setHasAutoItems(hasAuto)
+      await loadSourceDocuments(result)
       
       // Update statistics
       if (onStatsUpdate) {
@@ -72,28 +109,81 @@ export function ComplianceChecklist({
     }
   }
 
+  // Load the documents items were extracted from so sources can be opened
+  const loadSourceDocuments = async (loadedItems: ComplianceItem[]) => {
+    const ids = new Set<string>()
+    loadedItems.forEach(item => {
+      if (item.source_document_id) ids.add(item.source_document_id)
+      getSourceReferences(item).forEach(ref => {
+        if (ref.document_id) ids.add(ref.document_id)
+      })
+    })
+
+    const missing = Array.from(ids).filter(id => !sourceDocuments.has(id))
+    if (missing.length === 0) return
+
+    try {
+      const documents = await complianceExtractionService.getSourceDocuments(missing)
+      setSourceDocuments(prev => {
+        const next = new Map(prev)
+        documents.forEach(document => next.set(document.id, document))
+        return next
+      })
+    } catch (error) {
+      console.error('Failed to load compliance source documents:', error)
+    }
+  }
+
+  // Scan stored documents on the server, where page numbers can be recovered
+  const extractFromStoredDocuments = async () => {
+    const response = await fetch('/api/compliance/extract', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        proposalId,
+        documentIds: documentIdsToScan,
+        replaceExisting: true
+      })
+    })
+
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to extract compliance requirements')
+    }
+    return result
+  }
+
   // Extract compliance from text
   const handleExtractFromText = async () => {
-    if (!extractedText) {
+    if (!canExtract) {
       toast.error('No text available', 'Please provide extracted text to analyze')
       return
     }
 
     setIsExtracting(true)
     try {
-             const result = await complianceExtractionService.extractAndPopulateCompliance(
-         proposalId,
-         extractedText,
-         undefined,
-         sourceDocumentId,
-         true // replace existing auto items
-       )
-       
-       toast.success(
-         'Compliance items extracted',
-         `Successfully extracted ${result.itemsCreated} compliance requirements`
-       )
-      
+      const result = extractedText
+        ? await complianceExtractionService.extractAndPopulateCompliance(
+            proposalId,
+            extractedText,
+            documentName,
+            sourceDocumentId,
+            true, // replace existing auto items
+            pageTexts
+          )
+        : await extractFromStoredDocuments()
+
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      toast.success(
+        'Compliance items extracted',
+        result.itemsSkipped > 0
+          ? `Extracted ${result.itemsCreated} new requirements and merged ${result.itemsSkipped} duplicates`
+          : `Successfully extracted ${result.itemsCreated} compliance requirements`
+      )
+
       await loadItems() // Reload to get fresh data
     } catch (error) {
       toast.error('Failed to extract compliance items', String(error))
@@ -159,6 +249,18 @@ export function ComplianceChecklist({
     }
   }
 
+  const openSource = (item: ComplianceItem, reference?: ComplianceSourceReference) => {
+    const documentId = reference ? reference.document_id : item.source_document_id
+    const document = documentId ? sourceDocuments.get(documentId) : undefined
+    if (!document) return
+
+    setPreviewSource({
+      document,
+      page: (reference ? reference.page : item.source_page) ?? undefined,
+      quote: reference?.quote ?? item.source_quote ?? item.requirement
+    })
+  }
+
   // Load items on mount
   useEffect(() => {
     loadItems()
@@ -188,7 +290,7 @@ export function ComplianceChecklist({
           </div>
           
           <div className="flex items-center gap-2">
-            {extractedText && (
+            {canExtract && (
               <LoadingButton
                 onClick={handleExtractFromText}
                 isLoading={isExtracting}
@@ -284,13 +386,13 @@ export function ComplianceChecklist({
                 No compliance requirements yet
               </h4>
               <p className="text-sm text-gray-600 mb-4">
-                {extractedText 
+                {canExtract
                   ? 'Extract requirements from your document or add them manually'
                   : 'Add compliance requirements manually'
                 }
               </p>
               <div className="flex items-center justify-center gap-2">
-                {extractedText && (
+                {canExtract && (
                   <LoadingButton
                     onClick={handleExtractFromText}
                     isLoading={isExtracting}
@@ -309,7 +411,13 @@ export function ComplianceChecklist({
               </div>
             </Card>
           ) : (
-            items.map((item) => (
+            items.map((item) => {
+              const references = getSourceReferences(item)
+              const primaryDocument = item.source_document_id
+                ? sourceDocuments.get(item.source_document_id)
+                : undefined
+
+              return (
               <Card key={item.id} className="p-4">
                 <div className="flex items-start gap-3">
                   <button
@@ -343,12 +451,65 @@ export function ComplianceChecklist({
                         </Badge>
                       )}
                       
+                      {item.category && (
+                        <Badge variant="outline" className="text-xs">
+                          {CATEGORY_LABELS[item.category] ?? item.category}
+                        </Badge>
+                      )}
+
                       {item.source_page && (
                         <Badge variant="outline" className="text-xs">
                           Page {item.source_page}
                         </Badge>
                       )}
+
+                      {item.coverage_status === 'uncovered' && (
+                        <Badge variant="destructive" className="text-xs">
+                          Not addressed
+                        </Badge>
+                      )}
+
+                      {item.coverage_status === 'weak' && (
+                        <Badge variant="secondary" className="text-xs">
+                          Weakly addressed
+                        </Badge>
+                      )}
+
+                      {references.length > 1 && (
+                        <Badge variant="secondary" className="text-xs">
+                          Found {references.length} times
+                        </Badge>
+                      )}
                     </div>
+
+                    {item.source_quote && (
+                      <blockquote className="mt-2 border-l-2 border-gray-200 pl-3 text-xs italic text-gray-600 line-clamp-3">
+                        &ldquo;{item.source_quote}&rdquo;
+                      </blockquote>
+                    )}
+
+                    {primaryDocument && (
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        {(references.length > 0 ? references : [undefined]).map((reference, index) => {
+                          const document = reference?.document_id
+                            ? sourceDocuments.get(reference.document_id)
+                            : primaryDocument
+                          if (!document) return null
+                          const page = reference ? reference.page : item.source_page
+
+                          return (
+                            <button
+                              key={index}
+                              onClick={() => openSource(item, reference)}
+                              className="inline-flex items-center text-xs text-brand-600 hover:text-brand-700 hover:underline"
+                            >
+                              <Quote className="h-3 w-3 mr-1" />
+                              {document.file_name}{page ? `, p.${page}` : ''}
+                            </button>
+                          )
+                        })}
+                      </div>
+                    )}
                     
                     {item.notes && (
                       <p className="text-xs text-gray-600 mt-2">
@@ -366,10 +527,24 @@ export function ComplianceChecklist({
                   </button>
                 </div>
               </Card>
-            ))
+              )
+            })
           )}
         </div>
       </div>
+
+      {/* Source passage preview */}
+      {previewSource && (
+        <DocumentPreview
+          filePath={previewSource.document.file_path}
+          fileName={previewSource.document.file_name}
+          fileType={getFileType(previewSource.document.file_name, previewSource.document.file_type)}
+          isOpen={!!previewSource}
+          onClose={() => setPreviewSource(null)}
+          initialPage={previewSource.page}
+          highlightText={previewSource.quote}
+        />
+      )}
     </Card>
   )
 }
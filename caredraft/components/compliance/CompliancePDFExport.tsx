@@ -28,6 +28,7 @@ interface ExportOptionsState {
   includeNotes: boolean
   includeConfidenceScores: boolean
   includeSourcePages: boolean
+  includeCoverageGaps: boolean
   groupBySource: boolean
   showOnlyCompleted: boolean
   showOnlyPending: boolean
@@ -50,6 +51,7 @@ export function CompliancePDFExport({
     includeNotes: true,
     includeConfidenceScores: false,
     includeSourcePages: true,
+    includeCoverageGaps: true,
     groupBySource: true,
     showOnlyCompleted: false,
     showOnlyPending: false,
@@ -192,6 +194,19 @@ export function CompliancePDFExport({
                     />
                     <span>Source Pages</span>
                   </label>
+
+                  <label className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={exportOptions.includeCoverageGaps}
+                      onChange={(e) => setExportOptions(prev => ({
+                        ...prev,
+                        includeCoverageGaps: e.target.checked
+                      }))}
+                      className="rounded"
+                    />
+                    <span>Coverage Gaps</span>
+                  </label>
                 </div>
               )}
             </div>
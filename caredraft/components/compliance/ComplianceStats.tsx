@@ -1,9 +1,17 @@
 'use client'
 
 import React from 'react'
-import { CheckCircle2, Circle, Clock, TrendingUp, AlertTriangle } from 'lucide-react'
+import { CheckCircle2, Circle, Clock, TrendingUp, AlertTriangle, Grid3X3 } from 'lucide-react'
 import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { LoadingButton } from '@/components/ui/loading-button'
+import {
+  COVERED_THRESHOLD,
+  coverageResponseKey,
+  type ComplianceCoverageMatrix,
+  type CoverageMatrixRow,
+  type CoverageStatus
+} from '@/lib/services/compliance-coverage'
 
 interface ComplianceStatsProps {
   stats: {
@@ -13,10 +21,143 @@ interface ComplianceStatsProps {
     autoItems?: number
     manualItems?: number
   }
+  // Requirement-by-response coverage from the coverage analyser
+  coverage?: ComplianceCoverageMatrix | null
+  onAnalyseCoverage?: () => void
+  isAnalysingCoverage?: boolean
+  // Link a requirement to a response by hand, or remove a manual link
+  onToggleLink?: (
+    itemId: string,
+    response: ComplianceCoverageMatrix['responses'][number],
+    cell?: CoverageMatrixRow['cells'][string]
+  ) => void
   className?: string
 }
 
-export function ComplianceStats({ stats, className = '' }: ComplianceStatsProps) {
+const COVERAGE_LABELS: Record<CoverageStatus | 'unchecked', string> = {
+  covered: 'Addressed',
+  weak: 'Weakly addressed',
+  uncovered: 'Not addressed',
+  unchecked: 'Not analysed'
+}
+
+const COVERAGE_COLORS: Record<CoverageStatus | 'unchecked', string> = {
+  covered: 'bg-green-500',
+  weak: 'bg-yellow-500',
+  uncovered: 'bg-red-500',
+  unchecked: 'bg-gray-300'
+}
+
+function abbreviate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text
+}
+
+function CoverageMatrix({
+  coverage,
+  onToggleLink
+}: {
+  coverage: ComplianceCoverageMatrix
+  onToggleLink?: ComplianceStatsProps['onToggleLink']
+}) {
+  const total = coverage.rows.length
+  const statuses: (CoverageStatus | 'unchecked')[] = ['covered', 'weak', 'uncovered', 'unchecked']
+
+  return (
+    <div className="space-y-3">
+      {/* Coverage summary */}
+      <div className="flex w-full h-3 rounded-full overflow-hidden bg-gray-200">
+        {statuses.map(status => coverage.summary[status] > 0 && (
+          <div
+            key={status}
+            className={COVERAGE_COLORS[status]}
+            style={{ width: `${(coverage.summary[status] / total) * 100}%` }}
+            title={`${COVERAGE_LABELS[status]}: ${coverage.summary[status]}`}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        {statuses.map(status => (
+          <div key={status} className="flex items-center space-x-2">
+            <div className={`w-2.5 h-2.5 rounded-full ${COVERAGE_COLORS[status]}`}></div>
+            <span className="text-gray-600">{COVERAGE_LABELS[status]}</span>
+            <span className="font-medium text-gray-900">{coverage.summary[status]}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Requirement x response matrix */}
+      {coverage.responses.length > 0 && (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-2 text-left font-medium text-gray-600">Requirement</th>
+                {coverage.responses.map(response => (
+                  <th
+                    key={coverageResponseKey(response)}
+                    className="px-1 py-2 font-medium text-gray-600 whitespace-nowrap"
+                    title={response.title}
+                  >
+                    {abbreviate(response.title, 10)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {coverage.rows.map(row => (
+                <tr key={row.itemId}>
+                  <td className="px-2 py-1.5 text-gray-700" title={row.requirement}>
+                    <div className="flex items-center space-x-2">
+                      <div className={`flex-shrink-0 w-2 h-2 rounded-full ${COVERAGE_COLORS[row.status ?? 'unchecked']}`}></div>
+                      <span>{abbreviate(row.requirement, 40)}</span>
+                    </div>
+                  </td>
+                  {coverage.responses.map(response => {
+                    const cell = row.cells[coverageResponseKey(response)]
+                    const strong = cell && (cell.linkType === 'manual' || (cell.score ?? 0) >= COVERED_THRESHOLD)
+                    const marker = cell && (
+                      <span
+                        className={`inline-block w-3 h-3 rounded-sm ${strong ? 'bg-green-500' : 'bg-yellow-400'}`}
+                        title={cell.linkType === 'manual'
+                          ? 'Linked manually'
+                          : `${Math.round((cell.score ?? 0) * 100)}% of key terms mentioned`}
+                      />
+                    )
+                    return (
+                      <td key={coverageResponseKey(response)} className="px-1 py-1.5 text-center">
+                        {onToggleLink ? (
+                          <button
+                            type="button"
+                            onClick={() => onToggleLink(row.itemId, response, cell)}
+                            className="inline-flex items-center justify-center w-5 h-5 rounded hover:bg-gray-100"
+                            title={cell?.linkType === 'manual'
+                              ? 'Linked manually. Click to remove the link'
+                              : `Click to mark as addressed by ${response.title}`}
+                          >
+                            {marker || <span className="inline-block w-3 h-3 rounded-sm border border-dashed border-gray-300" />}
+                          </button>
+                        ) : marker}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ComplianceStats({
+  stats,
+  coverage,
+  onAnalyseCoverage,
+  isAnalysingCoverage = false,
+  onToggleLink,
+  className = ''
+}: ComplianceStatsProps) {
   const { total, completed, completionPercentage, autoItems = 0, manualItems = 0 } = stats
   const pending = total - completed
 
@@ -117,6 +258,36 @@ export function ComplianceStats({ stats, className = '' }: ComplianceStatsProps)
           </div>
         )}
 
+        {/* Response Coverage */}
+        {(coverage || onAnalyseCoverage) && (
+          <div className="space-y-3 pt-4 border-t border-gray-200">
+            <div className="flex items-center justify-between">
+              <h4 className="flex items-center text-sm font-medium text-gray-700">
+                <Grid3X3 className="h-4 w-4 mr-1" />
+                Response Coverage
+              </h4>
+              {onAnalyseCoverage && (
+                <LoadingButton
+                  onClick={onAnalyseCoverage}
+                  isLoading={isAnalysingCoverage}
+                  loadingText="Analysing..."
+                  variant="outline"
+                  size="sm"
+                >
+                  {coverage && coverage.summary.unchecked < coverage.rows.length ? 'Re-analyse' : 'Analyse'}
+                </LoadingButton>
+              )}
+            </div>
+            {coverage && coverage.rows.length > 0 ? (
+              <CoverageMatrix coverage={coverage} onToggleLink={onToggleLink} />
+            ) : (
+              <p className="text-xs text-gray-500">
+                Check which requirements your drafted responses address.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Status Indicators */}
         <div className="pt-4 border-t border-gray-200">
           <div className="flex items-center justify-between text-sm">
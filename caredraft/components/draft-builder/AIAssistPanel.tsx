@@ -2,15 +2,36 @@
 
 import React, { useState } from 'react'
 import { Editor } from '@tiptap/react'
-import { Wand2, Loader2, ExpandIcon, Minimize2, RefreshCw } from 'lucide-react'
+import { Wand2, Loader2, ExpandIcon, Minimize2, RefreshCw, BookOpen, FileText } from 'lucide-react'
+import { DocumentPreview } from '@/components/shared/DocumentPreview'
+import type { RAGCitation, RAGQueryResult } from '@/lib/services/rag-query-pipeline'
 
 interface AIAssistPanelProps {
   editor: Editor | null
+  // Cited knowledge is recorded against the proposal so it can be flagged when a source is superseded
+  proposalId?: string
 }
 
-export default function AIAssistPanel({ editor }: AIAssistPanelProps) {
+interface SourcePreview {
+  fileName: string
+  fileType: string
+  fileUrl: string | null
+  initialPage?: number
+  highlightText: string
+}
+
+// Citation markers are for the writer, not the tender response
+const stripCitations = (text: string) => text.replace(/\s*\[\d+\]/g, '')
+
+export default function AIAssistPanel({ editor, proposalId }: AIAssistPanelProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [selectedFunction, setSelectedFunction] = useState<string | null>(null)
+  const [question, setQuestion] = useState('')
+  const [isAsking, setIsAsking] = useState(false)
+  const [answer, setAnswer] = useState<RAGQueryResult | null>(null)
+  const [askError, setAskError] = useState<string | null>(null)
+  const [preview, setPreview] = useState<SourcePreview | null>(null)
+  const [openingCitation, setOpeningCitation] = useState<number | null>(null)
 
   const getSelectedText = () => {
     if (!editor) return ''
@@ -62,6 +83,114 @@ export default function AIAssistPanel({ editor }: AIAssistPanelProps) {
     }
   }
 
+  const handleAsk = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!question.trim()) return
+
+    setIsAsking(true)
+    setAskError(null)
+
+    try {
+      const response = await fetch('/api/rag/query-pipeline', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: question.trim(),
+          // Selected text tells the pipeline what the answer is for
+          context: getSelectedText().slice(0, 2000) || undefined,
+          generation_options: { response_format: 'concise' }
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'The Knowledge Hub could not answer this question')
+      }
+
+      setAnswer(result)
+    } catch (error) {
+      console.error('Knowledge Hub question failed:', error)
+      setAskError(error instanceof Error ? error.message : 'The Knowledge Hub could not answer this question')
+    } finally {
+      setIsAsking(false)
+    }
+  }
+
+  const openCitation = async (citation: RAGCitation) => {
+    setOpeningCitation(citation.number)
+
+    try {
+      const response = await fetch(`/api/rag/documents/${citation.document_id}/preview`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to open source')
+      }
+
+      setPreview({
+        fileName: result.preview.fileName,
+        fileType: result.preview.fileType,
+        fileUrl: result.preview.fileUrl,
+        initialPage: citation.page_number ?? undefined,
+        highlightText: citation.excerpt
+      })
+    } catch (error) {
+      console.error('Failed to open source:', error)
+      setAskError('Failed to open the cited source')
+    } finally {
+      setOpeningCitation(null)
+    }
+  }
+
+  const insertAnswer = async () => {
+    if (!editor || !answer) return
+    editor.chain().focus().insertContent(stripCitations(answer.response)).run()
+
+    if (!proposalId || answer.citations.length === 0) return
+    try {
+      const response = await fetch('/api/rag/citations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          source_type: 'proposal',
+          source_id: proposalId,
+          citations: answer.citations.map(citation => ({
+            document_id: citation.document_id,
+            chunk_id: citation.chunk_id,
+            excerpt: citation.excerpt
+          }))
+        })
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to record citations: ${response.status}`)
+      }
+    } catch (error) {
+      // The answer is already in the draft; losing the citation record only affects review flags
+      console.error('Failed to record knowledge citations:', error)
+    }
+  }
+
+  const renderAnswer = (result: RAGQueryResult) => {
+    const citations = new Map(result.citations.map(citation => [citation.number, citation]))
+
+    return result.response.split(/(\[\d+\])/g).map((part, i) => {
+      const citation = citations.get(Number(part.match(/^\[(\d+)\]$/)?.[1]))
+      if (!citation) return <React.Fragment key={i}>{part}</React.Fragment>
+
+      return (
+        <button
+          key={i}
+          type="button"
+          onClick={() => openCitation(citation)}
+          className="mx-0.5 align-super text-[10px] font-semibold text-brand-primary hover:underline"
+          title={`${citation.document_title}${citation.page_number ? `, page ${citation.page_number}` : ''}`}
+        >
+          [{citation.number}]
+        </button>
+      )
+    })
+  }
+
   const AIButton = ({ 
     onClick, 
     icon: Icon, 
@@ -136,6 +265,89 @@ export default function AIAssistPanel({ editor }: AIAssistPanelProps) {
         />
       </div>
 
+      <div className="mt-6 pt-4 border-t border-gray-200">
+        <div className="flex items-center space-x-2 mb-3">
+          <BookOpen className="h-4 w-4 text-brand-primary" />
+          <h3 className="text-sm font-medium text-gray-900">Ask the Knowledge Hub</h3>
+        </div>
+
+        <form onSubmit={handleAsk} className="space-y-2">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="e.g. How often do staff complete safeguarding training?"
+            rows={2}
+            maxLength={1000}
+            className="w-full rounded-lg border border-gray-200 p-2 text-sm focus:border-brand-500 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isAsking || !question.trim()}
+            className="w-full flex items-center justify-center rounded-lg bg-brand-primary px-3 py-2 text-sm font-medium text-white disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isAsking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Ask'}
+          </button>
+        </form>
+
+        {askError && (
+          <p className="mt-2 text-xs text-red-600">{askError}</p>
+        )}
+
+        {answer && (
+          <div className="mt-3 space-y-3">
+            <div className="rounded-lg bg-gray-50 p-3 text-sm text-gray-800 whitespace-pre-wrap">
+              {renderAnswer(answer)}
+            </div>
+
+            {answer.citations.length > 0 && (
+              <ul className="space-y-1">
+                {answer.citations.map(citation => (
+                  <li key={citation.number}>
+                    <button
+                      type="button"
+                      onClick={() => openCitation(citation)}
+                      disabled={openingCitation === citation.number}
+                      className="flex w-full items-start space-x-2 rounded p-1 text-left text-xs text-gray-600 hover:bg-brand-50"
+                    >
+                      {openingCitation === citation.number
+                        ? <Loader2 className="mt-0.5 h-3 w-3 flex-shrink-0 animate-spin" />
+                        : <FileText className="mt-0.5 h-3 w-3 flex-shrink-0" />}
+                      <span>
+                        [{citation.number}] {citation.document_title}
+                        {citation.section_title && ` · ${citation.section_title}`}
+                        {citation.page_number && ` · page ${citation.page_number}`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>Confidence {Math.round(answer.confidence_score * 100)}%</span>
+              {editor && answer.citations.length > 0 && (
+                <button type="button" onClick={insertAnswer} className="font-medium text-brand-primary hover:underline">
+                  Insert into draft
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {preview && (
+        <DocumentPreview
+          filePath=""
+          fileName={preview.fileName}
+          fileType={preview.fileType}
+          fileUrl={preview.fileUrl ?? undefined}
+          isOpen={true}
+          onClose={() => setPreview(null)}
+          initialPage={preview.initialPage}
+          highlightText={preview.highlightText}
+        />
+      )}
+
       {!editor && (
         <div className="mt-4 text-xs text-gray-400 text-center">
           Editor loading...
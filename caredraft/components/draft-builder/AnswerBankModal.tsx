@@ -8,14 +8,23 @@ import {
   Star, 
 //  Clock, 
   Copy,
-  Eye
+  Eye,
+  AlertTriangle
 } from 'lucide-react'
 import AdvancedSearchInterface from '../answer-bank/AdvancedSearchInterface'
+import { getFreshnessStatus } from '@/lib/services/answer-bank'
+import type { AnswerBankWithStats, AnswerFreshnessStatus } from '@/lib/types/answer-bank.types'
 
 interface AnswerBankModalProps {
   isOpen: boolean
   onClose: () => void
   onInsert: (content: string) => void
+  // Tender workflow the answer is being inserted into, for effectiveness tracking
+  tenderId?: string
+  // Tender question being answered, so evaluator scores can be credited to the answer
+  tenderQuestionId?: string
+  // Draft the answer is inserted into; it inherits the answer's knowledge citations
+  proposalId?: string
 }
 
 interface Answer {
@@ -33,6 +42,57 @@ interface Answer {
   updated_at: string
   is_template: boolean
   tags?: string[]
+  freshness: AnswerFreshnessStatus
+  expires_at?: string | null
+  next_review_at?: string | null
+}
+
+const LIST_SORT_FIELDS: Record<string, string> = {
+  usage: 'usage_count',
+  recent: 'updated_at',
+  rating: 'popularity_score',
+  title: 'title'
+}
+
+function toModalAnswer(row: AnswerBankWithStats): Answer {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    category: row.category_id && row.category_name
+      ? { id: row.category_id, name: row.category_name, color: row.category_color }
+      : undefined,
+    usage_count: row.usage_count,
+    average_rating: Number(row.avg_rating ?? 0),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    is_template: row.is_template,
+    tags: row.tags,
+    freshness: getFreshnessStatus(row),
+    expires_at: row.expires_at,
+    next_review_at: row.next_review_at
+  }
+}
+
+// Expired answers need confirming before use; overdue reviews are flagged
+function FreshnessWarning({ answer }: { answer: Answer }) {
+  if (answer.freshness === 'expired') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Expired
+      </span>
+    )
+  }
+  if (answer.freshness === 'review_due') {
+    return (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Review overdue
+      </span>
+    )
+  }
+  return null
 }
 
 interface SearchFilter {
@@ -47,7 +107,7 @@ interface SearchFilter {
   sort_order?: 'asc' | 'desc'
 }
 
-export default function AnswerBankModal({ isOpen, onClose, onInsert }: AnswerBankModalProps) {
+export default function AnswerBankModal({ isOpen, onClose, onInsert, tenderId, tenderQuestionId, proposalId }: AnswerBankModalProps) {
   const [answers, setAnswers] = useState<Answer[]>([])
   const [loading, setLoading] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
@@ -73,17 +133,17 @@ export default function AnswerBankModal({ isOpen, onClose, onInsert }: AnswerBan
     setLoading(true)
     try {
       const params = new URLSearchParams()
-      if (searchTerm) params.append('search', searchTerm)
+      if (searchTerm) params.append('query', searchTerm)
       if (selectedCategory) params.append('category_id', selectedCategory)
-      params.append('sort_by', sortBy)
-      params.append('sort_order', sortBy === 'recent' ? 'desc' : 'desc')
-      params.append('limit', '20')
+      params.append('sort_by', LIST_SORT_FIELDS[sortBy])
+      params.append('sort_order', sortBy === 'title' ? 'asc' : 'desc')
+      params.append('per_page', '20')
 
       const response = await fetch(`/api/answers?${params}`)
       const result = await response.json()
       
       if (result.success) {
-        setAnswers(result.data.answers || [])
+        setAnswers((result.data || []).map(toModalAnswer))
       } else {
         console.error('Failed to load answers:', result.error)
       }
@@ -109,22 +169,19 @@ export default function AnswerBankModal({ isOpen, onClose, onInsert }: AnswerBan
       if (filters.is_template !== undefined) {
         searchParams.append('is_template', String(filters.is_template))
       }
-      if (filters.min_rating !== undefined) {
-        searchParams.append('min_rating', String(filters.min_rating))
-      }
       if (filters.sort_by) {
-        searchParams.append('sort_by', filters.sort_by)
+        searchParams.append('sort_by', LIST_SORT_FIELDS[filters.sort_by] ?? filters.sort_by)
         searchParams.append('sort_order', filters.sort_order || 'desc')
       } else {
-        searchParams.append('sort_by', sortBy === 'usage' ? 'usage_count' : sortBy)
+        searchParams.append('sort_by', LIST_SORT_FIELDS[sortBy])
         searchParams.append('sort_order', 'desc')
       }
       
-      const response = await fetch(`/api/answers/search?${searchParams}`)
+      const response = await fetch(`/api/answers?${searchParams}`)
       const result = await response.json()
       
       if (result.success) {
-        setAnswers(result.data.answers || [])
+        setAnswers((result.data || []).map(toModalAnswer))
       }
     } catch (error) {
       console.error('Search error:', error)
@@ -134,12 +191,24 @@ export default function AnswerBankModal({ isOpen, onClose, onInsert }: AnswerBan
   }
 
   const handleInsert = async (answer: Answer) => {
+    if (
+      answer.freshness === 'expired' &&
+      !confirm(`"${answer.title}" has expired and may contain out-of-date figures. Insert it anyway?`)
+    ) {
+      return
+    }
+
     // Track usage
     try {
       await fetch(`/api/answers/${answer.id}/use`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ context: 'proposal_draft' })
+        body: JSON.stringify({
+          context: 'proposal_draft',
+          tender_workflow_id: tenderId,
+          tender_question_id: tenderQuestionId,
+          proposal_id: proposalId
+        })
       })
     } catch (error) {
       console.error('Error tracking usage:', error)
@@ -249,6 +318,7 @@ export default function AnswerBankModal({ isOpen, onClose, onInsert }: AnswerBan
                                 Template
                               </span>
                             )}
+                            <FreshnessWarning answer={answer} />
                             {answer.category && (
                               <span 
                                 className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium"
@@ -338,6 +408,17 @@ export default function AnswerBankModal({ isOpen, onClose, onInsert }: AnswerBan
                     )}
                   </div>
                   
+                  {previewAnswer.freshness === 'expired' && (
+                    <p className="text-xs text-red-700">
+                      This answer expired{previewAnswer.expires_at ? ` on ${formatDate(previewAnswer.expires_at)}` : ''}. Check staffing figures, ratings and dates before using it.
+                    </p>
+                  )}
+                  {previewAnswer.freshness === 'review_due' && (
+                    <p className="text-xs text-amber-700">
+                      This answer was due for review{previewAnswer.next_review_at ? ` on ${formatDate(previewAnswer.next_review_at)}` : ''}.
+                    </p>
+                  )}
+
                   <div className="prose prose-sm max-w-none">
                     <div className="text-sm text-gray-700 whitespace-pre-wrap">
                       {previewAnswer.content}
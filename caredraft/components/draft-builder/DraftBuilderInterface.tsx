@@ -1,7 +1,8 @@
 'use client'
 
-import React, { useEffect, useState } from 'react'
+import React, { useCallback, useEffect, useState } from 'react'
 import { useEditor, EditorContent } from '@tiptap/react'
+import type { Editor } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Underline from '@tiptap/extension-underline'
 import { PenTool, ArrowLeft, Save, Download, ChevronDown } from 'lucide-react'
@@ -11,19 +12,47 @@ import AIAssistPanel from './AIAssistPanel'
 import UtilityPanel from './UtilityPanel'
 import WordCountDisplay from './WordCountDisplay'
 import ExportActionsModal from './ExportActionsModal'
+import OutdatedCitationsBanner from './OutdatedCitationsBanner'
+import SuggestionsPanel from './SuggestionsPanel'
+import SectionNavigator from './SectionNavigator'
 import ProposalStatusBadge from '@/components/proposal-workflow/ProposalStatusBadge'
 import StatusHistoryPanel from '@/components/proposal-workflow/StatusHistoryPanel'
+import { CollaborativeSectionEditor } from '@/components/collaboration/CollaborativeSectionEditor'
+import { CommentSystem } from '@/components/collaboration/CommentSystem'
+import { useAuth } from '@/components/providers/MinimalAuthProvider'
 import useProposalWorkflow from '@/lib/hooks/useProposalWorkflow'
 import { useLoadingState } from '@/hooks/useLoadingState'
+import { useVersionControl } from '@/hooks/useAutoSave'
+import { useSuggestionAccess } from '@/hooks/useSuggestionAccess'
+import { TrackChanges } from '@/lib/editor/track-changes'
 import { LoadingButton } from '@/components/ui/loading-button'
+import { flattenSectionTree, getSection, type SectionWithChildren } from '@/lib/sections'
 
 interface DraftBuilderInterfaceProps {
   proposalId?: string
+  // Tender workflow being drafted; answer bank insertions are credited to it
+  tenderId?: string
+  // Section to open, and a comment on it to show; set by comment notifications
+  sectionId?: string
+  commentId?: string
 }
 
-export default function DraftBuilderInterface({ proposalId }: DraftBuilderInterfaceProps) {
+export default function DraftBuilderInterface({ proposalId, tenderId, sectionId, commentId }: DraftBuilderInterfaceProps) {
+  const { user } = useAuth()
   const [isMounted, setIsMounted] = useState(false)
   const [isExportModalOpen, setIsExportModalOpen] = useState(false)
+  const [sections, setSections] = useState<SectionWithChildren[]>([])
+  const [sectionsLoading, setSectionsLoading] = useState(false)
+  const [sectionsError, setSectionsError] = useState<string | null>(null)
+  const [generatingSections, setGeneratingSections] = useState(false)
+  const [activeSectionId, setActiveSectionId] = useState<string | null>(sectionId ?? null)
+  // Notification links carry the section but not its tender
+  const [sectionTenderId, setSectionTenderId] = useState<string | null>(null)
+  const draftTenderId = tenderId ?? sectionTenderId
+  // A tender section is edited in the co-editing editor, which reports itself
+  // and its merged content back so the toolbar, panels and comments follow it
+  const [sectionEditor, setSectionEditor] = useState<Editor | null>(null)
+  const [sectionContent, setSectionContent] = useState<string | null>(null)
   
   // Initialize loading state for save operations
   const saveState = useLoadingState({
@@ -42,10 +71,14 @@ export default function DraftBuilderInterface({ proposalId }: DraftBuilderInterf
     refreshInterval: 30000,
   })
 
+  // Viewers and assigned reviewers suggest changes rather than making them
+  const suggestionAccess = useSuggestionAccess(proposalId)
+
   const editor = useEditor({
     extensions: [
       StarterKit,
       Underline,
+      TrackChanges,
     ],
     content: `
       <h1>Proposal Draft</h1>
@@ -67,27 +100,92 @@ export default function DraftBuilderInterface({ proposalId }: DraftBuilderInterf
       },
     },
     immediatelyRender: false,
-    onUpdate: ({ editor: _editor }) => {
-      // Auto-save functionality could be added here
-      // Reset any success state when content changes
-      if (saveState.data) {
-        saveState.reset()
-      }
-    },
-  }, [saveState])
+  })
 
   useEffect(() => {
     setIsMounted(true)
   }, [])
 
+  // The tender's sections; answers inserted while one is open are credited to its question
+  const loadSections = useCallback(async () => {
+    if (!draftTenderId) return
+
+    try {
+      setSectionsLoading(true)
+      setSectionsError(null)
+      const response = await fetch(`/api/tender/${draftTenderId}/sections`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load sections')
+      const tree = (data.sections || []) as SectionWithChildren[]
+      setSections(tree)
+      setActiveSectionId(current => current ?? flattenSectionTree(tree).find(section => section.tender_question_id)?.id ?? null)
+    } catch (error) {
+      setSectionsError(error instanceof Error ? error.message : 'Failed to load sections')
+    } finally {
+      setSectionsLoading(false)
+    }
+  }, [draftTenderId])
+
+  useEffect(() => {
+    loadSections()
+  }, [loadSections])
+
+  // One section per confirmed question, nested by section reference
+  const generateSections = async () => {
+    if (!draftTenderId) return
+
+    try {
+      setGeneratingSections(true)
+      setSectionsError(null)
+      const response = await fetch(`/api/tender/${draftTenderId}/sections`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to generate sections')
+      const tree = (data.sections || []) as SectionWithChildren[]
+      setSections(tree)
+      setActiveSectionId(current => current ?? flattenSectionTree(tree).find(section => section.tender_question_id)?.id ?? null)
+    } catch (error) {
+      setSectionsError(error instanceof Error ? error.message : 'Failed to generate sections')
+    } finally {
+      setGeneratingSections(false)
+    }
+  }
+
+  useEffect(() => {
+    if (tenderId || !sectionId) return
+
+    getSection(sectionId)
+      .then(section => {
+        if (!section?.project_id) throw new Error('Section not found')
+        setSectionTenderId(section.project_id)
+      })
+      .catch(error => setSectionsError(error instanceof Error ? error.message : 'Section not found'))
+  }, [tenderId, sectionId])
+
+  const activeSection = flattenSectionTree(sections).find(section => section.id === activeSectionId) ?? null
+  const tenderQuestionId = activeSection?.tender_question_id ?? undefined
+  const activeEditor = activeSection ? sectionEditor : editor
+
+  const selectSection = (id: string) => {
+    setActiveSectionId(id)
+    setSectionContent(null)
+  }
+
+  // Save Draft records the open section as a manual version
+  const { createVersion } = useVersionControl(activeSection?.id ?? '')
+  const { reset: resetSaveState } = saveState
+
+  useEffect(() => {
+    resetSaveState()
+  }, [sectionContent, resetSaveState])
+
   const handleSave = async () => {
-    if (!editor) return
+    if (!activeSection || sectionContent === null) return
     
     try {
       await saveState.execute(async () => {
-        // Simulate save operation
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        return { message: 'Draft saved successfully' }
+        const versionNumber = await createVersion(sectionContent, 'Saved from the draft builder')
+        if (versionNumber === null) throw new Error('Failed to save draft')
+        return { message: 'Draft saved successfully', versionNumber }
       })
     } catch (error) {
       // Error is already handled by the loading state hook
@@ -158,6 +256,7 @@ export default function DraftBuilderInterface({ proposalId }: DraftBuilderInterf
               <LoadingButton
                 onClick={handleSave}
                 isLoading={saveState.isLoading}
+                disabled={!activeSection || sectionContent === null}
                 variant={saveState.error ? "destructive" : saveState.data ? "default" : "outline"}
                 className={saveState.data ? "border-green-200 bg-green-50 text-green-700" : ""}
                 loadingText="Saving..."
@@ -197,58 +296,99 @@ export default function DraftBuilderInterface({ proposalId }: DraftBuilderInterf
               </div>
             )}
             
+            {draftTenderId && (
+              <SectionNavigator
+                sections={sections}
+                activeSectionId={activeSectionId}
+                onSelect={selectSection}
+                loading={sectionsLoading}
+                error={sectionsError}
+                onGenerate={generateSections}
+                generating={generatingSections}
+              />
+            )}
+
             {/* AI Assist */}
             <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
               <div className="p-4">
                 <h3 className="text-sm font-medium text-gray-900 mb-3">AI Tools</h3>
-                <AIAssistPanel editor={editor} />
+                <AIAssistPanel editor={activeEditor} proposalId={proposalId} />
               </div>
             </div>
             
+            {/* Suggested changes */}
+            <SuggestionsPanel
+              editor={activeEditor}
+              author={suggestionAccess.author}
+              mustSuggest={suggestionAccess.mustSuggest}
+              canResolve={suggestionAccess.canResolve}
+            />
+
             {/* Utility Tools */}
-            <UtilityPanel editor={editor} />
+            <UtilityPanel editor={activeEditor} tenderId={draftTenderId ?? undefined} tenderQuestionId={tenderQuestionId} proposalId={proposalId} />
             
             {/* Document Stats */}
-            <WordCountDisplay editor={editor} />
+            <WordCountDisplay editor={activeEditor} />
           </div>
 
           {/* Editor Area */}
           <div className="lg:col-span-3">
-            <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
-              {/* Toolbar */}
-              <EditorToolbar editor={editor} />
-
-              {/* Editor */}
-              <div className="relative">
-                <EditorContent 
-                  editor={editor}
-                  className="min-h-[600px] focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2"
+            {proposalId && <OutdatedCitationsBanner proposalId={proposalId} />}
+            {activeSection ? (
+              <div className="space-y-4">
+                <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+                  <EditorToolbar editor={sectionEditor} tenderId={draftTenderId ?? undefined} tenderQuestionId={tenderQuestionId} proposalId={proposalId} />
+                </div>
+                <CollaborativeSectionEditor
+                  key={activeSection.id}
+                  sectionId={activeSection.id}
+                  onEditorChange={setSectionEditor}
+                  onContentChange={setSectionContent}
                 />
-                
-                {/* Status bar */}
-                <div className="absolute bottom-0 left-0 right-0 bg-gray-50 border-t border-gray-200 px-4 py-2 flex items-center justify-between text-xs text-gray-500">
-                  <div className="flex items-center space-x-4">
-                    <span>{editor?.getText().length || 0} characters</span>
-                    <span>•</span>
-                    <span>{editor?.getText().trim().split(/\s+/).length || 0} words</span>
-                    {proposalId && (
-                      <>
-                        <span>•</span>
-                        <span>Proposal ID: {proposalId}</span>
-                      </>
-                    )}
-                  </div>
-                  <div>
-                    {saveState.data !== null && saveState.data !== undefined && (
-                      <span className="text-green-600">Document saved</span>
-                    )}
-                    {saveState.error && (
-                      <span className="text-red-600">Save failed</span>
-                    )}
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg border border-gray-200 shadow-sm overflow-hidden">
+                {/* Toolbar */}
+                <EditorToolbar editor={editor} tenderId={draftTenderId ?? undefined} tenderQuestionId={tenderQuestionId} proposalId={proposalId} />
+
+                {/* Editor */}
+                <div className="relative">
+                  <EditorContent 
+                    editor={editor}
+                    className="min-h-[600px] focus:outline-none focus:ring-2 focus:ring-brand-500 focus:ring-offset-2"
+                  />
+                  
+                  {/* Status bar */}
+                  <div className="absolute bottom-0 left-0 right-0 bg-gray-50 border-t border-gray-200 px-4 py-2 flex items-center justify-between text-xs text-gray-500">
+                    <div className="flex items-center space-x-4">
+                      <span>{editor?.getText().length || 0} characters</span>
+                      <span>•</span>
+                      <span>{editor?.getText().trim().split(/\s+/).length || 0} words</span>
+                      {proposalId && (
+                        <>
+                          <span>•</span>
+                          <span>Proposal ID: {proposalId}</span>
+                        </>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
+            )}
+
+            {/* Comments on the open section; select its text to comment on it */}
+            {activeSection && user && (
+              <div className="mt-6 bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+                <h3 className="text-sm font-medium text-gray-900 mb-4">Comments on {activeSection.title}</h3>
+                <CommentSystem
+                  key={activeSection.id}
+                  sectionId={activeSection.id}
+                  content={sectionContent ?? activeSection.content ?? ''}
+                  currentUserId={user.id}
+                  focusCommentId={activeSection.id === sectionId ? commentId : undefined}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -257,7 +397,8 @@ export default function DraftBuilderInterface({ proposalId }: DraftBuilderInterf
       <ExportActionsModal 
         isOpen={isExportModalOpen}
         onClose={() => setIsExportModalOpen(false)}
-        editor={editor}
+        editor={activeEditor}
+        proposalId={proposalId}
       />
     </div>
   )
@@ -7,9 +7,12 @@ import AnswerBankModal from './AnswerBankModal'
 
 interface EditorToolbarProps {
   editor: Editor | null
+  tenderId?: string
+  tenderQuestionId?: string
+  proposalId?: string
 }
 
-export default function EditorToolbar({ editor }: EditorToolbarProps) {
+export default function EditorToolbar({ editor, tenderId, tenderQuestionId, proposalId }: EditorToolbarProps) {
   const [isAnswerBankOpen, setIsAnswerBankOpen] = useState(false)
 
   if (!editor) {
@@ -78,6 +81,9 @@ export default function EditorToolbar({ editor }: EditorToolbarProps) {
         isOpen={isAnswerBankOpen}
         onClose={() => setIsAnswerBankOpen(false)}
         onInsert={handleInsertAnswer}
+        tenderId={tenderId}
+        tenderQuestionId={tenderQuestionId}
+        proposalId={proposalId}
       />
     </>
   )
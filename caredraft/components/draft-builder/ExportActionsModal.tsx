@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useRef, useEffect } from 'react'
+import React, { useState, useRef, useEffect, useCallback } from 'react'
 import { Editor } from '@tiptap/react'
 import { 
   X, 
@@ -13,41 +13,34 @@ import {
   Share2,
   FileDown,
   Save,
-  SendHorizontal
+  SendHorizontal,
+  History,
+  Link2,
+  Copy
 } from 'lucide-react'
-import { DocumentExportService, type ExportOptions, type ProposalExportData, type ExportResult } from '@/lib/services/export'
+import {
+  DocumentExportService,
+  splitHtmlSections,
+  type ExportOptions,
+  type ProposalExportData,
+  type ExportResult
+} from '@/lib/services/export'
+import type { DocumentShareLink, ExportedDocumentMetadata } from '@/lib/services/document-storage'
+import { complianceExtractionService } from '@/lib/services/compliance-extraction'
+import type { OrganizationSettings } from '@/lib/services/organization-service'
+import { useAuth } from '@/components/providers/MinimalAuthProvider'
+import { usePermissions } from '@/hooks/usePermissions'
 
 interface ExportActionsModalProps {
   isOpen: boolean
   onClose: () => void
   editor: Editor | null
+  proposalId?: string
 }
 
 type ExportFormat = 'pdf' | 'docx'
 type ExportAction = 'save-draft' | 'submit-review' | 'export-download' | 'export-email'
 
-interface StoredDocumentData {
-  originalTitle: string
-  exportFormat: ExportFormat
-  fileSize: number
-  id: string
-  filePath: string
-  downloadCount: number
-  version: number
-  createdAt: string
-  updatedAt: string
-  organizationId: string
-  userId: string
-  proposalId: string
-  metadata: {
-    exportedAt: string
-    exportOptions: ExportOptions
-    processingTime: number
-    userAgent: string
-  }
-  isPublic: boolean
-}
-
 interface ExportProgress {
   action: ExportAction | null
   format?: ExportFormat
@@ -55,11 +48,27 @@ interface ExportProgress {
   progress: number
   message: string
   result?: ExportResult
-  storedDocument?: StoredDocumentData
+  storedDocument?: ExportedDocumentMetadata
   showEmailForm?: boolean
 }
 
-export default function ExportActionsModal({ isOpen, onClose, editor }: ExportActionsModalProps) {
+interface ShareFormState {
+  expiresInDays: number
+  allowDownload: boolean
+  requireAuthentication: boolean
+  maxDownloads: string
+  customMessage: string
+}
+
+const DEFAULT_SHARE_FORM: ShareFormState = {
+  expiresInDays: 7,
+  allowDownload: true,
+  requireAuthentication: false,
+  maxDownloads: '',
+  customMessage: ''
+}
+
+export default function ExportActionsModal({ isOpen, onClose, editor, proposalId }: ExportActionsModalProps) {
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('pdf')
   const [exportProgress, setExportProgress] = useState<ExportProgress>({
     action: null,
@@ -90,7 +99,35 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
     }
   })
 
+  const [exportHistory, setExportHistory] = useState<ExportedDocumentMetadata[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [shareTarget, setShareTarget] = useState<ExportedDocumentMetadata | null>(null)
+  const [shareForm, setShareForm] = useState<ShareFormState>(DEFAULT_SHARE_FORM)
+  const [shareLink, setShareLink] = useState<DocumentShareLink | null>(null)
+  const [shareError, setShareError] = useState<string | null>(null)
+  const [sharing, setSharing] = useState(false)
+
   const previewRef = useRef<HTMLDivElement>(null)
+  const { user } = useAuth()
+  const { getUserOrganizationId } = usePermissions()
+
+  // Load previously stored exports of this proposal
+  const loadExportHistory = useCallback(async () => {
+    if (!proposalId) return
+
+    setHistoryLoading(true)
+    try {
+      const response = await fetch(`/api/exports?proposalId=${encodeURIComponent(proposalId)}`)
+      if (response.ok) {
+        const { documents } = await response.json()
+        setExportHistory(documents)
+      }
+    } catch (error) {
+      console.error('Failed to load export history:', error)
+    } finally {
+      setHistoryLoading(false)
+    }
+  }, [proposalId])
 
   // Reset state when modal opens/closes
   useEffect(() => {
@@ -102,44 +139,69 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
         message: ''
       })
       setShowPreview(false)
+      setShareTarget(null)
+      setShareLink(null)
+      setShareError(null)
+    } else {
+      loadExportHistory()
     }
-  }, [isOpen])
+  }, [isOpen, loadExportHistory])
 
-  // Get proposal data from editor content
-  const getProposalData = (): ProposalExportData => {
+  // Get proposal data from editor content, with the proposal's compliance checklist
+  const getProposalData = async (): Promise<ProposalExportData> => {
     const content = editor?.getHTML() || ''
     const text = editor?.getText() || ''
     
     return {
-      id: `draft-${Date.now()}`,
+      id: proposalId || `draft-${Date.now()}`,
       title: extractTitle(text) || 'Draft Proposal',
       content,
       metadata: {
-        organization: 'CareDraft Organization',
-        author: 'Current User',
+        author: user?.user_metadata?.full_name || user?.email,
         createdAt: new Date().toISOString(),
         lastModified: new Date().toISOString(),
         version: '1.0'
       },
-      compliance: {
-        checklist: [
-          {
-            item: 'Content review completed',
-            status: 'complete',
-            notes: 'Content has been reviewed and formatted'
-          },
-          {
-            item: 'Export approval obtained',
-            status: 'complete',
-            notes: 'Ready for export'
-          }
-        ],
-        requirements: [
-          'Document must include all required sections',
-          'Content must be professionally formatted'
-        ]
-      },
-      sections: parseSections(content)
+      compliance: await loadCompliance(),
+      sections: splitHtmlSections(content)
+    }
+  }
+
+  // The proposal's compliance items as an export checklist
+  const loadCompliance = async (): Promise<ProposalExportData['compliance']> => {
+    if (!proposalId) return undefined
+
+    try {
+      const items = await complianceExtractionService.getComplianceItems(proposalId)
+      if (items.length === 0) return undefined
+
+      return {
+        checklist: items.map(item => ({
+          item: item.requirement,
+          status: item.completed ? 'complete' : 'incomplete',
+          notes: item.notes ?? undefined
+        })),
+        requirements: []
+      }
+    } catch (error) {
+      console.error('Failed to load compliance items for export:', error)
+      return undefined
+    }
+  }
+
+  // Branding from the organisation's settings
+  const loadBranding = async (): Promise<OrganizationSettings['branding'] | undefined> => {
+    const organizationId = getUserOrganizationId()
+    if (!organizationId) return undefined
+
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/settings`)
+      if (!response.ok) return undefined
+      const { data } = await response.json()
+      return data?.branding
+    } catch (error) {
+      console.error('Failed to load organisation branding:', error)
+      return undefined
     }
   }
 
@@ -149,25 +211,6 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
     return lines.length > 0 ? lines[0].trim() : null
   }
 
-  // Parse content into sections
-  const parseSections = (content: string): Array<{ id: string; title: string; content: string; order: number }> => {
-    const sections: Array<{ id: string; title: string; content: string; order: number }> = []
-    const parser = new DOMParser()
-    const doc = parser.parseFromString(content, 'text/html')
-    const headings = doc.querySelectorAll('h1, h2, h3')
-    
-    headings.forEach((heading, index) => {
-      sections.push({
-        id: `section-${index + 1}`,
-        title: heading.textContent || `Section ${index + 1}`,
-        content: heading.outerHTML,
-        order: index + 1
-      })
-    })
-
-    return sections
-  }
-
   // Handle export action
   const handleExport = async (action: ExportAction, format?: ExportFormat) => {
     if (!editor) return
@@ -193,12 +236,13 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
       }))
 
       // Get proposal data
-      const proposalData = getProposalData()
+      const [proposalData, branding] = await Promise.all([getProposalData(), loadBranding()])
 
       // Update export options with selected format
       const options: ExportOptions = {
         ...exportOptions,
-        format: currentFormat
+        format: currentFormat,
+        branding
       }
 
       // Get export service and generate document
@@ -217,13 +261,20 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
       clearInterval(progressInterval)
 
       if (result.success && result.data) {
+        // Keep a copy of every export so the exact file can be downloaded again
+        setExportProgress(prev => ({ ...prev, progress: 90, message: 'Saving to export history...' }))
+        const storedDocument = await storeExport(result, proposalData.title, currentFormat, options)
+
         setExportProgress({
           action,
           format: currentFormat,
           status: 'completed',
           progress: 100,
-          message: 'Export completed successfully!',
-          result
+          message: storedDocument
+            ? `Export completed and saved as version ${storedDocument.version}`
+            : 'Export completed, but it could not be saved to export history',
+          result,
+          storedDocument: storedDocument ?? undefined
         })
 
         // Handle different actions
@@ -237,8 +288,10 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
             handleDownload(result.data.blob, result.data.filename)
             break
           case 'export-email':
-            // Store document and show email form
-            await handleStoreAndEmail(result.data.blob, result.data.filename, currentFormat)
+            // Email the stored copy so recipients get exactly what was saved
+            if (storedDocument) {
+              setExportProgress(prev => ({ ...prev, showEmailForm: true }))
+            }
             break
         }
 
@@ -275,82 +328,79 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
     URL.revokeObjectURL(url)
   }
 
-  // Handle storing document and preparing for email
-  const handleStoreAndEmail = async (blob: Blob, filename: string, format: ExportFormat) => {
+  // Store an export in the proposal's export history
+  const storeExport = async (
+    result: ExportResult,
+    title: string,
+    format: ExportFormat,
+    options: ExportOptions
+  ): Promise<ExportedDocumentMetadata | null> => {
+    if (!result.data) return null
+
     try {
-      setExportProgress(prev => ({
-        ...prev,
-        message: 'Storing document securely...',
-        progress: 85
+      const formData = new FormData()
+      formData.append('file', new File([result.data.blob], result.data.filename, { type: result.data.blob.type }))
+      formData.append('title', title)
+      formData.append('format', format)
+      if (proposalId) formData.append('proposalId', proposalId)
+      formData.append('metadata', JSON.stringify({
+        exportedAt: result.metadata.generatedAt,
+        exportOptions: options,
+        processingTime: result.metadata.processingTime,
+        userAgent: navigator.userAgent
       }))
 
-      // Note: This would require user authentication context in a real implementation
-      const mockUserId = 'current-user-id'
-      const mockOrgId = 'current-org-id'
-      
-      const proposalData = getProposalData()
-      
-      // Prepare document metadata
-      const documentMetadata = {
-        filename,
-        originalTitle: proposalData.title,
-        exportFormat: format,
-        organizationId: mockOrgId,
-        userId: mockUserId,
-        proposalId: proposalData.id,
-        fileSize: blob.size,
-        metadata: {
-          exportedAt: new Date().toISOString(),
-          exportOptions: exportOptions,
-          processingTime: 1000, // Default processing time
-          userAgent: navigator.userAgent
-        },
-        isPublic: false
+      const response = await fetch('/api/exports', { method: 'POST', body: formData })
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to store export')
       }
 
-      // Store document (this would use the actual service in real implementation)
-      // const storageResult = await storageService.storeExportedDocument(blob, documentMetadata)
-      
-      // For now, simulate successful storage
-      const simulatedStorageResult = {
-        success: true,
-        data: {
-          ...documentMetadata,
-          id: `doc-${Date.now()}`,
-          filePath: `exports/${mockUserId}/${filename}`,
-          downloadCount: 0,
-          version: 1,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      }
+      const { document: storedDocument } = await response.json()
+      setExportHistory(prev => [storedDocument, ...prev.filter(doc => doc.id !== storedDocument.id)])
+      return storedDocument
+    } catch (error) {
+      console.error('Failed to store export:', error)
+      return null
+    }
+  }
 
-      if (simulatedStorageResult.success) {
-        setExportProgress(prev => ({
-          ...prev,
-          message: 'Document stored successfully! Prepare email...',
-          progress: 100,
-          storedDocument: simulatedStorageResult.data
-        }))
+  // Open the share form for a stored export
+  const openShareForm = (storedDocument: ExportedDocumentMetadata) => {
+    setShareTarget(storedDocument)
+    setShareForm(DEFAULT_SHARE_FORM)
+    setShareLink(null)
+    setShareError(null)
+  }
 
-        // Show email form after successful storage
-        setTimeout(() => {
-          setExportProgress(prev => ({
-            ...prev,
-            showEmailForm: true
-          }))
-        }, 1000)
-      } else {
-        throw new Error('Failed to store document')
-      }
+  // Create a share link for the selected export
+  const handleCreateShareLink = async () => {
+    if (!shareTarget) return
 
+    setSharing(true)
+    setShareError(null)
+    try {
+      const maxDownloads = parseInt(shareForm.maxDownloads, 10)
+      const response = await fetch(`/api/exports/${shareTarget.id}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          expiresAt: new Date(Date.now() + shareForm.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+          allowDownload: shareForm.allowDownload,
+          requireAuthentication: shareForm.requireAuthentication,
+          maxDownloads: Number.isNaN(maxDownloads) ? undefined : maxDownloads,
+          customMessage: shareForm.customMessage.trim() || undefined
+        })
+      })
+
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to create share link')
+      }
+      setShareLink(body.share)
     } catch (error) {
-      setExportProgress(prev => ({
-        ...prev,
-        status: 'error',
-        message: error instanceof Error ? error.message : 'Failed to store document',
-        progress: 0
-      }))
+      setShareError(error instanceof Error ? error.message : 'Failed to create share link')
+    } finally {
+      setSharing(false)
     }
   }
 
@@ -536,6 +586,163 @@ export default function ExportActionsModal({ isOpen, onClose, editor }: ExportAc
               </div>
             </div>
 
+            {/* Export History */}
+            {proposalId && (
+              <div className="mt-6 border border-gray-200 rounded-lg">
+                <div className="px-4 py-3 bg-gray-50 border-b border-gray-200 flex items-center space-x-2">
+                  <History className="h-4 w-4 text-gray-500" />
+                  <h4 className="text-sm font-medium text-gray-900">Previous Exports</h4>
+                </div>
+                <div className="divide-y divide-gray-100 max-h-56 overflow-y-auto">
+                  {historyLoading && exportHistory.length === 0 && (
+                    <div className="p-4 text-sm text-gray-500 flex items-center space-x-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span>Loading export history...</span>
+                    </div>
+                  )}
+                  {!historyLoading && exportHistory.length === 0 && (
+                    <div className="p-4 text-sm text-gray-500">No exports yet. Every export is saved here.</div>
+                  )}
+                  {exportHistory.map(storedDocument => (
+                    <div key={storedDocument.id} className="px-4 py-3 flex items-center justify-between">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">
+                          v{storedDocument.version} · {storedDocument.originalTitle}
+                        </div>
+                        <div className="text-xs text-gray-500 flex items-center space-x-3">
+                          <span>{storedDocument.exportFormat.toUpperCase()}</span>
+                          <span>{new Date(storedDocument.createdAt).toLocaleString('en-GB')}</span>
+                          <span>{(storedDocument.fileSize / 1024).toFixed(1)} KB</span>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <a
+                          href={`/api/exports/${storedDocument.id}/download`}
+                          className="inline-flex items-center space-x-1 px-2 py-1 text-xs text-brand-primary-dark border border-gray-200 rounded hover:bg-gray-50"
+                        >
+                          <Download className="h-3 w-3" />
+                          <span>Download</span>
+                        </a>
+                        <button
+                          onClick={() => openShareForm(storedDocument)}
+                          className="inline-flex items-center space-x-1 px-2 py-1 text-xs text-brand-primary-dark border border-gray-200 rounded hover:bg-gray-50"
+                        >
+                          <Link2 className="h-3 w-3" />
+                          <span>Share</span>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Share Link Form */}
+            {shareTarget && (
+              <div className="mt-6 border border-gray-200 rounded-lg">
+                <div className="px-4 py-3 bg-brand-primary-light border-b border-gray-200 flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Link2 className="h-4 w-4 text-brand-primary" />
+                    <h4 className="text-sm font-medium text-gray-900">
+                      Share v{shareTarget.version} · {shareTarget.originalTitle}
+                    </h4>
+                  </div>
+                  <button onClick={() => setShareTarget(null)} className="text-gray-400 hover:text-gray-600">
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="p-4 space-y-3">
+                  {shareLink ? (
+                    <div className="space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <input
+                          readOnly
+                          value={shareLink.shareUrl}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-gray-50"
+                        />
+                        <button
+                          onClick={() => navigator.clipboard.writeText(shareLink.shareUrl)}
+                          className="inline-flex items-center space-x-1 px-3 py-2 text-sm text-white bg-brand-primary rounded hover:bg-brand-primary-dark"
+                        >
+                          <Copy className="h-4 w-4" />
+                          <span>Copy</span>
+                        </button>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Expires {new Date(shareLink.expiresAt).toLocaleString('en-GB')}
+                        {shareLink.requireAuthentication && ' · Sign-in required'}
+                        {!shareLink.allowDownload && ' · View only'}
+                        {shareLink.maxDownloads && ` · Up to ${shareLink.maxDownloads} downloads`}
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Expires after</label>
+                          <select
+                            value={shareForm.expiresInDays}
+                            onChange={e => setShareForm(prev => ({ ...prev, expiresInDays: Number(e.target.value) }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          >
+                            <option value={1}>1 day</option>
+                            <option value={7}>7 days</option>
+                            <option value={30}>30 days</option>
+                            <option value={90}>90 days</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Download limit</label>
+                          <input
+                            type="number"
+                            min={1}
+                            placeholder="Unlimited"
+                            value={shareForm.maxDownloads}
+                            onChange={e => setShareForm(prev => ({ ...prev, maxDownloads: e.target.value }))}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                          />
+                        </div>
+                      </div>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={shareForm.allowDownload}
+                          onChange={e => setShareForm(prev => ({ ...prev, allowDownload: e.target.checked }))}
+                        />
+                        <span>Allow download</span>
+                      </label>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={shareForm.requireAuthentication}
+                          onChange={e => setShareForm(prev => ({ ...prev, requireAuthentication: e.target.checked }))}
+                        />
+                        <span>Require recipients to sign in</span>
+                      </label>
+                      <textarea
+                        rows={2}
+                        placeholder="Message for recipients (optional)"
+                        value={shareForm.customMessage}
+                        onChange={e => setShareForm(prev => ({ ...prev, customMessage: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      />
+                      {shareError && <div className="text-sm text-red-600">{shareError}</div>}
+                      <div className="flex justify-end">
+                        <button
+                          onClick={handleCreateShareLink}
+                          disabled={sharing}
+                          className="inline-flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-brand-primary rounded hover:bg-brand-primary-dark disabled:opacity-50"
+                        >
+                          {sharing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+                          <span>Create Share Link</span>
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Preview Section */}
             {showPreview && (
               <div className="mt-6 border border-gray-200 rounded-lg">
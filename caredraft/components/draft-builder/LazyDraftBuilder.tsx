@@ -67,7 +67,12 @@ const DynamicDraftBuilderInterface = dynamic(
 );
 
 // Main lazy draft builder component
-export default function LazyDraftBuilder(props: { proposalId?: string }) {
+export default function LazyDraftBuilder(props: {
+  proposalId?: string;
+  tenderId?: string;
+  sectionId?: string;
+  commentId?: string;
+}) {
   return (
     <Suspense fallback={<DraftBuilderSkeleton />}>
       <DynamicDraftBuilderInterface {...props} />
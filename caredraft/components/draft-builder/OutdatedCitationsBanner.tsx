@@ -0,0 +1,105 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react'
+import type { FlaggedCitation } from '@/lib/services/knowledge-citations'
+
+interface OutdatedCitationsBannerProps {
+  proposalId: string
+}
+
+// Warns when the draft cites Knowledge Hub text from a document that has since been replaced
+export default function OutdatedCitationsBanner({ proposalId }: OutdatedCitationsBannerProps) {
+  const [citations, setCitations] = useState<FlaggedCitation[]>([])
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [isReviewing, setIsReviewing] = useState(false)
+
+  const loadCitations = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ source_type: 'proposal', source_id: proposalId })
+      const response = await fetch(`/api/rag/citations?${params}`)
+      if (!response.ok) return
+
+      const result = await response.json()
+      setCitations(result.citations)
+    } catch (error) {
+      console.error('Failed to load flagged citations:', error)
+    }
+  }, [proposalId])
+
+  useEffect(() => {
+    loadCitations()
+  }, [loadCitations])
+
+  const markReviewed = async (citationIds: string[]) => {
+    setIsReviewing(true)
+    try {
+      const response = await fetch('/api/rag/citations', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ citation_ids: citationIds })
+      })
+      if (!response.ok) {
+        throw new Error(`Failed to mark citations reviewed: ${response.status}`)
+      }
+      setCitations(prev => prev.filter(citation => !citationIds.includes(citation.id)))
+    } catch (error) {
+      console.error('Failed to mark citations reviewed:', error)
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  if (citations.length === 0) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-amber-900">
+              {citations.length === 1
+                ? 'This draft cites a policy that has been updated'
+                : `This draft cites ${citations.length} passages from policies that have been updated`}
+            </p>
+            <p className="text-xs text-amber-800">
+              Check the cited text against the current version before submitting.
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center text-xs font-medium text-amber-900 hover:underline"
+        >
+          {isExpanded ? 'Hide' : 'Review'}
+          {isExpanded ? <ChevronUp className="h-3 w-3 ml-1" /> : <ChevronDown className="h-3 w-3 ml-1" />}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <ul className="mt-3 space-y-2">
+          {citations.map(citation => (
+            <li key={citation.id} className="rounded border border-amber-200 bg-white p-3 text-xs">
+              <p className="font-medium text-gray-900">{citation.flag_reason || citation.document_title}</p>
+              <p className="mt-1 text-gray-600 line-clamp-3">&ldquo;{citation.chunk_excerpt}&rdquo;</p>
+              {citation.replacement_document_title && (
+                <p className="mt-1 text-gray-500">Current version: {citation.replacement_document_title}</p>
+              )}
+              <button
+                type="button"
+                onClick={() => markReviewed([citation.id])}
+                disabled={isReviewing}
+                className="mt-2 inline-flex items-center font-medium text-brand-primary hover:underline disabled:opacity-50"
+              >
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Mark as reviewed
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
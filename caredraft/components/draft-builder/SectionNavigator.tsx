@@ -0,0 +1,81 @@
+'use client'
+
+import React from 'react'
+import { FileText, Folder } from 'lucide-react'
+import type { SectionWithChildren } from '@/lib/sections'
+
+interface SectionNavigatorProps {
+  sections: SectionWithChildren[]
+  activeSectionId: string | null
+  onSelect: (sectionId: string) => void
+  loading?: boolean
+  error?: string | null
+  // Generates the tree from the tender's confirmed questions
+  onGenerate?: () => void
+  generating?: boolean
+}
+
+export default function SectionNavigator({
+  sections,
+  activeSectionId,
+  onSelect,
+  loading = false,
+  error = null,
+  onGenerate,
+  generating = false
+}: SectionNavigatorProps) {
+  const renderSection = (section: SectionWithChildren, depth: number): React.ReactNode => {
+    const isActive = section.id === activeSectionId
+    const Icon = section.tender_question_id ? FileText : Folder
+
+    return (
+      <li key={section.id}>
+        <button
+          type="button"
+          onClick={() => onSelect(section.id)}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          className={`w-full flex items-center space-x-2 pr-2 py-1.5 rounded text-left text-sm transition-colors ${
+            isActive ? 'bg-brand-50 text-brand-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <Icon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+          <span className="truncate">{section.title}</span>
+        </button>
+        {section.children && section.children.length > 0 && (
+          <ul>{section.children.map(child => renderSection(child, depth + 1))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-3">Sections</h3>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading sections...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : sections.length === 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500">
+              This tender has no sections yet. Generate them from its questions first.
+            </p>
+            {onGenerate && (
+              <button
+                type="button"
+                onClick={onGenerate}
+                disabled={generating}
+                className="w-full px-3 py-1.5 text-sm font-medium text-white bg-brand-500 rounded-lg hover:bg-brand-600 transition-colors disabled:opacity-50"
+              >
+                {generating ? 'Generating...' : 'Generate sections'}
+              </button>
+            )}
+          </div>
+        ) : (
+          <ul className="space-y-0.5">{sections.map(section => renderSection(section, 0))}</ul>
+        )}
+      </div>
+    </div>
+  )
+}
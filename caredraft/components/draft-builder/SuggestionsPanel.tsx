@@ -0,0 +1,135 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Editor } from '@tiptap/react'
+import { Check, CheckCheck, PenLine, X } from 'lucide-react'
+import { getSuggestions, type Suggestion, type SuggestionAuthor } from '@/lib/editor/track-changes'
+import { formatRelativeTime } from '@/types/collaboration'
+
+interface SuggestionsPanelProps {
+  editor: Editor | null
+  author: SuggestionAuthor | null
+  // Reviewers are always in suggestion mode
+  mustSuggest: boolean
+  canResolve: boolean
+}
+
+export default function SuggestionsPanel({ editor, author, mustSuggest, canResolve }: SuggestionsPanelProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+  const [suggestingByChoice, setSuggestingByChoice] = useState(false)
+  const suggesting = mustSuggest || suggestingByChoice
+
+  useEffect(() => {
+    if (!editor) return
+    editor.commands.setSuggesting(suggesting ? author : null)
+  }, [editor, author, suggesting])
+
+  useEffect(() => {
+    if (!editor) return
+
+    const updateSuggestions = () => setSuggestions(getSuggestions(editor.state.doc))
+    updateSuggestions()
+
+    editor.on('update', updateSuggestions)
+    return () => {
+      editor.off('update', updateSuggestions)
+    }
+  }, [editor])
+
+  if (!editor) return null
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-gray-900">Suggestions</h3>
+          {mustSuggest ? (
+            <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-brand-50 text-brand-700 rounded-full">
+              <PenLine className="h-3 w-3 mr-1" />
+              Suggesting
+            </span>
+          ) : (
+            <button
+              onClick={() => setSuggestingByChoice(prev => !prev)}
+              className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full transition-colors ${
+                suggesting ? 'bg-brand-50 text-brand-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              title={suggesting ? 'Edit directly' : 'Record your changes as suggestions'}
+            >
+              <PenLine className="h-3 w-3 mr-1" />
+              {suggesting ? 'Suggesting' : 'Editing'}
+            </button>
+          )}
+        </div>
+
+        {mustSuggest && (
+          <p className="mb-3 text-xs text-gray-500">
+            Your changes are recorded as suggestions for the writers to accept or reject.
+          </p>
+        )}
+
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-gray-500">No suggested changes</p>
+        ) : (
+          <>
+            {canResolve && (
+              <div className="flex items-center space-x-2 mb-3">
+                <button
+                  onClick={() => editor.commands.acceptAllSuggestions()}
+                  className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded-md hover:bg-green-100 transition-colors"
+                >
+                  <CheckCheck className="h-3 w-3 mr-1" />
+                  Accept all
+                </button>
+                <button
+                  onClick={() => editor.commands.rejectAllSuggestions()}
+                  className="flex-1 inline-flex items-center justify-center px-2 py-1.5 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 transition-colors"
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Reject all
+                </button>
+              </div>
+            )}
+
+            <ul className="space-y-2 max-h-80 overflow-y-auto">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.id} className="p-2 border border-gray-200 rounded-md">
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      <span className="font-medium text-gray-700">{suggestion.authorName || 'Reviewer'}</span>
+                      {' '}{suggestion.type === 'insertion' ? 'added' : 'removed'}
+                      {suggestion.createdAt && ` ${formatRelativeTime(suggestion.createdAt)}`}
+                    </span>
+                    {canResolve && (
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => editor.commands.acceptSuggestion(suggestion.id)}
+                          className="p-1 text-gray-400 hover:text-green-600 transition-colors"
+                          title="Accept"
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => editor.commands.rejectSuggestion(suggestion.id)}
+                          className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Reject"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <p className={`mt-1 text-sm line-clamp-2 ${
+                    suggestion.type === 'insertion' ? 'text-green-800' : 'text-red-700 line-through'
+                  }`}>
+                    {suggestion.text}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
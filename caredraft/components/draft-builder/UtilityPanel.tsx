@@ -16,6 +16,9 @@ import {
 
 interface UtilityPanelProps {
   editor: Editor | null
+  tenderId?: string
+  tenderQuestionId?: string
+  proposalId?: string
 }
 
 // Sample compliance keywords
@@ -38,7 +41,7 @@ interface Answer {
   is_template: boolean
 }
 
-export default function UtilityPanel({ editor }: UtilityPanelProps) {
+export default function UtilityPanel({ editor, tenderId, tenderQuestionId, proposalId }: UtilityPanelProps) {
   const [activeTab, setActiveTab] = useState<'compliance' | 'answers' | 'search'>('compliance')
   const [complianceResults, setComplianceResults] = useState<string[]>([])
   const [searchTerm, setSearchTerm] = useState('')
@@ -104,7 +107,12 @@ export default function UtilityPanel({ editor }: UtilityPanelProps) {
       await fetch(`/api/answers/${answer.id}/use`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ context: 'proposal_draft' })
+        body: JSON.stringify({
+          context: 'proposal_draft',
+          tender_workflow_id: tenderId,
+          tender_question_id: tenderQuestionId,
+          proposal_id: proposalId
+        })
       })
     } catch (error) {
       console.error('Error tracking usage:', error)
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useCallback, useRef } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { 
   Upload, 
   File, 
@@ -15,8 +15,11 @@ import {
   Eye,
   MoreVertical,
   Star,
-  Info
+  Info,
+  History
 } from 'lucide-react'
+import type { KnowledgeDocument } from '@/types/rag'
+import DocumentVersionHistory from './DocumentVersionHistory'
 
 // Types for document management
 interface DocumentMetadata {
@@ -36,6 +39,7 @@ interface DocumentMetadata {
   chunkCount?: number
   embeddingStatus: 'pending' | 'processing' | 'completed' | 'failed'
   version: number
+  supersededAt?: Date
   category: string
   careSpecificMetadata?: {
     documentType: 'policy' | 'procedure' | 'guideline' | 'regulation' | 'best_practice' | 'research' | 'other'
@@ -127,6 +131,26 @@ const mockDocuments: DocumentMetadata[] = [
 ]
 
 // Helper functions
+const toDocumentMetadata = (document: KnowledgeDocument): DocumentMetadata => ({
+  id: document.id,
+  title: document.title,
+  fileName: document.file_name || document.title,
+  fileType: document.mime_type || 'text/plain',
+  fileSize: document.file_size || 0,
+  uploadedAt: new Date(document.uploaded_at),
+  lastModified: new Date(document.updated_at),
+  tags: document.tags || [],
+  confidenceScore: 0,
+  sourceReliability: 0,
+  processingStatus: document.processing_status === 'completed' || document.processing_status === 'failed' || document.processing_status === 'pending'
+    ? document.processing_status
+    : 'processing',
+  embeddingStatus: document.processing_status === 'completed' ? 'completed' : 'pending',
+  version: document.version,
+  supersededAt: document.superseded_at ? new Date(document.superseded_at) : undefined,
+  category: document.document_type
+})
+
 const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes'
   const k = 1024
@@ -254,6 +278,7 @@ interface DocumentCardProps {
   onDownload: (documentId: string) => void
   onReprocess: (documentId: string) => void
   onPreview: (documentId: string) => void
+  onShowVersions: (document: DocumentMetadata) => void
 }
 
 const DocumentCard: React.FC<DocumentCardProps> = ({ 
@@ -262,7 +287,8 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
   onDelete, 
   onDownload, 
   onReprocess,
-  onPreview 
+  onPreview,
+  onShowVersions
 }) => {
   const [showMenu, setShowMenu] = useState(false)
 
@@ -303,6 +329,13 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
                 <Edit3 className="h-4 w-4 mr-2" />
                 Edit
               </button>
+              <button
+                onClick={() => { onShowVersions(document); setShowMenu(false) }}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 flex items-center"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Version history
+              </button>
               <button
                 onClick={() => { onDownload(document.id); setShowMenu(false) }}
                 className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 flex items-center"
@@ -347,6 +380,15 @@ const DocumentCard: React.FC<DocumentCardProps> = ({
         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200">
           {document.category}
         </span>
+        <button
+          onClick={() => onShowVersions(document)}
+          className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${document.supersededAt
+            ? 'bg-gray-100 text-gray-500 border-gray-200'
+            : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'}`}
+          title="Version history"
+        >
+          v{document.version}{document.supersededAt && ' • superseded'}
+        </button>
         {document.careSpecificMetadata && (
           <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-brand-100 text-brand-800 border border-brand-200">
             {document.careSpecificMetadata.documentType.replace('_', ' ')}
@@ -441,6 +483,28 @@ export default function DocumentManagerInterface() {
   const [searchQuery, setSearchQuery] = useState('')
   const [filterCategory, setFilterCategory] = useState<string>('all')
   const [filterStatus, setFilterStatus] = useState<string>('all')
+  const [showSuperseded, setShowSuperseded] = useState(false)
+  const [versionsFor, setVersionsFor] = useState<DocumentMetadata | null>(null)
+
+  // Load Knowledge Hub documents, keeping the demonstration documents if the API is unavailable
+  const loadDocuments = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: '100' })
+      if (showSuperseded) params.set('include_superseded', 'true')
+
+      const response = await fetch(`/api/rag/documents?${params}`)
+      if (!response.ok) return
+
+      const result = await response.json()
+      setDocuments((result.data.documents as KnowledgeDocument[]).map(toDocumentMetadata))
+    } catch (error) {
+      console.error('Failed to load documents:', error)
+    }
+  }, [showSuperseded])
+
+  useEffect(() => {
+    loadDocuments()
+  }, [loadDocuments])
 
   // Filter documents based on search and filters
   const filteredDocuments = documents.filter((doc) => {
@@ -460,28 +524,19 @@ export default function DocumentManagerInterface() {
   const handleUpload = async (files: File[]) => {
     setIsUploading(true)
     try {
-      // Simulate upload process
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Create mock documents for uploaded files
-      const newDocuments = files.map((file, index) => ({
-        id: `doc-${Date.now()}-${index}`,
-        title: file.name.replace(/\.[^/.]+$/, ''),
-        fileName: file.name,
-        fileType: file.type,
-        fileSize: file.size,
-        uploadedAt: new Date(),
-        lastModified: new Date(),
-        tags: [],
-        confidenceScore: 0.0,
-        sourceReliability: 0.0,
-        processingStatus: 'pending' as const,
-        embeddingStatus: 'pending' as const,
-        version: 1,
-        category: 'Uncategorized'
-      }))
-      
-      setDocuments(prev => [...newDocuments, ...prev])
+      // A file titled like a current document is stored as its next version
+      for (const file of files) {
+        const formData = new FormData()
+        formData.append('file', file)
+
+        const response = await fetch('/api/rag/upload', { method: 'POST', body: formData })
+        if (!response.ok) {
+          const result = await response.json()
+          throw new Error(result.error?.message || `Failed to upload ${file.name}`)
+        }
+      }
+
+      await loadDocuments()
     } catch (error) {
       console.error('Upload failed:', error)
     } finally {
@@ -585,6 +640,15 @@ export default function DocumentManagerInterface() {
             <option value="completed">Completed</option>
             <option value="failed">Failed</option>
           </select>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showSuperseded}
+              onChange={(e) => setShowSuperseded(e.target.checked)}
+              className="rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+            />
+            Show superseded versions
+          </label>
         </div>
       </div>
 
@@ -599,6 +663,7 @@ export default function DocumentManagerInterface() {
             onDownload={handleDownload}
             onReprocess={handleReprocess}
             onPreview={handlePreview}
+            onShowVersions={setVersionsFor}
           />
         ))}
       </div>
@@ -616,6 +681,15 @@ export default function DocumentManagerInterface() {
           </p>
         </div>
       )}
+
+      {versionsFor && (
+        <DocumentVersionHistory
+          documentId={versionsFor.id}
+          title={versionsFor.title}
+          isOpen={Boolean(versionsFor)}
+          onClose={() => setVersionsFor(null)}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
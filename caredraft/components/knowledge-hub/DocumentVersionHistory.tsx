@@ -0,0 +1,193 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { AlertCircle, GitCompare, History, RefreshCw, X } from 'lucide-react'
+import type { KnowledgeDocument } from '@/types/rag'
+import type { DiffSegment, DiffStats } from '@/lib/utils/text-diff'
+
+interface VersionDiff {
+  from: KnowledgeDocument
+  to: KnowledgeDocument
+  segments: DiffSegment[]
+  stats: DiffStats
+}
+
+interface DocumentVersionHistoryProps {
+  documentId: string
+  title: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+const segmentClassName: Record<DiffSegment['type'], string> = {
+  equal: 'text-gray-700',
+  insert: 'bg-green-100 text-green-900',
+  delete: 'bg-red-100 text-red-800 line-through'
+}
+
+// Version history for a Knowledge Hub document, with a word diff between any two versions
+export default function DocumentVersionHistory({ documentId, title, isOpen, onClose }: DocumentVersionHistoryProps) {
+  const [versions, setVersions] = useState<KnowledgeDocument[]>([])
+  const [fromId, setFromId] = useState<string>('')
+  const [toId, setToId] = useState<string>('')
+  const [diff, setDiff] = useState<VersionDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadVersions = async () => {
+      setIsLoading(true)
+      setError(null)
+      setDiff(null)
+      try {
+        const response = await fetch(`/api/rag/documents/${documentId}/versions`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load versions')
+
+        const loaded = data.versions as KnowledgeDocument[]
+        setVersions(loaded)
+        // Default to comparing the latest version with the one before it
+        setToId(loaded[0]?.id ?? '')
+        setFromId(loaded[1]?.id ?? '')
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load versions')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadVersions()
+  }, [documentId, isOpen])
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null)
+      return
+    }
+
+    const loadDiff = async () => {
+      setError(null)
+      try {
+        const response = await fetch(`/api/rag/documents/${toId}/versions?compare=${fromId}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to compare versions')
+        setDiff(data.diff as VersionDiff)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to compare versions')
+      }
+    }
+
+    loadDiff()
+  }, [fromId, toId])
+
+  if (!isOpen) return null
+
+  const versionLabel = (version: KnowledgeDocument) =>
+    `Version ${version.version} • ${new Date(version.uploaded_at).toLocaleDateString()}`
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500 bg-opacity-75 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-brand-primary" />
+            <h2 className="text-lg font-semibold text-gray-900">Version history: {title}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded transition-colors" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {isLoading && (
+            <div className="flex items-center text-sm text-gray-600">
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Loading versions...
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          {!isLoading && versions.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {versions.map(version => (
+                <li key={version.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <span className="text-gray-900">{versionLabel(version)}</span>
+                  <span className="flex items-center gap-2">
+                    {version.superseded_at ? (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 border border-gray-200">
+                        Superseded {new Date(version.superseded_at).toLocaleDateString()}
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 border border-green-200">
+                        Current
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-500">{version.processing_status}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!isLoading && versions.length === 1 && (
+            <p className="text-sm text-gray-600">
+              This is the only version. Uploading a document with the same title adds a new version.
+            </p>
+          )}
+
+          {versions.length > 1 && (
+            <div className="space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <GitCompare className="h-4 w-4 text-gray-500" />
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                >
+                  {versions.map(version => (
+                    <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+                  ))}
+                </select>
+                <span className="text-sm text-gray-500">compared with</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                >
+                  {versions.map(version => (
+                    <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {diff && (
+                <>
+                  <p className="text-sm text-gray-600">
+                    {diff.stats.unchanged
+                      ? 'No text changes between these versions.'
+                      : `Version ${diff.to.version} adds ${diff.stats.wordsAdded} and removes ${diff.stats.wordsRemoved} words compared with version ${diff.from.version}.`}
+                  </p>
+                  <div className="border border-gray-200 rounded-lg p-4 text-sm leading-relaxed whitespace-pre-wrap max-h-[50vh] overflow-y-auto">
+                    {diff.segments.map((segment, index) => (
+                      <span key={index} className={segmentClassName[segment.type]}>
+                        {segment.value}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
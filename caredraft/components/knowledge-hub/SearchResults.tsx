@@ -13,13 +13,14 @@ import {
   TrendingUp,
   MoreVertical,
 } from 'lucide-react'
+import { INTERNAL_SEARCH_SOURCES } from '@/types/knowledge-search'
 
 interface SearchResult {
   id: string
   title: string
   content?: string
   excerpt: string
-  type: 'document' | 'policy' | 'template' | 'research' | 'news' | 'compliance' | 'web' | 'regulatory' | 'guidance'
+  type: 'document' | 'policy' | 'template' | 'answer' | 'proposal' | 'research' | 'news' | 'compliance' | 'web' | 'regulatory' | 'guidance'
   source: string
   url?: string
   date: string
@@ -67,8 +68,8 @@ const SearchResults: React.FC<SearchResultsProps> = ({
   // Categorize results
   const categorizedResults = {
     all: results,
-    internal: results.filter(r => r.source === 'internal' || r.type === 'document' || r.type === 'policy' || r.type === 'template'),
-    external: results.filter(r => r.type === 'web' || r.type === 'news' || r.source !== 'internal'),
+    internal: results.filter(r => INTERNAL_SEARCH_SOURCES.includes(r.source) || r.type === 'document' || r.type === 'policy' || r.type === 'template'),
+    external: results.filter(r => r.type === 'web' || r.type === 'news' || !INTERNAL_SEARCH_SOURCES.includes(r.source)),
     competitors: results.filter(r => r.type === 'news' && (r.metadata.tags.some(tag => tag.includes('competitor')) || r.title.toLowerCase().includes('competitor'))),
     policy: results.filter(r => r.type === 'regulatory' || r.type === 'compliance' || r.type === 'guidance' || r.metadata.tags.some(tag => ['policy', 'regulation', 'compliance', 'cqc'].includes(tag))),
     research: results.filter(r => r.type === 'research' || r.metadata.tags.some(tag => ['research', 'study', 'academic'].includes(tag)))
@@ -117,11 +118,24 @@ const SearchResults: React.FC<SearchResultsProps> = ({
     }
   }
 
+  // Wrap the matched query terms in the excerpt in <mark>
+  const highlightExcerpt = (excerpt: string, highlights: string[] = []) => {
+    if (highlights.length === 0) return excerpt
+    const escaped = highlights.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    const pattern = new RegExp(`(${escaped.join('|')})`, 'gi')
+    return excerpt.split(pattern).map((part, index) =>
+      index % 2 === 1
+        ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{part}</mark>
+        : part
+    )
+  }
+
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'document': return 'bg-brand-100 text-brand-800'
       case 'policy': case 'compliance': case 'regulatory': return 'bg-red-100 text-red-800'
-      case 'template': return 'bg-green-100 text-green-800'
+      case 'template': case 'answer': return 'bg-green-100 text-green-800'
+      case 'proposal': return 'bg-blue-100 text-blue-800'
       case 'research': return 'bg-purple-100 text-purple-800'
       case 'news': return 'bg-orange-100 text-orange-800'
       case 'web': case 'guidance': return 'bg-gray-100 text-gray-800'
@@ -237,7 +251,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
 
                   {/* Excerpt */}
                   <p className="text-gray-600 leading-relaxed mb-4">
-                    {result.excerpt}
+                    {highlightExcerpt(result.excerpt, result.metadata.highlights)}
                   </p>
 
                   {/* Metadata */}
@@ -248,7 +262,7 @@ const SearchResults: React.FC<SearchResultsProps> = ({
                     </div>
                     <div className="flex items-center space-x-1">
                       <Building2 className="w-4 h-4" />
-                      <span className="capitalize">{result.source}</span>
+                      <span className="capitalize">{result.source.replace(/-/g, ' ')}</span>
                     </div>
                     {result.metadata.wordCount && (
                       <span>{result.metadata.wordCount.toLocaleString()} words</span>
@@ -0,0 +1,219 @@
+'use client'
+
+import React from 'react'
+import { CheckCircle, Clock, RotateCcw, UserPlus } from 'lucide-react'
+import type { ProposalReviewerAssignments } from '@/lib/database.types'
+import type { ProposalWorkflowState } from '@/lib/services/proposal-workflow'
+import { useAuth } from '@/components/providers/MinimalAuthProvider'
+import { usePermissions } from '@/hooks/usePermissions'
+import { createClient } from '@/lib/supabase'
+
+interface ReviewerSummary {
+  id: string
+  full_name: string | null
+  email: string
+}
+
+type ReviewerAssignment = ProposalReviewerAssignments & { reviewer: ReviewerSummary | null }
+
+interface ProposalReviewersPanelProps {
+  proposalId: string
+  className?: string
+}
+
+const displayName = (reviewer: ReviewerSummary | null) => reviewer?.full_name || reviewer?.email || 'Unknown reviewer'
+
+export default function ProposalReviewersPanel({ proposalId, className = '' }: ProposalReviewersPanelProps) {
+  const { user } = useAuth()
+  const { hasRole, getUserOrganizationId } = usePermissions()
+  const canAssign = hasRole('manager')
+  const organizationId = getUserOrganizationId()
+
+  const [assignments, setAssignments] = React.useState<ReviewerAssignment[]>([])
+  const [workflow, setWorkflow] = React.useState<ProposalWorkflowState | null>(null)
+  const [members, setMembers] = React.useState<ReviewerSummary[]>([])
+  const [reviewerToAdd, setReviewerToAdd] = React.useState('')
+  const [comments, setComments] = React.useState('')
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const loadReviewers = React.useCallback(async () => {
+    try {
+      const [reviewersResponse, statusResponse] = await Promise.all([
+        fetch(`/api/proposals/${proposalId}/reviewers`),
+        fetch(`/api/proposals/${proposalId}/status`)
+      ])
+      const reviewersData = await reviewersResponse.json()
+      if (!reviewersResponse.ok) throw new Error(reviewersData.error || 'Failed to load reviewers')
+      setAssignments(reviewersData.assignments || [])
+      if (statusResponse.ok) setWorkflow(await statusResponse.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reviewers')
+    }
+  }, [proposalId])
+
+  React.useEffect(() => {
+    loadReviewers()
+  }, [loadReviewers])
+
+  // Reviewers are picked from the organisation's users
+  const loadMembers = React.useCallback(async () => {
+    if (!canAssign || !organizationId) return
+
+    const { data } = await createClient()
+      .from('users')
+      .select('id, full_name, email')
+      .eq('organization_id', organizationId)
+      .order('full_name', { ascending: true })
+    setMembers((data || []) as ReviewerSummary[])
+  }, [canAssign, organizationId])
+
+  React.useEffect(() => {
+    loadMembers()
+  }, [loadMembers])
+
+  // Sends a change to the reviewers API, then reloads the assignments
+  const submit = async (method: 'POST' | 'PATCH', body: unknown) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/reviewers`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Request failed')
+      await loadReviewers()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const assignReviewer = async () => {
+    if (!reviewerToAdd) return
+    if (await submit('POST', { reviewerIds: [reviewerToAdd] })) setReviewerToAdd('')
+  }
+
+  const recordDecision = async (approved: boolean) => {
+    if (await submit('PATCH', { approved, comments: comments.trim() || undefined })) setComments('')
+  }
+
+  const ownAssignment = assignments.find(assignment => assignment.reviewer_id === user?.id)
+  const unassigned = members.filter(member => !assignments.some(assignment => assignment.reviewer_id === member.id))
+  const inReview = workflow?.status === 'review'
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Reviewers</h3>
+        {inReview && workflow.review.requiredApprovals > 0 && (
+          <span className="text-sm text-gray-500">
+            {workflow.review.approvals}/{workflow.review.requiredApprovals} approvals
+          </span>
+        )}
+      </div>
+
+      {assignments.length === 0 ? (
+        <p className="text-sm text-gray-500">No reviewers assigned yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {assignments.map(assignment => (
+            <li key={assignment.id} className="flex items-start justify-between text-sm">
+              <div>
+                <p className="font-medium text-gray-900">{displayName(assignment.reviewer)}</p>
+                {assignment.review_comments && (
+                  <p className="text-gray-600 mt-1">{assignment.review_comments}</p>
+                )}
+              </div>
+              {assignment.decision === 'submitted' ? (
+                <span className="inline-flex items-center text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approved
+                </span>
+              ) : assignment.decision === 'review' ? (
+                <span className="inline-flex items-center text-yellow-700">
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Changes requested
+                </span>
+              ) : (
+                <span className="inline-flex items-center text-gray-500">
+                  <Clock className="h-4 w-4 mr-1" />
+                  Pending
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAssign && unassigned.length > 0 && (
+        <div className="mt-4 flex items-center space-x-2">
+          <select
+            value={reviewerToAdd}
+            onChange={(e) => setReviewerToAdd(e.target.value)}
+            className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">Add a reviewer...</option>
+            {unassigned.map(member => (
+              <option key={member.id} value={member.id}>{displayName(member)}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={assignReviewer}
+            disabled={saving || !reviewerToAdd}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-medium text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            Assign
+          </button>
+        </div>
+      )}
+
+      {ownAssignment && inReview && (
+        <div className="mt-4 border-t border-gray-200 pt-4">
+          <label htmlFor="review-comments" className="block text-sm font-medium text-gray-700 mb-2">
+            Your sign-off
+          </label>
+          <textarea
+            id="review-comments"
+            rows={3}
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder="Comments for the writer"
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          <div className="mt-3 flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => recordDecision(false)}
+              disabled={saving}
+              className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Request changes
+            </button>
+            <button
+              type="button"
+              onClick={() => recordDecision(true)}
+              disabled={saving}
+              className="rounded-md bg-green-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-green-500 disabled:bg-gray-400"
+            >
+              Approve
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 rounded-md bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import React from 'react'
+import { ProposalStatus } from '@/lib/database.types'
+import type { ProposalWorkflowState } from '@/lib/services/proposal-workflow'
+import ProposalStatusBadge from './ProposalStatusBadge'
+import StatusTransitionModal from './StatusTransitionModal'
+
+interface ProposalStatusControlProps {
+  proposalId: string
+  proposalTitle?: string
+  onStatusChange?: (status: ProposalStatus) => void
+  className?: string
+}
+
+export default function ProposalStatusControl({
+  proposalId,
+  proposalTitle,
+  onStatusChange,
+  className = ''
+}: ProposalStatusControlProps) {
+  const [workflow, setWorkflow] = React.useState<ProposalWorkflowState | null>(null)
+  const [isModalOpen, setIsModalOpen] = React.useState(false)
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const loadWorkflow = React.useCallback(async () => {
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/status`)
+      if (!response.ok) return
+      setWorkflow(await response.json())
+    } catch (error) {
+      console.error('Error loading proposal workflow:', error)
+    }
+  }, [proposalId])
+
+  React.useEffect(() => {
+    loadWorkflow()
+  }, [loadWorkflow])
+
+  const handleConfirm = async (toStatus: ProposalStatus, comment?: string, reason?: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/proposals/${proposalId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ toStatus, comment, reason })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to change status')
+        await loadWorkflow()
+        return
+      }
+
+      setWorkflow(data)
+      setIsModalOpen(false)
+      onStatusChange?.(data.status)
+    } catch (error) {
+      console.error('Error changing proposal status:', error)
+      setError('Failed to change status')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!workflow) {
+    return <div className={`h-6 w-24 bg-gray-200 rounded-full animate-pulse ${className}`} />
+  }
+
+  const { review } = workflow
+
+  return (
+    <div className={`flex items-center space-x-3 ${className}`}>
+      <ProposalStatusBadge status={workflow.status} />
+      {workflow.status === 'review' && review.requiredApprovals > 0 && (
+        <span className="text-sm text-gray-500">
+          {review.approvals}/{review.requiredApprovals} approvals
+        </span>
+      )}
+      {workflow.transitions.length > 0 && (
+        <button
+          type="button"
+          onClick={() => {
+            setError(null)
+            setIsModalOpen(true)
+            // Pick up reviewer sign-offs made since the page loaded
+            loadWorkflow()
+          }}
+          className="rounded-md bg-white px-3 py-1.5 text-sm font-medium text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+        >
+          Change Status
+        </button>
+      )}
+
+      <StatusTransitionModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        fromStatus={workflow.status}
+        transitions={workflow.transitions}
+        onConfirm={handleConfirm}
+        loading={saving}
+        error={error}
+        proposalTitle={proposalTitle}
+      />
+    </div>
+  )
+}
@@ -1,18 +1,22 @@
 'use client'
 
 import React from 'react'
-import { X, AlertTriangle, Info, CheckCircle } from 'lucide-react'
+import { X, AlertTriangle, Info, CheckCircle, Lock } from 'lucide-react'
 import { ProposalStatus } from '@/lib/database.types'
+import type { StatusTransitionCheck } from '@/lib/services/proposal-workflow'
 import ProposalStatusBadge from './ProposalStatusBadge'
 
 interface StatusTransitionModalProps {
   isOpen: boolean
   onClose: () => void
   fromStatus: ProposalStatus
-  toStatus: ProposalStatus
-  onConfirm: (comment?: string, reason?: string) => void
+  /** Transitions the current user's role permits, from ProposalWorkflowService */
+  transitions: StatusTransitionCheck[]
+  /** Transition to preselect, if the user is allowed to make it */
+  initialToStatus?: ProposalStatus
+  onConfirm: (toStatus: ProposalStatus, comment?: string, reason?: string) => void
   loading?: boolean
-  requiresComment?: boolean
+  error?: string | null
   proposalTitle?: string
 }
 
@@ -20,25 +24,37 @@ export default function StatusTransitionModal({
   isOpen,
   onClose,
   fromStatus,
-  toStatus,
+  transitions,
+  initialToStatus,
   onConfirm,
   loading = false,
-  requiresComment = false,
+  error,
   proposalTitle
 }: StatusTransitionModalProps) {
+  const allowedTransitions = transitions.filter(transition => transition.allowed)
+  const blockedTransitions = transitions.filter(transition => !transition.allowed)
+
+  const [toStatus, setToStatus] = React.useState<ProposalStatus | null>(null)
   const [comment, setComment] = React.useState('')
   const [reason, setReason] = React.useState('')
+  const [wasOpen, setWasOpen] = React.useState(false)
 
-  // Reset form when modal opens
-  React.useEffect(() => {
+  // Reset the form each time the modal opens
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen)
     if (isOpen) {
+      const initial = allowedTransitions.find(transition => transition.toStatus === initialToStatus) ?? allowedTransitions[0]
+      setToStatus(initial?.toStatus ?? null)
       setComment('')
       setReason('')
     }
-  }, [isOpen])
+  }
 
   if (!isOpen) return null
 
+  const selectedTransition = allowedTransitions.find(transition => transition.toStatus === toStatus)
+  const requiresComment = selectedTransition?.requiresComment ?? false
+
   const getTransitionInfo = (from: ProposalStatus, to: ProposalStatus) => {
     const transitions: Record<string, { 
       title: string
@@ -90,17 +106,26 @@ export default function StatusTransitionModal({
     }
   }
 
-  const transitionInfo = getTransitionInfo(fromStatus, toStatus)
+  const transitionInfo = toStatus
+    ? getTransitionInfo(fromStatus, toStatus)
+    : {
+        title: 'Change Status',
+        description: 'There are no status changes you can make on this proposal right now.',
+        icon: <Lock className="h-5 w-5" />,
+        iconColor: 'text-gray-500',
+        isRejection: false,
+        isSubmission: false
+      }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (requiresComment && !comment.trim()) {
+    if (!toStatus || (requiresComment && !comment.trim())) {
       return
     }
-    onConfirm(comment.trim() || undefined, reason.trim() || undefined)
+    onConfirm(toStatus, comment.trim() || undefined, reason.trim() || undefined)
   }
 
-  const isFormValid = !requiresComment || comment.trim().length > 0
+  const isFormValid = !!selectedTransition && (!requiresComment || comment.trim().length > 0)
 
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -153,11 +178,52 @@ export default function StatusTransitionModal({
           )}
 
           {/* Status Change Visual */}
-          <div className="mt-4 flex items-center justify-center space-x-4">
-            <ProposalStatusBadge status={fromStatus} size="sm" />
-            <span className="text-gray-400">→</span>
-            <ProposalStatusBadge status={toStatus} size="sm" />
-          </div>
+          {allowedTransitions.length > 1 ? (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Move to</p>
+              <div className="flex flex-wrap gap-2">
+                {allowedTransitions.map((transition) => (
+                  <button
+                    key={transition.toStatus}
+                    type="button"
+                    onClick={() => setToStatus(transition.toStatus)}
+                    className={`rounded-md border px-2 py-1 ${
+                      transition.toStatus === toStatus ? 'border-indigo-500 ring-2 ring-indigo-500' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <ProposalStatusBadge status={transition.toStatus} size="sm" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : toStatus && (
+            <div className="mt-4 flex items-center justify-center space-x-4">
+              <ProposalStatusBadge status={fromStatus} size="sm" />
+              <span className="text-gray-400">→</span>
+              <ProposalStatusBadge status={toStatus} size="sm" />
+            </div>
+          )}
+
+          {/* Transitions waiting on reviewer sign-off */}
+          {blockedTransitions.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {blockedTransitions.map((transition) => (
+                <div key={transition.toStatus} className="flex items-start space-x-2 rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+                  <Lock className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />
+                  <div>
+                    <span className="font-medium capitalize">{transition.toStatus}</span> is not available yet:{' '}
+                    {transition.blockers.join('; ')}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-4 rounded-md bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="mt-6">
@@ -28,6 +28,7 @@ export default function SectionManagementSidebar({
   onSectionUpdate,
   onSectionCreate,
   onSectionDelete,
+  onSectionReorder,
   selectedSectionId,
   className = ''
 }: SectionManagementSidebarProps) {
@@ -167,8 +168,8 @@ export default function SectionManagementSidebar({
                 try {
                   const { reorderSection } = await import('@/lib/sections')
                   await reorderSection(sourceId, destinationIndex)
-                  // Refresh sections after reordering
-                  window.location.reload() // Temporary - should use proper state management
+                  // Let the owner of the section list refresh its tree
+                  onSectionReorder?.(sourceId, destinationIndex)
                 } catch (error) {
                   console.error('Error reordering section:', error)
                 }
@@ -92,8 +92,8 @@ export default function SectionStatusDashboard({
       }
 
       // User assignment
-      if (section.assigned_to) {
-        uniqueUsers.add(section.assigned_to)
+      if (section.owner_id) {
+        uniqueUsers.add(section.owner_id)
       }
 
       // Word count (using content length as approximation)
@@ -176,15 +176,15 @@ export default function SectionTreeNode({
               <div className="flex items-center space-x-3 mt-1">
                 {/* Status badge with dropdown */}
                 <StatusSelector
-                  currentStatus={section.status}
+                  currentStatus={section.status ?? 'not_started'}
                   onStatusChange={(newStatus: SectionStatus) => onUpdate({ status: newStatus })}
                   size="sm"
                 />
                 
                 {/* Word count */}
-                {section.word_limit && section.word_limit > 0 && (
+                {section.word_count_limit && section.word_count_limit > 0 && (
                   <span className="text-xs text-gray-500">
-                    {(section.content || '').split(' ').filter(w => w.length > 0).length}/{section.word_limit} words
+                    {(section.content || '').split(' ').filter(w => w.length > 0).length}/{section.word_count_limit} words
                   </span>
                 )}
                 
@@ -193,7 +193,7 @@ export default function SectionTreeNode({
                   <OwnerSelector
                     currentOwner={section.owner}
                     availableOwners={availableOwners}
-                    onOwnerChange={(ownerId) => onUpdate({ assigned_to: ownerId || undefined })}
+                    onOwnerChange={(ownerId) => onUpdate({ ownerId: ownerId || undefined })}
                     size="sm"
                     placeholder="Assign..."
                   />
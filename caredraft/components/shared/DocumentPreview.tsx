@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useEffect } from 'react'
 import { Document, Page, pdfjs } from 'react-pdf'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -16,7 +16,8 @@ import {
   AlertCircle,
   Loader2
 } from 'lucide-react'
-import { downloadFile, STORAGE_BUCKETS } from '@/lib/storage'
+import { downloadFile, getPublicUrl, STORAGE_BUCKETS } from '@/lib/storage'
+import 'react-pdf/dist/Page/TextLayer.css'
 
 // Configure PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`
@@ -27,29 +28,57 @@ interface DocumentPreviewProps {
   fileType: string
   isOpen: boolean
   onClose: () => void
+  // Page to open on and passage to highlight, e.g. the source of a compliance item
+  initialPage?: number
+  highlightText?: string
+  // Signed link for files outside the tender documents bucket, e.g. Knowledge Hub sources
+  fileUrl?: string
 }
 
 interface PDFPreviewProps {
   filePath: string
   fileName: string
+  initialPage?: number
+  highlightText?: string
+  fileUrl?: string
 }
 
-function PDFPreview({ filePath, fileName }: PDFPreviewProps) {
+const normaliseForMatch = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim()
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * Wrap a PDF text item in <mark> when it is part of the highlighted passage.
+ * Items shorter than the passage must be long enough not to match everywhere.
+ */
+export function highlightTextItem(itemText: string, highlightText: string): string {
+  const needle = normaliseForMatch(highlightText)
+  const item = normaliseForMatch(itemText)
+  const minLength = Math.min(needle.length, 12)
+
+  const isMatch = !!needle && item.length >= minLength && (needle.includes(item) || item.includes(needle))
+  return isMatch ? `<mark>${escapeHtml(itemText)}</mark>` : escapeHtml(itemText)
+}
+
+function PDFPreview({ filePath, fileName, initialPage, highlightText, fileUrl }: PDFPreviewProps) {
   const [numPages, setNumPages] = useState<number>(0)
-  const [pageNumber, setPageNumber] = useState<number>(1)
+  const [pageNumber, setPageNumber] = useState<number>(initialPage ?? 1)
   const [scale, setScale] = useState<number>(1.0)
-  const [loading, setLoading] = useState<boolean>(true)
   const [error, setError] = useState<string | null>(null)
 
+  useEffect(() => {
+    if (initialPage) setPageNumber(initialPage)
+  }, [initialPage])
+
   const onDocumentLoadSuccess = useCallback(({ numPages }: { numPages: number }) => {
     setNumPages(numPages)
-    setLoading(false)
+    setPageNumber(prev => Math.min(Math.max(1, prev), numPages))
     setError(null)
   }, [])
 
   const onDocumentLoadError = useCallback((error: Error) => {
     setError(`Failed to load PDF: ${error.message}`)
-    setLoading(false)
   }, [])
 
   const goToPrevPage = useCallback(() => {
@@ -69,23 +98,21 @@ function PDFPreview({ filePath, fileName }: PDFPreviewProps) {
   }, [])
 
   const handleDownload = useCallback(async () => {
+    if (fileUrl) {
+      window.open(fileUrl, '_blank', 'noopener,noreferrer')
+      return
+    }
     try {
       await downloadFile(STORAGE_BUCKETS.TENDER_DOCUMENTS, filePath)
     } catch (error) {
       console.error('Download failed:', error)
     }
-  }, [filePath, fileName])
+  }, [filePath, fileName, fileUrl])
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <div className="text-center">
-          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-2" />
-          <p className="text-sm text-gray-600">Loading PDF...</p>
-        </div>
-      </div>
-    )
-  }
+  const renderHighlightedText = useCallback(
+    ({ str }: { str: string }) => highlightTextItem(str, highlightText ?? ''),
+    [highlightText]
+  )
 
   if (error) {
     return (
@@ -152,11 +179,18 @@ function PDFPreview({ filePath, fileName }: PDFPreviewProps) {
         </div>
       </div>
 
+      {highlightText && (
+        <div className="border-l-4 border-yellow-400 bg-yellow-50 p-3 text-sm text-gray-800">
+          <span className="font-medium">Source passage: </span>
+          <span className="italic">&ldquo;{highlightText}&rdquo;</span>
+        </div>
+      )}
+
       {/* PDF Document */}
       <div className="border rounded-lg overflow-auto max-h-[600px] bg-gray-100 p-4">
         <div className="flex justify-center">
           <Document
-            file={filePath}
+            file={fileUrl ?? getPublicUrl(STORAGE_BUCKETS.TENDER_DOCUMENTS, filePath) ?? filePath}
             onLoadSuccess={onDocumentLoadSuccess}
             onLoadError={onDocumentLoadError}
             loading={
@@ -168,7 +202,8 @@ function PDFPreview({ filePath, fileName }: PDFPreviewProps) {
             <Page
               pageNumber={pageNumber}
               scale={scale}
-              renderTextLayer={false}
+              renderTextLayer={!!highlightText}
+              customTextRenderer={highlightText ? renderHighlightedText : undefined}
               renderAnnotationLayer={false}
             />
           </Document>
@@ -178,14 +213,25 @@ function PDFPreview({ filePath, fileName }: PDFPreviewProps) {
   )
 }
 
-function DocumentFallback({ fileName, fileType, filePath }: { fileName: string, fileType: string, filePath: string }) {
+function DocumentFallback({ fileName, fileType, filePath, initialPage, highlightText, fileUrl }: {
+  fileName: string
+  fileType: string
+  filePath: string
+  initialPage?: number
+  highlightText?: string
+  fileUrl?: string
+}) {
   const handleDownload = useCallback(async () => {
+    if (fileUrl) {
+      window.open(fileUrl, '_blank', 'noopener,noreferrer')
+      return
+    }
     try {
       await downloadFile(STORAGE_BUCKETS.TENDER_DOCUMENTS, filePath)
     } catch (error) {
       console.error('Download failed:', error)
     }
-  }, [filePath, fileName])
+  }, [filePath, fileName, fileUrl])
 
   const getFileIcon = () => {
     if (fileType.includes('word') || fileName.endsWith('.docx')) {
@@ -214,24 +260,46 @@ function DocumentFallback({ fileName, fileType, filePath }: { fileName: string,
         <h3 className="font-medium text-gray-900">{fileName}</h3>
         <p className="text-sm text-gray-600">{getFileTypeName()}</p>
       </div>
-      <Alert>
-        <AlertCircle className="h-4 w-4" />
-        <AlertDescription>
-          Preview not available for this file type. You can download the file to view it.
-        </AlertDescription>
-      </Alert>
-      <Button onClick={handleDownload} className="mt-4">
-        <Download className="h-4 w-4 mr-2" />
-        Download File
-      </Button>
+      {highlightText && (
+        <div className="max-w-2xl border-l-4 border-yellow-400 bg-yellow-50 p-3 text-sm text-gray-800">
+          <p className="font-medium mb-1">
+            Source passage{initialPage ? ` (page ${initialPage})` : ''}
+          </p>
+          <mark className="italic bg-transparent">&ldquo;{highlightText}&rdquo;</mark>
+        </div>
+      )}
+      {(filePath || fileUrl) && (
+        <>
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Preview not available for this file type. You can download the file to view it.
+            </AlertDescription>
+          </Alert>
+          <Button onClick={handleDownload} className="mt-4">
+            <Download className="h-4 w-4 mr-2" />
+            Download File
+          </Button>
+        </>
+      )}
     </div>
   )
 }
 
-export function DocumentPreview({ filePath, fileName, fileType, isOpen, onClose }: DocumentPreviewProps) {
+export function DocumentPreview({
+  filePath,
+  fileName,
+  fileType,
+  isOpen,
+  onClose,
+  initialPage,
+  highlightText,
+  fileUrl
+}: DocumentPreviewProps) {
   if (!isOpen) return null
 
-  const isPDF = fileType === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf')
+  // A PDF needs a file to render; without one the passage is shown on its own
+  const isPDF = (fileType === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf')) && !!(filePath || fileUrl)
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -251,9 +319,22 @@ export function DocumentPreview({ filePath, fileName, fileType, isOpen, onClose
         </CardHeader>
         <CardContent className="p-6 pt-0">
           {isPDF ? (
-            <PDFPreview filePath={filePath} fileName={fileName} />
+            <PDFPreview
+              filePath={filePath}
+              fileName={fileName}
+              initialPage={initialPage}
+              highlightText={highlightText}
+              fileUrl={fileUrl}
+            />
           ) : (
-            <DocumentFallback fileName={fileName} fileType={fileType} filePath={filePath} />
+            <DocumentFallback
+              fileName={fileName}
+              fileType={fileType}
+              filePath={filePath}
+              initialPage={initialPage}
+              highlightText={highlightText}
+              fileUrl={fileUrl}
+            />
           )}
         </CardContent>
       </Card>
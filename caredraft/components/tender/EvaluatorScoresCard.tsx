@@ -0,0 +1,141 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, Loader2, Save } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { ReviewedQuestion } from '@/lib/services/colour-team-reviews'
+
+interface EvaluatorScoresCardProps {
+  tenderId: string
+  onSaved?: () => void
+}
+
+const toDraft = (question: ReviewedQuestion) =>
+  question.evaluator_score === null || question.evaluator_score === undefined ? '' : String(question.evaluator_score)
+
+const toDrafts = (questions: ReviewedQuestion[]) =>
+  Object.fromEntries(questions.map(question => [question.id, toDraft(question)]))
+
+export default function EvaluatorScoresCard({ tenderId, onSaved }: EvaluatorScoresCardProps) {
+  const [questions, setQuestions] = useState<ReviewedQuestion[]>([])
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const baseUrl = `/api/tender/${tenderId}/reviews/evaluator-scores`
+
+  const loadScores = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch(baseUrl)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load evaluator scores')
+      setQuestions(data.questions)
+      setDrafts(toDrafts(data.questions))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load evaluator scores')
+    } finally {
+      setLoading(false)
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    loadScores()
+  }, [loadScores])
+
+  const changed = questions.filter(question => drafts[question.id] !== toDraft(question))
+  const invalid = changed.some(question => {
+    const draft = drafts[question.id]
+    return draft !== '' && !(Number(draft) >= 0 && Number(draft) <= 100)
+  })
+
+  const saveScores = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      const response = await fetch(baseUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scores: changed.map(question => ({
+            question_id: question.id,
+            score: drafts[question.id] === '' ? null : Number(drafts[question.id])
+          }))
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save evaluator scores')
+      setQuestions(data.questions)
+      setDrafts(toDrafts(data.questions))
+      onSaved?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save evaluator scores')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Evaluator Scores</CardTitle>
+        <p className="text-sm text-gray-600">
+          Scores the commissioner awarded per question, as a percentage. They set the actual quality score
+          and count towards the effectiveness of the answer bank answers used.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {!loading && questions.length === 0 && !error && (
+          <p className="text-sm text-gray-600">This tender has no questions yet.</p>
+        )}
+
+        {questions.map(question => (
+          <div key={question.id} className="flex items-center justify-between gap-4">
+            <label htmlFor={`evaluator-score-${question.id}`} className="text-sm text-gray-700">
+              {question.question_number && <span className="text-gray-500 mr-2">{question.question_number}</span>}
+              {question.question_text}
+            </label>
+            <div className="flex items-center gap-1 shrink-0">
+              <Input
+                id={`evaluator-score-${question.id}`}
+                type="number"
+                min={0}
+                max={100}
+                step="0.5"
+                value={drafts[question.id] ?? ''}
+                onChange={event => setDrafts(prev => ({ ...prev, [question.id]: event.target.value }))}
+                className="w-20"
+              />
+              <span className="text-sm text-gray-500">%</span>
+            </div>
+          </div>
+        ))}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {questions.length > 0 && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={saveScores} disabled={saving || invalid || changed.length === 0}>
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save scores
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,299 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { AlertCircle, CheckCircle2, Loader2, Save, Send } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Progress } from '@/components/ui/progress'
+import { Textarea } from '@/components/ui/textarea'
+import type { QuestionScorecard, ReviewScore, StageScorecard } from '@/lib/services/colour-team-reviews'
+
+interface ReviewScorecardProps {
+  tenderId: string
+  stageId: string
+  // Assigned reviewers score while the stage is open
+  canScore: boolean
+  submitted: boolean
+  onSubmitted: () => void
+}
+
+interface ScoreDraft {
+  score: string
+  strengths: string
+  weaknesses: string
+  comments: string
+}
+
+const toDraft = (score?: ReviewScore): ScoreDraft => ({
+  score: score ? String(score.score) : '',
+  strengths: score?.strengths.join('\n') ?? '',
+  weaknesses: score?.weaknesses.join('\n') ?? '',
+  comments: score?.comments ?? ''
+})
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean)
+
+export default function ReviewScorecard({ tenderId, stageId, canScore, submitted, onSubmitted }: ReviewScorecardProps) {
+  const [scorecard, setScorecard] = useState<(StageScorecard & { ownScores: ReviewScore[] }) | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, ScoreDraft>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const baseUrl = `/api/tender/${tenderId}/reviews/${stageId}`
+
+  const loadScorecard = useCallback(async () => {
+    try {
+      const response = await fetch(baseUrl)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load scorecard')
+      setScorecard(data.scorecard)
+      setDrafts(Object.fromEntries(
+        (data.scorecard.ownScores as ReviewScore[]).map(score => [score.question_id, toDraft(score)])
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scorecard')
+    }
+  }, [baseUrl])
+
+  useEffect(() => {
+    setScorecard(null)
+    setError(null)
+    loadScorecard()
+  }, [loadScorecard])
+
+  const updateDraft = (questionId: string, patch: Partial<ScoreDraft>) => {
+    setDrafts(prev => ({ ...prev, [questionId]: { ...(prev[questionId] ?? toDraft()), ...patch } }))
+  }
+
+  const saveScore = async (question: QuestionScorecard) => {
+    const draft = drafts[question.questionId]
+    if (!draft || draft.score === '') return
+
+    try {
+      setSavingId(question.questionId)
+      setError(null)
+      const response = await fetch(`${baseUrl}/scores`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question_id: question.questionId,
+          score: Number(draft.score),
+          strengths: toLines(draft.strengths),
+          weaknesses: toLines(draft.weaknesses),
+          comments: draft.comments || null
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save score')
+      await loadScorecard()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save score')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const submitScorecard = async () => {
+    try {
+      setSubmitting(true)
+      setError(null)
+      const response = await fetch(`${baseUrl}/submit`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to submit scorecard')
+      onSubmitted()
+      await loadScorecard()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit scorecard')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!scorecard) {
+    return error ? (
+      <div className="flex items-center gap-2 text-sm text-red-600">
+        <AlertCircle className="w-4 h-4" />
+        {error}
+      </div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  const scaleOptions = Array.from({ length: scorecard.scaleMax * 2 + 1 }, (_, index) => index / 2)
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-gray-600">Predicted quality score</p>
+              <p className="text-3xl font-bold text-gray-900">
+                {scorecard.predictedScore === null ? '—' : `${scorecard.predictedScore}%`}
+              </p>
+              {scorecard.predictedMarks !== null && (
+                <p className="text-xs text-gray-500">
+                  {scorecard.predictedMarks} of {scorecard.availableMarks} weighted marks
+                </p>
+              )}
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Questions scored</p>
+              <p className="text-3xl font-bold text-gray-900">
+                {scorecard.scoredQuestions}/{scorecard.questions.length}
+              </p>
+              <Progress
+                value={scorecard.questions.length ? (scorecard.scoredQuestions / scorecard.questions.length) * 100 : 0}
+                className="h-2 mt-2"
+              />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Scorecards submitted</p>
+              <p className="text-3xl font-bold text-gray-900">
+                {scorecard.submittedReviewers}/{scorecard.totalReviewers}
+              </p>
+              <p className="text-xs text-gray-500">Scored 0–{scorecard.scaleMax}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {scorecard.questions.length === 0 && (
+        <p className="text-sm text-gray-500">This tender has no questions to score yet.</p>
+      )}
+
+      {scorecard.questions.map(question => {
+        const draft = drafts[question.questionId] ?? toDraft()
+
+        return (
+          <Card key={question.questionId}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-base">
+                  {question.questionNumber && <span className="text-gray-500 mr-2">{question.questionNumber}</span>}
+                  {question.questionText}
+                </CardTitle>
+                <div className="flex items-center gap-2 shrink-0">
+                  {question.weight > 0 && <Badge variant="outline">Weight {question.weight}</Badge>}
+                  {question.averageScore !== null && (
+                    <Badge variant="secondary">
+                      Avg {question.averageScore}/{scorecard.scaleMax}
+                    </Badge>
+                  )}
+                  {question.spread !== null && question.spread >= scorecard.scaleMax / 2.5 && (
+                    <Badge variant="destructive" title="Reviewers disagree on this answer">
+                      Spread {question.spread}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              {question.evaluationCriteria && (
+                <p className="text-sm text-gray-600 mt-1">
+                  <span className="font-medium">Evaluation criteria:</span> {question.evaluationCriteria}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(question.strengths.length > 0 || question.weaknesses.length > 0) && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="font-medium text-green-700 mb-1">Strengths</p>
+                    <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                      {question.strengths.map(strength => <li key={strength}>{strength}</li>)}
+                    </ul>
+                  </div>
+                  <div>
+                    <p className="font-medium text-red-700 mb-1">Weaknesses</p>
+                    <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                      {question.weaknesses.map(weakness => <li key={weakness}>{weakness}</li>)}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              {canScore && (
+                <div className="border-t pt-4 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <label className="text-sm font-medium text-gray-700" htmlFor={`score-${question.questionId}`}>
+                      Your score
+                    </label>
+                    <select
+                      id={`score-${question.questionId}`}
+                      value={draft.score}
+                      onChange={event => updateDraft(question.questionId, { score: event.target.value })}
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="">—</option>
+                      {scaleOptions.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-500">/ {scorecard.scaleMax}</span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <Textarea
+                      placeholder="Strengths, one per line"
+                      value={draft.strengths}
+                      onChange={event => updateDraft(question.questionId, { strengths: event.target.value })}
+                      rows={3}
+                    />
+                    <Textarea
+                      placeholder="Weaknesses, one per line"
+                      value={draft.weaknesses}
+                      onChange={event => updateDraft(question.questionId, { weaknesses: event.target.value })}
+                      rows={3}
+                    />
+                  </div>
+                  <Input
+                    placeholder="Comments for the writer (optional)"
+                    value={draft.comments}
+                    onChange={event => updateDraft(question.questionId, { comments: event.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => saveScore(question)}
+                    disabled={draft.score === '' || savingId === question.questionId}
+                  >
+                    {savingId === question.questionId
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      : <Save className="w-4 h-4 mr-2" />}
+                    Save score
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {canScore && scorecard.questions.length > 0 && (
+        <div className="flex justify-end">
+          {submitted ? (
+            <span className="inline-flex items-center text-sm text-green-700">
+              <CheckCircle2 className="w-4 h-4 mr-1" />
+              Scorecard submitted
+            </span>
+          ) : (
+            <Button onClick={submitScorecard} disabled={submitting || scorecard.ownScores.length === 0}>
+              {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Submit scorecard
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
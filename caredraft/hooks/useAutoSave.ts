@@ -1,8 +1,8 @@
 'use client'
 
 import { useCallback, useEffect, useRef, useState } from 'react'
-import { VersionsService } from '@/lib/services/collaboration'
-import { CreateVersionInput } from '@/types/collaboration'
+import { countRichTextWords } from '@/lib/utils/rich-text'
+import { CreateVersionInput, Version } from '@/types/collaboration'
 
 interface UseAutoSaveOptions {
   sectionId: string
@@ -17,10 +17,31 @@ interface UseAutoSaveReturn {
   isSaving: boolean
   lastSaved: Date | null
   saveError: string | null
-  saveNow: () => Promise<void>
+  // Save by hand, optionally naming the version as a milestone
+  saveNow: (milestoneName?: string) => Promise<void>
   hasUnsavedChanges: boolean
 }
 
+/**
+ * Save section content as a version. Unchanged content gives back the
+ * latest version rather than a new one.
+ */
+async function saveVersion(input: CreateVersionInput): Promise<Version> {
+  const response = await fetch(`/api/sections/${input.section_id}/versions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      content: input.content_snapshot,
+      change_summary: input.change_summary || undefined,
+      save_kind: input.save_kind,
+      milestone_name: input.milestone_name || undefined
+    })
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Failed to create version')
+  return data.version as Version
+}
+
 export function useAutoSave({
   sectionId,
   content,
@@ -46,7 +67,12 @@ export function useAutoSave({
     }
   }, [content])
 
-  const performSave = useCallback(async (contentToSave: string, changeSummary?: string) => {
+  const performSave = useCallback(async (
+    contentToSave: string,
+    changeSummary?: string,
+    saveKind: CreateVersionInput['save_kind'] = 'autosave',
+    milestoneName?: string
+  ) => {
     if (!sectionId || !contentToSave.trim()) {
       return
     }
@@ -55,9 +81,6 @@ export function useAutoSave({
       setIsSaving(true)
       setSaveError(null)
 
-      // Calculate word count
-      const wordCount = contentToSave.trim().split(/\s+/).length
-
       // Generate change summary if not provided
       let summary = changeSummary
       if (!summary && lastSaveContentRef.current) {
@@ -68,10 +91,11 @@ export function useAutoSave({
         section_id: sectionId,
         content_snapshot: contentToSave,
         change_summary: summary,
-        word_count: wordCount
+        save_kind: saveKind,
+        milestone_name: milestoneName
       }
 
-      const version = await VersionsService.createVersion(versionInput)
+      const version = await saveVersion(versionInput)
       
       if (version) {
         setLastSaved(new Date())
@@ -92,12 +116,12 @@ export function useAutoSave({
     }
   }, [sectionId, onSave, onVersionCreated])
 
-  const saveNow = useCallback(async () => {
+  const saveNow = useCallback(async (milestoneName?: string) => {
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current)
       saveTimeoutRef.current = null
     }
-    await performSave(content)
+    await performSave(content, undefined, 'manual', milestoneName)
   }, [content, performSave])
 
   // Auto-save with debouncing
@@ -161,8 +185,8 @@ export function useAutoSave({
 
 // Helper function to generate a basic change summary
 function generateChangeSummary(oldContent: string, newContent: string): string {
-  const oldWords = oldContent.trim().split(/\s+/).length
-  const newWords = newContent.trim().split(/\s+/).length
+  const oldWords = countRichTextWords(oldContent)
+  const newWords = countRichTextWords(newContent)
   const wordDiff = newWords - oldWords
 
   if (Math.abs(wordDiff) < 5) {
@@ -181,7 +205,8 @@ export function useVersionControl(sectionId: string) {
 
   const createVersion = useCallback(async (
     content: string, 
-    changeSummary: string
+    changeSummary: string,
+    milestoneName?: string
   ): Promise<number | null> => {
     if (!sectionId || !content.trim()) {
       return null
@@ -191,16 +216,15 @@ export function useVersionControl(sectionId: string) {
       setIsCreating(true)
       setError(null)
 
-      const wordCount = content.trim().split(/\s+/).length
-
       const versionInput: CreateVersionInput = {
         section_id: sectionId,
         content_snapshot: content,
         change_summary: changeSummary,
-        word_count: wordCount
+        save_kind: 'manual',
+        milestone_name: milestoneName
       }
 
-      const version = await VersionsService.createVersion(versionInput)
+      const version = await saveVersion(versionInput)
       return version?.version_number || null
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to create version'
@@ -0,0 +1,245 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { SectionCoeditingService } from '@/lib/services/section-coediting'
+import { CrdtOperation, TextCrdt, TextCrdtState } from '@/lib/utils/text-crdt'
+
+export type CoeditingStatus = 'connecting' | 'live' | 'offline'
+
+interface UseCollaborativeSectionReturn {
+  // Merged section content; null until loaded
+  content: string | null
+  status: CoeditingStatus
+  // Local edits not yet sent, kept in the browser while offline
+  unsyncedEdits: number
+  error: string | null
+  applyLocalContent: (content: string) => void
+}
+
+// How long after the last local edit to save a snapshot
+const SAVE_DELAY_MS = 5000
+const RETRY_DELAY_MS = 5000
+
+interface StoredEdits {
+  state: TextCrdtState
+  unsynced: CrdtOperation[][]
+}
+
+const storageKey = (sectionId: string) => `caredraft:section-edits:${sectionId}`
+
+function readStoredEdits(sectionId: string): StoredEdits | null {
+  try {
+    const stored = window.localStorage.getItem(storageKey(sectionId))
+    return stored ? JSON.parse(stored) as StoredEdits : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Co-edit a section's content. Local edits are sent as CRDT operations and
+ * everyone else's are merged in as they arrive. Edits made offline are kept
+ * in the browser and merged when the connection comes back.
+ */
+export function useCollaborativeSection(sectionId: string): UseCollaborativeSectionReturn {
+  const [content, setContent] = useState<string | null>(null)
+  const [status, setStatus] = useState<CoeditingStatus>('connecting')
+  const [unsyncedEdits, setUnsyncedEdits] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const serviceRef = useRef<SectionCoeditingService | null>(null)
+  const crdtRef = useRef<TextCrdt | null>(null)
+  const unsyncedRef = useRef<CrdtOperation[][]>([])
+  const lastOpIdRef = useRef(0)
+  const flushingRef = useRef(false)
+  const connectedRef = useRef(false)
+  const needsSaveRef = useRef(false)
+  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const clientIdRef = useRef('')
+
+  const service = () => {
+    serviceRef.current ??= new SectionCoeditingService()
+    return serviceRef.current
+  }
+
+  const persist = useCallback(() => {
+    const crdt = crdtRef.current
+    if (!crdt) return
+    try {
+      if (unsyncedRef.current.length > 0) {
+        const stored: StoredEdits = { state: crdt.toState(), unsynced: unsyncedRef.current }
+        window.localStorage.setItem(storageKey(sectionId), JSON.stringify(stored))
+      } else {
+        window.localStorage.removeItem(storageKey(sectionId))
+      }
+    } catch (storageError) {
+      console.warn('Could not keep unsent edits in the browser:', storageError)
+    }
+  }, [sectionId])
+
+  const save = useCallback(async () => {
+    const crdt = crdtRef.current
+    if (!crdt || !needsSaveRef.current || unsyncedRef.current.length > 0) return
+
+    try {
+      // Catch up on anything realtime missed, so the snapshot covers every
+      // logged edit up to the one it claims
+      const edits = await service().getEditsSince(sectionId, 0)
+      let changed = false
+      for (const batch of edits) {
+        changed = crdt.apply(batch.ops) || changed
+        lastOpIdRef.current = Math.max(lastOpIdRef.current, batch.id)
+      }
+      if (changed) setContent(crdt.text())
+
+      await service().saveDocument(sectionId, crdt, lastOpIdRef.current)
+      needsSaveRef.current = false
+    } catch (saveError) {
+      console.error('Error saving section:', saveError)
+    }
+  }, [sectionId])
+
+  const scheduleSave = useCallback(() => {
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current)
+    saveTimeoutRef.current = setTimeout(save, SAVE_DELAY_MS)
+  }, [save])
+
+  // Send local edits in the order they were made, as one batch
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !crdtRef.current) return
+    flushingRef.current = true
+
+    try {
+      while (unsyncedRef.current.length > 0) {
+        const sending = unsyncedRef.current.length
+        const id = await service().appendEdits(sectionId, clientIdRef.current, unsyncedRef.current.slice(0, sending).flat())
+        lastOpIdRef.current = Math.max(lastOpIdRef.current, id)
+        unsyncedRef.current.splice(0, sending)
+      }
+      persist()
+      setUnsyncedEdits(0)
+      if (connectedRef.current) setStatus('live')
+      scheduleSave()
+    } catch (flushError) {
+      console.error('Error sending edits:', flushError)
+      persist()
+      setStatus('offline')
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current)
+      retryTimeoutRef.current = setTimeout(() => { flush() }, RETRY_DELAY_MS)
+    } finally {
+      flushingRef.current = false
+    }
+  }, [sectionId, persist, scheduleSave])
+
+  // Merge the saved snapshot and logged edits into this copy, then send
+  // whatever was edited here in the meantime
+  const sync = useCallback(async () => {
+    try {
+      const document = await service().loadDocument(sectionId)
+      let crdt = crdtRef.current
+      if (!crdt) {
+        crdt = new TextCrdt(clientIdRef.current)
+        // Edits made here while offline, from an earlier visit
+        const stored = readStoredEdits(sectionId)
+        if (stored) {
+          crdt.merge(stored.state)
+          unsyncedRef.current = stored.unsynced
+          needsSaveRef.current = true
+        }
+        crdtRef.current = crdt
+      }
+
+      crdt.merge(document.state)
+      lastOpIdRef.current = Math.max(lastOpIdRef.current, document.lastOpId)
+      for (const batch of document.edits) {
+        crdt.apply(batch.ops)
+        lastOpIdRef.current = Math.max(lastOpIdRef.current, batch.id)
+      }
+
+      setContent(crdt.text())
+      setUnsyncedEdits(unsyncedRef.current.length)
+      setError(null)
+      setStatus('live')
+      await flush()
+    } catch (syncError) {
+      setStatus('offline')
+      setError(syncError instanceof Error ? syncError.message : 'Failed to load section')
+    }
+  }, [sectionId, flush])
+
+  useEffect(() => {
+    clientIdRef.current = crypto.randomUUID()
+    crdtRef.current = null
+    unsyncedRef.current = []
+    lastOpIdRef.current = 0
+    connectedRef.current = false
+    setContent(null)
+    setStatus('connecting')
+
+    const unsubscribe = service().subscribeToEdits(
+      sectionId,
+      (batch) => {
+        lastOpIdRef.current = Math.max(lastOpIdRef.current, batch.id)
+        const crdt = crdtRef.current
+        if (!crdt || batch.client_id === clientIdRef.current) return
+        if (crdt.apply(batch.ops)) setContent(crdt.text())
+      },
+      (channelStatus) => {
+        if (channelStatus === 'SUBSCRIBED') {
+          // Load on first connect; catch up on what was missed after a drop
+          connectedRef.current = true
+          sync()
+        } else if (connectedRef.current) {
+          connectedRef.current = false
+          setStatus('offline')
+        }
+      }
+    )
+
+    const handleOnline = () => {
+      connectedRef.current = true
+      sync()
+    }
+    const handleOffline = () => {
+      connectedRef.current = false
+      setStatus('offline')
+    }
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current)
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current)
+        save()
+      }
+    }
+  }, [sectionId, sync, save])
+
+  const applyLocalContent = useCallback((nextContent: string) => {
+    const crdt = crdtRef.current
+    if (!crdt) return
+
+    const ops = crdt.applyLocalText(nextContent)
+    if (ops.length === 0) return
+
+    unsyncedRef.current.push(ops)
+    needsSaveRef.current = true
+    setUnsyncedEdits(unsyncedRef.current.length)
+    if (!connectedRef.current) persist()
+    setContent(crdt.text())
+    flush()
+  }, [persist, flush])
+
+  return {
+    content,
+    status,
+    unsyncedEdits,
+    error,
+    applyLocalContent
+  }
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  SectionWithChildren,
+  CreateSectionData,
+  UpdateSectionData,
+  getSectionsHierarchy,
+  createSection,
+  updateSection,
+  deleteSection,
+  reorderSection
+} from '@/lib/sections'
+
+interface UseSectionsReturn {
+  sections: SectionWithChildren[]
+  isLoading: boolean
+  error: string | null
+  refetch: () => Promise<void>
+  create: (data: CreateSectionData) => Promise<void>
+  update: (sectionId: string, updates: UpdateSectionData) => Promise<void>
+  remove: (sectionId: string) => Promise<void>
+  reorder: (sectionId: string, destinationIndex: number, newParentId?: string) => Promise<void>
+}
+
+/**
+ * Custom hook for loading and editing the section tree of a project.
+ * Every mutation is persisted first and then the tree is reloaded so
+ * sort order and reparenting always reflect the database.
+ */
+export function useSections(projectId?: string): UseSectionsReturn {
+  const [sections, setSections] = useState<SectionWithChildren[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refetch = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setSections(await getSectionsHierarchy(projectId))
+    } catch (err) {
+      console.error('Error fetching sections:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load sections')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId])
+
+  const mutate = useCallback(async (operation: () => Promise<unknown>, failureMessage: string) => {
+    try {
+      setError(null)
+      await operation()
+    } catch (err) {
+      console.error(`${failureMessage}:`, err)
+      setError(err instanceof Error ? err.message : failureMessage)
+    } finally {
+      await refetch()
+    }
+  }, [refetch])
+
+  const create = useCallback((data: CreateSectionData) => mutate(
+    () => createSection({ ...data, projectId: data.projectId ?? projectId }),
+    'Failed to create section'
+  ), [mutate, projectId])
+
+  const update = useCallback((sectionId: string, updates: UpdateSectionData) => mutate(
+    () => updateSection(sectionId, updates),
+    'Failed to update section'
+  ), [mutate])
+
+  const remove = useCallback((sectionId: string) => mutate(
+    () => deleteSection(sectionId),
+    'Failed to delete section'
+  ), [mutate])
+
+  const reorder = useCallback((sectionId: string, destinationIndex: number, newParentId?: string) => mutate(
+    () => reorderSection(sectionId, destinationIndex, newParentId),
+    'Failed to reorder section'
+  ), [mutate])
+
+  useEffect(() => {
+    refetch()
+  }, [refetch])
+
+  return {
+    sections,
+    isLoading,
+    error,
+    refetch,
+    create,
+    update,
+    remove,
+    reorder
+  }
+}
+
+export default useSections
@@ -0,0 +1,70 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useAuth } from '@/components/providers/MinimalAuthProvider'
+import { usePermissions } from '@/hooks/usePermissions'
+import type { SuggestionAuthor } from '@/lib/editor/track-changes'
+
+interface UseSuggestionAccessReturn {
+  // The current user, as suggestions they make are attributed
+  author: SuggestionAuthor | null
+  // Viewers and the proposal's assigned reviewers can only suggest changes,
+  // as can everyone until the assignments have loaded
+  mustSuggest: boolean
+  // Everyone else edits directly and accepts or rejects suggestions
+  canResolve: boolean
+  loading: boolean
+}
+
+/**
+ * Whether the current user edits a proposal directly or suggests changes
+ * for its writers to review
+ */
+export function useSuggestionAccess(proposalId?: string): UseSuggestionAccessReturn {
+  const { user } = useAuth()
+  const { getCurrentRole } = usePermissions()
+  const [isReviewer, setIsReviewer] = useState(false)
+  // Until the proposal's assignments are known, treat the user as a reviewer
+  const [assignmentsLoaded, setAssignmentsLoaded] = useState(!proposalId)
+  const [loading, setLoading] = useState(Boolean(proposalId))
+
+  useEffect(() => {
+    if (!proposalId || !user) {
+      setIsReviewer(false)
+      setAssignmentsLoaded(!proposalId)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    const loadAssignments = async () => {
+      try {
+        setLoading(true)
+        setAssignmentsLoaded(false)
+        const response = await fetch(`/api/proposals/${proposalId}/reviewers`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load reviewers')
+        const assignments = (data.assignments || []) as Array<{ reviewer_id: string }>
+        if (!cancelled) {
+          setIsReviewer(assignments.some(assignment => assignment.reviewer_id === user.id))
+          setAssignmentsLoaded(true)
+        }
+      } catch (error) {
+        console.error('Error loading reviewer assignments:', error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadAssignments()
+    return () => {
+      cancelled = true
+    }
+  }, [proposalId, user])
+
+  const authorName = user?.user_metadata?.full_name || user?.email || 'Reviewer'
+  const author = useMemo(() => (user ? { id: user.id, name: authorName } : null), [user, authorName])
+  const mustSuggest = getCurrentRole() === 'viewer' || isReviewer || !assignmentsLoaded
+
+  return { author, mustSuggest, canResolve: Boolean(user) && !mustSuggest, loading }
+}
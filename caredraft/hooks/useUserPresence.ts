@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useRef } from 'react'
 import { useAuth } from '@/components/providers/MinimalAuthProvider'
 import { UserPresenceService } from '@/lib/services/collaboration'
 import { UserPresence, UpdateUserPresenceInput } from '@/types/collaboration'
@@ -10,6 +10,8 @@ export function useUserPresence(sectionId: string) {
   const { user } = useAuth()
   const [presences, setPresences] = useState<UserPresence[]>([])
   const [loading, setLoading] = useState(false)
+  const presencesRef = useRef<UserPresence[]>([])
+  presencesRef.current = presences
 
   const updatePresence = useCallback(async (
     cursorPosition: number | null = null,
@@ -59,12 +61,21 @@ export function useUserPresence(sectionId: string) {
         subscription = UserPresenceService.subscribeToPresence(
           sectionId,
           (payload) => {
-            // Handle real-time updates
+            // Someone new opened the section; reload to get their name
+            if (payload.eventType === 'INSERT' || (payload.new && !presencesRef.current.some(p => p.id === payload.new!.id))) {
+              UserPresenceService.getActiveUsers(sectionId)
+                .then(setPresences)
+                .catch(loadError => console.error('Error loading presence:', loadError))
+              return
+            }
+
+            // Handle real-time updates, keeping the user details loaded earlier
             setPresences(prev => {
-              if (payload.eventType === 'INSERT' && payload.new) {
-                return [...prev, payload.new]
-              } else if (payload.eventType === 'UPDATE' && payload.new) {
-                return prev.map(p => p.id === payload.new!.id ? payload.new! : p)
+              if (payload.eventType === 'UPDATE' && payload.new) {
+                const updated = payload.new
+                return updated.is_active
+                  ? prev.map(p => p.id === updated.id ? { ...updated, user: p.user } : p)
+                  : prev.filter(p => p.id !== updated.id)
               } else if (payload.eventType === 'DELETE' && payload.old) {
                 return prev.filter(p => p.id !== payload.old!.id)
               }
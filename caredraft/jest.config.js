@@ -10,7 +10,8 @@ const config = {
   testPathIgnorePatterns: [
     '<rootDir>/.next/', 
     '<rootDir>/node_modules/',
-    '<rootDir>/e2e/'
+    '<rootDir>/e2e/',
+    '<rootDir>/__tests__/utils/supabase-mock.ts'
   ],
   transform: {
     '^.+\\.(ts|tsx)$': 'ts-jest',
@@ -60,7 +61,8 @@ const config = {
   testPathIgnorePatterns: [
     '<rootDir>/.next/', 
     '<rootDir>/node_modules/',
-    '<rootDir>/e2e/'
+    '<rootDir>/e2e/',
+    '<rootDir>/__tests__/utils/supabase-mock.ts'
   ],
   globals: {
     'ts-jest': {
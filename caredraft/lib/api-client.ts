@@ -139,7 +139,8 @@ function logRequest(model: string, messages: any[], isRetry: boolean = false) {
 export async function generateWithFallback(
   messages: Array<{ role: 'system' | 'user' | 'assistant', content: string }>,
   isComplex: boolean = false,
-  customModel?: string
+  customModel?: string,
+  options: { temperature?: number, maxTokens?: number } = {}
 ): Promise<{
   text: string
   model: string
@@ -171,10 +172,10 @@ export async function generateWithFallback(
       const response = await openaiClient.chat.completions.create({
         model: currentModel,
         messages,
-        temperature: 0.7,
-        max_tokens: 2000,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 2000,
         // Add specific settings for fine-tuned models
-        ...(isFineTunedModel(currentModel) && {
+        ...(isFineTunedModel(currentModel) && options.temperature === undefined && {
           temperature: 0.8, // Fine-tuned models often work better with slightly higher temperature
           top_p: 0.95,
         })
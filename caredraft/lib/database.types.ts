@@ -53,46 +53,118 @@ export type Database = {
           },
         ]
       }
+      compliance_item_links: {
+        Row: {
+          compliance_item_id: string
+          coverage_score: number | null
+          created_at: string
+          created_by: string | null
+          id: string
+          link_type: string
+          matched_terms: string[]
+          section_id: string | null
+          tender_question_id: string | null
+        }
+        Insert: {
+          compliance_item_id: string
+          coverage_score?: number | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          link_type?: string
+          matched_terms?: string[]
+          section_id?: string | null
+          tender_question_id?: string | null
+        }
+        Update: {
+          compliance_item_id?: string
+          coverage_score?: number | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          link_type?: string
+          matched_terms?: string[]
+          section_id?: string | null
+          tender_question_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_item_links_compliance_item_id_fkey"
+            columns: ["compliance_item_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_item_links_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       compliance_items: {
         Row: {
+          category: string | null
           completed: boolean
           confidence_score: number | null
+          coverage_checked_at: string | null
+          coverage_score: number | null
+          coverage_status: string | null
           created_at: string | null
           id: string
           notes: string | null
           proposal_id: string
           requirement: string
+          requirement_key: string | null
           source_type: string
           source_document_id: string | null
           source_page: number | null
+          source_quote: string | null
+          source_references: Json
           sort_order: number
           updated_at: string | null
         }
         Insert: {
+          category?: string | null
           completed?: boolean
           confidence_score?: number | null
+          coverage_checked_at?: string | null
+          coverage_score?: number | null
+          coverage_status?: string | null
           created_at?: string | null
           id?: string
           notes?: string | null
           proposal_id: string
           requirement: string
+          requirement_key?: string | null
           source_type?: string
           source_document_id?: string | null
           source_page?: number | null
+          source_quote?: string | null
+          source_references?: Json
           sort_order?: number
           updated_at?: string | null
         }
         Update: {
+          category?: string | null
           completed?: boolean
           confidence_score?: number | null
+          coverage_checked_at?: string | null
+          coverage_score?: number | null
+          coverage_status?: string | null
           created_at?: string | null
           id?: string
           notes?: string | null
           proposal_id?: string
           requirement?: string
+          requirement_key?: string | null
           source_type?: string
           source_document_id?: string | null
           source_page?: number | null
+          source_quote?: string | null
+          source_references?: Json
           sort_order?: number
           updated_at?: string | null
         }
@@ -106,6 +178,274 @@ export type Database = {
           },
         ]
       }
+      document_access_logs: {
+        Row: {
+          access_type: string
+          accessed_at: string | null
+          document_id: string
+          error_message: string | null
+          id: string
+          ip_address: string | null
+          share_id: string | null
+          success: boolean
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          access_type: string
+          accessed_at?: string | null
+          document_id: string
+          error_message?: string | null
+          id?: string
+          ip_address?: string | null
+          share_id?: string | null
+          success: boolean
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          access_type?: string
+          accessed_at?: string | null
+          document_id?: string
+          error_message?: string | null
+          id?: string
+          ip_address?: string | null
+          share_id?: string | null
+          success?: boolean
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_access_logs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "exported_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_access_logs_share_id_fkey"
+            columns: ["share_id"]
+            isOneToOne: false
+            referencedRelation: "document_shares"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_access_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_shares: {
+        Row: {
+          allow_download: boolean | null
+          created_at: string | null
+          custom_message: string | null
+          document_id: string
+          download_count: number | null
+          expires_at: string
+          id: string
+          max_downloads: number | null
+          notify_on_access: boolean | null
+          require_authentication: boolean | null
+          revoked_at: string | null
+          share_token: string | null
+          shared_by: string
+        }
+        Insert: {
+          allow_download?: boolean | null
+          created_at?: string | null
+          custom_message?: string | null
+          document_id: string
+          download_count?: number | null
+          expires_at: string
+          id?: string
+          max_downloads?: number | null
+          notify_on_access?: boolean | null
+          require_authentication?: boolean | null
+          revoked_at?: string | null
+          share_token?: string | null
+          shared_by: string
+        }
+        Update: {
+          allow_download?: boolean | null
+          created_at?: string | null
+          custom_message?: string | null
+          document_id?: string
+          download_count?: number | null
+          expires_at?: string
+          id?: string
+          max_downloads?: number | null
+          notify_on_access?: boolean | null
+          require_authentication?: boolean | null
+          revoked_at?: string | null
+          share_token?: string | null
+          shared_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_shares_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "exported_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_shares_shared_by_fkey"
+            columns: ["shared_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exported_documents: {
+        Row: {
+          content_hash: string | null
+          created_at: string | null
+          download_count: number | null
+          expires_at: string | null
+          export_format: string
+          file_path: string
+          file_size: number
+          filename: string
+          id: string
+          is_public: boolean | null
+          metadata: Json | null
+          organization_id: string
+          original_title: string
+          proposal_id: string | null
+          shareable_link: string | null
+          updated_at: string | null
+          user_id: string
+          version: number | null
+        }
+        Insert: {
+          content_hash?: string | null
+          created_at?: string | null
+          download_count?: number | null
+          expires_at?: string | null
+          export_format: string
+          file_path: string
+          file_size: number
+          filename: string
+          id?: string
+          is_public?: boolean | null
+          metadata?: Json | null
+          organization_id: string
+          original_title: string
+          proposal_id?: string | null
+          shareable_link?: string | null
+          updated_at?: string | null
+          user_id: string
+          version?: number | null
+        }
+        Update: {
+          content_hash?: string | null
+          created_at?: string | null
+          download_count?: number | null
+          expires_at?: string | null
+          export_format?: string
+          file_path?: string
+          file_size?: number
+          filename?: string
+          id?: string
+          is_public?: boolean | null
+          metadata?: Json | null
+          organization_id?: string
+          original_title?: string
+          proposal_id?: string | null
+          shareable_link?: string | null
+          updated_at?: string | null
+          user_id?: string
+          version?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exported_documents_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exported_documents_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      extracted_documents: {
+        Row: {
+          character_count: number | null
+          created_at: string | null
+          extracted_at: string | null
+          extraction_error: string | null
+          extraction_method: string | null
+          extraction_status: string | null
+          file_name: string
+          file_path: string
+          file_size: number | null
+          file_type: string | null
+          id: string
+          original_text: string | null
+          page_count: number | null
+          processed_text: string | null
+          processing_time: number | null
+          updated_at: string | null
+          uploaded_at: string | null
+          user_id: string
+          word_count: number | null
+        }
+        Insert: {
+          character_count?: number | null
+          created_at?: string | null
+          extracted_at?: string | null
+          extraction_error?: string | null
+          extraction_method?: string | null
+          extraction_status?: string | null
+          file_name: string
+          file_path: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          original_text?: string | null
+          page_count?: number | null
+          processed_text?: string | null
+          processing_time?: number | null
+          updated_at?: string | null
+          uploaded_at?: string | null
+          user_id: string
+          word_count?: number | null
+        }
+        Update: {
+          character_count?: number | null
+          created_at?: string | null
+          extracted_at?: string | null
+          extraction_error?: string | null
+          extraction_method?: string | null
+          extraction_status?: string | null
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          original_text?: string | null
+          page_count?: number | null
+          processed_text?: string | null
+          processing_time?: number | null
+          updated_at?: string | null
+          uploaded_at?: string | null
+          user_id?: string
+          word_count?: number | null
+        }
+        Relationships: []
+      }
       proposals: {
         Row: {
           created_at: string | null
@@ -206,48 +546,60 @@ export type Database = {
       }
       sections: {
         Row: {
-          assigned_to: string | null
           content: string | null
           created_at: string | null
+          current_word_count: number | null
+          description: string | null
           due_date: string | null
           id: string
+          owner_id: string | null
           parent_section_id: string | null
-          proposal_id: string
-          status: Database["public"]["Enums"]["section_status"]
+          project_id: string | null
+          sort_order: number | null
+          status: Database["public"]["Enums"]["section_status"] | null
+          tender_question_id: string | null
           title: string
           updated_at: string | null
-          word_limit: number | null
+          word_count_limit: number | null
         }
         Insert: {
-          assigned_to?: string | null
           content?: string | null
           created_at?: string | null
+          current_word_count?: number | null
+          description?: string | null
           due_date?: string | null
           id?: string
+          owner_id?: string | null
           parent_section_id?: string | null
-          proposal_id: string
-          status?: Database["public"]["Enums"]["section_status"]
+          project_id?: string | null
+          sort_order?: number | null
+          status?: Database["public"]["Enums"]["section_status"] | null
+          tender_question_id?: string | null
           title: string
           updated_at?: string | null
-          word_limit?: number | null
+          word_count_limit?: number | null
         }
         Update: {
-          assigned_to?: string | null
           content?: string | null
           created_at?: string | null
+          current_word_count?: number | null
+          description?: string | null
           due_date?: string | null
           id?: string
+          owner_id?: string | null
           parent_section_id?: string | null
-          proposal_id?: string
-          status?: Database["public"]["Enums"]["section_status"]
+          project_id?: string | null
+          sort_order?: number | null
+          status?: Database["public"]["Enums"]["section_status"] | null
+          tender_question_id?: string | null
           title?: string
           updated_at?: string | null
-          word_limit?: number | null
+          word_count_limit?: number | null
         }
         Relationships: [
           {
-            foreignKeyName: "sections_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "sections_owner_id_fkey"
+            columns: ["owner_id"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
@@ -260,10 +612,17 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sections_proposal_id_fkey"
-            columns: ["proposal_id"]
+            foreignKeyName: "sections_project_id_fkey"
+            columns: ["project_id"]
             isOneToOne: false
-            referencedRelation: "proposals"
+            referencedRelation: "tender_workflows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sections_tender_question_id_fkey"
+            columns: ["tender_question_id"]
+            isOneToOne: true
+            referencedRelation: "tender_questions"
             referencedColumns: ["id"]
           },
         ]
@@ -549,6 +908,7 @@ export type Database = {
           require_comments_on_rejection: boolean
           require_comments_on_approval: boolean
           allow_self_approval: boolean
+          required_approvals: number
           created_at: string
           updated_at: string
         }
@@ -561,6 +921,7 @@ export type Database = {
           require_comments_on_rejection?: boolean
           require_comments_on_approval?: boolean
           allow_self_approval?: boolean
+          required_approvals?: number
           created_at?: string
           updated_at?: string
         }
@@ -573,6 +934,7 @@ export type Database = {
           require_comments_on_rejection?: boolean
           require_comments_on_approval?: boolean
           allow_self_approval?: boolean
+          required_approvals?: number
           created_at?: string
           updated_at?: string
         }
@@ -636,6 +998,140 @@ export type Database = {
           },
         ]
       }
+      proposal_deadline_rules: {
+        Row: {
+          id: string
+          organization_id: string
+          from_status: Database["public"]["Enums"]["proposal_status"]
+          to_status: Database["public"]["Enums"]["proposal_status"]
+          deadline_hours: number
+          notification_hours: number[]
+          auto_transition: boolean
+          requires_approval: boolean
+          description: string
+          enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          from_status: Database["public"]["Enums"]["proposal_status"]
+          to_status: Database["public"]["Enums"]["proposal_status"]
+          deadline_hours: number
+          notification_hours?: number[]
+          auto_transition?: boolean
+          requires_approval?: boolean
+          description?: string
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          from_status?: Database["public"]["Enums"]["proposal_status"]
+          to_status?: Database["public"]["Enums"]["proposal_status"]
+          deadline_hours?: number
+          notification_hours?: number[]
+          auto_transition?: boolean
+          requires_approval?: boolean
+          description?: string
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      proposal_deadline_notifications: {
+        Row: {
+          id: string
+          proposal_id: string
+          rule_id: string
+          status_changed_at: string
+          kind: string
+          notification_hours: number
+          sent_at: string
+        }
+        Insert: {
+          id?: string
+          proposal_id: string
+          rule_id: string
+          status_changed_at: string
+          kind?: string
+          notification_hours?: number
+          sent_at?: string
+        }
+        Update: {
+          id?: string
+          proposal_id?: string
+          rule_id?: string
+          status_changed_at?: string
+          kind?: string
+          notification_hours?: number
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_deadline_notifications_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "proposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposal_deadline_notifications_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "proposal_deadline_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposal_deadline_runs: {
+        Row: {
+          id: string
+          organization_id: string
+          triggered_by: string | null
+          processed_at: string
+          proposals_checked: number
+          notifications_sent: number
+          transitions_performed: number
+          errors: Json
+          duration_ms: number | null
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          triggered_by?: string | null
+          processed_at?: string
+          proposals_checked?: number
+          notifications_sent?: number
+          transitions_performed?: number
+          errors?: Json
+          duration_ms?: number | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          triggered_by?: string | null
+          processed_at?: string
+          proposals_checked?: number
+          notifications_sent?: number
+          transitions_performed?: number
+          errors?: Json
+          duration_ms?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_deadline_runs_triggered_by_fkey"
+            columns: ["triggered_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       users: {
         Row: {
           created_at: string | null
@@ -726,10 +1222,37 @@ export type Database = {
           automatic: boolean
         }[]
       }
+      transition_proposal_status: {
+        Args: {
+          p_proposal_id: string
+          p_from_status: Database["public"]["Enums"]["proposal_status"]
+          p_to_status: Database["public"]["Enums"]["proposal_status"]
+          p_comment?: string | null
+          p_reason?: string | null
+        }
+        Returns: boolean
+      }
       auto_archive_expired_proposals: {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      apply_proposal_deadline_transition: {
+        Args: {
+          p_proposal_id: string
+          p_from_status: Database["public"]["Enums"]["proposal_status"]
+          p_to_status: Database["public"]["Enums"]["proposal_status"]
+          p_reason: string
+        }
+        Returns: boolean
+      }
+      cleanup_expired_documents: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      increment_download_count: {
+        Args: { doc_id: string; share_id?: string | null }
+        Returns: undefined
+      }
       get_compliance_statistics: {
         Args: { p_proposal_id: string }
         Returns: {
@@ -740,6 +1263,10 @@ export type Database = {
           manual_items: number
         }[]
       }
+      reorder_compliance_items: {
+        Args: { p_proposal_id: string; p_item_ids: string[]; p_new_orders: number[] }
+        Returns: boolean
+      }
       get_user_research_sessions: {
         Args: { 
           user_id: string
@@ -773,6 +1300,25 @@ export type Database = {
         Args: { user_id: string }
         Returns: Json
       }
+      move_section: {
+        Args: {
+          p_section_id: string
+          p_new_parent_id?: string | null
+          p_position?: number | null
+        }
+        Returns: Database["public"]["Tables"]["sections"]["Row"]
+      }
+      reorder_sibling_sections: {
+        Args: {
+          p_section_ids: string[]
+          p_parent_id?: string | null
+        }
+        Returns: undefined
+      }
+      delete_section_tree: {
+        Args: { p_section_id: string }
+        Returns: number
+      }
     }
     Enums: {
       notification_type: "mention" | "deadline" | "proposal_update" | "review_request" | "system_announcement" | "team_invitation" | "document_shared"
@@ -906,6 +1452,10 @@ export type User = Tables<'users'>
 export type Proposal = Tables<'proposals'>
 export type Section = Tables<'sections'>
 export type ComplianceItem = Tables<'compliance_items'>
+export type ComplianceItemLink = Tables<'compliance_item_links'>
+export type ExportedDocument = Tables<'exported_documents'>
+export type DocumentShare = Tables<'document_shares'>
+export type DocumentAccessLog = Tables<'document_access_logs'>
 export type AnswerBank = Tables<'answer_bank'>
 export type ResearchSession = Tables<'research_sessions'>
 export type Notification = Tables<'notifications'>
@@ -921,6 +1471,10 @@ export type UserInsert = TablesInsert<'users'>
 export type ProposalInsert = TablesInsert<'proposals'>
 export type SectionInsert = TablesInsert<'sections'>
 export type ComplianceItemInsert = TablesInsert<'compliance_items'>
+export type ComplianceItemLinkInsert = TablesInsert<'compliance_item_links'>
+export type ExportedDocumentInsert = TablesInsert<'exported_documents'>
+export type DocumentShareInsert = TablesInsert<'document_shares'>
+export type DocumentAccessLogInsert = TablesInsert<'document_access_logs'>
 export type AnswerBankInsert = TablesInsert<'answer_bank'>
 export type ResearchSessionInsert = TablesInsert<'research_sessions'>
 export type NotificationInsert = TablesInsert<'notifications'>
@@ -945,11 +1499,15 @@ export type ProposalStatusHistory = Tables<'proposal_status_history'>
 export type ProposalWorkflowPermissions = Tables<'proposal_workflow_permissions'>
 export type ProposalWorkflowSettings = Tables<'proposal_workflow_settings'>
 export type ProposalReviewerAssignments = Tables<'proposal_reviewer_assignments'>
+export type ProposalDeadlineRuleRow = Tables<'proposal_deadline_rules'>
+export type ProposalDeadlineNotification = Tables<'proposal_deadline_notifications'>
+export type ProposalDeadlineRun = Tables<'proposal_deadline_runs'>
 
 export type ProposalStatusHistoryInsert = TablesInsert<'proposal_status_history'>
 export type ProposalWorkflowPermissionsInsert = TablesInsert<'proposal_workflow_permissions'>
 export type ProposalWorkflowSettingsInsert = TablesInsert<'proposal_workflow_settings'>
 export type ProposalReviewerAssignmentsInsert = TablesInsert<'proposal_reviewer_assignments'>
+export type ProposalDeadlineRuleInsert = TablesInsert<'proposal_deadline_rules'>
 
 export type ProposalStatusHistoryUpdate = TablesUpdate<'proposal_status_history'>
 export type ProposalWorkflowPermissionsUpdate = TablesUpdate<'proposal_workflow_permissions'>
@@ -0,0 +1,313 @@
+/**
+ * Track Changes
+ * Suggestion mode for the draft builder. While an author is set, typing is
+ * marked as a suggested insertion and deleted text is kept, marked as a
+ * suggested deletion, instead of being removed. Writers then accept or reject
+ * each suggestion or all of them at once.
+ *
+ * Suggestions live in the content itself as <ins>/<del> elements carrying the
+ * author and time, so they are co-edited, saved and versioned with the
+ * section and exported like any other formatting. Only text is tracked: splitting or joining paragraphs and
+ * formatting changes apply directly.
+ */
+
+import { Extension, Mark, mergeAttributes } from '@tiptap/react'
+import { Fragment, Slice, type Mark as PMMark, type MarkType, type Node as PMNode } from '@tiptap/pm/model'
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state'
+import { Mapping, ReplaceStep } from '@tiptap/pm/transform'
+
+export type SuggestionType = 'insertion' | 'deletion'
+
+export interface SuggestionAuthor {
+  id: string
+  name: string
+}
+
+export interface Suggestion {
+  id: string
+  type: SuggestionType
+  authorId: string
+  authorName: string
+  createdAt: string
+  text: string
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    trackChanges: {
+      /** Record changes as suggestions by this author, or edit directly with null */
+      setSuggesting: (author: SuggestionAuthor | null) => ReturnType
+      acceptSuggestion: (id: string) => ReturnType
+      rejectSuggestion: (id: string) => ReturnType
+      acceptAllSuggestions: () => ReturnType
+      rejectAllSuggestions: () => ReturnType
+    }
+  }
+}
+
+interface TrackChangesStorage {
+  author: SuggestionAuthor | null
+}
+
+export const trackChangesKey = new PluginKey('trackChanges')
+
+const suggestionAttributes = {
+  id: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-suggestion-id'),
+    renderHTML: (attributes: Record<string, string | null>) => ({ 'data-suggestion-id': attributes.id })
+  },
+  authorId: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-author-id'),
+    renderHTML: (attributes: Record<string, string | null>) => ({ 'data-author-id': attributes.authorId })
+  },
+  authorName: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-author-name'),
+    renderHTML: (attributes: Record<string, string | null>) => ({
+      'data-author-name': attributes.authorName,
+      title: attributes.authorName ? `Suggested by ${attributes.authorName}` : null
+    })
+  },
+  createdAt: {
+    default: null,
+    parseHTML: (element: HTMLElement) => element.getAttribute('data-created-at'),
+    renderHTML: (attributes: Record<string, string | null>) => ({ 'data-created-at': attributes.createdAt })
+  }
+}
+
+export const Insertion = Mark.create({
+  name: 'insertion',
+  inclusive: false,
+  excludes: 'insertion deletion',
+
+  addAttributes() {
+    return suggestionAttributes
+  },
+
+  parseHTML() {
+    return [{ tag: 'ins[data-suggestion-id]', priority: 60 }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['ins', mergeAttributes(HTMLAttributes, { class: 'bg-green-50 text-green-800 underline decoration-green-500' }), 0]
+  }
+})
+
+export const Deletion = Mark.create({
+  name: 'deletion',
+  inclusive: false,
+  excludes: 'insertion deletion',
+
+  addAttributes() {
+    return suggestionAttributes
+  },
+
+  parseHTML() {
+    // Ahead of strikethrough, which also reads <del>
+    return [{ tag: 'del[data-suggestion-id]', priority: 60 }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['del', mergeAttributes(HTMLAttributes, { class: 'bg-red-50 text-red-700 line-through' }), 0]
+  }
+})
+
+function suggestionMark(node: PMNode | null | undefined): PMMark | undefined {
+  return node?.marks.find(mark => mark.type.name === 'insertion' || mark.type.name === 'deletion')
+}
+
+/**
+ * Every suggestion in a document, in document order, with the text it adds
+ * or removes
+ */
+export function getSuggestions(doc: PMNode): Suggestion[] {
+  const suggestions = new Map<string, Suggestion>()
+  doc.descendants(node => {
+    const mark = suggestionMark(node)
+    if (!node.isText || !mark?.attrs.id) return
+    const existing = suggestions.get(mark.attrs.id)
+    if (existing) {
+      existing.text += node.text
+      return
+    }
+    suggestions.set(mark.attrs.id, {
+      id: mark.attrs.id,
+      type: mark.type.name as SuggestionType,
+      authorId: mark.attrs.authorId ?? '',
+      authorName: mark.attrs.authorName ?? '',
+      createdAt: mark.attrs.createdAt ?? '',
+      text: node.text ?? ''
+    })
+  })
+  return Array.from(suggestions.values())
+}
+
+/**
+ * Accept or reject suggestions. Accepting keeps an insertion and removes a
+ * deletion; rejecting does the opposite. Null resolves every suggestion.
+ */
+function resolveSuggestions(tr: Transaction, id: string | null, accept: boolean): boolean {
+  const ranges: Array<{ from: number; to: number; mark: PMMark }> = []
+  tr.doc.descendants((node, pos) => {
+    const mark = suggestionMark(node)
+    if (node.isText && mark && (id === null || mark.attrs.id === id)) {
+      ranges.push({ from: pos, to: pos + node.nodeSize, mark })
+    }
+  })
+  if (ranges.length === 0) return false
+
+  // Last first, so earlier positions stay put
+  for (const { from, to, mark } of ranges.reverse()) {
+    const keep = (mark.type.name === 'insertion') === accept
+    if (keep) tr.removeMark(from, to, mark.type)
+    else tr.delete(from, to)
+  }
+  tr.setMeta(trackChangesKey, { resolved: true })
+  return true
+}
+
+/**
+ * Drop text already suggested for insertion from a deleted slice: deleting a
+ * suggestion takes it back rather than suggesting its removal
+ */
+function withoutInsertions(fragment: Fragment): Fragment {
+  const children: PMNode[] = []
+  fragment.forEach(node => {
+    if (node.isText) {
+      if (!node.marks.some(mark => mark.type.name === 'insertion')) children.push(node)
+    } else {
+      children.push(node.copy(withoutInsertions(node.content)))
+    }
+  })
+  return Fragment.fromArray(children)
+}
+
+/**
+ * Id for a new suggestion: the author's adjoining suggestion of the same kind
+ * is extended rather than a new one started for every keystroke
+ */
+function suggestionIdAt(doc: PMNode, from: number, to: number, type: MarkType, author: SuggestionAuthor): string {
+  for (const node of [doc.resolve(from).nodeBefore, doc.resolve(to).nodeAfter]) {
+    const mark = suggestionMark(node)
+    if (mark?.type === type && mark.attrs.authorId === author.id) return mark.attrs.id
+  }
+  return crypto.randomUUID()
+}
+
+function markText(tr: Transaction, from: number, to: number, type: MarkType, author: SuggestionAuthor) {
+  const mark = type.create({
+    id: suggestionIdAt(tr.doc, from, to, type, author),
+    authorId: author.id,
+    authorName: author.name,
+    createdAt: new Date().toISOString()
+  })
+  tr.doc.nodesBetween(from, to, (node, pos) => {
+    // Text deleted earlier keeps its own author
+    if (!node.isText || suggestionMark(node)?.type.name === 'deletion') return
+    tr.addMark(Math.max(pos, from), Math.min(pos + node.nodeSize, to), mark)
+  })
+}
+
+/**
+ * Turn the replacements made by a set of transactions into suggestions:
+ * inserted text is marked, and deleted text is put back and marked
+ */
+function trackTransactions(
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  author: SuggestionAuthor
+): Transaction | null {
+  const { insertion, deletion } = newState.schema.marks
+  const tr = newState.tr
+  let selection: number | null = null
+
+  transactions.forEach((transaction, index) => {
+    const later = transactions.slice(index + 1).flatMap(next => next.mapping.maps)
+
+    transaction.steps.forEach((step, stepIndex) => {
+      if (!(step instanceof ReplaceStep)) return
+      const { from, to, slice } = step
+      // Maps positions after this step to positions in the tracked document
+      const rest = new Mapping([...transaction.mapping.maps.slice(stepIndex + 1), ...later])
+      const toTracked = (pos: number, assoc: number) => {
+        const result = rest.mapResult(pos, assoc)
+        return result.deleted ? null : tr.mapping.map(result.pos, assoc)
+      }
+
+      if (slice.size > 0) {
+        const start = toTracked(from, 1)
+        const end = toTracked(from + slice.size, -1)
+        if (start !== null && end !== null && end > start) {
+          tr.removeMark(start, end, deletion)
+          markText(tr, start, end, insertion, author)
+        }
+      }
+
+      if (to > from) {
+        const removed = transaction.docs[stepIndex].slice(from, to)
+        const content = withoutInsertions(removed.content)
+        const pos = toTracked(from, -1)
+        if (pos === null || !content.textBetween(0, content.size)) return
+
+        const sizeBefore = tr.doc.content.size
+        tr.replace(pos, pos, new Slice(content, removed.openStart, removed.openEnd))
+        const end = pos + tr.doc.content.size - sizeBefore
+        markText(tr, pos, end, deletion, author)
+
+        // Backspace moves the cursor back over what it "deleted", Delete forwards
+        if (slice.size === 0 && oldState.selection.empty) {
+          selection = oldState.selection.from === to ? pos : end
+        }
+      }
+    })
+  })
+
+  if (!tr.docChanged) return null
+  if (selection !== null) tr.setSelection(TextSelection.create(tr.doc, selection))
+  return tr.setMeta(trackChangesKey, { tracked: true })
+}
+
+export const TrackChanges = Extension.create<Record<string, never>, TrackChangesStorage>({
+  name: 'trackChanges',
+
+  addExtensions() {
+    return [Insertion, Deletion]
+  },
+
+  addStorage() {
+    return { author: null }
+  },
+
+  addCommands() {
+    return {
+      setSuggesting: author => () => {
+        this.storage.author = author
+        return true
+      },
+      acceptSuggestion: id => ({ tr, dispatch }) => (dispatch ? resolveSuggestions(tr, id, true) : true),
+      rejectSuggestion: id => ({ tr, dispatch }) => (dispatch ? resolveSuggestions(tr, id, false) : true),
+      acceptAllSuggestions: () => ({ tr, dispatch }) => (dispatch ? resolveSuggestions(tr, null, true) : true),
+      rejectAllSuggestions: () => ({ tr, dispatch }) => (dispatch ? resolveSuggestions(tr, null, false) : true)
+    }
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage
+    return [
+      new Plugin({
+        key: trackChangesKey,
+        appendTransaction: (transactions, oldState, newState) => {
+          const author = storage.author
+          if (!author) return null
+          const changes = transactions.filter(tr => tr.docChanged)
+          // Accepting, rejecting and undo are not themselves suggestions
+          if (changes.length === 0 || changes.some(tr => tr.getMeta(trackChangesKey) || tr.getMeta('history$'))) return null
+          return trackTransactions(transactions, oldState, newState, author)
+        }
+      })
+    ]
+  }
+})
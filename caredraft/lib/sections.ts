@@ -1,4 +1,6 @@
-import { Section, SectionStatus } from '@/lib/database.types'
+import { createClient } from '@/lib/supabase'
+import { Section, SectionInsert, SectionStatus, SectionUpdate } from '@/lib/database.types'
+import { CommentsService } from '@/lib/services/collaboration'
 
 // Extended interface for sections with children
 export interface SectionWithChildren extends Section {
@@ -33,97 +35,371 @@ export interface UpdateSectionData {
   sortOrder?: number
 }
 
+type SectionOwner = NonNullable<SectionWithChildren['owner']>
+
+/**
+ * Sort sections by sort_order, falling back to creation time for ties
+ */
+function compareSections(a: Section, b: Section): number {
+  const orderDiff = (a.sort_order ?? 0) - (b.sort_order ?? 0)
+  if (orderDiff !== 0) return orderDiff
+  return (a.created_at ?? '').localeCompare(b.created_at ?? '')
+}
+
+/**
+ * Build a nested tree from a flat list of sections.
+ * Sections whose parent is not in the list are treated as roots so that
+ * partial result sets (e.g. a filtered project) still render.
+ */
+export function buildSectionTree(
+  sections: Section[],
+  owners: Map<string, SectionOwner> = new Map()
+): SectionWithChildren[] {
+  const nodes = new Map<string, SectionWithChildren>()
+
+  sections.forEach(section => {
+    nodes.set(section.id, {
+      ...section,
+      children: [],
+      owner: section.owner_id ? owners.get(section.owner_id) : undefined
+    })
+  })
+
+  const roots: SectionWithChildren[] = []
+
+  nodes.forEach(node => {
+    const parent = node.parent_section_id ? nodes.get(node.parent_section_id) : undefined
+    if (parent) {
+      parent.children!.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  const sortTree = (items: SectionWithChildren[]) => {
+    items.sort(compareSections)
+    items.forEach(item => sortTree(item.children!))
+  }
+  sortTree(roots)
+
+  return roots
+}
+
 /**
- * Get sections hierarchy (stub implementation)
+ * Flatten a section tree back into depth-first order
+ */
+export function flattenSectionTree(sections: SectionWithChildren[]): SectionWithChildren[] {
+  return sections.flatMap(section => [section, ...flattenSectionTree(section.children ?? [])])
+}
+
+/**
+ * Map the camelCase update payload used by the UI onto table columns
+ */
+function toSectionUpdate(updates: UpdateSectionData): SectionUpdate {
+  const row: SectionUpdate = {}
+
+  if (updates.title !== undefined) row.title = updates.title
+  if (updates.description !== undefined) row.description = updates.description
+  if (updates.parentSectionId !== undefined) row.parent_section_id = updates.parentSectionId || null
+  if (updates.wordCountLimit !== undefined) row.word_count_limit = updates.wordCountLimit
+  if (updates.status !== undefined) row.status = updates.status
+  if (updates.ownerId !== undefined) row.owner_id = updates.ownerId || null
+  if (updates.dueDate !== undefined) row.due_date = updates.dueDate || null
+  if (updates.content !== undefined) row.content = updates.content
+  if (updates.sortOrder !== undefined) row.sort_order = updates.sortOrder
+
+  return row
+}
+
+/**
+ * Load owner profiles for a set of sections
+ */
+async function getSectionOwners(sections: Section[]): Promise<Map<string, SectionOwner>> {
+  const ownerIds = [...new Set(sections.map(s => s.owner_id).filter((id): id is string => !!id))]
+  const owners = new Map<string, SectionOwner>()
+
+  if (ownerIds.length === 0) return owners
+
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, full_name')
+    .in('id', ownerIds)
+
+  if (error) {
+    // Owner details are decorative; the tree is still usable without them
+    console.error('Error loading section owners:', error)
+    return owners
+  }
+
+  data?.forEach(user => owners.set(user.id, user))
+  return owners
+}
+
+/**
+ * Get sections hierarchy for a project (or all visible sections)
  */
 export async function getSectionsHierarchy(projectId?: string): Promise<SectionWithChildren[]> {
-  console.log('Stub: getSectionsHierarchy called for project', projectId)
-  return []
+  const supabase = createClient()
+
+  let query = supabase
+    .from('sections')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (projectId) {
+    query = query.eq('project_id', projectId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const sections = data || []
+  const owners = await getSectionOwners(sections)
+
+  return buildSectionTree(sections, owners)
 }
 
 /**
- * Get a single section by ID (stub implementation)
+ * Get a single section by ID
  */
 export async function getSection(id: string): Promise<Section | null> {
-  console.log('Stub: getSection called for id', id)
-  return null
+  const supabase = createClient()
+
+  const { data, error } = await supabase
+    .from('sections')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
 }
 
 /**
- * Create a new section (stub implementation)
+ * Create a new section, appended after its existing siblings
  */
 export async function createSection(sectionData: CreateSectionData): Promise<Section> {
-  console.log('Stub: createSection called with data', sectionData)
-  throw new Error('Stub implementation')
+  const supabase = createClient()
+
+  let siblingQuery = supabase
+    .from('sections')
+    .select('sort_order')
+    .order('sort_order', { ascending: false })
+    .limit(1)
+
+  siblingQuery = sectionData.parentSectionId
+    ? siblingQuery.eq('parent_section_id', sectionData.parentSectionId)
+    : siblingQuery.is('parent_section_id', null)
+
+  if (sectionData.projectId) {
+    siblingQuery = siblingQuery.eq('project_id', sectionData.projectId)
+  }
+
+  const { data: lastSibling, error: siblingError } = await siblingQuery.maybeSingle()
+  if (siblingError) throw siblingError
+
+  const insert: SectionInsert = {
+    title: sectionData.title,
+    description: sectionData.description ?? null,
+    parent_section_id: sectionData.parentSectionId ?? null,
+    word_count_limit: sectionData.wordCountLimit ?? 0,
+    owner_id: sectionData.ownerId ?? null,
+    due_date: sectionData.dueDate ?? null,
+    project_id: sectionData.projectId ?? null,
+    sort_order: lastSibling ? (lastSibling.sort_order ?? 0) + 1 : 0
+  }
+
+  const { data, error } = await supabase
+    .from('sections')
+    .insert(insert)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
 }
 
 /**
- * Update a section (stub implementation)
+ * Update a section. Reparenting is routed through moveSectionToParent so
+ * sibling ordering stays consistent.
  */
 export async function updateSection(id: string, updates: UpdateSectionData): Promise<Section> {
-  console.log('Stub: updateSection called for id', id, 'with updates', updates)
-  throw new Error('Stub implementation')
+  const { parentSectionId, ...fieldUpdates } = updates
+
+  if (parentSectionId !== undefined) {
+    const current = await getSection(id)
+    if (!current) throw new Error('Section not found')
+
+    if ((current.parent_section_id ?? undefined) !== (parentSectionId || undefined)) {
+      await moveSectionToParent(id, parentSectionId || undefined)
+    }
+  }
+
+  const row = toSectionUpdate(fieldUpdates)
+  if (Object.keys(row).length === 0) {
+    const section = await getSection(id)
+    if (!section) throw new Error('Section not found')
+    return section
+  }
+
+  // Comment anchors are moved from the text being replaced
+  const previous = row.content !== undefined ? await getSection(id) : null
+
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('sections')
+    .update(row)
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  if (previous && previous.content !== data.content) {
+    try {
+      await new CommentsService(supabase).remapSectionAnchors(id, previous.content, data.content)
+    } catch (remapError) {
+      // The content is saved either way; comments stay on their old ranges
+      console.error('Error moving comment anchors:', remapError)
+    }
+  }
+
+  return data
 }
 
 /**
- * Delete a section and all its children (stub implementation)
+ * Delete a section and all its children in a single transaction
  */
 export async function deleteSection(id: string): Promise<void> {
-  console.log('Stub: deleteSection called for id', id)
-  throw new Error('Stub implementation')
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('delete_section_tree', { p_section_id: id })
+  if (error) throw error
 }
 
 /**
- * Reorder sections within the same parent (stub implementation)
+ * Reorder sections within the same parent
  */
 export async function reorderSections(sectionIds: string[], parentSectionId?: string): Promise<void> {
-  console.log('Stub: reorderSections called with ids', sectionIds, 'parent', parentSectionId)
-  throw new Error('Stub implementation')
+  if (sectionIds.length === 0) return
+
+  const supabase = createClient()
+
+  const { error } = await supabase.rpc('reorder_sibling_sections', {
+    p_section_ids: sectionIds,
+    p_parent_id: parentSectionId ?? null
+  })
+  if (error) throw error
 }
 
 /**
- * Move a section to a different parent (stub implementation)
+ * Move a section to a different parent, appending it to the new siblings
  */
 export async function moveSectionToParent(
-  sectionId: string, 
+  sectionId: string,
   newParentId?: string
 ): Promise<Section> {
-  console.log('Stub: moveSectionToParent called for section', sectionId, 'to parent', newParentId)
-  throw new Error('Stub implementation')
+  const supabase = createClient()
+
+  const { data, error } = await supabase.rpc('move_section', {
+    p_section_id: sectionId,
+    p_new_parent_id: newParentId ?? null,
+    p_position: null
+  })
+
+  if (error) throw error
+  return data
 }
 
 /**
- * Get sections by status (stub implementation)
+ * Get sections by status
  */
 export async function getSectionsByStatus(status: SectionStatus, projectId?: string): Promise<Section[]> {
-  console.log('Stub: getSectionsByStatus called for status', status, 'project', projectId)
-  return []
+  const supabase = createClient()
+
+  let query = supabase
+    .from('sections')
+    .select('*')
+    .eq('status', status)
+    .order('sort_order', { ascending: true })
+
+  if (projectId) {
+    query = query.eq('project_id', projectId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
 }
 
 /**
- * Get sections by owner (stub implementation)
+ * Get sections by owner
  */
 export async function getSectionsByOwner(ownerId: string, projectId?: string): Promise<Section[]> {
-  console.log('Stub: getSectionsByOwner called for owner', ownerId, 'project', projectId)
-  return []
+  const supabase = createClient()
+
+  let query = supabase
+    .from('sections')
+    .select('*')
+    .eq('owner_id', ownerId)
+    .order('due_date', { ascending: true, nullsFirst: false })
+
+  if (projectId) {
+    query = query.eq('project_id', projectId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
 }
 
 /**
- * Get overdue sections (stub implementation)
+ * Get overdue sections (past due date and not complete)
  */
 export async function getOverdueSections(projectId?: string): Promise<Section[]> {
-  console.log('Stub: getOverdueSections called for project', projectId)
-  return []
+  const supabase = createClient()
+
+  let query = supabase
+    .from('sections')
+    .select('*')
+    .lt('due_date', new Date().toISOString())
+    .neq('status', 'complete')
+    .order('due_date', { ascending: true })
+
+  if (projectId) {
+    query = query.eq('project_id', projectId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return data || []
 }
 
 /**
- * Reorder section (stub implementation)
+ * Reorder section to a new index, optionally under a new parent
  */
 export async function reorderSection(
   sectionId: string,
   destinationIndex: number,
   newParentId?: string
 ): Promise<Section> {
-  console.log('Stub: reorderSection called for section', sectionId, 'to index', destinationIndex, 'parent', newParentId)
-  throw new Error('Stub implementation')
-} 
\ No newline at end of file
+  const supabase = createClient()
+
+  let parentId = newParentId
+  if (parentId === undefined) {
+    const current = await getSection(sectionId)
+    if (!current) throw new Error('Section not found')
+    parentId = current.parent_section_id ?? undefined
+  }
+
+  const { data, error } = await supabase.rpc('move_section', {
+    p_section_id: sectionId,
+    p_new_parent_id: parentId ?? null,
+    p_position: destinationIndex
+  })
+
+  if (error) throw error
+  return data
+}
@@ -1,4 +1,38 @@
-// Stub implementation - imports removed
+/**
+ * AI Tender Parser
+ * Extracts structured tender information from ITT documents on the server.
+ * A rule-based pass always runs and scores every field; when an OpenAI key
+ * is configured, an AI pass fills in fields the rules could not find.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DocumentExtractionService } from '@/lib/services/document-extraction'
+import { splitSentences } from '@/lib/utils/sentences'
+
+export type TenderParsingField =
+  | 'title'
+  | 'issuingAuthority'
+  | 'deadline'
+  | 'requirements'
+  | 'evaluationCriteria'
+  | 'socialValueCriteria'
+  | 'tupeRequirements'
+  | 'complianceRequirements'
+  | 'keyDates'
+  | 'wordLimits'
+  | 'contactInformation'
+  | 'questions'
+
+// Confidence per field, 0-100
+export type TenderFieldConfidence = Record<TenderParsingField, number>
+
+export interface ParsedTenderQuestion {
+  questionNumber?: string
+  questionText: string
+  wordLimit?: number
+  weightingPercentage?: number
+  sectionReference?: string
+}
 
 export interface TenderParsingResult {
   title: string
@@ -6,6 +40,10 @@ export interface TenderParsingResult {
   deadline: string | null
   requirements: string[]
   evaluationCriteria: string[]
+  scoringWeightings: Array<{
+    criteria: string
+    weight: number
+  }>
   socialValueCriteria: string[]
   tupeRequirements: string[]
   complianceRequirements: string[]
@@ -24,6 +62,8 @@ export interface TenderParsingResult {
     phone?: string
     address?: string
   }
+  questions: ParsedTenderQuestion[]
+  fieldConfidence: TenderFieldConfidence
   confidence: number
   rawText: string
 }
@@ -36,64 +76,668 @@ export interface TenderParsingOptions {
   extractContactInfo?: boolean
   model?: 'gpt-4' | 'gpt-3.5-turbo'
   temperature?: number
+  // Used to detect the format when parsing a Buffer
+  fileName?: string
+  mimeType?: string
+  // Defaults to true when OPENAI_API_KEY is set
+  useAI?: boolean
 }
 
-export class AITenderParser {
-  constructor() {
-    // Stub implementation - no initialization needed
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december']
+const MONTH_PATTERN = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+const DATE_PATTERNS = [
+  new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN})\\s+(\\d{4})\\b`, 'gi'),
+  new RegExp(`\\b(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+  /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g,
+  /\b(\d{4})-(\d{2})-(\d{2})\b/g
+]
+const TIME_PATTERN = /\b(\d{1,2})(?::|\.)(\d{2})\s*(am|pm)?\b|\b(\d{1,2})\s*(am|pm)\b|\b(noon|midday)\b/i
+
+const REQUIREMENT_PATTERN = /\b(must|shall|is required|are required|required to|will be required|mandatory|is expected to|are expected to)\b/i
+const COMPLIANCE_PATTERN = /\b(CQC|Care Quality Commission|DBS|Disclosure and Barring|GDPR|Data Protection|ISO\s?\d{3,5}|insurance|indemnity|Cyber Essentials|safeguarding|registered with|registration|accredit\w*|certif\w*|Health and Safety|Modern Slavery|Equality Act)\b/i
+const SOCIAL_VALUE_PATTERN = /\b(social value|TOMs|local employment|apprentice\w*|carbon|net zero|VCSE|SMEs?|community benefit|Public Services \(Social Value\) Act|living wage|volunteer\w*)\b/i
+const TUPE_PATTERN = /\b(TUPE|Transfer of Undertakings|staff transfer|transferring (?:staff|employees)|Fair Deal|pension protection|employee liability information)\b/i
+const EVALUATION_PATTERN = /\b(evaluat\w*|scor(?:e|ed|ing)|weighting|award criteria|marks? will be)\b/i
+// A bare "Social Value: 10%" row belongs to the weightings, not the criteria
+const WEIGHTING_ROW_PATTERN = /^[^.]{0,60}[:\-–]\s*\d{1,3}(?:\.\d+)?\s*%\.?$/
+const QUESTION_VERB_PATTERN = /^(describe|explain|provide|please|detail|outline|how|what|why|which|demonstrate|set out|tell us|give|confirm|identify|summari[sz]e|evidence)\b/i
+const DEADLINE_PATTERN = /\b(submission|tender return|closing|deadline for (?:receipt|submission)|tenders? must be (?:received|submitted)|return (?:date|deadline))\b/i
+const CLARIFICATION_PATTERN = /\b(clarification|questions? deadline|Q&A|queries)\b/i
+const MEETING_PATTERN = /\b(meeting|briefing|event|presentation|site visit|interview|webinar|market engagement)\b/i
+const POSTCODE_PATTERN = /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/
+const PHONE_PATTERN = /(?:\+44\s?\(?0?\)?\s?\d{2,4}|\(?0\d{2,4}\)?)[\s-]?\d{3,4}[\s-]?\d{3,4}/
+
+const MAX_LIST_ITEMS = 50
+
+/**
+ * Split text into trimmed, non-empty lines
+ */
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+function unique(items: string[]): string[] {
+  const seen = new Set<string>()
+  return items.filter(item => {
+    const key = item.toLowerCase().replace(/[^a-z0-9]/g, '')
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function parseNumber(value: string): number {
+  return parseInt(value.replace(/,/g, ''), 10)
+}
+
+/**
+ * Convert a date match (plus an optional time on the same line) to ISO.
+ * Numeric dates are read as UK day/month/year.
+ */
+function toIsoDate(match: RegExpExecArray, line: string): string | null {
+  let day: number
+  let month: number
+  let year: number
+
+  const [, a, b, c] = match
+  if (/^\d{4}$/.test(a)) {
+    year = parseInt(a, 10)
+    month = parseInt(b, 10) - 1
+    day = parseInt(c, 10)
+  } else if (/^\d/.test(a) && /^\d/.test(b)) {
+    day = parseInt(a, 10)
+    month = parseInt(b, 10) - 1
+    year = parseInt(c, 10)
+  } else if (/^\d/.test(a)) {
+    day = parseInt(a, 10)
+    month = MONTHS.findIndex(name => name.startsWith(b.toLowerCase().slice(0, 3)))
+    year = parseInt(c, 10)
+  } else {
+    month = MONTHS.findIndex(name => name.startsWith(a.toLowerCase().slice(0, 3)))
+    day = parseInt(b, 10)
+    year = parseInt(c, 10)
   }
 
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null
+
+  let hours = 0
+  let minutes = 0
+  // Prefer a time written after the date ("15 January 2025 at 12:00")
+  const time = line.slice(match.index + match[0].length).match(TIME_PATTERN) ?? line.slice(0, match.index).match(TIME_PATTERN)
+  if (time) {
+    if (time[6]) {
+      hours = 12
+    } else if (time[4]) {
+      hours = parseInt(time[4], 10) % 12 + (time[5].toLowerCase() === 'pm' ? 12 : 0)
+    } else {
+      hours = parseInt(time[1], 10)
+      minutes = parseInt(time[2], 10)
+      if (time[3]?.toLowerCase() === 'pm' && hours < 12) hours += 12
+      if (time[3]?.toLowerCase() === 'am' && hours === 12) hours = 0
+    }
+  }
+
+  const date = new Date(Date.UTC(year, month, day, hours, minutes))
+  if (isNaN(date.getTime()) || date.getUTCDate() !== day) return null
+  return date.toISOString()
+}
+
+/**
+ * Score a list field: nothing found is 0, more independent hits is more confident
+ */
+function listConfidence(count: number, base = 55): number {
+  if (count === 0) return 0
+  return Math.min(95, base + count * 5)
+}
+
+export class AITenderParser {
   /**
-   * Parse a tender document and extract structured information (stub implementation)
+   * Parse a tender document and extract structured information
    */
   async parseTenderDocument(
-    _file: File | Buffer | string,
+    file: File | Buffer | string,
     options: TenderParsingOptions = {}
   ): Promise<TenderParsingResult> {
-    console.log('Stub: parseTenderDocument called with options', options)
-    
-    // Return a stub result
+    let text: string
+
+    if (typeof file === 'string') {
+      text = file
+    } else if (Buffer.isBuffer(file)) {
+      const extracted = await DocumentExtractionService.extractFromBuffer(
+        file,
+        options.fileName || 'document.txt',
+        options.mimeType
+      )
+      text = extracted.content
+    } else {
+      text = (await DocumentExtractionService.extractText(file)).content
+    }
+
+    if (!text.trim()) {
+      throw new Error('No text content found in document')
+    }
+
+    const result = this.parseText(text, options)
+
+    const useAI = options.useAI ?? !!process.env.OPENAI_API_KEY
+    if (useAI) {
+      try {
+        return await this.enhanceWithAI(result, options)
+      } catch (error) {
+        // The rule-based result is still useful on its own
+        console.error('AI tender parsing failed, using rule-based result:', error)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Rule-based extraction of every field with a confidence per field
+   */
+  parseText(text: string, options: TenderParsingOptions = {}): TenderParsingResult {
+    const {
+      extractRequirements = true,
+      extractDates = true,
+      extractCriteria = true,
+      extractWordLimits = true,
+      extractContactInfo = true
+    } = options
+
+    const lines = toLines(text)
+    const sentences = splitSentences(text)
+
+    const title = this.extractTitle(lines)
+    const issuingAuthority = this.extractIssuingAuthority(lines)
+    const keyDates = extractDates ? this.extractKeyDates(lines) : []
+    const deadline = this.pickDeadline(keyDates)
+    const questions = this.extractQuestions(lines)
+
+    const requirements = extractRequirements
+      ? unique(sentences.filter(s => REQUIREMENT_PATTERN.test(s))).slice(0, MAX_LIST_ITEMS)
+      : []
+    const complianceRequirements = extractRequirements
+      ? unique(sentences.filter(s => COMPLIANCE_PATTERN.test(s) && REQUIREMENT_PATTERN.test(s))).slice(0, MAX_LIST_ITEMS)
+      : []
+    const socialValueCriteria = extractCriteria
+      ? unique(sentences.filter(s => SOCIAL_VALUE_PATTERN.test(s) && !WEIGHTING_ROW_PATTERN.test(s))).slice(0, MAX_LIST_ITEMS)
+      : []
+    const tupeRequirements = extractRequirements
+      ? unique(sentences.filter(s => TUPE_PATTERN.test(s))).slice(0, MAX_LIST_ITEMS)
+      : []
+    const scoringWeightings = extractCriteria ? this.extractScoringWeightings(lines) : []
+    const evaluationCriteria = extractCriteria
+      ? unique([
+          ...scoringWeightings.map(w => `${w.criteria} (${w.weight}%)`),
+          ...sentences.filter(s => EVALUATION_PATTERN.test(s) && s.length < 400)
+        ]).slice(0, MAX_LIST_ITEMS)
+      : []
+    const wordLimits = extractWordLimits ? this.extractWordLimits(lines, questions) : []
+    const contactInformation = extractContactInfo ? this.extractContactInformation(lines) : {}
+
+    const weightTotal = scoringWeightings.reduce((sum, w) => sum + w.weight, 0)
+    const contactFields = Object.values(contactInformation).filter(Boolean).length
+
+    const fieldConfidence: TenderFieldConfidence = {
+      title: title.confidence,
+      issuingAuthority: issuingAuthority.confidence,
+      deadline: deadline ? (DEADLINE_PATTERN.test(deadline.description) ? 90 : 60) : 0,
+      requirements: listConfidence(requirements.length),
+      evaluationCriteria: scoringWeightings.length > 0
+        ? (Math.abs(weightTotal - 100) < 0.5 ? 95 : 75)
+        : listConfidence(evaluationCriteria.length, 40),
+      socialValueCriteria: listConfidence(socialValueCriteria.length),
+      tupeRequirements: listConfidence(tupeRequirements.length, 65),
+      complianceRequirements: listConfidence(complianceRequirements.length, 60),
+      keyDates: listConfidence(keyDates.length, 65),
+      wordLimits: listConfidence(wordLimits.length, 70),
+      contactInformation: contactFields === 0 ? 0 : Math.min(95, 50 + contactFields * 15),
+      questions: listConfidence(questions.length, 60)
+    }
+
     return {
-      title: 'Stub Tender Document',
-      issuingAuthority: 'Stub Authority',
-      deadline: null,
-      requirements: [],
-      evaluationCriteria: [],
-      socialValueCriteria: [],
-      tupeRequirements: [],
-      complianceRequirements: [],
-      keyDates: [],
-      wordLimits: [],
-      contactInformation: {},
-      confidence: 0,
-      rawText: 'Stub implementation'
+      title: title.value,
+      issuingAuthority: issuingAuthority.value,
+      deadline: deadline?.date ?? null,
+      requirements,
+      evaluationCriteria,
+      scoringWeightings,
+      socialValueCriteria,
+      tupeRequirements,
+      complianceRequirements,
+      keyDates,
+      wordLimits,
+      contactInformation,
+      questions,
+      fieldConfidence,
+      confidence: this.overallConfidence(fieldConfidence),
+      rawText: text
     }
   }
 
   /**
-   * Extract specific sections from tender text (stub implementation)
+   * Extract specific sections from tender text, keyed by the requested name.
+   * A section runs from its heading line to the next heading-like line.
    */
   async extractTenderSections(
-    _text: string,
+    text: string,
     sections: string[]
   ): Promise<Record<string, string>> {
-    console.log('Stub: extractTenderSections called for sections', sections)
-    return {}
+    const lines = text.split(/\r?\n/)
+    const isHeading = (line: string, index: number) => {
+      const trimmed = line.trim()
+      // A short capitalised line on its own after a blank line also counts
+      const standalone = (index === 0 || !lines[index - 1].trim()) &&
+        trimmed.split(/\s+/).length <= 6 && /^[A-Z]/.test(trimmed) && !/[:%?]/.test(trimmed)
+      return trimmed.length > 0 && trimmed.length <= 80 && !/[.;,]$/.test(trimmed) &&
+        (/^(?:section|part|lot|appendix|schedule)\b/i.test(trimmed) ||
+          /^\d+(?:\.\d+)*\.?\s+[A-Z]/.test(trimmed) ||
+          trimmed === trimmed.toUpperCase() && /[A-Z]{3}/.test(trimmed) ||
+          standalone)
+    }
+
+    const result: Record<string, string> = {}
+
+    sections.forEach(name => {
+      const needle = name.toLowerCase()
+      const start = lines.findIndex((line, index) => isHeading(line, index) && line.toLowerCase().includes(needle))
+      if (start === -1) return
+
+      let end = start + 1
+      while (end < lines.length && !isHeading(lines[end], end)) end++
+
+      const body = lines.slice(start + 1, end).join('\n').trim()
+      if (body) result[name] = body
+    })
+
+    return result
   }
 
   /**
-   * Validate tender parsing results (stub implementation)
+   * Validate tender parsing results
    */
-  validateParsingResult(_result: TenderParsingResult): {
+  validateParsingResult(result: TenderParsingResult): {
     isValid: boolean
     errors: string[]
     warnings: string[]
   } {
-    console.log('Stub: validateParsingResult called')
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (!result.rawText.trim()) {
+      errors.push('Document contained no readable text')
+    }
+    if (!result.title.trim()) {
+      errors.push('Tender title could not be determined')
+    }
+
+    if (!result.deadline) {
+      warnings.push('No submission deadline found')
+    } else if (new Date(result.deadline).getTime() < Date.now()) {
+      warnings.push('Submission deadline is in the past')
+    }
+
+    const weightTotal = result.scoringWeightings.reduce((sum, w) => sum + w.weight, 0)
+    if (result.scoringWeightings.length > 0 && Math.abs(weightTotal - 100) >= 0.5) {
+      warnings.push(`Scoring weightings add up to ${weightTotal}% rather than 100%`)
+    }
+
+    if (result.questions.length === 0) {
+      warnings.push('No tender questions were found')
+    }
+
+    (Object.entries(result.fieldConfidence) as Array<[TenderParsingField, number]>)
+      .filter(([, confidence]) => confidence > 0 && confidence < 50)
+      .forEach(([field, confidence]) => {
+        warnings.push(`Low confidence (${confidence}%) for ${field}, please review`)
+      })
+
     return {
-      isValid: true,
-      errors: [],
-      warnings: ['This is a stub implementation']
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    }
+  }
+
+  private overallConfidence(fieldConfidence: TenderFieldConfidence): number {
+    // Title, deadline and questions matter most when setting up a workflow
+    const weights: Partial<Record<TenderParsingField, number>> = { title: 2, deadline: 2, questions: 2 }
+    let total = 0
+    let weightSum = 0
+
+    ;(Object.entries(fieldConfidence) as Array<[TenderParsingField, number]>).forEach(([field, confidence]) => {
+      const weight = weights[field] ?? 1
+      total += confidence * weight
+      weightSum += weight
+    })
+
+    return Math.round(total / weightSum)
+  }
+
+  private extractTitle(lines: string[]): { value: string; confidence: number } {
+    const labelled = lines
+      .slice(0, 60)
+      .map(line => line.match(/^(?:tender|contract|project|opportunity|procurement)\s*(?:title|name)\s*[:\-–]\s*(.+)$/i)
+        || line.match(/^(?:invitation to tender|itt|request for (?:proposal|quotation)|rfp|rfq)\s*(?:for|[:\-–])\s*(.+)$/i))
+      .find(Boolean)
+
+    if (labelled) {
+      return { value: labelled[1].trim(), confidence: 90 }
+    }
+
+    const candidate = lines
+      .slice(0, 10)
+      .find(line => line.length >= 10 && line.length <= 150 && !EMAIL_PATTERN.test(line) && !/^page \d+/i.test(line))
+
+    return candidate ? { value: candidate, confidence: 40 } : { value: '', confidence: 0 }
+  }
+
+  private extractIssuingAuthority(lines: string[]): { value: string; confidence: number } {
+    const labelled = lines
+      .map(line => line.match(/^(?:issued by|contracting authority|commissioner|commissioning body|issuing (?:authority|body)|buyer|authority)\s*[:\-–]\s*(.+)$/i))
+      .find(Boolean)
+
+    if (labelled) {
+      return { value: labelled[1].trim(), confidence: 90 }
+    }
+
+    const named = lines
+      .slice(0, 30)
+      .map(line => line.match(/\b((?:[A-Z][\w&'-]*\s+){0,6}(?:Council|NHS [A-Z][\w ]*|Integrated Care Board|ICB|(?:NHS )?Foundation Trust|Borough|Combined Authority|County Council))\b/))
+      .find(Boolean)
+
+    return named ? { value: named[1].trim(), confidence: 60 } : { value: '', confidence: 0 }
+  }
+
+  private extractKeyDates(lines: string[]): TenderParsingResult['keyDates'] {
+    const keyDates: TenderParsingResult['keyDates'] = []
+    const seen = new Set<string>()
+
+    lines.forEach(line => {
+      DATE_PATTERNS.forEach(pattern => {
+        pattern.lastIndex = 0
+        let match: RegExpExecArray | null
+        while ((match = pattern.exec(line)) !== null) {
+          const date = toIsoDate(match, line)
+          if (!date) continue
+
+          const description = line.replace(match[0], '').replace(TIME_PATTERN, '').replace(/[\s:\-–,]+$/, '').replace(/^[\s:\-–,]+/, '').trim() || line
+          const key = `${date}|${description.toLowerCase()}`
+          if (seen.has(key)) continue
+          seen.add(key)
+
+          keyDates.push({
+            date,
+            description,
+            type: DEADLINE_PATTERN.test(line) || /\bdeadline\b/i.test(line)
+              ? 'deadline'
+              : MEETING_PATTERN.test(line) ? 'meeting' : 'milestone'
+          })
+        }
+      })
+    })
+
+    return keyDates.sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  private pickDeadline(keyDates: TenderParsingResult['keyDates']) {
+    return keyDates.find(d => DEADLINE_PATTERN.test(d.description) && !CLARIFICATION_PATTERN.test(d.description))
+      ?? [...keyDates].reverse().find(d => d.type === 'deadline' && !CLARIFICATION_PATTERN.test(d.description))
+  }
+
+  private extractScoringWeightings(lines: string[]): TenderParsingResult['scoringWeightings'] {
+    const weightings: TenderParsingResult['scoringWeightings'] = []
+    const seen = new Set<string>()
+
+    lines.forEach(line => {
+      const match = line.match(/^(?:[-•*]\s*)?([A-Z][A-Za-z &,/()-]{2,60}?)\s*(?:[:\-–=]|\bweighting\b|\s)\s*(\d{1,3}(?:\.\d+)?)\s*%\s*$/)
+      if (!match) return
+
+      const criteria = match[1].replace(/\s*(?:weighting|weight)\s*$/i, '').trim()
+      const weight = parseFloat(match[2])
+      if (weight <= 0 || weight > 100 || seen.has(criteria.toLowerCase())) return
+
+      seen.add(criteria.toLowerCase())
+      weightings.push({ criteria, weight })
+    })
+
+    return weightings
+  }
+
+  private extractQuestions(lines: string[]): ParsedTenderQuestion[] {
+    const questions: ParsedTenderQuestion[] = []
+    let sectionReference: string | undefined
+
+    lines.forEach((line, index) => {
+      const heading = line.match(/^(?:section|part|lot)\s+([\w.]+)\s*[:\-–]?\s*(.*)$/i)
+      if (heading && line.length <= 100 && !line.includes('?')) {
+        sectionReference = heading[2]?.trim() || heading[1]
+        return
+      }
+
+      const numbered = line.match(/^(Q(?:uestion)?\s*\d+(?:\.\d+)*|\d+(?:\.\d+)*)[.):]?\s+(.{15,})$/i)
+      if (!numbered) return
+
+      const explicit = /^q/i.test(numbered[1])
+      const body = numbered[2].trim()
+      if (!explicit && !body.includes('?') && !QUESTION_VERB_PATTERN.test(body)) return
+
+      // Limits are often on the question line or just below it, but never
+      // borrowed from the next question
+      const following = lines.slice(index + 1, index + 3)
+      const nextQuestion = following.findIndex(next => /^(?:Q(?:uestion)?\s*\d|\d+(?:\.\d+)*[.):]?\s|(?:section|part|lot)\s)/i.test(next))
+      const context = [body, ...(nextQuestion === -1 ? following : following.slice(0, nextQuestion))].join(' ')
+      const wordLimit = this.findWordLimit(context)
+      const weighting = context.match(/(\d{1,3}(?:\.\d+)?)\s*%/)
+
+      questions.push({
+        questionNumber: numbered[1].replace(/^q(?:uestion)?\s*/i, ''),
+        questionText: body.replace(/\s*\((?:max(?:imum)?\s*)?[\d,]+\s*words?(?:\s*max(?:imum)?)?\)\s*/i, ' ').trim(),
+        wordLimit,
+        weightingPercentage: weighting ? parseFloat(weighting[1]) : undefined,
+        sectionReference
+      })
+    })
+
+    return questions
+  }
+
+  private findWordLimit(text: string): number | undefined {
+    const match = text.match(/word (?:limit|count)\s*(?:of|is|[:\-–])?\s*(\d[\d,]*)/i)
+      || text.match(/(?:max(?:imum)?|up to|no more than|not (?:to )?exceed(?:ing)?|limited to)\s*(?:of\s*)?(\d[\d,]*)\s*words/i)
+      || text.match(/\(\s*(\d[\d,]*)\s*words?(?:\s*max(?:imum)?)?\s*\)/i)
+      || text.match(/\b(\d[\d,]*)\s*words?\s*(?:max(?:imum)?|limit)\b/i)
+
+    if (!match) return undefined
+    const limit = parseNumber(match[1])
+    return limit > 0 && limit <= 20000 ? limit : undefined
+  }
+
+  private extractWordLimits(lines: string[], questions: ParsedTenderQuestion[]): TenderParsingResult['wordLimits'] {
+    const limits: TenderParsingResult['wordLimits'] = questions
+      .filter(q => q.wordLimit)
+      .map(q => ({ section: q.questionNumber ? `Question ${q.questionNumber}` : q.questionText.slice(0, 60), limit: q.wordLimit! }))
+
+    if (limits.length > 0) return limits
+
+    lines.forEach(line => {
+      const limit = this.findWordLimit(line)
+      if (!limit) return
+      const section = line.replace(/\(?[^()]*\d[\d,]*\s*words?[^()]*\)?/i, '').replace(/[:\-–\s]+$/, '').trim()
+      limits.push({ section: section || 'General', limit })
+    })
+
+    return limits
+  }
+
+  private extractContactInformation(lines: string[]): TenderParsingResult['contactInformation'] {
+    const contact: TenderParsingResult['contactInformation'] = {}
+
+    for (const line of lines) {
+      if (!contact.email) {
+        const email = line.match(EMAIL_PATTERN)
+        if (email) contact.email = email[0]
+      }
+      if (!contact.phone && /\b(tel|phone|telephone|contact|call)\b/i.test(line)) {
+        const phone = line.match(PHONE_PATTERN)
+        if (phone) contact.phone = phone[0].trim()
+      }
+      if (!contact.name) {
+        const name = line.match(/(?:contact(?: name| officer| person)?|procurement (?:lead|officer|manager)|enquiries to|name)\s*[:\-–]\s*((?:Mr|Mrs|Ms|Miss|Dr)\.?\s+)?([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+)+)/)
+        if (name) contact.name = `${name[1] ?? ''}${name[2]}`.trim()
+      }
+      if (!contact.address && POSTCODE_PATTERN.test(line) && line.length <= 200) {
+        contact.address = line.replace(/^(?:address|postal address)\s*[:\-–]\s*/i, '')
+      }
     }
+
+    return contact
   }
-} 
\ No newline at end of file
+
+  /**
+   * Ask the model for the fields the rules could not find and merge them in.
+   * Rule-based values with reasonable confidence are never overwritten.
+   */
+  private async enhanceWithAI(
+    result: TenderParsingResult,
+    options: TenderParsingOptions
+  ): Promise<TenderParsingResult> {
+    const weakFields = (Object.entries(result.fieldConfidence) as Array<[TenderParsingField, number]>)
+      .filter(([, confidence]) => confidence < 60)
+      .map(([field]) => field)
+
+    if (weakFields.length === 0) return result
+
+    // Imported lazily: the client validates OpenAI configuration on load
+    const { generateWithFallback } = await import('@/lib/api-client')
+
+    const response = await generateWithFallback([
+      {
+        role: 'system',
+        content: `You extract structured data from UK public sector care tender documents (ITTs).
+Respond with JSON only, using these keys when you can find them: ${weakFields.join(', ')}.
+title and issuingAuthority are strings, deadline is an ISO 8601 date string,
+keyDates is an array of {date, description, type: "deadline"|"milestone"|"meeting"},
+wordLimits is an array of {section, limit}, contactInformation is {name, email, phone, address},
+questions is an array of {questionNumber, questionText, wordLimit, weightingPercentage, sectionReference},
+and every other key is an array of short verbatim strings from the document. Omit keys you cannot find.`
+      },
+      {
+        role: 'user',
+        content: result.rawText.slice(0, 40000)
+      }
+    ], true, options.model)
+
+    const jsonText = response.text.match(/\{[\s\S]*\}/)?.[0]
+    if (!jsonText) return result
+
+    const ai = JSON.parse(jsonText) as Partial<TenderParsingResult>
+    const merged: TenderParsingResult = { ...result, fieldConfidence: { ...result.fieldConfidence } }
+    const AI_CONFIDENCE = 70
+
+    weakFields.forEach(field => {
+      const value = ai[field]
+      const hasValue = Array.isArray(value) ? value.length > 0 : typeof value === 'object' ? !!value && Object.keys(value).length > 0 : !!value
+      if (!hasValue) return
+
+      ;(merged as unknown as Record<string, unknown>)[field] = value
+      merged.fieldConfidence[field] = AI_CONFIDENCE
+    })
+
+    merged.confidence = this.overallConfidence(merged.fieldConfidence)
+    return merged
+  }
+}
+
+/**
+ * Store a parsing result on a tender workflow: tender_metadata is created or
+ * updated, and parsed questions not already present are added to tender_questions.
+ */
+export async function saveTenderParsingResult(
+  supabase: SupabaseClient,
+  tenderWorkflowId: string,
+  result: TenderParsingResult
+): Promise<{ metadataId: string; questionsCreated: number }> {
+  const weightings = result.scoringWeightings.reduce((acc, item) => {
+    acc[item.criteria] = item.weight
+    return acc
+  }, {} as Record<string, number>)
+
+  const clarificationDate = result.keyDates.find(d => CLARIFICATION_PATTERN.test(d.description))
+
+  const metadata = {
+    tender_workflow_id: tenderWorkflowId,
+    tender_name: result.title || null,
+    issuing_body: result.issuingAuthority || null,
+    submission_deadline: result.deadline,
+    qa_deadline: clarificationDate?.date ?? null,
+    evaluation_criteria: weightings,
+    scoring_weightings: weightings,
+    compliance_requirements: result.complianceRequirements,
+    special_conditions: [...result.tupeRequirements, ...result.socialValueCriteria],
+    word_limits: result.wordLimits.reduce((acc, item) => {
+      acc[item.section] = item.limit
+      return acc
+    }, {} as Record<string, number>)
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('tender_metadata')
+    .select('id')
+    .eq('tender_workflow_id', tenderWorkflowId)
+    .maybeSingle()
+
+  if (existingError) {
+    throw new Error(`Database error: ${existingError.message}`)
+  }
+
+  const { data: saved, error: saveError } = existing
+    ? await supabase.from('tender_metadata').update(metadata).eq('id', existing.id).select('id').single()
+    : await supabase.from('tender_metadata').insert(metadata).select('id').single()
+
+  if (saveError) {
+    throw new Error(`Failed to save tender metadata: ${saveError.message}`)
+  }
+
+  const { data: existingQuestions, error: questionsError } = await supabase
+    .from('tender_questions')
+    .select('question_number, question_text')
+    .eq('tender_workflow_id', tenderWorkflowId)
+
+  if (questionsError) {
+    throw new Error(`Database error: ${questionsError.message}`)
+  }
+
+  const known = new Set(
+    (existingQuestions || []).flatMap((q: { question_number: string | null; question_text: string }) =>
+      [q.question_number ? `n:${q.question_number}` : '', `t:${q.question_text.toLowerCase()}`].filter(Boolean))
+  )
+
+  const newQuestions = result.questions
+    .filter(q => !(q.questionNumber && known.has(`n:${q.questionNumber}`)) && !known.has(`t:${q.questionText.toLowerCase()}`))
+    .map(q => ({
+      tender_workflow_id: tenderWorkflowId,
+      question_number: q.questionNumber ?? null,
+      question_text: q.questionText,
+      word_limit: q.wordLimit ?? null,
+      weighting_percentage: q.weightingPercentage ?? null,
+      section_reference: q.sectionReference ?? null,
+      mandatory: true
+    }))
+
+  if (newQuestions.length > 0) {
+    const { error: insertError } = await supabase.from('tender_questions').insert(newQuestions)
+    if (insertError) {
+      throw new Error(`Failed to save tender questions: ${insertError.message}`)
+    }
+  }
+
+  return {
+    metadataId: saved.id,
+    questionsCreated: newQuestions.length
+  }
+}
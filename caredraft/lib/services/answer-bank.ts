@@ -0,0 +1,686 @@
+/**
+ * Answer Bank Service
+ * Lists answer bank entries and keeps their history: every edit is saved as
+ * a new version with its author and change note, versions can be diffed and
+ * restored, and answers forked from a template keep a link to the template
+ * version they started from. Usage in bids is tied to tender outcomes to
+ * report how effective each answer is. Owners keep answers fresh through a
+ * review cycle and expiry date.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import {
+  AnswerBank,
+  AnswerBankBidUsage,
+  AnswerBankEffectiveness,
+  AnswerBankEffectivenessReport,
+  AnswerBankEffectivenessTrendPoint,
+  AnswerBankFork,
+  AnswerBankFreshnessSettings,
+  AnswerBankLineage,
+  AnswerBankLineageNode,
+  AnswerBankListResponse,
+  AnswerBankReviewQueueItem,
+  AnswerBankSearchParams,
+  AnswerBankVersion,
+  AnswerBankVersionDiff,
+  AnswerBankVersionEdit,
+  AnswerBankWithStats,
+  AnswerFreshnessStatus
+} from '@/lib/types/answer-bank.types'
+import { diffStats, diffText } from '@/lib/utils/text-diff'
+
+export type AnswerVersionErrorCode = 'not_found' | 'not_permitted' | 'no_changes' | 'not_a_template' | 'invalid_merge'
+
+export const ANSWER_VERSION_ERROR_STATUS: Record<AnswerVersionErrorCode, number> = {
+  not_found: 404,
+  not_permitted: 403,
+  no_changes: 400,
+  not_a_template: 400,
+  invalid_merge: 400
+}
+
+export class AnswerVersionError extends Error {
+  constructor(message: string, public code: AnswerVersionErrorCode) {
+    super(message)
+    this.name = 'AnswerVersionError'
+  }
+}
+
+export interface ForkTemplateOptions {
+  organizationId: string
+  userId: string
+  title?: string
+}
+
+export interface RecordUsageOptions {
+  userId: string
+  context?: string
+  sessionId?: string
+  tenderWorkflowId?: string
+  tenderQuestionId?: string
+}
+
+export interface ReviewQueueOptions {
+  // Only answers owned by this user
+  ownerId?: string
+  // Include answers due for review or expiring within this many days
+  withinDays?: number
+}
+
+export interface EffectiveAnswersOptions {
+  // Answers need at least this many won or lost bids to be ranked
+  minDecidedBids?: number
+  limit?: number
+}
+
+const LINEAGE_COLUMNS = 'id, title, version, is_template, parent_id, forked_from_version, updated_at'
+// Guards against parent_id cycles as well as very deep chains
+const MAX_LINEAGE_DEPTH = 10
+const DEFAULT_PER_PAGE = 20
+const DEFAULT_TREND_MONTHS = 12
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Answers due for review or expiring within this many days are flagged early
+export const REVIEW_SOON_DAYS = 14
+
+const FRESHNESS_ORDER: Record<AnswerFreshnessStatus, number> = {
+  expired: 0,
+  review_due: 1,
+  review_soon: 2,
+  fresh: 3
+}
+
+type LineageRow = AnswerBankLineageNode & { parent_id: string | null }
+
+function toLineageNode(row: LineageRow): AnswerBankLineageNode {
+  return {
+    id: row.id,
+    title: row.title,
+    version: row.version,
+    is_template: row.is_template,
+    forked_from_version: row.forked_from_version ?? undefined,
+    updated_at: row.updated_at
+  }
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+function toEffectiveness(row: Record<string, unknown>): AnswerBankEffectiveness {
+  return {
+    answer_id: row.answer_id as string,
+    title: row.title as string | undefined,
+    category_id: (row.category_id as string | null | undefined) ?? null,
+    bids_used: Number(row.bids_used ?? 0),
+    bids_won: Number(row.bids_won ?? 0),
+    bids_lost: Number(row.bids_lost ?? 0),
+    bids_pending: Number(row.bids_pending ?? 0),
+    win_rate: toNumberOrNull(row.win_rate),
+    avg_evaluator_score: toNumberOrNull(row.avg_evaluator_score),
+    avg_final_score: toNumberOrNull(row.avg_final_score),
+    last_used_in_bid_at: (row.last_used_in_bid_at as string | null | undefined) ?? null
+  }
+}
+
+function emptyEffectiveness(answerId: string): AnswerBankEffectiveness {
+  return toEffectiveness({ answer_id: answerId })
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Bids an answer was used in, bucketed by the month it went into the bid.
+ * Covers the last `months` months up to `now`, including empty months.
+ */
+export function buildEffectivenessTrend(
+  bids: AnswerBankBidUsage[],
+  months: number = DEFAULT_TREND_MONTHS,
+  now: Date = new Date()
+): AnswerBankEffectivenessTrendPoint[] {
+  const buckets = new Map<string, { used: number; won: number; lost: number; scoreSum: number; scored: number }>()
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - offset, 1))
+    buckets.set(monthKey(month), { used: 0, won: 0, lost: 0, scoreSum: 0, scored: 0 })
+  }
+
+  for (const bid of bids) {
+    const bucket = buckets.get(monthKey(new Date(bid.first_used_at)))
+    if (!bucket) continue
+    bucket.used++
+    if (bid.outcome === 'won') bucket.won++
+    if (bid.outcome === 'lost') bucket.lost++
+    const scored = Number(bid.scored_questions ?? 0)
+    if (scored > 0 && bid.avg_evaluator_score != null) {
+      bucket.scoreSum += Number(bid.avg_evaluator_score) * scored
+      bucket.scored += scored
+    }
+  }
+
+  return Array.from(buckets, ([period, bucket]) => ({
+    period,
+    bids_used: bucket.used,
+    bids_won: bucket.won,
+    bids_lost: bucket.lost,
+    win_rate: bucket.won + bucket.lost > 0 ? bucket.won / (bucket.won + bucket.lost) : null,
+    avg_evaluator_score: bucket.scored > 0 ? Math.round((bucket.scoreSum / bucket.scored) * 100) / 100 : null
+  }))
+}
+
+/**
+ * Where an answer is in its review cycle. Expiry wins over a due review.
+ */
+export function getFreshnessStatus(
+  answer: Pick<AnswerBank, 'expires_at' | 'expired_at' | 'next_review_at'>,
+  now: Date = new Date()
+): AnswerFreshnessStatus {
+  const time = now.getTime()
+  const expiresAt = answer.expires_at ? new Date(answer.expires_at).getTime() : null
+  const nextReviewAt = answer.next_review_at ? new Date(answer.next_review_at).getTime() : null
+
+  if (answer.expired_at || (expiresAt !== null && expiresAt <= time)) return 'expired'
+  if (nextReviewAt !== null && nextReviewAt <= time) return 'review_due'
+
+  const soon = time + REVIEW_SOON_DAYS * DAY_MS
+  if ((nextReviewAt !== null && nextReviewAt <= soon) || (expiresAt !== null && expiresAt <= soon)) {
+    return 'review_soon'
+  }
+  return 'fresh'
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+export class AnswerBankService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * The organisation's answers with category and rating details, filtered and paged
+   */
+  async listAnswers(organizationId: string, params: AnswerBankSearchParams = {}): Promise<AnswerBankListResponse> {
+    const page = Math.max(params.page ?? 1, 1)
+    const perPage = params.per_page ?? DEFAULT_PER_PAGE
+
+    let query = this.supabase
+      .from('answer_bank_with_stats')
+      .select('*', { count: 'exact' })
+      .eq('organization_id', organizationId)
+      .is('merged_into_id', null)
+
+    if (params.query?.trim()) {
+      // Quote the pattern so commas and brackets cannot break the or-filter
+      const pattern = `"%${escapeLike(params.query.trim()).replace(/"/g, '')}%"`
+      query = query.or(`title.ilike.${pattern},content.ilike.${pattern}`)
+    }
+    if (params.category_id) query = query.eq('category_id', params.category_id)
+    if (params.is_template !== undefined) query = query.eq('is_template', params.is_template)
+    if (params.is_public !== undefined) query = query.eq('is_public', params.is_public)
+    if (params.tags && params.tags.length > 0) query = query.contains('tags', params.tags)
+    if (params.created_by) query = query.eq('created_by', params.created_by)
+    if (params.created_after) query = query.gte('created_at', params.created_after)
+    if (params.created_before) query = query.lte('created_at', params.created_before)
+    if (params.min_rating !== undefined) query = query.gte('avg_rating', params.min_rating)
+
+    const { data, error, count } = await query
+      .order(params.sort_by ?? 'updated_at', { ascending: params.sort_order === 'asc' })
+      .range((page - 1) * perPage, page * perPage - 1)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const answers = (data || []) as AnswerBankWithStats[]
+    try {
+      const effectiveness = await this.getEffectiveness(answers.map(answer => answer.id))
+      for (const answer of answers) {
+        answer.effectiveness = effectiveness[answer.id]
+      }
+    } catch (effectivenessError) {
+      // The list is still useful without bid metrics
+      console.error('Failed to load answer effectiveness:', effectivenessError)
+    }
+
+    const total = count ?? 0
+    return {
+      data: answers,
+      total,
+      page,
+      per_page: perPage,
+      total_pages: Math.ceil(total / perPage)
+    }
+  }
+
+  async getAnswer(answerId: string): Promise<AnswerBank | null> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select('*')
+      .eq('id', answerId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return data as AnswerBank | null
+  }
+
+  /**
+   * Save an edit as the answer's next version. Fields left out keep their
+   * current value.
+   */
+  async editAnswer(answerId: string, edit: AnswerBankVersionEdit): Promise<AnswerBankVersion> {
+    const answer = await this.getAnswer(answerId)
+    if (!answer) {
+      throw new AnswerVersionError('Answer not found', 'not_found')
+    }
+
+    return this.saveVersion(answerId, {
+      title: edit.title ?? answer.title,
+      content: edit.content ?? answer.content,
+      tags: edit.tags ?? answer.tags ?? [],
+      change_note: edit.change_note
+    })
+  }
+
+  /**
+   * Every version of an answer, newest first
+   */
+  async getVersions(answerId: string): Promise<AnswerBankVersion[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_versions')
+      .select('*')
+      .eq('answer_id', answerId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as AnswerBankVersion[]
+  }
+
+  /**
+   * Word diff between two versions, older first. Null if either is missing.
+   */
+  async diffVersions(answerId: string, version: number, otherVersion: number): Promise<AnswerBankVersionDiff | null> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_versions')
+      .select('*')
+      .eq('answer_id', answerId)
+      .in('version', [version, otherVersion])
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const versions = (data || []) as AnswerBankVersion[]
+    const first = versions.find(v => v.version === Math.min(version, otherVersion))
+    const second = versions.find(v => v.version === Math.max(version, otherVersion))
+    if (!first || !second) return null
+
+    const segments = diffText(first.content, second.content)
+    const fromTags = first.tags || []
+    const toTags = second.tags || []
+    return {
+      answer_id: answerId,
+      from: first,
+      to: second,
+      title_changed: first.title !== second.title,
+      tags_added: toTags.filter(tag => !fromTags.includes(tag)),
+      tags_removed: fromTags.filter(tag => !toTags.includes(tag)),
+      segments,
+      stats: diffStats(segments)
+    }
+  }
+
+  /**
+   * Make an earlier version current again. The restore is itself a new
+   * version, so it can be undone the same way.
+   */
+  async restoreVersion(answerId: string, version: number, changeNote?: string): Promise<AnswerBankVersion> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_versions')
+      .select('*')
+      .eq('answer_id', answerId)
+      .eq('version', version)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new AnswerVersionError(`Version ${version} not found`, 'not_found')
+    }
+
+    const restored = data as AnswerBankVersion
+    return this.saveVersion(answerId, {
+      title: restored.title,
+      content: restored.content,
+      tags: restored.tags || [],
+      change_note: changeNote?.trim() || `Restored version ${version}`
+    }, version)
+  }
+
+  /**
+   * Start a new answer from a template, remembering the template version
+   */
+  async forkTemplate(templateId: string, options: ForkTemplateOptions): Promise<AnswerBank> {
+    const template = await this.getAnswer(templateId)
+    if (!template) {
+      throw new AnswerVersionError('Template not found', 'not_found')
+    }
+    if (!template.is_template) {
+      throw new AnswerVersionError('Only templates can be forked', 'not_a_template')
+    }
+
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .insert({
+        title: options.title?.trim() || template.title,
+        content: template.content,
+        category_id: template.category_id ?? null,
+        tags: template.tags || [],
+        organization_id: options.organizationId,
+        created_by: options.userId,
+        parent_id: template.id,
+        forked_from_version: template.version,
+        is_template: false,
+        is_public: false
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return data as AnswerBank
+  }
+
+  /**
+   * The templates an answer descends from and the answers forked from it
+   */
+  async getLineage(answerId: string): Promise<AnswerBankLineage | null> {
+    const answer = await this.getLineageRow(answerId)
+    if (!answer) return null
+
+    const ancestors: AnswerBankLineageNode[] = []
+    const seen = new Set([answer.id])
+    let parentId = answer.parent_id
+    while (parentId && !seen.has(parentId) && ancestors.length < MAX_LINEAGE_DEPTH) {
+      seen.add(parentId)
+      const parent = await this.getLineageRow(parentId)
+      // The parent may have been deleted or belong to another organisation
+      if (!parent) break
+      ancestors.unshift(toLineageNode(parent))
+      parentId = parent.parent_id
+    }
+
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select(LINEAGE_COLUMNS)
+      .eq('parent_id', answerId)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const forks: AnswerBankFork[] = ((data || []) as LineageRow[]).map(row => ({
+      ...toLineageNode(row),
+      parent_changed_since_fork: row.forked_from_version != null && answer.version > row.forked_from_version
+    }))
+
+    return { answer: toLineageNode(answer), ancestors, forks }
+  }
+
+  /**
+   * Change an answer's owner, review interval or expiry date
+   */
+  async updateFreshnessSettings(
+    answerId: string,
+    userId: string,
+    settings: AnswerBankFreshnessSettings
+  ): Promise<AnswerBank> {
+    return this.updateFreshness(answerId, { ...settings, updated_by: userId })
+  }
+
+  /**
+   * Confirm an answer is still accurate, restarting its review interval.
+   * Passing expires_at moves (or with null clears) the expiry date.
+   */
+  async markReviewed(
+    answerId: string,
+    userId: string,
+    options: Pick<AnswerBankFreshnessSettings, 'expires_at'> = {}
+  ): Promise<AnswerBank> {
+    return this.updateFreshness(answerId, {
+      ...options,
+      last_reviewed_at: new Date().toISOString(),
+      last_reviewed_by: userId,
+      updated_by: userId
+    })
+  }
+
+  /**
+   * The organisation's answers that have expired, are due for review or will
+   * be soon, most urgent first
+   */
+  async listReviewQueue(
+    organizationId: string,
+    options: ReviewQueueOptions = {},
+    now: Date = new Date()
+  ): Promise<AnswerBankReviewQueueItem[]> {
+    const horizon = new Date(now.getTime() + (options.withinDays ?? REVIEW_SOON_DAYS) * DAY_MS).toISOString()
+
+    let query = this.supabase
+      .from('answer_bank_with_stats')
+      .select('id, title, owner_id, owner_email, category_name, next_review_at, expires_at, expired_at, last_reviewed_at, updated_at')
+      .eq('organization_id', organizationId)
+      .or(`expired_at.not.is.null,expires_at.lte.${horizon},next_review_at.lte.${horizon}`)
+      .is('merged_into_id', null)
+
+    if (options.ownerId) query = query.eq('owner_id', options.ownerId)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const urgency = (item: AnswerBankReviewQueueItem) =>
+      Math.min(...[item.expires_at, item.next_review_at].filter(Boolean).map(date => new Date(date as string).getTime()))
+
+    return ((data || []) as Array<AnswerBankWithStats>)
+      .map(row => ({
+        id: row.id,
+        title: row.title,
+        owner_id: row.owner_id,
+        owner_email: row.owner_email,
+        category_name: row.category_name,
+        freshness: getFreshnessStatus(row, now),
+        next_review_at: row.next_review_at,
+        expires_at: row.expires_at,
+        last_reviewed_at: row.last_reviewed_at,
+        updated_at: row.updated_at
+      }))
+      .sort((a, b) => FRESHNESS_ORDER[a.freshness] - FRESHNESS_ORDER[b.freshness] || urgency(a) - urgency(b))
+  }
+
+  /**
+   * Record that an answer was used, optionally in a specific bid and question
+   */
+  async recordUsage(answerId: string, options: RecordUsageOptions): Promise<void> {
+    const { error } = await this.supabase.rpc('increment_answer_usage', {
+      answer_id_param: answerId,
+      user_id_param: options.userId,
+      context_param: options.context ?? 'general',
+      session_id_param: options.sessionId ?? null,
+      tender_workflow_id_param: options.tenderWorkflowId ?? null,
+      tender_question_id_param: options.tenderQuestionId ?? null
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+
+  /**
+   * Whether the caller can see a tender workflow (RLS limits it to their organisation)
+   */
+  async canAccessTenderWorkflow(tenderWorkflowId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('tender_workflows')
+      .select('id')
+      .eq('id', tenderWorkflowId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return !!data
+  }
+
+  /**
+   * Bid metrics keyed by answer id. Answers never used in a bid are left out.
+   */
+  async getEffectiveness(answerIds: string[]): Promise<Record<string, AnswerBankEffectiveness>> {
+    if (answerIds.length === 0) return {}
+
+    const { data, error } = await this.supabase
+      .from('answer_bank_effectiveness')
+      .select('*')
+      .in('answer_id', answerIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const byAnswer: Record<string, AnswerBankEffectiveness> = {}
+    for (const row of (data || []) as Record<string, unknown>[]) {
+      const effectiveness = toEffectiveness(row)
+      byAnswer[effectiveness.answer_id] = effectiveness
+    }
+    return byAnswer
+  }
+
+  /**
+   * Current bid metrics for an answer and how they moved month by month
+   */
+  async getEffectivenessReport(answerId: string, months: number = DEFAULT_TREND_MONTHS): Promise<AnswerBankEffectivenessReport> {
+    const now = new Date()
+    const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1))
+
+    const [effectiveness, bids] = await Promise.all([
+      this.getEffectiveness([answerId]),
+      this.supabase
+        .from('answer_bank_bid_usage')
+        .select('*')
+        .eq('answer_id', answerId)
+        .gte('first_used_at', since.toISOString())
+    ])
+
+    if (bids.error) {
+      throw new Error(`Database error: ${bids.error.message}`)
+    }
+
+    return {
+      effectiveness: effectiveness[answerId] ?? emptyEffectiveness(answerId),
+      trend: buildEffectivenessTrend((bids.data || []) as AnswerBankBidUsage[], months, now)
+    }
+  }
+
+  /**
+   * Answers with the best win rate, ties broken by evaluator score
+   */
+  async listMostEffective(options: EffectiveAnswersOptions = {}): Promise<AnswerBankEffectiveness[]> {
+    const minDecidedBids = options.minDecidedBids ?? 2
+    const { data, error } = await this.supabase
+      .from('answer_bank_effectiveness')
+      .select('*')
+      .not('win_rate', 'is', null)
+      .order('win_rate', { ascending: false })
+      .order('avg_evaluator_score', { ascending: false, nullsFirst: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as Record<string, unknown>[])
+      .map(toEffectiveness)
+      .filter(answer => answer.bids_won + answer.bids_lost >= minDecidedBids)
+      .slice(0, options.limit ?? 10)
+  }
+
+  private async updateFreshness(answerId: string, changes: Record<string, unknown>): Promise<AnswerBank> {
+    if (!(await this.getAnswer(answerId))) {
+      throw new AnswerVersionError('Answer not found', 'not_found')
+    }
+
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .update(changes)
+      .eq('id', answerId)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    // RLS hides the row from updates by anyone but its author or owner
+    if (!data) {
+      throw new AnswerVersionError('Only the author or owner can change this answer', 'not_permitted')
+    }
+    return data as AnswerBank
+  }
+
+  private async getLineageRow(answerId: string): Promise<LineageRow | null> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select(LINEAGE_COLUMNS)
+      .eq('id', answerId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return data as LineageRow | null
+  }
+
+  private async saveVersion(
+    answerId: string,
+    next: { title: string; content: string; tags: string[]; change_note?: string },
+    restoredFromVersion?: number
+  ): Promise<AnswerBankVersion> {
+    const { data, error } = await this.supabase.rpc('save_answer_version', {
+      p_answer_id: answerId,
+      p_title: next.title,
+      p_content: next.content,
+      p_tags: next.tags,
+      p_change_note: next.change_note?.trim() || null,
+      p_restored_from_version: restoredFromVersion ?? null
+    })
+
+    if (error) {
+      if (error.code === '42501') {
+        throw new AnswerVersionError(error.message, 'not_permitted')
+      }
+      if (error.code === 'P0002') {
+        throw new AnswerVersionError('Answer not found', 'not_found')
+      }
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    // The function returns an all-null row when nothing changed
+    const version = data as AnswerBankVersion | null
+    if (!version?.id) {
+      throw new AnswerVersionError('No changes to save', 'no_changes')
+    }
+    return version
+  }
+}
+
+// Export singleton instance
+export const answerBankService = new AnswerBankService()
@@ -0,0 +1,469 @@
+/**
+ * Answer Duplicate Service
+ * Finds near-duplicate answer bank entries and merges them. The detection
+ * job compares every live answer in an organisation by embedding similarity
+ * (same meaning) and word shingles (same wording), groups linked answers into
+ * clusters and keeps answer_bank_duplicate_clusters in step. Merging folds a
+ * cluster into the canonical answer the user picks.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type {
+  AnswerBank,
+  AnswerBankDuplicateCluster,
+  AnswerBankDuplicateCount,
+  AnswerBankDuplicateMember,
+  AnswerBankMergeRequest,
+  AnswerBankWithStats
+} from '@/lib/types/answer-bank.types'
+import { AnswerVersionError } from './answer-bank'
+import { EmbeddingService } from './embedding-service'
+import { cosineSimilarity } from './tender-knowledge-integration'
+
+// Words per shingle
+export const SHINGLE_SIZE = 4
+// Pairs meeting any of these are near-duplicates
+const EMBEDDING_DUPLICATE_THRESHOLD = 0.95
+export const SHINGLE_DUPLICATE_THRESHOLD = 0.6
+// Close in meaning with some wording in common
+const EMBEDDING_PARAPHRASE_THRESHOLD = 0.9
+const SHINGLE_PARAPHRASE_THRESHOLD = 0.3
+
+const MAX_EMBEDDED_CHARS = 4000
+const ANSWER_PAGE_SIZE = 1000
+
+export interface DuplicateCandidate {
+  id: string
+  title: string
+  content: string
+  usage_count: number
+  updated_at: string
+  embedding: number[]
+}
+
+export interface DetectedDuplicateMember {
+  answer_id: string
+  embedding_similarity: number
+  shingle_similarity: number
+}
+
+export interface DetectedDuplicateCluster {
+  member_key: string
+  suggested_canonical_id: string
+  max_similarity: number
+  members: DetectedDuplicateMember[]
+}
+
+export interface DuplicateDetectionResult {
+  processedAt: string
+  organizationsScanned: number
+  answersScanned: number
+  clustersFound: number
+  clustersAdded: number
+  clustersClosed: number
+  errors: Array<{
+    organizationId: string
+    error: string
+  }>
+}
+
+interface AnswerRow {
+  id: string
+  organization_id: string
+  title: string
+  content: string
+  usage_count: number | null
+  updated_at: string
+}
+
+interface ClusterRow {
+  id: string
+  member_key: string
+  status: string
+}
+
+interface ClusterWithMembersRow {
+  id: string
+  suggested_canonical_id: string | null
+  max_similarity: number | string
+  status: AnswerBankDuplicateCluster['status']
+  detected_at: string
+  answer_bank_duplicate_members: Array<{
+    answer_id: string
+    embedding_similarity: number | string
+    shingle_similarity: number | string
+  }>
+}
+
+/**
+ * Overlapping runs of SHINGLE_SIZE words, ignoring case and punctuation
+ */
+export function textShingles(text: string, size: number = SHINGLE_SIZE): Set<string> {
+  const words = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean)
+  if (words.length <= size) return new Set(words.length > 0 ? [words.join(' ')] : [])
+
+  const shingles = new Set<string>()
+  for (let i = 0; i <= words.length - size; i++) {
+    shingles.add(words.slice(i, i + size).join(' '))
+  }
+  return shingles
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+
+  let shared = 0
+  a.forEach(shingle => {
+    if (b.has(shingle)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+export function isNearDuplicate(embeddingSimilarity: number, shingleSimilarity: number): boolean {
+  return embeddingSimilarity >= EMBEDDING_DUPLICATE_THRESHOLD
+    || shingleSimilarity >= SHINGLE_DUPLICATE_THRESHOLD
+    || (embeddingSimilarity >= EMBEDDING_PARAPHRASE_THRESHOLD && shingleSimilarity >= SHINGLE_PARAPHRASE_THRESHOLD)
+}
+
+export function clusterMemberKey(answerIds: string[]): string {
+  return [...answerIds].sort().join(',')
+}
+
+/**
+ * Group answers linked by near-duplicate pairs. Linking is transitive, so a
+ * cluster can hold answers that only match through a third. The most used
+ * member, then the most recently updated, is suggested as the one to keep.
+ */
+export function clusterDuplicates(candidates: DuplicateCandidate[]): DetectedDuplicateCluster[] {
+  const parent = candidates.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const shingles = candidates.map(candidate => textShingles(`${candidate.title} ${candidate.content}`))
+  const best = candidates.map(() => ({ embedding: 0, shingle: 0 }))
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const embedding = cosineSimilarity(candidates[i].embedding, candidates[j].embedding)
+      const shingle = jaccardSimilarity(shingles[i], shingles[j])
+      if (!isNearDuplicate(embedding, shingle)) continue
+
+      parent[find(j)] = find(i)
+      for (const k of [i, j]) {
+        if (embedding > best[k].embedding) best[k] = { embedding, shingle }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>()
+  candidates.forEach((_, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) || []), i])
+  })
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => {
+      const canonical = group.reduce((a, b) => {
+        const [x, y] = [candidates[a], candidates[b]]
+        if (x.usage_count !== y.usage_count) return x.usage_count > y.usage_count ? a : b
+        return x.updated_at >= y.updated_at ? a : b
+      })
+
+      return {
+        member_key: clusterMemberKey(group.map(i => candidates[i].id)),
+        suggested_canonical_id: candidates[canonical].id,
+        max_similarity: roundSimilarity(Math.max(...group.map(i => best[i].embedding))),
+        members: group.map(i => ({
+          answer_id: candidates[i].id,
+          embedding_similarity: roundSimilarity(best[i].embedding),
+          shingle_similarity: roundSimilarity(best[i].shingle)
+        }))
+      }
+    })
+    .sort((a, b) => b.max_similarity - a.max_similarity)
+}
+
+function roundSimilarity(value: number): number {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000
+}
+
+export class AnswerDuplicateService {
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private embeddings: EmbeddingService = new EmbeddingService(supabase)
+  ) {}
+
+  /**
+   * Re-cluster every organisation's live answers. New clusters are added,
+   * open clusters that no longer match are closed, and dismissed clusters
+   * with the same members are not raised again.
+   */
+  async detectDuplicates(now: Date = new Date()): Promise<DuplicateDetectionResult> {
+    const result: DuplicateDetectionResult = {
+      processedAt: now.toISOString(),
+      organizationsScanned: 0,
+      answersScanned: 0,
+      clustersFound: 0,
+      clustersAdded: 0,
+      clustersClosed: 0,
+      errors: []
+    }
+
+    const byOrganization = new Map<string, AnswerRow[]>()
+    for (const answer of await this.loadLiveAnswers()) {
+      byOrganization.set(answer.organization_id, [...(byOrganization.get(answer.organization_id) || []), answer])
+    }
+
+    for (const [organizationId, answers] of byOrganization) {
+      result.organizationsScanned++
+      result.answersScanned += answers.length
+      try {
+        const clusters = await this.clusterAnswers(answers)
+        const { added, closed } = await this.syncClusters(organizationId, clusters)
+        result.clustersFound += clusters.length
+        result.clustersAdded += added
+        result.clustersClosed += closed
+      } catch (error) {
+        result.errors.push({
+          organizationId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Open clusters with their live members, closest matches first
+   */
+  async listClusters(): Promise<AnswerBankDuplicateCluster[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_duplicate_clusters')
+      .select('id, suggested_canonical_id, max_similarity, status, detected_at, answer_bank_duplicate_members(answer_id, embedding_similarity, shingle_similarity)')
+      .eq('status', 'open')
+      .order('max_similarity', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const clusters = (data || []) as ClusterWithMembersRow[]
+    const answerIds = Array.from(new Set(clusters.flatMap(cluster => cluster.answer_bank_duplicate_members.map(member => member.answer_id))))
+    if (answerIds.length === 0) return []
+
+    const { data: answerData, error: answerError } = await this.supabase
+      .from('answer_bank_with_stats')
+      .select('id, title, content, category_id, category_name, tags, usage_count, avg_rating, rating_count, updated_at')
+      .in('id', answerIds)
+      .is('merged_into_id', null)
+
+    if (answerError) {
+      throw new Error(`Database error: ${answerError.message}`)
+    }
+
+    const answers = new Map(((answerData || []) as AnswerBankWithStats[]).map(answer => [answer.id, answer]))
+
+    return clusters
+      .map(cluster => ({
+        id: cluster.id,
+        suggested_canonical_id: cluster.suggested_canonical_id,
+        max_similarity: Number(cluster.max_similarity),
+        status: cluster.status,
+        detected_at: cluster.detected_at,
+        members: cluster.answer_bank_duplicate_members
+          .filter(member => answers.has(member.answer_id))
+          .map((member): AnswerBankDuplicateMember => {
+            const answer = answers.get(member.answer_id) as AnswerBankWithStats
+            return {
+              answer_id: answer.id,
+              title: answer.title,
+              content: answer.content,
+              category_id: answer.category_id ?? null,
+              category_name: answer.category_name ?? null,
+              tags: answer.tags || [],
+              usage_count: answer.usage_count || 0,
+              avg_rating: Number(answer.avg_rating || 0),
+              rating_count: Number(answer.rating_count || 0),
+              updated_at: answer.updated_at,
+              embedding_similarity: Number(member.embedding_similarity),
+              shingle_similarity: Number(member.shingle_similarity)
+            }
+          })
+      }))
+      .filter(cluster => cluster.members.length > 1)
+  }
+
+  /**
+   * Answers in open clusters per category
+   */
+  async getDuplicateCounts(): Promise<AnswerBankDuplicateCount[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_duplicate_counts')
+      .select('category_id, duplicate_answers, clusters')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as Array<Record<string, unknown>>).map(row => ({
+      category_id: (row.category_id as string | null) ?? null,
+      duplicate_answers: Number(row.duplicate_answers),
+      clusters: Number(row.clusters)
+    }))
+  }
+
+  /**
+   * Merge duplicates into the canonical answer and close the cluster
+   */
+  async mergeDuplicates(request: AnswerBankMergeRequest, clusterId?: string): Promise<AnswerBank> {
+    const { data, error } = await this.supabase.rpc('merge_answer_bank_duplicates', {
+      p_canonical_id: request.canonical_id,
+      p_duplicate_ids: request.duplicate_ids,
+      p_cluster_id: clusterId ?? null
+    })
+
+    if (error) {
+      if (error.code === '42501') {
+        throw new AnswerVersionError(error.message, 'not_permitted')
+      }
+      if (error.code === 'P0002') {
+        throw new AnswerVersionError(error.message, 'not_found')
+      }
+      if (error.code === '22023') {
+        throw new AnswerVersionError(error.message, 'invalid_merge')
+      }
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data as AnswerBank
+  }
+
+  /**
+   * Mark a cluster as not duplicates so it is not raised again
+   */
+  async dismissCluster(clusterId: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_duplicate_clusters')
+      .update({ status: 'dismissed', resolved_at: new Date().toISOString(), resolved_by: userId })
+      .eq('id', clusterId)
+      .eq('status', 'open')
+      .select('id')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      throw new AnswerVersionError('Duplicate group not found', 'not_found')
+    }
+  }
+
+  private async loadLiveAnswers(): Promise<AnswerRow[]> {
+    const answers: AnswerRow[] = []
+
+    for (let from = 0; ; from += ANSWER_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('answer_bank')
+        .select('id, organization_id, title, content, usage_count, updated_at')
+        .is('merged_into_id', null)
+        .order('id')
+        .range(from, from + ANSWER_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      answers.push(...((data || []) as AnswerRow[]))
+      if (!data || data.length < ANSWER_PAGE_SIZE) return answers
+    }
+  }
+
+  private async clusterAnswers(answers: AnswerRow[]): Promise<DetectedDuplicateCluster[]> {
+    if (answers.length < 2) return []
+
+    // Unchanged answers come from the embedding cache
+    const { embeddings } = await this.embeddings.generateBatchEmbeddings({
+      texts: answers.map(answer => `${answer.title}\n${answer.content}`.slice(0, MAX_EMBEDDED_CHARS))
+    })
+
+    return clusterDuplicates(answers.map((answer, i) => ({
+      id: answer.id,
+      title: answer.title,
+      content: answer.content,
+      usage_count: answer.usage_count || 0,
+      updated_at: answer.updated_at,
+      embedding: embeddings[i].embedding
+    })))
+  }
+
+  private async syncClusters(
+    organizationId: string,
+    clusters: DetectedDuplicateCluster[]
+  ): Promise<{ added: number; closed: number }> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_duplicate_clusters')
+      .select('id, member_key, status')
+      .eq('organization_id', organizationId)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const existing = new Map(((data || []) as ClusterRow[]).map(cluster => [cluster.member_key, cluster]))
+    const detectedKeys = new Set(clusters.map(cluster => cluster.member_key))
+
+    const stale = Array.from(existing.values())
+      .filter(cluster => cluster.status === 'open' && !detectedKeys.has(cluster.member_key))
+      .map(cluster => cluster.id)
+
+    if (stale.length > 0) {
+      const { error: deleteError } = await this.supabase
+        .from('answer_bank_duplicate_clusters')
+        .delete()
+        .in('id', stale)
+
+      if (deleteError) {
+        throw new Error(`Database error: ${deleteError.message}`)
+      }
+    }
+
+    let added = 0
+    for (const cluster of clusters.filter(detected => !existing.has(detected.member_key))) {
+      const { data: inserted, error: insertError } = await this.supabase
+        .from('answer_bank_duplicate_clusters')
+        .insert({
+          organization_id: organizationId,
+          member_key: cluster.member_key,
+          suggested_canonical_id: cluster.suggested_canonical_id,
+          max_similarity: cluster.max_similarity
+        })
+        .select('id')
+        .single()
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`)
+      }
+
+      const { error: membersError } = await this.supabase
+        .from('answer_bank_duplicate_members')
+        .insert(cluster.members.map(member => ({ cluster_id: (inserted as { id: string }).id, ...member })))
+
+      if (membersError) {
+        throw new Error(`Database error: ${membersError.message}`)
+      }
+      added++
+    }
+
+    return { added, closed: stale.length }
+  }
+}
+
+// Export singleton instance
+export const answerDuplicateService = new AnswerDuplicateService()
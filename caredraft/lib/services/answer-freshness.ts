@@ -0,0 +1,190 @@
+/**
+ * Answer Freshness Manager
+ * Scheduled job for the answer bank review cycle: marks answers past their
+ * expiry date as expired and tells owners when an answer is due for review.
+ * Each answer is reported once per expiry and once per review date.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type { NotificationInsert } from '@/lib/database.types'
+
+export interface AnswerFreshnessResult {
+  processedAt: string
+  answersExpired: number
+  reviewRemindersSent: number
+  errors: Array<{
+    answerId: string
+    error: string
+    type: 'expiry' | 'review'
+  }>
+}
+
+interface FreshnessRow {
+  id: string
+  title: string
+  owner_id: string | null
+  created_by: string
+  expires_at: string | null
+  next_review_at: string | null
+}
+
+const FRESHNESS_COLUMNS = 'id, title, owner_id, created_by, expires_at, next_review_at'
+const REVIEW_QUEUE_URL = '/answer-bank/review'
+
+function recipientOf(answer: FreshnessRow): string {
+  return answer.owner_id ?? answer.created_by
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+export class AnswerFreshnessManager {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Expire answers past their expiry date, then remind owners of due reviews
+   */
+  async processFreshness(now: Date = new Date()): Promise<AnswerFreshnessResult> {
+    const result: AnswerFreshnessResult = {
+      processedAt: now.toISOString(),
+      answersExpired: 0,
+      reviewRemindersSent: 0,
+      errors: []
+    }
+
+    for (const answer of await this.findNewlyExpired(now)) {
+      try {
+        if (await this.markExpired(answer, now)) {
+          result.answersExpired++
+        }
+      } catch (error) {
+        result.errors.push({ answerId: answer.id, error: errorMessage(error), type: 'expiry' })
+      }
+    }
+
+    for (const answer of await this.findDueForReview(now)) {
+      try {
+        if (await this.sendReviewReminder(answer, now)) {
+          result.reviewRemindersSent++
+        }
+      } catch (error) {
+        result.errors.push({ answerId: answer.id, error: errorMessage(error), type: 'review' })
+      }
+    }
+
+    return result
+  }
+
+  private async findNewlyExpired(now: Date): Promise<FreshnessRow[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select(FRESHNESS_COLUMNS)
+      .is('merged_into_id', null)
+      .is('expired_at', null)
+      .lte('expires_at', now.toISOString())
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as FreshnessRow[]
+  }
+
+  private async findDueForReview(now: Date): Promise<FreshnessRow[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select(FRESHNESS_COLUMNS)
+      .is('merged_into_id', null)
+      .is('expired_at', null)
+      .is('review_notified_at', null)
+      .lte('next_review_at', now.toISOString())
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as FreshnessRow[]
+  }
+
+  /**
+   * Stamp the answer expired and tell its owner. Returns false if another
+   * run got there first.
+   */
+  private async markExpired(answer: FreshnessRow, now: Date): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .update({ expired_at: now.toISOString() })
+      .eq('id', answer.id)
+      .is('expired_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data || data.length === 0) return false
+
+    await this.createNotifications([{
+      user_id: recipientOf(answer),
+      type: 'deadline',
+      title: `"${answer.title}" has expired`,
+      content: {
+        message: `This answer passed its expiry date${answer.expires_at ? ` of ${formatDate(answer.expires_at)}` : ''}. Writers are warned before using it until it is reviewed.`,
+        answerId: answer.id,
+        expiresAt: answer.expires_at
+      },
+      action_url: REVIEW_QUEUE_URL,
+      related_entity_type: 'answer_bank',
+      related_entity_id: answer.id,
+      priority: 3
+    }])
+    return true
+  }
+
+  /**
+   * Tell the owner an answer is due for review. Returns false if another
+   * run already did.
+   */
+  private async sendReviewReminder(answer: FreshnessRow, now: Date): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .update({ review_notified_at: now.toISOString() })
+      .eq('id', answer.id)
+      .is('review_notified_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data || data.length === 0) return false
+
+    await this.createNotifications([{
+      user_id: recipientOf(answer),
+      type: 'review_request',
+      title: `"${answer.title}" is due for review`,
+      content: {
+        message: `Check the figures, ratings and dates in this answer are still correct${answer.next_review_at ? ` (review was due ${formatDate(answer.next_review_at)})` : ''}.`,
+        answerId: answer.id,
+        nextReviewAt: answer.next_review_at
+      },
+      action_url: REVIEW_QUEUE_URL,
+      related_entity_type: 'answer_bank',
+      related_entity_id: answer.id,
+      priority: 2
+    }])
+    return true
+  }
+
+  private async createNotifications(notifications: NotificationInsert[]): Promise<void> {
+    const { error } = await this.supabase.from('notifications').insert(notifications)
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// Export singleton instance
+export const answerFreshnessManager = new AnswerFreshnessManager()
@@ -0,0 +1,635 @@
+/**
+ * Answer Import/Export Service
+ * Bulk import of past answers from CSV, XLSX, DOCX (one answer per heading)
+ * and JSON, and a full export of the library for backup or migration.
+ * Imports are previewed first: each row is mapped, validated and checked
+ * against existing answers and earlier rows for duplicates. Committing
+ * re-reads the same file and inserts the rows that passed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import JSZip from 'jszip'
+import mammoth from 'mammoth'
+import { createClient } from '@/lib/supabase'
+import type {
+  AnswerBankCategory,
+  AnswerBankExportAnswer,
+  AnswerBankExportData,
+  AnswerBankImportDuplicate,
+  AnswerBankImportField,
+  AnswerBankImportFormat,
+  AnswerBankImportMapping,
+  AnswerBankImportOptions,
+  AnswerBankImportPreview,
+  AnswerBankImportResult,
+  AnswerBankImportRow,
+  AnswerBankWithStats
+} from '@/lib/types/answer-bank.types'
+import { SHINGLE_DUPLICATE_THRESHOLD, textShingles } from './answer-duplicates'
+
+export const EXPORT_FORMAT_VERSION = '1'
+export const MAX_IMPORT_ROWS = 2000
+
+const INSERT_BATCH_SIZE = 100
+const ANSWER_PAGE_SIZE = 1000
+
+// Header names recognised for each field, compared after normaliseHeader
+const FIELD_SYNONYMS: Record<AnswerBankImportField, string[]> = {
+  title: ['title', 'question', 'heading', 'name', 'answer title'],
+  content: ['content', 'answer', 'response', 'body', 'text', 'answer text'],
+  category: ['category', 'category name', 'section', 'topic'],
+  tags: ['tags', 'keywords', 'labels'],
+  is_template: ['is template', 'template']
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x']
+const FALSE_VALUES = ['', 'false', 'no', 'n', '0']
+
+const CSV_COLUMNS: Array<keyof AnswerBankExportAnswer> = [
+  'title', 'content', 'category_name', 'tags', 'is_template', 'is_public', 'version', 'owner_email',
+  'review_interval_days', 'expires_at', 'usage_count', 'popularity_score', 'avg_rating', 'rating_count',
+  'bids_used', 'bids_won', 'win_rate', 'created_at', 'updated_at'
+]
+
+export type ImportRecord = Record<string, unknown>
+
+export interface ParsedImportFile {
+  format: AnswerBankImportFormat
+  columns: string[]
+  records: ImportRecord[]
+  // Row number of the first record, so errors point at the right spreadsheet row
+  firstRowNumber: number
+}
+
+export interface ImportContext {
+  categories: Array<Pick<AnswerBankCategory, 'id' | 'name'>>
+  existing: Array<{ id: string; title: string; content: string }>
+}
+
+export class AnswerImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnswerImportError'
+  }
+}
+
+export function resolveImportFormat(fileName: string): AnswerBankImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop()
+  return extension === 'csv' || extension === 'xlsx' || extension === 'docx' || extension === 'json'
+    ? extension
+    : null
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function xmlText(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('')
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '')
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * Cell text from the first worksheet of an XLSX workbook
+ */
+export async function parseXlsx(data: ArrayBuffer | Buffer): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(data)
+
+  const sharedStringsXml = await zip.file('xl/sharedStrings.xml')?.async('text')
+  const sharedStrings = sharedStringsXml
+    ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => xmlText(match[1]))
+    : []
+
+  const sheetXml = await zip.file(await firstSheetPath(zip))?.async('text')
+  if (!sheetXml) {
+    throw new AnswerImportError('The workbook has no worksheets')
+  }
+
+  const rows: string[][] = []
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = []
+    for (const cell of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cell[1]
+      const body = cell[2] || ''
+      const reference = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1]
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1]
+      const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1]
+
+      let text = ''
+      if (type === 's' && value !== undefined) text = sharedStrings[Number(value)] ?? ''
+      else if (type === 'inlineStr') text = xmlText(body)
+      else if (type === 'b') text = value === '1' ? 'true' : 'false'
+      else if (value !== undefined) text = decodeXml(value)
+
+      const index = reference ? columnIndex(reference) : row.length
+      while (row.length < index) row.push('')
+      row[index] = text
+    }
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+async function firstSheetPath(zip: JSZip): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml'
+  const workbook = await zip.file('xl/workbook.xml')?.async('text')
+  const relationships = await zip.file('xl/_rels/workbook.xml.rels')?.async('text')
+  const relationshipId = workbook && /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1]
+  if (!relationshipId || !relationships) return fallback
+
+  const target = new RegExp(`<Relationship\\b[^>]*\\bId="${relationshipId}"[^>]*\\bTarget="([^"]+)"`).exec(relationships)?.[1]
+    ?? new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relationshipId}"`).exec(relationships)?.[1]
+  if (!target) return fallback
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+function htmlText(html: string): string {
+  return decodeXml(html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '')).trim()
+}
+
+/**
+ * One answer per heading, with the paragraphs under it as the content. A
+ * heading with nothing under it before a deeper heading is a group, and
+ * becomes the category of the answers beneath it.
+ */
+export function splitDocxSections(html: string): ImportRecord[] {
+  const sections: Array<{ level: number; title: string; body: string[] }> = []
+  for (const block of html.matchAll(/<(h[1-6]|p|li)\b[^>]*>([\s\S]*?)<\/\1>/g)) {
+    const text = htmlText(block[2])
+    if (block[1].startsWith('h')) {
+      sections.push({ level: Number(block[1][1]), title: text, body: [] })
+    } else if (text && sections.length > 0) {
+      sections[sections.length - 1].body.push(block[1] === 'li' ? `- ${text}` : text)
+    }
+  }
+
+  const records: ImportRecord[] = []
+  const groups: Array<{ level: number; title: string }> = []
+  sections.forEach((section, i) => {
+    while (groups.length > 0 && groups[groups.length - 1].level >= section.level) groups.pop()
+
+    const next = sections[i + 1]
+    if (section.body.length === 0 && next && next.level > section.level) {
+      groups.push({ level: section.level, title: section.title })
+      return
+    }
+
+    records.push({
+      Title: section.title,
+      Content: section.body.join('\n\n'),
+      Category: groups.length > 0 ? groups[groups.length - 1].title : ''
+    })
+  })
+
+  return records
+}
+
+/**
+ * An array of answers, or an export file (whose answers have category_name)
+ */
+export function parseJsonRecords(text: string): ImportRecord[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''))
+  } catch {
+    throw new AnswerImportError('The file is not valid JSON')
+  }
+
+  const answers = Array.isArray(data) ? data : (data as { answers?: unknown })?.answers
+  if (!Array.isArray(answers)) {
+    throw new AnswerImportError('Expected an array of answers or an answer bank export')
+  }
+  return answers.filter((answer): answer is ImportRecord => typeof answer === 'object' && answer !== null)
+}
+
+function tableToRecords(rows: string[][]): { columns: string[]; records: ImportRecord[] } {
+  const [header = [], ...body] = rows
+  const columns = header.map((column, i) => column.trim() || `Column ${i + 1}`)
+  return {
+    columns,
+    records: body.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])))
+  }
+}
+
+export async function parseImportFile(data: ArrayBuffer | Buffer, format: AnswerBankImportFormat): Promise<ParsedImportFile> {
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data)
+
+  switch (format) {
+    case 'csv':
+      return { format, ...tableToRecords(parseCsv(buffer.toString('utf-8'))), firstRowNumber: 2 }
+    case 'xlsx':
+      return { format, ...tableToRecords(await parseXlsx(buffer)), firstRowNumber: 2 }
+    case 'docx': {
+      const { value } = await mammoth.convertToHtml({ buffer })
+      return { format, columns: ['Title', 'Content', 'Category'], records: splitDocxSections(value), firstRowNumber: 1 }
+    }
+    case 'json': {
+      const records = parseJsonRecords(buffer.toString('utf-8'))
+      const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+      return { format, columns, records, firstRowNumber: 1 }
+    }
+  }
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Match columns to fields by their header names
+ */
+export function suggestColumnMapping(columns: string[]): AnswerBankImportMapping {
+  const mapping: AnswerBankImportMapping = {}
+  for (const field of Object.keys(FIELD_SYNONYMS) as AnswerBankImportField[]) {
+    const column = columns.find(candidate => FIELD_SYNONYMS[field].includes(normaliseHeader(candidate)))
+    if (column) mapping[field] = column
+  }
+  return mapping
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'string' ? value : String(value)
+}
+
+function parseTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value.map(cellText) : cellText(value).split(/[,;]/)
+  const seen = new Set<string>()
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase()
+      if (!tag || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+/**
+ * Map, clean and validate each record. Duplicates are checked separately.
+ */
+export function buildImportRows(
+  parsed: ParsedImportFile,
+  mapping: AnswerBankImportMapping,
+  context: Pick<ImportContext, 'categories'>,
+  defaultCategoryId?: string
+): AnswerBankImportRow[] {
+  const categoriesByName = new Map(context.categories.map(category => [category.name.trim().toLowerCase(), category.id]))
+  const field = (record: ImportRecord, name: AnswerBankImportField) => {
+    const column = mapping[name]
+    return column ? record[column] : undefined
+  }
+
+  return parsed.records.map((record, i) => {
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    const title = cellText(field(record, 'title')).trim()
+    const content = cellText(field(record, 'content')).trim()
+    if (title.length < 3) errors.push('Title must be at least 3 characters')
+    if (title.length > 255) errors.push('Title must be 255 characters or fewer')
+    if (content.length < 10) errors.push('Content must be at least 10 characters')
+
+    const categoryName = cellText(field(record, 'category')).trim()
+    let categoryId: string | null = defaultCategoryId ?? null
+    if (categoryName) {
+      categoryId = categoriesByName.get(categoryName.toLowerCase()) ?? null
+      if (!categoryId) warnings.push(`Category "${categoryName}" does not exist; imported without a category`)
+    }
+
+    const templateValue = field(record, 'is_template')
+    const templateFlag = typeof templateValue === 'boolean' ? String(templateValue) : cellText(templateValue).trim().toLowerCase()
+    if (!TRUE_VALUES.includes(templateFlag) && !FALSE_VALUES.includes(templateFlag)) {
+      warnings.push(`Template flag "${templateFlag}" not recognised; imported as a regular answer`)
+    }
+
+    return {
+      row_number: parsed.firstRowNumber + i,
+      title,
+      content,
+      category_name: categoryName || undefined,
+      category_id: categoryId,
+      tags: parseTags(field(record, 'tags')),
+      is_template: TRUE_VALUES.includes(templateFlag),
+      errors,
+      warnings
+    }
+  })
+}
+
+function normaliseTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Flag valid rows that repeat an existing answer or an earlier row, by
+ * near-identical wording or, failing that, the same title
+ */
+export function markImportDuplicates(rows: AnswerBankImportRow[], existing: ImportContext['existing']): void {
+  const documents: Array<{ shingles: Set<string>; title: string; match: Omit<AnswerBankImportDuplicate, 'reason' | 'similarity'> }> = []
+  const index = new Map<string, number[]>()
+  const titles = new Map<string, number>()
+
+  const add = (title: string, content: string, match: Omit<AnswerBankImportDuplicate, 'reason' | 'similarity'>) => {
+    const id = documents.length
+    const shingles = textShingles(`${title} ${content}`)
+    documents.push({ shingles, title, match })
+    shingles.forEach(shingle => index.set(shingle, [...(index.get(shingle) || []), id]))
+    const key = normaliseTitle(title)
+    if (!titles.has(key)) titles.set(key, id)
+  }
+
+  existing.forEach(answer => add(answer.title, answer.content, { answer_id: answer.id, title: answer.title }))
+
+  for (const row of rows) {
+    if (row.errors.length > 0) continue
+
+    // Count shared shingles through the index rather than comparing every pair
+    const shingles = textShingles(`${row.title} ${row.content}`)
+    const shared = new Map<number, number>()
+    shingles.forEach(shingle => {
+      for (const id of index.get(shingle) || []) shared.set(id, (shared.get(id) || 0) + 1)
+    })
+
+    let best: { id: number; similarity: number } | null = null
+    shared.forEach((count, id) => {
+      const similarity = count / (shingles.size + documents[id].shingles.size - count)
+      if (!best || similarity > best.similarity) best = { id, similarity }
+    })
+
+    const closest = best as { id: number; similarity: number } | null
+    const round = (value: number) => Math.round(value * 1000) / 1000
+    if (closest && closest.similarity >= SHINGLE_DUPLICATE_THRESHOLD) {
+      row.duplicate_of = { ...documents[closest.id].match, reason: 'content', similarity: round(closest.similarity) }
+    } else {
+      const sameTitle = titles.get(normaliseTitle(row.title))
+      if (sameTitle !== undefined) {
+        const similarity = sameTitle === closest?.id ? closest.similarity : 0
+        row.duplicate_of = { ...documents[sameTitle].match, reason: 'title', similarity: round(similarity) }
+      }
+    }
+
+    add(row.title, row.content, { row_number: row.row_number, title: row.title })
+  }
+}
+
+function escapeCsv(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(', ') : cellText(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function exportToCsv(data: AnswerBankExportData): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...data.answers.map(answer => CSV_COLUMNS.map(column => escapeCsv(answer[column])).join(','))
+  ]
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+export class AnswerImportExportService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Map, validate and check a parsed file against the organisation's answers
+   * without writing anything
+   */
+  async previewImport(
+    parsed: ParsedImportFile,
+    options: AnswerBankImportOptions & { organizationId: string }
+  ): Promise<AnswerBankImportPreview> {
+    if (parsed.records.length === 0) {
+      throw new AnswerImportError('The file has no answers to import')
+    }
+    if (parsed.records.length > MAX_IMPORT_ROWS) {
+      throw new AnswerImportError(`Import at most ${MAX_IMPORT_ROWS} answers at a time`)
+    }
+
+    const mapping = options.mapping ?? suggestColumnMapping(parsed.columns)
+    if (!mapping.title || !mapping.content) {
+      throw new AnswerImportError('Choose the columns holding the title and content')
+    }
+
+    const [categories, existing] = await Promise.all([this.loadCategories(), this.loadExistingAnswers(options.organizationId)])
+    const rows = buildImportRows(parsed, mapping, { categories }, options.default_category_id)
+    markImportDuplicates(rows, existing)
+
+    const valid = rows.filter(row => row.errors.length === 0)
+    return {
+      format: parsed.format,
+      columns: parsed.columns,
+      mapping,
+      rows,
+      summary: {
+        total: rows.length,
+        valid: valid.length,
+        invalid: rows.length - valid.length,
+        duplicates: valid.filter(row => row.duplicate_of).length
+      }
+    }
+  }
+
+  /**
+   * Insert the rows that pass the preview. Invalid rows are always skipped;
+   * duplicates are skipped unless the strategy is 'import'.
+   */
+  async commitImport(
+    preview: AnswerBankImportPreview,
+    options: AnswerBankImportOptions & { organizationId: string; userId: string; fileName: string }
+  ): Promise<AnswerBankImportResult> {
+    const invalid = preview.rows.filter(row => row.errors.length > 0)
+    const duplicates = preview.rows.filter(row => row.errors.length === 0 && row.duplicate_of)
+    const toImport = preview.rows.filter(row =>
+      row.errors.length === 0 && (!row.duplicate_of || options.duplicate_strategy === 'import')
+    )
+
+    const answerIds: string[] = []
+    for (let i = 0; i < toImport.length; i += INSERT_BATCH_SIZE) {
+      const batch = toImport.slice(i, i + INSERT_BATCH_SIZE)
+      const { data, error } = await this.supabase
+        .from('answer_bank')
+        .insert(batch.map(row => ({
+          title: row.title,
+          content: row.content,
+          category_id: row.category_id ?? null,
+          tags: row.tags,
+          is_template: row.is_template,
+          is_public: false,
+          organization_id: options.organizationId,
+          created_by: options.userId,
+          metadata: { imported_from: options.fileName, import_row: row.row_number }
+        })))
+        .select('id')
+
+      if (error) {
+        throw new Error(`Database error after importing ${answerIds.length} answers: ${error.message}`)
+      }
+      answerIds.push(...((data || []) as Array<{ id: string }>).map(answer => answer.id))
+    }
+
+    return {
+      imported: answerIds.length,
+      skipped_duplicates: options.duplicate_strategy === 'import' ? 0 : duplicates.length,
+      skipped_invalid: invalid.length,
+      answer_ids: answerIds
+    }
+  }
+
+  /**
+   * Every live answer of the organisation with its category and usage, rating
+   * and bid stats
+   */
+  async exportLibrary(organizationId: string, now: Date = new Date()): Promise<AnswerBankExportData> {
+    const [categories, answers, effectiveness] = await Promise.all([
+      this.loadCategories('*') as Promise<AnswerBankCategory[]>,
+      this.loadPages<AnswerBankWithStats>('answer_bank_with_stats', '*', organizationId),
+      this.loadEffectiveness()
+    ])
+
+    return {
+      version: EXPORT_FORMAT_VERSION,
+      export_date: now.toISOString(),
+      organization_id: organizationId,
+      categories,
+      answers: answers.map(answer => {
+        const bids = effectiveness.get(answer.id)
+        return {
+          id: answer.id,
+          title: answer.title,
+          content: answer.content,
+          category_id: answer.category_id ?? null,
+          category_name: answer.category_name ?? null,
+          tags: answer.tags || [],
+          is_template: answer.is_template,
+          is_public: answer.is_public,
+          version: answer.version,
+          owner_email: answer.owner_email ?? null,
+          review_interval_days: answer.review_interval_days ?? null,
+          expires_at: answer.expires_at ?? null,
+          usage_count: answer.usage_count || 0,
+          popularity_score: Number(answer.popularity_score || 0),
+          avg_rating: Number(answer.avg_rating || 0),
+          rating_count: Number(answer.rating_count || 0),
+          bids_used: bids?.bids_used ?? 0,
+          bids_won: bids?.bids_won ?? 0,
+          win_rate: bids?.win_rate ?? null,
+          created_at: answer.created_at,
+          updated_at: answer.updated_at
+        }
+      })
+    }
+  }
+
+  private async loadCategories(columns: string = 'id, name'): Promise<Array<Pick<AnswerBankCategory, 'id' | 'name'>>> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_categories')
+      .select(columns)
+      .order('sort_order')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as unknown as Array<Pick<AnswerBankCategory, 'id' | 'name'>>
+  }
+
+  private async loadExistingAnswers(organizationId: string): Promise<ImportContext['existing']> {
+    return this.loadPages<ImportContext['existing'][number]>('answer_bank', 'id, title, content', organizationId)
+  }
+
+  private async loadEffectiveness(): Promise<Map<string, { bids_used: number; bids_won: number; win_rate: number | null }>> {
+    const { data, error } = await this.supabase
+      .from('answer_bank_effectiveness')
+      .select('answer_id, bids_used, bids_won, win_rate')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return new Map(((data || []) as Array<Record<string, unknown>>).map(row => [row.answer_id as string, {
+      bids_used: Number(row.bids_used),
+      bids_won: Number(row.bids_won),
+      win_rate: row.win_rate === null || row.win_rate === undefined ? null : Number(row.win_rate)
+    }]))
+  }
+
+  // The organisation's live (unmerged) rows, a page at a time to get past the row limit
+  private async loadPages<T>(table: string, columns: string, organizationId: string): Promise<T[]> {
+    const rows: T[] = []
+
+    for (let from = 0; ; from += ANSWER_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select(columns)
+        .eq('organization_id', organizationId)
+        .is('merged_into_id', null)
+        .order('title')
+        .order('id')
+        .range(from, from + ANSWER_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      rows.push(...((data || []) as unknown as T[]))
+      if (!data || data.length < ANSWER_PAGE_SIZE) return rows
+    }
+  }
+}
+
+// Export singleton instance
+export const answerImportExportService = new AnswerImportExportService()
@@ -1,61 +1,16 @@
-// Stub implementation for collaboration services
-// This is a placeholder until the comments and versions tables are added to the database
+// Collaboration services. Comments are stored, threaded and anchored to
+// section text, and presence tracks who has a section open and where their
+// cursor is; realtime is still a placeholder. Section versions live in
+// section-versions.ts.
 
-export interface Comment {
-  id: string
-  section_id: string
-  user_id: string
-  content: string
-  parent_comment_id?: string | null
-  text_range_start?: number | null
-  text_range_end?: number | null
-  is_resolved: boolean
-  created_at: string
-  updated_at: string
-  user?: {
-    id: string
-    email?: string
-    user_metadata?: {
-      full_name?: string
-      avatar_url?: string
-    }
-  }
-  replies?: Comment[]
-}
-
-export interface CreateCommentInput {
-  section_id: string
-  content: string
-  parent_comment_id?: string | null
-  text_range_start?: number | null
-  text_range_end?: number | null
-}
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { decodeHtmlEntities } from '@/lib/utils/rich-text'
+import { DiffSegment, diffTextBySentence } from '@/lib/utils/text-diff'
+import type { Comment, CreateCommentInput, CreateVersionInput, RealtimePresencePayload, UpdateCommentInput, Version } from '@/types/collaboration'
+import { NotificationTriggersService } from './notification-triggers'
 
-export interface Version {
-  id: string
-  section_id: string
-  user_id: string
-  content_snapshot: string
-  version_number: number
-  change_summary?: string | null
-  word_count: number
-  created_at: string
-  user?: {
-    id: string
-    email?: string
-    user_metadata?: {
-      full_name?: string
-      avatar_url?: string
-    }
-  }
-}
-
-export interface CreateVersionInput {
-  section_id: string
-  content_snapshot: string
-  change_summary?: string | null
-  word_count?: number
-}
+export type { Comment, CreateCommentInput, CreateVersionInput, UpdateCommentInput, Version }
 
 export interface UserPresence {
   id: string
@@ -85,126 +40,410 @@ export interface UpdateUserPresenceInput {
   is_active?: boolean
 }
 
-export class CommentsService {
-  static async getCommentsBySection(_sectionId: string): Promise<Comment[]> {
-    console.log('Stub: getCommentsBySection called')
-    return []
+export type CommentErrorCode = 'not_found' | 'not_permitted' | 'invalid_anchor' | 'invalid_reply'
+
+export const COMMENT_ERROR_STATUS: Record<CommentErrorCode, number> = {
+  not_found: 404,
+  not_permitted: 403,
+  invalid_anchor: 400,
+  invalid_reply: 400
+}
+
+export class CommentError extends Error {
+  constructor(message: string, public code: CommentErrorCode) {
+    super(message)
+    this.name = 'CommentError'
   }
+}
 
-  static async createComment(_input: CreateCommentInput): Promise<Comment> {
-    console.log('Stub: createComment called')
-    return {
-      id: 'stub-comment-id',
-      section_id: 'stub-section-id',
-      user_id: 'stub-user-id',
-      content: 'Stub comment',
-      parent_comment_id: null,
-      text_range_start: null,
-      text_range_end: null,
-      is_resolved: false,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+export interface CommentAnchor {
+  id: string
+  start: number
+  end: number
+}
+
+export interface RemappedCommentAnchor extends CommentAnchor {
+  anchor_text: string
+  orphaned: boolean
+}
+
+type CommentRow = Omit<Comment, 'user' | 'replies'>
+
+/**
+ * Text that comment anchors are measured against: the section HTML with its
+ * tags removed, which is what the browser counts when a reader selects text
+ */
+export function sectionAnchorText(content: string | null | undefined): string {
+  return content ? decodeHtmlEntities(content.replace(/<[^>]*>/g, '')) : ''
+}
+
+/**
+ * Carry anchors from the old section text to the new. An anchor shrinks or
+ * grows to span the first and last of its characters that survive the edit;
+ * if nothing but whitespace survives, its text was deleted and it is orphaned.
+ */
+export function remapAnchors(before: string, after: string, anchors: CommentAnchor[]): RemappedCommentAnchor[] {
+  // Unchanged stretches as [old offset, new offset, length]
+  const kept: Array<[number, number, number]> = []
+  let oldOffset = 0
+  let newOffset = 0
+  const segments: DiffSegment[] = before === after ? [{ type: 'equal', value: before }] : diffTextBySentence(before, after)
+  for (const segment of segments) {
+    const length = segment.value.length
+    if (segment.type === 'equal') kept.push([oldOffset, newOffset, length])
+    if (segment.type !== 'insert') oldOffset += length
+    if (segment.type !== 'delete') newOffset += length
+  }
+
+  return anchors.map(anchor => {
+    let start: number | null = null
+    let end = 0
+    for (const [oldStart, newStart, length] of kept) {
+      const from = Math.max(anchor.start, oldStart)
+      const to = Math.min(anchor.end, oldStart + length)
+      if (from >= to) continue
+      if (start === null) start = newStart + from - oldStart
+      end = newStart + to - oldStart
+    }
+
+    const text = start === null ? '' : after.slice(start, end)
+    if (start === null || !text.trim()) {
+      return { ...anchor, anchor_text: '', orphaned: true }
     }
+    return { id: anchor.id, start, end, anchor_text: text, orphaned: false }
+  })
+}
+
+export type CollaboratorProfile = NonNullable<Comment['user']>
+
+/**
+ * Names and emails of collaborators, shaped like the auth user
+ */
+export async function loadUsers(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, CollaboratorProfile>> {
+  const ids = Array.from(new Set(userIds))
+  if (ids.length === 0) return new Map()
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, full_name')
+    .in('id', ids)
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`)
   }
 
-  static async updateComment(_commentId: string, _content: string): Promise<Comment> {
-    console.log('Stub: updateComment called')
-    return {
-      id: 'stub-comment-id',
-      section_id: 'stub-section-id',
-      user_id: 'stub-user-id',
-      content: 'Updated stub comment',
-      parent_comment_id: null,
+  return new Map(((data || []) as Array<{ id: string; email: string; full_name: string | null }>).map(user => [user.id, {
+    id: user.id,
+    email: user.email,
+    user_metadata: { full_name: user.full_name ?? undefined }
+  }]))
+}
+
+/**
+ * Nest replies under the comment they answer, oldest first
+ */
+export function buildCommentThreads(comments: Comment[]): Comment[] {
+  const byId = new Map(comments.map(comment => [comment.id, { ...comment, replies: [] as Comment[] }]))
+  const roots: Comment[] = []
+
+  Array.from(byId.values())
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(comment => {
+      const parent = comment.parent_comment_id ? byId.get(comment.parent_comment_id) : undefined
+      if (parent) {
+        parent.replies!.push(comment)
+      } else {
+        roots.push(comment)
+      }
+    })
+
+  return roots
+}
+
+export class CommentsService {
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private notifications: NotificationTriggersService = NotificationTriggersService.getInstance()
+  ) {}
+
+  /**
+   * Comment threads on a section, with their authors
+   */
+  async getCommentsBySection(sectionId: string): Promise<Comment[]> {
+    const { data, error } = await this.supabase
+      .from('comments')
+      .select('*')
+      .eq('section_id', sectionId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const rows = (data || []) as CommentRow[]
+    const authors = await loadUsers(this.supabase, rows.map(row => row.user_id))
+
+    return buildCommentThreads(rows.map(row => ({ ...row, user: authors.get(row.user_id) })))
+  }
+
+  /**
+   * Start a thread, optionally anchored to a range of the section text, or
+   * reply to one. Replies take their anchor from the thread.
+   */
+  async createComment(input: CreateCommentInput, userId: string): Promise<Comment> {
+    const section = await this.getSection(input.section_id)
+    let anchor: { text_range_start: number | null; text_range_end: number | null; anchor_text: string | null } = {
       text_range_start: null,
       text_range_end: null,
-      is_resolved: false,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+      anchor_text: null
+    }
+
+    if (input.parent_comment_id) {
+      const { data: parent, error } = await this.supabase
+        .from('comments')
+        .select('id, section_id')
+        .eq('id', input.parent_comment_id)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+      if (!parent || parent.section_id !== input.section_id) {
+        throw new CommentError('The comment being replied to is not on this section', 'invalid_reply')
+      }
+    } else if (input.text_range_start != null || input.text_range_end != null) {
+      const text = sectionAnchorText(section.content)
+      const start = input.text_range_start ?? -1
+      const end = input.text_range_end ?? -1
+      if (start < 0 || end <= start || end > text.length) {
+        throw new CommentError('The selected text is no longer in the section; reload and select it again', 'invalid_anchor')
+      }
+      anchor = { text_range_start: start, text_range_end: end, anchor_text: text.slice(start, end) }
+    }
+
+    const { data, error } = await this.supabase
+      .from('comments')
+      .insert({
+        section_id: input.section_id,
+        user_id: userId,
+        content: input.content,
+        parent_comment_id: input.parent_comment_id ?? null,
+        ...anchor
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
     }
+
+    const comment = data as CommentRow
+    await this.recordMentions(comment, section.title, input.mentioned_user_ids || [])
+
+    const authors = await loadUsers(this.supabase, [userId])
+    return { ...comment, user: authors.get(userId), replies: [] }
   }
 
-  static async deleteComment(_commentId: string): Promise<void> {
-    console.log('Stub: deleteComment called')
+  /**
+   * Edit your own comment. Users newly mentioned in the edit are notified.
+   */
+  async updateComment(commentId: string, input: UpdateCommentInput, userId: string): Promise<Comment> {
+    const { data, error } = await this.supabase
+      .from('comments')
+      .update({ content: input.content })
+      .eq('id', commentId)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new CommentError('Comment not found, or not yours to edit', 'not_found')
+    }
+
+    const comment = data as CommentRow
+    const section = await this.getSection(comment.section_id)
+    await this.recordMentions(comment, section.title, input.mentioned_user_ids || [])
+
+    const authors = await loadUsers(this.supabase, [userId])
+    return { ...comment, user: authors.get(userId) }
   }
 
-  static async resolveComment(_commentId: string): Promise<Comment> {
-    console.log('Stub: resolveComment called')
-    return {
-      id: 'stub-comment-id',
-      section_id: 'stub-section-id',
-      user_id: 'stub-user-id',
-      content: 'Resolved stub comment',
-      parent_comment_id: null,
-      text_range_start: null,
-      text_range_end: null,
-      is_resolved: true,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+  /**
+   * Delete your own comment and its replies
+   */
+  async deleteComment(commentId: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentId)
+      .eq('user_id', userId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      throw new CommentError('Comment not found, or not yours to delete', 'not_found')
     }
   }
 
-  static async toggleCommentResolution(_commentId: string, _isResolved: boolean): Promise<Comment> {
-    console.log('Stub: toggleCommentResolution called')
-    return {
-      id: 'stub-comment-id',
-      section_id: 'stub-section-id',
-      user_id: 'stub-user-id',
-      content: 'Toggled resolution stub comment',
-      parent_comment_id: null,
-      text_range_start: null,
-      text_range_end: null,
-      is_resolved: _isResolved,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+  /**
+   * Resolve or reopen a thread. Anyone who can see it can do either.
+   */
+  async toggleCommentResolution(commentId: string, isResolved: boolean): Promise<Comment> {
+    const { data, error } = await this.supabase.rpc('set_comment_resolution', {
+      p_comment_id: commentId,
+      p_resolved: isResolved
+    })
+
+    if (error) {
+      if (error.code === 'P0002') {
+        throw new CommentError('Comment not found', 'not_found')
+      }
+      if (error.code === '22023') {
+        throw new CommentError(error.message, 'invalid_reply')
+      }
+      if (error.code === '42501') {
+        throw new CommentError(error.message, 'not_permitted')
+      }
+      throw new Error(`Database error: ${error.message}`)
     }
+
+    return data as Comment
   }
-}
 
-export class VersionsService {
-  static async getVersionsBySection(_sectionId: string): Promise<Version[]> {
-    console.log('Stub: getVersionsBySection called')
-    return []
+  /**
+   * Move the anchors of a section's open comments after its content changes.
+   * Returns the number of comments moved or orphaned.
+   */
+  async remapSectionAnchors(sectionId: string, previousContent: string | null, content: string | null): Promise<number> {
+    const before = sectionAnchorText(previousContent)
+    const after = sectionAnchorText(content)
+    if (before === after) return 0
+
+    const { data, error } = await this.supabase
+      .from('comments')
+      .select('id, text_range_start, text_range_end')
+      .eq('section_id', sectionId)
+      .is('parent_comment_id', null)
+      .eq('is_orphaned', false)
+      .not('text_range_start', 'is', null)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const anchors = ((data || []) as Array<{ id: string; text_range_start: number; text_range_end: number }>)
+      .map(row => ({ id: row.id, start: row.text_range_start, end: row.text_range_end }))
+    const moved = remapAnchors(before, after, anchors).filter((anchor, i) =>
+      anchor.orphaned || anchor.start !== anchors[i].start || anchor.end !== anchors[i].end
+    )
+    if (moved.length === 0) return 0
+
+    const { error: remapError } = await this.supabase.rpc('remap_comment_anchors', {
+      p_section_id: sectionId,
+      p_anchors: moved
+    })
+
+    if (remapError) {
+      if (remapError.code === '42501') {
+        throw new CommentError(remapError.message, 'not_permitted')
+      }
+      throw new Error(`Database error: ${remapError.message}`)
+    }
+    return moved.length
   }
 
-  static async createVersion(input: CreateVersionInput): Promise<Version> {
-    console.log('Stub: createVersion called')
-    return {
-      id: 'stub-version-id',
-      section_id: input.section_id,
-      user_id: 'stub-user-id',
-      content_snapshot: input.content_snapshot,
-      version_number: 1,
-      change_summary: input.change_summary || null,
-      word_count: input.word_count || 10,
-      created_at: new Date().toISOString()
+  /**
+   * Call onChange whenever a comment on the section is added, edited,
+   * resolved, moved or deleted. Returns the unsubscribe function.
+   */
+  subscribeToSection(sectionId: string, onChange: () => void): () => void {
+    const channel = this.supabase
+      .channel(`comments:section:${sectionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments', filter: `section_id=eq.${sectionId}` },
+        () => onChange()
+      )
+      .subscribe()
+
+    return () => {
+      this.supabase.removeChannel(channel)
     }
   }
 
-  static async restoreVersion(_versionId: string): Promise<Version> {
-    console.log('Stub: restoreVersion called')
-    return {
-      id: 'stub-version-id',
-      section_id: 'stub-section-id',
-      user_id: 'stub-user-id',
-      content_snapshot: 'Restored stub version content',
-      version_number: 1,
-      change_summary: null,
-      word_count: 15,
-      created_at: new Date().toISOString()
+  private async getSection(sectionId: string): Promise<{ id: string; title: string; content: string | null }> {
+    const { data, error } = await this.supabase
+      .from('sections')
+      .select('id, title, content')
+      .eq('id', sectionId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new CommentError('Section not found', 'not_found')
     }
+    return data as { id: string; title: string; content: string | null }
   }
 
-  static async compareVersions(_versionId1: string, _versionId2: string): Promise<{
-    additions: string[]
-    deletions: string[]
-    changes: string[]
-  }> {
-    console.log('Stub: compareVersions called')
-    return {
-      additions: [],
-      deletions: [],
-      changes: []
+  /**
+   * Record mentions not already on the comment and notify those users.
+   * Only users visible to the author can be mentioned.
+   */
+  private async recordMentions(comment: CommentRow, sectionTitle: string, mentionedUserIds: string[]): Promise<void> {
+    const candidates = Array.from(new Set(mentionedUserIds)).filter(id => id !== comment.user_id)
+    if (candidates.length === 0) return
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from('mentions')
+      .select('mentioned_user_id')
+      .eq('comment_id', comment.id)
+
+    if (existingError) {
+      throw new Error(`Database error: ${existingError.message}`)
+    }
+
+    const alreadyMentioned = new Set(((existing || []) as Array<{ mentioned_user_id: string }>).map(row => row.mentioned_user_id))
+    const users = await loadUsers(this.supabase, [comment.user_id, ...candidates])
+    const mentioned = candidates.filter(id => users.has(id) && !alreadyMentioned.has(id))
+    if (mentioned.length === 0) return
+
+    const { error } = await this.supabase
+      .from('mentions')
+      .insert(mentioned.map(id => ({
+        comment_id: comment.id,
+        mentioned_user_id: id,
+        mentioning_user_id: comment.user_id
+      })))
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
     }
+
+    const author = users.get(comment.user_id)
+    const results = await Promise.allSettled(mentioned.map(id => this.notifications.triggerMentionNotification({
+      mentionedUserId: id,
+      mentionerUserId: comment.user_id,
+      mentionerName: author?.user_metadata?.full_name || author?.email || 'Someone',
+      entityType: 'comment',
+      entityId: comment.id,
+      entityTitle: sectionTitle,
+      mentionContext: comment.content.slice(0, 200),
+      actionUrl: `/draft-builder?section=${comment.section_id}&comment=${comment.id}`
+    })))
+
+    // The mention is saved either way; a failed notification shouldn't fail the comment
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error('Failed to send mention notification:', result.reason)
+      }
+    })
   }
 }
 
@@ -225,68 +464,98 @@ export class RealTimeService {
 }
 
 export class UserPresenceService {
-  static async getActiveUsers(_sectionId: string): Promise<UserPresence[]> {
-    console.log('Stub: getActiveUsers called')
-    return []
+  // Presence not refreshed for this long belongs to a closed tab
+  static readonly STALE_AFTER_MS = 2 * 60 * 1000
+
+  /**
+   * Who else has the section open, with their cursor and selection
+   */
+  static async getActiveUsers(sectionId: string): Promise<UserPresence[]> {
+    const supabase: SupabaseClient = createClient()
+    const since = new Date(Date.now() - UserPresenceService.STALE_AFTER_MS).toISOString()
+
+    const { data, error } = await supabase
+      .from('user_presence')
+      .select('*')
+      .eq('section_id', sectionId)
+      .eq('is_active', true)
+      .gte('last_seen', since)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const presences = (data || []) as UserPresence[]
+    const users = await loadUsers(supabase, presences.map(presence => presence.user_id))
+    return presences.map(presence => ({ ...presence, user: users.get(presence.user_id) }))
   }
 
-  static async updatePresence(_input: UpdateUserPresenceInput): Promise<UserPresence> {
-    console.log('Stub: updatePresence called')
-    return {
-      id: 'stub-presence-id',
-      user_id: 'stub-user-id',
-      section_id: 'stub-section-id',
-      cursor_position: 0,
-      selection_start: null,
-      selection_end: null,
-      is_active: true,
-      last_seen: new Date().toISOString(),
-      created_at: new Date().toISOString()
+  /**
+   * Record the current user's cursor and selection, as offsets into the
+   * section text like comment anchors
+   */
+  static async updatePresence(input: UpdateUserPresenceInput): Promise<UserPresence> {
+    const supabase: SupabaseClient = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Not signed in')
+    }
+
+    const { data, error } = await supabase
+      .from('user_presence')
+      .upsert({
+        user_id: user.id,
+        section_id: input.section_id,
+        cursor_position: input.cursor_position ?? 0,
+        selection_start: input.selection_start ?? null,
+        selection_end: input.selection_end ?? null,
+        is_active: input.is_active ?? true,
+        last_seen: new Date().toISOString()
+      }, { onConflict: 'user_id,section_id' })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
     }
+    return data as UserPresence
   }
 
-  static async setInactive(_sectionId: string): Promise<void> {
-    console.log('Stub: setInactive called')
+  static async setInactive(sectionId: string): Promise<void> {
+    const supabase: SupabaseClient = createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) return
+
+    const { error } = await supabase
+      .from('user_presence')
+      .update({ is_active: false })
+      .eq('section_id', sectionId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
   }
 
   static subscribeToPresence(
-    _sectionId: string,
-    _callback: (payload: any) => void
-  ): any {
-    console.log('Stub: subscribeToPresence called')
-    // Return a mock RealtimeChannel-like object
-    return {
-      unsubscribe: () => console.log('Stub: unsubscribe presence called'),
-      // Add other required properties as empty/stub values
-      topic: 'stub-topic',
-      params: {},
-      socket: null,
-      bindings: [],
-      timeout: 10000,
-      joinedOnce: false,
-      joinRef: null,
-      pushBuffer: [],
-      stateChangeCallbacks: {},
-      rejoinTimer: null,
-      state: 'closed',
-      // Add stub methods
-      join: () => ({ receive: () => ({}) }),
-      leave: () => ({ receive: () => ({}) }),
-      onClose: () => ({}),
-      onError: () => ({}),
-      on: () => ({}),
-      off: () => ({}),
-      canPush: () => false,
-      push: () => ({ receive: () => ({}) }),
-      updateJoinPayload: () => ({}),
-      rejoin: () => ({}),
-      trigger: () => ({}),
-      replyEventName: () => 'stub-reply',
-      isClosed: () => true,
-      isErrored: () => false,
-      isJoined: () => false,
-      isJoining: () => false,
-      isLeaving: () => false
-    }
+    sectionId: string,
+    callback: (payload: RealtimePresencePayload) => void
+  ): RealtimeChannel {
+    const supabase: SupabaseClient = createClient()
+    return supabase
+      .channel(`presence:section:${sectionId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'user_presence', filter: `section_id=eq.${sectionId}` },
+        (payload) => callback({
+          eventType: payload.eventType,
+          new: payload.eventType === 'DELETE' ? undefined : payload.new as UserPresence,
+          old: payload.eventType === 'INSERT' ? undefined : payload.old as UserPresence
+        })
+      )
+      .subscribe()
   }
-} 
\ No newline at end of file
+}
+
+// Export singleton instance
+export const commentsService = new CommentsService()
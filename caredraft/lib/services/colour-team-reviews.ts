@@ -0,0 +1,709 @@
+/**
+ * Colour-Team Reviews Service
+ * Structured pink/red/gold reviews of a tender's responses. Each tender has
+ * its own review stages; reviewers assigned to a stage score every tender
+ * question against its published evaluation criteria on the commissioner's
+ * scale (0-5 or 0-10), noting strengths and weaknesses.
+ *
+ * A stage's scorecard averages the reviewers' scores per question and weights
+ * them by the question weightings to predict the quality score the bid would
+ * get. The latest stage with scores gives the tender's prediction, which the
+ * analytics page sets against the scores actually awarded.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type { CollaboratorProfile } from './collaboration'
+import { loadUsers } from './collaboration'
+
+export const REVIEW_COLOURS = ['blue', 'black', 'pink', 'red', 'green', 'gold', 'white'] as const
+export const REVIEW_STAGE_STATUSES = ['planned', 'open', 'closed'] as const
+export const SCORING_SCALES = [5, 10] as const
+
+export type ReviewColour = (typeof REVIEW_COLOURS)[number]
+export type ReviewStageStatus = (typeof REVIEW_STAGE_STATUSES)[number]
+export type ScoringScaleMax = (typeof SCORING_SCALES)[number]
+
+// The usual sequence, offered when a tender has no stages yet
+export const DEFAULT_REVIEW_STAGES: Array<{ name: string; colour: ReviewColour }> = [
+  { name: 'Pink team', colour: 'pink' },
+  { name: 'Red team', colour: 'red' },
+  { name: 'Gold team', colour: 'gold' }
+]
+
+export interface ReviewStage {
+  id: string
+  tender_workflow_id: string
+  name: string
+  colour: ReviewColour
+  stage_order: number
+  status: ReviewStageStatus
+  due_date: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewAssignment {
+  stage_id: string
+  reviewer_id: string
+  assigned_by: string | null
+  assigned_at: string
+  submitted_at: string | null
+  reviewer?: CollaboratorProfile
+}
+
+export interface ReviewStageWithReviewers extends ReviewStage {
+  reviewers: ReviewAssignment[]
+}
+
+export interface ReviewScore {
+  id: string
+  stage_id: string
+  question_id: string
+  reviewer_id: string
+  score: number
+  strengths: string[]
+  weaknesses: string[]
+  comments: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewScoreInput {
+  question_id: string
+  score: number
+  strengths?: string[]
+  weaknesses?: string[]
+  comments?: string | null
+}
+
+export interface EvaluatorScoreInput {
+  question_id: string
+  // 0-100; null clears a score entered by mistake
+  score: number | null
+}
+
+export interface CreateReviewStageInput {
+  name: string
+  colour: ReviewColour
+  due_date?: string | null
+  stage_order?: number
+}
+
+export type UpdateReviewStageInput = Partial<CreateReviewStageInput & { status: ReviewStageStatus }>
+
+// The parts of a tender question a review needs
+export interface ReviewedQuestion {
+  id: string
+  question_number: string | null
+  question_text: string
+  evaluation_criteria: string | null
+  weighting_percentage: number | null
+  // Score the commissioner awarded, 0-100, once known
+  evaluator_score?: number | null
+}
+
+export interface QuestionScorecard {
+  questionId: string
+  questionNumber: string | null
+  questionText: string
+  evaluationCriteria: string | null
+  weight: number
+  // Mean of the reviewers' scores, on the tender's scale
+  averageScore: number | null
+  // Highest minus lowest score; a wide spread means reviewers disagree
+  spread: number | null
+  reviewerCount: number
+  strengths: string[]
+  weaknesses: string[]
+}
+
+export interface StageScorecard {
+  stage: ReviewStage
+  scaleMax: ScoringScaleMax
+  questions: QuestionScorecard[]
+  // Predicted percentage of the available quality marks, over scored questions
+  predictedScore: number | null
+  // Weighted marks, when the questions carry weightings
+  predictedMarks: number | null
+  availableMarks: number | null
+  scoredQuestions: number
+  submittedReviewers: number
+  totalReviewers: number
+}
+
+export interface ReviewAnalytics {
+  scaleMax: ScoringScaleMax
+  stages: Array<Pick<StageScorecard, 'predictedScore' | 'scoredQuestions' | 'submittedReviewers' | 'totalReviewers'> & {
+    id: string
+    name: string
+    colour: ReviewColour
+    status: ReviewStageStatus
+  }>
+  totalQuestions: number
+  // From the latest stage with scores
+  predictedScore: number | null
+  predictedMarks: number | null
+  availableMarks: number | null
+  predictedFrom: string | null
+  // Lowest-scoring questions in that stage, weakest first
+  weakestQuestions: QuestionScorecard[]
+  // Weighted evaluator scores, once the commissioner has scored the bid
+  actualScore: number | null
+}
+
+export type ReviewErrorCode = 'not_found' | 'not_permitted' | 'invalid_score' | 'stage_not_open' | 'duplicate_stage'
+
+export const REVIEW_ERROR_STATUS: Record<ReviewErrorCode, number> = {
+  not_found: 404,
+  not_permitted: 403,
+  invalid_score: 400,
+  stage_not_open: 409,
+  duplicate_stage: 409
+}
+
+export class ReviewError extends Error {
+  constructor(message: string, public code: ReviewErrorCode) {
+    super(message)
+    this.name = 'ReviewError'
+  }
+}
+
+const WEAKEST_QUESTION_COUNT = 5
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places
+
+/**
+ * Question weights for prediction: the published weightings, or equal weights
+ * if none are published. Unweighted questions in a weighted tender (pass/fail
+ * questions, say) carry no marks.
+ */
+export function questionWeights(questions: ReviewedQuestion[]): Map<string, number> {
+  const weighted = questions.some(question => (question.weighting_percentage ?? 0) > 0)
+  return new Map(questions.map(question => [
+    question.id,
+    weighted ? Math.max(question.weighting_percentage ?? 0, 0) : 1
+  ]))
+}
+
+/**
+ * Weighted percentage of the available marks from scores between 0 and 1,
+ * over the questions that have one
+ */
+function weightedPercentage(weights: Map<string, number>, scores: Map<string, number>): number | null {
+  let total = 0
+  let achieved = 0
+  scores.forEach((score, questionId) => {
+    const weight = weights.get(questionId) ?? 0
+    total += weight
+    achieved += weight * score
+  })
+  return total > 0 ? round((achieved / total) * 100, 1) : null
+}
+
+/**
+ * Aggregate a stage's scores per question and predict the quality score
+ */
+export function buildStageScorecard(
+  stage: ReviewStage,
+  questions: ReviewedQuestion[],
+  scores: ReviewScore[],
+  scaleMax: ScoringScaleMax,
+  assignments: ReviewAssignment[] = []
+): StageScorecard {
+  const weights = questionWeights(questions)
+  const weighted = questions.some(question => (question.weighting_percentage ?? 0) > 0)
+  const byQuestion = new Map<string, ReviewScore[]>()
+  scores.forEach(score => byQuestion.set(score.question_id, [...(byQuestion.get(score.question_id) ?? []), score]))
+
+  const normalised = new Map<string, number>()
+  const scorecards = questions.map(question => {
+    const questionScores = byQuestion.get(question.id) ?? []
+    const values = questionScores.map(score => Number(score.score))
+    const average = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+    if (average !== null) normalised.set(question.id, average / scaleMax)
+
+    return {
+      questionId: question.id,
+      questionNumber: question.question_number,
+      questionText: question.question_text,
+      evaluationCriteria: question.evaluation_criteria,
+      weight: weights.get(question.id) ?? 0,
+      averageScore: average === null ? null : round(average, 2),
+      spread: values.length > 0 ? Math.max(...values) - Math.min(...values) : null,
+      reviewerCount: values.length,
+      strengths: Array.from(new Set(questionScores.flatMap(score => score.strengths))),
+      weaknesses: Array.from(new Set(questionScores.flatMap(score => score.weaknesses)))
+    }
+  })
+
+  let predictedMarks: number | null = null
+  let availableMarks: number | null = null
+  if (weighted) {
+    availableMarks = round(questions.reduce((sum, question) => sum + (weights.get(question.id) ?? 0), 0), 2)
+    predictedMarks = normalised.size > 0
+      ? round(Array.from(normalised).reduce((sum, [questionId, score]) => sum + (weights.get(questionId) ?? 0) * score, 0), 2)
+      : null
+  }
+
+  return {
+    stage,
+    scaleMax,
+    questions: scorecards,
+    predictedScore: weightedPercentage(weights, normalised),
+    predictedMarks,
+    availableMarks,
+    scoredQuestions: normalised.size,
+    submittedReviewers: assignments.filter(assignment => assignment.submitted_at).length,
+    totalReviewers: assignments.length
+  }
+}
+
+/**
+ * Stage by stage predictions for a tender. The latest stage with scores is
+ * the prediction; unscored later stages haven't said anything yet.
+ */
+export function summariseReviews(
+  stages: ReviewStage[],
+  questions: ReviewedQuestion[],
+  scores: ReviewScore[],
+  scaleMax: ScoringScaleMax,
+  assignments: ReviewAssignment[] = []
+): ReviewAnalytics {
+  const ordered = [...stages].sort((a, b) => a.stage_order - b.stage_order)
+  const scorecards = ordered.map(stage => buildStageScorecard(
+    stage,
+    questions,
+    scores.filter(score => score.stage_id === stage.id),
+    scaleMax,
+    assignments.filter(assignment => assignment.stage_id === stage.id)
+  ))
+  const latest = [...scorecards].reverse().find(scorecard => scorecard.scoredQuestions > 0)
+
+  const awarded = new Map(questions
+    .filter(question => question.evaluator_score !== null && question.evaluator_score !== undefined)
+    .map(question => [question.id, Number(question.evaluator_score) / 100]))
+
+  return {
+    scaleMax,
+    stages: scorecards.map(scorecard => ({
+      id: scorecard.stage.id,
+      name: scorecard.stage.name,
+      colour: scorecard.stage.colour,
+      status: scorecard.stage.status,
+      predictedScore: scorecard.predictedScore,
+      scoredQuestions: scorecard.scoredQuestions,
+      submittedReviewers: scorecard.submittedReviewers,
+      totalReviewers: scorecard.totalReviewers
+    })),
+    totalQuestions: questions.length,
+    predictedScore: latest?.predictedScore ?? null,
+    predictedMarks: latest?.predictedMarks ?? null,
+    availableMarks: latest?.availableMarks ?? null,
+    predictedFrom: latest?.stage.name ?? null,
+    weakestQuestions: latest
+      ? latest.questions
+          .filter(question => question.averageScore !== null)
+          .sort((a, b) => a.averageScore! - b.averageScore! || b.weight - a.weight)
+          .slice(0, WEAKEST_QUESTION_COUNT)
+      : [],
+    actualScore: weightedPercentage(questionWeights(questions), awarded)
+  }
+}
+
+function cleanNotes(notes: string[] | undefined): string[] {
+  return Array.from(new Set((notes ?? []).map(note => note.trim()).filter(Boolean)))
+}
+
+export class ColourTeamReviewService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * A tender's scoring scale and review stages, in order, with their reviewers
+   */
+  async getReviewSetup(tenderId: string): Promise<{ scaleMax: ScoringScaleMax; stages: ReviewStageWithReviewers[] }> {
+    const scaleMax = await this.getScoringScale(tenderId)
+    const stages = await this.getStages(tenderId)
+    const assignments = await this.getAssignments(stages.map(stage => stage.id))
+
+    const reviewers = await loadUsers(this.supabase, assignments.map(assignment => assignment.reviewer_id))
+    return {
+      scaleMax,
+      stages: stages.map(stage => ({
+        ...stage,
+        reviewers: assignments
+          .filter(assignment => assignment.stage_id === stage.id)
+          .map(assignment => ({ ...assignment, reviewer: reviewers.get(assignment.reviewer_id) }))
+      }))
+    }
+  }
+
+  /**
+   * Set the commissioner's scoring scale. Refused if reviewers have already
+   * given scores above the new top of the scale.
+   */
+  async setScoringScale(tenderId: string, scaleMax: ScoringScaleMax): Promise<ScoringScaleMax> {
+    const stages = await this.getStages(tenderId)
+    if (stages.length > 0) {
+      const { data: above, error: aboveError } = await this.supabase
+        .from('tender_review_scores')
+        .select('id')
+        .in('stage_id', stages.map(stage => stage.id))
+        .gt('score', scaleMax)
+        .limit(1)
+
+      if (aboveError) {
+        throw new Error(`Database error: ${aboveError.message}`)
+      }
+      if (above && above.length > 0) {
+        throw new ReviewError(`Reviewers have already scored above ${scaleMax}`, 'invalid_score')
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('tender_workflows')
+      .update({ scoring_scale_max: scaleMax })
+      .eq('id', tenderId)
+      .select('scoring_scale_max')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new ReviewError('Only the tender owner, managers and admins can change its reviews', 'not_permitted')
+    }
+    return data.scoring_scale_max as ScoringScaleMax
+  }
+
+  /**
+   * Add a review stage, after the existing ones unless an order is given
+   */
+  async createStage(tenderId: string, input: CreateReviewStageInput): Promise<ReviewStage> {
+    let stageOrder = input.stage_order
+    if (stageOrder === undefined) {
+      const stages = await this.getStages(tenderId)
+      stageOrder = stages.reduce((max, stage) => Math.max(max, stage.stage_order), 0) + 1
+    }
+
+    const { data, error } = await this.supabase
+      .from('tender_review_stages')
+      .insert({
+        tender_workflow_id: tenderId,
+        name: input.name.trim(),
+        colour: input.colour,
+        due_date: input.due_date ?? null,
+        stage_order: stageOrder
+      })
+      .select()
+      .single()
+
+    if (error) throw this.mapError(error)
+    return data as ReviewStage
+  }
+
+  /**
+   * Rename, reorder or reschedule a stage, or open and close it for scoring
+   */
+  async updateStage(stageId: string, input: UpdateReviewStageInput): Promise<ReviewStage> {
+    const { data, error } = await this.supabase
+      .from('tender_review_stages')
+      .update({
+        ...input,
+        ...(input.name !== undefined && { name: input.name.trim() })
+      })
+      .eq('id', stageId)
+      .select()
+      .maybeSingle()
+
+    if (error) throw this.mapError(error)
+    if (!data) {
+      throw new ReviewError('Review stage not found', 'not_found')
+    }
+    return data as ReviewStage
+  }
+
+  async deleteStage(stageId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('tender_review_stages')
+      .delete()
+      .eq('id', stageId)
+      .select('id')
+
+    if (error) throw this.mapError(error)
+    if (!data || data.length === 0) {
+      throw new ReviewError('Review stage not found', 'not_found')
+    }
+  }
+
+  /**
+   * Assign reviewers to a stage. Existing assignments are kept.
+   */
+  async assignReviewers(stageId: string, reviewerIds: string[], assignedBy: string): Promise<ReviewAssignment[]> {
+    if (reviewerIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('tender_review_assignments')
+      .upsert(
+        reviewerIds.map(reviewerId => ({
+          stage_id: stageId,
+          reviewer_id: reviewerId,
+          assigned_by: assignedBy
+        })),
+        { onConflict: 'stage_id,reviewer_id', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (error) throw this.mapError(error)
+    return (data || []) as ReviewAssignment[]
+  }
+
+  /**
+   * Save a reviewer's score for one question, replacing any earlier one
+   */
+  async saveScore(stageId: string, reviewerId: string, input: ReviewScoreInput): Promise<ReviewScore> {
+    const { stage, scaleMax } = await this.getStage(stageId)
+    if (stage.status !== 'open') {
+      throw new ReviewError(`${stage.name} is not open for scoring`, 'stage_not_open')
+    }
+    if (!Number.isFinite(input.score) || input.score < 0 || input.score > scaleMax) {
+      throw new ReviewError(`Scores for this tender run from 0 to ${scaleMax}`, 'invalid_score')
+    }
+
+    const { data: assignment, error: assignmentError } = await this.supabase
+      .from('tender_review_assignments')
+      .select('stage_id')
+      .eq('stage_id', stageId)
+      .eq('reviewer_id', reviewerId)
+      .maybeSingle()
+
+    if (assignmentError) {
+      throw new Error(`Database error: ${assignmentError.message}`)
+    }
+    if (!assignment) {
+      throw new ReviewError(`You are not a reviewer in ${stage.name}`, 'not_permitted')
+    }
+
+    const { data, error } = await this.supabase
+      .from('tender_review_scores')
+      .upsert(
+        {
+          stage_id: stageId,
+          question_id: input.question_id,
+          reviewer_id: reviewerId,
+          score: input.score,
+          strengths: cleanNotes(input.strengths),
+          weaknesses: cleanNotes(input.weaknesses),
+          comments: input.comments?.trim() || null
+        },
+        { onConflict: 'stage_id,question_id,reviewer_id' }
+      )
+      .select()
+      .single()
+
+    if (error) throw this.mapError(error)
+    return data as ReviewScore
+  }
+
+  /**
+   * Mark the signed-in reviewer's scorecard for a stage as submitted
+   */
+  async submitScorecard(stageId: string): Promise<ReviewAssignment> {
+    const { data, error } = await this.supabase
+      .rpc('submit_review_scorecard', { p_stage_id: stageId })
+      .maybeSingle()
+
+    if (error) throw this.mapError(error)
+    if (!data) {
+      throw new ReviewError('You are not a reviewer in this stage, or it is not open', 'not_permitted')
+    }
+    return data as ReviewAssignment
+  }
+
+  /**
+   * A stage's aggregated scorecard, with the viewer's own scores so they can
+   * carry on scoring
+   */
+  async getStageScorecard(stageId: string, viewerId?: string): Promise<StageScorecard & { ownScores: ReviewScore[] }> {
+    const { stage, scaleMax } = await this.getStage(stageId)
+    const [questions, scores, assignments] = await Promise.all([
+      this.getQuestions(stage.tender_workflow_id),
+      this.getScores([stageId]),
+      this.getAssignments([stageId])
+    ])
+
+    return {
+      ...buildStageScorecard(stage, questions, scores, scaleMax, assignments),
+      ownScores: viewerId ? scores.filter(score => score.reviewer_id === viewerId) : []
+    }
+  }
+
+  /**
+   * Predicted quality score for a tender from its review stages
+   */
+  async getReviewAnalytics(tenderId: string): Promise<ReviewAnalytics> {
+    const scaleMax = await this.getScoringScale(tenderId)
+    const stages = await this.getStages(tenderId)
+    const stageIds = stages.map(stage => stage.id)
+    const [questions, scores, assignments] = await Promise.all([
+      this.getQuestions(tenderId),
+      this.getScores(stageIds),
+      this.getAssignments(stageIds)
+    ])
+
+    return summariseReviews(stages, questions, scores, scaleMax, assignments)
+  }
+
+  /**
+   * The tender's questions with the scores the commissioner awarded
+   */
+  async getEvaluatorScores(tenderId: string): Promise<ReviewedQuestion[]> {
+    return this.getQuestions(tenderId)
+  }
+
+  /**
+   * Record the scores the commissioner awarded per question. They become the
+   * tender's actual quality score and the evaluator score of the answers used.
+   */
+  async recordEvaluatorScores(tenderId: string, scores: EvaluatorScoreInput[]): Promise<ReviewedQuestion[]> {
+    if (scores.some(({ score }) => score !== null && (score < 0 || score > 100))) {
+      throw new ReviewError('Evaluator scores run from 0 to 100', 'invalid_score')
+    }
+
+    const questionIds = [...new Set(scores.map(({ question_id }) => question_id))]
+    const { data: found, error: lookupError } = await this.supabase
+      .from('tender_questions')
+      .select('id')
+      .eq('tender_workflow_id', tenderId)
+      .in('id', questionIds)
+
+    if (lookupError) throw this.mapError(lookupError)
+    if ((found || []).length !== questionIds.length) {
+      throw new ReviewError('Question not found', 'not_found')
+    }
+
+    // One transaction, so a failed score leaves none of the others written
+    const { error } = await this.supabase.rpc('record_evaluator_scores', {
+      p_tender_workflow_id: tenderId,
+      p_scores: scores
+    })
+
+    if (error) throw this.mapError(error)
+
+    return this.getQuestions(tenderId)
+  }
+
+  private async getScoringScale(tenderId: string): Promise<ScoringScaleMax> {
+    const { data, error } = await this.supabase
+      .from('tender_workflows')
+      .select('scoring_scale_max')
+      .eq('id', tenderId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new ReviewError('Tender not found', 'not_found')
+    }
+    return (data.scoring_scale_max ?? 5) as ScoringScaleMax
+  }
+
+  private async getStage(stageId: string): Promise<{ stage: ReviewStage; scaleMax: ScoringScaleMax }> {
+    const { data, error } = await this.supabase
+      .from('tender_review_stages')
+      .select('*, tender:tender_workflows(scoring_scale_max)')
+      .eq('id', stageId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new ReviewError('Review stage not found', 'not_found')
+    }
+
+    const { tender, ...stage } = data as ReviewStage & { tender: { scoring_scale_max: number } | null }
+    return { stage, scaleMax: (tender?.scoring_scale_max ?? 5) as ScoringScaleMax }
+  }
+
+  private async getStages(tenderId: string): Promise<ReviewStage[]> {
+    const { data, error } = await this.supabase
+      .from('tender_review_stages')
+      .select('*')
+      .eq('tender_workflow_id', tenderId)
+      .order('stage_order', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as ReviewStage[]
+  }
+
+  private async getAssignments(stageIds: string[]): Promise<ReviewAssignment[]> {
+    if (stageIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('tender_review_assignments')
+      .select('*')
+      .in('stage_id', stageIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as ReviewAssignment[]
+  }
+
+  private async getScores(stageIds: string[]): Promise<ReviewScore[]> {
+    if (stageIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('tender_review_scores')
+      .select('*')
+      .in('stage_id', stageIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as ReviewScore[]
+  }
+
+  private async getQuestions(tenderId: string): Promise<ReviewedQuestion[]> {
+    const { data, error } = await this.supabase
+      .from('tender_questions')
+      .select('id, question_number, question_text, evaluation_criteria, weighting_percentage, evaluator_score')
+      .eq('tender_workflow_id', tenderId)
+      .order('question_number', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return ((data || []) as ReviewedQuestion[]).map(question => ({
+      ...question,
+      // DECIMAL columns arrive as strings
+      weighting_percentage: question.weighting_percentage === null ? null : Number(question.weighting_percentage),
+      evaluator_score: question.evaluator_score === null || question.evaluator_score === undefined
+        ? null
+        : Number(question.evaluator_score)
+    }))
+  }
+
+  private mapError(error: { message: string; code?: string }): Error {
+    switch (error.code) {
+      case '42501':
+        return new ReviewError('Only the tender owner, managers and admins can change its reviews', 'not_permitted')
+      case '23505':
+        return new ReviewError('The tender already has a review stage with that name', 'duplicate_stage')
+      case '23514':
+        return new ReviewError(error.message, 'invalid_score')
+      case 'P0002':
+        return new ReviewError(error.message, 'not_found')
+      default:
+        return new Error(`Database error: ${error.message}`)
+    }
+  }
+}
+
+// Export singleton instance
+export const colourTeamReviewService = new ColourTeamReviewService()
@@ -0,0 +1,441 @@
+/**
+ * Compliance Coverage Service
+ * Maps compliance requirements to the drafted responses (sections and tender
+ * question answers) that address them, and flags requirements that no
+ * response mentions or that are only weakly addressed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type { ComplianceItem, ComplianceItemLink, ComplianceItemLinkInsert } from '@/lib/database.types'
+import { normaliseRequirementKey } from '@/lib/services/compliance-extraction'
+import { questionSectionTitle } from '@/lib/services/tender-sections'
+
+export type CoverageStatus = 'covered' | 'weak' | 'uncovered'
+export type CoverageResponseType = 'section' | 'question'
+
+// A drafted response a requirement can be covered by
+export interface CoverageResponse {
+  id: string
+  type: CoverageResponseType
+  title: string
+  content: string
+}
+
+export interface CoverageMatch {
+  responseId: string
+  responseType: CoverageResponseType
+  title: string
+  score: number
+  matchedTerms: string[]
+  linkType: 'auto' | 'manual'
+}
+
+export interface RequirementCoverage {
+  itemId: string
+  status: CoverageStatus
+  score: number
+  matches: CoverageMatch[]
+}
+
+export interface CoverageMatrixRow {
+  itemId: string
+  requirement: string
+  status: CoverageStatus | null
+  score: number | null
+  // Keyed by coverageResponseKey()
+  cells: Record<string, { linkId: string; score: number | null; linkType: 'auto' | 'manual' }>
+}
+
+export interface ComplianceCoverageMatrix {
+  responses: Omit<CoverageResponse, 'content'>[]
+  rows: CoverageMatrixRow[]
+  summary: Record<CoverageStatus | 'unchecked', number>
+}
+
+interface KeyTerm {
+  term: string
+  stem: string
+  weight: number
+}
+
+export const COVERED_THRESHOLD = 0.6
+export const WEAK_THRESHOLD = 0.3
+const MAX_MATCHES_PER_ITEM = 3
+
+// Words that say nothing about what a response has to address
+const GENERIC_TERMS = new Set([
+  'have', 'has', 'hold', 'ensure', 'provide', 'provided', 'include', 'including', 'such', 'as', 'with',
+  'for', 'in', 'on', 'at', 'by', 'from', 'that', 'this', 'these', 'those', 'which', 'who', 'where',
+  'when', 'within', 'other', 'each', 'per', 'been', 'being', 'also', 'can', 'may', 'not', 'no', 'more',
+  'than', 'least', 'appropriate', 'relevant', 'service', 'services', 'contract', 'it', 'them', 'there',
+  'expected', 'need', 'needs', 'obliged', 'i', 'e', 'g', 'etc'
+])
+
+export function coverageResponseKey(response: { type: CoverageResponseType; id: string }): string {
+  return `${response.type}:${response.id}`
+}
+
+function stem(word: string): string {
+  if (word.length <= 4) return word
+  const stripped = word
+    .replace(/(?:ations?|ings?|ed|es|s)$/, '')
+    .replace(/(?:ly)$/, '')
+  // "complete" and "completed" should share a stem
+  return stripped.length > 4 ? stripped.replace(/e$/, '') : stripped
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean)
+}
+
+/**
+ * Key terms a response has to mention to address a requirement. Acronyms
+ * and numbers (CQC, ISO 9001) weigh double as they are rarely paraphrased.
+ */
+export function extractKeyTerms(requirement: string): KeyTerm[] {
+  const acronyms = new Set((requirement.match(/\b[A-Z]{2,}\b/g) || []).map(term => term.toLowerCase()))
+  const seen = new Set<string>()
+
+  return normaliseRequirementKey(requirement)
+    .split(' ')
+    .filter(term => term && !GENERIC_TERMS.has(term) && (term.length > 2 || acronyms.has(term)))
+    .map(term => ({
+      term,
+      stem: stem(term),
+      weight: acronyms.has(term) || /^\d{3,}$/.test(term) ? 2 : 1
+    }))
+    .filter(term => {
+      if (seen.has(term.stem)) return false
+      seen.add(term.stem)
+      return true
+    })
+}
+
+/**
+ * Score how much of a requirement's key terms a response mentions (0-1)
+ */
+export function scoreResponse(terms: KeyTerm[], content: string): { score: number; matchedTerms: string[] } {
+  const totalWeight = terms.reduce((sum, term) => sum + term.weight, 0)
+  if (totalWeight === 0) return { score: 0, matchedTerms: [] }
+
+  const contentStems = new Set(tokenize(content).map(stem))
+  const matched = terms.filter(term => contentStems.has(term.stem))
+  const matchedWeight = matched.reduce((sum, term) => sum + term.weight, 0)
+
+  return {
+    score: Math.round((matchedWeight / totalWeight) * 100) / 100,
+    matchedTerms: matched.map(term => term.term)
+  }
+}
+
+export function coverageStatusForScore(score: number): CoverageStatus {
+  if (score >= COVERED_THRESHOLD) return 'covered'
+  if (score >= WEAK_THRESHOLD) return 'weak'
+  return 'uncovered'
+}
+
+/**
+ * Work out which drafted responses address each requirement. A manual link
+ * counts as covering the requirement once the linked response has content.
+ */
+export function analyseCoverage(
+  items: Pick<ComplianceItem, 'id' | 'requirement'>[],
+  responses: CoverageResponse[],
+  manualLinks: { itemId: string; responseId: string; responseType: CoverageResponseType }[] = []
+): RequirementCoverage[] {
+  const drafted = responses.filter(response => response.content.trim().length > 0)
+
+  return items.map(item => {
+    const terms = extractKeyTerms(item.requirement)
+    const manual = new Set(
+      manualLinks
+        .filter(link => link.itemId === item.id)
+        .map(link => coverageResponseKey({ type: link.responseType, id: link.responseId }))
+    )
+
+    const matches: CoverageMatch[] = drafted
+      .map(response => {
+        const { score, matchedTerms } = scoreResponse(terms, response.content)
+        const isManual = manual.has(coverageResponseKey(response))
+        return {
+          responseId: response.id,
+          responseType: response.type,
+          title: response.title,
+          score: isManual ? Math.max(score, COVERED_THRESHOLD) : score,
+          matchedTerms,
+          linkType: isManual ? 'manual' as const : 'auto' as const
+        }
+      })
+      .filter(match => match.linkType === 'manual' || match.score >= WEAK_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MATCHES_PER_ITEM)
+
+    const score = matches[0]?.score ?? 0
+    return {
+      itemId: item.id,
+      status: coverageStatusForScore(score),
+      score,
+      matches
+    }
+  })
+}
+
+export class ComplianceCoverageService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Get the drafted responses for a tender workflow. Question-linked sections
+   * mirror their question's response, so those questions are not repeated.
+   */
+  async getResponses(tenderWorkflowId: string): Promise<CoverageResponse[]> {
+    const { data: sections, error: sectionsError } = await this.supabase
+      .from('sections')
+      .select('id, title, content, tender_question_id')
+      .eq('project_id', tenderWorkflowId)
+      .order('sort_order', { ascending: true })
+
+    if (sectionsError) {
+      throw new Error(`Database error: ${sectionsError.message}`)
+    }
+
+    const { data: questions, error: questionsError } = await this.supabase
+      .from('tender_questions')
+      .select('id, question_number, question_text, response_content')
+      .eq('tender_workflow_id', tenderWorkflowId)
+
+    if (questionsError) {
+      throw new Error(`Database error: ${questionsError.message}`)
+    }
+
+    const linkedQuestions = new Set(
+      (sections || []).map(section => section.tender_question_id).filter(Boolean)
+    )
+
+    return [
+      ...(sections || []).map(section => ({
+        id: section.id,
+        type: 'section' as const,
+        title: section.title,
+        content: section.content ?? ''
+      })),
+      ...(questions || [])
+        .filter(question => !linkedQuestions.has(question.id))
+        .map(question => ({
+          id: question.id,
+          type: 'question' as const,
+          title: questionSectionTitle(question),
+          content: question.response_content ?? ''
+        }))
+    ]
+  }
+
+  /**
+   * Analyse how well a tender's drafted responses cover a proposal's
+   * compliance requirements, replacing previous auto links
+   */
+  async analyseProposalCoverage(proposalId: string, tenderWorkflowId: string): Promise<ComplianceCoverageMatrix> {
+    const items = await this.getItems(proposalId)
+    const responses = await this.getResponses(tenderWorkflowId)
+    const links = await this.getLinks(items.map(item => item.id))
+
+    const manualLinks = links
+      .filter(link => link.link_type === 'manual')
+      .map(link => ({
+        itemId: link.compliance_item_id,
+        responseId: (link.section_id ?? link.tender_question_id)!,
+        responseType: link.section_id ? 'section' as const : 'question' as const
+      }))
+
+    const coverage = analyseCoverage(items, responses, manualLinks)
+
+    if (items.length > 0) {
+      const { error: deleteError } = await this.supabase
+        .from('compliance_item_links')
+        .delete()
+        .in('compliance_item_id', items.map(item => item.id))
+        .eq('link_type', 'auto')
+
+      if (deleteError) {
+        throw new Error(`Database error: ${deleteError.message}`)
+      }
+    }
+
+    const inserts: ComplianceItemLinkInsert[] = coverage.flatMap(result =>
+      result.matches
+        .filter(match => match.linkType === 'auto')
+        .map(match => ({
+          compliance_item_id: result.itemId,
+          section_id: match.responseType === 'section' ? match.responseId : null,
+          tender_question_id: match.responseType === 'question' ? match.responseId : null,
+          link_type: 'auto',
+          coverage_score: match.score,
+          matched_terms: match.matchedTerms
+        }))
+    )
+
+    if (inserts.length > 0) {
+      const { error: insertError } = await this.supabase
+        .from('compliance_item_links')
+        .insert(inserts)
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`)
+      }
+    }
+
+    const checkedAt = new Date().toISOString()
+    for (const result of coverage) {
+      const { error: updateError } = await this.supabase
+        .from('compliance_items')
+        .update({
+          coverage_status: result.status,
+          coverage_score: result.score,
+          coverage_checked_at: checkedAt
+        })
+        .eq('id', result.itemId)
+
+      if (updateError) {
+        throw new Error(`Database error: ${updateError.message}`)
+      }
+    }
+
+    return this.getCoverageMatrix(proposalId)
+  }
+
+  /**
+   * Get the requirement-by-response coverage matrix for a proposal
+   */
+  async getCoverageMatrix(proposalId: string): Promise<ComplianceCoverageMatrix> {
+    const items = await this.getItems(proposalId)
+    const itemIds = items.map(item => item.id)
+
+    const { data: links, error } = itemIds.length > 0
+      ? await this.supabase
+          .from('compliance_item_links')
+          .select('*, sections(id, title), tender_questions(id, question_number, question_text)')
+          .in('compliance_item_id', itemIds)
+      : { data: [], error: null }
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const responses = new Map<string, Omit<CoverageResponse, 'content'>>()
+    const rows = new Map<string, CoverageMatrixRow>(
+      items.map(item => [item.id, {
+        itemId: item.id,
+        requirement: item.requirement,
+        status: (item.coverage_status as CoverageStatus | null) ?? null,
+        score: item.coverage_score,
+        cells: {}
+      }])
+    )
+
+    const linkRows = links || []
+    linkRows.forEach(link => {
+      const response = link.section_id
+        ? { id: link.section_id, type: 'section' as const, title: link.sections?.title ?? 'Untitled section' }
+        : {
+            id: link.tender_question_id,
+            type: 'question' as const,
+            title: link.tender_questions ? questionSectionTitle(link.tender_questions) : 'Tender question'
+          }
+      const key = coverageResponseKey(response)
+      responses.set(key, response)
+
+      const row = rows.get(link.compliance_item_id)
+      if (row) {
+        row.cells[key] = { linkId: link.id, score: link.coverage_score, linkType: link.link_type }
+      }
+    })
+
+    const summary = { covered: 0, weak: 0, uncovered: 0, unchecked: 0 }
+    rows.forEach(row => {
+      summary[row.status ?? 'unchecked']++
+    })
+
+    return {
+      responses: Array.from(responses.values()),
+      rows: Array.from(rows.values()),
+      summary
+    }
+  }
+
+  /**
+   * Link a requirement to the response that addresses it
+   */
+  async linkItemToResponse(
+    itemId: string,
+    response: { type: CoverageResponseType; id: string },
+    userId?: string
+  ): Promise<ComplianceItemLink> {
+    const { data, error } = await this.supabase
+      .from('compliance_item_links')
+      .upsert({
+        compliance_item_id: itemId,
+        section_id: response.type === 'section' ? response.id : null,
+        tender_question_id: response.type === 'question' ? response.id : null,
+        link_type: 'manual',
+        created_by: userId ?? null
+      }, {
+        onConflict: response.type === 'section'
+          ? 'compliance_item_id,section_id'
+          : 'compliance_item_id,tender_question_id'
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Remove a link between a requirement and a response
+   */
+  async removeLink(linkId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('compliance_item_links')
+      .delete()
+      .eq('id', linkId)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+
+  private async getItems(proposalId: string): Promise<ComplianceItem[]> {
+    const { data, error } = await this.supabase
+      .from('compliance_items')
+      .select('*')
+      .eq('proposal_id', proposalId)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  private async getLinks(itemIds: string[]): Promise<ComplianceItemLink[]> {
+    if (itemIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('compliance_item_links')
+      .select('*')
+      .in('compliance_item_id', itemIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data || []
+  }
+}
+
+// Export singleton instance
+export const complianceCoverageService = new ComplianceCoverageService()
@@ -1,48 +1,419 @@
-// Stub implementation for compliance extraction service
-// This is a placeholder until the compliance extraction functionality is fully implemented
+/**
+ * Compliance Extraction Service
+ * Scans tender document text for obligations ("must", "shall", "required"),
+ * regulatory mandates and mandatory certifications, and saves each one as a
+ * compliance item that can be traced back to its source page and quote.
+ * Requirements that repeat across documents are merged into a single item.
+ */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase'
-import type { ComplianceItem, ComplianceItemInsert } from '@/lib/database.types'
+import type { ComplianceItem, ComplianceItemInsert, Database, Json } from '@/lib/database.types'
+import { splitSentences } from '@/lib/utils/sentences'
 
-interface ExtractionResult {
+export type ComplianceCategory = 'obligation' | 'regulatory' | 'certification'
+
+// One place a requirement was found, stored in compliance_items.source_references
+export interface ComplianceSourceReference {
+  document_id: string | null
+  document_name?: string
+  page: number | null
+  quote: string
+}
+
+export interface ExtractionResult {
   content: string
   confidence: number
   sourceText: string
-  category: string
+  category: ComplianceCategory
+  sourcePage: number | null
+  requirementKey: string
+  sources: ComplianceSourceReference[]
+}
+
+// A document to scan, with per-page text when the format has pages
+export interface ComplianceSourceText {
+  documentId?: string
+  documentName?: string
+  text: string
+  pageTexts?: string[]
+}
+
+export interface ComplianceSourceDocument {
+  id: string
+  file_name: string
+  file_path: string
+  file_type: string | null
+}
+
+export interface ComplianceExtractionSummary {
+  success: boolean
+  itemsCreated: number
+  // Requirements merged into an item that already existed
+  itemsSkipped: number
+  error?: string
+}
+
+const OBLIGATION_PATTERN = /\b(must|shall|is required|are required|required to|will be required|mandatory|is expected to|are expected to|will need to|needs? to|is obliged to|are obliged to)\b/i
+const STRONG_OBLIGATION_PATTERN = /\b(must|shall|mandatory|is required|are required)\b/i
+const REGULATORY_PATTERN = /\b(CQC|Care Quality Commission|Health and Social Care Act|Fundamental Standards|Regulation \d+|Care Act 2014|Mental Capacity Act|Deprivation of Liberty|DoLS|Liberty Protection Safeguards|GDPR|Data Protection Act|Data Security and Protection Toolkit|DSPT|NICE guidance|NICE guidelines?|Modern Slavery Act|Equality Act|Health and Safety at Work|RIDDOR|COSHH|Ofsted|Care Inspectorate|Safeguarding Vulnerable Groups Act|Freedom of Information Act|statutory|legislation|regulations?)\b/i
+const REGULATORY_CONTEXT_PATTERN = /\b(compl(?:y|ies|iance)|in accordance with|in line with|registered|adhere|conform)\b/i
+const CERTIFICATION_PATTERN = /\b(ISO\s?\d{4,5}|Cyber Essentials(?: Plus)?|accredit\w*|certif\w*|Care Certificate|NVQ|QCF|RQF|Level [2-5] Diploma|Investors in People|CHAS|SafeContractor|Constructionline|enhanced DBS|DBS check\w*|(?:public|employer'?s?|professional) (?:liability|indemnity)|insurance)\b/i
+const CERTIFICATION_CONTEXT_PATTERN = /\b(mandatory|essential|minimum|hold|held|maintain|evidence of|valid|current)\b/i
+const PAGE_MARKER_PATTERN = /^Page (\d+):\s*$/gm
+
+const MIN_REQUIREMENT_LENGTH = 25
+const MAX_REQUIREMENT_LENGTH = 600
+// Token overlap above which two requirements are treated as the same
+const DUPLICATE_SIMILARITY = 0.85
+
+// Words that differ between documents without changing the requirement
+const KEY_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'all', 'any', 'and', 'or', 'of', 'to', 'be', 'is', 'are', 'will', 'must', 'shall',
+  'should', 'required', 'requirement', 'provider', 'providers', 'supplier', 'suppliers', 'bidder',
+  'bidders', 'tenderer', 'tenderers', 'contractor', 'contractors', 'applicant', 'applicants',
+  'organisation', 'organisations', 'their', 'its', 'they', 'you', 'your', 'we'
+])
+
+const CATEGORY_PRIORITY: Record<ComplianceCategory, number> = {
+  obligation: 0,
+  regulatory: 1,
+  certification: 2
+}
+
+/**
+ * Normalise requirement text into a key used to detect duplicates
+ */
+export function normaliseRequirementKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !KEY_STOP_WORDS.has(word))
+    .join(' ')
+}
+
+function keySimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  const tokensA = new Set(a.split(' '))
+  const tokensB = new Set(b.split(' '))
+  let shared = 0
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++
+  })
+  const total = tokensA.size + tokensB.size - shared
+  return total === 0 ? 0 : shared / total
+}
+
+function isDuplicateKey(a: string, b: string): boolean {
+  return !!a && !!b && keySimilarity(a, b) >= DUPLICATE_SIMILARITY
+}
+
+/**
+ * Split document text into pages. Uses explicit page texts when available,
+ * then form feeds, then the "Page N:" markers written by lib/text-extraction.
+ */
+export function splitIntoPages(text: string, pageTexts?: string[]): { page: number | null; text: string }[] {
+  if (pageTexts && pageTexts.length > 0) {
+    return pageTexts.map((pageText, index) => ({ page: index + 1, text: pageText }))
+  }
+
+  if (text.includes('\f')) {
+    return text.split('\f').map((pageText, index) => ({ page: index + 1, text: pageText }))
+  }
+
+  const markers = Array.from(text.matchAll(PAGE_MARKER_PATTERN))
+  if (markers.length > 0) {
+    return markers.map((marker, index) => {
+      const start = marker.index! + marker[0].length
+      const end = index + 1 < markers.length ? markers[index + 1].index! : text.length
+      return { page: parseInt(marker[1], 10), text: text.slice(start, end) }
+    })
+  }
+
+  return [{ page: null, text }]
+}
+
+/**
+ * Work out which kind of requirement a sentence is, if any
+ */
+export function classifyRequirement(sentence: string): ComplianceCategory | null {
+  const isObligation = OBLIGATION_PATTERN.test(sentence)
+
+  if (CERTIFICATION_PATTERN.test(sentence) && (isObligation || CERTIFICATION_CONTEXT_PATTERN.test(sentence))) {
+    return 'certification'
+  }
+  if (REGULATORY_PATTERN.test(sentence) && (isObligation || REGULATORY_CONTEXT_PATTERN.test(sentence))) {
+    return 'regulatory'
+  }
+  return isObligation ? 'obligation' : null
+}
+
+function scoreRequirement(sentence: string, category: ComplianceCategory): number {
+  let score = category === 'obligation' ? 0.6 : 0.75
+  if (STRONG_OBLIGATION_PATTERN.test(sentence)) score += 0.1
+  if (category !== 'obligation' && OBLIGATION_PATTERN.test(sentence)) score += 0.1
+  if (sentence.length > 300) score -= 0.1
+
+  return Math.round(Math.min(0.95, Math.max(0.3, score)) * 100) / 100
+}
+
+function toRequirementText(sentence: string): string {
+  return sentence
+    .replace(/^(?:\d+(?:\.\d+)*\.?|\(?[a-z]\)|\(?[ivx]+\))\s+/i, '')
+    .trim()
+}
+
+function mergeSources(
+  existing: ComplianceSourceReference[],
+  incoming: ComplianceSourceReference[]
+): ComplianceSourceReference[] {
+  const merged = [...existing]
+  incoming.forEach(source => {
+    const seen = merged.some(ref =>
+      ref.document_id === source.document_id && ref.page === source.page && ref.quote === source.quote
+    )
+    if (!seen) merged.push(source)
+  })
+  return merged
+}
+
+/**
+ * Merge duplicate requirements, keeping every place each one was found
+ */
+export function mergeExtractionResults(results: ExtractionResult[]): ExtractionResult[] {
+  const merged: ExtractionResult[] = []
+
+  results.forEach(result => {
+    const match = merged.find(item => isDuplicateKey(item.requirementKey, result.requirementKey))
+    if (!match) {
+      merged.push({ ...result, sources: [...result.sources] })
+      return
+    }
+
+    match.sources = mergeSources(match.sources, result.sources)
+    match.confidence = Math.max(match.confidence, result.confidence)
+    if (CATEGORY_PRIORITY[result.category] > CATEGORY_PRIORITY[match.category]) {
+      match.category = result.category
+    }
+  })
+
+  return merged
+}
+
+/**
+ * Extract compliance requirements from one or more documents
+ */
+export function extractComplianceRequirements(documents: ComplianceSourceText[]): ExtractionResult[] {
+  const results: ExtractionResult[] = []
+
+  documents.forEach(document => {
+    splitIntoPages(document.text, document.pageTexts).forEach(({ page, text }) => {
+      splitSentences(text).forEach(sentence => {
+        if (sentence.length < MIN_REQUIREMENT_LENGTH || sentence.length > MAX_REQUIREMENT_LENGTH) return
+        if (sentence.endsWith('?')) return
+
+        const category = classifyRequirement(sentence)
+        if (!category) return
+
+        const content = toRequirementText(sentence)
+        const requirementKey = normaliseRequirementKey(content)
+        if (!requirementKey) return
+
+        results.push({
+          content,
+          confidence: scoreRequirement(sentence, category),
+          sourceText: sentence,
+          category,
+          sourcePage: page,
+          requirementKey,
+          sources: [{
+            document_id: document.documentId ?? null,
+            document_name: document.documentName,
+            page,
+            quote: sentence
+          }]
+        })
+      })
+    })
+  })
+
+  return mergeExtractionResults(results)
+}
+
+/**
+ * Read the source references stored on a compliance item
+ */
+export function getSourceReferences(item: Pick<ComplianceItem, 'source_references'>): ComplianceSourceReference[] {
+  return Array.isArray(item.source_references)
+    ? (item.source_references as unknown as ComplianceSourceReference[])
+    : []
 }
 
 export class ComplianceExtractionService {
-  private supabase = createClient()
+  constructor(private supabase: SupabaseClient<Database> = createClient()) {}
 
   /**
-   * Extract compliance requirements from text (stub implementation)
+   * Extract compliance requirements from the text of a single document
    */
   async extractComplianceFromText(
-    _text: string,
-    _documentName?: string
+    text: string,
+    documentName?: string,
+    options: { sourceDocumentId?: string; pageTexts?: string[] } = {}
   ): Promise<ExtractionResult[]> {
-    console.log('Stub: extractComplianceFromText called')
-    return []
+    return extractComplianceRequirements([{
+      documentId: options.sourceDocumentId,
+      documentName,
+      text,
+      pageTexts: options.pageTexts
+    }])
   }
 
   /**
-   * Transform extraction results into compliance item format (stub implementation)
+   * Transform extraction results into compliance item format
    */
   transformToComplianceItems(
-    _results: ExtractionResult[],
-    _proposalId: string,
-    _sourceDocumentId?: string
+    results: ExtractionResult[],
+    proposalId: string,
+    sourceDocumentId?: string
   ): ComplianceItemInsert[] {
-    console.log('Stub: transformToComplianceItems called')
-    return []
+    return results.map((result, index) => {
+      const primary = result.sources[0]
+      return {
+        proposal_id: proposalId,
+        requirement: result.content,
+        requirement_key: result.requirementKey,
+        category: result.category,
+        source_type: 'auto',
+        completed: false,
+        confidence_score: result.confidence,
+        source_document_id: primary?.document_id ?? sourceDocumentId ?? null,
+        source_page: primary?.page ?? result.sourcePage,
+        source_quote: primary?.quote ?? result.sourceText,
+        source_references: result.sources.map(source => ({
+          ...source,
+          document_id: source.document_id ?? sourceDocumentId ?? null
+        })) as unknown as Json,
+        sort_order: index
+      }
+    })
   }
 
   /**
-   * Save compliance items to the database (stub implementation)
+   * Save compliance items, merging any that duplicate an existing item
    */
-  async saveComplianceItems(_items: ComplianceItemInsert[]): Promise<ComplianceItem[]> {
-    console.log('Stub: saveComplianceItems called')
-    return []
+  async saveComplianceItems(items: ComplianceItemInsert[]): Promise<ComplianceItem[]> {
+    const { created, merged } = await this.upsertComplianceItems(items)
+    return [...created, ...merged]
+  }
+
+  private async upsertComplianceItems(
+    items: ComplianceItemInsert[]
+  ): Promise<{ created: ComplianceItem[]; merged: ComplianceItem[] }> {
+    if (items.length === 0) return { created: [], merged: [] }
+
+    const proposalIds = Array.from(new Set(items.map(item => item.proposal_id)))
+    const { data: existing, error } = await this.supabase
+      .from('compliance_items')
+      .select('*')
+      .in('proposal_id', proposalIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const candidates = (existing || []).map(item => ({
+      item,
+      key: item.requirement_key ?? normaliseRequirementKey(item.requirement)
+    }))
+    const nextSortOrder = new Map<string, number>()
+    candidates.forEach(({ item }) => {
+      nextSortOrder.set(item.proposal_id, Math.max(nextSortOrder.get(item.proposal_id) ?? 0, item.sort_order + 1))
+    })
+
+    const inserts: ComplianceItemInsert[] = []
+    const updates = new Map<string, ComplianceItem>()
+
+    items.forEach(item => {
+      const key = item.requirement_key ?? normaliseRequirementKey(item.requirement)
+      const incomingSources = Array.isArray(item.source_references)
+        ? (item.source_references as unknown as ComplianceSourceReference[])
+        : []
+
+      const pending = inserts.find(insert =>
+        insert.proposal_id === item.proposal_id && isDuplicateKey(insert.requirement_key ?? '', key)
+      )
+      if (pending) {
+        pending.source_references = mergeSources(
+          pending.source_references as unknown as ComplianceSourceReference[],
+          incomingSources
+        ) as unknown as Json
+        return
+      }
+
+      const match = candidates.find(candidate =>
+        candidate.item.proposal_id === item.proposal_id && isDuplicateKey(candidate.key, key)
+      )
+      if (match) {
+        const current = updates.get(match.item.id) ?? match.item
+        updates.set(match.item.id, {
+          ...current,
+          source_references: mergeSources(getSourceReferences(current), incomingSources) as unknown as Json,
+          source_document_id: current.source_document_id ?? item.source_document_id ?? null,
+          source_page: current.source_page ?? item.source_page ?? null,
+          source_quote: current.source_quote ?? item.source_quote ?? null,
+          confidence_score: current.source_type === 'auto'
+            ? Math.max(current.confidence_score ?? 0, item.confidence_score ?? 0)
+            : current.confidence_score
+        })
+        return
+      }
+
+      const sortOrder = nextSortOrder.get(item.proposal_id) ?? 0
+      nextSortOrder.set(item.proposal_id, sortOrder + 1)
+      inserts.push({
+        ...item,
+        requirement_key: key,
+        source_references: incomingSources as unknown as Json,
+        sort_order: sortOrder
+      })
+    })
+
+    const merged: ComplianceItem[] = []
+    for (const item of Array.from(updates.values())) {
+      const { data, error: updateError } = await this.supabase
+        .from('compliance_items')
+        .update({
+          source_references: item.source_references,
+          source_document_id: item.source_document_id,
+          source_page: item.source_page,
+          source_quote: item.source_quote,
+          confidence_score: item.confidence_score
+        })
+        .eq('id', item.id)
+        .select()
+        .single()
+
+      if (updateError) {
+        throw new Error(`Database error: ${updateError.message}`)
+      }
+      merged.push(data)
+    }
+
+    let created: ComplianceItem[] = []
+    if (inserts.length > 0) {
+      const { data, error: insertError } = await this.supabase
+        .from('compliance_items')
+        .insert(inserts)
+        .select()
+
+      if (insertError) {
+        throw new Error(`Database error: ${insertError.message}`)
+      }
+      created = data || []
+    }
+
+    return { created, merged }
   }
 
   /**
@@ -68,26 +439,74 @@ export class ComplianceExtractionService {
   }
 
   /**
-   * Check if proposal already has auto-extracted compliance items (stub implementation)
+   * Get the stored documents compliance items were extracted from
    */
-  async hasAutoExtractedItems(_proposalId: string): Promise<boolean> {
-    console.log('Stub: hasAutoExtractedItems called')
-    return false
+  async getSourceDocuments(documentIds: string[]): Promise<ComplianceSourceDocument[]> {
+    if (documentIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('extracted_documents')
+      .select('id, file_name, file_path, file_type')
+      .in('id', documentIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data || []
   }
 
   /**
-   * Remove existing auto-extracted items for a proposal (stub implementation)
+   * Check if proposal already has auto-extracted compliance items
    */
-  async removeAutoExtractedItems(_proposalId: string): Promise<void> {
-    console.log('Stub: removeAutoExtractedItems called')
+  async hasAutoExtractedItems(proposalId: string): Promise<boolean> {
+    const { count, error } = await this.supabase
+      .from('compliance_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('proposal_id', proposalId)
+      .eq('source_type', 'auto')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return (count ?? 0) > 0
+  }
+
+  /**
+   * Remove existing auto-extracted items for a proposal. Items the team has
+   * already completed or annotated are kept so re-extraction merges into them.
+   */
+  async removeAutoExtractedItems(proposalId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('compliance_items')
+      .delete()
+      .eq('proposal_id', proposalId)
+      .eq('source_type', 'auto')
+      .eq('completed', false)
+      .is('notes', null)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
   }
 
   /**
-   * Get the next sort order for manual items (stub implementation)
+   * Get the next sort order for manual items
    */
-  async getNextSortOrder(_proposalId: string): Promise<number> {
-    console.log('Stub: getNextSortOrder called')
-    return 1
+  async getNextSortOrder(proposalId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('compliance_items')
+      .select('sort_order')
+      .eq('proposal_id', proposalId)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data && data.length > 0 ? data[0].sort_order + 1 : 0
   }
 
   /**
@@ -105,7 +524,7 @@ export class ComplianceExtractionService {
         source_type: 'manual',
         completed: false,
         notes,
-        sort_order: 1,
+        sort_order: await this.getNextSortOrder(proposalId),
       }
 
       const { data, error } = await this.supabase
@@ -122,7 +541,7 @@ export class ComplianceExtractionService {
     } catch (error) {
       console.error('Error adding manual compliance item:', error)
       throw new Error(
-        error instanceof Error 
+        error instanceof Error
           ? `Failed to add manual item: ${error.message}`
           : 'Failed to add manual compliance item'
       )
@@ -156,7 +575,7 @@ export class ComplianceExtractionService {
     } catch (error) {
       console.error('Error updating compliance item:', error)
       throw new Error(
-        error instanceof Error 
+        error instanceof Error
           ? `Failed to update compliance item: ${error.message}`
           : 'Failed to update compliance item'
       )
@@ -179,7 +598,7 @@ export class ComplianceExtractionService {
     } catch (error) {
       console.error('Error deleting compliance item:', error)
       throw new Error(
-        error instanceof Error 
+        error instanceof Error
           ? `Failed to delete compliance item: ${error.message}`
           : 'Failed to delete compliance item'
       )
@@ -187,50 +606,99 @@ export class ComplianceExtractionService {
   }
 
   /**
-   * Reorder compliance items (stub implementation)
+   * Reorder compliance items
    */
-  async reorderItems(_proposalId: string, _itemIds: string[]): Promise<void> {
-    console.log('Stub: reorderItems called')
+  async reorderItems(proposalId: string, itemIds: string[]): Promise<void> {
+    const { error } = await this.supabase.rpc('reorder_compliance_items', {
+      p_proposal_id: proposalId,
+      p_item_ids: itemIds,
+      p_new_orders: itemIds.map((_, index) => index)
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
   }
 
   /**
-   * Extract and populate compliance requirements (stub implementation)
+   * Extract and populate compliance requirements from a single document
    */
   async extractAndPopulateCompliance(
-    _proposalId: string,
-    _documentText: string,
-    _documentName?: string,
-    _sourceDocumentId?: string,
-    _replaceExisting = false
-  ): Promise<{
-    success: boolean
-    itemsCreated: number
-    itemsSkipped: number
-    error?: string
-  }> {
-    console.log('Stub: extractAndPopulateCompliance called')
-    return {
-      success: true,
-      itemsCreated: 0,
-      itemsSkipped: 0
+    proposalId: string,
+    documentText: string,
+    documentName?: string,
+    sourceDocumentId?: string,
+    replaceExisting = false,
+    pageTexts?: string[]
+  ): Promise<ComplianceExtractionSummary> {
+    return this.extractFromDocuments(
+      proposalId,
+      [{ documentId: sourceDocumentId, documentName, text: documentText, pageTexts }],
+      replaceExisting
+    )
+  }
+
+  /**
+   * Extract and populate compliance requirements from several documents,
+   * merging requirements that appear in more than one of them
+   */
+  async extractFromDocuments(
+    proposalId: string,
+    documents: ComplianceSourceText[],
+    replaceExisting = false
+  ): Promise<ComplianceExtractionSummary> {
+    try {
+      if (replaceExisting) {
+        await this.removeAutoExtractedItems(proposalId)
+      }
+
+      const results = extractComplianceRequirements(documents)
+      const { created, merged } = await this.upsertComplianceItems(
+        this.transformToComplianceItems(results, proposalId)
+      )
+
+      return {
+        success: true,
+        itemsCreated: created.length,
+        itemsSkipped: merged.length
+      }
+    } catch (error) {
+      console.error('Error extracting compliance requirements:', error)
+      return {
+        success: false,
+        itemsCreated: 0,
+        itemsSkipped: 0,
+        error: error instanceof Error ? error.message : 'Failed to extract compliance requirements'
+      }
     }
   }
 
   /**
-   * Get compliance statistics (stub implementation)
+   * Get compliance statistics
    */
-  async getComplianceStatistics(_proposalId: string) {
-    console.log('Stub: getComplianceStatistics called')
+  async getComplianceStatistics(proposalId: string) {
+    const { data, error } = await this.supabase.rpc('get_compliance_statistics', {
+      p_proposal_id: proposalId
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const stats = data?.[0]
+    const total = stats?.total_items ?? 0
+    const completed = stats?.completed_items ?? 0
+
     return {
-      total: 0,
-      completed: 0,
-      pending: 0,
-      completionRate: 0,
-      autoExtracted: 0,
-      manual: 0
+      total,
+      completed,
+      pending: total - completed,
+      completionRate: Number(stats?.completion_percentage ?? 0),
+      autoExtracted: stats?.auto_items ?? 0,
+      manual: stats?.manual_items ?? 0
     }
   }
 }
 
 // Export singleton instance
-export const complianceExtractionService = new ComplianceExtractionService() 
\ No newline at end of file
+export const complianceExtractionService = new ComplianceExtractionService()
@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf'
 import { ComplianceItem } from '@/lib/database.types'
 import { complianceExtractionService } from './compliance-extraction'
+import { complianceCoverageService, type ComplianceCoverageMatrix } from './compliance-coverage'
 
 // Types for compliance PDF generation
 export interface CompliancePDFOptions {
@@ -11,6 +12,8 @@ export interface CompliancePDFOptions {
   includeNotes?: boolean
   includeConfidenceScores?: boolean
   includeSourcePages?: boolean
+  // List requirements no drafted response addresses (on by default)
+  includeCoverageGaps?: boolean
   pageFormat?: 'a4' | 'letter'
   orientation?: 'portrait' | 'landscape'
   watermark?: string
@@ -31,6 +34,9 @@ export interface CompliancePDFResult {
     autoItems: number
     manualItems: number
     completionPercentage: number
+    coveredItems: number
+    weakItems: number
+    uncoveredItems: number
   }
 }
 
@@ -94,6 +100,13 @@ export class CompliancePDFGenerator {
         this.addComplianceItems(filteredItems, options)
       }
 
+      // Add requirements no drafted response addresses
+      if (options.includeCoverageGaps !== false && statistics.uncoveredItems + statistics.weakItems > 0) {
+        const coverage = await complianceCoverageService.getCoverageMatrix(proposalId)
+        this.addNewPage()
+        this.addCoverageGaps(items, coverage)
+      }
+
       // Add watermark if specified
       if (options.watermark) {
         this.addWatermark(options.watermark)
@@ -128,7 +141,10 @@ export class CompliancePDFGenerator {
           pendingItems: 0,
           autoItems: 0,
           manualItems: 0,
-          completionPercentage: 0
+          completionPercentage: 0,
+          coveredItems: 0,
+          weakItems: 0,
+          uncoveredItems: 0
         }
       }
     }
@@ -180,6 +196,20 @@ export class CompliancePDFGenerator {
     this.currentY = 100
     this.addStatisticsBox(statistics, false)
 
+    // Coverage warning
+    if (options.includeCoverageGaps !== false && statistics.uncoveredItems + statistics.weakItems > 0) {
+      this.pdf.setFontSize(12)
+      this.pdf.setFont('helvetica', 'bold')
+      this.pdf.setTextColor(239, 68, 68)
+      this.pdf.text(
+        `Coverage gaps: ${statistics.uncoveredItems} not addressed, ${statistics.weakItems} weakly addressed`,
+        centerX,
+        this.currentY,
+        { align: 'center' }
+      )
+      this.pdf.setTextColor(0, 0, 0)
+    }
+
     // Generation date
     this.currentY = this.pageHeight - 40
     this.pdf.setFontSize(10)
@@ -406,6 +436,86 @@ export class CompliancePDFGenerator {
     this.currentY += 5
   }
 
+  /**
+   * Add requirements that no drafted response addresses, then weakly
+   * addressed ones with the responses that partly cover them
+   */
+  private addCoverageGaps(items: ComplianceItem[], coverage: ComplianceCoverageMatrix): void {
+    const contentWidth = this.pageWidth - (this.margins.left + this.margins.right)
+    const titles = new Map(coverage.responses.map(response => [`${response.type}:${response.id}`, response.title]))
+
+    this.currentY = 30
+    this.pdf.setFontSize(18)
+    this.pdf.setFont('helvetica', 'bold')
+    this.pdf.text('Coverage Gaps', this.margins.left, this.currentY)
+    this.currentY += 8
+
+    this.pdf.setFontSize(10)
+    this.pdf.setFont('helvetica', 'normal')
+    this.pdf.setTextColor(100, 100, 100)
+    this.pdf.text(
+      'Requirements that no drafted response mentions, or that are only weakly addressed.',
+      this.margins.left,
+      this.currentY
+    )
+    this.pdf.setTextColor(0, 0, 0)
+    this.currentY += 12
+
+    const groups: { title: string; status: string; color: [number, number, number] }[] = [
+      { title: 'Not Addressed', status: 'uncovered', color: [239, 68, 68] },
+      { title: 'Weakly Addressed', status: 'weak', color: [234, 179, 8] }
+    ]
+
+    groups.forEach(group => {
+      const groupItems = items.filter(item => item.coverage_status === group.status)
+      if (groupItems.length === 0) return
+
+      this.checkPageBreak(20)
+      this.pdf.setFontSize(14)
+      this.pdf.setFont('helvetica', 'bold')
+      this.pdf.setTextColor(group.color[0], group.color[1], group.color[2])
+      this.pdf.text(`${group.title} (${groupItems.length})`, this.margins.left, this.currentY)
+      this.pdf.setTextColor(0, 0, 0)
+      this.currentY += 10
+
+      groupItems.forEach((item, index) => {
+        this.checkPageBreak(20)
+
+        this.pdf.setFontSize(11)
+        this.pdf.setFont('helvetica', 'normal')
+        const requirementText = this.pdf.splitTextToSize(`${index + 1}. ${item.requirement}`, contentWidth - 5)
+        requirementText.forEach((line: string, lineIndex: number) => {
+          this.pdf.text(line, this.margins.left + 5, this.currentY + (lineIndex * 5))
+        })
+        this.currentY += requirementText.length * 5 + 2
+
+        const row = coverage.rows.find(candidate => candidate.itemId === item.id)
+        const partial = row
+          ? Object.keys(row.cells).map(key => titles.get(key)).filter(Boolean)
+          : []
+
+        const details: string[] = []
+        if (item.source_page !== null) details.push(`Source page ${item.source_page}`)
+        if (partial.length > 0) details.push(`Partly covered by: ${partial.join(', ')}`)
+
+        if (details.length > 0) {
+          this.pdf.setFontSize(9)
+          this.pdf.setTextColor(120, 120, 120)
+          const detailText = this.pdf.splitTextToSize(details.join(' • '), contentWidth - 10)
+          detailText.forEach((line: string, lineIndex: number) => {
+            this.pdf.text(line, this.margins.left + 10, this.currentY + (lineIndex * 4))
+          })
+          this.currentY += detailText.length * 4
+          this.pdf.setTextColor(0, 0, 0)
+        }
+
+        this.currentY += 5
+      })
+
+      this.currentY += 5
+    })
+  }
+
   /**
    * Check if we need a page break
    */
@@ -485,6 +595,9 @@ export class CompliancePDFGenerator {
     const autoItems = items.filter(item => item.source_type === 'auto').length
     const manualItems = items.filter(item => item.source_type === 'manual').length
     const completionPercentage = totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0
+    const coveredItems = items.filter(item => item.coverage_status === 'covered').length
+    const weakItems = items.filter(item => item.coverage_status === 'weak').length
+    const uncoveredItems = items.filter(item => item.coverage_status === 'uncovered').length
 
     return {
       totalItems,
@@ -492,7 +605,10 @@ export class CompliancePDFGenerator {
       pendingItems,
       autoItems,
       manualItems,
-      completionPercentage
+      completionPercentage,
+      coveredItems,
+      weakItems,
+      uncoveredItems
     }
   }
 
@@ -3,6 +3,8 @@ import mammoth from 'mammoth'
 
 export interface ExtractedText {
   content: string
+  // Text of each page, in order, when the format has pages (PDF)
+  pageTexts?: string[]
   metadata: {
     pages?: number
     wordCount: number
@@ -11,46 +13,64 @@ export interface ExtractedText {
   }
 }
 
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain'
+}
+
+/**
+ * Server-side text extraction for uploaded documents.
+ * Works on Node buffers, unlike lib/text-extraction.ts which needs the browser.
+ */
 export class DocumentExtractionService {
   /**
    * Extract text content from various document formats
    */
   static async extractText(file: File): Promise<ExtractedText> {
-    const fileType = file.type.toLowerCase()
-    const fileName = file.name
-    
+    const buffer = Buffer.from(await file.arrayBuffer())
+    return this.extractFromBuffer(buffer, file.name, file.type)
+  }
+
+  /**
+   * Extract text content from a buffer, e.g. a file downloaded from storage
+   */
+  static async extractFromBuffer(buffer: Buffer, fileName: string, mimeType?: string): Promise<ExtractedText> {
+    const fileType = this.resolveFileType(fileName, mimeType)
+
     try {
-      let content: string = ''
-      let metadata: any = {
-        fileName,
-        fileType,
-        wordCount: 0
-      }
+      let content = ''
+      let pageTexts: string[] | undefined
 
       switch (fileType) {
         case 'application/pdf':
-          content = await this.extractFromPDF(file)
+          pageTexts = await this.extractPagesFromPDF(buffer)
+          content = pageTexts.join('\n\n')
           break
-          
+
         case 'application/msword':
         case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
-          content = await this.extractFromWord(file)
+          content = await this.extractFromWord(buffer)
           break
-          
+
         case 'text/plain':
-          content = await this.extractFromText(file)
+          content = buffer.toString('utf-8')
           break
-          
+
         default:
           throw new Error(`Unsupported file type: ${fileType}`)
       }
 
-      // Calculate word count
-      metadata.wordCount = content.split(/\s+/).filter(word => word.length > 0).length
-
       return {
         content: content.trim(),
-        metadata
+        pageTexts,
+        metadata: {
+          fileName,
+          fileType,
+          pages: pageTexts?.length,
+          wordCount: content.split(/\s+/).filter(word => word.length > 0).length
+        }
       }
     } catch (error) {
       console.error('Document extraction error:', error)
@@ -59,14 +79,47 @@ export class DocumentExtractionService {
   }
 
   /**
-   * Extract text from PDF files
+   * Use the declared MIME type, falling back to the file extension when the
+   * upload did not carry a useful one
+   */
+  static resolveFileType(fileName: string, mimeType?: string): string {
+    const declared = mimeType?.toLowerCase()
+    if (declared && declared !== 'application/octet-stream') {
+      return declared
+    }
+
+    const extension = fileName.toLowerCase().split('.').pop() || ''
+    return MIME_TYPES_BY_EXTENSION[extension] || declared || 'application/octet-stream'
+  }
+
+  /**
+   * Extract text from PDF files, one entry per page
    */
-  private static async extractFromPDF(file: File): Promise<string> {
+  private static async extractPagesFromPDF(buffer: Buffer): Promise<string[]> {
     try {
-      const arrayBuffer = await file.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
-      const data = await pdfParse(buffer)
-      return data.text
+      const pages: string[] = []
+
+      await pdfParse(buffer, {
+        // pdf-parse renders pages sequentially, so push order is page order
+        pagerender: async (pageData: {
+          getTextContent: () => Promise<{ items: Array<{ str: string; transform: number[] }> }>
+        }) => {
+          const textContent = await pageData.getTextContent()
+          let lastY: number | undefined
+          let text = ''
+
+          for (const item of textContent.items) {
+            const y = item.transform[5]
+            text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`
+            lastY = y
+          }
+
+          pages.push(text)
+          return text
+        }
+      })
+
+      return pages
     } catch (error) {
       console.error('PDF extraction error:', error)
       throw new Error('Failed to extract text from PDF file')
@@ -76,10 +129,8 @@ export class DocumentExtractionService {
   /**
    * Extract text from Word documents (DOC/DOCX)
    */
-  private static async extractFromWord(file: File): Promise<string> {
+  private static async extractFromWord(buffer: Buffer): Promise<string> {
     try {
-      const arrayBuffer = await file.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
       const result = await mammoth.extractRawText({ buffer })
       return result.value
     } catch (error) {
@@ -88,18 +139,6 @@ export class DocumentExtractionService {
     }
   }
 
-  /**
-   * Extract text from plain text files
-   */
-  private static async extractFromText(file: File): Promise<string> {
-    try {
-      return await file.text()
-    } catch (error) {
-      console.error('Text extraction error:', error)
-      throw new Error('Failed to read text file')
-    }
-  }
-
   /**
    * Clean and prepare text for AI processing
    */
@@ -1,22 +1,34 @@
-// Stub implementation for document storage service
-// This is a placeholder until the exported_documents table is added to the database
+/**
+ * Document Storage Service
+ * Stores every export in the exports bucket with a version number per
+ * proposal, so the exact file that was submitted can be downloaded again,
+ * and manages expiring share links with an access log
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { EXPORT_CONFIG, MIME_TYPES } from '@/lib/config/export.config'
+import type { DocumentShare, ExportedDocument, Json } from '@/lib/database.types'
+
+export type StoredExportFormat = keyof typeof MIME_TYPES
 
 export interface ExportedDocumentMetadata {
   id: string
   filename: string
   originalTitle: string
-  exportFormat: 'pdf' | 'docx' | 'txt'
+  exportFormat: StoredExportFormat
   organizationId: string
   proposalId?: string
-  sectionId?: string
   userId: string
   filePath: string
   fileSize: number
+  version: number
+  contentHash?: string
   downloadCount: number
-  lastDownloaded?: string
   expiresAt?: string
   isPublic: boolean
-  shareToken?: string
+  metadata: Record<string, unknown>
   createdAt: string
   updatedAt: string
 }
@@ -24,11 +36,11 @@ export interface ExportedDocumentMetadata {
 export interface DocumentUploadOptions {
   filename: string
   originalTitle: string
-  exportFormat: 'pdf' | 'docx' | 'txt'
+  exportFormat: StoredExportFormat
   proposalId?: string
-  sectionId?: string
   isPublic?: boolean
   expiresAt?: Date
+  metadata?: Record<string, unknown>
 }
 
 export interface DocumentDownloadResult {
@@ -38,140 +50,671 @@ export interface DocumentDownloadResult {
   error?: string
 }
 
+export interface ShareLinkOptions {
+  expiresAt: Date
+  allowDownload?: boolean
+  requireAuthentication?: boolean
+  maxDownloads?: number
+  customMessage?: string
+  notifyOnAccess?: boolean
+}
+
+export interface DocumentShareLink {
+  id: string
+  documentId: string
+  shareToken: string
+  shareUrl: string
+  sharedBy: string
+  expiresAt: string
+  allowDownload: boolean
+  requireAuthentication: boolean
+  maxDownloads?: number
+  downloadCount: number
+  customMessage?: string
+  revokedAt?: string
+  createdAt: string
+}
+
+/**
+ * Who is using a share link. userId is set when the visitor is signed in.
+ */
+export interface ShareAccessContext {
+  download?: boolean
+  userId?: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export type ShareAccessDenial =
+  | 'not_found'
+  | 'revoked'
+  | 'expired'
+  | 'authentication_required'
+  | 'download_not_allowed'
+  | 'download_limit_reached'
+
+export interface SharedDocumentResult {
+  success: boolean
+  document?: Pick<ExportedDocumentMetadata, 'filename' | 'originalTitle' | 'exportFormat' | 'fileSize' | 'version' | 'createdAt'>
+  share?: Pick<DocumentShareLink, 'expiresAt' | 'allowDownload' | 'customMessage'>
+  url?: string
+  error?: string
+  reason?: ShareAccessDenial
+}
+
+type AccessType = 'download' | 'view' | 'share' | 'delete' | 'create'
+
+const SHARE_DENIAL_MESSAGES: Record<ShareAccessDenial, string> = {
+  not_found: 'This share link does not exist',
+  revoked: 'This share link has been revoked',
+  expired: 'This share link has expired',
+  authentication_required: 'Sign in to access this document',
+  download_not_allowed: 'Downloads are not allowed for this share link',
+  download_limit_reached: 'This share link has reached its download limit'
+}
+
+// HTTP status for each refusal, shared by the share link API routes
+export const SHARE_DENIAL_STATUS: Record<ShareAccessDenial, number> = {
+  not_found: 404,
+  revoked: 410,
+  expired: 410,
+  authentication_required: 401,
+  download_not_allowed: 403,
+  download_limit_reached: 403
+}
+
+// Signed URLs only need to live long enough for the browser to follow the redirect
+const SHARE_DOWNLOAD_URL_TTL_SECONDS = 60
+const MAX_VERSION_ATTEMPTS = 3
+
+/**
+ * Storage path for an export: the uploader's folder first (required by the
+ * exports bucket policies), then the proposal, then the versioned filename
+ */
+export function buildExportStoragePath(userId: string, proposalId: string | undefined, version: number, filename: string): string {
+  const safeFilename = filename.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'export'
+  return `${userId}/${proposalId ?? 'unassigned'}/v${version}-${safeFilename}`
+}
+
+/**
+ * Generate an unguessable, URL-safe share token
+ */
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Build the public URL for a share token
+ */
+export function buildShareUrl(shareToken: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://caredraft.co.uk'
+  return `${baseUrl.replace(/\/+$/, '')}/shared/${shareToken}`
+}
+
+/**
+ * Read the client IP address and user agent of a request for the access log
+ */
+export function accessContextFromHeaders(headers: Headers): Pick<ShareAccessContext, 'ipAddress' | 'userAgent'> {
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return {
+    ipAddress: forwardedFor || headers.get('x-real-ip') || undefined,
+    userAgent: headers.get('user-agent') || undefined
+  }
+}
+
+/**
+ * Decide whether a share link may be used. Returns the reason for refusing,
+ * or null when access is allowed.
+ */
+export function evaluateShareAccess(
+  share: Pick<DocumentShare, 'expires_at' | 'revoked_at' | 'allow_download' | 'require_authentication' | 'max_downloads' | 'download_count'>,
+  access: Pick<ShareAccessContext, 'download' | 'userId'>,
+  now: Date = new Date()
+): ShareAccessDenial | null {
+  if (share.revoked_at) return 'revoked'
+  if (new Date(share.expires_at).getTime() <= now.getTime()) return 'expired'
+  if (share.require_authentication && !access.userId) return 'authentication_required'
+
+  if (access.download) {
+    if (share.allow_download === false) return 'download_not_allowed'
+    if (share.max_downloads != null && (share.download_count ?? 0) >= share.max_downloads) {
+      return 'download_limit_reached'
+    }
+  }
+
+  return null
+}
+
+function toDocumentMetadata(row: ExportedDocument): ExportedDocumentMetadata {
+  return {
+    id: row.id,
+    filename: row.filename,
+    originalTitle: row.original_title,
+    exportFormat: row.export_format as StoredExportFormat,
+    organizationId: row.organization_id,
+    proposalId: row.proposal_id ?? undefined,
+    userId: row.user_id,
+    filePath: row.file_path,
+    fileSize: row.file_size,
+    version: row.version ?? 1,
+    contentHash: row.content_hash ?? undefined,
+    downloadCount: row.download_count ?? 0,
+    expiresAt: row.expires_at ?? undefined,
+    isPublic: row.is_public ?? false,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? {},
+    createdAt: row.created_at ?? '',
+    updatedAt: row.updated_at ?? ''
+  }
+}
+
+function toShareLink(row: DocumentShare): DocumentShareLink {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    shareToken: row.share_token ?? '',
+    shareUrl: row.share_token ? buildShareUrl(row.share_token) : '',
+    sharedBy: row.shared_by,
+    expiresAt: row.expires_at,
+    allowDownload: row.allow_download ?? true,
+    requireAuthentication: row.require_authentication ?? false,
+    maxDownloads: row.max_downloads ?? undefined,
+    downloadCount: row.download_count ?? 0,
+    customMessage: row.custom_message ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+    createdAt: row.created_at ?? ''
+  }
+}
+
 export class DocumentStorageService {
+  private readonly bucket = EXPORT_CONFIG.STORAGE.BUCKET_NAME
+
+  /**
+   * @param supabase client for table access, scoped to the signed-in user
+   * @param storage client for the exports bucket. Pass an admin client on the
+   *   server so colleagues and share links can read files another user exported.
+   */
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private storage: SupabaseClient = supabase
+  ) {}
+
   /**
-   * Upload and store an exported document (stub implementation)
+   * Upload an exported document and record it as the next version of its proposal
    */
   async storeExportedDocument(
-    _fileBuffer: Buffer,
-    _options: DocumentUploadOptions
+    fileBuffer: Buffer,
+    options: DocumentUploadOptions
   ): Promise<ExportedDocumentMetadata> {
-    console.log('Stub: storeExportedDocument called')
-    return {
-      id: 'stub-doc-id',
-      filename: 'stub-document.pdf',
-      originalTitle: 'Stub Document',
-      exportFormat: 'pdf',
-      organizationId: 'stub-org-id',
-      userId: 'stub-user-id',
-      filePath: 'stub/path/document.pdf',
-      fileSize: 1024,
-      downloadCount: 0,
-      isPublic: false,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    const { data: profile, error: profileError } = await this.supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile) {
+      throw new Error(`Database error: ${profileError?.message ?? 'user profile not found'}`)
+    }
+
+    const contentHash = createHash('sha256').update(fileBuffer).digest('hex')
+
+    for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+      const version = await this.getNextVersion(options.proposalId)
+      const filePath = buildExportStoragePath(user.id, options.proposalId, version, options.filename)
+
+      const { error: uploadError } = await this.storage.storage
+        .from(this.bucket)
+        .upload(filePath, fileBuffer, {
+          contentType: MIME_TYPES[options.exportFormat],
+          upsert: false
+        })
+
+      if (uploadError) {
+        throw new Error(`Storage error: ${uploadError.message}`)
+      }
+
+      const { data, error } = await this.supabase
+        .from('exported_documents')
+        .insert({
+          filename: options.filename,
+          original_title: options.originalTitle,
+          export_format: options.exportFormat,
+          organization_id: profile.organization_id,
+          user_id: user.id,
+          proposal_id: options.proposalId ?? null,
+          file_size: fileBuffer.length,
+          file_path: filePath,
+          version,
+          content_hash: contentHash,
+          metadata: (options.metadata ?? {}) as Json,
+          is_public: options.isPublic ?? false,
+          expires_at: options.expiresAt?.toISOString() ?? null
+        })
+        .select()
+        .single()
+
+      if (!error) {
+        const document = toDocumentMetadata(data as ExportedDocument)
+        await this.logAccess(document.id, 'create', { userId: user.id })
+        return document
+      }
+
+      // Don't leave an orphaned file behind when the row could not be written
+      await this.storage.storage.from(this.bucket).remove([filePath])
+
+      // Another export took this version number first; allocate the next one
+      if (error.code !== '23505' || attempt === MAX_VERSION_ATTEMPTS) {
+        throw new Error(`Database error: ${error.message}`)
+      }
     }
+
+    throw new Error('Could not allocate an export version')
   }
 
   /**
-   * Get document metadata by ID (stub implementation)
+   * Get document metadata by ID
    */
-  async getDocumentMetadata(_documentId: string): Promise<ExportedDocumentMetadata | null> {
-    console.log('Stub: getDocumentMetadata called')
-    return null
+  async getDocumentMetadata(documentId: string): Promise<ExportedDocumentMetadata | null> {
+    const { data, error } = await this.supabase
+      .from('exported_documents')
+      .select('*')
+      .eq('id', documentId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data ? toDocumentMetadata(data as ExportedDocument) : null
   }
 
   /**
-   * Generate download URL for a document (stub implementation)
+   * Generate a signed download URL for a stored export and log the download
    */
   async generateDownloadUrl(
-    _documentId: string,
-    _expiresIn: number = 3600
+    documentId: string,
+    expiresIn: number = 3600,
+    access: Omit<ShareAccessContext, 'download'> = {}
   ): Promise<DocumentDownloadResult> {
-    console.log('Stub: generateDownloadUrl called')
-    return {
-      success: false,
-      error: 'Document storage service is not implemented'
+    const document = await this.getDocumentMetadata(documentId)
+    if (!document) {
+      return { success: false, error: 'Document not found' }
     }
+
+    const url = await this.createSignedUrl(document, expiresIn)
+    if (!url) {
+      await this.logAccess(document.id, 'download', { ...access, success: false, errorMessage: 'Could not sign download URL' })
+      return { success: false, error: 'Could not create download link' }
+    }
+
+    await this.recordDownload(document.id)
+    await this.logAccess(document.id, 'download', access)
+
+    return { success: true, url, filename: document.filename }
   }
 
   /**
-   * Delete a stored document (stub implementation)
+   * Delete a stored export and its file
    */
-  async deleteDocument(_documentId: string): Promise<boolean> {
-    console.log('Stub: deleteDocument called')
+  async deleteDocument(documentId: string): Promise<boolean> {
+    const document = await this.getDocumentMetadata(documentId)
+    if (!document) return false
+
+    const { error: storageError } = await this.storage.storage.from(this.bucket).remove([document.filePath])
+    if (storageError) {
+      throw new Error(`Storage error: ${storageError.message}`)
+    }
+
+    const { error } = await this.supabase
+      .from('exported_documents')
+      .delete()
+      .eq('id', documentId)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
     return true
   }
 
   /**
-   * List documents for an organization (stub implementation)
+   * List exports for an organization, newest first
    */
   async listOrganizationDocuments(
-    _organizationId: string,
-    _limit: number = 50,
-    _offset: number = 0
+    organizationId: string,
+    limit: number = 50,
+    offset: number = 0
   ): Promise<ExportedDocumentMetadata[]> {
-    console.log('Stub: listOrganizationDocuments called')
-    return []
+    const { data, error } = await this.supabase
+      .from('exported_documents')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as ExportedDocument[]).map(toDocumentMetadata)
   }
 
   /**
-   * List documents for a proposal (stub implementation)
+   * List the export history of a proposal, latest version first
    */
-  async listProposalDocuments(_proposalId: string): Promise<ExportedDocumentMetadata[]> {
-    console.log('Stub: listProposalDocuments called')
-    return []
+  async listProposalDocuments(proposalId: string): Promise<ExportedDocumentMetadata[]> {
+    const { data, error } = await this.supabase
+      .from('exported_documents')
+      .select('*')
+      .eq('proposal_id', proposalId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as ExportedDocument[]).map(toDocumentMetadata)
   }
 
   /**
-   * Update document metadata (stub implementation)
+   * Update the editable fields of a stored export. The file, version and
+   * hash never change, so history stays a faithful record of what was sent.
    */
   async updateDocumentMetadata(
-    _documentId: string,
-    _updates: Partial<ExportedDocumentMetadata>
+    documentId: string,
+    updates: Partial<Pick<ExportedDocumentMetadata, 'originalTitle' | 'isPublic' | 'expiresAt' | 'metadata'>>
   ): Promise<ExportedDocumentMetadata | null> {
-    console.log('Stub: updateDocumentMetadata called')
-    return null
+    const { data, error } = await this.supabase
+      .from('exported_documents')
+      .update({
+        ...(updates.originalTitle !== undefined && { original_title: updates.originalTitle }),
+        ...(updates.isPublic !== undefined && { is_public: updates.isPublic }),
+        ...(updates.expiresAt !== undefined && { expires_at: updates.expiresAt }),
+        ...(updates.metadata !== undefined && { metadata: updates.metadata as Json })
+      })
+      .eq('id', documentId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data ? toDocumentMetadata(data as ExportedDocument) : null
   }
 
   /**
-   * Generate public share link (stub implementation)
+   * Create an expiring share link for a stored export
    */
-  async generateShareLink(
-    _documentId: string,
-    _expiresAt?: Date
-  ): Promise<{ shareToken: string; shareUrl: string } | null> {
-    console.log('Stub: generateShareLink called')
-    return null
+  async generateShareLink(documentId: string, options: ShareLinkOptions): Promise<DocumentShareLink> {
+    const { data: { user } } = await this.supabase.auth.getUser()
+    if (!user) {
+      throw new Error('User not authenticated')
+    }
+
+    if (options.expiresAt.getTime() <= Date.now()) {
+      throw new Error('Share link expiry must be in the future')
+    }
+
+    const { data, error } = await this.supabase
+      .from('document_shares')
+      .insert({
+        document_id: documentId,
+        shared_by: user.id,
+        share_token: generateShareToken(),
+        expires_at: options.expiresAt.toISOString(),
+        allow_download: options.allowDownload ?? true,
+        require_authentication: options.requireAuthentication ?? false,
+        max_downloads: options.maxDownloads ?? null,
+        custom_message: options.customMessage ?? null,
+        notify_on_access: options.notifyOnAccess ?? false
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const share = toShareLink(data as DocumentShare)
+    await this.logAccess(documentId, 'share', { userId: user.id, shareId: share.id })
+    return share
   }
 
   /**
-   * Access document via share token (stub implementation)
+   * List the share links of a stored export, newest first
    */
-  async getDocumentByShareToken(_shareToken: string): Promise<DocumentDownloadResult> {
-    console.log('Stub: getDocumentByShareToken called')
-    return {
-      success: false,
-      error: 'Document storage service is not implemented'
+  async listShareLinks(documentId: string): Promise<DocumentShareLink[]> {
+    const { data, error } = await this.supabase
+      .from('document_shares')
+      .select('*')
+      .eq('document_id', documentId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as DocumentShare[]).map(toShareLink)
+  }
+
+  /**
+   * Revoke a share link so it stops working immediately
+   */
+  async revokeShareLink(shareId: string): Promise<DocumentShareLink | null> {
+    const { data, error } = await this.supabase
+      .from('document_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', shareId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data ? toShareLink(data as DocumentShare) : null
+  }
+
+  /**
+   * Resolve a share token for a visitor. Every attempt is logged against the
+   * share, including refused ones. Use an admin client: visitors are usually
+   * not members of the organization that owns the document.
+   */
+  async getDocumentByShareToken(shareToken: string, access: ShareAccessContext = {}): Promise<SharedDocumentResult> {
+    const { data: share, error } = await this.supabase
+      .from('document_shares')
+      .select('*, exported_documents(*)')
+      .eq('share_token', shareToken)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const row = share as (DocumentShare & { exported_documents: ExportedDocument | null }) | null
+    if (!row || !row.exported_documents) {
+      return { success: false, reason: 'not_found', error: SHARE_DENIAL_MESSAGES.not_found }
+    }
+
+    const document = toDocumentMetadata(row.exported_documents)
+    const accessType: AccessType = access.download ? 'download' : 'view'
+    const logContext = { userId: access.userId, shareId: row.id, ipAddress: access.ipAddress, userAgent: access.userAgent }
+
+    const denial = evaluateShareAccess(row, access)
+    if (denial) {
+      await this.logAccess(document.id, accessType, { ...logContext, success: false, errorMessage: denial })
+      return { success: false, reason: denial, error: SHARE_DENIAL_MESSAGES[denial] }
+    }
+
+    const result: SharedDocumentResult = {
+      success: true,
+      document: {
+        filename: document.filename,
+        originalTitle: document.originalTitle,
+        exportFormat: document.exportFormat,
+        fileSize: document.fileSize,
+        version: document.version,
+        createdAt: document.createdAt
+      },
+      share: {
+        expiresAt: row.expires_at,
+        allowDownload: row.allow_download ?? true,
+        customMessage: row.custom_message ?? undefined
+      }
+    }
+
+    if (access.download) {
+      const url = await this.createSignedUrl(document, SHARE_DOWNLOAD_URL_TTL_SECONDS)
+      if (!url) {
+        await this.logAccess(document.id, accessType, { ...logContext, success: false, errorMessage: 'Could not sign download URL' })
+        return { success: false, error: 'Could not create download link' }
+      }
+      result.url = url
+      await this.recordDownload(document.id, row.id)
     }
+
+    await this.logAccess(document.id, accessType, logContext)
+    return result
   }
 
   /**
-   * Clean up expired documents (stub implementation)
+   * Remove expired exports from storage and the database. Returns the number
+   * of documents removed.
    */
   async cleanupExpiredDocuments(): Promise<number> {
-    console.log('Stub: cleanupExpiredDocuments called')
-    return 0
+    const { data: expired, error } = await this.supabase
+      .from('exported_documents')
+      .select('file_path')
+      .lt('expires_at', new Date().toISOString())
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const paths = (expired || []).map(row => row.file_path as string)
+    if (paths.length > 0) {
+      const { error: storageError } = await this.storage.storage.from(this.bucket).remove(paths)
+      if (storageError) {
+        throw new Error(`Storage error: ${storageError.message}`)
+      }
+    }
+
+    const { data: deleted, error: cleanupError } = await this.supabase.rpc('cleanup_expired_documents')
+    if (cleanupError) {
+      throw new Error(`Database error: ${cleanupError.message}`)
+    }
+
+    return (deleted as number | null) ?? 0
   }
 
   /**
-   * Get storage statistics (stub implementation)
+   * Get storage statistics for an organization
    */
-  async getStorageStatistics(_organizationId: string): Promise<{
+  async getStorageStatistics(organizationId: string): Promise<{
     totalDocuments: number
     totalSize: number
     totalDownloads: number
     documentsThisMonth: number
   }> {
-    console.log('Stub: getStorageStatistics called')
+    const { data, error } = await this.supabase
+      .from('exported_documents')
+      .select('file_size, download_count, created_at')
+      .eq('organization_id', organizationId)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const rows = (data || []) as Pick<ExportedDocument, 'file_size' | 'download_count' | 'created_at'>[]
+    const now = new Date()
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+
     return {
-      totalDocuments: 0,
-      totalSize: 0,
-      totalDownloads: 0,
-      documentsThisMonth: 0
+      totalDocuments: rows.length,
+      totalSize: rows.reduce((sum, row) => sum + (row.file_size ?? 0), 0),
+      totalDownloads: rows.reduce((sum, row) => sum + (row.download_count ?? 0), 0),
+      documentsThisMonth: rows.filter(row => row.created_at && new Date(row.created_at).getTime() >= monthStart).length
+    }
+  }
+
+  /**
+   * Next version number for a proposal's exports. Exports without a
+   * proposal are always version 1.
+   */
+  private async getNextVersion(proposalId?: string): Promise<number> {
+    if (!proposalId) return 1
+
+    const { data, error } = await this.supabase
+      .from('exported_documents')
+      .select('version')
+      .eq('proposal_id', proposalId)
+      .order('version', { ascending: false })
+      .limit(1)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data?.[0]?.version as number | null) ?? 0) + 1
+  }
+
+  private async createSignedUrl(document: ExportedDocumentMetadata, expiresIn: number): Promise<string | null> {
+    const { data, error } = await this.storage.storage
+      .from(this.bucket)
+      .createSignedUrl(document.filePath, expiresIn, { download: document.filename })
+
+    if (error || !data) {
+      console.error('Failed to sign export download URL:', error)
+      return null
+    }
+
+    return data.signedUrl
+  }
+
+  private async recordDownload(documentId: string, shareId?: string): Promise<void> {
+    const { error } = await this.supabase.rpc('increment_download_count', {
+      doc_id: documentId,
+      share_id: shareId ?? null
+    })
+
+    if (error) {
+      console.error('Failed to increment download count:', error)
+    }
+  }
+
+  /**
+   * Write an access log entry. Logging failures are reported but never block
+   * the access itself.
+   */
+  private async logAccess(
+    documentId: string,
+    accessType: AccessType,
+    context: { userId?: string; shareId?: string; ipAddress?: string; userAgent?: string; success?: boolean; errorMessage?: string }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('document_access_logs')
+      .insert({
+        document_id: documentId,
+        access_type: accessType,
+        user_id: context.userId ?? null,
+        share_id: context.shareId ?? null,
+        ip_address: context.ipAddress ?? null,
+        user_agent: context.userAgent ?? null,
+        success: context.success ?? true,
+        error_message: context.errorMessage ?? null
+      })
+
+    if (error) {
+      console.error('Failed to log document access:', error)
     }
   }
 }
 
 // Export singleton instance
-export const documentStorageService = new DocumentStorageService() 
\ No newline at end of file
+export const documentStorageService = new DocumentStorageService()
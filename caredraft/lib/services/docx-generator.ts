@@ -1,5 +1,58 @@
-// Stub implementation for DOCX generator service
-// This is a placeholder until the DOCX generation functionality is fully implemented
+/**
+ * DOCX Generator Service
+ * Renders proposal sections into Word documents with the docx library.
+ * Section content is parsed with the shared rich text parser so headings,
+ * lists, tables and inline formatting survive the conversion.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  DeletedTextRun,
+  Document,
+  Footer,
+  FrameAnchorType,
+  Header,
+  HeadingLevel,
+  HorizontalPositionAlign,
+  ImageRun,
+  InsertedTextRun,
+  LevelFormat,
+  PageBreak,
+  PageNumber,
+  PageOrientation,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  VerticalPositionAlign,
+  WidthType,
+  convertMillimetersToTwip
+} from 'docx'
+import type { IRunOptions, IStylesOptions, ParagraphChild } from 'docx'
+import { EXPORT_CONFIG } from '@/lib/config/export.config'
+import { getSectionsHierarchy, type SectionWithChildren } from '@/lib/sections'
+import type { OrganizationSettings } from '@/lib/services/organization-service'
+import {
+  parseRichText,
+  richTextToPlainText,
+  type RichTextBlock,
+  type RichTextRun
+} from '@/lib/utils/rich-text'
+
+export interface DOCXTextStyle {
+  font?: string
+  /** Font size in points */
+  size?: number
+  /** Hex colour, with or without a leading # */
+  color?: string
+  bold?: boolean
+  italics?: boolean
+}
 
 export interface DOCXGenerationOptions {
   title?: string
@@ -11,6 +64,7 @@ export interface DOCXGenerationOptions {
   includePageNumbers?: boolean
   pageOrientation?: 'portrait' | 'landscape'
   pageSize?: 'A4' | 'Letter'
+  /** Page margins in millimetres */
   margins?: {
     top?: number
     right?: number
@@ -21,10 +75,19 @@ export interface DOCXGenerationOptions {
   footerText?: string
   watermark?: string
   styles?: {
-    heading1?: Record<string, unknown>
-    heading2?: Record<string, unknown>
-    normal?: Record<string, unknown>
+    heading1?: DOCXTextStyle
+    heading2?: DOCXTextStyle
+    normal?: DOCXTextStyle
   }
+  organizationName?: string
+  branding?: OrganizationSettings['branding']
+}
+
+export interface DOCXSection {
+  title: string
+  content: string
+  /** Heading level of the section title, 1 for top-level sections */
+  level?: number
 }
 
 export interface DOCXGenerationResult {
@@ -47,87 +110,682 @@ export class GenerationError extends Error {
   }
 }
 
+// Page dimensions in twips (portrait); docx swaps them for landscape
+const PAGE_SIZES = {
+  A4: { width: 11906, height: 16838 },
+  Letter: { width: 12240, height: 15840 }
+} as const
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+]
+
+const BULLET_REFERENCE = 'proposal-bullets'
+const ORDERED_REFERENCE = 'proposal-numbering'
+const MAX_LOGO_WIDTH = 180
+const MAX_LOGO_HEIGHT = 60
+const MAX_LOGO_BYTES = 2 * 1024 * 1024
+const LOGO_TIMEOUT_MS = 5000
+const MAX_MARGIN_MM = 100
+
+const MAX_HEADER_FOOTER_LENGTH = 100
+
+type LogoImage = { data: Uint8Array; type: 'png' | 'jpg' | 'gif' | 'bmp'; width: number; height: number }
+// Word needs a distinct id on every tracked change in a document
+type RevisionCounter = { next: number }
+
+/**
+ * Normalise a hex colour to the six-digit form docx expects
+ */
+export function normaliseColor(color?: string): string | undefined {
+  if (!color) return undefined
+  const hex = color.trim().replace(/^#/, '')
+  if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase()
+  if (/^[0-9a-f]{3}$/i.test(hex)) return hex.split('').map(c => c + c).join('').toUpperCase()
+  return undefined
+}
+
+/**
+ * Whether a URL points into the project's Supabase storage
+ */
+function isStorageUrl(url: string): boolean {
+  const storageBase = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!storageBase) return false
+
+  try {
+    const target = new URL(url)
+    const base = new URL(storageBase)
+    return target.protocol === base.protocol && target.host === base.host && target.pathname.startsWith('/storage/v1/')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read a response body, giving up once it passes the byte limit
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (Number(response.headers?.get('content-length')) > maxBytes) {
+    throw new Error(`Larger than ${maxBytes} bytes`)
+  }
+
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer())
+    if (data.length > maxBytes) throw new Error(`Larger than ${maxBytes} bytes`)
+    return data
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new Error(`Larger than ${maxBytes} bytes`)
+    }
+    chunks.push(value)
+  }
+
+  const data = new Uint8Array(total)
+  let offset = 0
+  chunks.forEach(chunk => {
+    data.set(chunk, offset)
+    offset += chunk.length
+  })
+  return data
+}
+
+/**
+ * Build a filename from a document title, e.g. "my-proposal-2024-01-31.docx"
+ */
+export function createExportFilename(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  const date = new Date().toISOString().split('T')[0]
+  return `${slug || 'document'}-${date}.${extension}`
+}
+
+/**
+ * Detect the image type and pixel size from the file header.
+ * Only formats Word can embed directly are recognised.
+ */
+export function readImageInfo(bytes: Uint8Array): Omit<LogoImage, 'data'> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  if (bytes.length > 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { type: 'png', width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  if (bytes.length > 10 && bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { type: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) }
+  }
+
+  if (bytes.length > 26 && bytes[0] === 0x42 && bytes[1] === 0x4d) {
+    return { type: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) }
+  }
+
+  if (bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null
+      const marker = bytes[offset + 1]
+      // SOF0-SOF15 carry the frame size, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { type: 'jpg', height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) }
+      }
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Convert a text style to docx run properties (sizes are half-points)
+ */
+function toRunStyle(style: DOCXTextStyle | undefined, fallback: DOCXTextStyle) {
+  const merged = { ...fallback, ...style }
+  return {
+    font: merged.font,
+    size: merged.size ? Math.round(merged.size * 2) : undefined,
+    color: normaliseColor(merged.color),
+    bold: merged.bold,
+    italics: merged.italics
+  }
+}
+
 export class DOCXGenerator {
   /**
-   * Generate DOCX document from content (stub implementation)
+   * Generate a DOCX document from a single block of content
    */
   static async generateDocument(
-    _content: string,
-    _options: DOCXGenerationOptions = {}
+    content: string,
+    options: DOCXGenerationOptions = {}
   ): Promise<DOCXGenerationResult> {
-    console.log('Stub: generateDocument called')
-    return {
-      success: false,
-      error: 'DOCX generation service is not implemented',
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        processingTime: 0
-      }
-    }
+    return DOCXGenerator.generateFromSections([{ title: '', content }], options)
   }
 
   /**
-   * Generate DOCX from sections (stub implementation)
+   * Generate a DOCX document from ordered sections
    */
   static async generateFromSections(
-    _sections: Array<{
-      title: string
-      content: string
-      level?: number
-    }>,
-    _options: DOCXGenerationOptions = {}
+    sections: DOCXSection[],
+    options: DOCXGenerationOptions = {}
   ): Promise<DOCXGenerationResult> {
-    console.log('Stub: generateFromSections called')
-    return {
-      success: false,
-      error: 'DOCX generation service is not implemented',
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        processingTime: 0
+    const startTime = Date.now()
+
+    try {
+      const document = await DOCXGenerator.buildDocument(sections, options)
+      const buffer = await Packer.toBuffer(document)
+
+      return {
+        success: true,
+        buffer,
+        filename: createExportFilename(options.title || 'proposal', 'docx'),
+        metadata: {
+          wordCount: DOCXGenerator.countWords(sections),
+          generatedAt: new Date().toISOString(),
+          processingTime: Date.now() - startTime
+        }
+      }
+    } catch (error) {
+      console.error('DOCX generation failed:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'DOCX generation failed',
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          processingTime: Date.now() - startTime
+        }
       }
     }
   }
 
   /**
-   * Generate DOCX from proposal data (stub implementation)
+   * Generate a DOCX document from a project's section tree, in tree order.
+   * Server callers pass a loader bound to the request's Supabase client.
    */
   static async generateProposalDocument(
-    _proposalId: string,
-    _options: DOCXGenerationOptions = {}
+    projectId: string,
+    options: DOCXGenerationOptions = {},
+    loadSections: (projectId: string) => Promise<SectionWithChildren[]> = getSectionsHierarchy
   ): Promise<DOCXGenerationResult> {
-    console.log('Stub: generateProposalDocument called')
-    return {
-      success: false,
-      error: 'DOCX generation service is not implemented',
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        processingTime: 0
+    try {
+      const tree = await loadSections(projectId)
+      return DOCXGenerator.generateFromSections(DOCXGenerator.sectionsFromTree(tree), options)
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load proposal sections',
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          processingTime: 0
+        }
       }
     }
   }
 
   /**
-   * Validate generation options (stub implementation)
+   * Flatten a section tree depth-first, using depth as the heading level
    */
-  static validateOptions(_options: DOCXGenerationOptions): { valid: boolean; errors: string[] } {
-    console.log('Stub: validateOptions called')
+  static sectionsFromTree(tree: SectionWithChildren[], level = 1): DOCXSection[] {
+    return tree.flatMap(section => [
+      { title: section.title, content: section.content || '', level },
+      ...DOCXGenerator.sectionsFromTree(section.children ?? [], level + 1)
+    ])
+  }
+
+  /**
+   * Build the docx Document without packing it, so callers can choose
+   * between Buffer (server) and Blob (browser) output
+   */
+  static async buildDocument(
+    sections: DOCXSection[],
+    options: DOCXGenerationOptions = {}
+  ): Promise<Document> {
+    const validation = DOCXGenerator.validateOptions(options)
+    if (!validation.valid) {
+      throw new GenerationError(validation.errors.join('; '), 'INVALID_OPTIONS')
+    }
+
+    const logo = options.branding?.logo_url
+      ? await DOCXGenerator.loadLogo(options.branding.logo_url)
+      : null
+
+    const children: Array<Paragraph | Table | TableOfContents> = [
+      ...DOCXGenerator.buildTitlePage(options, logo)
+    ]
+
+    if (options.includeTableOfContents) {
+      children.push(
+        new Paragraph({ text: 'Contents', heading: HeadingLevel.TITLE }),
+        new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-3' }),
+        new Paragraph({ children: [new PageBreak()] })
+      )
+    }
+
+    let hasSuggestions = false
+    const revisions: RevisionCounter = { next: 1 }
+    sections.forEach(section => {
+      const level = Math.min(Math.max(section.level ?? 1, 1), 6)
+      if (section.title.trim()) {
+        children.push(new Paragraph({ text: section.title.trim(), heading: HEADING_LEVELS[level - 1] }))
+      }
+      const blocks = parseRichText(section.content)
+      hasSuggestions ||= DOCXGenerator.hasSuggestions(blocks)
+      children.push(...DOCXGenerator.renderBlocks(blocks, section.title.trim() ? level : 0, options, revisions))
+    })
+
+    const pageSize = PAGE_SIZES[options.pageSize ?? 'A4']
+    const defaults = EXPORT_CONFIG.DOCX.DEFAULT_MARGINS
+    const margins = options.margins ?? {}
+    const toTwip = (value: number | undefined, fallback: number) =>
+      value === undefined ? fallback : convertMillimetersToTwip(value)
+
+    return new Document({
+      title: options.title,
+      creator: options.author,
+      subject: options.subject,
+      description: options.description,
+      keywords: options.keywords?.join(', '),
+      styles: DOCXGenerator.buildStyles(options),
+      numbering: DOCXGenerator.buildNumbering(),
+      // Reviewers' suggestions open as tracked changes, and further edits are tracked too
+      features: options.includeTableOfContents || hasSuggestions
+        ? { updateFields: options.includeTableOfContents || undefined, trackRevisions: hasSuggestions || undefined }
+        : undefined,
+      sections: [
+        {
+          properties: {
+            page: {
+              size: {
+                ...pageSize,
+                orientation: options.pageOrientation === 'landscape' ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT
+              },
+              margin: {
+                top: toTwip(margins.top, defaults.TOP),
+                right: toTwip(margins.right, defaults.RIGHT),
+                bottom: toTwip(margins.bottom, defaults.BOTTOM),
+                left: toTwip(margins.left, defaults.LEFT)
+              }
+            }
+          },
+          headers: { default: DOCXGenerator.buildHeader(options, logo) },
+          footers: { default: DOCXGenerator.buildFooter(options) },
+          children
+        }
+      ]
+    })
+  }
+
+  /**
+   * Validate generation options
+   */
+  static validateOptions(options: DOCXGenerationOptions): { valid: boolean; errors: string[] } {
+    const errors: string[] = []
+
+    if (options.pageSize && !(options.pageSize in PAGE_SIZES)) {
+      errors.push(`Unsupported page size: ${options.pageSize}`)
+    }
+    if (options.pageOrientation && !['portrait', 'landscape'].includes(options.pageOrientation)) {
+      errors.push(`Unsupported page orientation: ${options.pageOrientation}`)
+    }
+
+    Object.entries(options.margins ?? {}).forEach(([side, value]) => {
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > MAX_MARGIN_MM)) {
+        errors.push(`Margin ${side} must be between 0 and ${MAX_MARGIN_MM}mm`)
+      }
+    })
+
+    if (options.headerText && options.headerText.length > MAX_HEADER_FOOTER_LENGTH) {
+      errors.push(`Header text must be ${MAX_HEADER_FOOTER_LENGTH} characters or fewer`)
+    }
+    if (options.footerText && options.footerText.length > MAX_HEADER_FOOTER_LENGTH) {
+      errors.push(`Footer text must be ${MAX_HEADER_FOOTER_LENGTH} characters or fewer`)
+    }
+
+    Object.entries(options.styles ?? {}).forEach(([name, style]) => {
+      if (style?.color && !normaliseColor(style.color)) {
+        errors.push(`Invalid colour for ${name} style: ${style.color}`)
+      }
+      if (style?.size !== undefined && (style.size < 6 || style.size > 72)) {
+        errors.push(`Font size for ${name} style must be between 6 and 72pt`)
+      }
+    })
+
     return {
-      valid: true,
-      errors: []
+      valid: errors.length === 0,
+      errors
     }
   }
 
   /**
-   * Get supported formats (stub implementation)
+   * Get supported formats
    */
   static getSupportedFormats(): string[] {
     return ['docx']
   }
 
   /**
-   * Estimate generation time (stub implementation)
+   * Estimate generation time in milliseconds from content length
+   */
+  static estimateGenerationTime(contentLength: number): number {
+    return 500 + Math.ceil(contentLength / 50)
+  }
+
+  /**
+   * Count words across section titles and content
+   */
+  private static countWords(sections: DOCXSection[]): number {
+    return sections.reduce((total, section) => {
+      const text = `${section.title} ${richTextToPlainText(parseRichText(section.content))}`.trim()
+      return total + (text ? text.split(/\s+/).length : 0)
+    }, 0)
+  }
+
+  /**
+   * Fetch the organisation logo. Branding is decorative, so failures are
+   * logged and the document is generated without it. Logos are only fetched
+   * from the project's Supabase storage, with a timeout and a size cap, as
+   * the URL is set by the organisation and fetched server-side.
+   */
+  private static async loadLogo(url: string): Promise<LogoImage | null> {
+    if (!isStorageUrl(url)) {
+      console.warn('Organisation logo is not in Supabase storage; skipping')
+      return null
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), LOGO_TIMEOUT_MS)
+    try {
+      const response = await fetch(url, { signal: controller.signal })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+      const data = await readLimited(response, MAX_LOGO_BYTES)
+      const info = readImageInfo(data)
+      if (!info || info.width <= 0 || info.height <= 0) {
+        console.warn('Organisation logo is not a PNG, JPEG, GIF or BMP image; skipping')
+        return null
+      }
+
+      const scale = Math.min(MAX_LOGO_WIDTH / info.width, MAX_LOGO_HEIGHT / info.height, 1)
+      return {
+        data,
+        type: info.type,
+        width: Math.round(info.width * scale),
+        height: Math.round(info.height * scale)
+      }
+    } catch (error) {
+      console.warn('Could not load organisation logo:', error)
+      return null
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+
+  private static logoRun(logo: LogoImage, scale = 1): ImageRun {
+    return new ImageRun({
+      type: logo.type,
+      data: logo.data,
+      transformation: {
+        width: Math.round(logo.width * scale),
+        height: Math.round(logo.height * scale)
+      }
+    })
+  }
+
+  private static buildStyles(options: DOCXGenerationOptions): IStylesOptions {
+    const { FONTS, FONT_SIZES, LINE_SPACING } = EXPORT_CONFIG.DOCX
+    const primary = normaliseColor(options.branding?.primary_color)
+    const secondary = normaliseColor(options.branding?.secondary_color) ?? primary
+
+    return {
+      default: {
+        document: {
+          run: toRunStyle(options.styles?.normal, { font: FONTS.BODY, size: FONT_SIZES.BODY }),
+          paragraph: { spacing: { line: LINE_SPACING, after: 120 } }
+        },
+        title: {
+          run: toRunStyle(undefined, { font: FONTS.HEADING, size: FONT_SIZES.TITLE, bold: true, color: primary }),
+          paragraph: { spacing: { after: 240 } }
+        },
+        heading1: {
+          run: toRunStyle(options.styles?.heading1, { font: FONTS.HEADING, size: FONT_SIZES.HEADING, bold: true, color: primary }),
+          paragraph: { spacing: { before: 360, after: 120 }, keepNext: true }
+        },
+        heading2: {
+          run: toRunStyle(options.styles?.heading2, { font: FONTS.HEADING, size: FONT_SIZES.SUBHEADING, bold: true, color: secondary }),
+          paragraph: { spacing: { before: 240, after: 120 }, keepNext: true }
+        },
+        heading3: {
+          run: toRunStyle(undefined, { font: FONTS.HEADING, size: FONT_SIZES.BODY + 1, bold: true, color: secondary }),
+          paragraph: { spacing: { before: 200, after: 80 }, keepNext: true }
+        }
+      }
+    }
+  }
+
+  private static buildNumbering() {
+    const indent = (level: number) => ({ left: 720 * (level + 1), hanging: 360 })
+    const bullets = ['•', '◦', '▪']
+
+    return {
+      config: [
+        {
+          reference: BULLET_REFERENCE,
+          levels: [0, 1, 2, 3, 4, 5].map(level => ({
+            level,
+            format: LevelFormat.BULLET,
+            text: bullets[level % bullets.length],
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: indent(level) } }
+          }))
+        },
+        {
+          reference: ORDERED_REFERENCE,
+          levels: [0, 1, 2, 3, 4, 5].map(level => ({
+            level,
+            format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3],
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: indent(level) } }
+          }))
+        }
+      ]
+    }
+  }
+
+  private static buildTitlePage(options: DOCXGenerationOptions, logo: LogoImage | null): Paragraph[] {
+    const paragraphs: Paragraph[] = []
+
+    if (logo) {
+      paragraphs.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 1440, after: 480 },
+        children: [DOCXGenerator.logoRun(logo, 1.5)]
+      }))
+    }
+
+    paragraphs.push(new Paragraph({
+      text: options.title || 'Proposal',
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      spacing: { before: logo ? 240 : 2880, after: 240 }
+    }))
+
+    const details = [options.subject, options.organizationName, options.author]
+    details.forEach(line => {
+      if (line) paragraphs.push(new Paragraph({ text: line, alignment: AlignmentType.CENTER }))
+    })
+
+    paragraphs.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 240 },
+        children: [new TextRun({
+          text: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+          italics: true
+        })]
+      }),
+      new Paragraph({ children: [new PageBreak()] })
+    )
+
+    return paragraphs
+  }
+
+  private static buildHeader(options: DOCXGenerationOptions, logo: LogoImage | null): Header {
+    const children: Paragraph[] = []
+
+    if (logo || options.headerText) {
+      children.push(new Paragraph({
+        alignment: AlignmentType.RIGHT,
+        children: [
+          ...(logo ? [DOCXGenerator.logoRun(logo, 0.5)] : []),
+          ...(options.headerText ? [new TextRun({ text: `${logo ? '  ' : ''}${options.headerText}`, size: 18, color: '666666' })] : [])
+        ]
+      }))
+    }
+
+    // Header content sits behind the body, so a large pale frame centred on
+    // the page acts as a watermark on every page
+    if (options.watermark) {
+      children.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        frame: {
+          type: 'alignment',
+          width: 9000,
+          height: 2000,
+          anchor: { horizontal: FrameAnchorType.PAGE, vertical: FrameAnchorType.PAGE },
+          alignment: { x: HorizontalPositionAlign.CENTER, y: VerticalPositionAlign.CENTER }
+        },
+        children: [new TextRun({ text: options.watermark, size: 144, bold: true, color: 'D9D9D9' })]
+      }))
+    }
+
+    return new Header({ children: children.length > 0 ? children : [new Paragraph({})] })
+  }
+
+  private static buildFooter(options: DOCXGenerationOptions): Footer {
+    const runStyle = { size: EXPORT_CONFIG.DOCX.FONT_SIZES.FOOTER * 2, color: '666666' }
+    const runs: TextRun[] = []
+
+    if (options.footerText) runs.push(new TextRun({ text: options.footerText, ...runStyle }))
+    if (options.includePageNumbers) {
+      runs.push(new TextRun({
+        children: [options.footerText ? '    Page ' : 'Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+        ...runStyle
+      }))
+    }
+
+    return new Footer({
+      children: [new Paragraph({ alignment: AlignmentType.CENTER, children: runs })]
+    })
+  }
+
+  private static hasSuggestions(blocks: RichTextBlock[]): boolean {
+    return blocks.some(block =>
+      (block.type === 'table' ? block.rows.flatMap(row => row.cells.flat()) : block.runs).some(run => run.suggestion)
+    )
+  }
+
+  /**
+   * Render runs, with suggested insertions and deletions as Word tracked
+   * changes attributed to their reviewer
+   */
+  private static renderRuns(runs: RichTextRun[], revisions: RevisionCounter, style: IRunOptions = {}): ParagraphChild[] {
+    return runs.map(run => {
+      if (run.lineBreak) return new TextRun({ text: '', break: 1 })
+
+      const options: IRunOptions = {
+        text: run.text,
+        bold: run.bold,
+        italics: run.italics,
+        underline: run.underline ? {} : undefined,
+        ...style
+      }
+      if (!run.suggestion) return new TextRun(options)
+
+      const revision = {
+        id: revisions.next++,
+        author: run.suggestion.author,
+        date: run.suggestion.date ?? new Date().toISOString()
+      }
+      return run.suggestion.type === 'insertion'
+        ? new InsertedTextRun({ ...options, ...revision })
+        : new DeletedTextRun({ ...options, ...revision })
+    })
+  }
+
+  /**
+   * Render parsed content. Headings inside the content are nested below the
+   * section title so the table of contents keeps the section hierarchy.
    */
-  static estimateGenerationTime(_contentLength: number): number {
-    return 1000 // 1 second stub estimate
+  private static renderBlocks(
+    blocks: RichTextBlock[],
+    sectionLevel: number,
+    options: DOCXGenerationOptions,
+    revisions: RevisionCounter
+  ): Array<Paragraph | Table> {
+    return blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return new Paragraph({
+            heading: HEADING_LEVELS[Math.min(sectionLevel + block.level, 6) - 1],
+            children: DOCXGenerator.renderRuns(block.runs, revisions)
+          })
+        case 'list-item':
+          return new Paragraph({
+            numbering: block.ordered
+              ? { reference: ORDERED_REFERENCE, level: block.level, instance: block.listId }
+              : { reference: BULLET_REFERENCE, level: block.level },
+            children: DOCXGenerator.renderRuns(block.runs, revisions)
+          })
+        case 'table':
+          return DOCXGenerator.renderTable(block.rows, options, revisions)
+        default:
+          return new Paragraph({ children: DOCXGenerator.renderRuns(block.runs, revisions) })
+      }
+    })
   }
-} 
\ No newline at end of file
+
+  private static renderTable(
+    rows: Extract<RichTextBlock, { type: 'table' }>['rows'],
+    options: DOCXGenerationOptions,
+    revisions: RevisionCounter
+  ): Table {
+    const columnCount = Math.max(...rows.map(row => row.cells.length))
+    const headerFill = normaliseColor(options.branding?.secondary_color ?? options.branding?.primary_color) ?? 'E7E6E6'
+    const headerText = options.branding?.secondary_color || options.branding?.primary_color ? 'FFFFFF' : undefined
+    const border = { style: BorderStyle.SINGLE, size: 4, color: 'BFBFBF' }
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+      rows: rows.map(row => new TableRow({
+        tableHeader: row.header,
+        children: Array.from({ length: columnCount }, (_, index) => {
+          const runs = row.cells[index] ?? []
+          return new TableCell({
+            width: { size: Math.floor(100 / columnCount), type: WidthType.PERCENTAGE },
+            shading: row.header ? { type: ShadingType.CLEAR, color: 'auto', fill: headerFill } : undefined,
+            children: [new Paragraph({
+              children: row.header
+                ? DOCXGenerator.renderRuns(runs, revisions, { bold: true, underline: undefined, color: headerText })
+                : DOCXGenerator.renderRuns(runs, revisions)
+            })]
+          })
+        })
+      }))
+    })
+  }
+}
@@ -0,0 +1,115 @@
+import OpenAI from 'openai'
+import { EMBEDDING_DIMENSIONS } from '@/types/rag'
+
+/**
+ * Embedding providers for the RAG pipeline. The vector columns are
+ * vector(1536), so every provider must return 1536 dimensions.
+ */
+
+export interface EmbeddingProvider {
+  /** Stored with each embedding so vectors from different models never mix */
+  readonly model: string
+  readonly dimensions: number
+  embed(texts: string[]): Promise<{ embeddings: number[][]; tokens: number }>
+}
+
+/**
+ * OpenAI embeddings. The client is created on first use so importing this
+ * module does not require an API key.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly dimensions = EMBEDDING_DIMENSIONS
+  private client: OpenAI | null = null
+
+  constructor(
+    readonly model: string = process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  async embed(texts: string[]): Promise<{ embeddings: number[][]; tokens: number }> {
+    if (!this.apiKey) {
+      throw new Error('OPENAI_API_KEY is required for OpenAI embeddings; set EMBEDDING_PROVIDER=local to use offline embeddings')
+    }
+    this.client ??= new OpenAI({ apiKey: this.apiKey })
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.model.startsWith('text-embedding-3') ? this.dimensions : undefined
+    })
+
+    return {
+      embeddings: response.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding),
+      tokens: response.usage?.total_tokens ?? 0
+    }
+  }
+}
+
+function hashToken(token: string, seed: number): number {
+  // FNV-1a
+  let hash = 0x811c9dc5 ^ seed
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic embeddings computed locally by hashing words and word pairs
+ * into a fixed-size vector. Texts sharing vocabulary score as similar, which
+ * is enough for tests and offline development without network access.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = 'local-hashing-v1'
+
+  constructor(readonly dimensions: number = EMBEDDING_DIMENSIONS) {}
+
+  async embed(texts: string[]): Promise<{ embeddings: number[][]; tokens: number }> {
+    let tokens = 0
+    const embeddings = texts.map(text => {
+      const words = text.toLowerCase().match(/[a-z0-9]+/g) || []
+      tokens += Math.ceil(words.length * 1.3)
+      return this.embedWords(words)
+    })
+
+    return { embeddings, tokens }
+  }
+
+  private embedWords(words: string[]): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)]
+
+    for (const feature of features) {
+      const index = hashToken(feature, 0) % this.dimensions
+      const sign = hashToken(feature, 1) % 2 === 0 ? 1 : -1
+      vector[index] += sign
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    if (norm === 0) {
+      // Cosine distance is undefined for a zero vector
+      vector[0] = 1
+      return vector
+    }
+    return vector.map(value => value / norm)
+  }
+}
+
+/**
+ * Provider chosen by EMBEDDING_PROVIDER ('openai' or 'local'). Defaults to
+ * OpenAI, which fails without an API key; the local hashing model is only
+ * used when asked for explicitly.
+ */
+export function createEmbeddingProvider(name: string | undefined = process.env.EMBEDDING_PROVIDER): EmbeddingProvider {
+  switch (name || 'openai') {
+    case 'local':
+      return new LocalEmbeddingProvider()
+    case 'openai':
+      return new OpenAIEmbeddingProvider()
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER '${name}', expected 'openai' or 'local'`)
+  }
+}
@@ -1,5 +1,14 @@
-// Stub implementation for embedding service
-// This is a placeholder until the document_embeddings table and related functions are added to the database
+/**
+ * Embedding Service
+ * Generates embeddings through a pluggable provider, caching them by the
+ * checksum of the text in memory and in the embedding_cache table, and
+ * stores and searches chunk embeddings
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { EmbeddingProvider, createEmbeddingProvider } from './embedding-providers'
 
 export interface EmbeddingRequest {
   text: string
@@ -26,58 +35,158 @@ export interface BatchEmbeddingResponse {
   cached_count: number
 }
 
+const DEFAULT_BATCH_SIZE = 64
+const MEMORY_CACHE_LIMIT = 1000
+
+export function contentChecksum(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+/**
+ * pgvector columns come back from PostgREST as '[0.1,0.2,...]'
+ */
+export function parseVector(value: unknown): number[] {
+  if (Array.isArray(value)) return value as number[]
+  if (typeof value === 'string') return JSON.parse(value) as number[]
+  throw new Error('Unexpected vector value')
+}
+
+export function formatVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`
+}
+
 export class EmbeddingService {
   private cache = new Map<string, { embedding: number[], timestamp: number }>()
+  private cacheHits = 0
+  private cacheLookups = 0
+
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private provider: EmbeddingProvider = createEmbeddingProvider()
+  ) {}
+
+  get model(): string {
+    return this.provider.model
+  }
 
   /**
-   * Generate embedding for text (stub implementation)
+   * Generate embedding for text
    */
-  async generateEmbedding(_request: EmbeddingRequest): Promise<EmbeddingResponse> {
-    console.log('Stub: generateEmbedding called')
-    return {
-      embedding: new Array(1536).fill(0), // OpenAI ada-002 dimension
-      model: 'text-embedding-ada-002',
-      tokens: 10,
-      cached: false
-    }
+  async generateEmbedding(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const { embeddings } = await this.generateBatchEmbeddings({ texts: [request.text] })
+    return embeddings[0]
   }
 
   /**
-   * Generate embeddings for multiple texts (stub implementation)
+   * Generate embeddings for multiple texts, in order. Cached texts are not
+   * sent to the provider; the rest are embedded `batch_size` at a time.
    */
-  async generateBatchEmbeddings(_request: BatchEmbeddingRequest): Promise<BatchEmbeddingResponse> {
-    console.log('Stub: generateBatchEmbeddings called')
+  async generateBatchEmbeddings(request: BatchEmbeddingRequest): Promise<BatchEmbeddingResponse> {
+    const startedAt = Date.now()
+    const batchSize = request.batch_size ?? DEFAULT_BATCH_SIZE
+    const checksums = request.texts.map(contentChecksum)
+    const results = new Map<string, EmbeddingResponse>()
+
+    this.cacheLookups += checksums.length
+
+    for (const checksum of new Set(checksums)) {
+      const cached = this.cache.get(this.cacheKey(checksum))
+      if (cached) {
+        results.set(checksum, { embedding: cached.embedding, model: this.model, tokens: 0, cached: true })
+      }
+    }
+
+    const storedChecksums = Array.from(new Set(checksums)).filter(checksum => !results.has(checksum))
+    if (storedChecksums.length > 0) {
+      const stored = await this.loadCachedEmbeddings(storedChecksums)
+      stored.forEach((embedding, checksum) => {
+        results.set(checksum, { embedding, model: this.model, tokens: 0, cached: true })
+        this.remember(checksum, embedding)
+      })
+    }
+
+    const cachedCount = checksums.filter(checksum => results.has(checksum)).length
+    this.cacheHits += cachedCount
+
+    // Embed each distinct missing text once
+    const missing = new Map<string, string>()
+    checksums.forEach((checksum, i) => {
+      if (!results.has(checksum)) missing.set(checksum, request.texts[i])
+    })
+
+    let totalTokens = 0
+    const missingEntries = Array.from(missing.entries())
+    for (let i = 0; i < missingEntries.length; i += batchSize) {
+      const batch = missingEntries.slice(i, i + batchSize)
+      const { embeddings, tokens } = await this.provider.embed(batch.map(([, text]) => text))
+      totalTokens += tokens
+
+      const tokensPerText = Math.ceil(tokens / batch.length)
+      const rows = batch.map(([checksum], j) => {
+        results.set(checksum, { embedding: embeddings[j], model: this.model, tokens: tokensPerText, cached: false })
+        this.remember(checksum, embeddings[j])
+        return {
+          content_checksum: checksum,
+          embedding_model: this.model,
+          embedding: formatVector(embeddings[j]),
+          token_count: tokensPerText
+        }
+      })
+
+      const { error } = await this.supabase
+        .from('embedding_cache')
+        .upsert(rows, { onConflict: 'content_checksum,embedding_model' })
+
+      if (error) {
+        // The cache only saves work, so a failed write should not fail ingestion
+        console.error('Failed to cache embeddings:', error)
+      }
+    }
+
     return {
-      embeddings: [],
-      total_tokens: 0,
-      processing_time_ms: 100,
-      cached_count: 0
+      embeddings: checksums.map(checksum => results.get(checksum)!),
+      total_tokens: totalTokens,
+      processing_time_ms: Date.now() - startedAt,
+      cached_count: cachedCount
     }
   }
 
   /**
-   * Store embedding in database (stub implementation)
+   * Store embedding in database
    */
   async storeEmbedding(
-    _chunkId: string,
-    _documentId: string,
-    _embedding: number[],
-    _model: string = 'text-embedding-ada-002'
+    chunkId: string,
+    documentId: string,
+    embedding: number[],
+    model: string = this.model
   ): Promise<boolean> {
-    console.log('Stub: storeEmbedding called')
-    return false
+    const { error } = await this.supabase
+      .from('document_embeddings')
+      .upsert({
+        chunk_id: chunkId,
+        document_id: documentId,
+        embedding: formatVector(embedding),
+        embedding_model: model
+      }, { onConflict: 'chunk_id' })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return true
   }
 
   /**
-   * Search for similar embeddings (stub implementation)
+   * Search for similar embeddings
    */
   async searchSimilarEmbeddings(
-    _queryEmbedding: number[],
-    _options: {
+    queryEmbedding: number[],
+    options: {
       similarity_threshold?: number
       max_results?: number
       document_types?: string[]
       date_range?: { start?: string, end?: string }
+      include_superseded?: boolean
     } = {}
   ): Promise<Array<{
     chunk_id: string
@@ -88,12 +197,44 @@ export class EmbeddingService {
     document_type: string
     metadata: Record<string, unknown>
   }>> {
-    console.log('Stub: searchSimilarEmbeddings called')
-    return []
+    const { data, error } = await this.supabase.rpc('search_similar_chunks', {
+      query_embedding: formatVector(queryEmbedding),
+      // Vectors from different models are not comparable
+      query_model: this.provider.model,
+      similarity_threshold: options.similarity_threshold ?? 0.7,
+      max_results: options.max_results ?? 10,
+      include_superseded: options.include_superseded ?? false
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const rows = (data || []) as Array<{
+      chunk_id: string
+      document_id: string
+      document_title: string
+      chunk_content: string
+      similarity_score: number
+      metadata: Record<string, unknown> | null
+    }>
+
+    return rows
+      .map(row => ({
+        chunk_id: row.chunk_id,
+        document_id: row.document_id,
+        similarity_score: Number(row.similarity_score),
+        chunk_content: row.chunk_content,
+        document_title: row.document_title,
+        // Chunks carry their document's type in metadata
+        document_type: String(row.metadata?.document_type ?? 'other'),
+        metadata: row.metadata || {}
+      }))
+      .filter(row => !options.document_types?.length || options.document_types.includes(row.document_type))
   }
 
   /**
-   * Get embedding statistics (stub implementation)
+   * Get embedding statistics
    */
   async getEmbeddingStats(): Promise<{
     total_embeddings: number
@@ -102,32 +243,103 @@ export class EmbeddingService {
     cache_hit_rate: number
     avg_similarity_scores: number[]
   }> {
-    console.log('Stub: getEmbeddingStats called')
+    const { data, error } = await this.supabase
+      .from('document_embeddings')
+      .select('embedding_model')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const embeddingsByModel: Record<string, number> = {}
+    for (const row of data || []) {
+      embeddingsByModel[row.embedding_model] = (embeddingsByModel[row.embedding_model] || 0) + 1
+    }
+    const total = data?.length || 0
+
     return {
-      total_embeddings: 0,
-      embeddings_by_model: {},
-      storage_usage_mb: 0,
-      cache_hit_rate: 0,
+      total_embeddings: total,
+      embeddings_by_model: embeddingsByModel,
+      // 4 bytes per dimension
+      storage_usage_mb: Math.round((total * this.provider.dimensions * 4) / (1024 * 1024) * 100) / 100,
+      cache_hit_rate: this.cacheLookups > 0 ? this.cacheHits / this.cacheLookups : 0,
       avg_similarity_scores: []
     }
   }
 
   /**
-   * Clean up old embeddings (stub implementation)
+   * Remove cached embeddings that have not been used for `daysOld` days
    */
-  async cleanupOldEmbeddings(_daysOld: number = 90): Promise<number> {
-    console.log('Stub: cleanupOldEmbeddings called')
-    return 0
+  async cleanupOldEmbeddings(daysOld: number = 90): Promise<number> {
+    const cutoff = new Date(Date.now() - daysOld * 24 * 60 * 60 * 1000).toISOString()
+
+    const { data, error } = await this.supabase
+      .from('embedding_cache')
+      .delete()
+      .lt('last_used_at', cutoff)
+      .select('content_checksum')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data?.length || 0
   }
 
   /**
-   * Clear cache (stub implementation)
+   * Clear the in-memory cache
    */
   clearCache(): void {
-    console.log('Stub: clearCache called')
     this.cache.clear()
+    this.cacheHits = 0
+    this.cacheLookups = 0
+  }
+
+  private async loadCachedEmbeddings(checksums: string[]): Promise<Map<string, number[]>> {
+    const { data, error } = await this.supabase
+      .from('embedding_cache')
+      .select('content_checksum, embedding')
+      .eq('embedding_model', this.model)
+      .in('content_checksum', checksums)
+
+    const found = new Map<string, number[]>()
+    if (error) {
+      console.error('Failed to read embedding cache:', error)
+      return found
+    }
+
+    for (const row of data || []) {
+      found.set(row.content_checksum, parseVector(row.embedding))
+    }
+
+    if (found.size > 0) {
+      const { error: touchError } = await this.supabase
+        .from('embedding_cache')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('embedding_model', this.model)
+        .in('content_checksum', Array.from(found.keys()))
+
+      if (touchError) {
+        console.error('Failed to update embedding cache usage:', touchError)
+      }
+    }
+
+    return found
+  }
+
+  private cacheKey(checksum: string): string {
+    return `${this.model}:${checksum}`
+  }
+
+  private remember(checksum: string, embedding: number[]): void {
+    if (this.cache.size >= MEMORY_CACHE_LIMIT) {
+      // Maps iterate in insertion order, so this drops the oldest entry
+      const oldest = this.cache.keys().next().value
+      if (oldest !== undefined) this.cache.delete(oldest)
+    }
+    this.cache.set(this.cacheKey(checksum), { embedding, timestamp: Date.now() })
   }
 }
 
 // Export singleton instance
-export const embeddingService = new EmbeddingService() 
\ No newline at end of file
+export const embeddingService = new EmbeddingService()
@@ -1,8 +1,13 @@
 /**
- * Document Export Service (Stub Implementation)
- * This is a placeholder until the export functionality is fully implemented
+ * Document Export Service
+ * DOCX exports are rendered by DOCXGenerator; PDF export is not yet implemented
  */
 
+import { Packer } from 'docx';
+import { MIME_TYPES } from '@/lib/config/export.config';
+import { DOCXGenerator, createExportFilename, type DOCXGenerationOptions, type DOCXSection } from '@/lib/services/docx-generator';
+import type { OrganizationSettings } from '@/lib/services/organization-service';
+
 // Export types and interfaces
 export interface ExportOptions {
   format: 'pdf' | 'docx';
@@ -10,6 +15,10 @@ export interface ExportOptions {
   includeCompliance?: boolean;
   customStyles?: ExportStyles;
   emailDelivery?: EmailDeliveryOptions;
+  includeTableOfContents?: boolean;
+  includePageNumbers?: boolean;
+  watermark?: string;
+  branding?: OrganizationSettings['branding'];
 }
 
 export interface ExportStyles {
@@ -81,10 +90,63 @@ export interface ProposalExportData {
     title: string;
     content: string;
     order: number;
+    // Heading level, 1 when not given
+    level?: number;
   }>;
 }
 
-// Main export service class (stub implementation)
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const COMPLIANCE_STATUS_LABELS: Record<string, string> = {
+  complete: 'Complete',
+  incomplete: 'Incomplete',
+  'not-applicable': 'Not applicable'
+};
+
+/**
+ * Split editor HTML into sections at its top-level h1-h3 headings. Each
+ * section holds everything up to the next heading; anything before the first
+ * heading becomes an untitled section. HTML without headings gives no
+ * sections, so the whole content is exported as one.
+ */
+export function splitHtmlSections(html: string): NonNullable<ProposalExportData['sections']> {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const sections: NonNullable<ProposalExportData['sections']> = [];
+  let current: { title: string; level: number; parts: string[] } | null = null;
+  let hasHeadings = false;
+
+  const flush = () => {
+    if (!current) return;
+    const content = current.parts.join('');
+    if (current.title || content.trim()) {
+      sections.push({
+        id: `section-${sections.length + 1}`,
+        title: current.title,
+        content,
+        order: sections.length + 1,
+        level: current.level
+      });
+    }
+  };
+
+  Array.from(doc.body.childNodes).forEach(node => {
+    if (node instanceof Element && /^H[1-3]$/.test(node.tagName)) {
+      flush();
+      hasHeadings = true;
+      current = { title: node.textContent?.trim() ?? '', level: Number(node.tagName[1]), parts: [] };
+      return;
+    }
+
+    current ??= { title: '', level: 1, parts: [] };
+    current.parts.push(node instanceof Element ? node.outerHTML : escapeHtml(node.textContent ?? ''));
+  });
+  flush();
+
+  return hasHeadings ? sections : [];
+}
+
+// Main export service class
 export class DocumentExportService {
   private static instance: DocumentExportService;
 
@@ -96,34 +158,133 @@ export class DocumentExportService {
   }
 
   /**
-   * Export a proposal document in the specified format (stub implementation)
+   * Export a proposal document in the specified format
    */
   async exportDocument(
     proposalData: ProposalExportData,
     options: ExportOptions
   ): Promise<ExportResult> {
-    console.log('Stub: exportDocument called', proposalData.id, options.format);
-    
+    const startTime = Date.now();
+
+    if (!proposalData.title || !proposalData.title.trim()) {
+      throw new ValidationError('Proposal title is required for export');
+    }
+
+    if (options.format !== 'docx') {
+      return {
+        success: false,
+        error: {
+          code: 'NOT_IMPLEMENTED',
+          message: `${options.format.toUpperCase()} export is not yet implemented`
+        },
+        metadata: {
+          format: options.format,
+          generatedAt: new Date().toISOString(),
+          processingTime: Date.now() - startTime
+        }
+      };
+    }
+
+    try {
+      const document = await DOCXGenerator.buildDocument(
+        this.buildDocxSections(proposalData, options),
+        this.buildDocxOptions(proposalData, options)
+      );
+      const packed = await Packer.toBlob(document);
+      const blob = new Blob([packed], { type: MIME_TYPES.docx });
+
+      return {
+        success: true,
+        data: {
+          blob,
+          filename: this.generateFilename(proposalData, 'docx'),
+          size: blob.size
+        },
+        metadata: {
+          format: 'docx',
+          generatedAt: new Date().toISOString(),
+          processingTime: Date.now() - startTime
+        }
+      };
+    } catch (error) {
+      console.error('DOCX export failed:', error);
+      return {
+        success: false,
+        error: {
+          code: 'GENERATION_FAILED',
+          message: error instanceof Error ? error.message : 'DOCX generation failed',
+          details: error
+        },
+        metadata: {
+          format: 'docx',
+          generatedAt: new Date().toISOString(),
+          processingTime: Date.now() - startTime
+        }
+      };
+    }
+  }
+
+  /**
+   * Generate filename for export
+   */
+  generateFilename(proposalData: ProposalExportData, format: string): string {
+    return createExportFilename(proposalData.title, format);
+  }
+
+  /**
+   * Map export options onto DOCX generation options
+   */
+  private buildDocxOptions(proposalData: ProposalExportData, options: ExportOptions): DOCXGenerationOptions {
+    const styles = options.customStyles;
+    const headerFooter = styles?.headerFooter;
+
     return {
-      success: false,
-      error: {
-        code: 'NOT_IMPLEMENTED',
-        message: 'Export functionality is not yet implemented'
-      },
-      metadata: {
-        format: options.format,
-        generatedAt: new Date().toISOString(),
-        processingTime: 0
-      }
+      title: proposalData.title,
+      author: options.includeMetadata ? proposalData.metadata.author : undefined,
+      organizationName: options.includeMetadata ? proposalData.metadata.organization : undefined,
+      subject: options.includeMetadata && proposalData.metadata.version
+        ? `Version ${proposalData.metadata.version}`
+        : undefined,
+      includeTableOfContents: options.includeTableOfContents ?? (proposalData.sections?.length ?? 0) > 1,
+      includePageNumbers: options.includePageNumbers ?? true,
+      margins: styles?.margins,
+      headerText: headerFooter?.includeHeader ? headerFooter.headerText : undefined,
+      footerText: headerFooter?.includeFooter ? headerFooter.footerText : undefined,
+      watermark: options.watermark,
+      styles: styles?.fontFamily || styles?.fontSize
+        ? { normal: { font: styles.fontFamily, size: styles.fontSize } }
+        : undefined,
+      branding: options.branding
     };
   }
 
   /**
-   * Generate filename for export (stub implementation)
+   * Order proposal sections for the document, falling back to the whole
+   * content when the proposal has no sections
    */
-  generateFilename(proposalData: ProposalExportData, format: string): string {
-    const timestamp = new Date().toISOString().split('T')[0];
-    return `${proposalData.title.replace(/[^a-zA-Z0-9]/g, '_')}_${timestamp}.${format}`;
+  private buildDocxSections(proposalData: ProposalExportData, options: ExportOptions): DOCXSection[] {
+    const sections: DOCXSection[] = proposalData.sections && proposalData.sections.length > 0
+      ? [...proposalData.sections]
+          .sort((a, b) => a.order - b.order)
+          .map(section => ({ title: section.title, content: section.content, level: section.level ?? 1 }))
+      : [{ title: '', content: proposalData.content }];
+
+    if (options.includeCompliance && proposalData.compliance) {
+      const { checklist, requirements } = proposalData.compliance;
+      const rows = checklist.map(item =>
+        `<tr><td>${escapeHtml(item.item)}</td><td>${COMPLIANCE_STATUS_LABELS[item.status] ?? item.status}</td><td>${escapeHtml(item.notes ?? '')}</td></tr>`
+      );
+      const content = [
+        rows.length > 0 ? `<table><tr><th>Requirement</th><th>Status</th><th>Notes</th></tr>${rows.join('')}</table>` : '',
+        requirements.length > 0
+          ? `<h1>Requirements</h1><ul>${requirements.map(req => `<li>${escapeHtml(req)}</li>`).join('')}</ul>`
+          : ''
+      ].join('');
+
+      if (content) sections.push({ title: 'Compliance Checklist', content, level: 1 });
+    }
+
+    return sections;
   }
 
   /**
@@ -0,0 +1,159 @@
+/**
+ * Knowledge Citation Service
+ * Records which Knowledge Hub chunks an answer or draft cites, so that when a
+ * newer version of the cited document is ingested the answer or draft can be
+ * flagged for review instead of carrying outdated policy text into a bid.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { CitationSourceType, KnowledgeCitation } from '@/types/rag'
+
+export interface CitationInput {
+  document_id: string
+  chunk_id: string
+  excerpt: string
+}
+
+export interface FlaggedCitation extends KnowledgeCitation {
+  document_title: string | null
+  replacement_document_title: string | null
+}
+
+const MAX_EXCERPT_LENGTH = 500
+
+export class KnowledgeCitationService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Record the chunks a source cites. Citing the same chunk again is a no-op.
+   */
+  async recordCitations(
+    sourceType: CitationSourceType,
+    sourceId: string,
+    citations: CitationInput[],
+    userId: string
+  ): Promise<number> {
+    if (citations.length === 0) return 0
+
+    const rows = citations.map(citation => ({
+      document_id: citation.document_id,
+      chunk_id: citation.chunk_id,
+      chunk_excerpt: citation.excerpt.slice(0, MAX_EXCERPT_LENGTH),
+      source_type: sourceType,
+      source_id: sourceId,
+      cited_by: userId
+    }))
+
+    const { error } = await this.supabase
+      .from('knowledge_citations')
+      .upsert(rows, { onConflict: 'source_type,source_id,chunk_id', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return rows.length
+  }
+
+  /**
+   * Give a draft the citations of an answer inserted into it. Citations the
+   * answer already has flagged stay flagged, so inserting an answer built on
+   * a superseded document warns the draft straight away.
+   */
+  async copyCitations(
+    fromType: CitationSourceType,
+    fromId: string,
+    toType: CitationSourceType,
+    toId: string,
+    userId: string
+  ): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('knowledge_citations')
+      .select('document_id, chunk_id, chunk_excerpt, needs_review, flagged_at, flag_reason, replacement_document_id')
+      .eq('source_type', fromType)
+      .eq('source_id', fromId)
+      .not('chunk_id', 'is', null)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const rows = ((data || []) as Array<Pick<KnowledgeCitation,
+      'document_id' | 'chunk_id' | 'chunk_excerpt' | 'needs_review' | 'flagged_at' | 'flag_reason' | 'replacement_document_id'
+    >>).map(citation => ({
+      ...citation,
+      source_type: toType,
+      source_id: toId,
+      cited_by: userId
+    }))
+    if (rows.length === 0) return 0
+
+    const { error: insertError } = await this.supabase
+      .from('knowledge_citations')
+      .upsert(rows, { onConflict: 'source_type,source_id,chunk_id', ignoreDuplicates: true })
+
+    if (insertError) {
+      throw new Error(`Database error: ${insertError.message}`)
+    }
+
+    return rows.length
+  }
+
+  /**
+   * Citations of superseded documents that have not been reviewed yet
+   */
+  async getFlaggedCitations(sourceType: CitationSourceType, sourceId: string): Promise<FlaggedCitation[]> {
+    const { data, error } = await this.supabase
+      .from('knowledge_citations')
+      .select(`
+        *,
+        document:knowledge_documents!knowledge_citations_document_id_fkey(title),
+        replacement:knowledge_documents!knowledge_citations_replacement_document_id_fkey(title)
+      `)
+      .eq('source_type', sourceType)
+      .eq('source_id', sourceId)
+      .eq('needs_review', true)
+      .order('flagged_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as Array<KnowledgeCitation & {
+      document: { title: string } | null
+      replacement: { title: string } | null
+    }>).map(({ document, replacement, ...citation }) => ({
+      ...citation,
+      document_title: document?.title ?? null,
+      replacement_document_title: replacement?.title ?? null
+    }))
+  }
+
+  /**
+   * Clear review flags once someone has checked the cited text against the
+   * new version
+   */
+  async markReviewed(citationIds: string[], userId: string): Promise<number> {
+    if (citationIds.length === 0) return 0
+
+    const { data, error } = await this.supabase
+      .from('knowledge_citations')
+      .update({
+        needs_review: false,
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: userId
+      })
+      .in('id', citationIds)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data?.length ?? 0
+  }
+}
+
+// Export singleton instance
+export const knowledgeCitationService = new KnowledgeCitationService()
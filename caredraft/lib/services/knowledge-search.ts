@@ -1,59 +1,288 @@
 /**
- * Knowledge Search Service (Stub Implementation)
- * This is a placeholder until the knowledge search functionality is fully implemented
+ * Knowledge Search Service
+ * One search across Knowledge Hub documents, answer bank entries, past
+ * proposals, research sessions and compliance items. Candidates from every
+ * source are scored against the query terms, filtered, counted into facets
+ * and returned with highlighted excerpts, suggestions from earlier searches
+ * and an optional AI summary of the top results.
  */
 
-'use client'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type {
+  SearchContentType,
+  SearchQuery,
+  SearchResponse,
+  SearchResult
+} from '@/types/knowledge-search'
 
-// Types for search functionality
-export interface SearchResult {
+export type { SearchQuery, SearchResponse, SearchResult, SearchSource } from '@/types/knowledge-search'
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string }
+
+export type SummaryGenerator = (messages: ChatMessage[]) => Promise<string>
+
+type SearchFilters = SearchQuery['filters']
+type FacetName = 'contentType' | 'source' | 'tags'
+
+interface KnowledgeDocumentRow {
+  id: string
+  title: string
+  content: string | null
+  document_type: string | null
+  uploaded_by: string | null
+  uploaded_at: string
+  updated_at: string | null
+  tags: string[] | null
+}
+
+interface ChunkMatchRow {
+  document_id: string
+  chunk_content: string
+  text_rank: number
+}
+
+interface AnswerRow {
   id: string
   title: string
   content: string
-  excerpt: string
-  type: 'document' | 'policy' | 'template' | 'research' | 'news' | 'compliance'
-  source: string
-  url?: string
-  date: string
-  relevanceScore: number
-  metadata: {
-    author?: string
-    tags: string[]
-    fileType?: string
-    wordCount?: number
-    lastModified?: string
-  }
-}
-
-export interface SearchQuery {
+  tags: string[] | null
+  usage_count: number | null
+  word_count: number | null
+  is_template: boolean | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+interface ProposalRow {
+  id: string
+  title: string
+  issuing_authority: string | null
+  status: string
+  created_at: string | null
+  updated_at: string | null
+}
+
+interface ResearchSessionRow {
+  id: string
+  title: string
   query: string
-  useLibraryAI: boolean
-  useInternetAI: boolean
-  filters: {
-    contentType: string
-    dateRange: string
-    source: string
-    sortBy: string
-    tags?: string[]
+  results: unknown[] | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+interface ComplianceItemRow {
+  id: string
+  proposal_id: string
+  requirement: string
+  notes: string | null
+  completed: boolean
+  created_at: string
+  updated_at: string
+}
+
+const DEFAULT_LIMIT = 20
+const CANDIDATES_PER_SOURCE = 50
+const EXCERPT_LENGTH = 240
+const SUMMARY_SOURCES = 5
+const SUGGESTION_COUNT = 5
+// Full-text hits matched stemmed terms that the substring scoring can miss
+const FULLTEXT_MATCH_SCORE = 0.4
+const HISTORY_SOURCE = 'knowledge-search'
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'our', 'the', 'to', 'we', 'what', 'with'
+])
+
+const DATE_RANGE_DAYS: Record<string, number> = {
+  today: 1,
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365
+}
+
+/**
+ * Distinct lower-case query words, without stop words
+ */
+export function tokenizeQuery(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  return [...new Set(words.filter(word => word.length > 1 && !STOP_WORDS.has(word)))]
+}
+
+/**
+ * 0-1: how many query terms the text contains, weighted towards the title,
+ * with a bonus when the whole query appears as a phrase
+ */
+export function scoreText(title: string, content: string, terms: string[], query = ''): number {
+  if (terms.length === 0) return 0
+
+  const lowerTitle = title.toLowerCase()
+  const lowerContent = content.toLowerCase()
+  const inTitle = terms.filter(term => lowerTitle.includes(term)).length
+  const inEither = terms.filter(term => lowerTitle.includes(term) || lowerContent.includes(term)).length
+
+  const phrase = query.trim().toLowerCase()
+  const phraseMatch = phrase.length > 0 && (lowerTitle.includes(phrase) || lowerContent.includes(phrase)) ? 1 : 0
+
+  return Math.round((0.6 * inEither / terms.length + 0.3 * inTitle / terms.length + 0.1 * phraseMatch) * 1000) / 1000
+}
+
+/**
+ * A window of the content around the first query term, with the terms as
+ * they appear in it
+ */
+export function buildExcerpt(
+  content: string,
+  terms: string[],
+  length: number = EXCERPT_LENGTH
+): { excerpt: string; highlights: string[] } {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const lower = text.toLowerCase()
+
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index >= 0)
+  const first = positions.length > 0 ? Math.min(...positions) : 0
+
+  let start = Math.max(0, first - Math.floor(length / 3))
+  if (start > 0) {
+    // Start on a word boundary
+    const space = text.indexOf(' ', start)
+    start = space >= 0 && space < first ? space + 1 : start
+  }
+  let end = Math.min(text.length, start + length)
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    end = space > start ? space : end
+  }
+
+  const window = text.slice(start, end)
+  const excerpt = `${start > 0 ? '…' : ''}${window}${end < text.length ? '…' : ''}`
+
+  const lowerWindow = window.toLowerCase()
+  const highlights = new Set<string>()
+  for (const term of terms) {
+    let index = lowerWindow.indexOf(term)
+    while (index >= 0) {
+      highlights.add(window.slice(index, index + term.length))
+      index = lowerWindow.indexOf(term, index + term.length)
+    }
+  }
+
+  return { excerpt, highlights: [...highlights] }
+}
+
+/**
+ * Earliest date a result may have for the range, or null for all time
+ */
+export function dateRangeStart(range: string, now: Date = new Date()): Date | null {
+  const days = DATE_RANGE_DAYS[range]
+  if (!days) return null
+  if (range === 'today') {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  }
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+}
+
+function listFilter(value: string | undefined): string[] {
+  if (!value || value === 'all') return []
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+function matchesFilters(result: SearchResult, filters: SearchFilters, since: Date | null, except?: FacetName): boolean {
+  if (since && new Date(result.date) < since) return false
+
+  const contentTypes = listFilter(filters.contentType)
+  if (except !== 'contentType' && contentTypes.length > 0 && !contentTypes.includes(result.type)) return false
+
+  const sources = listFilter(filters.source)
+  if (except !== 'source' && sources.length > 0 && !sources.includes('internal') && !sources.includes(result.source)) {
+    return false
+  }
+
+  const tags = (filters.tags || []).map(tag => tag.toLowerCase())
+  if (except !== 'tags' && tags.length > 0) {
+    const resultTags = result.metadata.tags.map(tag => tag.toLowerCase())
+    if (!tags.every(tag => resultTags.includes(tag))) return false
   }
+
+  return true
 }
 
-export interface SearchResponse {
-  results: SearchResult[]
-  totalCount: number
-  searchTime: number
-  aiSummary?: string
-  suggestedQueries?: string[]
-  facets: {
-    contentTypes: { [key: string]: number }
-    sources: { [key: string]: number }
-    tags: { [key: string]: number }
+function countBy(results: SearchResult[], keys: (result: SearchResult) => string[]): { [key: string]: number } {
+  const counts: { [key: string]: number } = {}
+  for (const result of results) {
+    for (const key of keys(result)) {
+      counts[key] = (counts[key] || 0) + 1
+    }
   }
+  return counts
+}
+
+/**
+ * Facet counts, each with every filter applied except its own so the
+ * counts show what selecting another value would return
+ */
+export function computeFacets(results: SearchResult[], filters: SearchFilters, since: Date | null): SearchResponse['facets'] {
+  const without = (facet: FacetName) => results.filter(result => matchesFilters(result, filters, since, facet))
+  return {
+    contentTypes: countBy(without('contentType'), result => [result.type]),
+    sources: countBy(without('source'), result => [result.source]),
+    tags: countBy(without('tags'), result => [...new Set(result.metadata.tags.map(tag => tag.toLowerCase()))])
+  }
+}
+
+function sortResults(results: SearchResult[], sortBy: string): SearchResult[] {
+  const byRelevance = (a: SearchResult, b: SearchResult) => b.relevanceScore - a.relevanceScore
+  const sorted = [...results]
+  switch (sortBy) {
+    case 'date':
+      return sorted.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || byRelevance(a, b))
+    case 'popularity':
+      return sorted.sort((a, b) => (b.metadata.usageCount ?? 0) - (a.metadata.usageCount ?? 0) || byRelevance(a, b))
+    case 'alphabetical':
+      return sorted.sort((a, b) => a.title.localeCompare(b.title))
+    default:
+      return sorted.sort(byRelevance)
+  }
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+// PostgREST or-filter matching any term in any of the columns. Terms come
+// from tokenizeQuery, so they contain no filter syntax or wildcards.
+function termFilter(columns: string[], terms: string[]): string {
+  return columns.flatMap(column => terms.map(term => `${column}.ilike.%${term}%`)).join(',')
+}
+
+function researchResultText(results: unknown[] | null): string {
+  return (results || [])
+    .map(result => {
+      if (!result || typeof result !== 'object') return ''
+      const { title, snippet, content } = result as Record<string, unknown>
+      return [title, snippet ?? content].filter(value => typeof value === 'string').join(': ')
+    })
+    .filter(Boolean)
+    .join(' ')
+}
+
+async function summarizeWithOpenAI(messages: ChatMessage[]): Promise<string> {
+  // Imported lazily because the client validates its environment on load
+  const { generateWithFallback } = await import('@/lib/api-client')
+  const result = await generateWithFallback(messages, false, undefined, { temperature: 0.2, maxTokens: 400 })
+  return result.text
 }
 
 export class KnowledgeSearchService {
   private static instance: KnowledgeSearchService
-  private searchHistory: string[] = []
+
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private summarize: SummaryGenerator = summarizeWithOpenAI
+  ) {}
 
   static getInstance(): KnowledgeSearchService {
     if (!KnowledgeSearchService.instance) {
@@ -63,38 +292,379 @@ export class KnowledgeSearchService {
   }
 
   /**
-   * Main search function (stub implementation)
+   * Search every internal source. External web search lives in /api/search,
+   * so useInternetAI does not change the results here.
    */
-  async search(_searchQuery: SearchQuery): Promise<SearchResponse> {
-    console.log('Stub: search called')
-    
+  async search(searchQuery: SearchQuery, userId?: string): Promise<SearchResponse> {
+    const startedAt = Date.now()
+    const query = searchQuery.query.trim()
+    const terms = tokenizeQuery(query)
+    const filters = searchQuery.filters
+
+    if (terms.length === 0) {
+      return {
+        results: [],
+        totalCount: 0,
+        searchTime: Date.now() - startedAt,
+        suggestedQueries: [],
+        facets: { contentTypes: {}, sources: {}, tags: {} }
+      }
+    }
+
+    const candidates = (await Promise.all([
+      this.searchDocuments(query, terms),
+      this.searchAnswers(query, terms),
+      this.searchProposals(query, terms),
+      this.searchResearchSessions(query, terms),
+      this.searchComplianceItems(query, terms)
+    ])).flat()
+
+    const since = dateRangeStart(filters.dateRange)
+    const matching = sortResults(
+      candidates.filter(result => matchesFilters(result, filters, since)),
+      filters.sortBy
+    )
+    const results = matching.slice(0, searchQuery.limit ?? DEFAULT_LIMIT)
+
+    const [suggestedQueries, aiSummary] = await Promise.all([
+      this.getSuggestedQueries(query, terms),
+      searchQuery.includeSummary ? this.summarizeResults(query, results) : Promise.resolve(undefined)
+    ])
+
+    if (userId) {
+      await this.recordSearch(userId, query, matching.length, filters)
+    }
+
     return {
-      results: [],
-      totalCount: 0,
-      searchTime: 100,
-      aiSummary: 'Knowledge search functionality is not yet implemented',
-      suggestedQueries: [],
-      facets: {
-        contentTypes: {},
-        sources: {},
-        tags: {}
+      results,
+      totalCount: matching.length,
+      searchTime: Date.now() - startedAt,
+      aiSummary,
+      suggestedQueries,
+      facets: computeFacets(candidates, filters, since)
+    }
+  }
+
+  /**
+   * The user's recent Knowledge Hub searches, newest first
+   */
+  async getSearchHistory(userId: string, limit: number = 10): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('rag_search_queries')
+      .select('query_text')
+      .eq('user_id', userId)
+      .eq('metadata->>source', HISTORY_SOURCE)
+      .order('search_timestamp', { ascending: false })
+      .limit(limit * 4)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const history: string[] = []
+    for (const row of (data || []) as Array<{ query_text: string }>) {
+      if (!history.some(entry => entry.toLowerCase() === row.query_text.toLowerCase())) {
+        history.push(row.query_text)
       }
+      if (history.length >= limit) break
     }
+    return history
   }
 
   /**
-   * Get search history (stub implementation)
+   * Forget the user's Knowledge Hub searches
    */
-  getSearchHistory(): string[] {
-    console.log('Stub: getSearchHistory called')
-    return this.searchHistory
+  async clearSearchHistory(userId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('rag_search_queries')
+      .delete()
+      .eq('user_id', userId)
+      .eq('metadata->>source', HISTORY_SOURCE)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+
+  private async searchDocuments(query: string, terms: string[]): Promise<SearchResult[]> {
+    const { data: chunks, error: chunkError } = await this.supabase.rpc('search_chunks_fulltext', {
+      query_text: query,
+      max_results: CANDIDATES_PER_SOURCE
+    })
+    if (chunkError) {
+      console.error('Knowledge document search failed:', chunkError)
+    }
+
+    // Best chunk per document
+    const bestChunks = new Map<string, ChunkMatchRow>()
+    for (const chunk of (chunks || []) as ChunkMatchRow[]) {
+      const current = bestChunks.get(chunk.document_id)
+      if (!current || chunk.text_rank > current.text_rank) {
+        bestChunks.set(chunk.document_id, chunk)
+      }
+    }
+
+    const matchers = [termFilter(['title'], terms)]
+    if (bestChunks.size > 0) {
+      matchers.unshift(`id.in.(${[...bestChunks.keys()].join(',')})`)
+    }
+
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('id, title, content, document_type, uploaded_by, uploaded_at, updated_at, tags')
+      .eq('is_active', true)
+      .is('superseded_at', null)
+      .or(matchers.join(','))
+      .limit(CANDIDATES_PER_SOURCE)
+
+    if (error) {
+      console.error('Knowledge document search failed:', error)
+      return []
+    }
+
+    return ((data || []) as KnowledgeDocumentRow[]).map(document => {
+      const chunk = bestChunks.get(document.id)
+      const text = chunk?.chunk_content ?? document.content ?? ''
+      const tags = document.tags || []
+      const lowerTags = tags.map(tag => tag.toLowerCase())
+      const type: SearchContentType = lowerTags.includes('template')
+        ? 'template'
+        : lowerTags.includes('policy') || /\bpolicy\b/i.test(document.title) ? 'policy' : 'document'
+      const score = scoreText(document.title, text, terms, query)
+
+      return this.toResult({
+        id: document.id,
+        title: document.title,
+        content: text,
+        type,
+        source: 'knowledge-base',
+        date: document.updated_at ?? document.uploaded_at,
+        relevanceScore: chunk ? Math.max(score, FULLTEXT_MATCH_SCORE) : score,
+        metadata: {
+          author: document.uploaded_by ?? undefined,
+          tags,
+          fileType: document.document_type ?? undefined,
+          wordCount: document.content ? wordCount(document.content) : undefined,
+          lastModified: document.updated_at ?? undefined
+        }
+      }, terms)
+    })
+  }
+
+  private async searchAnswers(query: string, terms: string[]): Promise<SearchResult[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select('id, title, content, tags, usage_count, word_count, is_template, created_at, updated_at')
+      .is('merged_into_id', null)
+      .or(termFilter(['title', 'content'], terms))
+      .order('usage_count', { ascending: false })
+      .limit(CANDIDATES_PER_SOURCE)
+
+    if (error) {
+      console.error('Answer bank search failed:', error)
+      return []
+    }
+
+    return ((data || []) as AnswerRow[]).map(answer => this.toResult({
+      id: answer.id,
+      title: answer.title,
+      content: answer.content,
+      type: answer.is_template ? 'template' : 'answer',
+      source: 'answer-bank',
+      url: '/answer-bank',
+      date: answer.updated_at ?? answer.created_at ?? '',
+      relevanceScore: scoreText(answer.title, answer.content, terms, query),
+      metadata: {
+        tags: answer.tags || [],
+        wordCount: answer.word_count || wordCount(answer.content),
+        usageCount: answer.usage_count ?? 0,
+        lastModified: answer.updated_at ?? undefined
+      }
+    }, terms))
+  }
+
+  private async searchProposals(query: string, terms: string[]): Promise<SearchResult[]> {
+    const { data, error } = await this.supabase
+      .from('proposals')
+      .select('id, title, issuing_authority, status, created_at, updated_at')
+      .or(termFilter(['title', 'issuing_authority'], terms))
+      .order('updated_at', { ascending: false })
+      .limit(CANDIDATES_PER_SOURCE)
+
+    if (error) {
+      console.error('Proposal search failed:', error)
+      return []
+    }
+
+    return ((data || []) as ProposalRow[]).map(proposal => {
+      const content = [
+        proposal.title,
+        proposal.issuing_authority ? `Issued by ${proposal.issuing_authority}` : null,
+        `Status: ${proposal.status.replace(/_/g, ' ')}`
+      ].filter(Boolean).join('. ')
+
+      return this.toResult({
+        id: proposal.id,
+        title: proposal.title,
+        content,
+        type: 'proposal',
+        source: 'proposals',
+        url: `/proposals/${proposal.id}`,
+        date: proposal.updated_at ?? proposal.created_at ?? '',
+        relevanceScore: scoreText(proposal.title, content, terms, query),
+        metadata: {
+          tags: [proposal.status],
+          lastModified: proposal.updated_at ?? undefined
+        }
+      }, terms)
+    })
+  }
+
+  private async searchResearchSessions(query: string, terms: string[]): Promise<SearchResult[]> {
+    const { data, error } = await this.supabase
+      .from('research_sessions')
+      .select('id, title, query, results, created_at, updated_at')
+      .or(termFilter(['title', 'query'], terms))
+      .order('updated_at', { ascending: false })
+      .limit(CANDIDATES_PER_SOURCE)
+
+    if (error) {
+      console.error('Research session search failed:', error)
+      return []
+    }
+
+    return ((data || []) as ResearchSessionRow[]).map(session => {
+      const content = `${session.query} ${researchResultText(session.results)}`.trim()
+      return this.toResult({
+        id: session.id,
+        title: session.title,
+        content,
+        type: 'research',
+        source: 'research-sessions',
+        date: session.updated_at ?? session.created_at ?? '',
+        relevanceScore: scoreText(session.title, content, terms, query),
+        metadata: {
+          tags: [],
+          lastModified: session.updated_at ?? undefined
+        }
+      }, terms)
+    })
+  }
+
+  private async searchComplianceItems(query: string, terms: string[]): Promise<SearchResult[]> {
+    const { data, error } = await this.supabase
+      .from('compliance_items')
+      .select('id, proposal_id, requirement, notes, completed, created_at, updated_at')
+      .or(termFilter(['requirement', 'notes'], terms))
+      .order('updated_at', { ascending: false })
+      .limit(CANDIDATES_PER_SOURCE)
+
+    if (error) {
+      console.error('Compliance item search failed:', error)
+      return []
+    }
+
+    return ((data || []) as ComplianceItemRow[]).map(item => {
+      const content = [item.requirement, item.notes].filter(Boolean).join('\n')
+      const title = item.requirement.length > 80 ? `${item.requirement.slice(0, 80).trimEnd()}…` : item.requirement
+      return this.toResult({
+        id: item.id,
+        title,
+        content,
+        type: 'compliance',
+        source: 'compliance',
+        url: `/proposals/${item.proposal_id}`,
+        date: item.updated_at,
+        relevanceScore: scoreText(item.requirement, content, terms, query),
+        metadata: {
+          tags: [item.completed ? 'completed' : 'outstanding'],
+          lastModified: item.updated_at
+        }
+      }, terms)
+    })
+  }
+
+  private toResult(result: Omit<SearchResult, 'excerpt'>, terms: string[]): SearchResult {
+    const { excerpt, highlights } = buildExcerpt(result.content, terms)
+    return { ...result, excerpt, metadata: { ...result.metadata, highlights } }
   }
 
   /**
-   * Clear search history (stub implementation)
+   * Earlier searches sharing a term with this one, most frequent first
    */
-  clearSearchHistory(): void {
-    console.log('Stub: clearSearchHistory called')
-    this.searchHistory = []
+  private async getSuggestedQueries(query: string, terms: string[]): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('rag_search_queries')
+      .select('query_text')
+      .gt('results_count', 0)
+      .or(termFilter(['query_text'], terms))
+      .order('search_timestamp', { ascending: false })
+      .limit(100)
+
+    if (error) {
+      console.error('Failed to load suggested queries:', error)
+      return []
+    }
+
+    const current = query.toLowerCase()
+    const counts = new Map<string, { text: string; count: number; order: number }>()
+    const rows = (data || []) as Array<{ query_text: string }>
+    rows.forEach((row, order) => {
+      const text = row.query_text.trim()
+      const key = text.toLowerCase()
+      if (!key || key === current) return
+      const entry = counts.get(key)
+      if (entry) {
+        entry.count += 1
+      } else {
+        counts.set(key, { text, count: 1, order })
+      }
+    })
+
+    return [...counts.values()]
+      .sort((a, b) => b.count - a.count || a.order - b.order)
+      .slice(0, SUGGESTION_COUNT)
+      .map(entry => entry.text)
   }
-} 
\ No newline at end of file
+
+  private async summarizeResults(query: string, results: SearchResult[]): Promise<string | undefined> {
+    const top = results.slice(0, SUMMARY_SOURCES)
+    if (top.length === 0) return undefined
+
+    const sources = top
+      .map((result, index) => `[${index + 1}] ${result.title} (${result.type})\n${result.excerpt}`)
+      .join('\n\n')
+
+    try {
+      const summary = await this.summarize([
+        {
+          role: 'system',
+          content: 'You summarise internal search results for a UK care provider writing tenders. ' +
+            'Use only the numbered sources, cite them as [n], and keep to three or four sentences.'
+        },
+        { role: 'user', content: `Search: ${query}\n\nSources:\n${sources}` }
+      ])
+      return summary.trim() || undefined
+    } catch (error) {
+      // The results are still useful without a summary
+      console.error('Failed to summarise search results:', error)
+      return undefined
+    }
+  }
+
+  private async recordSearch(userId: string, query: string, resultsCount: number, filters: SearchFilters): Promise<void> {
+    const { error } = await this.supabase
+      .from('rag_search_queries')
+      .insert({
+        user_id: userId,
+        query_text: query,
+        results_count: resultsCount,
+        metadata: { source: HISTORY_SOURCE, filters }
+      })
+
+    if (error) {
+      // Search history should never fail the search itself
+      console.error('Failed to record search:', error)
+    }
+  }
+}
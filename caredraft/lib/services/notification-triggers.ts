@@ -1,8 +1,11 @@
 /**
- * Notification Triggers Service (Stub Implementation)
- * This is a placeholder until the notification triggers functionality is fully implemented
+ * Notification Triggers Service
+ * Mention notifications are created; the other triggers are still stubs
+ * until their features are implemented
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
 import type { NotificationInsert } from '@/lib/database.types'
 
 export interface MentionTriggerData {
@@ -13,6 +16,7 @@ export interface MentionTriggerData {
   entityId: string
   entityTitle: string
   mentionContext: string
+  actionUrl?: string
 }
 
 export interface DeadlineTriggerData {
@@ -75,6 +79,8 @@ export interface DocumentSharedTriggerData {
 export class NotificationTriggersService {
   private static instance: NotificationTriggersService
 
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
   static getInstance(): NotificationTriggersService {
     if (!NotificationTriggersService.instance) {
       NotificationTriggersService.instance = new NotificationTriggersService()
@@ -83,10 +89,31 @@ export class NotificationTriggersService {
   }
 
   /**
-   * Trigger mention notification (stub implementation)
+   * Notify a user they were mentioned. Mentioning yourself sends nothing.
    */
-  async triggerMentionNotification(_data: MentionTriggerData): Promise<void> {
-    console.log('Stub: triggerMentionNotification called')
+  async triggerMentionNotification(data: MentionTriggerData): Promise<void> {
+    if (data.mentionedUserId === data.mentionerUserId) return
+
+    const notification: NotificationInsert = {
+      user_id: data.mentionedUserId,
+      type: 'mention',
+      title: `${data.mentionerName} mentioned you in "${data.entityTitle}"`,
+      content: {
+        message: data.mentionContext,
+        entityType: data.entityType,
+        entityId: data.entityId
+      },
+      action_url: data.actionUrl ?? null,
+      related_entity_type: data.entityType,
+      related_entity_id: data.entityId,
+      sender_id: data.mentionerUserId,
+      priority: 2
+    }
+
+    const { error } = await this.supabase.from('notifications').insert(notification)
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
   }
 
   /**
@@ -0,0 +1,299 @@
+/**
+ * Portal Export Service
+ * Exports tender question responses in the question-by-question layout that
+ * commissioner e-tendering portals expect: a spreadsheet, a CSV, or a copy
+ * pack of plain-text answers ready to paste. Word counts are checked against
+ * each question's word limit so over-limit answers are caught before upload.
+ */
+
+import JSZip from 'jszip'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TenderQuestion } from '@/lib/types/tender'
+import { compareQuestionNumbers } from '@/lib/services/tender-sections'
+import { countRichTextWords, parseRichText, richTextToPortalText } from '@/lib/utils/rich-text'
+
+export const PORTAL_EXPORT_FORMATS = ['xlsx', 'csv', 'portal-pack'] as const
+export type PortalExportFormat = typeof PORTAL_EXPORT_FORMATS[number]
+
+export const PORTAL_EXPORT_CONTENT_TYPES: Record<PortalExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  'portal-pack': 'application/zip'
+}
+
+export const PORTAL_EXPORT_EXTENSIONS: Record<PortalExportFormat, string> = {
+  xlsx: 'xlsx',
+  csv: 'csv',
+  'portal-pack': 'zip'
+}
+
+export interface PortalExportRow {
+  questionId: string
+  questionNumber: string
+  questionText: string
+  category?: string
+  response: string
+  wordCount: number
+  wordLimit?: number
+  overLimit: boolean
+  weighting?: number
+  mandatory: boolean
+  status: TenderQuestion['status']
+}
+
+export interface WordLimitViolation {
+  questionId: string
+  questionNumber: string
+  wordCount: number
+  wordLimit: number
+}
+
+interface PortalExportColumn {
+  header: string
+  width: number
+  value: (row: PortalExportRow) => string | number | undefined
+}
+
+const COLUMNS: PortalExportColumn[] = [
+  { header: 'Question Number', width: 12, value: row => row.questionNumber },
+  { header: 'Question', width: 50, value: row => row.questionText },
+  { header: 'Response', width: 90, value: row => row.response },
+  { header: 'Word Count', width: 12, value: row => row.wordCount },
+  { header: 'Word Limit', width: 12, value: row => row.wordLimit },
+  { header: 'Over Limit', width: 11, value: row => (row.overLimit ? 'Yes' : 'No') },
+  { header: 'Weighting (%)', width: 14, value: row => row.weighting },
+  { header: 'Category', width: 20, value: row => row.category },
+  { header: 'Mandatory', width: 11, value: row => (row.mandatory ? 'Yes' : 'No') },
+  { header: 'Status', width: 14, value: row => row.status.replace(/_/g, ' ') }
+]
+
+/**
+ * Build export rows from tender questions in question number order.
+ * Responses are converted from editor HTML to plain text and word counts
+ * are recalculated rather than trusting the stored count.
+ */
+export function buildPortalExportRows(questions: TenderQuestion[]): PortalExportRow[] {
+  return [...questions]
+    .sort((a, b) => compareQuestionNumbers(a.question_number, b.question_number))
+    .map((question, index) => {
+      const content = question.response_content ?? ''
+      const wordCount = countRichTextWords(content)
+      const wordLimit = question.word_limit ?? undefined
+
+      return {
+        questionId: question.id,
+        questionNumber: question.question_number?.trim() || String(index + 1),
+        questionText: question.question_text.trim(),
+        category: question.question_category ?? undefined,
+        response: richTextToPortalText(parseRichText(content)),
+        wordCount,
+        wordLimit,
+        overLimit: !!wordLimit && wordCount > wordLimit,
+        weighting: question.weighting_percentage ?? undefined,
+        mandatory: question.mandatory,
+        status: question.status
+      }
+    })
+}
+
+/**
+ * List responses that exceed their question's word limit
+ */
+export function getWordLimitViolations(rows: PortalExportRow[]): WordLimitViolation[] {
+  return rows
+    .filter(row => row.overLimit)
+    .map(row => ({
+      questionId: row.questionId,
+      questionNumber: row.questionNumber,
+      wordCount: row.wordCount,
+      wordLimit: row.wordLimit!
+    }))
+}
+
+/**
+ * Question text and answers come from tender documents and users, so text a
+ * spreadsheet would read as a formula is prefixed with an apostrophe
+ */
+function neutraliseFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+}
+
+/**
+ * Render rows as RFC 4180 CSV with a BOM so Excel reads UTF-8 correctly
+ */
+export function toPortalCsv(rows: PortalExportRow[]): string {
+  const escape = (value: string | number | undefined) => {
+    const text = value === undefined ? '' : typeof value === 'number' ? String(value) : neutraliseFormula(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const lines = [
+    COLUMNS.map(column => escape(column.header)).join(','),
+    ...rows.map(row => COLUMNS.map(column => escape(column.value(row))).join(','))
+  ]
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+/**
+ * Spreadsheet column letter for a zero-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Cell style indexes into cellXfs in XLSX_STYLES
+const STYLE_HEADER = 1
+const STYLE_WRAP = 2
+const STYLE_OVER_LIMIT = 3
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><color rgb="FF9C0006"/><name val="Calibri"/></font></fonts>
+<fills count="4"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE7E6E6"/><bgColor indexed="64"/></patternFill></fill><fill><patternFill patternType="solid"><fgColor rgb="FFFFC7CE"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top"/></xf><xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf><xf numFmtId="0" fontId="2" fillId="3" borderId="0" xfId="0" applyFont="1" applyFill="1" applyAlignment="1"><alignment vertical="top"/></xf></cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+
+/**
+ * Render rows as a single-sheet XLSX workbook. Over-limit word counts are
+ * highlighted and the header row is frozen with a filter.
+ */
+export async function toPortalXlsx(rows: PortalExportRow[], sheetName = 'Responses'): Promise<Buffer> {
+  const cell = (ref: string, value: string | number | undefined, style = 0) => {
+    const styleAttr = style ? ` s="${style}"` : ''
+    if (value === undefined || value === '') return `<c r="${ref}"${styleAttr}/>`
+    if (typeof value === 'number') return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`
+    return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(neutraliseFormula(value))}</t></is></c>`
+  }
+
+  const headerRow = `<row r="1">${COLUMNS.map((column, index) => cell(`${columnName(index)}1`, column.header, STYLE_HEADER)).join('')}</row>`
+  const dataRows = rows.map((row, rowIndex) => {
+    const r = rowIndex + 2
+    const cells = COLUMNS.map((column, index) => {
+      const style = row.overLimit && (column.header === 'Word Count' || column.header === 'Over Limit')
+        ? STYLE_OVER_LIMIT
+        : STYLE_WRAP
+      return cell(`${columnName(index)}${r}`, column.value(row), style)
+    })
+    return `<row r="${r}">${cells.join('')}</row>`
+  })
+  const lastRef = `${columnName(COLUMNS.length - 1)}${rows.length + 1}`
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${COLUMNS.map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`).join('')}</cols>
+<sheetData>${headerRow}${dataRows.join('')}</sheetData>
+<autoFilter ref="A1:${lastRef}"/>
+</worksheet>`
+
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`)
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`)
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>
+<definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'${escapeXml(sheetName.slice(0, 31))}'!$A$1:$${columnName(COLUMNS.length - 1)}$${rows.length + 1}</definedName></definedNames>
+</workbook>`)
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`)
+  zip.file('xl/styles.xml', XLSX_STYLES)
+  zip.file('xl/worksheets/sheet1.xml', sheet)
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/**
+ * Word count summary shown next to each answer, e.g. "480 / 500 words"
+ */
+function wordCountLabel(row: PortalExportRow): string {
+  const count = row.wordLimit ? `${row.wordCount} / ${row.wordLimit} words` : `${row.wordCount} words`
+  return row.overLimit ? `${count} (OVER LIMIT by ${row.wordCount - row.wordLimit!})` : count
+}
+
+/**
+ * Build a ZIP of plain-text answers: one file per question containing only
+ * the answer (for pasting), plus a combined file with questions and counts
+ */
+export async function toPortalCopyPack(rows: PortalExportRow[], title = 'Tender responses'): Promise<Buffer> {
+  const zip = new JSZip()
+  const pad = String(rows.length).length
+
+  const combined = rows.map(row => [
+    `${row.questionNumber}. ${row.questionText}`,
+    [wordCountLabel(row), row.weighting !== undefined ? `Weighting: ${row.weighting}%` : null].filter(Boolean).join(' | '),
+    '',
+    row.response || '[No response drafted]'
+  ].join('\n'))
+
+  zip.file('all-answers.txt', `${title}\n${'='.repeat(title.length)}\n\n${combined.join(`\n\n${'-'.repeat(40)}\n\n`)}\n`)
+
+  rows.forEach((row, index) => {
+    const safeNumber = row.questionNumber.replace(/[^a-zA-Z0-9.-]+/g, '-').replace(/^-+|-+$/g, '')
+    zip.file(`answers/${String(index + 1).padStart(pad, '0')}-Q${safeNumber}.txt`, `${row.response}\n`)
+  })
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+export class PortalExportService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Load the questions of a tender workflow as export rows
+   */
+  async getExportRows(tenderWorkflowId: string): Promise<PortalExportRow[]> {
+    const { data, error } = await this.supabase
+      .from('tender_questions')
+      .select('*')
+      .eq('tender_workflow_id', tenderWorkflowId)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return buildPortalExportRows((data || []) as TenderQuestion[])
+  }
+
+  /**
+   * Render rows in the requested portal format
+   */
+  async render(rows: PortalExportRow[], format: PortalExportFormat, title?: string): Promise<Buffer> {
+    switch (format) {
+      case 'xlsx':
+        return toPortalXlsx(rows)
+      case 'csv':
+        return Buffer.from(toPortalCsv(rows), 'utf-8')
+      case 'portal-pack':
+        return toPortalCopyPack(rows, title)
+    }
+  }
+}
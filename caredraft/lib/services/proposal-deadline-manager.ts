@@ -1,8 +1,19 @@
 /**
- * Proposal Deadline Manager Service (Stub Implementation)
+ * Proposal Deadline Manager Service
+ * Applies per-organisation deadline rules to proposals based on how long they
+ * have been in their current status: sends reminders as deadlines approach
+ * and moves overdue proposals on, or asks managers to approve the move
  */
 
-import { ProposalStatus } from '@/lib/database.types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type {
+  Json,
+  NotificationInsert,
+  ProposalDeadlineRuleRow,
+  ProposalDeadlineRun,
+  ProposalStatus
+} from '@/lib/database.types'
 
 export interface DeadlineRule {
   id: string
@@ -13,10 +24,12 @@ export interface DeadlineRule {
   autoTransition: boolean
   requiresApproval: boolean
   description: string
+  enabled?: boolean
 }
 
 export interface DeadlineCheckResult {
   proposalId: string
+  proposalTitle: string
   currentStatus: ProposalStatus
   statusChangedAt: string
   deadlineAt: string
@@ -24,6 +37,9 @@ export interface DeadlineCheckResult {
   shouldNotify: boolean
   shouldTransition: boolean
   applicableRule: DeadlineRule | null
+  /** Reminder thresholds reached but not yet sent */
+  dueNotificationHours: number[]
+  /** Hours until the next reminder, or null when none are left */
   nextNotificationHours: number | null
 }
 
@@ -39,51 +55,595 @@ export interface DeadlineProcessingResult {
   }>
 }
 
-export class ProposalDeadlineManager {
-  constructor() {
-    console.log('Stub: ProposalDeadlineManager initialized')
+export interface DeadlineProcessingRun extends DeadlineProcessingResult {
+  id: string
+  organizationId: string
+  triggeredBy: string | null
+  durationMs: number | null
+}
+
+interface ProposalRow {
+  id: string
+  title: string
+  status: ProposalStatus
+  owner_id: string
+  created_at: string | null
+  updated_at: string | null
+}
+
+interface DeadlineContext {
+  proposal: ProposalRow
+  organizationId: string
+  rule: DeadlineRule
+  statusChangedAt: string
+  sentNotificationHours: number[]
+  approvalRequested: boolean
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function toDeadlineRule(row: ProposalDeadlineRuleRow): DeadlineRule {
+  return {
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    deadlineHours: row.deadline_hours,
+    notificationHours: [...(row.notification_hours || [])].sort((a, b) => b - a),
+    autoTransition: row.auto_transition,
+    requiresApproval: row.requires_approval,
+    description: row.description,
+    enabled: row.enabled
   }
+}
+
+/**
+ * Check a set of rules for an organisation. Returns one message per problem.
+ */
+export function validateDeadlineRules(rules: DeadlineRule[]): string[] {
+  const errors: string[] = []
+  const seen = new Set<ProposalStatus>()
+
+  rules.forEach(rule => {
+    const label = `${rule.fromStatus} → ${rule.toStatus}`
+    if (rule.fromStatus === rule.toStatus) {
+      errors.push(`${label}: a rule must move the proposal to a different status`)
+    }
+    if (seen.has(rule.fromStatus)) {
+      errors.push(`${label}: only one rule is allowed per status`)
+    }
+    seen.add(rule.fromStatus)
+    if (!Number.isInteger(rule.deadlineHours) || rule.deadlineHours <= 0) {
+      errors.push(`${label}: deadline must be a positive number of hours`)
+    }
+    rule.notificationHours.forEach(hours => {
+      if (!Number.isInteger(hours) || hours < 0 || hours > rule.deadlineHours) {
+        errors.push(`${label}: reminder at ${hours}h must be between 0 and the deadline`)
+      }
+    })
+  })
+
+  return errors
+}
+
+/**
+ * Work out where a proposal stands against its deadline rule
+ */
+export function evaluateDeadline(
+  input: {
+    proposalId: string
+    proposalTitle: string
+    currentStatus: ProposalStatus
+    statusChangedAt: string
+    rule: DeadlineRule
+    sentNotificationHours: number[]
+  },
+  now: Date = new Date()
+): DeadlineCheckResult {
+  const { rule } = input
+  const deadline = new Date(new Date(input.statusChangedAt).getTime() + rule.deadlineHours * HOUR_MS)
+  const hoursRemaining = Math.round(((deadline.getTime() - now.getTime()) / HOUR_MS) * 10) / 10
+  const sent = new Set(input.sentNotificationHours)
+
+  const dueNotificationHours = rule.notificationHours.filter(hours => hoursRemaining <= hours && !sent.has(hours))
+  const upcoming = rule.notificationHours.filter(hours => hoursRemaining > hours)
+  const nextThreshold = upcoming.length > 0 ? Math.max(...upcoming) : null
 
-  async getDeadlineRules(): Promise<DeadlineRule[]> {
-    return []
+  return {
+    proposalId: input.proposalId,
+    proposalTitle: input.proposalTitle,
+    currentStatus: input.currentStatus,
+    statusChangedAt: input.statusChangedAt,
+    deadlineAt: deadline.toISOString(),
+    hoursRemaining,
+    shouldNotify: dueNotificationHours.length > 0,
+    shouldTransition: rule.autoTransition && hoursRemaining <= 0,
+    applicableRule: rule,
+    dueNotificationHours,
+    nextNotificationHours: nextThreshold === null ? null : Math.round((hoursRemaining - nextThreshold) * 10) / 10
   }
+}
+
+function formatHours(hours: number): string {
+  if (hours <= 0) return 'now'
+  if (hours < 48) return `${Math.round(hours)} hours`
+  return `${Math.round(hours / 24)} days`
+}
+
+export class ProposalDeadlineManager {
+  /**
+   * The deadline processor runs without a signed-in user, so the cron route
+   * passes an admin client
+   */
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Get the deadline rules of an organisation
+   */
+  async getDeadlineRules(organizationId: string): Promise<DeadlineRule[]> {
+    const { data, error } = await this.supabase
+      .from('proposal_deadline_rules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('from_status', { ascending: true })
 
-  async updateDeadlineRules(_rules: DeadlineRule[]): Promise<boolean> {
-    return false
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as ProposalDeadlineRuleRow[]).map(toDeadlineRule)
+  }
+
+  /**
+   * Replace the deadline rules of an organisation
+   */
+  async updateDeadlineRules(organizationId: string, rules: DeadlineRule[]): Promise<boolean> {
+    const errors = validateDeadlineRules(rules)
+    if (errors.length > 0) {
+      throw new Error(`Invalid deadline rules: ${errors.join('; ')}`)
+    }
+
+    const statuses = rules.map(rule => rule.fromStatus)
+    let removal = this.supabase
+      .from('proposal_deadline_rules')
+      .delete()
+      .eq('organization_id', organizationId)
+    if (statuses.length > 0) {
+      removal = removal.not('from_status', 'in', `(${statuses.join(',')})`)
+    }
+
+    const { error: deleteError } = await removal
+    if (deleteError) {
+      throw new Error(`Database error: ${deleteError.message}`)
+    }
+
+    if (rules.length === 0) return true
+
+    const { error } = await this.supabase
+      .from('proposal_deadline_rules')
+      .upsert(
+        rules.map(rule => ({
+          organization_id: organizationId,
+          from_status: rule.fromStatus,
+          to_status: rule.toStatus,
+          deadline_hours: rule.deadlineHours,
+          notification_hours: rule.notificationHours,
+          auto_transition: rule.autoTransition,
+          requires_approval: rule.requiresApproval,
+          description: rule.description,
+          enabled: rule.enabled ?? true,
+          updated_at: new Date().toISOString()
+        })),
+        { onConflict: 'organization_id,from_status' }
+      )
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return true
   }
 
-  async checkProposalDeadline(_proposalId: string): Promise<DeadlineCheckResult | null> {
-    return null
+  /**
+   * Check a single proposal against its organisation's rules. Returns null
+   * when no rule applies to the proposal's current status.
+   */
+  async checkProposalDeadline(proposalId: string): Promise<DeadlineCheckResult | null> {
+    const { contexts } = await this.loadDeadlineContexts({ proposalIds: [proposalId] })
+    const context = contexts[0]
+    return context ? this.evaluateContext(context) : null
   }
 
+  /**
+   * Send a deadline reminder to one user
+   */
   async sendDeadlineNotification(
-    _proposalId: string, 
-    _recipientUserId: string, 
-    _checkResult: DeadlineCheckResult
+    proposalId: string,
+    recipientUserId: string,
+    checkResult: DeadlineCheckResult
   ): Promise<boolean> {
-    return false
+    const overdue = checkResult.hoursRemaining <= 0
+    const nextStatus = checkResult.applicableRule?.toStatus
+
+    await this.createNotifications([{
+      user_id: recipientUserId,
+      type: 'deadline',
+      title: overdue
+        ? `"${checkResult.proposalTitle}" is overdue`
+        : `"${checkResult.proposalTitle}" is due in ${formatHours(checkResult.hoursRemaining)}`,
+      content: {
+        message: overdue
+          ? `This proposal has been in ${checkResult.currentStatus} past its deadline${nextStatus ? ` and should move to ${nextStatus}` : ''}.`
+          : `This proposal should move from ${checkResult.currentStatus}${nextStatus ? ` to ${nextStatus}` : ''} by ${new Date(checkResult.deadlineAt).toLocaleString('en-GB')}.`,
+        deadlineAt: checkResult.deadlineAt,
+        hoursRemaining: checkResult.hoursRemaining,
+        currentStatus: checkResult.currentStatus
+      },
+      action_url: `/proposals/${proposalId}`,
+      related_entity_type: 'proposal',
+      related_entity_id: proposalId,
+      priority: overdue ? 3 : 2
+    }])
+
+    return true
   }
 
+  /**
+   * Move an overdue proposal on to the rule's next status. Returns false if
+   * the proposal had already left the status the rule applies to.
+   */
   async performAutomaticTransition(
-    _proposalId: string, 
-    _checkResult: DeadlineCheckResult
+    proposalId: string,
+    checkResult: DeadlineCheckResult
   ): Promise<boolean> {
-    return false
+    const rule = checkResult.applicableRule
+    if (!rule) return false
+
+    const { data, error } = await this.supabase.rpc('apply_proposal_deadline_transition', {
+      p_proposal_id: proposalId,
+      p_from_status: rule.fromStatus,
+      p_to_status: rule.toStatus,
+      p_reason: `Deadline passed: ${rule.description || `${rule.deadlineHours} hours in ${rule.fromStatus}`}`
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data === true
   }
 
-  async processAllProposalDeadlines(): Promise<DeadlineProcessingResult> {
-    return {
-      processedAt: new Date().toISOString(),
+  /**
+   * Process deadlines for every organisation with rules, or just one.
+   * Each organisation's run is recorded for the deadline dashboard.
+   */
+  async processAllProposalDeadlines(
+    options: { organizationId?: string; triggeredBy?: string } = {}
+  ): Promise<DeadlineProcessingResult> {
+    const processedAt = new Date().toISOString()
+    const { organizationIds, contexts } = await this.loadDeadlineContexts({ organizationId: options.organizationId })
+
+    const total: DeadlineProcessingResult = {
+      processedAt,
       proposalsChecked: 0,
       notificationsSent: 0,
       transitionsPerformed: 0,
       errors: []
     }
+
+    for (const organizationId of organizationIds) {
+      const startedAt = Date.now()
+      const result = await this.processOrganization(contexts.filter(context => context.organizationId === organizationId))
+
+      const { error } = await this.supabase
+        .from('proposal_deadline_runs')
+        .insert({
+          organization_id: organizationId,
+          triggered_by: options.triggeredBy ?? null,
+          processed_at: processedAt,
+          proposals_checked: result.proposalsChecked,
+          notifications_sent: result.notificationsSent,
+          transitions_performed: result.transitionsPerformed,
+          errors: result.errors as unknown as Json,
+          duration_ms: Date.now() - startedAt
+        })
+
+      if (error) {
+        console.error('Failed to record deadline run:', error)
+      }
+
+      total.proposalsChecked += result.proposalsChecked
+      total.notificationsSent += result.notificationsSent
+      total.transitionsPerformed += result.transitionsPerformed
+      total.errors.push(...result.errors)
+    }
+
+    return total
   }
 
-  async getUpcomingDeadlines(_hoursAhead: number = 168): Promise<DeadlineCheckResult[]> {
-    return []
+  /**
+   * Deadlines falling within the next `hoursAhead` hours, including overdue
+   * ones, soonest first
+   */
+  async getUpcomingDeadlines(hoursAhead: number = 168, organizationId?: string): Promise<DeadlineCheckResult[]> {
+    const { contexts } = await this.loadDeadlineContexts({ organizationId })
+
+    return contexts
+      .map(context => this.evaluateContext(context))
+      .filter(check => check.hoursRemaining <= hoursAhead)
+      .sort((a, b) => a.hoursRemaining - b.hoursRemaining)
   }
+
+  /**
+   * Recent processing runs for an organisation, newest first
+   */
+  async getProcessingRuns(organizationId: string, limit: number = 20): Promise<DeadlineProcessingRun[]> {
+    const { data, error } = await this.supabase
+      .from('proposal_deadline_runs')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('processed_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as ProposalDeadlineRun[]).map(run => ({
+      id: run.id,
+      organizationId: run.organization_id,
+      triggeredBy: run.triggered_by,
+      durationMs: run.duration_ms,
+      processedAt: run.processed_at,
+      proposalsChecked: run.proposals_checked,
+      notificationsSent: run.notifications_sent,
+      transitionsPerformed: run.transitions_performed,
+      errors: (run.errors as DeadlineProcessingResult['errors'] | null) ?? []
+    }))
+  }
+
+  private async processOrganization(contexts: DeadlineContext[]): Promise<Omit<DeadlineProcessingResult, 'processedAt'>> {
+    const result: Omit<DeadlineProcessingResult, 'processedAt'> = {
+      proposalsChecked: 0,
+      notificationsSent: 0,
+      transitionsPerformed: 0,
+      errors: []
+    }
+
+    for (const context of contexts) {
+      const check = this.evaluateContext(context)
+      const { proposal, rule } = context
+      result.proposalsChecked++
+
+      if (check.shouldNotify) {
+        try {
+          await this.sendDeadlineNotification(proposal.id, proposal.owner_id, check)
+          await this.recordSent(context, 'reminder', check.dueNotificationHours)
+          result.notificationsSent++
+        } catch (error) {
+          result.errors.push({ proposalId: proposal.id, error: errorMessage(error), type: 'notification' })
+        }
+      }
+
+      if (!check.shouldTransition) continue
+
+      if (rule.requiresApproval) {
+        if (context.approvalRequested) continue
+        try {
+          result.notificationsSent += await this.requestTransitionApproval(context, check)
+          await this.recordSent(context, 'approval_request', [0])
+        } catch (error) {
+          result.errors.push({ proposalId: proposal.id, error: errorMessage(error), type: 'notification' })
+        }
+        continue
+      }
+
+      try {
+        if (await this.performAutomaticTransition(proposal.id, check)) {
+          result.transitionsPerformed++
+          await this.createNotifications([{
+            user_id: proposal.owner_id,
+            type: 'proposal_update',
+            title: `"${proposal.title}" moved to ${rule.toStatus}`,
+            content: { message: `The ${rule.fromStatus} deadline passed, so the proposal was moved to ${rule.toStatus} automatically.` },
+            action_url: `/proposals/${proposal.id}`,
+            related_entity_type: 'proposal',
+            related_entity_id: proposal.id,
+            priority: 2
+          }])
+          result.notificationsSent++
+        }
+      } catch (error) {
+        result.errors.push({ proposalId: proposal.id, error: errorMessage(error), type: 'transition' })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Ask the organisation's managers and admins to approve moving an overdue
+   * proposal on. Returns the number of notifications sent.
+   */
+  private async requestTransitionApproval(context: DeadlineContext, check: DeadlineCheckResult): Promise<number> {
+    const { data: approvers, error } = await this.supabase
+      .from('users')
+      .select('id')
+      .eq('organization_id', context.organizationId)
+      .in('role', ['admin', 'manager'])
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!approvers || approvers.length === 0) {
+      throw new Error('No managers or admins available to approve the transition')
+    }
+
+    const { proposal, rule } = context
+    await this.createNotifications(approvers.map(approver => ({
+      user_id: approver.id as string,
+      type: 'review_request' as const,
+      title: `Approve moving "${proposal.title}" to ${rule.toStatus}`,
+      content: {
+        message: `The ${rule.fromStatus} deadline passed on ${new Date(check.deadlineAt).toLocaleString('en-GB')}. This transition needs approval before it happens.`,
+        fromStatus: rule.fromStatus,
+        toStatus: rule.toStatus,
+        deadlineAt: check.deadlineAt
+      },
+      action_url: `/proposals/${proposal.id}`,
+      related_entity_type: 'proposal',
+      related_entity_id: proposal.id,
+      priority: 3
+    })))
+
+    return approvers.length
+  }
+
+  private async createNotifications(notifications: NotificationInsert[]): Promise<void> {
+    const { error } = await this.supabase.from('notifications').insert(notifications)
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+
+  private async recordSent(context: DeadlineContext, kind: 'reminder' | 'approval_request', hours: number[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('proposal_deadline_notifications')
+      .upsert(
+        hours.map(notificationHours => ({
+          proposal_id: context.proposal.id,
+          rule_id: context.rule.id,
+          status_changed_at: context.statusChangedAt,
+          kind,
+          notification_hours: notificationHours
+        })),
+        { onConflict: 'proposal_id,rule_id,status_changed_at,kind,notification_hours', ignoreDuplicates: true }
+      )
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+  }
+
+  private evaluateContext(context: DeadlineContext): DeadlineCheckResult {
+    return evaluateDeadline({
+      proposalId: context.proposal.id,
+      proposalTitle: context.proposal.title,
+      currentStatus: context.proposal.status,
+      statusChangedAt: context.statusChangedAt,
+      rule: context.rule,
+      sentNotificationHours: context.sentNotificationHours
+    })
+  }
+
+  /**
+   * Load proposals that have an enabled rule for their current status,
+   * with when they entered that status and which reminders were already sent
+   */
+  private async loadDeadlineContexts(
+    filter: { organizationId?: string; proposalIds?: string[] }
+  ): Promise<{ organizationIds: string[]; contexts: DeadlineContext[] }> {
+    let rulesQuery = this.supabase
+      .from('proposal_deadline_rules')
+      .select('*')
+      .eq('enabled', true)
+    if (filter.organizationId) {
+      rulesQuery = rulesQuery.eq('organization_id', filter.organizationId)
+    }
+
+    const { data: ruleRows, error: rulesError } = await rulesQuery
+    if (rulesError) {
+      throw new Error(`Database error: ${rulesError.message}`)
+    }
+
+    const rules = (ruleRows || []) as ProposalDeadlineRuleRow[]
+    const organizationIds = Array.from(new Set(rules.map(rule => rule.organization_id)))
+    if (rules.length === 0) return { organizationIds, contexts: [] }
+
+    const rulesByStatus = new Map(rules.map(row => [`${row.organization_id}:${row.from_status}`, toDeadlineRule(row)]))
+
+    const { data: owners, error: ownersError } = await this.supabase
+      .from('users')
+      .select('id, organization_id')
+      .in('organization_id', organizationIds)
+
+    if (ownersError) {
+      throw new Error(`Database error: ${ownersError.message}`)
+    }
+
+    const organizationByOwner = new Map((owners || []).map(owner => [owner.id as string, owner.organization_id as string]))
+    if (organizationByOwner.size === 0) return { organizationIds, contexts: [] }
+
+    let proposalsQuery = this.supabase
+      .from('proposals')
+      .select('id, title, status, owner_id, created_at, updated_at')
+      .in('owner_id', Array.from(organizationByOwner.keys()))
+      .in('status', Array.from(new Set(rules.map(rule => rule.from_status))))
+    if (filter.proposalIds) {
+      proposalsQuery = proposalsQuery.in('id', filter.proposalIds)
+    }
+
+    const { data: proposalRows, error: proposalsError } = await proposalsQuery
+    if (proposalsError) {
+      throw new Error(`Database error: ${proposalsError.message}`)
+    }
+
+    const proposals = ((proposalRows || []) as ProposalRow[]).filter(proposal =>
+      rulesByStatus.has(`${organizationByOwner.get(proposal.owner_id)}:${proposal.status}`)
+    )
+    if (proposals.length === 0) return { organizationIds, contexts: [] }
+
+    const proposalIds = proposals.map(proposal => proposal.id)
+
+    const { data: history, error: historyError } = await this.supabase
+      .from('proposal_status_history')
+      .select('proposal_id, to_status, changed_at')
+      .in('proposal_id', proposalIds)
+      .order('changed_at', { ascending: false })
+
+    if (historyError) {
+      throw new Error(`Database error: ${historyError.message}`)
+    }
+
+    const { data: sent, error: sentError } = await this.supabase
+      .from('proposal_deadline_notifications')
+      .select('proposal_id, rule_id, status_changed_at, kind, notification_hours')
+      .in('proposal_id', proposalIds)
+
+    if (sentError) {
+      throw new Error(`Database error: ${sentError.message}`)
+    }
+
+    const contexts = proposals.map(proposal => {
+      const organizationId = organizationByOwner.get(proposal.owner_id)!
+      const rule = rulesByStatus.get(`${organizationId}:${proposal.status}`)!
+
+      // History is newest first, so this is when the proposal last entered its status
+      const entry = (history || []).find(row => row.proposal_id === proposal.id && row.to_status === proposal.status)
+      const statusChangedAt = (entry?.changed_at as string | undefined) ?? proposal.updated_at ?? proposal.created_at ?? new Date().toISOString()
+      const enteredAt = new Date(statusChangedAt).getTime()
+
+      const sentForStatus = (sent || []).filter(row =>
+        row.proposal_id === proposal.id &&
+        row.rule_id === rule.id &&
+        new Date(row.status_changed_at as string).getTime() === enteredAt
+      )
+
+      return {
+        proposal,
+        organizationId,
+        rule,
+        statusChangedAt,
+        sentNotificationHours: sentForStatus.filter(row => row.kind === 'reminder').map(row => row.notification_hours as number),
+        approvalRequested: sentForStatus.some(row => row.kind === 'approval_request')
+      }
+    })
+
+    return { organizationIds, contexts }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
 }
 
 export const proposalDeadlineManager = new ProposalDeadlineManager()
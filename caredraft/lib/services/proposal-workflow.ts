@@ -1 +1,457 @@
-export class ProposalWorkflowService { constructor() {} }
+/**
+ * Proposal Workflow Service
+ * Validates proposal status changes against the organisation's workflow:
+ * role permissions, ownership, reviewer sign-off and required comments.
+ * The same rules are enforced by transition_proposal_status in the database.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import type {
+  ProposalReviewerAssignments,
+  ProposalStatus,
+  ProposalStatusWorkflowData,
+  ProposalWorkflowPermissions,
+  UserRole
+} from '@/lib/database.types'
+
+export const PROPOSAL_STATUSES: ProposalStatus[] = ['draft', 'review', 'submitted', 'archived']
+
+export interface WorkflowSettings {
+  requiredApprovals: number
+  requireCommentsOnRejection: boolean
+  requireCommentsOnApproval: boolean
+  allowSelfApproval: boolean
+}
+
+// Matches the column defaults for organisations without settings
+export const DEFAULT_WORKFLOW_SETTINGS: WorkflowSettings = {
+  requiredApprovals: 1,
+  requireCommentsOnRejection: true,
+  requireCommentsOnApproval: false,
+  allowSelfApproval: false
+}
+
+export interface WorkflowContext {
+  proposal: {
+    id: string
+    title: string
+    status: ProposalStatus
+    ownerId: string
+  }
+  user: {
+    id: string
+    role: UserRole
+  }
+  permissions: Array<Pick<ProposalWorkflowPermissions, 'from_status' | 'to_status' | 'required_role' | 'enabled'>>
+  settings: WorkflowSettings
+  assignments: ProposalReviewerAssignments[]
+  /** When the proposal last entered review; approvals before this are from an earlier round */
+  reviewStartedAt: string | null
+}
+
+export interface StatusTransitionCheck {
+  fromStatus: ProposalStatus
+  toStatus: ProposalStatus
+  allowed: boolean
+  /** Why an otherwise permitted transition cannot be made yet */
+  blockers: string[]
+  requiresComment: boolean
+}
+
+export interface ReviewProgress {
+  approvals: number
+  requiredApprovals: number
+  changesRequested: number
+  pending: number
+}
+
+export interface ProposalWorkflowState {
+  proposalId: string
+  status: ProposalStatus
+  transitions: StatusTransitionCheck[]
+  review: ReviewProgress
+}
+
+export type WorkflowErrorCode =
+  | 'not_found'
+  | 'not_permitted'
+  | 'approvals_required'
+  | 'comment_required'
+  | 'status_changed'
+
+export const WORKFLOW_ERROR_STATUS: Record<WorkflowErrorCode, number> = {
+  not_found: 404,
+  not_permitted: 403,
+  approvals_required: 409,
+  comment_required: 400,
+  status_changed: 409
+}
+
+export class WorkflowTransitionError extends Error {
+  constructor(
+    message: string,
+    public code: WorkflowErrorCode,
+    public blockers: string[] = []
+  ) {
+    super(message)
+    this.name = 'WorkflowTransitionError'
+  }
+}
+
+function isCurrentRound(assignment: ProposalReviewerAssignments, reviewStartedAt: string | null): boolean {
+  if (!assignment.completed_at) return false
+  return !reviewStartedAt || new Date(assignment.completed_at).getTime() >= new Date(reviewStartedAt).getTime()
+}
+
+/**
+ * Count reviewer decisions in the current review round
+ */
+export function getReviewProgress(context: WorkflowContext): ReviewProgress {
+  const { assignments, reviewStartedAt, settings, proposal } = context
+  const decided = assignments.filter(assignment => isCurrentRound(assignment, reviewStartedAt))
+
+  return {
+    approvals: decided.filter(assignment =>
+      assignment.decision === 'submitted' &&
+      (settings.allowSelfApproval || assignment.reviewer_id !== proposal.ownerId)
+    ).length,
+    requiredApprovals: settings.requiredApprovals,
+    changesRequested: decided.filter(assignment => assignment.decision === 'review').length,
+    pending: assignments.length - decided.length
+  }
+}
+
+/**
+ * Check one status change for the context's user. Returns null when the
+ * user may never make the transition; blocked checks are ones waiting on
+ * reviewer sign-off.
+ */
+export function checkStatusTransition(context: WorkflowContext, toStatus: ProposalStatus): StatusTransitionCheck | null {
+  const { proposal, user, settings } = context
+  const fromStatus = proposal.status
+  if (fromStatus === toStatus) return null
+
+  const permitted = context.permissions.some(permission =>
+    permission.enabled &&
+    permission.required_role === user.role &&
+    permission.to_status === toStatus &&
+    (permission.from_status === null || permission.from_status === fromStatus)
+  )
+  if (!permitted) return null
+
+  // Writers can only move their own proposals
+  if (user.role === 'writer' && proposal.ownerId !== user.id) return null
+
+  const blockers: string[] = []
+  if (toStatus === 'submitted') {
+    const progress = getReviewProgress(context)
+    if (progress.changesRequested > 0) {
+      blockers.push(`${progress.changesRequested} reviewer${progress.changesRequested === 1 ? ' has' : 's have'} requested changes`)
+    }
+    if (progress.approvals < progress.requiredApprovals) {
+      blockers.push(`Needs ${progress.requiredApprovals} reviewer approval${progress.requiredApprovals === 1 ? '' : 's'}, ${progress.approvals} received`)
+    }
+  }
+
+  return {
+    fromStatus,
+    toStatus,
+    allowed: blockers.length === 0,
+    blockers,
+    requiresComment:
+      (fromStatus === 'review' && toStatus === 'draft' && settings.requireCommentsOnRejection) ||
+      (toStatus === 'submitted' && settings.requireCommentsOnApproval)
+  }
+}
+
+/**
+ * Every transition the user's role permits from the current status,
+ * including ones that are blocked for now
+ */
+export function getStatusTransitions(context: WorkflowContext): StatusTransitionCheck[] {
+  return PROPOSAL_STATUSES
+    .map(status => checkStatusTransition(context, status))
+    .filter((check): check is StatusTransitionCheck => check !== null)
+}
+
+export class ProposalWorkflowService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Load everything needed to check status changes on a proposal for a user
+   */
+  async getWorkflowContext(proposalId: string, userId: string): Promise<WorkflowContext> {
+    const { data: proposal, error: proposalError } = await this.supabase
+      .from('proposals')
+      .select('id, title, status, owner_id')
+      .eq('id', proposalId)
+      .maybeSingle()
+
+    if (proposalError) {
+      throw new Error(`Database error: ${proposalError.message}`)
+    }
+    if (!proposal) {
+      throw new WorkflowTransitionError('Proposal not found', 'not_found')
+    }
+
+    const { data: users, error: usersError } = await this.supabase
+      .from('users')
+      .select('id, role, organization_id')
+      .in('id', [userId, proposal.owner_id])
+
+    if (usersError) {
+      throw new Error(`Database error: ${usersError.message}`)
+    }
+
+    const user = (users || []).find(row => row.id === userId)
+    const owner = (users || []).find(row => row.id === proposal.owner_id)
+    if (!user || !owner || user.organization_id !== owner.organization_id) {
+      throw new WorkflowTransitionError('Proposal not found', 'not_found')
+    }
+
+    const { data: permissions, error: permissionsError } = await this.supabase
+      .from('proposal_workflow_permissions')
+      .select('from_status, to_status, required_role, enabled')
+      .eq('required_role', user.role)
+      .eq('enabled', true)
+
+    if (permissionsError) {
+      throw new Error(`Database error: ${permissionsError.message}`)
+    }
+
+    const { data: settings, error: settingsError } = await this.supabase
+      .from('proposal_workflow_settings')
+      .select('required_approvals, require_comments_on_rejection, require_comments_on_approval, allow_self_approval')
+      .eq('organization_id', owner.organization_id)
+      .maybeSingle()
+
+    if (settingsError) {
+      throw new Error(`Database error: ${settingsError.message}`)
+    }
+
+    const { data: assignments, error: assignmentsError } = await this.supabase
+      .from('proposal_reviewer_assignments')
+      .select('*')
+      .eq('proposal_id', proposalId)
+
+    if (assignmentsError) {
+      throw new Error(`Database error: ${assignmentsError.message}`)
+    }
+
+    const { data: reviewEntry, error: historyError } = await this.supabase
+      .from('proposal_status_history')
+      .select('changed_at')
+      .eq('proposal_id', proposalId)
+      .eq('to_status', 'review')
+      .order('changed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (historyError) {
+      throw new Error(`Database error: ${historyError.message}`)
+    }
+
+    return {
+      proposal: {
+        id: proposal.id,
+        title: proposal.title,
+        status: proposal.status,
+        ownerId: proposal.owner_id
+      },
+      user: { id: user.id, role: user.role },
+      permissions: permissions || [],
+      settings: settings
+        ? {
+            requiredApprovals: settings.required_approvals,
+            requireCommentsOnRejection: settings.require_comments_on_rejection,
+            requireCommentsOnApproval: settings.require_comments_on_approval,
+            allowSelfApproval: settings.allow_self_approval
+          }
+        : DEFAULT_WORKFLOW_SETTINGS,
+      assignments: (assignments || []) as ProposalReviewerAssignments[],
+      reviewStartedAt: reviewEntry?.changed_at ?? null
+    }
+  }
+
+  /**
+   * Current status, the transitions open to the user and review progress
+   */
+  async getWorkflowState(proposalId: string, userId: string): Promise<ProposalWorkflowState> {
+    const context = await this.getWorkflowContext(proposalId, userId)
+
+    return {
+      proposalId,
+      status: context.proposal.status,
+      transitions: getStatusTransitions(context),
+      review: getReviewProgress(context)
+    }
+  }
+
+  /**
+   * Change a proposal's status, recording the comment and reason in its
+   * status history
+   */
+  async transitionStatus(
+    proposalId: string,
+    userId: string,
+    toStatus: ProposalStatus,
+    options: { comment?: string; reason?: string } = {}
+  ): Promise<boolean> {
+    const context = await this.getWorkflowContext(proposalId, userId)
+    const check = checkStatusTransition(context, toStatus)
+
+    if (!check) {
+      throw new WorkflowTransitionError(
+        `You cannot move this proposal from ${context.proposal.status} to ${toStatus}`,
+        'not_permitted'
+      )
+    }
+    if (!check.allowed) {
+      throw new WorkflowTransitionError(
+        check.blockers.join('; '),
+        'approvals_required',
+        check.blockers
+      )
+    }
+    if (check.requiresComment && !options.comment?.trim()) {
+      throw new WorkflowTransitionError('A comment is required for this status change', 'comment_required')
+    }
+
+    const { data, error } = await this.supabase.rpc('transition_proposal_status', {
+      p_proposal_id: proposalId,
+      p_from_status: check.fromStatus,
+      p_to_status: toStatus,
+      p_comment: options.comment?.trim() || null,
+      p_reason: options.reason || null
+    })
+
+    if (error) {
+      if (error.code === '42501') {
+        throw new WorkflowTransitionError(error.message, 'not_permitted')
+      }
+      if (error.code === '23514') {
+        throw new WorkflowTransitionError(error.message, 'comment_required')
+      }
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (data !== true) {
+      throw new WorkflowTransitionError('The proposal status has changed, refresh and try again', 'status_changed')
+    }
+
+    return true
+  }
+
+  /**
+   * Assign reviewers to a proposal. Existing assignments are kept. The
+   * proposal and every reviewer must belong to the assigning user's
+   * organisation.
+   */
+  async assignReviewers(proposalId: string, reviewerIds: string[], assignedBy: string): Promise<ProposalReviewerAssignments[]> {
+    if (reviewerIds.length === 0) return []
+
+    // Resolves the proposal within the assigning user's organisation
+    await this.getWorkflowContext(proposalId, assignedBy)
+
+    const { data: assigner, error: assignerError } = await this.supabase
+      .from('users')
+      .select('organization_id')
+      .eq('id', assignedBy)
+      .single()
+
+    if (assignerError) {
+      throw new Error(`Database error: ${assignerError.message}`)
+    }
+
+    const uniqueIds = Array.from(new Set(reviewerIds))
+    const { data: reviewers, error: reviewersError } = await this.supabase
+      .from('users')
+      .select('id')
+      .in('id', uniqueIds)
+      .eq('organization_id', assigner.organization_id)
+
+    if (reviewersError) {
+      throw new Error(`Database error: ${reviewersError.message}`)
+    }
+    if ((reviewers || []).length !== uniqueIds.length) {
+      throw new WorkflowTransitionError('Reviewers must belong to your organisation', 'not_permitted')
+    }
+
+    const { data, error } = await this.supabase
+      .from('proposal_reviewer_assignments')
+      .upsert(
+        uniqueIds.map(reviewerId => ({
+          proposal_id: proposalId,
+          reviewer_id: reviewerId,
+          assigned_by: assignedBy
+        })),
+        { onConflict: 'proposal_id,reviewer_id', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return (data || []) as ProposalReviewerAssignments[]
+  }
+
+  /**
+   * Record an assigned reviewer's sign-off or request for changes on a
+   * proposal in review
+   */
+  async recordReviewDecision(
+    proposalId: string,
+    reviewerId: string,
+    approved: boolean,
+    comments?: string
+  ): Promise<ProposalReviewerAssignments> {
+    const context = await this.getWorkflowContext(proposalId, reviewerId)
+
+    if (context.proposal.status !== 'review') {
+      throw new WorkflowTransitionError('Only proposals in review can be signed off', 'not_permitted')
+    }
+    if (!context.assignments.some(assignment => assignment.reviewer_id === reviewerId)) {
+      throw new WorkflowTransitionError('You are not a reviewer on this proposal', 'not_permitted')
+    }
+    if (!approved && context.settings.requireCommentsOnRejection && !comments?.trim()) {
+      throw new WorkflowTransitionError('Explain what needs to change before requesting changes', 'comment_required')
+    }
+
+    const { data, error } = await this.supabase
+      .from('proposal_reviewer_assignments')
+      .update({
+        decision: approved ? 'submitted' : 'review',
+        review_comments: comments?.trim() || null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('proposal_id', proposalId)
+      .eq('reviewer_id', reviewerId)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data as ProposalReviewerAssignments
+  }
+
+  /**
+   * Status history with the names of the people who made each change
+   */
+  async getStatusHistory(proposalId: string): Promise<ProposalStatusWorkflowData[]> {
+    const { data, error } = await this.supabase.rpc('get_proposal_status_workflow', {
+      p_proposal_id: proposalId
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data || []
+  }
+}
+
+// Export singleton instance
+export const proposalWorkflowService = new ProposalWorkflowService()
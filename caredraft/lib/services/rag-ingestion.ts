@@ -0,0 +1,453 @@
+/**
+ * RAG Ingestion Pipeline
+ * Turns uploaded Knowledge Hub documents into searchable chunks:
+ * extract text, chunk with DocumentProcessor, embed in batches (reusing
+ * cached embeddings) and write document_chunks and document_embeddings.
+ * Progress is written to knowledge_documents as it goes, and failed
+ * documents are retried with backoff.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { DocumentExtractionService } from './document-extraction'
+import { DocumentProcessor, ProcessedChunk } from './document-processor'
+import { EmbeddingService, contentChecksum, formatVector } from './embedding-service'
+import {
+  ChunkingConfig,
+  DEFAULT_CHUNK_SIZE,
+  DocumentProcessingResult,
+  DocumentType,
+  ProcessingStatus
+} from '@/types/rag'
+
+export const KNOWLEDGE_DOCUMENTS_BUCKET = 'knowledge-documents'
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  max_chunk_size: DEFAULT_CHUNK_SIZE,
+  overlap_size: 2,
+  chunk_strategy: 'sentence',
+  preserve_formatting: false,
+  include_metadata: true
+}
+
+export interface IngestionOptions {
+  chunking?: ChunkingConfig
+  embeddingBatchSize?: number
+  maxAttempts?: number
+  /** Minutes before the first retry; doubles with each attempt */
+  retryBaseMinutes?: number
+  /** A document stuck in processing this long is assumed abandoned */
+  staleAfterMinutes?: number
+}
+
+export interface IngestionRunResult {
+  processed: number
+  succeeded: number
+  failed: number
+  results: DocumentProcessingResult[]
+}
+
+interface IngestionDocument {
+  id: string
+  title: string
+  content: string
+  document_type: DocumentType
+  mime_type: string | null
+  file_name: string | null
+  storage_path: string | null
+  processing_status: ProcessingStatus
+  processing_attempts: number
+  metadata: Record<string, unknown> | null
+  previous_version_id: string | null
+}
+
+// Progress milestones reported while a document is ingested
+const PROGRESS = {
+  claimed: 5,
+  extracted: 20,
+  chunked: 30,
+  embedded: 90,
+  complete: 100
+}
+
+const CHUNK_INSERT_BATCH_SIZE = 200
+
+/**
+ * When a document that has failed `attempts` times should be retried, or
+ * null when it has run out of attempts
+ */
+export function getNextRetryAt(
+  attempts: number,
+  now: Date = new Date(),
+  maxAttempts: number = 3,
+  retryBaseMinutes: number = 5
+): string | null {
+  if (attempts >= maxAttempts) return null
+  const delayMinutes = retryBaseMinutes * Math.pow(2, Math.max(attempts - 1, 0))
+  return new Date(now.getTime() + delayMinutes * 60 * 1000).toISOString()
+}
+
+export class RAGIngestionPipeline {
+  private readonly options: Required<IngestionOptions>
+
+  /**
+   * Ingestion runs in the background without a signed-in user, so routes
+   * pass an admin client
+   */
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private embeddings: EmbeddingService = new EmbeddingService(supabase),
+    private processor: DocumentProcessor = new DocumentProcessor(),
+    options: IngestionOptions = {}
+  ) {
+    this.options = {
+      chunking: options.chunking ?? DEFAULT_CHUNKING_CONFIG,
+      embeddingBatchSize: options.embeddingBatchSize ?? 64,
+      maxAttempts: options.maxAttempts ?? 3,
+      retryBaseMinutes: options.retryBaseMinutes ?? 5,
+      staleAfterMinutes: options.staleAfterMinutes ?? 30
+    }
+  }
+
+  /**
+   * Ingest one document. Returns without doing anything if another worker
+   * has already claimed it.
+   */
+  async processDocument(documentId: string): Promise<DocumentProcessingResult> {
+    const startedAt = Date.now()
+    const document = await this.claimDocument(documentId)
+
+    if (!document) {
+      return {
+        document_id: documentId,
+        chunks_created: 0,
+        embeddings_generated: 0,
+        processing_time_ms: Date.now() - startedAt,
+        success: false,
+        error: 'Document is not waiting for ingestion'
+      }
+    }
+
+    try {
+      const content = await this.extractContent(document)
+      await this.updateProgress(documentId, PROGRESS.extracted)
+
+      const chunks = (await this.processor.processDocument(content, this.chunkingConfigFor(document), {
+        title: document.title,
+        document_type: document.document_type
+      })).filter(chunk => chunk.content.trim().length > 0)
+
+      if (chunks.length === 0) {
+        throw new Error('No text could be extracted from the document')
+      }
+      await this.updateProgress(documentId, PROGRESS.chunked)
+
+      const vectors = await this.embedChunks(documentId, chunks)
+      await this.writeChunks(documentId, chunks, vectors)
+
+      const { error } = await this.supabase
+        .from('knowledge_documents')
+        .update({
+          processing_status: 'completed',
+          processing_progress: PROGRESS.complete,
+          processing_error: null,
+          next_retry_at: null,
+          processed_at: new Date().toISOString()
+        })
+        .eq('id', documentId)
+
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      if (document.previous_version_id) {
+        await this.supersedePreviousVersions(documentId)
+      }
+
+      return {
+        document_id: documentId,
+        chunks_created: chunks.length,
+        embeddings_generated: vectors.length,
+        processing_time_ms: Date.now() - startedAt,
+        success: true
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await this.markFailed(document, message)
+
+      return {
+        document_id: documentId,
+        chunks_created: 0,
+        embeddings_generated: 0,
+        processing_time_ms: Date.now() - startedAt,
+        success: false,
+        error: message
+      }
+    }
+  }
+
+  /**
+   * Ingest documents waiting for their first run, due a retry, or abandoned
+   * mid-run, oldest first
+   */
+  async processPendingDocuments(limit: number = 5): Promise<IngestionRunResult> {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - this.options.staleAfterMinutes * 60 * 1000).toISOString()
+
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('id')
+      .or([
+        'processing_status.eq.pending',
+        `and(processing_status.eq.failed,next_retry_at.lte.${now.toISOString()})`,
+        `and(processing_status.eq.processing,processing_started_at.lt.${staleBefore})`
+      ].join(','))
+      .order('uploaded_at', { ascending: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const results: DocumentProcessingResult[] = []
+    // One at a time keeps embedding requests within provider rate limits
+    for (const row of data || []) {
+      results.push(await this.processDocument(row.id))
+    }
+
+    return {
+      processed: results.length,
+      succeeded: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+      results
+    }
+  }
+
+  /**
+   * Queue a failed document for another run with a fresh set of attempts.
+   * The caller decides whether to process it now or leave it for the next
+   * scheduled run.
+   */
+  async retryDocument(documentId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .update({
+        processing_status: 'pending',
+        processing_attempts: 0,
+        processing_progress: 0,
+        processing_error: null,
+        next_retry_at: null
+      })
+      .eq('id', documentId)
+      .eq('processing_status', 'failed')
+      .select('id')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Only failed documents can be retried')
+    }
+  }
+
+  /**
+   * Move a document into processing. The status and attempt count act as an
+   * optimistic lock so two workers cannot claim the same document.
+   */
+  private async claimDocument(documentId: string): Promise<IngestionDocument | null> {
+    const { data: document, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('id, title, content, document_type, mime_type, file_name, storage_path, processing_status, processing_attempts, metadata, previous_version_id')
+      .eq('id', documentId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!document || document.processing_status === 'completed' || document.processing_status === 'archived') {
+      return null
+    }
+
+    const attempts = document.processing_attempts + 1
+    const { data: claimed, error: claimError } = await this.supabase
+      .from('knowledge_documents')
+      .update({
+        processing_status: 'processing',
+        processing_attempts: attempts,
+        processing_progress: PROGRESS.claimed,
+        processing_started_at: new Date().toISOString(),
+        processing_error: null
+      })
+      .eq('id', documentId)
+      .eq('processing_status', document.processing_status)
+      .eq('processing_attempts', document.processing_attempts)
+      .select('id')
+
+    if (claimError) {
+      throw new Error(`Database error: ${claimError.message}`)
+    }
+    if (!claimed || claimed.length === 0) return null
+
+    return { ...(document as IngestionDocument), processing_attempts: attempts }
+  }
+
+  private async extractContent(document: IngestionDocument): Promise<string> {
+    if (document.content.trim()) return document.content
+
+    if (!document.storage_path) {
+      throw new Error('Document has no content or uploaded file')
+    }
+
+    const { data: file, error } = await this.supabase.storage
+      .from(KNOWLEDGE_DOCUMENTS_BUCKET)
+      .download(document.storage_path)
+
+    if (error || !file) {
+      throw new Error(`Failed to download ${document.file_name || 'document'}: ${error?.message || 'file not found'}`)
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const fileName = document.file_name || document.storage_path
+    // Markdown and other text formats are read as plain text
+    const mimeType = document.mime_type?.startsWith('text/') ? 'text/plain' : document.mime_type || undefined
+    const extracted = await DocumentExtractionService.extractFromBuffer(buffer, fileName, mimeType)
+
+    // Keep the text so retries and re-chunking do not extract again
+    const { error: updateError } = await this.supabase
+      .from('knowledge_documents')
+      .update({ content: extracted.content })
+      .eq('id', document.id)
+
+    if (updateError) {
+      throw new Error(`Database error: ${updateError.message}`)
+    }
+
+    return extracted.content
+  }
+
+  private chunkingConfigFor(document: IngestionDocument): ChunkingConfig {
+    const strategy = document.metadata?.chunk_strategy
+    if (strategy === 'fixed' || strategy === 'semantic' || strategy === 'sentence') {
+      return { ...this.options.chunking, chunk_strategy: strategy }
+    }
+    return this.options.chunking
+  }
+
+  private async embedChunks(documentId: string, chunks: ProcessedChunk[]): Promise<number[][]> {
+    const batchSize = this.options.embeddingBatchSize
+    const vectors: number[][] = []
+
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize)
+      const { embeddings } = await this.embeddings.generateBatchEmbeddings({
+        texts: batch.map(chunk => chunk.content),
+        batch_size: batchSize
+      })
+      vectors.push(...embeddings.map(result => result.embedding))
+
+      const done = Math.min(i + batchSize, chunks.length) / chunks.length
+      await this.updateProgress(documentId, Math.round(PROGRESS.chunked + done * (PROGRESS.embedded - PROGRESS.chunked)))
+    }
+
+    return vectors
+  }
+
+  /**
+   * Replace the document's chunks and embeddings with the new set
+   */
+  private async writeChunks(documentId: string, chunks: ProcessedChunk[], vectors: number[][]): Promise<void> {
+    // Embeddings are removed with their chunks
+    const { error: deleteError } = await this.supabase
+      .from('document_chunks')
+      .delete()
+      .eq('document_id', documentId)
+
+    if (deleteError) {
+      throw new Error(`Database error: ${deleteError.message}`)
+    }
+
+    for (let i = 0; i < chunks.length; i += CHUNK_INSERT_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + CHUNK_INSERT_BATCH_SIZE)
+
+      const { data: inserted, error: chunkError } = await this.supabase
+        .from('document_chunks')
+        .insert(batch.map(chunk => ({
+          document_id: documentId,
+          chunk_index: chunk.index,
+          content: chunk.content,
+          content_tokens: chunk.tokens,
+          chunk_size: chunk.content.length,
+          overlap_tokens: chunk.overlap_tokens ?? 0,
+          metadata: chunk.metadata,
+          page_number: chunk.page_number ?? null,
+          section_title: chunk.section_title ?? null,
+          content_checksum: contentChecksum(chunk.content)
+        })))
+        .select('id, chunk_index')
+
+      if (chunkError) {
+        throw new Error(`Database error: ${chunkError.message}`)
+      }
+
+      const vectorByIndex = new Map(batch.map((chunk, j) => [chunk.index, vectors[i + j]]))
+      const { error: embeddingError } = await this.supabase
+        .from('document_embeddings')
+        .insert((inserted || []).map(row => ({
+          chunk_id: row.id,
+          document_id: documentId,
+          embedding: formatVector(vectorByIndex.get(row.chunk_index)!),
+          embedding_model: this.embeddings.model
+        })))
+
+      if (embeddingError) {
+        throw new Error(`Database error: ${embeddingError.message}`)
+      }
+    }
+  }
+
+  private async updateProgress(documentId: string, progress: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('knowledge_documents')
+      .update({ processing_progress: progress })
+      .eq('id', documentId)
+
+    if (error) {
+      console.error('Failed to update ingestion progress:', error)
+    }
+  }
+
+  /**
+   * Retire the versions this document replaces and flag answers and drafts
+   * that cite them. The new version is already searchable, so a failure here
+   * is logged rather than failing the ingestion.
+   */
+  private async supersedePreviousVersions(documentId: string): Promise<void> {
+    const { error } = await this.supabase.rpc('supersede_knowledge_document', {
+      p_document_id: documentId
+    })
+
+    if (error) {
+      console.error('Failed to supersede previous document versions:', error)
+    }
+  }
+
+  private async markFailed(document: IngestionDocument, message: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('knowledge_documents')
+      .update({
+        processing_status: 'failed',
+        processing_error: message,
+        next_retry_at: getNextRetryAt(
+          document.processing_attempts,
+          new Date(),
+          this.options.maxAttempts,
+          this.options.retryBaseMinutes
+        )
+      })
+      .eq('id', document.id)
+
+    if (error) {
+      console.error('Failed to record ingestion failure:', error)
+    }
+  }
+}
@@ -1,3 +1,531 @@
-export interface RAGQueryRequest { query: string; context?: string; search_options?: any; generation_options?: any }
-export class RAGQueryPipeline { constructor() {} async processQuery(req: RAGQueryRequest) { return { success: false, processing_time_ms: 0, confidence_score: 0, query: req.query, response: "", sources: [] } } async getQuerySuggestions(_query: string) { return [] } }
-export const ragQueryPipeline = new RAGQueryPipeline()
\ No newline at end of file
+/**
+ * RAG Query Pipeline
+ * Answers questions from the Knowledge Hub: retrieves chunks by vector
+ * similarity and keyword search, fuses and reranks them, and generates an
+ * answer that cites the chunks it used as [n]. Every query is logged to
+ * rag_search_queries and rag_search_results.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { EmbeddingService, formatVector } from './embedding-service'
+import { DocumentType, KnowledgeDocument, SearchResultWithContext } from '@/types/rag'
+
+export interface RAGSearchOptions {
+  max_results?: number
+  similarity_threshold?: number
+  document_types?: DocumentType[]
+  date_range?: { start?: string, end?: string }
+  include_metadata?: boolean
+  /** Weight of semantic results against keyword results, 0 to 1 */
+  hybrid_weight?: number
+  rerank_results?: boolean
+  include_citations?: boolean
+  /** Also search document versions that have been replaced by newer uploads */
+  include_superseded?: boolean
+}
+
+export interface RAGGenerationOptions {
+  max_tokens?: number
+  temperature?: number
+  model?: string
+  system_prompt?: string
+  response_format?: 'detailed' | 'concise' | 'bullet_points'
+}
+
+export interface RAGQueryRequest {
+  query: string
+  context?: string
+  search_options?: RAGSearchOptions
+  generation_options?: RAGGenerationOptions
+  user_id?: string
+}
+
+export interface RAGCitation {
+  number: number
+  chunk_id: string
+  document_id: string
+  document_title: string
+  page_number: number | null
+  section_title: string | null
+  excerpt: string
+}
+
+export interface RAGQueryResult {
+  success: boolean
+  query: string
+  response: string
+  sources: SearchResultWithContext[]
+  citations: RAGCitation[]
+  confidence_score: number
+  processing_time_ms: number
+  tokens_used: number
+  query_id: string | null
+  error?: string
+}
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant', content: string }
+
+export type AnswerGenerator = (
+  messages: ChatMessage[],
+  options: RAGGenerationOptions
+) => Promise<{ text: string, tokens: number }>
+
+export interface RetrievalCandidate {
+  chunk_id: string
+  document_id: string
+  document_title: string
+  chunk_content: string
+  metadata: Record<string, unknown>
+  similarity_score?: number
+  text_rank?: number
+  semantic_rank?: number
+  keyword_rank?: number
+}
+
+// Reciprocal rank fusion constant; dampens the advantage of the top ranks
+const RRF_K = 60
+const DEFAULT_HYBRID_WEIGHT = 0.7
+const CANDIDATE_MULTIPLIER = 3
+const EXCERPT_LENGTH = 300
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is',
+  'it', 'of', 'on', 'or', 'our', 'should', 'that', 'the', 'this', 'to', 'we', 'what', 'when',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your'
+])
+
+const RESPONSE_FORMATS: Record<NonNullable<RAGGenerationOptions['response_format']>, string> = {
+  detailed: 'Answer thoroughly in clear paragraphs.',
+  concise: 'Answer in two or three sentences.',
+  bullet_points: 'Answer as a short bulleted list.'
+}
+
+const DEFAULT_SYSTEM_PROMPT = `You answer questions for a UK care provider writing tender responses, using only the numbered sources from their Knowledge Hub.
+Cite every claim with the number of the source it comes from, like [1] or [2][3].
+If the sources do not answer the question, say so rather than guessing.`
+
+export function queryTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || []
+  return Array.from(new Set(words.filter(word => word.length > 1 && !STOP_WORDS.has(word))))
+}
+
+/**
+ * Merge semantic and keyword results with weighted reciprocal rank fusion.
+ * Chunks found by both searches rank above chunks found by one.
+ */
+export function fuseResults(
+  semantic: RetrievalCandidate[],
+  keyword: RetrievalCandidate[],
+  hybridWeight: number = DEFAULT_HYBRID_WEIGHT
+): SearchResultWithContext[] {
+  const merged = new Map<string, RetrievalCandidate>()
+
+  semantic.forEach((candidate, i) => {
+    merged.set(candidate.chunk_id, { ...candidate, semantic_rank: i + 1 })
+  })
+  keyword.forEach((candidate, i) => {
+    const existing = merged.get(candidate.chunk_id)
+    merged.set(candidate.chunk_id, existing
+      ? { ...existing, text_rank: candidate.text_rank, keyword_rank: i + 1 }
+      : { ...candidate, keyword_rank: i + 1 })
+  })
+
+  // The best possible score, used to scale scores to 0..1
+  const maxScore = 1 / (RRF_K + 1)
+
+  return Array.from(merged.values())
+    .map(candidate => {
+      const score =
+        (candidate.semantic_rank ? hybridWeight / (RRF_K + candidate.semantic_rank) : 0) +
+        (candidate.keyword_rank ? (1 - hybridWeight) / (RRF_K + candidate.keyword_rank) : 0)
+
+      return {
+        chunk_id: candidate.chunk_id,
+        document_id: candidate.document_id,
+        document_title: candidate.document_title,
+        chunk_content: candidate.chunk_content,
+        similarity_score: candidate.similarity_score ?? 0,
+        metadata: candidate.metadata,
+        relevance_score: score / maxScore,
+        retrieval_method: candidate.semantic_rank && candidate.keyword_rank
+          ? 'hybrid' as const
+          : candidate.semantic_rank ? 'semantic' as const : 'keyword' as const
+      }
+    })
+    .sort((a, b) => b.relevance_score - a.relevance_score)
+}
+
+/**
+ * Rerank fused results by how many of the query's terms each chunk contains,
+ * so a passage that addresses the whole question beats one that shares a
+ * single rare word with it
+ */
+export function rerankResults(query: string, results: SearchResultWithContext[]): SearchResultWithContext[] {
+  const terms = queryTerms(query)
+  if (terms.length === 0) return results
+
+  return results
+    .map(result => {
+      const content = result.chunk_content.toLowerCase()
+      const coverage = terms.filter(term => content.includes(term)).length / terms.length
+      return { ...result, relevance_score: 0.6 * (result.relevance_score ?? 0) + 0.4 * coverage }
+    })
+    .sort((a, b) => (b.relevance_score ?? 0) - (a.relevance_score ?? 0))
+}
+
+/**
+ * Source numbers cited in an answer, in order of first use. Numbers outside
+ * the source list are ignored.
+ */
+export function extractCitationNumbers(answer: string, sourceCount: number): number[] {
+  const cited: number[] = []
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const number = parseInt(match[1], 10)
+    if (number >= 1 && number <= sourceCount && !cited.includes(number)) {
+      cited.push(number)
+    }
+  }
+  return cited
+}
+
+function excerpt(content: string): string {
+  return content.length > EXCERPT_LENGTH ? `${content.slice(0, EXCERPT_LENGTH).trimEnd()}…` : content
+}
+
+function sourceLabel(source: SearchResultWithContext): string {
+  const parts = [source.document_title]
+  if (source.section_title) parts.push(source.section_title)
+  if (source.page_number) parts.push(`page ${source.page_number}`)
+  return parts.join(', ')
+}
+
+async function generateWithOpenAI(messages: ChatMessage[], options: RAGGenerationOptions) {
+  // Imported lazily because the client validates its environment on load
+  const { generateWithFallback } = await import('@/lib/api-client')
+  const result = await generateWithFallback(messages, true, options.model, {
+    temperature: options.temperature,
+    maxTokens: options.max_tokens
+  })
+  return { text: result.text, tokens: result.tokensUsed?.total ?? 0 }
+}
+
+export class RAGQueryPipeline {
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private embeddings: EmbeddingService = new EmbeddingService(supabase),
+    private generate: AnswerGenerator = generateWithOpenAI
+  ) {}
+
+  /**
+   * Answer a question from the Knowledge Hub with citations
+   */
+  async processQuery(request: RAGQueryRequest): Promise<RAGQueryResult> {
+    const startedAt = Date.now()
+    const searchOptions = request.search_options || {}
+    const generationOptions = request.generation_options || {}
+
+    try {
+      const { sources, queryEmbedding } = await this.retrieve(request.query, searchOptions)
+
+      if (sources.length === 0) {
+        const queryId = await this.logQuery(request, sources, [], queryEmbedding, false)
+        return {
+          success: true,
+          query: request.query,
+          response: 'No relevant information was found in the Knowledge Hub for this question.',
+          sources,
+          citations: [],
+          confidence_score: 0,
+          processing_time_ms: Date.now() - startedAt,
+          tokens_used: 0,
+          query_id: queryId
+        }
+      }
+
+      const { text, tokens } = await this.generate(this.buildMessages(request, sources), generationOptions)
+
+      const citedNumbers = searchOptions.include_citations === false
+        ? []
+        : extractCitationNumbers(text, sources.length)
+      const citations = citedNumbers.map(number => {
+        const source = sources[number - 1]
+        return {
+          number,
+          chunk_id: source.chunk_id,
+          document_id: source.document_id,
+          document_title: source.document_title,
+          page_number: source.page_number ?? null,
+          section_title: source.section_title ?? null,
+          excerpt: excerpt(source.chunk_content)
+        }
+      })
+
+      const queryId = await this.logQuery(request, sources, citedNumbers, queryEmbedding, true)
+
+      return {
+        success: true,
+        query: request.query,
+        response: text,
+        sources,
+        citations,
+        confidence_score: this.confidence(sources, citedNumbers),
+        processing_time_ms: Date.now() - startedAt,
+        tokens_used: tokens,
+        query_id: queryId
+      }
+    } catch (error) {
+      console.error('RAG query failed:', error)
+      return {
+        success: false,
+        query: request.query,
+        response: '',
+        sources: [],
+        citations: [],
+        confidence_score: 0,
+        processing_time_ms: Date.now() - startedAt,
+        tokens_used: 0,
+        query_id: null,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  /**
+   * Earlier questions starting with the same text
+   */
+  async getQuerySuggestions(query: string, limit: number = 5): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('rag_search_queries')
+      .select('query_text')
+      .ilike('query_text', `${query.replace(/[%_]/g, '')}%`)
+      .gt('results_count', 0)
+      .order('search_timestamp', { ascending: false })
+      .limit(limit * 4)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const suggestions: string[] = []
+    for (const row of data || []) {
+      if (!suggestions.some(s => s.toLowerCase() === row.query_text.toLowerCase())) {
+        suggestions.push(row.query_text)
+      }
+      if (suggestions.length >= limit) break
+    }
+    return suggestions
+  }
+
+  /**
+   * Hybrid retrieval: semantic and keyword candidates are fused, filtered
+   * against their documents, optionally reranked and cut to max_results
+   */
+  private async retrieve(query: string, options: RAGSearchOptions): Promise<{
+    sources: SearchResultWithContext[]
+    queryEmbedding: number[] | null
+  }> {
+    const maxResults = options.max_results ?? 5
+    const candidateCount = maxResults * CANDIDATE_MULTIPLIER
+
+    const includeSuperseded = options.include_superseded ?? false
+    const [semantic, keyword] = await Promise.allSettled([
+      this.semanticSearch(query, options.similarity_threshold ?? 0.6, candidateCount, includeSuperseded),
+      this.keywordSearch(query, candidateCount, includeSuperseded)
+    ])
+
+    if (semantic.status === 'rejected' && keyword.status === 'rejected') {
+      throw semantic.reason
+    }
+    if (semantic.status === 'rejected') console.error('Semantic search failed:', semantic.reason)
+    if (keyword.status === 'rejected') console.error('Keyword search failed:', keyword.reason)
+
+    const fused = fuseResults(
+      semantic.status === 'fulfilled' ? semantic.value.candidates : [],
+      keyword.status === 'fulfilled' ? keyword.value : [],
+      options.hybrid_weight ?? DEFAULT_HYBRID_WEIGHT
+    )
+    const withDocuments = await this.attachDocuments(fused, options)
+    const ranked = options.rerank_results === false ? withDocuments : rerankResults(query, withDocuments)
+
+    return {
+      sources: ranked.slice(0, maxResults).map(source => options.include_metadata === false
+        ? { ...source, metadata: {} }
+        : source),
+      queryEmbedding: semantic.status === 'fulfilled' ? semantic.value.embedding : null
+    }
+  }
+
+  private async semanticSearch(query: string, threshold: number, limit: number, includeSuperseded: boolean) {
+    const { embedding } = await this.embeddings.generateEmbedding({ text: query })
+    const results = await this.embeddings.searchSimilarEmbeddings(embedding, {
+      similarity_threshold: threshold,
+      max_results: limit,
+      include_superseded: includeSuperseded
+    })
+
+    return {
+      embedding,
+      candidates: results.map(result => ({
+        chunk_id: result.chunk_id,
+        document_id: result.document_id,
+        document_title: result.document_title,
+        chunk_content: result.chunk_content,
+        metadata: result.metadata,
+        similarity_score: result.similarity_score
+      }))
+    }
+  }
+
+  private async keywordSearch(query: string, limit: number, includeSuperseded: boolean): Promise<RetrievalCandidate[]> {
+    const { data, error } = await this.supabase.rpc('search_chunks_fulltext', {
+      query_text: query,
+      max_results: limit,
+      include_superseded: includeSuperseded
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return ((data || []) as Array<RetrievalCandidate & { text_rank: number }>).map(row => ({
+      chunk_id: row.chunk_id,
+      document_id: row.document_id,
+      document_title: row.document_title,
+      chunk_content: row.chunk_content,
+      metadata: row.metadata || {},
+      text_rank: Number(row.text_rank)
+    }))
+  }
+
+  /**
+   * Add page, section and document details, dropping chunks whose document
+   * is outside the requested types or dates
+   */
+  private async attachDocuments(
+    results: SearchResultWithContext[],
+    options: RAGSearchOptions
+  ): Promise<SearchResultWithContext[]> {
+    if (results.length === 0) return results
+
+    const { data, error } = await this.supabase
+      .from('document_chunks')
+      .select('id, page_number, section_title, document:knowledge_documents(id, title, document_type, file_name, mime_type, uploaded_at)')
+      .in('id', results.map(result => result.chunk_id))
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const chunks = new Map((data || []).map(row => [row.id as string, row as unknown as {
+      page_number: number | null
+      section_title: string | null
+      document: Partial<KnowledgeDocument> | null
+    }]))
+
+    return results.flatMap(result => {
+      const chunk = chunks.get(result.chunk_id)
+      if (!chunk) return []
+
+      const document = chunk.document || {}
+      if (options.document_types?.length && !options.document_types.includes(document.document_type as DocumentType)) {
+        return []
+      }
+      if (options.date_range?.start && (document.uploaded_at ?? '') < options.date_range.start) return []
+      if (options.date_range?.end && (document.uploaded_at ?? '') > options.date_range.end) return []
+
+      return [{
+        ...result,
+        page_number: chunk.page_number ?? undefined,
+        section_title: chunk.section_title ?? undefined,
+        document
+      }]
+    })
+  }
+
+  private buildMessages(request: RAGQueryRequest, sources: SearchResultWithContext[]): ChatMessage[] {
+    const format = RESPONSE_FORMATS[request.generation_options?.response_format ?? 'detailed']
+    const numberedSources = sources
+      .map((source, i) => `[${i + 1}] ${sourceLabel(source)}\n${source.chunk_content}`)
+      .join('\n\n')
+
+    return [
+      { role: 'system', content: `${request.generation_options?.system_prompt || DEFAULT_SYSTEM_PROMPT}\n${format}` },
+      {
+        role: 'user',
+        content: [
+          `Sources:\n\n${numberedSources}`,
+          request.context ? `What the writer is drafting:\n${request.context}` : null,
+          `Question: ${request.query}`
+        ].filter(Boolean).join('\n\n')
+      }
+    ]
+  }
+
+  /**
+   * Relevance of the sources the answer relied on; uncited answers are
+   * treated as weakly grounded
+   */
+  private confidence(sources: SearchResultWithContext[], citedNumbers: number[]): number {
+    const relied = citedNumbers.length > 0
+      ? citedNumbers.map(number => sources[number - 1])
+      : sources.slice(0, 3)
+    const average = relied.reduce((sum, source) => sum + (source.similarity_score || source.relevance_score || 0), 0) / relied.length
+    const score = citedNumbers.length > 0 ? average : average * 0.5
+    return Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100
+  }
+
+  private async logQuery(
+    request: RAGQueryRequest,
+    sources: SearchResultWithContext[],
+    citedNumbers: number[],
+    queryEmbedding: number[] | null,
+    responseGenerated: boolean
+  ): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('rag_search_queries')
+      .insert({
+        user_id: request.user_id ?? null,
+        query_text: request.query,
+        query_embedding: queryEmbedding ? formatVector(queryEmbedding) : null,
+        results_count: sources.length,
+        confidence_threshold: request.search_options?.similarity_threshold ?? 0.6,
+        response_generated: responseGenerated,
+        metadata: {
+          hybrid_weight: request.search_options?.hybrid_weight ?? DEFAULT_HYBRID_WEIGHT,
+          reranked: request.search_options?.rerank_results !== false,
+          cited_count: citedNumbers.length
+        }
+      })
+      .select('id')
+      .single()
+
+    // Logging feeds analytics and must never fail the answer
+    if (error || !data) {
+      console.error('Failed to log RAG query:', error)
+      return null
+    }
+
+    if (sources.length > 0) {
+      const { error: resultsError } = await this.supabase
+        .from('rag_search_results')
+        .insert(sources.map((source, i) => ({
+          query_id: data.id,
+          chunk_id: source.chunk_id,
+          similarity_score: source.similarity_score,
+          rank_position: i + 1,
+          was_used_in_response: citedNumbers.includes(i + 1),
+          retrieval_method: source.retrieval_method ?? null
+        })))
+
+      if (resultsError) {
+        console.error('Failed to log RAG search results:', resultsError)
+      }
+    }
+
+    return data.id
+  }
+}
+
+// Export singleton instance
+export const ragQueryPipeline = new RAGQueryPipeline()
@@ -1,2 +1,416 @@
-export class RAGService { constructor() {} async listDocuments(_options?: any) { return { documents: [], total: 0 } } async uploadDocument(_req: any) { return { id: "stub", processing_status: "pending", processing_complete: false, chunk_count: 0 } } async getDocument(id: string) { return { id, processing_status: "pending", processing_complete: false, chunk_count: 0, embedding_count: 0, total_tokens: 0 } } async deleteDocument(_id: string) { return false } async searchSimilar(_req: any) { return [] } async ragQuery(_req: any) { return { success: false } } }
-export const ragService = new RAGService()
\ No newline at end of file
+/**
+ * RAG Service
+ * Knowledge Hub documents: upload, versioning, listing, deletion and
+ * similarity search. Uploads are stored as pending documents;
+ * RAGIngestionPipeline turns them into chunks and embeddings.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { EmbeddingService, contentChecksum } from './embedding-service'
+import { KNOWLEDGE_DOCUMENTS_BUCKET } from './rag-ingestion'
+import { DiffSegment, DiffStats, diffStats, diffText } from '@/lib/utils/text-diff'
+import {
+  DEFAULT_MAX_RESULTS,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  DocumentUploadRequest,
+  DocumentWithStats,
+  KnowledgeDocument,
+  RAGQueryRequest,
+  RAGResponse,
+  SearchRequest,
+  SearchResultWithContext
+} from '@/types/rag'
+
+export interface DocumentListOptions {
+  page?: number
+  limit?: number
+  type?: string
+  status?: string
+  search?: string
+  include_superseded?: boolean
+}
+
+export interface DocumentVersionDiff {
+  from: KnowledgeDocument
+  to: KnowledgeDocument
+  segments: DiffSegment[]
+  stats: DiffStats
+}
+
+interface DocumentStats {
+  chunk_count: number
+  total_tokens: number
+  embedding_count: number
+  processing_complete: boolean
+}
+
+export class RAGService {
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private embeddings: EmbeddingService = new EmbeddingService(supabase)
+  ) {}
+
+  /**
+   * List active documents, newest first. Versions replaced by a newer upload
+   * are left out unless include_superseded is set.
+   */
+  async listDocuments(options: DocumentListOptions = {}): Promise<{
+    documents: DocumentWithStats[]
+    total: number
+    page: number
+    limit: number
+  }> {
+    const page = Math.max(options.page || 1, 1)
+    const limit = Math.min(Math.max(options.limit || 20, 1), 100)
+
+    let query = this.supabase
+      .from('knowledge_documents')
+      .select('*', { count: 'exact' })
+      .eq('is_active', true)
+
+    if (!options.include_superseded) {
+      query = query.is('superseded_at', null)
+    }
+    if (options.type) {
+      query = query.eq('document_type', options.type)
+    }
+    if (options.status) {
+      query = query.eq('processing_status', options.status)
+    }
+    if (options.search) {
+      query = query.ilike('title', `%${options.search}%`)
+    }
+
+    const { data, error, count } = await query
+      .order('uploaded_at', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return {
+      documents: (data || []) as DocumentWithStats[],
+      total: count || 0,
+      page,
+      limit
+    }
+  }
+
+  /**
+   * Store a document for ingestion. Files go to storage under the uploader's
+   * folder and their text is extracted during ingestion; text uploads are
+   * stored directly. Re-uploading identical content returns the existing
+   * document; an upload with the title of a current document (or an explicit
+   * previous_version_id) becomes its next version, and supersedes it once
+   * ingested.
+   */
+  async uploadDocument(request: DocumentUploadRequest, userId: string): Promise<KnowledgeDocument> {
+    const buffer = request.file ? Buffer.from(await request.file.arrayBuffer()) : null
+    const content = buffer ? '' : request.content || ''
+    const checksum = buffer
+      ? createHash('sha256').update(buffer).digest('hex')
+      : contentChecksum(content)
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('checksum', checksum)
+      .maybeSingle()
+
+    if (existingError) {
+      throw new Error(`Database error: ${existingError.message}`)
+    }
+    if (existing) {
+      return existing as KnowledgeDocument
+    }
+
+    const previous = await this.findPreviousVersion(request)
+
+    let storagePath: string | null = null
+    if (request.file && buffer) {
+      const safeName = request.file.name.replace(/[^a-zA-Z0-9._-]/g, '_')
+      storagePath = `${userId}/${checksum}-${safeName}`
+
+      const { error: uploadError } = await this.supabase.storage
+        .from(KNOWLEDGE_DOCUMENTS_BUCKET)
+        .upload(storagePath, buffer, {
+          contentType: request.file.type || 'application/octet-stream',
+          upsert: true
+        })
+
+      if (uploadError) {
+        throw new Error(`Storage error: ${uploadError.message}`)
+      }
+    }
+
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .insert({
+        title: request.title,
+        content,
+        file_name: request.file?.name ?? null,
+        file_size: request.file?.size ?? null,
+        document_type: request.document_type,
+        mime_type: request.file?.type || null,
+        uploaded_by: userId,
+        processing_status: 'pending',
+        metadata: request.metadata || {},
+        tags: request.tags || [],
+        source_url: request.source_url ?? null,
+        checksum,
+        storage_path: storagePath,
+        version: previous ? previous.version + 1 : 1,
+        document_family_id: previous?.document_family_id ?? null,
+        previous_version_id: previous?.id ?? null
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (storagePath) {
+        await this.supabase.storage.from(KNOWLEDGE_DOCUMENTS_BUCKET).remove([storagePath])
+      }
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return data as KnowledgeDocument
+  }
+
+  /**
+   * The document an upload replaces: the one named by previous_version_id, or
+   * the latest current version with the same title
+   */
+  private async findPreviousVersion(request: DocumentUploadRequest): Promise<KnowledgeDocument | null> {
+    let query = this.supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('is_active', true)
+
+    query = request.previous_version_id
+      ? query.eq('id', request.previous_version_id)
+      : query
+        .ilike('title', request.title.trim().replace(/[\\%_]/g, '\\$&'))
+        .is('superseded_at', null)
+
+    const { data, error } = await query
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (request.previous_version_id && !data) {
+      throw new Error('Previous version not found')
+    }
+
+    return (data as KnowledgeDocument | null) ?? null
+  }
+
+  /**
+   * Every version of a document, newest first
+   */
+  async getVersions(id: string): Promise<KnowledgeDocument[]> {
+    const { data: document, error: documentError } = await this.supabase
+      .from('knowledge_documents')
+      .select('document_family_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (documentError) {
+      throw new Error(`Database error: ${documentError.message}`)
+    }
+    if (!document) return []
+
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('document_family_id', document.document_family_id)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return (data || []) as KnowledgeDocument[]
+  }
+
+  /**
+   * Word diff between two versions of a document, older version first.
+   * Returns null unless both documents exist and belong to the same family.
+   */
+  async diffVersions(id: string, otherId: string): Promise<DocumentVersionDiff | null> {
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('*')
+      .in('id', [id, otherId])
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const documents = (data || []) as KnowledgeDocument[]
+    const first = documents.find(document => document.id === id)
+    const second = documents.find(document => document.id === otherId)
+    if (!first || !second || first.document_family_id !== second.document_family_id) {
+      return null
+    }
+
+    const [from, to] = first.version <= second.version ? [first, second] : [second, first]
+    const segments = diffText(from.content || '', to.content || '')
+
+    return { from, to, segments, stats: diffStats(segments) }
+  }
+
+  /**
+   * Get a document with its chunk and embedding counts
+   */
+  async getDocument(id: string): Promise<DocumentWithStats | null> {
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) return null
+
+    const { data: stats, error: statsError } = await this.supabase.rpc('get_document_stats', { doc_id: id })
+
+    if (statsError) {
+      throw new Error(`Database error: ${statsError.message}`)
+    }
+
+    const documentStats = (stats || {}) as Partial<DocumentStats>
+    return {
+      ...(data as KnowledgeDocument),
+      chunk_count: documentStats.chunk_count ?? 0,
+      embedding_count: documentStats.embedding_count ?? 0,
+      total_tokens: documentStats.total_tokens ?? 0,
+      processing_complete: data.processing_status === 'completed'
+    }
+  }
+
+  /**
+   * Delete a document, its chunks and embeddings, and its uploaded file
+   */
+  async deleteDocument(id: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .delete()
+      .eq('id', id)
+      .select('storage_path')
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data || data.length === 0) return false
+
+    const paths = data.map(row => row.storage_path).filter((path): path is string => Boolean(path))
+    if (paths.length > 0) {
+      const { error: storageError } = await this.supabase.storage
+        .from(KNOWLEDGE_DOCUMENTS_BUCKET)
+        .remove(paths)
+
+      if (storageError) {
+        console.error('Failed to remove knowledge document file:', storageError)
+      }
+    }
+
+    return true
+  }
+
+  /**
+   * Short-lived link to a document's uploaded file. Storage policies only let
+   * uploaders read their own folder, so colleagues' files need an admin client.
+   */
+  async createFileUrl(storagePath: string, expiresInSeconds: number = 600): Promise<string> {
+    const { data, error } = await this.supabase.storage
+      .from(KNOWLEDGE_DOCUMENTS_BUCKET)
+      .createSignedUrl(storagePath, expiresInSeconds)
+
+    if (error || !data) {
+      throw new Error(`Storage error: ${error?.message || 'file not found'}`)
+    }
+
+    return data.signedUrl
+  }
+
+  /**
+   * Find the chunks most similar to the query
+   */
+  async searchSimilar(request: SearchRequest): Promise<SearchResultWithContext[]> {
+    const options = request.options || {}
+    const { embedding } = await this.embeddings.generateEmbedding({ text: request.query })
+
+    const results = await this.embeddings.searchSimilarEmbeddings(embedding, {
+      similarity_threshold: options.similarity_threshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+      max_results: options.max_results ?? DEFAULT_MAX_RESULTS,
+      document_types: options.document_types,
+      include_superseded: options.include_superseded
+    })
+
+    return results.map(result => ({
+      chunk_id: result.chunk_id,
+      document_id: result.document_id,
+      document_title: result.document_title,
+      chunk_content: result.chunk_content,
+      similarity_score: result.similarity_score,
+      metadata: result.metadata
+    }))
+  }
+
+  /**
+   * Retrieve sources for a question. Answers are composed from the sources
+   * themselves; generation is not wired in yet.
+   */
+  async ragQuery(request: RAGQueryRequest): Promise<RAGResponse> {
+    const startedAt = Date.now()
+    const sources = await this.searchSimilar(request)
+    const queryId = await this.logQuery(request, sources)
+
+    return {
+      answer: sources.length > 0
+        ? sources.map(source => `${source.chunk_content} [${source.document_title}]`).join('\n\n')
+        : 'No relevant knowledge found for this question.',
+      sources,
+      confidence: sources.length > 0
+        ? sources.reduce((sum, source) => sum + source.similarity_score, 0) / sources.length
+        : 0,
+      query_id: queryId,
+      generated_at: new Date().toISOString(),
+      tokens_used: 0,
+      processing_time_ms: Date.now() - startedAt
+    }
+  }
+
+  private async logQuery(request: RAGQueryRequest, sources: SearchResultWithContext[]): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('rag_search_queries')
+      .insert({
+        user_id: request.user_id ?? null,
+        query_text: request.query,
+        results_count: sources.length,
+        confidence_threshold: request.options?.similarity_threshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+        response_generated: false
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      // Query analytics should never fail the query itself
+      console.error('Failed to log RAG query:', error)
+      return ''
+    }
+
+    return data.id
+  }
+}
+
+// Export singleton instance
+export const ragService = new RAGService()
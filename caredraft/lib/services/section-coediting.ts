@@ -0,0 +1,185 @@
+/**
+ * Section Co-editing Service
+ * Loads, syncs and saves the CRDT behind a section's content so several
+ * writers can edit it at once. Edits are appended to a log that every open
+ * copy follows over realtime; snapshots are saved now and then along with the
+ * section content, and the log is replayed on top of the latest snapshot.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { CrdtOperation, TextCrdt, TextCrdtState } from '@/lib/utils/text-crdt'
+import { CommentsService } from './collaboration'
+
+export interface SectionEditBatch {
+  id: number
+  section_id: string
+  user_id: string
+  client_id: string
+  ops: CrdtOperation[]
+  created_at: string
+}
+
+export interface SectionDocument {
+  content: string
+  state: TextCrdtState
+  // Last logged edit included in the snapshot
+  lastOpId: number
+  // Logged edits not yet trimmed, which may overlap the snapshot
+  edits: SectionEditBatch[]
+}
+
+export type SectionEditsChannelStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR'
+
+/**
+ * Site for an edit made to the content outside co-editing. Named after the
+ * content so every copy that spots the same edit records it with the same ids.
+ */
+export function externalEditSite(content: string): string {
+  let hash = 5381
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0
+  }
+  return `external:${(hash >>> 0).toString(36)}`
+}
+
+export class SectionCoeditingService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * The latest snapshot of a section with the edits logged since. Content
+   * saved outside co-editing after the snapshot is brought in as an edit.
+   */
+  async loadDocument(sectionId: string): Promise<SectionDocument> {
+    const [{ data: section, error: sectionError }, { data: document, error: documentError }] = await Promise.all([
+      this.supabase
+        .from('sections')
+        .select('id, content, updated_at')
+        .eq('id', sectionId)
+        .maybeSingle(),
+      this.supabase
+        .from('section_documents')
+        .select('state, last_op_id, updated_at')
+        .eq('section_id', sectionId)
+        .maybeSingle()
+    ])
+
+    if (sectionError || documentError) {
+      throw new Error(`Database error: ${(sectionError || documentError)!.message}`)
+    }
+    if (!section) {
+      throw new Error('Section not found')
+    }
+
+    const content: string = section.content || ''
+    let crdt: TextCrdt
+    if (!document) {
+      crdt = TextCrdt.fromText(content, externalEditSite(content))
+    } else {
+      crdt = new TextCrdt(externalEditSite(content), document.state as TextCrdtState)
+      const savedElsewhere = section.updated_at && document.updated_at &&
+        new Date(section.updated_at).getTime() > new Date(document.updated_at).getTime()
+      if (savedElsewhere && crdt.text() !== content) {
+        crdt.applyLocalText(content)
+      }
+    }
+
+    return {
+      content: crdt.text(),
+      state: crdt.toState(),
+      lastOpId: document?.last_op_id ?? 0,
+      edits: await this.getEditsSince(sectionId, 0)
+    }
+  }
+
+  /**
+   * Logged edits after the given one, oldest first
+   */
+  async getEditsSince(sectionId: string, afterId: number): Promise<SectionEditBatch[]> {
+    const { data, error } = await this.supabase
+      .from('section_edit_ops')
+      .select('*')
+      .eq('section_id', sectionId)
+      .gt('id', afterId)
+      .order('id', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return (data || []) as SectionEditBatch[]
+  }
+
+  /**
+   * Log a batch of edits from this editing session. Returns its log id.
+   */
+  async appendEdits(sectionId: string, clientId: string, ops: CrdtOperation[]): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('section_edit_ops')
+      .insert({ section_id: sectionId, client_id: clientId, ops })
+      .select('id')
+      .single()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return data.id as number
+  }
+
+  /**
+   * Follow edits logged on a section by anyone, this session included.
+   * Returns the unsubscribe function.
+   */
+  subscribeToEdits(
+    sectionId: string,
+    onEdits: (batch: SectionEditBatch) => void,
+    onStatus?: (status: SectionEditsChannelStatus) => void
+  ): () => void {
+    const channel = this.supabase
+      .channel(`section-edits:${sectionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'section_edit_ops', filter: `section_id=eq.${sectionId}` },
+        (payload) => onEdits(payload.new as SectionEditBatch)
+      )
+      .subscribe((status) => onStatus?.(status as SectionEditsChannelStatus))
+
+    return () => {
+      this.supabase.removeChannel(channel)
+    }
+  }
+
+  /**
+   * Save a snapshot and the content it reads as, then move comment anchors
+   * from the content it replaced. Returns false when a newer snapshot was
+   * already saved.
+   */
+  async saveDocument(sectionId: string, crdt: TextCrdt, lastOpId: number): Promise<boolean> {
+    const content = crdt.text()
+    const { data, error } = await this.supabase.rpc('save_section_document', {
+      p_section_id: sectionId,
+      p_state: crdt.toState(),
+      p_content: content,
+      p_last_op_id: lastOpId
+    })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    const result = data as { saved: boolean; previous_content: string | null }
+    if (!result.saved) return false
+
+    const previousContent = result.previous_content
+    if (previousContent !== content) {
+      try {
+        await new CommentsService(this.supabase).remapSectionAnchors(sectionId, previousContent, content)
+      } catch (remapError) {
+        // The content is saved either way; comments stay on their old ranges
+        console.error('Error moving comment anchors:', remapError)
+      }
+    }
+    return true
+  }
+}
+
+// Export singleton instance
+export const sectionCoeditingService = new SectionCoeditingService()
@@ -0,0 +1,236 @@
+/**
+ * Section Versions Service
+ * Every autosave and manual save of a section is kept as a version with its
+ * author and word count. Versions can be named as milestones, diffed word by
+ * word, and restored; a restore is itself a new version and keeps the text
+ * it replaced, so it can be undone the same way.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { countRichTextWords, parseRichText, richTextToPlainText } from '@/lib/utils/rich-text'
+import { diffStats, diffTextBySentence } from '@/lib/utils/text-diff'
+import { TextCrdt } from '@/lib/utils/text-crdt'
+import type { CreateVersionInput, Version, VersionDiff } from '@/types/collaboration'
+import { loadUsers } from './collaboration'
+import { SectionCoeditingService } from './section-coediting'
+
+export type SectionVersionErrorCode = 'not_found' | 'not_permitted' | 'no_changes'
+
+export const SECTION_VERSION_ERROR_STATUS: Record<SectionVersionErrorCode, number> = {
+  not_found: 404,
+  not_permitted: 403,
+  no_changes: 409
+}
+
+export class SectionVersionError extends Error {
+  constructor(message: string, public code: SectionVersionErrorCode) {
+    super(message)
+    this.name = 'SectionVersionError'
+  }
+}
+
+/**
+ * Section content as plain text, one block per line, for diffing
+ */
+export function sectionPlainText(content: string | null | undefined): string {
+  return content ? richTextToPlainText(parseRichText(content)) : ''
+}
+
+export class SectionVersionsService {
+  constructor(private supabase: SupabaseClient = createClient()) {}
+
+  /**
+   * Every version of a section with its author, newest first
+   */
+  async getVersions(sectionId: string): Promise<Version[]> {
+    const { data, error } = await this.supabase
+      .from('versions')
+      .select('*')
+      .eq('section_id', sectionId)
+      .order('version_number', { ascending: false })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const versions = (data || []) as Version[]
+    const authors = await loadUsers(this.supabase, versions.map(version => version.user_id))
+    return versions.map(version => ({ ...version, user: authors.get(version.user_id) }))
+  }
+
+  /**
+   * Snapshot content as the section's next version. Saving unchanged content
+   * returns the latest version instead, named if a milestone name is given.
+   */
+  async saveVersion(input: CreateVersionInput): Promise<Version> {
+    return this.save({
+      section_id: input.section_id,
+      content: input.content_snapshot,
+      change_summary: input.change_summary,
+      save_kind: input.save_kind ?? 'autosave',
+      milestone_name: input.milestone_name
+    })
+  }
+
+  /**
+   * Name a version as a milestone, or clear its name with null
+   */
+  async nameMilestone(sectionId: string, versionNumber: number, milestoneName: string | null): Promise<Version> {
+    const version = await this.getVersion(sectionId, versionNumber)
+    const { data, error } = await this.supabase.rpc('name_section_version', {
+      p_version_id: version.id,
+      p_milestone_name: milestoneName?.trim() || null
+    })
+
+    if (error) {
+      if (error.code === 'P0002') {
+        throw new SectionVersionError(`Version ${versionNumber} not found`, 'not_found')
+      }
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return data as Version
+  }
+
+  /**
+   * Word diff between two versions, older first, with everyone who saved a
+   * version in between. Null if either is missing.
+   */
+  async diffVersions(sectionId: string, versionNumber: number, otherVersionNumber: number): Promise<VersionDiff | null> {
+    const fromNumber = Math.min(versionNumber, otherVersionNumber)
+    const toNumber = Math.max(versionNumber, otherVersionNumber)
+
+    const [{ data, error }, { data: section, error: sectionError }] = await Promise.all([
+      this.supabase
+        .from('versions')
+        .select('*')
+        .eq('section_id', sectionId)
+        .gte('version_number', fromNumber)
+        .lte('version_number', toNumber)
+        .order('version_number', { ascending: true }),
+      this.supabase
+        .from('sections')
+        .select('word_count_limit')
+        .eq('id', sectionId)
+        .maybeSingle()
+    ])
+
+    if (error || sectionError) {
+      throw new Error(`Database error: ${(error || sectionError)!.message}`)
+    }
+
+    const versions = (data || []) as Version[]
+    const from = versions.find(version => version.version_number === fromNumber)
+    const to = versions.find(version => version.version_number === toNumber)
+    if (!from || !to) return null
+
+    const authors = await loadUsers(this.supabase, versions.map(version => version.user_id))
+    const withAuthor = (version: Version): Version => ({ ...version, user: authors.get(version.user_id) })
+    const segments = diffTextBySentence(sectionPlainText(from.content_snapshot), sectionPlainText(to.content_snapshot))
+
+    return {
+      section_id: sectionId,
+      from: withAuthor(from),
+      to: withAuthor(to),
+      authors: Array.from(new Set(versions.filter(version => version !== from).map(version => version.user_id)))
+        .flatMap(userId => authors.get(userId) ?? []),
+      segments,
+      stats: diffStats(segments),
+      word_count_limit: section?.word_count_limit ?? 0
+    }
+  }
+
+  /**
+   * Make an earlier version current again. The current text is kept as a
+   * version first, and the restore goes through co-editing so anyone with
+   * the section open sees it straight away.
+   */
+  async restoreVersion(sectionId: string, versionNumber: number): Promise<Version> {
+    const restored = await this.getVersion(sectionId, versionNumber)
+    const coediting = new SectionCoeditingService(this.supabase)
+
+    // The section as its co-editors have it right now
+    const document = await coediting.loadDocument(sectionId)
+    const site = `restore:${crypto.randomUUID()}`
+    const crdt = new TextCrdt(site, document.state)
+    let lastOpId = document.lastOpId
+    for (const batch of document.edits) {
+      crdt.apply(batch.ops)
+      lastOpId = Math.max(lastOpId, batch.id)
+    }
+
+    const current = crdt.text()
+    if (current === restored.content_snapshot) {
+      throw new SectionVersionError(`The section already matches version ${versionNumber}`, 'no_changes')
+    }
+
+    await this.save({
+      section_id: sectionId,
+      content: current,
+      change_summary: `Before restoring version ${versionNumber}`,
+      save_kind: 'autosave'
+    })
+
+    const ops = crdt.applyLocalText(restored.content_snapshot)
+    const opId = await coediting.appendEdits(sectionId, site, ops)
+    await coediting.saveDocument(sectionId, crdt, Math.max(lastOpId, opId))
+
+    return this.save({
+      section_id: sectionId,
+      content: restored.content_snapshot,
+      change_summary: `Restored version ${versionNumber}`,
+      save_kind: 'restore',
+      restored_from_version: versionNumber
+    })
+  }
+
+  private async getVersion(sectionId: string, versionNumber: number): Promise<Version> {
+    const { data, error } = await this.supabase
+      .from('versions')
+      .select('*')
+      .eq('section_id', sectionId)
+      .eq('version_number', versionNumber)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) {
+      throw new SectionVersionError(`Version ${versionNumber} not found`, 'not_found')
+    }
+    return data as Version
+  }
+
+  private async save(next: {
+    section_id: string
+    content: string
+    change_summary?: string | null
+    save_kind: NonNullable<Version['save_kind']>
+    milestone_name?: string | null
+    restored_from_version?: number
+  }): Promise<Version> {
+    const { data, error } = await this.supabase.rpc('save_section_version', {
+      p_section_id: next.section_id,
+      p_content: next.content,
+      p_word_count: countRichTextWords(next.content),
+      p_change_summary: next.change_summary?.trim() || null,
+      p_save_kind: next.save_kind,
+      p_milestone_name: next.milestone_name?.trim() || null,
+      p_restored_from_version: next.restored_from_version ?? null
+    })
+
+    if (error) {
+      if (error.code === '42501') {
+        throw new SectionVersionError(error.message, 'not_permitted')
+      }
+      if (error.code === 'P0002') {
+        throw new SectionVersionError('Section not found', 'not_found')
+      }
+      throw new Error(`Database error: ${error.message}`)
+    }
+    return data as Version
+  }
+}
+
+// Export singleton instance
+export const sectionVersionsService = new SectionVersionsService()
@@ -1,4 +1,15 @@
-import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
+/**
+ * Tender Knowledge Integration Service
+ * Finds the Knowledge Hub documents and answer bank entries that best support
+ * a tender. Each requirement, evaluation criterion and compliance requirement
+ * is embedded and matched against both, results are diversified so
+ * near-duplicate sources cannot fill the list, and every recommendation
+ * carries a KnowledgeRelevanceScore breakdown.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase'
+import { EmbeddingService } from './embedding-service'
 
 export interface TenderKnowledgeSource {
   id: string
@@ -6,6 +17,8 @@ export interface TenderKnowledgeSource {
   content: string
   type: 'document' | 'policy' | 'template' | 'case-study' | 'guide' | 'framework'
   source: 'internal' | 'external' | 'tender-specific'
+  // Where the source is stored
+  origin?: 'knowledge-base' | 'answer-bank'
   relevance_score: number
   topic_tags: string[]
   tender_categories: string[]
@@ -24,6 +37,28 @@ export interface TenderContextQuery {
   max_results?: number
 }
 
+export type TenderFacetKind = 'requirement' | 'evaluation' | 'compliance' | 'authority'
+
+// A requirement, criterion or authority the source was matched against
+/** A tender as stored, in the shape strategy generation takes */
+export interface TenderDetails {
+  title: string
+  issuing_authority?: string
+  deadline?: string
+  /** In pounds */
+  contract_value?: number
+  requirements: string[]
+  evaluation_criteria: Array<{ criteria: string; weight: number }>
+  compliance_requirements: string[]
+}
+
+export interface TenderFacetMatch {
+  text: string
+  kind: TenderFacetKind
+  // 0-100, see similarityToScore
+  score: number
+}
+
 export interface KnowledgeRelevanceScore {
   source_id: string
   relevance_score: number
@@ -36,11 +71,140 @@ export interface KnowledgeRelevanceScore {
   }
   suggested_sections: string[]
   case_study_applicability: number
+  // Strongest matches first
+  matched_requirements?: TenderFacetMatch[]
+}
+
+interface TenderFacet {
+  text: string
+  kind: TenderFacetKind
+  weight: number
+}
+
+interface KnowledgeCandidate {
+  source: TenderKnowledgeSource
+  // Representative text: the best matching chunk, or the answer itself
+  embedding: number[]
+  // Cosine similarity per facet, by facet index
+  facetSimilarity: number[]
+}
+
+interface ScoredCandidate extends KnowledgeCandidate {
+  score: KnowledgeRelevanceScore
+}
+
+// Factor weights; factors with nothing to compare against are left out and
+// the remaining weights rescaled
+const FACTOR_WEIGHTS = {
+  requirement_match: 0.3,
+  compliance_match: 0.25,
+  authority_match: 0.2,
+  topic_match: 0.15,
+  historical_success: 0.1
+}
+
+// Cosine similarities at or below this are treated as unrelated
+const SIMILARITY_FLOOR = 0.2
+const KNOWLEDGE_SIMILARITY_THRESHOLD = 0.3
+const CHUNKS_PER_FACET = 8
+const MAX_FACETS = 30
+const ANSWER_CANDIDATE_LIMIT = 200
+const MAX_EMBEDDED_CHARS = 4000
+// Relevance against redundancy when diversifying, 1 ignores redundancy
+const DIVERSITY_LAMBDA = 0.7
+
+// Care sector topics, assigned to content by embedding similarity
+const CARE_TOPICS: Array<{ tag: string; description: string }> = [
+  { tag: 'cqc', description: 'CQC registration, inspections, ratings and the fundamental standards' },
+  { tag: 'safeguarding', description: 'Safeguarding adults and children from abuse, neglect and harm' },
+  { tag: 'care-planning', description: 'Person-centred care planning, assessment and reviews' },
+  { tag: 'medication', description: 'Medication management, administration and MAR charts' },
+  { tag: 'staff-training', description: 'Staff recruitment, induction, training and supervision' },
+  { tag: 'quality-assurance', description: 'Quality assurance, audits, monitoring and continuous improvement' },
+  { tag: 'dementia', description: 'Dementia care and support for people living with dementia' },
+  { tag: 'mental-health', description: 'Mental health support, crisis care and recovery' },
+  { tag: 'domiciliary', description: 'Domiciliary and home care visits in the community' },
+  { tag: 'residential', description: 'Residential and nursing home care' },
+  { tag: 'supported-living', description: 'Supported living and independence for people with learning disabilities' },
+  { tag: 'nhs', description: 'NHS commissioning, integrated care boards and hospital discharge' },
+  { tag: 'local-authority', description: 'Local authority and council commissioned adult social care' },
+  { tag: 'health-safety', description: 'Health and safety, infection prevention and control' },
+  { tag: 'data-protection', description: 'GDPR, data protection, information governance and records' },
+  { tag: 'emergency-procedures', description: 'Business continuity, emergency response and on-call arrangements' },
+  { tag: 'risk-assessment', description: 'Risk assessment, incident reporting and lessons learned' },
+  { tag: 'social-value', description: 'Social value, local employment, community benefit and sustainability' },
+  { tag: 'technology', description: 'Digital care records, electronic call monitoring and care technology' },
+  { tag: 'outcomes', description: 'Outcome measurement, KPIs and evidence of impact' }
+]
+
+const TOPIC_LIMIT = 5
+// Topics scoring within this share of the best topic are also assigned
+const TOPIC_RELATIVE_CUTOFF = 0.9
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Map a cosine similarity to 0-100, with anything at or below the floor as 0
+ */
+export function similarityToScore(similarity: number): number {
+  const scaled = (similarity - SIMILARITY_FLOOR) / (1 - SIMILARITY_FLOOR)
+  return Math.round(Math.min(Math.max(scaled, 0), 1) * 1000) / 10
+}
+
+/**
+ * Order items by maximal marginal relevance: each pick trades its relevance
+ * against its similarity to what has already been picked
+ */
+export function diversifyResults<T extends { embedding: number[]; relevance: number }>(
+  items: T[],
+  limit: number,
+  lambda: number = DIVERSITY_LAMBDA
+): T[] {
+  const remaining = [...items]
+  const selected: T[] = []
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0
+    let bestValue = -Infinity
+
+    remaining.forEach((item, index) => {
+      const redundancy = selected.length === 0
+        ? 0
+        : Math.max(...selected.map(picked => cosineSimilarity(item.embedding, picked.embedding)))
+      const value = lambda * item.relevance - (1 - lambda) * redundancy
+      if (value > bestValue) {
+        bestValue = value
+        bestIndex = index
+      }
+    })
+
+    selected.push(remaining.splice(bestIndex, 1)[0])
+  }
+
+  return selected
 }
 
 export class TenderKnowledgeIntegrationService {
   private static instance: TenderKnowledgeIntegrationService
-  private supabase = createClientComponentClient()
+  private topicEmbeddings: Promise<number[][]> | null = null
+
+  constructor(
+    private supabase: SupabaseClient = createClient(),
+    private embeddings: EmbeddingService = new EmbeddingService(supabase)
+  ) {}
 
   static getInstance(): TenderKnowledgeIntegrationService {
     if (!TenderKnowledgeIntegrationService.instance) {
@@ -53,20 +217,20 @@ export class TenderKnowledgeIntegrationService {
    * Index tender-specific documents with topic-based tagging
    */
   async indexTenderDocuments(
-    tenderId: string, 
+    tenderId: string,
     documents: Array<{ title: string; content: string; type: string }>
   ): Promise<void> {
     try {
       for (const doc of documents) {
         // Extract topics using AI analysis
         const topics = await this.extractTopicsFromContent(doc.content)
-        
+
         // Generate embeddings for semantic search
         const embeddings = await this.generateEmbeddings(doc.content)
-        
+
         // Categorize by tender type
         const categories = await this.categorizeTenderDocument(doc.content, doc.type)
-        
+
         // Store in knowledge base with enhanced metadata
         await this.supabase.from('tender_knowledge_sources').insert({
           tender_id: tenderId,
@@ -86,38 +250,141 @@ export class TenderKnowledgeIntegrationService {
   }
 
   /**
-   * Get contextually relevant knowledge for tender strategy generation
+   * Load a tender's requirements, evaluation criteria and compliance
+   * requirements. Questions count as requirements. Returns null when the
+   * tender does not exist or belongs to another organisation.
    */
-  async getRelevantKnowledge(query: TenderContextQuery): Promise<{
+  async getTenderDetails(tenderId: string): Promise<TenderDetails | null> {
+    const { data, error } = await this.supabase
+      .from('tender_workflows')
+      .select(`
+        title,
+        issuing_authority,
+        deadline,
+        contract_value,
+        tender_metadata (issuing_body, scoring_weightings, compliance_requirements, special_conditions),
+        tender_questions (question_text)
+      `)
+      .eq('id', tenderId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+    if (!data) return null
+
+    const tender = data as {
+      title: string
+      issuing_authority: string | null
+      deadline: string | null
+      contract_value: number | null
+      tender_metadata: Array<{
+        issuing_body: string | null
+        scoring_weightings: Record<string, number> | null
+        compliance_requirements: unknown
+        special_conditions: string[] | null
+      }> | null
+      tender_questions: Array<{ question_text: string }> | null
+    }
+    const metadata = tender.tender_metadata?.[0]
+    const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+
+    return {
+      title: tender.title,
+      issuing_authority: tender.issuing_authority || metadata?.issuing_body || undefined,
+      deadline: tender.deadline || undefined,
+      // Stored in pence
+      contract_value: tender.contract_value === null ? undefined : tender.contract_value / 100,
+      requirements: [
+        ...(tender.tender_questions || []).map(question => question.question_text),
+        ...(metadata?.special_conditions || [])
+      ],
+      evaluation_criteria: Object.entries(metadata?.scoring_weightings || {})
+        .map(([criteria, weight]) => ({ criteria, weight: Number(weight) || 0 })),
+      compliance_requirements: strings(metadata?.compliance_requirements)
+    }
+  }
+
+  /**
+   * Knowledge relevant to a stored tender, ranked against its requirements.
+   * Returns null when the tender cannot be found.
+   */
+  async getRelevantKnowledge(tenderId: string, options: { max_results?: number } = {}): Promise<{
+    tender: TenderDetails
+    sources: TenderKnowledgeSource[]
+    relevance_scores: KnowledgeRelevanceScore[]
+    case_study_recommendations: string[]
+  } | null> {
+    const tender = await this.getTenderDetails(tenderId)
+    if (!tender) return null
+
+    const knowledge = await this.rankKnowledge({
+      tender_id: tenderId,
+      requirements: tender.requirements,
+      evaluation_criteria: tender.evaluation_criteria,
+      compliance_requirements: tender.compliance_requirements,
+      issuing_authority: tender.issuing_authority,
+      max_results: options.max_results
+    })
+
+    return { tender, ...knowledge }
+  }
+
+  /**
+   * Rank the knowledge base and answer bank against a tender's context
+   */
+  async rankKnowledge(query: TenderContextQuery): Promise<{
     sources: TenderKnowledgeSource[]
     relevance_scores: KnowledgeRelevanceScore[]
     case_study_recommendations: string[]
   }> {
     try {
-      // Get all potential knowledge sources
-      const sources = await this.getAllKnowledgeSources()
-      
-      // Calculate relevance scores for each source
-      const relevanceScores = await Promise.all(
-        sources.map(source => this.calculateRelevanceScore(source, query))
-      )
-      
-      // Sort by relevance score
-      const sortedSources = sources
-        .map((source, index) => ({ source, score: relevanceScores[index] }))
-        .sort((a, b) => b.score.relevance_score - a.score.relevance_score)
-        .slice(0, query.max_results || 10)
-      
-      // Extract case study recommendations
-      const caseStudyRecommendations = this.extractCaseStudyRecommendations(
-        sortedSources.map(s => s.source),
-        query
+      const facets = this.buildFacets(query)
+      if (facets.length === 0) {
+        return { sources: [], relevance_scores: [], case_study_recommendations: [] }
+      }
+
+      const { embeddings: facetEmbeddings } = await this.embeddings.generateBatchEmbeddings({
+        texts: facets.map(facet => facet.text)
+      })
+      const facetVectors = facetEmbeddings.map(result => result.embedding)
+
+      const [knowledge, answers] = await Promise.allSettled([
+        this.findKnowledgeDocuments(facetVectors),
+        this.findAnswers(facetVectors)
+      ])
+
+      if (knowledge.status === 'rejected' && answers.status === 'rejected') {
+        throw knowledge.reason
+      }
+      if (knowledge.status === 'rejected') console.error('Knowledge base search failed:', knowledge.reason)
+      if (answers.status === 'rejected') console.error('Answer bank search failed:', answers.reason)
+
+      const candidates = [
+        ...(knowledge.status === 'fulfilled' ? knowledge.value : []),
+        ...(answers.status === 'fulfilled' ? answers.value : [])
+      ]
+
+      const queryTopics = await this.assignTopics(facetVectors)
+      const scored: ScoredCandidate[] = []
+      for (const candidate of candidates) {
+        candidate.source.topic_tags = await this.assignTopics([candidate.embedding])
+        const score = this.calculateRelevanceScore(candidate, facets, query, queryTopics)
+        candidate.source.relevance_score = score.relevance_score
+        scored.push({ ...candidate, score })
+      }
+
+      const ranked = diversifyResults(
+        scored
+          .filter(candidate => candidate.score.relevance_score > 0)
+          .map(candidate => ({ ...candidate, relevance: candidate.score.relevance_score / 100 })),
+        query.max_results || 10
       )
-      
+
       return {
-        sources: sortedSources.map(s => s.source),
-        relevance_scores: sortedSources.map(s => s.score),
-        case_study_recommendations: caseStudyRecommendations
+        sources: ranked.map(candidate => candidate.source),
+        relevance_scores: ranked.map(candidate => candidate.score),
+        case_study_recommendations: this.extractCaseStudyRecommendations(ranked, query)
       }
     } catch (error) {
       console.error('Error getting relevant knowledge:', error)
@@ -126,29 +393,12 @@ export class TenderKnowledgeIntegrationService {
   }
 
   /**
-   * AI-powered topic extraction from document content
+   * Tag content with the care topics its embedding is closest to
    */
   private async extractTopicsFromContent(content: string): Promise<string[]> {
     try {
-      // Use AI to analyze content and extract relevant topics
-      // For now, simulate with keyword-based extraction
-      const keywords = [
-        'cqc', 'inspection', 'compliance', 'safeguarding', 'care-planning',
-        'medication', 'staff-training', 'quality-assurance', 'person-centered',
-        'dementia', 'mental-health', 'community-care', 'domiciliary',
-        'residential', 'nursing-home', 'supported-living', 'day-care',
-        'nhs', 'local-authority', 'ccg', 'icb', 'social-services',
-        'health-safety', 'infection-control', 'gdpr', 'data-protection',
-        'emergency-procedures', 'risk-assessment', 'incident-reporting'
-      ]
-      
-      const contentLower = content.toLowerCase()
-      const extractedTopics = keywords.filter(keyword => 
-        contentLower.includes(keyword.replace('-', ' ')) || 
-        contentLower.includes(keyword)
-      )
-      
-      return extractedTopics.slice(0, 10) // Limit to 10 most relevant topics
+      const embedding = await this.generateEmbeddings(content)
+      return embedding.length > 0 ? this.assignTopics([embedding]) : []
     } catch (error) {
       console.error('Error extracting topics:', error)
       return []
@@ -158,25 +408,52 @@ export class TenderKnowledgeIntegrationService {
   /**
    * Generate embeddings for semantic similarity search
    */
-  private async generateEmbeddings(_content: string): Promise<number[]> {
+  private async generateEmbeddings(content: string): Promise<number[]> {
     try {
-      // In production, use OpenAI embeddings API or similar
-      // For now, return mock embeddings
-      const mockEmbedding = Array.from({ length: 768 }, () => Math.random() - 0.5)
-      return mockEmbedding
+      const { embedding } = await this.embeddings.generateEmbedding({ text: content.slice(0, MAX_EMBEDDED_CHARS) })
+      return embedding
     } catch (error) {
       console.error('Error generating embeddings:', error)
       return []
     }
   }
 
+  /**
+   * Topics closest to any of the given embeddings
+   */
+  private async assignTopics(vectors: number[][]): Promise<string[]> {
+    if (!this.topicEmbeddings) {
+      this.topicEmbeddings = this.embeddings
+        .generateBatchEmbeddings({ texts: CARE_TOPICS.map(topic => `${topic.tag}: ${topic.description}`) })
+        .then(result => result.embeddings.map(item => item.embedding))
+        .catch(error => {
+          this.topicEmbeddings = null
+          throw error
+        })
+    }
+    const topicVectors = await this.topicEmbeddings
+
+    const similarities = CARE_TOPICS.map((topic, i) => ({
+      tag: topic.tag,
+      similarity: Math.max(...vectors.map(vector => cosineSimilarity(vector, topicVectors[i])))
+    })).sort((a, b) => b.similarity - a.similarity)
+
+    const best = similarities[0]?.similarity ?? 0
+    if (best <= 0) return []
+
+    return similarities
+      .filter(topic => topic.similarity >= best * TOPIC_RELATIVE_CUTOFF)
+      .slice(0, TOPIC_LIMIT)
+      .map(topic => topic.tag)
+  }
+
   /**
    * Categorize tender documents by type and focus area
    */
   private async categorizeTenderDocument(content: string, type: string): Promise<string[]> {
     const categories: string[] = [type]
     const contentLower = content.toLowerCase()
-    
+
     // Service type categorization
     if (contentLower.includes('community') || contentLower.includes('domiciliary')) {
       categories.push('community-care')
@@ -190,7 +467,7 @@ export class TenderKnowledgeIntegrationService {
     if (contentLower.includes('dementia') || contentLower.includes('alzheimer')) {
       categories.push('dementia-care')
     }
-    
+
     // Authority type categorization
     if (contentLower.includes('nhs') || contentLower.includes('clinical commissioning')) {
       categories.push('nhs-contract')
@@ -198,125 +475,275 @@ export class TenderKnowledgeIntegrationService {
     if (contentLower.includes('local authority') || contentLower.includes('council')) {
       categories.push('local-authority')
     }
-    
+
     return categories
   }
 
   /**
-   * Get all available knowledge sources
+   * The texts a tender is matched on. Evaluation criteria are weighted
+   * against each other, averaging the weight of one requirement.
+   */
+  private buildFacets(query: TenderContextQuery): TenderFacet[] {
+    const clean = (text: string) => text.trim()
+    const criteria = query.evaluation_criteria.filter(criterion => clean(criterion.criteria))
+    const meanWeight = criteria.reduce((sum, criterion) => sum + Math.max(criterion.weight, 0), 0) / Math.max(criteria.length, 1)
+
+    const facets: TenderFacet[] = [
+      ...query.requirements.filter(clean).map(text => ({ text: clean(text), kind: 'requirement' as const, weight: 1 })),
+      ...criteria.map(criterion => ({
+        text: clean(criterion.criteria),
+        kind: 'evaluation' as const,
+        weight: meanWeight > 0 ? Math.max(criterion.weight, 0) / meanWeight : 1
+      })),
+      ...query.compliance_requirements.filter(clean).map(text => ({ text: clean(text), kind: 'compliance' as const, weight: 1 }))
+    ].slice(0, MAX_FACETS)
+
+    const authority = [query.issuing_authority, query.contract_type].filter(Boolean).join(', ')
+    if (authority) {
+      facets.push({ text: authority, kind: 'authority', weight: 1 })
+    }
+
+    return facets
+  }
+
+  /**
+   * Knowledge Hub documents with chunks close to any facet. Each document is
+   * represented by its best matching chunk.
+   */
+  private async findKnowledgeDocuments(facetVectors: number[][]): Promise<KnowledgeCandidate[]> {
+    const searches = await Promise.all(facetVectors.map(vector =>
+      this.embeddings.searchSimilarEmbeddings(vector, {
+        similarity_threshold: KNOWLEDGE_SIMILARITY_THRESHOLD,
+        max_results: CHUNKS_PER_FACET
+      })
+    ))
+
+    const bestChunks = new Map<string, { title: string; content: string; similarity: number }>()
+    searches.flat().forEach(chunk => {
+      const best = bestChunks.get(chunk.document_id)
+      if (!best || chunk.similarity_score > best.similarity) {
+        bestChunks.set(chunk.document_id, {
+          title: chunk.document_title,
+          content: chunk.chunk_content,
+          similarity: chunk.similarity_score
+        })
+      }
+    })
+    if (bestChunks.size === 0) return []
+
+    const documentIds = Array.from(bestChunks.keys())
+    const { data, error } = await this.supabase
+      .from('knowledge_documents')
+      .select('id, title, tags, metadata, updated_at')
+      .in('id', documentIds)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const details = new Map(((data || []) as Array<{
+      id: string
+      title: string
+      tags: string[] | null
+      metadata: Record<string, unknown> | null
+      updated_at: string
+    }>).map(row => [row.id, row]))
+
+    const { embeddings: chunkEmbeddings } = await this.embeddings.generateBatchEmbeddings({
+      texts: documentIds.map(id => bestChunks.get(id)!.content)
+    })
+
+    return documentIds.map((id, i) => {
+      const chunk = bestChunks.get(id)!
+      const document = details.get(id)
+      const embedding = chunkEmbeddings[i].embedding
+      const tags = document?.tags || []
+
+      return {
+        source: {
+          id,
+          title: document?.title || chunk.title,
+          content: chunk.content,
+          type: this.inferSourceType(document?.title || chunk.title, tags, document?.metadata?.category),
+          source: 'internal',
+          origin: 'knowledge-base',
+          relevance_score: 0,
+          topic_tags: [],
+          tender_categories: tags,
+          last_updated: document?.updated_at || '',
+          usage_count: 0
+        },
+        embedding,
+        // Searched chunks can beat the representative chunk on some facets
+        facetSimilarity: facetVectors.map((vector, f) => Math.max(
+          cosineSimilarity(embedding, vector),
+          ...searches[f].filter(result => result.document_id === id).map(result => result.similarity_score)
+        ))
+      }
+    })
+  }
+
+  /**
+   * The organisation's most used answers, compared with every facet
    */
-  private async getAllKnowledgeSources(): Promise<TenderKnowledgeSource[]> {
-    // Mock knowledge sources for demo
-    return [
-      {
-        id: '1',
-        title: 'CQC Inspection Preparation Guide',
-        content: 'Comprehensive guide for preparing for CQC inspections including documentation requirements, staff training protocols, and quality assurance measures...',
-        type: 'guide',
-        source: 'internal',
-        relevance_score: 0,
-        topic_tags: ['cqc', 'inspection', 'compliance', 'quality-assurance'],
-        tender_categories: ['care-standards', 'nhs-contract'],
-        last_updated: '2024-01-15',
-        usage_count: 25
-      },
-      {
-        id: '2',
-        title: 'Community Care Service Delivery Framework',
-        content: 'Evidence-based framework for delivering high-quality community care services including person-centered planning and outcome measurement...',
-        type: 'framework',
-        source: 'internal',
-        relevance_score: 0,
-        topic_tags: ['community-care', 'service-delivery', 'person-centered', 'outcomes'],
-        tender_categories: ['community-care', 'local-authority'],
-        last_updated: '2024-02-01',
-        usage_count: 18
-      },
-      {
-        id: '3',
-        title: 'NHS Contract Success Case Study - Yorkshire',
-        content: 'Detailed case study of successful NHS contract delivery highlighting innovation, quality improvements, and cost efficiencies achieved in Yorkshire region...',
-        type: 'case-study',
-        source: 'internal',
-        relevance_score: 0,
-        topic_tags: ['nhs', 'contract-success', 'yorkshire', 'innovation', 'quality'],
-        tender_categories: ['nhs-contract', 'community-care'],
-        last_updated: '2024-01-20',
-        usage_count: 32
+  private async findAnswers(facetVectors: number[][]): Promise<KnowledgeCandidate[]> {
+    const { data, error } = await this.supabase
+      .from('answer_bank')
+      .select('*')
+      .is('merged_into_id', null)
+      .order('usage_count', { ascending: false })
+      .limit(ANSWER_CANDIDATE_LIMIT)
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const answers = (data || []) as Array<{
+      id: string
+      title: string
+      content: string
+      category?: string | null
+      tags?: string[] | null
+      is_template?: boolean | null
+      usage_count: number | null
+      updated_at: string | null
+    }>
+    if (answers.length === 0) return []
+
+    const { embeddings } = await this.embeddings.generateBatchEmbeddings({
+      texts: answers.map(answer => `${answer.title}\n${answer.content}`.slice(0, MAX_EMBEDDED_CHARS))
+    })
+
+    return answers.map((answer, i) => {
+      const embedding = embeddings[i].embedding
+      const tags = answer.tags || []
+
+      return {
+        source: {
+          id: answer.id,
+          title: answer.title,
+          content: answer.content,
+          type: answer.is_template ? 'template' : this.inferSourceType(answer.title, tags, answer.category),
+          source: 'internal',
+          origin: 'answer-bank',
+          relevance_score: 0,
+          topic_tags: [],
+          tender_categories: tags,
+          last_updated: answer.updated_at || '',
+          usage_count: answer.usage_count || 0
+        },
+        embedding,
+        facetSimilarity: facetVectors.map(vector => cosineSimilarity(embedding, vector))
       }
-    ]
+    })
+  }
+
+  private inferSourceType(title: string, tags: string[], category?: unknown): TenderKnowledgeSource['type'] {
+    const label = [title, ...tags, typeof category === 'string' ? category : ''].join(' ').toLowerCase()
+
+    if (/case[\s-]?stud/.test(label)) return 'case-study'
+    if (label.includes('policy') || label.includes('procedure')) return 'policy'
+    if (label.includes('template')) return 'template'
+    if (label.includes('framework')) return 'framework'
+    if (label.includes('guide')) return 'guide'
+    return 'document'
   }
 
   /**
-   * Calculate relevance score for a knowledge source against tender requirements
+   * Score a candidate against the tender. Requirement and compliance matches
+   * count the strongest facet most, with breadth across facets breaking ties.
    */
-  private async calculateRelevanceScore(
-    source: TenderKnowledgeSource, 
-    query: TenderContextQuery
-  ): Promise<KnowledgeRelevanceScore> {
-    let totalScore = 0
-    const factors = {
-      requirement_match: 0,
-      compliance_match: 0,
-      authority_match: 0,
-      topic_match: 0,
-      historical_success: 0
+  private calculateRelevanceScore(
+    candidate: KnowledgeCandidate,
+    facets: TenderFacet[],
+    query: TenderContextQuery,
+    queryTopics: string[]
+  ): KnowledgeRelevanceScore {
+    const { source } = candidate
+    const matches: TenderFacetMatch[] = facets.map((facet, i) => ({
+      text: facet.text,
+      kind: facet.kind,
+      score: similarityToScore(candidate.facetSimilarity[i])
+    }))
+
+    const groupScore = (kinds: TenderFacetKind[]): number | null => {
+      const group = facets
+        .map((facet, i) => ({ facet, score: matches[i].score }))
+        .filter(({ facet }) => kinds.includes(facet.kind))
+      if (group.length === 0) return null
+
+      const totalWeight = group.reduce((sum, { facet }) => sum + facet.weight, 0)
+      const mean = totalWeight > 0
+        ? group.reduce((sum, { facet, score }) => sum + facet.weight * score, 0) / totalWeight
+        : 0
+      const best = Math.max(...group.map(({ score }) => score))
+      return 0.6 * best + 0.4 * mean
     }
 
-    // Calculate requirement match
-    const requirementMatches = query.requirements.filter(req =>
-      source.content.toLowerCase().includes(req.toLowerCase()) ||
-      source.topic_tags.some(tag => req.toLowerCase().includes(tag))
-    ).length
-    factors.requirement_match = (requirementMatches / Math.max(query.requirements.length, 1)) * 100
-    totalScore += factors.requirement_match * 0.3
-
-    // Calculate compliance match
-    const complianceMatches = query.compliance_requirements.filter(comp =>
-      source.content.toLowerCase().includes(comp.toLowerCase()) ||
-      source.topic_tags.some(tag => comp.toLowerCase().includes(tag))
-    ).length
-    factors.compliance_match = (complianceMatches / Math.max(query.compliance_requirements.length, 1)) * 100
-    totalScore += factors.compliance_match * 0.25
-
-    // Calculate authority match
-    if (query.issuing_authority) {
-      const authorityMatch = source.content.toLowerCase().includes(query.issuing_authority.toLowerCase()) ||
-                           source.tender_categories.some(cat => query.issuing_authority!.toLowerCase().includes(cat))
-      factors.authority_match = authorityMatch ? 100 : 0
-      totalScore += factors.authority_match * 0.2
+    const requirementMatch = groupScore(['requirement', 'evaluation'])
+    const complianceMatch = groupScore(['compliance'])
+    const authorityMentioned = !!query.issuing_authority &&
+      source.content.toLowerCase().includes(query.issuing_authority.toLowerCase())
+    const authorityMatch = authorityMentioned ? 100 : groupScore(['authority'])
+    const topicMatch = queryTopics.length > 0
+      ? (source.topic_tags.filter(tag => queryTopics.includes(tag)).length / queryTopics.length) * 100
+      : null
+
+    const factors = {
+      requirement_match: Math.round(requirementMatch ?? 0),
+      compliance_match: Math.round(complianceMatch ?? 0),
+      authority_match: Math.round(authorityMatch ?? 0),
+      topic_match: Math.round(topicMatch ?? 0),
+      historical_success: Math.min(source.usage_count * 2, 100)
     }
 
-    // Calculate topic relevance
-    const topicMatches = source.topic_tags.filter(tag =>
-      query.requirements.some(req => req.toLowerCase().includes(tag)) ||
-      query.evaluation_criteria.some(crit => crit.criteria.toLowerCase().includes(tag))
-    ).length
-    factors.topic_match = (topicMatches / Math.max(source.topic_tags.length, 1)) * 100
-    totalScore += factors.topic_match * 0.15
+    const available = {
+      requirement_match: requirementMatch !== null,
+      compliance_match: complianceMatch !== null,
+      authority_match: authorityMatch !== null,
+      topic_match: topicMatch !== null,
+      historical_success: true
+    }
+    const keys = Object.keys(FACTOR_WEIGHTS) as Array<keyof typeof FACTOR_WEIGHTS>
+    const totalWeight = keys.filter(key => available[key]).reduce((sum, key) => sum + FACTOR_WEIGHTS[key], 0)
+    const relevanceScore = keys
+      .filter(key => available[key])
+      .reduce((sum, key) => sum + factors[key] * FACTOR_WEIGHTS[key], 0) / totalWeight
 
-    // Historical success factor
-    factors.historical_success = Math.min(source.usage_count * 2, 100)
-    totalScore += factors.historical_success * 0.1
+    // Nothing matched semantically: usage alone should not recommend a source
+    const hasMatch = matches.some(match => match.score > 0) || authorityMentioned
 
     return {
       source_id: source.id,
-      relevance_score: Math.min(totalScore, 100),
+      relevance_score: hasMatch ? Math.round(relevanceScore * 10) / 10 : 0,
       relevance_factors: factors,
-      suggested_sections: this.suggestRelevantSections(source, query),
-      case_study_applicability: source.type === 'case-study' ? factors.requirement_match : 0
+      suggested_sections: this.suggestRelevantSections(source, matches),
+      case_study_applicability: source.type === 'case-study'
+        ? Math.round(authorityMatch === null ? factors.requirement_match : (factors.requirement_match + factors.authority_match) / 2)
+        : 0,
+      matched_requirements: matches
+        .filter(match => match.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5)
     }
   }
 
   /**
-   * Suggest which sections of a source are most relevant
+   * The evaluation criteria a source supports best, falling back to
+   * section names suggested by its content
    */
   private suggestRelevantSections(
-    source: TenderKnowledgeSource, 
-    _query: TenderContextQuery
+    source: TenderKnowledgeSource,
+    matches: TenderFacetMatch[]
   ): string[] {
+    const criteria = matches
+      .filter(match => match.kind === 'evaluation' && match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(match => match.text)
+    if (criteria.length > 0) return criteria.slice(0, 3)
+
     const sections: string[] = []
-    
+
     // Analyze content to suggest relevant sections
     if (source.content.toLowerCase().includes('quality')) {
       sections.push('Quality Assurance')
@@ -330,22 +757,27 @@ export class TenderKnowledgeIntegrationService {
     if (source.content.toLowerCase().includes('innovation')) {
       sections.push('Innovation Approach')
     }
-    
+
     return sections.slice(0, 3)
   }
 
   /**
-   * Extract case study recommendations based on tender context
+   * Case studies most applicable to this tender, with what they evidence
    */
   private extractCaseStudyRecommendations(
-    sources: TenderKnowledgeSource[], 
+    ranked: ScoredCandidate[],
     query: TenderContextQuery
   ): string[] {
-    const caseStudies = sources.filter(source => source.type === 'case-study')
-    
-    return caseStudies
-      .map(cs => `${cs.title}: Demonstrates ${cs.topic_tags.slice(0, 3).join(', ')} relevant to ${query.issuing_authority || 'this tender'}`)
+    return ranked
+      .filter(candidate => candidate.source.type === 'case-study')
+      .sort((a, b) => b.score.case_study_applicability - a.score.case_study_applicability)
       .slice(0, 5)
+      .map(({ source, score }) => {
+        const evidence = score.matched_requirements?.find(match => match.kind !== 'authority')
+        return evidence
+          ? `${source.title}: Evidences "${evidence.text}" for ${query.issuing_authority || 'this tender'}`
+          : `${source.title}: Relevant to ${query.issuing_authority || 'this tender'}`
+      })
   }
 
   /**
@@ -357,7 +789,7 @@ export class TenderKnowledgeIntegrationService {
         sourceIds.map(id =>
           this.supabase
             .from('tender_knowledge_sources')
-            .update({ 
+            .update({
               usage_count: 1, // Simplified for now
               last_used: new Date().toISOString()
             })
@@ -368,4 +800,4 @@ export class TenderKnowledgeIntegrationService {
       console.error('Error updating knowledge usage:', error)
     }
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,218 @@
+/**
+ * Tender Section Service
+ * Generates the section tree for a tender workflow from its confirmed
+ * tender questions. Ongoing sync between a question-linked section and its
+ * question is handled by database triggers (see
+ * 20241213_link_sections_to_tender_workflows.sql).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Section } from '@/lib/database.types'
+import type { TenderQuestion } from '@/lib/types/tender'
+import { buildSectionTree, SectionWithChildren } from '@/lib/sections'
+
+// A node in the planned section hierarchy, before it is written to the database
+export interface SectionPlanNode {
+  key: string
+  title: string
+  description?: string
+  questionId?: string
+  wordCountLimit: number
+  dueDate?: string
+  ownerId?: string
+  children: SectionPlanNode[]
+}
+
+export interface GenerateSectionsResult {
+  created: number
+  skipped: number
+  sections: SectionWithChildren[]
+}
+
+const QUESTION_TITLE_MAX_LENGTH = 80
+
+/**
+ * Natural sort for question and section numbers ("2.10" after "2.9")
+ */
+export function compareQuestionNumbers(a?: string, b?: string): number {
+  if (!a && !b) return 0
+  if (!a) return 1
+  if (!b) return -1
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+}
+
+/**
+ * Split a section reference into the group labels it is nested under.
+ * "Quality > Staffing" becomes ["Quality", "Staffing"] and a dotted number
+ * such as "2.1" becomes ["2", "2.1"] so numbered lots nest naturally.
+ */
+export function parseSectionReference(reference?: string): string[] {
+  const trimmed = reference?.trim()
+  if (!trimmed) return []
+
+  const segments = trimmed
+    .split(/\s*(?:>|\/|\|)\s*/)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+
+  if (segments.length === 1 && /^\d+(\.\d+)+$/.test(segments[0])) {
+    const parts = segments[0].split('.')
+    return parts.map((_, index) => parts.slice(0, index + 1).join('.'))
+  }
+
+  return segments
+}
+
+/**
+ * Title for a group section created from a section reference
+ */
+function groupTitle(label: string): string {
+  return /^\d+(\.\d+)*$/.test(label) ? `Section ${label}` : label
+}
+
+/**
+ * Title for a question section: question number plus the first sentence
+ */
+export function questionSectionTitle(question: Pick<TenderQuestion, 'question_number' | 'question_text'>): string {
+  const text = question.question_text.trim()
+  const firstSentence = text.match(/^[\s\S]*?[.?!](?=\s|$)/)?.[0] ?? text
+  const summary = firstSentence.length > QUESTION_TITLE_MAX_LENGTH
+    ? `${firstSentence.slice(0, QUESTION_TITLE_MAX_LENGTH - 3).trimEnd()}...`
+    : firstSentence
+
+  if (!question.question_number) return summary
+
+  const number = question.question_number.trim()
+  const label = /^q/i.test(number) ? number : `Q${number}`
+  return `${label}: ${summary}`
+}
+
+/**
+ * Plan a section hierarchy with one section per question, nested under
+ * group sections derived from each question's section reference.
+ */
+export function planSectionsFromQuestions(questions: TenderQuestion[]): SectionPlanNode[] {
+  const roots: SectionPlanNode[] = []
+  const groups = new Map<string, SectionPlanNode>()
+
+  const sorted = [...questions].sort((a, b) => compareQuestionNumbers(a.question_number, b.question_number))
+
+  sorted.forEach(question => {
+    let siblings = roots
+    let path = ''
+
+    parseSectionReference(question.section_reference).forEach(label => {
+      path = path ? `${path}>${label}` : label
+      let group = groups.get(path)
+
+      if (!group) {
+        group = {
+          key: `group:${path}`,
+          title: groupTitle(label),
+          wordCountLimit: 0,
+          children: []
+        }
+        groups.set(path, group)
+        siblings.push(group)
+      }
+
+      // Groups inherit the earliest due date of their questions
+      if (question.due_date && (!group.dueDate || question.due_date < group.dueDate)) {
+        group.dueDate = question.due_date
+      }
+
+      siblings = group.children
+    })
+
+    siblings.push({
+      key: `question:${question.id}`,
+      title: questionSectionTitle(question),
+      description: question.question_text,
+      questionId: question.id,
+      wordCountLimit: question.word_limit ?? 0,
+      dueDate: question.due_date,
+      ownerId: question.assigned_to,
+      children: []
+    })
+  })
+
+  return roots
+}
+
+type SectionPlanPayload = {
+  title: string
+  description: string | null
+  question_id: string | null
+  due_date: string | null
+  children: SectionPlanPayload[]
+}
+
+/**
+ * The plan as generate_tender_sections reads it; question sections take
+ * their limits and owner from the question itself
+ */
+function toPlanPayload(node: SectionPlanNode): SectionPlanPayload {
+  return {
+    title: node.title,
+    description: node.description ?? null,
+    question_id: node.questionId ?? null,
+    due_date: node.dueDate ?? null,
+    children: node.children.map(toPlanPayload)
+  }
+}
+
+export class TenderSectionService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get the section tree for a tender workflow
+   */
+  async getTenderSections(tenderWorkflowId: string): Promise<SectionWithChildren[]> {
+    const { data, error } = await this.supabase
+      .from('sections')
+      .select('*')
+      .eq('project_id', tenderWorkflowId)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    return buildSectionTree((data || []) as Section[])
+  }
+
+  /**
+   * Generate sections for every question of a tender workflow.
+   * Safe to call repeatedly: questions that already have a section and
+   * group sections that already exist under the same parent are reused.
+   * The tree is written in one transaction by generate_tender_sections, which
+   * takes each question section's owner from the question.
+   */
+  async generateSectionsFromQuestions(tenderWorkflowId: string): Promise<GenerateSectionsResult> {
+    const { data: questions, error: questionsError } = await this.supabase
+      .from('tender_questions')
+      .select('*')
+      .eq('tender_workflow_id', tenderWorkflowId)
+
+    if (questionsError) {
+      throw new Error(`Database error: ${questionsError.message}`)
+    }
+
+    const plan = planSectionsFromQuestions((questions || []) as TenderQuestion[])
+    const { data, error } = await this.supabase.rpc('generate_tender_sections', {
+      p_tender_workflow_id: tenderWorkflowId,
+      p_plan: plan.map(toPlanPayload)
+    })
+
+    if (error) {
+      throw new Error(`Failed to generate sections: ${error.message}`)
+    }
+
+    const { created, skipped } = data as { created: number; skipped: number }
+    return {
+      created,
+      skipped,
+      sections: await this.getTenderSections(tenderWorkflowId)
+    }
+  }
+}
@@ -13,22 +13,49 @@ export class UsersService {
   /**
    * Search users by name or email for @mentions
    */
-  async searchUsers(_query: string, _limit: number = 10): Promise<UserSearchResult[]> {
-    return []
+  async searchUsers(query: string, limit: number = 10): Promise<UserSearchResult[]> {
+    // Characters with meaning in a PostgREST filter can't be escaped inside or()
+    const term = query.trim().replace(/[%_,()*\\]/g, '')
+    if (!term) return []
+
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('id, email, full_name')
+      .or(`full_name.ilike.%${term}%,email.ilike.%${term}%`)
+      .order('full_name')
+      .limit(limit)
+
+    if (error) {
+      console.error('Error searching users:', error)
+      return []
+    }
+    return data || []
   }
 
   /**
    * Get user details by ID
    */
-  async getUserById(_userId: string): Promise<UserSearchResult | null> {
-    return null
+  async getUserById(userId: string): Promise<UserSearchResult | null> {
+    const [user] = await this.getUsersByIds([userId])
+    return user ?? null
   }
 
   /**
    * Get multiple users by IDs
    */
-  async getUsersByIds(_userIds: string[]): Promise<UserSearchResult[]> {
-    return []
+  async getUsersByIds(userIds: string[]): Promise<UserSearchResult[]> {
+    if (userIds.length === 0) return []
+
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('id, email, full_name')
+      .in('id', userIds)
+
+    if (error) {
+      console.error('Error loading users:', error)
+      return []
+    }
+    return data || []
   }
 
   /**
@@ -3,6 +3,8 @@
  * These types align with the database schema created in the migration
  */
 
+import type { DiffSegment, DiffStats } from '@/lib/utils/text-diff'
+
 // Answer Bank Category Types
 export interface AnswerBankCategory {
   id: string
@@ -51,6 +53,18 @@ export interface AnswerBank {
   is_public: boolean
   version: number
   parent_id?: string
+  forked_from_version?: number
+  owner_id?: string
+  review_interval_days?: number | null
+  last_reviewed_at?: string | null
+  last_reviewed_by?: string | null
+  next_review_at?: string | null
+  review_notified_at?: string | null
+  expires_at?: string | null
+  expired_at?: string | null
+  merged_into_id?: string | null
+  merged_at?: string | null
+  merged_by?: string | null
   metadata: Record<string, unknown>
   created_at: string
   updated_at: string
@@ -80,6 +94,82 @@ export interface AnswerBankUpdate {
   metadata?: Record<string, unknown>
 }
 
+// Freshness Types
+export type AnswerFreshnessStatus = 'fresh' | 'review_soon' | 'review_due' | 'expired'
+
+export interface AnswerBankFreshnessSettings {
+  owner_id?: string
+  review_interval_days?: number | null
+  expires_at?: string | null
+}
+
+export interface AnswerBankReviewQueueItem {
+  id: string
+  title: string
+  owner_id?: string
+  owner_email?: string
+  category_name?: string
+  freshness: AnswerFreshnessStatus
+  next_review_at?: string | null
+  expires_at?: string | null
+  last_reviewed_at?: string | null
+  updated_at: string
+}
+
+// Versioning Types
+export interface AnswerBankVersion {
+  id: string
+  answer_id: string
+  version: number
+  title: string
+  content: string
+  tags: string[]
+  change_note?: string
+  restored_from_version?: number
+  created_by?: string
+  created_at: string
+}
+
+// Title, content and tags edits create a new version
+export interface AnswerBankVersionEdit {
+  title?: string
+  content?: string
+  tags?: string[]
+  change_note?: string
+}
+
+export interface AnswerBankVersionDiff {
+  answer_id: string
+  from: AnswerBankVersion
+  to: AnswerBankVersion
+  title_changed: boolean
+  tags_added: string[]
+  tags_removed: string[]
+  segments: DiffSegment[]
+  stats: DiffStats
+}
+
+export interface AnswerBankLineageNode {
+  id: string
+  title: string
+  version: number
+  is_template: boolean
+  forked_from_version?: number
+  updated_at: string
+}
+
+export interface AnswerBankFork extends AnswerBankLineageNode {
+  // The parent has been edited since this answer was forked from it
+  parent_changed_since_fork: boolean
+}
+
+export interface AnswerBankLineage {
+  answer: AnswerBankLineageNode
+  // Root template first, direct parent last
+  ancestors: AnswerBankLineageNode[]
+  forks: AnswerBankFork[]
+}
+
 // Answer Bank with Statistics (from view)
 export interface AnswerBankWithStats extends AnswerBank {
   category_name?: string
@@ -91,6 +181,9 @@ export interface AnswerBankWithStats extends AnswerBank {
   created_by_first_name?: string
   created_by_last_name?: string
   updated_by_email?: string
+  owner_email?: string
+  // Attached by the list endpoint when the answer has been used in a bid
+  effectiveness?: AnswerBankEffectiveness
 }
 
 // Usage Tracking Types
@@ -102,6 +195,8 @@ export interface AnswerBankUsageTracking {
   context?: string
   used_at: string
   session_id?: string
+  tender_workflow_id?: string
+  tender_question_id?: string
   metadata: Record<string, unknown>
 }
 
@@ -111,9 +206,98 @@ export interface AnswerBankUsageTrackingInsert {
   organization_id: string
   context?: string
   session_id?: string
+  tender_workflow_id?: string
+  tender_question_id?: string
   metadata?: Record<string, unknown>
 }
 
+// Effectiveness Types (usage tied to tender outcomes)
+export type TenderOutcome = 'won' | 'lost' | 'pending'
+
+// One bid an answer was used in (answer_bank_bid_usage view)
+export interface AnswerBankBidUsage {
+  answer_id: string
+  organization_id: string
+  tender_workflow_id: string
+  first_used_at: string
+  outcome: TenderOutcome | null
+  final_score: number | null
+  submission_date: string | null
+  questions_answered: number
+  scored_questions: number
+  avg_evaluator_score: number | null
+}
+
+export interface AnswerBankEffectiveness {
+  answer_id: string
+  title?: string
+  category_id?: string | null
+  bids_used: number
+  bids_won: number
+  bids_lost: number
+  bids_pending: number
+  // Share of decided bids that were won, 0-1; null until a bid is decided
+  win_rate: number | null
+  // Average evaluator score (0-100) of the questions the answer was used for
+  avg_evaluator_score: number | null
+  avg_final_score: number | null
+  last_used_in_bid_at: string | null
+}
+
+export interface AnswerBankEffectivenessTrendPoint {
+  period: string // YYYY-MM
+  bids_used: number
+  bids_won: number
+  bids_lost: number
+  win_rate: number | null
+  avg_evaluator_score: number | null
+}
+
+export interface AnswerBankEffectivenessReport {
+  effectiveness: AnswerBankEffectiveness
+  trend: AnswerBankEffectivenessTrendPoint[]
+}
+
+// Duplicate Types
+export type AnswerBankDuplicateClusterStatus = 'open' | 'merged' | 'dismissed'
+
+export interface AnswerBankDuplicateMember {
+  answer_id: string
+  title: string
+  content: string
+  category_id?: string | null
+  category_name?: string | null
+  tags: string[]
+  usage_count: number
+  avg_rating: number
+  rating_count: number
+  updated_at: string
+  // Closest match within the cluster, 0-1
+  embedding_similarity: number
+  shingle_similarity: number
+}
+
+export interface AnswerBankDuplicateCluster {
+  id: string
+  suggested_canonical_id: string | null
+  max_similarity: number
+  status: AnswerBankDuplicateClusterStatus
+  detected_at: string
+  members: AnswerBankDuplicateMember[]
+}
+
+// Open duplicates in a category (answer_bank_duplicate_counts view)
+export interface AnswerBankDuplicateCount {
+  category_id: string | null
+  duplicate_answers: number
+  clusters: number
+}
+
+export interface AnswerBankMergeRequest {
+  canonical_id: string
+  duplicate_ids: string[]
+}
+
 // Ratings Types
 export interface AnswerBankRating {
   id: string
@@ -226,19 +410,94 @@ export interface AnswerBankQuickInsertData {
 }
 
 // Export/Import Types
+export interface AnswerBankExportAnswer {
+  id: string
+  title: string
+  content: string
+  category_id: string | null
+  category_name: string | null
+  tags: string[]
+  is_template: boolean
+  is_public: boolean
+  version: number
+  owner_email: string | null
+  review_interval_days: number | null
+  expires_at: string | null
+  usage_count: number
+  popularity_score: number
+  avg_rating: number
+  rating_count: number
+  bids_used: number
+  bids_won: number
+  win_rate: number | null
+  created_at: string
+  updated_at: string
+}
+
 export interface AnswerBankExportData {
-  answers: AnswerBank[]
-  categories: AnswerBankCategory[]
+  version: string
   export_date: string
   organization_id: string
-  version: string
+  categories: AnswerBankCategory[]
+  answers: AnswerBankExportAnswer[]
 }
 
+export type AnswerBankImportFormat = 'csv' | 'xlsx' | 'docx' | 'json'
+
+export type AnswerBankImportField = 'title' | 'content' | 'category' | 'tags' | 'is_template'
+
+// Source column for each field
+export type AnswerBankImportMapping = Partial<Record<AnswerBankImportField, string>>
+
 export interface AnswerBankImportOptions {
-  merge_categories: boolean
-  update_existing: boolean
-  preserve_metadata: boolean
-  assign_to_category?: string
+  mapping?: AnswerBankImportMapping
+  // Whether rows matching an existing answer (or an earlier row) are imported anyway
+  duplicate_strategy: 'skip' | 'import'
+  default_category_id?: string
+}
+
+export interface AnswerBankImportDuplicate {
+  // Set when the match is an existing answer
+  answer_id?: string
+  // Set when the match is an earlier row in the same file
+  row_number?: number
+  title: string
+  reason: 'title' | 'content'
+  // Wording overlap, 0-1
+  similarity: number
+}
+
+export interface AnswerBankImportRow {
+  row_number: number
+  title: string
+  content: string
+  category_name?: string
+  category_id?: string | null
+  tags: string[]
+  is_template: boolean
+  errors: string[]
+  warnings: string[]
+  duplicate_of?: AnswerBankImportDuplicate
+}
+
+export interface AnswerBankImportPreview {
+  format: AnswerBankImportFormat
+  columns: string[]
+  mapping: AnswerBankImportMapping
+  rows: AnswerBankImportRow[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    duplicates: number
+  }
+}
+
+export interface AnswerBankImportResult {
+  imported: number
+  skipped_duplicates: number
+  skipped_invalid: number
+  answer_ids: string[]
 }
 
 // Error Types
@@ -268,4 +527,6 @@ export interface UsageIncrementParams {
   user_id: string
   context?: AnswerBankUsageContext
   session_id?: string
+  tender_workflow_id?: string
+  tender_question_id?: string
 } 
\ No newline at end of file
@@ -302,6 +302,15 @@ export const TENDER_TABS: TenderTab[] = [
     enabled: true,
     step_range: [8, 9]
   },
+  {
+    id: 'reviews',
+    title: 'Reviews',
+    description: 'Colour-team reviews and scoring',
+    icon: 'Award',
+    component: 'TenderReviewsTab',
+    enabled: true,
+    step_range: [9, 10]
+  },
   {
     id: 'export',
     title: 'Export',
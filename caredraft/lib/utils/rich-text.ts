@@ -0,0 +1,376 @@
+/**
+ * Rich Text Parsing Utility
+ * Converts editor HTML (or plain/markdown-style text) into a flat block model
+ * that document generators can render without a DOM
+ */
+
+/**
+ * A reviewer's suggested insertion or deletion, from the draft builder's
+ * suggestion mode
+ */
+export interface RichTextSuggestion {
+  type: 'insertion' | 'deletion'
+  id: string
+  author: string
+  date?: string
+}
+
+export interface RichTextRun {
+  text: string
+  bold?: boolean
+  italics?: boolean
+  underline?: boolean
+  lineBreak?: boolean
+  suggestion?: RichTextSuggestion
+}
+
+export interface RichTextTableRow {
+  header: boolean
+  cells: RichTextRun[][]
+}
+
+export type RichTextBlock =
+  | { type: 'heading'; level: number; runs: RichTextRun[] }
+  | { type: 'paragraph'; runs: RichTextRun[] }
+  | { type: 'list-item'; ordered: boolean; level: number; listId: number; runs: RichTextRun[] }
+  | { type: 'table'; rows: RichTextTableRow[] }
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  pound: '£',
+  euro: '€'
+}
+
+const BLOCK_TAGS = new Set(['p', 'div', 'blockquote', 'section', 'article', 'pre'])
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title'])
+
+/**
+ * Decode the HTML entities that editors commonly emit
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Read an attribute from an opening tag
+ */
+function readAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))
+  return match ? decodeHtmlEntities(match[1] ?? match[2]) : undefined
+}
+
+/**
+ * Trim leading and trailing whitespace across a run list and drop empty runs
+ */
+function trimRuns(runs: RichTextRun[]): RichTextRun[] {
+  const result = runs.map(run => ({ ...run }))
+
+  while (result.length > 0 && !result[0].lineBreak && !result[0].text.trim()) result.shift()
+  while (result.length > 0 && (result[result.length - 1].lineBreak || !result[result.length - 1].text.trim())) result.pop()
+  if (result.length === 0) return result
+
+  result[0].text = result[0].text.replace(/^\s+/, '')
+  result[result.length - 1].text = result[result.length - 1].text.replace(/\s+$/, '')
+
+  return result.filter(run => run.lineBreak || run.text.length > 0)
+}
+
+/**
+ * Parse `**bold**` and `*italic*` markers in a line of plain text
+ */
+function parseInlineMarkdown(line: string): RichTextRun[] {
+  const runs: RichTextRun[] = []
+  const pattern = /\*\*([^*]+)\*\*|\*([^*]+)\*/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(line)) !== null) {
+    if (match.index > lastIndex) runs.push({ text: line.slice(lastIndex, match.index) })
+    runs.push(match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], italics: true })
+    lastIndex = pattern.lastIndex
+  }
+  if (lastIndex < line.length) runs.push({ text: line.slice(lastIndex) })
+
+  return runs
+}
+
+/**
+ * Parse plain text with light markdown conventions (#, -, 1.) into blocks
+ */
+function parsePlainText(text: string): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  let paragraph: string[] = []
+  let listId = 0
+  let currentList: { ordered: boolean; id: number } | null = null
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return
+    const runs: RichTextRun[] = []
+    paragraph.forEach((line, index) => {
+      if (index > 0) runs.push({ text: '', lineBreak: true })
+      runs.push(...parseInlineMarkdown(line))
+    })
+    blocks.push({ type: 'paragraph', runs: trimRuns(runs) })
+    paragraph = []
+  }
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trimEnd()
+    const heading = line.match(/^(#{1,6})\s+(.+)$/)
+    const listItem = line.match(/^(\s*)(?:([-*•])|(\d+)[.)])\s+(.+)$/)
+
+    if (!line.trim()) {
+      flushParagraph()
+      currentList = null
+    } else if (heading) {
+      flushParagraph()
+      currentList = null
+      blocks.push({ type: 'heading', level: heading[1].length, runs: parseInlineMarkdown(heading[2].trim()) })
+    } else if (listItem) {
+      flushParagraph()
+      const ordered = listItem[3] !== undefined
+      if (!currentList || currentList.ordered !== ordered) {
+        currentList = { ordered, id: ++listId }
+      }
+      blocks.push({
+        type: 'list-item',
+        ordered,
+        level: Math.min(Math.floor(listItem[1].replace(/\t/g, '  ').length / 2), 5),
+        listId: currentList.id,
+        runs: trimRuns(parseInlineMarkdown(listItem[4]))
+      })
+    } else {
+      currentList = null
+      paragraph.push(line.trim())
+    }
+  })
+  flushParagraph()
+
+  return blocks
+}
+
+/**
+ * Parse editor HTML into blocks. Headings, paragraphs, nested lists and tables
+ * become blocks; bold, italic, underline, line breaks and suggested
+ * insertions and deletions are kept on runs. Unknown tags are ignored and
+ * their text kept.
+ */
+function parseHtml(html: string): RichTextBlock[] {
+  const blocks: RichTextBlock[] = []
+  const tokenPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>|[^<]+|</g
+
+  let runs: RichTextRun[] = []
+  let bold = 0
+  let italics = 0
+  let underline = 0
+  let suggestion: RichTextSuggestion | null = null
+  let headingLevel: number | null = null
+  let listItemDepth = 0
+  let listId = 0
+  let skipping: string | null = null
+  const lists: Array<{ ordered: boolean; id: number }> = []
+  let table: RichTextTableRow[] | null = null
+  let row: RichTextTableRow | null = null
+  let cell: RichTextRun[] | null = null
+
+  const flush = () => {
+    const trimmed = trimRuns(runs)
+    runs = []
+    if (trimmed.length === 0) return
+
+    if (cell) {
+      if (cell.length > 0) cell.push({ text: '', lineBreak: true })
+      cell.push(...trimmed)
+    } else if (headingLevel !== null) {
+      blocks.push({ type: 'heading', level: headingLevel, runs: trimmed })
+    } else if (listItemDepth > 0 && lists.length > 0) {
+      const list = lists[lists.length - 1]
+      blocks.push({
+        type: 'list-item',
+        ordered: list.ordered,
+        level: Math.min(lists.length - 1, 5),
+        listId: list.id,
+        runs: trimmed
+      })
+    } else {
+      blocks.push({ type: 'paragraph', runs: trimmed })
+    }
+  }
+
+  let match: RegExpExecArray | null
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, closing, rawTag, selfClosing] = match
+
+    if (token.startsWith('<!--')) continue
+
+    if (!rawTag) {
+      if (skipping) continue
+      const text = decodeHtmlEntities(token).replace(/\s+/g, ' ')
+      if (!text) continue
+      runs.push({
+        text,
+        ...(bold > 0 && { bold: true }),
+        ...(italics > 0 && { italics: true }),
+        ...(underline > 0 && { underline: true }),
+        ...(suggestion && { suggestion })
+      })
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+    const isClosing = closing === '/'
+
+    if (skipping) {
+      if (isClosing && tag === skipping) skipping = null
+      continue
+    }
+    if (SKIPPED_TAGS.has(tag) && !isClosing && !selfClosing) {
+      skipping = tag
+      continue
+    }
+
+    const delta = isClosing ? -1 : 1
+    if (tag === 'strong' || tag === 'b') bold = Math.max(0, bold + delta)
+    else if (tag === 'em' || tag === 'i') italics = Math.max(0, italics + delta)
+    else if (tag === 'u') underline = Math.max(0, underline + delta)
+    else if (tag === 'ins' || tag === 'del') {
+      // Only suggestions are tracked; other <ins>/<del> text reads as written
+      const id = isClosing ? undefined : readAttribute(token, 'data-suggestion-id')
+      const date = id ? readAttribute(token, 'data-created-at') : undefined
+      suggestion = id
+        ? {
+            type: tag === 'ins' ? 'insertion' : 'deletion',
+            id,
+            author: readAttribute(token, 'data-author-name') || 'Reviewer',
+            ...(date && { date })
+          }
+        : null
+    } else if (tag === 'br') runs.push({ text: '', lineBreak: true })
+    else if (/^h[1-6]$/.test(tag)) {
+      flush()
+      headingLevel = isClosing ? null : Number(tag[1])
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush()
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush()
+      if (isClosing) lists.pop()
+      else lists.push({ ordered: tag === 'ol', id: ++listId })
+    } else if (tag === 'li') {
+      flush()
+      listItemDepth = Math.max(0, listItemDepth + delta)
+    } else if (tag === 'table') {
+      flush()
+      if (isClosing) {
+        if (table && table.length > 0) blocks.push({ type: 'table', rows: table })
+        table = null
+      } else {
+        table = []
+      }
+    } else if (tag === 'tr') {
+      if (isClosing) {
+        if (row && table && row.cells.length > 0) table.push(row)
+        row = null
+      } else {
+        row = { header: false, cells: [] }
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      if (isClosing) {
+        flush()
+        if (row && cell) row.cells.push(cell)
+        cell = null
+      } else {
+        flush()
+        cell = []
+        if (row && tag === 'th') row.header = true
+      }
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+/**
+ * Parse section content into rich text blocks. Content saved by the editor is
+ * HTML; AI drafts and imported answers may be plain text.
+ */
+export function parseRichText(content: string): RichTextBlock[] {
+  if (!content || !content.trim()) return []
+  return /<\/?[a-zA-Z][a-zA-Z0-9]*\b[^>]*>/.test(content) ? parseHtml(content) : parsePlainText(content)
+}
+
+/**
+ * Flatten runs to plain text
+ */
+export function runsToPlainText(runs: RichTextRun[]): string {
+  return runs.map(run => (run.lineBreak ? '\n' : run.text)).join('')
+}
+
+/**
+ * Flatten blocks to plain text, one block per line
+ */
+export function richTextToPlainText(blocks: RichTextBlock[]): string {
+  return blocks
+    .map(block =>
+      block.type === 'table'
+        ? block.rows.map(row => row.cells.map(runsToPlainText).join('\t')).join('\n')
+        : runsToPlainText(block.runs)
+    )
+    .join('\n')
+}
+
+/**
+ * Count words in rich text content
+ */
+export function countRichTextWords(content: string): number {
+  const text = richTextToPlainText(parseRichText(content)).trim()
+  return text ? text.split(/\s+/).length : 0
+}
+
+/**
+ * Render blocks as plain text for pasting into e-tendering portals: blank
+ * lines between paragraphs, list markers kept and tables tab-separated
+ */
+export function richTextToPortalText(blocks: RichTextBlock[]): string {
+  const lines: string[] = []
+  const counters = new Map<string, number>()
+  let previous: RichTextBlock['type'] | null = null
+
+  blocks.forEach(block => {
+    const isList = block.type === 'list-item'
+    if (lines.length > 0 && !(isList && previous === 'list-item')) lines.push('')
+
+    if (block.type === 'list-item') {
+      const key = `${block.listId}:${block.level}`
+      const number = (counters.get(key) ?? 0) + 1
+      counters.set(key, number)
+      const indent = '  '.repeat(block.level)
+      lines.push(`${indent}${block.ordered ? `${number}.` : '-'} ${runsToPlainText(block.runs)}`)
+    } else if (block.type === 'table') {
+      block.rows.forEach(row => lines.push(row.cells.map(cell => runsToPlainText(cell).replace(/\n/g, ' ')).join('\t')))
+    } else {
+      lines.push(runsToPlainText(block.runs))
+    }
+    previous = block.type
+  })
+
+  return lines.join('\n')
+}
@@ -0,0 +1,53 @@
+/**
+ * Sentence Splitting Utility
+ * Splits extracted document text into sentences for rule-based extraction
+ */
+
+/**
+ * Break a block after short unpunctuated lines such as headings or
+ * "Quality: 60%" rows, which would otherwise run into the next sentence.
+ * Long lines are treated as wrapped text and joined.
+ */
+function splitShortLines(block: string): string[] {
+  const segments: string[] = []
+  let current: string[] = []
+
+  block.split(/\r?\n/).forEach(line => {
+    const previous = current[current.length - 1]?.trim()
+    if (previous && previous.length < 60 && !/[,;:\-–]$/.test(previous) && /^\s*[A-Z0-9]/.test(line)) {
+      segments.push(current.join('\n'))
+      current = []
+    }
+    current.push(line)
+  })
+  if (current.length > 0) segments.push(current.join('\n'))
+
+  return segments
+}
+
+/**
+ * Split text into sentences on terminal punctuation or line breaks
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = []
+
+  text.split(/\r?\n\s*\r?\n|\r?\n(?=\s*(?:[-•*]|\d+[.)])\s)/).flatMap(splitShortLines).forEach(block => {
+    const flat = block.replace(/\s+/g, ' ').trim()
+    if (!flat) return
+
+    let current = ''
+    for (let i = 0; i < flat.length; i++) {
+      current += flat[i]
+      const isTerminal = flat[i] === '.' || flat[i] === '?' || flat[i] === '!' || flat[i] === ';'
+      const nextIsBreak = i === flat.length - 1 || (flat[i + 1] === ' ' && /[A-Z(•\-"“]/.test(flat[i + 2] || ''))
+      // Do not break inside abbreviations such as "e.g." or numbered references such as "2.1"
+      if (isTerminal && nextIsBreak && !/\b(?:e\.g|i\.e|etc|no|vs|approx)\.$/i.test(current)) {
+        sentences.push(current.trim())
+        current = ''
+      }
+    }
+    if (current.trim()) sentences.push(current.trim())
+  })
+
+  return sentences.map(sentence => sentence.replace(/^[-•*]\s*/, '')).filter(sentence => sentence.length >= 15)
+}
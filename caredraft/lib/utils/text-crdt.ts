@@ -0,0 +1,230 @@
+/**
+ * Text CRDT
+ * A replicated character sequence (RGA) for editing one text from several
+ * places at once. Every character gets an id that never changes and edits
+ * travel as operations on those ids, so they can be applied in any order and
+ * more than once: every copy that has seen the same operations reads the
+ * same text, however the operations reached it.
+ */
+
+import { diffTextBySentence } from './text-diff'
+
+// [Lamport clock, site]; each editing session is its own site
+export type CrdtId = [number, string]
+
+export type CrdtOperation =
+  // Consecutive characters, each inserted after the one before it
+  | { type: 'insert'; id: CrdtId; after: CrdtId | null; text: string }
+  | { type: 'delete'; ids: CrdtId[] }
+
+// Characters in document order, deleted ones included, grouped into runs
+export interface TextCrdtState {
+  runs: Array<{ id: CrdtId; after: CrdtId | null; text: string; deleted?: boolean }>
+}
+
+// Site of the characters a text starts out with, so every copy built from
+// the same text gives them the same ids
+export const ORIGIN_SITE = 'origin'
+
+interface CrdtChar {
+  id: CrdtId
+  after: CrdtId | null
+  value: string
+  deleted: boolean
+}
+
+const idKey = (id: CrdtId) => `${id[0]}@${id[1]}`
+
+export function compareIds(a: CrdtId, b: CrdtId): number {
+  if (a[0] !== b[0]) return a[0] - b[0]
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0
+}
+
+export class TextCrdt {
+  private sequence: CrdtChar[] = []
+  private chars = new Map<string, CrdtChar>()
+  // Operations waiting on characters this copy hasn't seen yet
+  private pending: CrdtOperation[] = []
+  private clock = 0
+
+  constructor(readonly site: string, state?: TextCrdtState) {
+    if (state) this.merge(state)
+  }
+
+  /**
+   * A document holding the text, with ids every copy agrees on
+   */
+  static fromText(text: string, site: string): TextCrdt {
+    const crdt = new TextCrdt(site)
+    if (text) crdt.apply([{ type: 'insert', id: [1, ORIGIN_SITE], after: null, text }])
+    return crdt
+  }
+
+  text(): string {
+    let text = ''
+    for (const char of this.sequence) {
+      if (!char.deleted) text += char.value
+    }
+    return text
+  }
+
+  /**
+   * Operations that arrived before the characters they refer to
+   */
+  get pendingCount(): number {
+    return this.pending.length
+  }
+
+  /**
+   * Apply remote operations. Returns whether the text changed.
+   */
+  apply(operations: CrdtOperation[]): boolean {
+    let changed = false
+    const queue = [...this.pending, ...operations]
+    this.pending = []
+
+    // Keep going while waiting operations become applicable
+    let progress = true
+    while (progress) {
+      progress = false
+      const waiting: CrdtOperation[] = []
+      for (const operation of queue) {
+        const result = operation.type === 'insert' ? this.applyInsert(operation) : this.applyDelete(operation)
+        if (result === 'missing') {
+          waiting.push(operation)
+        } else {
+          progress = true
+          changed = changed || result
+        }
+      }
+      queue.splice(0, queue.length, ...waiting)
+    }
+
+    this.pending = queue
+    return changed
+  }
+
+  /**
+   * Bring in every character of another copy's state
+   */
+  merge(state: TextCrdtState): boolean {
+    const operations: CrdtOperation[] = state.runs.map(run => ({ type: 'insert', id: run.id, after: run.after, text: run.text }))
+    const deleted = state.runs.filter(run => run.deleted).flatMap(run => runIds(run.id, run.text.length))
+    if (deleted.length > 0) operations.push({ type: 'delete', ids: deleted })
+    return this.apply(operations)
+  }
+
+  /**
+   * Record a local edit that turned the current text into `next`, returning
+   * the operations to send to the other copies
+   */
+  applyLocalText(next: string): CrdtOperation[] {
+    const current = this.text()
+    if (current === next) return []
+
+    const visible = this.sequence.filter(char => !char.deleted)
+    const operations: CrdtOperation[] = []
+    let position = 0
+    // Inserts go after the last character passed, deleted or not
+    let previous: CrdtId | null = null
+
+    for (const segment of diffTextBySentence(current, next)) {
+      const length = segment.value.length
+      if (segment.type === 'equal') {
+        position += length
+        previous = visible[position - 1].id
+      } else if (segment.type === 'delete') {
+        const removed = visible.slice(position, position + length)
+        operations.push({ type: 'delete', ids: removed.map(char => char.id) })
+        position += length
+        previous = removed[removed.length - 1].id
+      } else {
+        const id: CrdtId = [this.clock + 1, this.site]
+        operations.push({ type: 'insert', id, after: previous, text: segment.value })
+        this.clock += length
+        previous = [this.clock, this.site]
+      }
+    }
+
+    this.apply(operations)
+    return operations
+  }
+
+  toState(): TextCrdtState {
+    const runs: TextCrdtState['runs'] = []
+    let last: CrdtChar | null = null
+
+    for (const char of this.sequence) {
+      const run = runs[runs.length - 1]
+      const continues = last && run &&
+        char.id[1] === last.id[1] &&
+        char.id[0] === last.id[0] + 1 &&
+        char.after !== null && compareIds(char.after, last.id) === 0 &&
+        char.deleted === last.deleted
+
+      if (continues) {
+        run.text += char.value
+      } else {
+        runs.push({ id: char.id, after: char.after, text: char.value, ...(char.deleted ? { deleted: true } : {}) })
+      }
+      last = char
+    }
+
+    return { runs }
+  }
+
+  private applyInsert(operation: Extract<CrdtOperation, { type: 'insert' }>): boolean | 'missing' {
+    if (operation.after && !this.chars.has(idKey(operation.after))) return 'missing'
+
+    let changed = false
+    let after = operation.after
+    // Where the previous character of the run went, to save looking it up
+    let hint = -1
+    runIds(operation.id, operation.text.length).forEach((id, i) => {
+      if (this.chars.has(idKey(id))) {
+        hint = -1
+      } else {
+        hint = this.insertChar({ id, after, value: operation.text[i], deleted: false }, hint)
+        changed = true
+      }
+      after = id
+    })
+    return changed
+  }
+
+  private insertChar(char: CrdtChar, hint: number): number {
+    let index = 0
+    if (char.after) {
+      const reference = this.chars.get(idKey(char.after))!
+      index = (this.sequence[hint] === reference ? hint : this.sequence.indexOf(reference)) + 1
+    }
+    // Later inserts at the same place come first; anything after them was
+    // typed later still, so it is skipped along with them
+    while (index < this.sequence.length && compareIds(this.sequence[index].id, char.id) > 0) {
+      index++
+    }
+
+    this.sequence.splice(index, 0, char)
+    this.chars.set(idKey(char.id), char)
+    this.clock = Math.max(this.clock, char.id[0])
+    return index
+  }
+
+  private applyDelete(operation: Extract<CrdtOperation, { type: 'delete' }>): boolean | 'missing' {
+    const targets = operation.ids.map(id => this.chars.get(idKey(id)))
+    if (targets.some(char => !char)) return 'missing'
+
+    let changed = false
+    for (const char of targets as CrdtChar[]) {
+      if (!char.deleted) {
+        char.deleted = true
+        changed = true
+      }
+    }
+    return changed
+  }
+}
+
+function runIds(first: CrdtId, length: number): CrdtId[] {
+  return Array.from({ length }, (_, i) => [first[0] + i, first[1]] as CrdtId)
+}
@@ -0,0 +1,163 @@
+/**
+ * Text Diff Utility
+ * Word or line level diffs between two versions of a text, for showing
+ * what changed between document, answer and section versions
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete'
+
+export interface DiffSegment {
+  type: DiffOperation
+  value: string
+}
+
+export interface DiffStats {
+  wordsAdded: number
+  wordsRemoved: number
+  unchanged: boolean
+}
+
+export type DiffGranularity = 'word' | 'line' | 'sentence'
+
+// Above this many comparisons the changed middle is shown as replaced outright
+const MAX_COMPARISONS = 4_000_000
+
+/**
+ * Split text into tokens that join back into the original: words and the
+ * whitespace between them, lines with their line breaks, or sentences with
+ * their closing punctuation and trailing space
+ */
+export function tokenize(text: string, granularity: DiffGranularity = 'word'): string[] {
+  if (!text) return []
+  switch (granularity) {
+    case 'line':
+      return text.match(/[^\n]*\n|[^\n]+$/g) || []
+    case 'sentence':
+      return text.match(/[^.!?\n]*[.!?\n]+\s*|[^.!?\n]+$/g) || []
+    default:
+      return text.match(/\s+|[^\s]+/g) || []
+  }
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffOperation, value: string): void {
+  if (!value) return
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.value += value
+  } else {
+    segments.push({ type, value })
+  }
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+export function diffTokens(before: string[], after: string[]): DiffSegment[] {
+  const segments: DiffSegment[] = []
+
+  // Shared leading and trailing tokens need no comparison
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) start++
+  let endBefore = before.length
+  let endAfter = after.length
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  pushSegment(segments, 'equal', before.slice(0, start).join(''))
+
+  const a = before.slice(start, endBefore)
+  const b = after.slice(start, endAfter)
+
+  if (a.length * b.length > MAX_COMPARISONS) {
+    pushSegment(segments, 'delete', a.join(''))
+    pushSegment(segments, 'insert', b.join(''))
+  } else {
+    // lengths[i][j] is the LCS length of a[i..] and b[j..]
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        pushSegment(segments, 'equal', a[i])
+        i++
+        j++
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        pushSegment(segments, 'delete', a[i])
+        i++
+      } else {
+        pushSegment(segments, 'insert', b[j])
+        j++
+      }
+    }
+    pushSegment(segments, 'delete', a.slice(i).join(''))
+    pushSegment(segments, 'insert', b.slice(j).join(''))
+  }
+
+  pushSegment(segments, 'equal', before.slice(endBefore).join(''))
+  return segments
+}
+
+/**
+ * Diff two texts by word or by line
+ */
+export function diffText(before: string, after: string, granularity: DiffGranularity = 'word'): DiffSegment[] {
+  return diffTokens(tokenize(before, granularity), tokenize(after, granularity))
+}
+
+/**
+ * Word diff for long texts. Sentences are compared first and only the
+ * changed runs are diffed word by word, so scattered edits to a long
+ * section stay within the comparison budget.
+ */
+export function diffTextBySentence(before: string, after: string): DiffSegment[] {
+  const segments: DiffSegment[] = []
+  let deleted = ''
+  let inserted = ''
+
+  // Punctuation is split from words here, so trimming "year." to "." keeps the full stop
+  const refine = (text: string) => text.match(/\s+|[\p{L}\p{N}'’-]+|[^\s\p{L}\p{N}'’-]+/gu) || []
+  const flush = () => {
+    diffTokens(refine(deleted), refine(inserted)).forEach(segment => pushSegment(segments, segment.type, segment.value))
+    deleted = ''
+    inserted = ''
+  }
+
+  for (const segment of diffText(before, after, 'sentence')) {
+    if (segment.type === 'delete') {
+      deleted += segment.value
+    } else if (segment.type === 'insert') {
+      inserted += segment.value
+    } else {
+      flush()
+      pushSegment(segments, 'equal', segment.value)
+    }
+  }
+  flush()
+
+  return segments
+}
+
+function countWords(text: string): number {
+  return (text.match(/[^\s]+/g) || []).length
+}
+
+export function diffStats(segments: DiffSegment[]): DiffStats {
+  const wordsAdded = segments.filter(s => s.type === 'insert').reduce((sum, s) => sum + countWords(s.value), 0)
+  const wordsRemoved = segments.filter(s => s.type === 'delete').reduce((sum, s) => sum + countWords(s.value), 0)
+
+  return {
+    wordsAdded,
+    wordsRemoved,
+    unchanged: segments.every(s => s.type === 'equal')
+  }
+}
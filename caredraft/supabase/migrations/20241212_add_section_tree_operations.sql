@@ -0,0 +1,179 @@
+-- ================================================
+-- SECTION TREE OPERATIONS MIGRATION
+-- ================================================
+-- Adds atomic operations for the hierarchical section tree:
+-- 1. Working circular reference guard for reparenting
+-- 2. Sibling reordering in a single transaction
+-- 3. Moving a section to a new parent and position
+-- 4. Deleting a section subtree and compacting sibling order
+
+-- ================================================
+-- 1. CIRCULAR REFERENCE GUARD
+-- ================================================
+
+CREATE OR REPLACE FUNCTION prevent_section_circular_reference()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_section_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_section_id = NEW.id THEN
+    RAISE EXCEPTION 'Cannot set parent section: a section cannot be its own parent';
+  END IF;
+
+  -- Walk up from the proposed parent; reaching NEW.id means a cycle
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_section_id, 1 AS depth
+      FROM sections
+      WHERE id = NEW.parent_section_id
+
+      UNION ALL
+
+      SELECT s.id, s.parent_section_id, a.depth + 1
+      FROM sections s
+      INNER JOIN ancestors a ON s.id = a.parent_section_id
+      WHERE a.depth < 50
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Cannot set parent section: would create circular reference';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ================================================
+-- 2. SIBLING REORDERING
+-- ================================================
+
+-- Assigns sort_order 0..n-1 following the order of p_section_ids.
+-- All sections must share the given parent (NULL for root level).
+CREATE OR REPLACE FUNCTION reorder_sibling_sections(
+  p_section_ids UUID[],
+  p_parent_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  mismatched_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO mismatched_count
+  FROM sections
+  WHERE id = ANY(p_section_ids)
+    AND parent_section_id IS DISTINCT FROM p_parent_id;
+
+  IF mismatched_count > 0 THEN
+    RAISE EXCEPTION 'All reordered sections must share the same parent';
+  END IF;
+
+  UPDATE sections s
+  SET sort_order = ordered.position - 1
+  FROM unnest(p_section_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE s.id = ordered.id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- ================================================
+-- 3. MOVE SECTION
+-- ================================================
+
+-- Moves a section under a new parent (NULL for root) at the given position,
+-- closing the gap it leaves behind and shifting its new siblings down.
+CREATE OR REPLACE FUNCTION move_section(
+  p_section_id UUID,
+  p_new_parent_id UUID DEFAULT NULL,
+  p_position INTEGER DEFAULT NULL
+)
+RETURNS sections AS $$
+DECLARE
+  moving sections;
+  sibling_count INTEGER;
+  target_position INTEGER;
+  result sections;
+BEGIN
+  SELECT * INTO moving FROM sections WHERE id = p_section_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Section % not found', p_section_id;
+  END IF;
+
+  -- Close the gap in the old sibling group
+  UPDATE sections
+  SET sort_order = sort_order - 1
+  WHERE parent_section_id IS NOT DISTINCT FROM moving.parent_section_id
+    AND COALESCE(moving.project_id::TEXT, '') = COALESCE(project_id::TEXT, '')
+    AND id <> p_section_id
+    AND sort_order > COALESCE(moving.sort_order, 0);
+
+  SELECT COUNT(*) INTO sibling_count
+  FROM sections
+  WHERE parent_section_id IS NOT DISTINCT FROM p_new_parent_id
+    AND COALESCE(moving.project_id::TEXT, '') = COALESCE(project_id::TEXT, '')
+    AND id <> p_section_id;
+
+  target_position := LEAST(GREATEST(COALESCE(p_position, sibling_count), 0), sibling_count);
+
+  -- Open a slot in the new sibling group
+  UPDATE sections
+  SET sort_order = sort_order + 1
+  WHERE parent_section_id IS NOT DISTINCT FROM p_new_parent_id
+    AND COALESCE(moving.project_id::TEXT, '') = COALESCE(project_id::TEXT, '')
+    AND id <> p_section_id
+    AND sort_order >= target_position;
+
+  UPDATE sections
+  SET parent_section_id = p_new_parent_id,
+      sort_order = target_position
+  WHERE id = p_section_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- ================================================
+-- 4. DELETE SECTION SUBTREE
+-- ================================================
+
+-- Deletes a section with all of its descendants and compacts the
+-- sort_order of the remaining siblings. Returns the number of rows removed.
+CREATE OR REPLACE FUNCTION delete_section_tree(p_section_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  target sections;
+  deleted_count INTEGER;
+BEGIN
+  SELECT * INTO target FROM sections WHERE id = p_section_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM sections WHERE id = p_section_id
+    UNION ALL
+    SELECT s.id FROM sections s INNER JOIN subtree st ON s.parent_section_id = st.id
+  )
+  DELETE FROM sections WHERE id IN (SELECT id FROM subtree);
+
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  UPDATE sections
+  SET sort_order = sort_order - 1
+  WHERE parent_section_id IS NOT DISTINCT FROM target.parent_section_id
+    AND COALESCE(target.project_id::TEXT, '') = COALESCE(project_id::TEXT, '')
+    AND sort_order > COALESCE(target.sort_order, 0);
+
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION reorder_sibling_sections TO authenticated;
+GRANT EXECUTE ON FUNCTION move_section TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_section_tree TO authenticated;
+
+COMMENT ON FUNCTION reorder_sibling_sections(UUID[], UUID) IS 'Atomically rewrites sort_order for a group of sibling sections';
+COMMENT ON FUNCTION move_section(UUID, UUID, INTEGER) IS 'Moves a section to a new parent and position, renumbering both sibling groups';
+COMMENT ON FUNCTION delete_section_tree(UUID) IS 'Deletes a section subtree and compacts sibling sort_order, returns rows deleted';
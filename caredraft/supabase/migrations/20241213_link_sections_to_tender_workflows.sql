@@ -0,0 +1,276 @@
+-- ================================================
+-- LINK SECTIONS TO TENDER WORKFLOWS MIGRATION
+-- ================================================
+-- Connects the section tree to the per-tender workflow:
+-- 1. sections.project_id becomes a foreign key to tender_workflows
+-- 2. sections.tender_question_id links a section to the question it answers
+-- 3. Two-way sync between question-linked sections and tender_questions
+-- 4. generate_tender_sections() writes a tender's section tree in one transaction
+
+-- ================================================
+-- 1. PROJECT FOREIGN KEY
+-- ================================================
+
+-- Detach sections pointing at projects that no longer exist before adding the
+-- constraint; their content is kept as unassigned sections
+UPDATE sections
+SET project_id = NULL
+WHERE project_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM tender_workflows tw WHERE tw.id = sections.project_id);
+
+ALTER TABLE sections
+  ADD CONSTRAINT sections_project_id_fkey
+  FOREIGN KEY (project_id) REFERENCES tender_workflows(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN sections.project_id IS 'Tender workflow this section belongs to';
+
+-- ================================================
+-- 2. QUESTION LINK
+-- ================================================
+
+ALTER TABLE sections
+  ADD COLUMN IF NOT EXISTS tender_question_id UUID REFERENCES tender_questions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sections_tender_question_id
+  ON sections(tender_question_id)
+  WHERE tender_question_id IS NOT NULL;
+
+-- A section may only answer a question of its own tender, in the caller's
+-- organisation; the sync trigger below writes through to that question
+CREATE OR REPLACE FUNCTION check_section_tender_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tender_question_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM tender_questions tq
+    JOIN tender_workflows tw ON tw.id = tq.tender_workflow_id
+    WHERE tq.id = NEW.tender_question_id
+      AND tq.tender_workflow_id = NEW.project_id
+      AND tw.organization_id = get_user_organization_id()
+  ) THEN
+    RAISE EXCEPTION 'Tender question % does not belong to this section''s tender', NEW.tender_question_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_section_tender_question_trigger
+  BEFORE INSERT OR UPDATE OF tender_question_id, project_id ON sections
+  FOR EACH ROW
+  EXECUTE FUNCTION check_section_tender_question();
+
+-- ================================================
+-- 3. STATUS MAPPING HELPERS
+-- ================================================
+
+CREATE OR REPLACE FUNCTION section_status_to_question_status(p_status section_status)
+RETURNS TEXT AS $$
+  SELECT CASE p_status
+    WHEN 'complete' THEN 'completed'
+    WHEN 'review' THEN 'review'
+    WHEN 'in_progress' THEN 'in_progress'
+    ELSE 'not_started'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION question_status_to_section_status(p_status TEXT)
+RETURNS section_status AS $$
+  SELECT CASE p_status
+    WHEN 'completed' THEN 'complete'::section_status
+    WHEN 'review' THEN 'review'::section_status
+    WHEN 'in_progress' THEN 'in_progress'::section_status
+    ELSE 'not_started'::section_status
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ================================================
+-- 4. SECTION -> QUESTION SYNC
+-- ================================================
+
+CREATE OR REPLACE FUNCTION sync_section_to_tender_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Changes written by the question trigger must not bounce back
+  IF pg_trigger_depth() > 1 OR NEW.tender_question_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE tender_questions
+  SET response_content = NEW.content,
+      word_count = COALESCE(NEW.current_word_count, 0),
+      status = section_status_to_question_status(NEW.status),
+      assigned_to = NEW.owner_id,
+      due_date = NEW.due_date,
+      word_limit = NULLIF(NEW.word_count_limit, 0)
+  WHERE id = NEW.tender_question_id
+    AND tender_workflow_id = NEW.project_id
+    AND (
+      response_content IS DISTINCT FROM NEW.content
+      OR word_count IS DISTINCT FROM COALESCE(NEW.current_word_count, 0)
+      OR status IS DISTINCT FROM section_status_to_question_status(NEW.status)
+      OR assigned_to IS DISTINCT FROM NEW.owner_id
+      OR due_date IS DISTINCT FROM NEW.due_date
+      OR word_limit IS DISTINCT FROM NULLIF(NEW.word_count_limit, 0)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_section_to_tender_question_trigger
+  AFTER INSERT OR UPDATE OF content, status, owner_id, due_date, word_count_limit, tender_question_id ON sections
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_section_to_tender_question();
+
+-- ================================================
+-- 5. QUESTION -> SECTION SYNC
+-- ================================================
+
+CREATE OR REPLACE FUNCTION sync_tender_question_to_section()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE sections
+  SET content = NEW.response_content,
+      status = question_status_to_section_status(NEW.status),
+      owner_id = NEW.assigned_to,
+      due_date = NEW.due_date,
+      word_count_limit = COALESCE(NEW.word_limit, 0)
+  WHERE tender_question_id = NEW.id
+    AND (
+      content IS DISTINCT FROM NEW.response_content
+      OR status IS DISTINCT FROM question_status_to_section_status(NEW.status)
+      OR owner_id IS DISTINCT FROM NEW.assigned_to
+      OR due_date IS DISTINCT FROM NEW.due_date
+      OR word_count_limit IS DISTINCT FROM COALESCE(NEW.word_limit, 0)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_tender_question_to_section_trigger
+  AFTER UPDATE OF response_content, status, assigned_to, due_date, word_limit ON tender_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_tender_question_to_section();
+
+-- ================================================
+-- 6. SECTION GENERATION
+-- ================================================
+
+-- Writes one level of a planned section tree and recurses into its children.
+-- Question sections take their owner, due date and word limit from the
+-- question; sections that already exist are reused.
+CREATE OR REPLACE FUNCTION write_tender_section_plan(
+  p_tender_workflow_id UUID,
+  p_parent_id UUID,
+  p_nodes JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_node JSONB;
+  v_question tender_questions%ROWTYPE;
+  v_section_id UUID;
+  v_sort_order INTEGER;
+  v_children JSONB;
+  v_created INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  FOR v_node IN SELECT * FROM jsonb_array_elements(COALESCE(p_nodes, '[]'::jsonb)) LOOP
+    v_question := NULL;
+    v_section_id := NULL;
+
+    IF v_node->>'question_id' IS NOT NULL THEN
+      SELECT * INTO v_question
+      FROM tender_questions
+      WHERE id = (v_node->>'question_id')::UUID
+        AND tender_workflow_id = p_tender_workflow_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Tender question % does not belong to this tender', v_node->>'question_id'
+          USING ERRCODE = '42501';
+      END IF;
+
+      SELECT id INTO v_section_id FROM sections WHERE tender_question_id = v_question.id;
+    ELSE
+      SELECT id INTO v_section_id
+      FROM sections
+      WHERE project_id = p_tender_workflow_id
+        AND tender_question_id IS NULL
+        AND parent_section_id IS NOT DISTINCT FROM p_parent_id
+        AND title = v_node->>'title'
+      LIMIT 1;
+    END IF;
+
+    IF v_section_id IS NOT NULL THEN
+      v_skipped := v_skipped + 1;
+    ELSE
+      SELECT COALESCE(MAX(sort_order) + 1, 0) INTO v_sort_order
+      FROM sections
+      WHERE project_id = p_tender_workflow_id
+        AND parent_section_id IS NOT DISTINCT FROM p_parent_id;
+
+      INSERT INTO sections (
+        title, description, parent_section_id, project_id, tender_question_id,
+        word_count_limit, due_date, owner_id, sort_order
+      ) VALUES (
+        v_node->>'title',
+        v_node->>'description',
+        p_parent_id,
+        p_tender_workflow_id,
+        v_question.id,
+        COALESCE(v_question.word_limit, 0),
+        COALESCE(v_question.due_date, (v_node->>'due_date')::TIMESTAMPTZ),
+        v_question.assigned_to,
+        v_sort_order
+      )
+      RETURNING id INTO v_section_id;
+
+      v_created := v_created + 1;
+    END IF;
+
+    v_children := write_tender_section_plan(p_tender_workflow_id, v_section_id, v_node->'children');
+    v_created := v_created + (v_children->>'created')::INTEGER;
+    v_skipped := v_skipped + (v_children->>'skipped')::INTEGER;
+  END LOOP;
+
+  RETURN jsonb_build_object('created', v_created, 'skipped', v_skipped);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Generates a tender's section tree from a plan in one transaction. Runs as
+-- definer so sections can be owned by the colleagues their questions are
+-- assigned to; the tender must belong to the caller's organisation.
+CREATE OR REPLACE FUNCTION generate_tender_sections(p_tender_workflow_id UUID, p_plan JSONB)
+RETURNS JSONB AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM tender_workflows
+    WHERE id = p_tender_workflow_id
+      AND organization_id = get_user_organization_id()
+  ) THEN
+    RAISE EXCEPTION 'Tender % not found', p_tender_workflow_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN write_tender_section_plan(p_tender_workflow_id, NULL, p_plan);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION write_tender_section_plan(UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_tender_sections(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_tender_sections(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION check_section_tender_question() IS 'Rejects sections linked to a question outside their tender or the caller''s organisation';
+COMMENT ON FUNCTION generate_tender_sections(UUID, JSONB) IS 'Writes a planned section tree for a tender in one transaction, reusing existing sections';
+COMMENT ON FUNCTION sync_section_to_tender_question() IS 'Copies response content, status, owner and limits from a question-linked section to its tender question';
+COMMENT ON FUNCTION sync_tender_question_to_section() IS 'Copies response content, status, owner and limits from a tender question to its linked section';
@@ -0,0 +1,41 @@
+-- ================================================
+-- COMPLIANCE SOURCE TRACEABILITY MIGRATION
+-- ================================================
+-- Extends compliance_items so auto-extracted requirements can be traced
+-- back to the passage they came from:
+-- 1. The exact quote and requirement category for each item
+-- 2. A normalised requirement key used to merge duplicates
+-- 3. Every document and page a merged requirement appears on
+
+-- ================================================
+-- 1. TRACEABILITY COLUMNS
+-- ================================================
+
+ALTER TABLE compliance_items
+    ADD COLUMN IF NOT EXISTS source_quote TEXT NULL,
+    ADD COLUMN IF NOT EXISTS category TEXT NULL
+        CHECK (category IN ('obligation', 'regulatory', 'certification')),
+    ADD COLUMN IF NOT EXISTS requirement_key TEXT NULL,
+    ADD COLUMN IF NOT EXISTS source_references JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- ================================================
+-- 2. INDEXES
+-- ================================================
+
+-- One auto-extracted item per requirement and proposal; repeats are merged
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compliance_items_requirement_key
+    ON compliance_items(proposal_id, requirement_key)
+    WHERE requirement_key IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_compliance_items_category
+    ON compliance_items(proposal_id, category)
+    WHERE category IS NOT NULL;
+
+-- ================================================
+-- 3. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON COLUMN compliance_items.source_quote IS 'Exact passage from the source document the requirement was extracted from';
+COMMENT ON COLUMN compliance_items.category IS 'Requirement type for auto-extracted items: obligation, regulatory or certification';
+COMMENT ON COLUMN compliance_items.requirement_key IS 'Normalised requirement text used to merge duplicates across documents';
+COMMENT ON COLUMN compliance_items.source_references IS 'Every occurrence of the requirement as [{document_id, document_name, page, quote}]';
@@ -0,0 +1,104 @@
+-- ================================================
+-- COMPLIANCE COVERAGE MAPPING MIGRATION
+-- ================================================
+-- Links compliance requirements to the drafted responses that address them:
+-- 1. compliance_item_links maps an item to sections or tender questions
+-- 2. Coverage status on compliance_items from the latest analysis
+-- Links are either found by the coverage analyser ('auto') or added by a
+-- bid manager ('manual'); re-running the analyser only replaces auto links.
+
+-- ================================================
+-- 1. COMPLIANCE ITEM LINKS TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS compliance_item_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    compliance_item_id UUID NOT NULL REFERENCES compliance_items(id) ON DELETE CASCADE,
+    section_id UUID NULL REFERENCES sections(id) ON DELETE CASCADE,
+    tender_question_id UUID NULL REFERENCES tender_questions(id) ON DELETE CASCADE,
+    link_type TEXT NOT NULL DEFAULT 'auto' CHECK (link_type IN ('auto', 'manual')),
+    coverage_score DECIMAL(3,2) NULL CHECK (coverage_score >= 0.0 AND coverage_score <= 1.0),
+    matched_terms TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT compliance_item_links_single_target CHECK (
+        (section_id IS NOT NULL AND tender_question_id IS NULL) OR
+        (section_id IS NULL AND tender_question_id IS NOT NULL)
+    ),
+    -- Plain (not partial) so upserts can target them; NULLs never conflict,
+    -- so each only applies to links of its own kind
+    CONSTRAINT compliance_item_links_section_key UNIQUE (compliance_item_id, section_id),
+    CONSTRAINT compliance_item_links_question_key UNIQUE (compliance_item_id, tender_question_id)
+);
+
+-- ================================================
+-- 2. COVERAGE COLUMNS ON COMPLIANCE ITEMS
+-- ================================================
+
+ALTER TABLE compliance_items
+    ADD COLUMN IF NOT EXISTS coverage_status TEXT NULL
+        CHECK (coverage_status IN ('covered', 'weak', 'uncovered')),
+    ADD COLUMN IF NOT EXISTS coverage_score DECIMAL(3,2) NULL
+        CHECK (coverage_score >= 0.0 AND coverage_score <= 1.0),
+    ADD COLUMN IF NOT EXISTS coverage_checked_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- ================================================
+-- 3. INDEXES FOR PERFORMANCE OPTIMIZATION
+-- ================================================
+
+CREATE INDEX IF NOT EXISTS idx_compliance_item_links_item
+    ON compliance_item_links(compliance_item_id);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_items_coverage_status
+    ON compliance_items(proposal_id, coverage_status)
+    WHERE coverage_status IS NOT NULL;
+
+-- ================================================
+-- 4. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+ALTER TABLE compliance_item_links ENABLE ROW LEVEL SECURITY;
+
+-- Users can view links for compliance items they can view
+CREATE POLICY "Users can view compliance item links for their organization proposals"
+    ON compliance_item_links FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM compliance_items ci
+            JOIN proposals p ON p.id = ci.proposal_id
+            JOIN users u ON u.id = auth.uid()
+            WHERE ci.id = compliance_item_links.compliance_item_id
+            AND (
+                p.owner_id = auth.uid() OR
+                u.organization_id = (
+                    SELECT organization_id FROM users WHERE id = p.owner_id
+                )
+            )
+        )
+    );
+
+-- Users can manage links for compliance items they can modify
+CREATE POLICY "Users can manage compliance item links for their proposals"
+    ON compliance_item_links FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM compliance_items ci
+            JOIN proposals p ON p.id = ci.proposal_id
+            JOIN users u ON u.id = auth.uid()
+            WHERE ci.id = compliance_item_links.compliance_item_id
+            AND (
+                p.owner_id = auth.uid() OR
+                u.role IN ('admin', 'manager')
+            )
+        )
+    );
+
+-- ================================================
+-- 5. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON TABLE compliance_item_links IS 'Maps compliance requirements to the sections or tender question responses that address them';
+COMMENT ON COLUMN compliance_item_links.link_type IS 'auto when found by the coverage analyser, manual when linked by a user';
+COMMENT ON COLUMN compliance_item_links.coverage_score IS 'How strongly the linked response addresses the requirement (0.0 to 1.0)';
+COMMENT ON COLUMN compliance_items.coverage_status IS 'Result of the latest coverage analysis: covered, weak or uncovered';
+COMMENT ON COLUMN compliance_items.coverage_score IS 'Best coverage score across all responses from the latest analysis';
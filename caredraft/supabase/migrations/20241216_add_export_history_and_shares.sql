@@ -0,0 +1,97 @@
+-- ================================================
+-- EXPORT HISTORY AND SHARE LINKS MIGRATION
+-- ================================================
+-- Builds on the export tables from 20241201_create_export_tables.sql:
+-- 1. One version number per proposal for stored exports
+-- 2. Unguessable tokens and revocation for document shares
+-- 3. Share references on access logs so each link's use can be audited
+-- Files live in the 'exports' storage bucket under
+-- <user_id>/<proposal_id>/v<version>-<filename>.
+
+-- ================================================
+-- 1. EXPORT VERSIONING
+-- ================================================
+
+-- Versions are allocated as max + 1 per proposal; the unique index turns a
+-- concurrent allocation into a retryable conflict instead of a duplicate.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exported_documents_proposal_version
+    ON exported_documents(proposal_id, version)
+    WHERE proposal_id IS NOT NULL;
+
+ALTER TABLE exported_documents
+    ADD COLUMN IF NOT EXISTS content_hash TEXT NULL;
+
+-- ================================================
+-- 2. SHARE TOKENS AND REVOCATION
+-- ================================================
+
+ALTER TABLE document_shares
+    ADD COLUMN IF NOT EXISTS share_token TEXT NULL,
+    ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_shares_share_token
+    ON document_shares(share_token)
+    WHERE share_token IS NOT NULL;
+
+-- ================================================
+-- 3. SHARE REFERENCES ON ACCESS LOGS
+-- ================================================
+
+ALTER TABLE document_access_logs
+    ADD COLUMN IF NOT EXISTS share_id UUID NULL REFERENCES document_shares(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_document_access_logs_share_id
+    ON document_access_logs(share_id)
+    WHERE share_id IS NOT NULL;
+
+-- ================================================
+-- 4. ROW LEVEL SECURITY POLICIES
+-- ================================================
+
+-- Anyone in the organisation can list and re-download its export history;
+-- share links are managed by the people who created them.
+DROP POLICY IF EXISTS "Users can view shares for their documents" ON document_shares;
+CREATE POLICY "Users can view shares for their documents" ON document_shares
+    FOR SELECT USING (
+        shared_by = auth.uid() OR
+        document_id IN (
+            SELECT id FROM exported_documents
+            WHERE organization_id IN (
+                SELECT organization_id FROM users WHERE id = auth.uid()
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can create shares for their documents" ON document_shares;
+CREATE POLICY "Users can create shares for their documents" ON document_shares
+    FOR INSERT WITH CHECK (
+        shared_by = auth.uid() AND
+        document_id IN (
+            SELECT id FROM exported_documents
+            WHERE organization_id IN (
+                SELECT organization_id FROM users WHERE id = auth.uid()
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can view access logs for their documents" ON document_access_logs;
+CREATE POLICY "Users can view access logs for their documents" ON document_access_logs
+    FOR SELECT USING (
+        user_id = auth.uid() OR
+        document_id IN (
+            SELECT id FROM exported_documents
+            WHERE organization_id IN (
+                SELECT organization_id FROM users WHERE id = auth.uid()
+            )
+        )
+    );
+
+-- ================================================
+-- 5. COMMENTS FOR DOCUMENTATION
+-- ================================================
+
+COMMENT ON COLUMN exported_documents.version IS 'Export version within the proposal, starting at 1';
+COMMENT ON COLUMN exported_documents.content_hash IS 'SHA-256 of the stored file, to confirm a download matches what was submitted';
+COMMENT ON COLUMN document_shares.share_token IS 'Unguessable token used in public share URLs';
+COMMENT ON COLUMN document_shares.revoked_at IS 'When the share link was revoked; revoked links stop working immediately';
+COMMENT ON COLUMN document_access_logs.share_id IS 'Share link used for the access, if any';
@@ -0,0 +1,222 @@
+-- ================================================
+-- PROPOSAL DEADLINE RULES MIGRATION
+-- ================================================
+-- Backs the proposal deadline engine run by /api/cron/deadline-processor:
+-- 1. Deadline rules per organisation and status
+-- 2. A log of reminders already sent, so each fires once per status change
+-- 3. A history of processing runs for the deadline dashboard
+-- 4. Automatic transitions recorded as automatic in proposal_status_history
+-- Deadlines are measured from when a proposal entered its current status.
+
+-- ================================================
+-- 1. PROPOSAL DEADLINE RULES TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS proposal_deadline_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL,
+    from_status proposal_status NOT NULL,
+    to_status proposal_status NOT NULL,
+    deadline_hours INTEGER NOT NULL CHECK (deadline_hours > 0),
+    notification_hours INTEGER[] NOT NULL DEFAULT '{}',
+    auto_transition BOOLEAN DEFAULT FALSE NOT NULL,
+    requires_approval BOOLEAN DEFAULT TRUE NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    enabled BOOLEAN DEFAULT TRUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    CONSTRAINT proposal_deadline_rules_distinct_statuses CHECK (from_status <> to_status),
+    UNIQUE(organization_id, from_status)
+);
+
+-- ================================================
+-- 2. SENT DEADLINE NOTIFICATIONS TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS proposal_deadline_notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id UUID NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+    rule_id UUID NOT NULL REFERENCES proposal_deadline_rules(id) ON DELETE CASCADE,
+    status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'reminder' CHECK (kind IN ('reminder', 'approval_request')),
+    notification_hours INTEGER NOT NULL DEFAULT 0,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    UNIQUE(proposal_id, rule_id, status_changed_at, kind, notification_hours)
+);
+
+-- ================================================
+-- 3. DEADLINE PROCESSING RUNS TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS proposal_deadline_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL,
+    triggered_by UUID NULL REFERENCES users(id) ON DELETE SET NULL, -- NULL for scheduled runs
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    proposals_checked INTEGER DEFAULT 0 NOT NULL,
+    notifications_sent INTEGER DEFAULT 0 NOT NULL,
+    transitions_performed INTEGER DEFAULT 0 NOT NULL,
+    errors JSONB DEFAULT '[]' NOT NULL,
+    duration_ms INTEGER NULL
+);
+
+-- ================================================
+-- 4. INDEXES FOR PERFORMANCE OPTIMIZATION
+-- ================================================
+
+CREATE INDEX IF NOT EXISTS idx_proposal_deadline_rules_org
+    ON proposal_deadline_rules(organization_id)
+    WHERE enabled = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_proposal_deadline_notifications_proposal
+    ON proposal_deadline_notifications(proposal_id, status_changed_at);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_deadline_runs_org_processed
+    ON proposal_deadline_runs(organization_id, processed_at DESC);
+
+-- ================================================
+-- 5. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+ALTER TABLE proposal_deadline_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE proposal_deadline_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE proposal_deadline_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view deadline rules for their organization"
+    ON proposal_deadline_rules FOR SELECT
+    USING (
+        organization_id = (
+            SELECT organization_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage deadline rules for their organization"
+    ON proposal_deadline_rules FOR ALL
+    USING (
+        organization_id = (
+            SELECT organization_id FROM users WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Users can view deadline notifications for proposals in their organization"
+    ON proposal_deadline_notifications FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM proposals p
+            JOIN users owner ON owner.id = p.owner_id
+            JOIN users u ON u.id = auth.uid()
+            WHERE p.id = proposal_deadline_notifications.proposal_id
+            AND owner.organization_id = u.organization_id
+        )
+    );
+
+CREATE POLICY "Managers and admins can view deadline runs for their organization"
+    ON proposal_deadline_runs FOR SELECT
+    USING (
+        organization_id = (
+            SELECT organization_id FROM users
+            WHERE id = auth.uid() AND role IN ('admin', 'manager')
+        )
+    );
+
+-- Notifications and runs are written by the deadline processor with the service role
+
+-- ================================================
+-- 6. AUTOMATIC STATUS TRANSITIONS
+-- ================================================
+
+-- The status history trigger records automatic changes when the caller sets
+-- caredraft.automatic_status_reason for the transaction
+CREATE OR REPLACE FUNCTION log_proposal_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_automatic_reason TEXT := NULLIF(current_setting('caredraft.automatic_status_reason', TRUE), '');
+BEGIN
+    -- Only log if status actually changed
+    IF OLD.status IS DISTINCT FROM NEW.status THEN
+        INSERT INTO proposal_status_history (
+            proposal_id,
+            from_status,
+            to_status,
+            changed_by,
+            changed_at,
+            transition_reason,
+            automatic
+        ) VALUES (
+            NEW.id,
+            OLD.status,
+            NEW.status,
+            COALESCE(auth.uid(), NEW.owner_id), -- Use auth.uid() if available, else proposal owner
+            NOW(),
+            v_automatic_reason,
+            v_automatic_reason IS NOT NULL
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move a proposal on when its deadline passes. Only applies if the proposal
+-- is still in the status the rule was evaluated against.
+CREATE OR REPLACE FUNCTION apply_proposal_deadline_transition(
+    p_proposal_id UUID,
+    p_from_status proposal_status,
+    p_to_status proposal_status,
+    p_reason TEXT
+) RETURNS BOOLEAN AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    PERFORM set_config('caredraft.automatic_status_reason', p_reason, TRUE);
+
+    UPDATE proposals
+    SET status = p_to_status
+    WHERE id = p_proposal_id AND status = p_from_status;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    PERFORM set_config('caredraft.automatic_status_reason', '', TRUE);
+
+    RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deadline transitions run with the owner's rights, so only the deadline
+-- processor (service role) may call them
+REVOKE EXECUTE ON FUNCTION apply_proposal_deadline_transition(UUID, proposal_status, proposal_status, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ================================================
+-- 7. DEFAULT DEADLINE RULES
+-- ================================================
+
+-- Reminders only; organisations opt in to automatic transitions
+INSERT INTO proposal_deadline_rules (
+    organization_id,
+    from_status,
+    to_status,
+    deadline_hours,
+    notification_hours,
+    auto_transition,
+    requires_approval,
+    description
+)
+SELECT pws.organization_id, rule.from_status, rule.to_status, rule.deadline_hours, rule.notification_hours, FALSE, TRUE, rule.description
+FROM proposal_workflow_settings pws
+CROSS JOIN (VALUES
+    ('draft'::proposal_status, 'review'::proposal_status, 14 * 24, ARRAY[72, 24], 'Drafts should be ready for review within two weeks'),
+    ('review'::proposal_status, 'submitted'::proposal_status, 7 * 24, ARRAY[48, 24], 'Reviews should be completed within a week')
+) AS rule(from_status, to_status, deadline_hours, notification_hours, description)
+ON CONFLICT (organization_id, from_status) DO NOTHING;
+
+-- ================================================
+-- 8. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON TABLE proposal_deadline_rules IS 'Per-organisation deadlines for how long a proposal may stay in each status';
+COMMENT ON COLUMN proposal_deadline_rules.notification_hours IS 'Send a reminder when this many hours remain before the deadline';
+COMMENT ON COLUMN proposal_deadline_rules.requires_approval IS 'When set, an overdue proposal is not moved automatically; managers are asked to approve the transition';
+COMMENT ON TABLE proposal_deadline_notifications IS 'Deadline reminders and approval requests already sent, per status change';
+COMMENT ON TABLE proposal_deadline_runs IS 'History of deadline processing runs per organisation';
+
+COMMENT ON FUNCTION apply_proposal_deadline_transition IS 'Applies a deadline transition and records it as automatic in the status history';
@@ -0,0 +1,282 @@
+-- ================================================
+-- ENFORCED PROPOSAL STATUS WORKFLOW MIGRATION
+-- ================================================
+-- Makes the proposal status workflow binding rather than advisory:
+-- 1. Configurable number of reviewer approvals before submission
+-- 2. Workflow permissions readable by every user, so the UI can offer
+--    only the transitions a user may make
+-- 3. can_user_transition_proposal_status driven by the permissions table,
+--    ownership and reviewer sign-off
+-- 4. transition_proposal_status as the only way to change status, recording
+--    comments and reasons in proposal_status_history
+-- 5. Reviewer assignments limited to the assigning manager's organisation
+
+-- ================================================
+-- 1. REVIEWER APPROVAL SETTINGS
+-- ================================================
+
+ALTER TABLE proposal_workflow_settings
+    ADD COLUMN IF NOT EXISTS required_approvals INTEGER DEFAULT 1 NOT NULL
+    CHECK (required_approvals >= 0);
+
+-- ================================================
+-- 2. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+CREATE POLICY "Users can view workflow permissions"
+    ON proposal_workflow_permissions FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+-- Managers may only assign reviewers from their own organisation to
+-- proposals owned by their organisation
+DROP POLICY IF EXISTS "Managers and admins can assign reviewers" ON proposal_reviewer_assignments;
+
+CREATE POLICY "Managers and admins can assign reviewers"
+    ON proposal_reviewer_assignments FOR INSERT
+    WITH CHECK (
+        assigned_by = auth.uid() AND
+        EXISTS (
+            SELECT 1
+            FROM users manager
+            JOIN proposals p ON p.id = proposal_reviewer_assignments.proposal_id
+            JOIN users owner ON owner.id = p.owner_id
+            JOIN users reviewer ON reviewer.id = proposal_reviewer_assignments.reviewer_id
+            WHERE manager.id = auth.uid()
+            AND manager.role IN ('admin', 'manager')
+            AND owner.organization_id = manager.organization_id
+            AND reviewer.organization_id = manager.organization_id
+        )
+    );
+
+-- ================================================
+-- 3. TRANSITION RULES
+-- ================================================
+
+-- A transition is allowed when:
+-- - the proposal is still in p_from_status
+-- - the user belongs to the proposal owner's organisation
+-- - an enabled permission exists for the user's role
+-- - writers only move proposals they own
+-- - submission has the required approvals from the current review round,
+--   and no reviewer in that round has asked for changes
+CREATE OR REPLACE FUNCTION can_user_transition_proposal_status(
+    p_proposal_id UUID,
+    p_from_status proposal_status,
+    p_to_status proposal_status,
+    p_user_id UUID DEFAULT auth.uid()
+) RETURNS BOOLEAN AS $$
+DECLARE
+    v_current_status proposal_status;
+    v_owner_id UUID;
+    v_owner_org UUID;
+    v_user_role user_role;
+    v_user_org UUID;
+    v_required_approvals INTEGER;
+    v_allow_self_approval BOOLEAN;
+    v_review_started_at TIMESTAMP WITH TIME ZONE;
+    v_approvals INTEGER;
+BEGIN
+    IF p_from_status = p_to_status THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT p.status, p.owner_id, owner.organization_id
+    INTO v_current_status, v_owner_id, v_owner_org
+    FROM proposals p
+    JOIN users owner ON owner.id = p.owner_id
+    WHERE p.id = p_proposal_id;
+
+    IF NOT FOUND OR v_current_status IS DISTINCT FROM p_from_status THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT role, organization_id
+    INTO v_user_role, v_user_org
+    FROM users
+    WHERE id = p_user_id;
+
+    IF v_user_role IS NULL OR v_user_org IS DISTINCT FROM v_owner_org THEN
+        RETURN FALSE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM proposal_workflow_permissions
+        WHERE (from_status IS NULL OR from_status = p_from_status)
+        AND to_status = p_to_status
+        AND required_role = v_user_role
+        AND enabled = TRUE
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_user_role = 'writer' AND v_owner_id <> p_user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_to_status = 'submitted' THEN
+        SELECT COALESCE(MAX(required_approvals), 1), COALESCE(BOOL_OR(allow_self_approval), FALSE)
+        INTO v_required_approvals, v_allow_self_approval
+        FROM proposal_workflow_settings
+        WHERE organization_id = v_owner_org;
+
+        SELECT MAX(changed_at)
+        INTO v_review_started_at
+        FROM proposal_status_history
+        WHERE proposal_id = p_proposal_id AND to_status = 'review';
+
+        IF EXISTS (
+            SELECT 1 FROM proposal_reviewer_assignments
+            WHERE proposal_id = p_proposal_id
+            AND decision = 'review'
+            AND completed_at >= COALESCE(v_review_started_at, '-infinity'::TIMESTAMPTZ)
+        ) THEN
+            RETURN FALSE;
+        END IF;
+
+        SELECT COUNT(*)
+        INTO v_approvals
+        FROM proposal_reviewer_assignments
+        WHERE proposal_id = p_proposal_id
+        AND decision = 'submitted'
+        AND completed_at >= COALESCE(v_review_started_at, '-infinity'::TIMESTAMPTZ)
+        AND (v_allow_self_approval OR reviewer_id <> v_owner_id);
+
+        IF v_approvals < v_required_approvals THEN
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ================================================
+-- 4. STATUS TRANSITIONS
+-- ================================================
+
+-- Change a proposal's status on behalf of the signed-in user. Returns FALSE
+-- if the proposal has already left p_from_status.
+CREATE OR REPLACE FUNCTION transition_proposal_status(
+    p_proposal_id UUID,
+    p_from_status proposal_status,
+    p_to_status proposal_status,
+    p_comment TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+DECLARE
+    v_current_status proposal_status;
+    v_require_rejection_comment BOOLEAN;
+    v_require_approval_comment BOOLEAN;
+BEGIN
+    -- Lock the proposal so concurrent transitions are checked one at a time
+    SELECT status INTO v_current_status
+    FROM proposals
+    WHERE id = p_proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_current_status IS DISTINCT FROM p_from_status THEN
+        RETURN FALSE;
+    END IF;
+
+    IF NOT can_user_transition_proposal_status(p_proposal_id, p_from_status, p_to_status, auth.uid()) THEN
+        RAISE EXCEPTION 'Changing this proposal from % to % is not permitted', p_from_status, p_to_status
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT
+        COALESCE(BOOL_OR(pws.require_comments_on_rejection), TRUE),
+        COALESCE(BOOL_OR(pws.require_comments_on_approval), FALSE)
+    INTO v_require_rejection_comment, v_require_approval_comment
+    FROM proposals p
+    JOIN users owner ON owner.id = p.owner_id
+    JOIN proposal_workflow_settings pws ON pws.organization_id = owner.organization_id
+    WHERE p.id = p_proposal_id;
+
+    IF NULLIF(TRIM(COALESCE(p_comment, '')), '') IS NULL AND (
+        (p_from_status = 'review' AND p_to_status = 'draft' AND v_require_rejection_comment) OR
+        (p_to_status = 'submitted' AND v_require_approval_comment)
+    ) THEN
+        RAISE EXCEPTION 'A comment is required to change this proposal from % to %', p_from_status, p_to_status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('caredraft.status_transition', 'true', TRUE);
+    PERFORM set_config('caredraft.status_comment', COALESCE(p_comment, ''), TRUE);
+    PERFORM set_config('caredraft.status_reason', COALESCE(p_reason, ''), TRUE);
+
+    UPDATE proposals
+    SET status = p_to_status
+    WHERE id = p_proposal_id;
+
+    PERFORM set_config('caredraft.status_transition', '', TRUE);
+    PERFORM set_config('caredraft.status_comment', '', TRUE);
+    PERFORM set_config('caredraft.status_reason', '', TRUE);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Signed-in users must go through transition_proposal_status. Service role
+-- callers (no auth.uid()) and deadline transitions are left alone.
+CREATE OR REPLACE FUNCTION enforce_proposal_status_workflow()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IS DISTINCT FROM NEW.status
+        AND auth.uid() IS NOT NULL
+        AND COALESCE(current_setting('caredraft.status_transition', TRUE), '') <> 'true'
+        AND COALESCE(current_setting('caredraft.automatic_status_reason', TRUE), '') = '' THEN
+        RAISE EXCEPTION 'Proposal status must be changed with transition_proposal_status'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_proposal_status_workflow
+    BEFORE UPDATE OF status ON proposals
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_proposal_status_workflow();
+
+-- Record comments and reasons passed to transition_proposal_status
+CREATE OR REPLACE FUNCTION log_proposal_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_automatic_reason TEXT := NULLIF(current_setting('caredraft.automatic_status_reason', TRUE), '');
+    v_comment TEXT := NULLIF(current_setting('caredraft.status_comment', TRUE), '');
+    v_reason TEXT := NULLIF(current_setting('caredraft.status_reason', TRUE), '');
+BEGIN
+    -- Only log if status actually changed
+    IF OLD.status IS DISTINCT FROM NEW.status THEN
+        INSERT INTO proposal_status_history (
+            proposal_id,
+            from_status,
+            to_status,
+            changed_by,
+            changed_at,
+            comment,
+            transition_reason,
+            automatic
+        ) VALUES (
+            NEW.id,
+            OLD.status,
+            NEW.status,
+            COALESCE(auth.uid(), NEW.owner_id), -- Use auth.uid() if available, else proposal owner
+            NOW(),
+            v_comment,
+            COALESCE(v_automatic_reason, v_reason),
+            v_automatic_reason IS NOT NULL
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ================================================
+-- 5. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON COLUMN proposal_workflow_settings.required_approvals IS 'Reviewer approvals needed in the current review round before a proposal can be submitted';
+COMMENT ON FUNCTION transition_proposal_status IS 'Changes proposal status after checking workflow permissions, reviewer sign-off and comment requirements';
+COMMENT ON FUNCTION enforce_proposal_status_workflow IS 'Stops signed-in users changing proposal status outside transition_proposal_status';
@@ -0,0 +1,148 @@
+-- ================================================
+-- RAG INGESTION PIPELINE MIGRATION
+-- ================================================
+-- Supports background ingestion of Knowledge Hub documents:
+-- 1. Progress, error and retry tracking on knowledge_documents
+-- 2. Uploaded files kept in the 'knowledge-documents' storage bucket under
+--    <user_id>/<checksum>-<filename> until their text is extracted
+-- 3. An embedding cache keyed by chunk checksum and model, so re-ingesting
+--    a document only embeds chunks whose text changed
+-- 4. Ingestion runs through the service role; uploads go through the user
+-- 5. Similarity search compares only vectors from the query's model
+
+-- ================================================
+-- 1. PROCESSING STATE
+-- ================================================
+
+ALTER TABLE knowledge_documents
+    ADD COLUMN IF NOT EXISTS storage_path TEXT NULL,
+    ADD COLUMN IF NOT EXISTS processing_progress INTEGER DEFAULT 0 NOT NULL
+        CHECK (processing_progress BETWEEN 0 AND 100),
+    ADD COLUMN IF NOT EXISTS processing_error TEXT NULL,
+    ADD COLUMN IF NOT EXISTS processing_attempts INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMP WITH TIME ZONE NULL,
+    ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE NULL,
+    ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- Files are stored before their text is extracted
+ALTER TABLE knowledge_documents ALTER COLUMN content SET DEFAULT '';
+
+ALTER TABLE document_chunks
+    ADD COLUMN IF NOT EXISTS content_checksum TEXT NULL;
+
+-- ================================================
+-- 2. EMBEDDING CACHE TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    content_checksum TEXT NOT NULL,
+    embedding_model TEXT NOT NULL,
+    embedding vector(1536) NOT NULL,
+    token_count INTEGER DEFAULT 0 NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (content_checksum, embedding_model)
+);
+
+-- ================================================
+-- 3. INDEXES FOR PERFORMANCE OPTIMIZATION
+-- ================================================
+
+-- Documents waiting for ingestion or a retry
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_ingestion_queue
+    ON knowledge_documents(processing_status, next_retry_at)
+    WHERE processing_status IN ('pending', 'processing', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used
+    ON embedding_cache(last_used_at);
+
+-- ================================================
+-- 4. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+-- Only the ingestion pipeline (service role) reads and writes the cache
+ALTER TABLE embedding_cache ENABLE ROW LEVEL SECURITY;
+
+-- Uploaders could edit but not remove their documents
+CREATE POLICY "Users can delete their own documents" ON knowledge_documents
+    FOR DELETE USING (auth.uid() = uploaded_by);
+
+-- ================================================
+-- 5. STORAGE
+-- ================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('knowledge-documents', 'knowledge-documents', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload knowledge documents to their folder"
+    ON storage.objects FOR INSERT
+    WITH CHECK (
+        bucket_id = 'knowledge-documents' AND
+        (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+CREATE POLICY "Users can read their uploaded knowledge documents"
+    ON storage.objects FOR SELECT
+    USING (
+        bucket_id = 'knowledge-documents' AND
+        (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+CREATE POLICY "Users can delete their uploaded knowledge documents"
+    ON storage.objects FOR DELETE
+    USING (
+        bucket_id = 'knowledge-documents' AND
+        (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+-- ================================================
+-- 6. SIMILARITY SEARCH BY MODEL
+-- ================================================
+
+DROP FUNCTION IF EXISTS search_similar_chunks(vector, decimal, integer);
+
+CREATE OR REPLACE FUNCTION search_similar_chunks(
+  query_embedding vector(1536),
+  query_model TEXT,
+  similarity_threshold decimal DEFAULT 0.7,
+  max_results integer DEFAULT 10
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  document_title TEXT,
+  chunk_content TEXT,
+  similarity_score DECIMAL,
+  metadata JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id AS chunk_id,
+    dc.document_id,
+    kd.title AS document_title,
+    dc.content AS chunk_content,
+    (1 - (de.embedding <=> query_embedding))::DECIMAL AS similarity_score,
+    dc.metadata
+  FROM document_chunks dc
+  JOIN document_embeddings de ON dc.id = de.chunk_id
+  JOIN knowledge_documents kd ON dc.document_id = kd.id
+  WHERE kd.is_active = true
+    AND kd.processing_status = 'completed'
+    AND de.embedding_model = query_model
+    AND (1 - (de.embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY de.embedding <=> query_embedding
+  LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ================================================
+-- 7. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON COLUMN knowledge_documents.storage_path IS 'Uploaded file in the knowledge-documents bucket, extracted during ingestion';
+COMMENT ON COLUMN knowledge_documents.processing_progress IS 'Ingestion progress from 0 to 100';
+COMMENT ON COLUMN knowledge_documents.next_retry_at IS 'When a failed ingestion is retried; NULL once retries are exhausted';
+COMMENT ON COLUMN document_chunks.content_checksum IS 'SHA-256 of the chunk text, used to reuse cached embeddings';
+COMMENT ON TABLE embedding_cache IS 'Embeddings by chunk text checksum and model, shared across documents';
@@ -0,0 +1,67 @@
+-- ================================================
+-- RAG HYBRID SEARCH MIGRATION
+-- ================================================
+-- Keyword retrieval over document chunks, combined with pgvector similarity
+-- by RAGQueryPipeline:
+-- 1. A full-text index on chunk content
+-- 2. search_chunks_fulltext(), ranked with ts_rank_cd
+-- 3. The retrieval method recorded against each logged result
+
+-- ================================================
+-- 1. INDEXES FOR PERFORMANCE OPTIMIZATION
+-- ================================================
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_content_fts
+    ON document_chunks USING GIN (to_tsvector('english', content));
+
+-- ================================================
+-- 2. FULL-TEXT SEARCH FUNCTION
+-- ================================================
+
+CREATE OR REPLACE FUNCTION search_chunks_fulltext(
+    query_text TEXT,
+    max_results INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    document_title TEXT,
+    chunk_content TEXT,
+    text_rank REAL,
+    metadata JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        dc.id AS chunk_id,
+        dc.document_id,
+        kd.title AS document_title,
+        dc.content AS chunk_content,
+        ts_rank_cd(to_tsvector('english', dc.content), q.query) AS text_rank,
+        dc.metadata
+    FROM document_chunks dc
+    JOIN knowledge_documents kd ON dc.document_id = kd.id
+    CROSS JOIN websearch_to_tsquery('english', query_text) AS q(query)
+    WHERE kd.is_active = true
+      AND kd.processing_status = 'completed'
+      AND to_tsvector('english', dc.content) @@ q.query
+    ORDER BY text_rank DESC
+    LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ================================================
+-- 3. SEARCH RESULT LOGGING
+-- ================================================
+
+-- How each result was found, so keyword and semantic retrieval can be compared
+ALTER TABLE rag_search_results
+    ADD COLUMN IF NOT EXISTS retrieval_method TEXT NULL
+        CHECK (retrieval_method IN ('semantic', 'keyword', 'hybrid'));
+
+-- ================================================
+-- 4. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON FUNCTION search_chunks_fulltext IS 'Keyword search over chunks of active, processed knowledge documents';
+COMMENT ON COLUMN rag_search_results.retrieval_method IS 'Whether the chunk was found by vector similarity, keyword search or both';
@@ -0,0 +1,248 @@
+-- ================================================
+-- KNOWLEDGE DOCUMENT VERSIONING MIGRATION
+-- ================================================
+-- Re-uploading an updated policy creates a new version of the same document:
+-- 1. Versions share a document_family_id and point at the version they replace
+-- 2. Once a new version is ingested the older versions are superseded and
+--    drop out of retrieval unless explicitly requested
+-- 3. Answers and drafts record the knowledge chunks they cite, and are
+--    flagged for review when the cited document is superseded
+
+-- ================================================
+-- 1. VERSION COLUMNS
+-- ================================================
+
+ALTER TABLE knowledge_documents
+    ADD COLUMN IF NOT EXISTS document_family_id UUID NULL,
+    ADD COLUMN IF NOT EXISTS previous_version_id UUID NULL REFERENCES knowledge_documents(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP WITH TIME ZONE NULL,
+    ADD COLUMN IF NOT EXISTS superseded_by UUID NULL REFERENCES knowledge_documents(id) ON DELETE SET NULL;
+
+UPDATE knowledge_documents SET document_family_id = id WHERE document_family_id IS NULL;
+
+ALTER TABLE knowledge_documents ALTER COLUMN document_family_id SET NOT NULL;
+
+-- A document without a predecessor starts its own family
+CREATE OR REPLACE FUNCTION set_knowledge_document_family()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.document_family_id := COALESCE(NEW.document_family_id, NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_knowledge_document_family ON knowledge_documents;
+CREATE TRIGGER set_knowledge_document_family
+    BEFORE INSERT ON knowledge_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION set_knowledge_document_family();
+
+-- ================================================
+-- 2. KNOWLEDGE CITATIONS TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS knowledge_citations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES knowledge_documents(id) ON DELETE CASCADE,
+    -- Chunks are replaced when a document is re-ingested, so the cited text is kept
+    chunk_id UUID NULL REFERENCES document_chunks(id) ON DELETE SET NULL,
+    chunk_excerpt TEXT NOT NULL,
+    source_type TEXT NOT NULL CHECK (source_type IN ('answer', 'proposal', 'section')),
+    source_id UUID NOT NULL,
+    cited_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    cited_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    needs_review BOOLEAN DEFAULT FALSE NOT NULL,
+    flagged_at TIMESTAMP WITH TIME ZONE NULL,
+    flag_reason TEXT NULL,
+    replacement_document_id UUID NULL REFERENCES knowledge_documents(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE NULL,
+    reviewed_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    UNIQUE(source_type, source_id, chunk_id)
+);
+
+-- ================================================
+-- 3. INDEXES FOR PERFORMANCE OPTIMIZATION
+-- ================================================
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_family
+    ON knowledge_documents(document_family_id, version DESC);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_current
+    ON knowledge_documents(lower(title))
+    WHERE superseded_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_citations_document
+    ON knowledge_citations(document_id);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_citations_source
+    ON knowledge_citations(source_type, source_id);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_citations_needs_review
+    ON knowledge_citations(source_type, source_id)
+    WHERE needs_review = TRUE;
+
+-- ================================================
+-- 4. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+ALTER TABLE knowledge_citations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can record their own citations" ON knowledge_citations
+    FOR INSERT WITH CHECK (cited_by = auth.uid());
+
+CREATE POLICY "Users can view citations from their organization" ON knowledge_citations
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM users viewer
+            JOIN users citer ON citer.organization_id = viewer.organization_id
+            WHERE viewer.id = auth.uid()
+            AND citer.id = knowledge_citations.cited_by
+        )
+    );
+
+CREATE POLICY "Users can review citations from their organization" ON knowledge_citations
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM users viewer
+            JOIN users citer ON citer.organization_id = viewer.organization_id
+            WHERE viewer.id = auth.uid()
+            AND citer.id = knowledge_citations.cited_by
+        )
+    );
+
+-- ================================================
+-- 5. RETRIEVAL EXCLUDES SUPERSEDED VERSIONS
+-- ================================================
+
+DROP FUNCTION IF EXISTS search_similar_chunks(vector, TEXT, decimal, integer);
+
+CREATE OR REPLACE FUNCTION search_similar_chunks(
+  query_embedding vector(1536),
+  query_model TEXT,
+  similarity_threshold decimal DEFAULT 0.7,
+  max_results integer DEFAULT 10,
+  include_superseded boolean DEFAULT false
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  document_id UUID,
+  document_title TEXT,
+  chunk_content TEXT,
+  similarity_score DECIMAL,
+  metadata JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id AS chunk_id,
+    dc.document_id,
+    kd.title AS document_title,
+    dc.content AS chunk_content,
+    (1 - (de.embedding <=> query_embedding))::DECIMAL AS similarity_score,
+    dc.metadata
+  FROM document_chunks dc
+  JOIN document_embeddings de ON dc.id = de.chunk_id
+  JOIN knowledge_documents kd ON dc.document_id = kd.id
+  WHERE kd.is_active = true
+    AND kd.processing_status = 'completed'
+    AND de.embedding_model = query_model
+    AND (include_superseded OR kd.superseded_at IS NULL)
+    AND (1 - (de.embedding <=> query_embedding)) >= similarity_threshold
+  ORDER BY de.embedding <=> query_embedding
+  LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS search_chunks_fulltext(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_chunks_fulltext(
+    query_text TEXT,
+    max_results INTEGER DEFAULT 20,
+    include_superseded BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    document_title TEXT,
+    chunk_content TEXT,
+    text_rank REAL,
+    metadata JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        dc.id AS chunk_id,
+        dc.document_id,
+        kd.title AS document_title,
+        dc.content AS chunk_content,
+        ts_rank_cd(to_tsvector('english', dc.content), q.query) AS text_rank,
+        dc.metadata
+    FROM document_chunks dc
+    JOIN knowledge_documents kd ON dc.document_id = kd.id
+    CROSS JOIN websearch_to_tsquery('english', query_text) AS q(query)
+    WHERE kd.is_active = true
+      AND kd.processing_status = 'completed'
+      AND (include_superseded OR kd.superseded_at IS NULL)
+      AND to_tsvector('english', dc.content) @@ q.query
+    ORDER BY text_rank DESC
+    LIMIT max_results;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ================================================
+-- 6. SUPERSESSION
+-- ================================================
+
+-- Supersede the earlier versions in a document's family and flag everything
+-- that cites them. Returns the number of citations flagged.
+CREATE OR REPLACE FUNCTION supersede_knowledge_document(p_document_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_document knowledge_documents%ROWTYPE;
+    v_flagged INTEGER;
+BEGIN
+    SELECT * INTO v_document FROM knowledge_documents WHERE id = p_document_id;
+
+    IF NOT FOUND OR v_document.processing_status <> 'completed' THEN
+        RETURN 0;
+    END IF;
+
+    WITH superseded AS (
+        UPDATE knowledge_documents
+        SET superseded_at = NOW(),
+            superseded_by = p_document_id
+        WHERE document_family_id = v_document.document_family_id
+          AND id <> p_document_id
+          AND version < v_document.version
+          AND superseded_at IS NULL
+        RETURNING id, version
+    ),
+    flagged AS (
+        UPDATE knowledge_citations kc
+        SET needs_review = TRUE,
+            flagged_at = NOW(),
+            flag_reason = format('Cites version %s of "%s", replaced by version %s', s.version, v_document.title, v_document.version),
+            replacement_document_id = p_document_id,
+            reviewed_at = NULL,
+            reviewed_by = NULL
+        FROM superseded s
+        WHERE kc.document_id = s.id
+        RETURNING kc.id
+    )
+    SELECT COUNT(*) INTO v_flagged FROM flagged;
+
+    RETURN v_flagged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the ingestion pipeline supersedes documents
+REVOKE EXECUTE ON FUNCTION supersede_knowledge_document(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ================================================
+-- 7. COMMENTS AND DOCUMENTATION
+-- ================================================
+
+COMMENT ON COLUMN knowledge_documents.document_family_id IS 'Shared by every version of a document; the first version''s id';
+COMMENT ON COLUMN knowledge_documents.superseded_at IS 'When a newer version finished ingesting; superseded versions are excluded from retrieval by default';
+COMMENT ON TABLE knowledge_citations IS 'Knowledge chunks cited by answers and drafts, flagged for review when the cited document is superseded';
+COMMENT ON FUNCTION supersede_knowledge_document IS 'Supersede earlier versions of a newly ingested document and flag citations of them';
@@ -0,0 +1,196 @@
+-- ================================================
+-- ANSWER BANK VERSIONING MIGRATION
+-- ================================================
+-- Every edit to an answer bank entry is kept:
+-- 1. answer_bank_versions holds a snapshot of each version with its author
+--    and change note; answer_bank keeps the current text and version number
+-- 2. Edits and restores go through save_answer_version so the version bump
+--    and snapshot happen together
+-- 3. parent_id and forked_from_version record which template (and which
+--    version of it) an answer was forked from
+
+-- ================================================
+-- 1. LINEAGE
+-- ================================================
+
+ALTER TABLE answer_bank
+    ADD COLUMN IF NOT EXISTS forked_from_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_parent_id
+    ON answer_bank(parent_id)
+    WHERE parent_id IS NOT NULL;
+
+-- ================================================
+-- 2. ANSWER VERSIONS TABLE
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS answer_bank_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    answer_id UUID NOT NULL REFERENCES answer_bank(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    change_note TEXT NULL,
+    restored_from_version INTEGER NULL,
+    created_by UUID NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT answer_bank_versions_unique UNIQUE (answer_id, version),
+    CONSTRAINT answer_bank_versions_change_note_length CHECK (change_note IS NULL OR LENGTH(change_note) <= 500)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_versions_answer
+    ON answer_bank_versions(answer_id, version DESC);
+
+-- Existing answers start their history at their current version
+INSERT INTO answer_bank_versions (answer_id, version, title, content, tags, change_note, created_by, created_at)
+SELECT
+    id,
+    COALESCE(version, 1),
+    title,
+    content,
+    COALESCE(tags, '{}'),
+    'Initial version',
+    COALESCE(updated_by, created_by),
+    COALESCE(updated_at, created_at, NOW())
+FROM answer_bank
+ON CONFLICT (answer_id, version) DO NOTHING;
+
+-- ================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+ALTER TABLE answer_bank_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are visible wherever the answer is
+CREATE POLICY "answer_bank_versions_select" ON answer_bank_versions
+    FOR SELECT TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM answer_bank ab
+            WHERE ab.id = answer_bank_versions.answer_id
+        )
+    );
+
+-- Versions are written by save_answer_version as the editing user
+CREATE POLICY "answer_bank_versions_insert" ON answer_bank_versions
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        created_by = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM answer_bank ab
+            WHERE ab.id = answer_bank_versions.answer_id
+              AND ab.organization_id::text = auth.jwt() ->> 'organization_id'
+        )
+    );
+
+GRANT SELECT, INSERT ON answer_bank_versions TO authenticated;
+
+-- ================================================
+-- 4. FIRST VERSION ON INSERT
+-- ================================================
+
+CREATE OR REPLACE FUNCTION create_initial_answer_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO answer_bank_versions (answer_id, version, title, content, tags, change_note, created_by)
+    VALUES (
+        NEW.id,
+        NEW.version,
+        NEW.title,
+        NEW.content,
+        COALESCE(NEW.tags, '{}'),
+        CASE WHEN NEW.parent_id IS NOT NULL THEN 'Forked from template' ELSE 'Initial version' END,
+        NEW.created_by
+    )
+    ON CONFLICT (answer_id, version) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_initial_answer_version ON answer_bank;
+CREATE TRIGGER trigger_create_initial_answer_version
+    AFTER INSERT ON answer_bank
+    FOR EACH ROW EXECUTE FUNCTION create_initial_answer_version();
+
+-- ================================================
+-- 5. SAVING A VERSION
+-- ================================================
+
+-- Update an answer and snapshot the result as its next version. Runs as the
+-- caller, so answer_bank RLS decides who may edit. Returns NULL when nothing
+-- changed.
+CREATE OR REPLACE FUNCTION save_answer_version(
+    p_answer_id UUID,
+    p_title TEXT,
+    p_content TEXT,
+    p_tags TEXT[],
+    p_change_note TEXT,
+    p_restored_from_version INTEGER DEFAULT NULL
+)
+RETURNS answer_bank_versions AS $$
+DECLARE
+    v_answer answer_bank%ROWTYPE;
+    v_version answer_bank_versions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_answer
+    FROM answer_bank
+    WHERE id = p_answer_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Answer not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_answer.title = p_title
+        AND v_answer.content = p_content
+        AND COALESCE(v_answer.tags, '{}') = COALESCE(p_tags, '{}') THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE answer_bank
+    SET title = p_title,
+        content = p_content,
+        tags = COALESCE(p_tags, '{}'),
+        version = COALESCE(v_answer.version, 1) + 1,
+        updated_by = auth.uid()
+    WHERE id = p_answer_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'You can only edit answers you created'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    INSERT INTO answer_bank_versions (
+        answer_id, version, title, content, tags, change_note, restored_from_version, created_by
+    )
+    VALUES (
+        p_answer_id,
+        COALESCE(v_answer.version, 1) + 1,
+        p_title,
+        p_content,
+        COALESCE(p_tags, '{}'),
+        NULLIF(TRIM(COALESCE(p_change_note, '')), ''),
+        p_restored_from_version,
+        auth.uid()
+    )
+    RETURNING * INTO v_version;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION save_answer_version(UUID, TEXT, TEXT, TEXT[], TEXT, INTEGER) TO authenticated;
+
+-- ================================================
+-- 6. COMMENTS
+-- ================================================
+
+COMMENT ON TABLE answer_bank_versions IS 'Snapshot of every version of an answer bank entry';
+COMMENT ON COLUMN answer_bank_versions.restored_from_version IS 'Set when this version restored an earlier one';
+COMMENT ON COLUMN answer_bank.parent_id IS 'Template or answer this answer was forked from';
+COMMENT ON COLUMN answer_bank.forked_from_version IS 'Version of the parent when this answer was forked';
+COMMENT ON FUNCTION save_answer_version IS 'Edit an answer and record the result as its next version';
@@ -0,0 +1,272 @@
+-- ================================================
+-- ANSWER BANK EFFECTIVENESS MIGRATION
+-- ================================================
+-- Connects answer usage to tender outcomes:
+-- 1. Usage records say which tender workflow (and question) an answer went into
+-- 2. tender_questions.evaluator_score holds the score awarded per question
+-- 3. answer_bank_bid_usage and answer_bank_effectiveness report bids used in,
+--    win rate and average evaluator score per answer
+-- 4. popularity_score takes the win rate into account and is refreshed when a
+--    tender outcome is recorded
+
+-- ================================================
+-- 1. USAGE TO TENDER LINK
+-- ================================================
+
+ALTER TABLE answer_bank_usage_tracking
+    ADD COLUMN IF NOT EXISTS tender_workflow_id UUID REFERENCES tender_workflows(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS tender_question_id UUID REFERENCES tender_questions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_usage_tender_workflow
+    ON answer_bank_usage_tracking(tender_workflow_id, answer_id)
+    WHERE tender_workflow_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_usage_tender_question
+    ON answer_bank_usage_tracking(tender_question_id)
+    WHERE tender_question_id IS NOT NULL;
+
+-- ================================================
+-- 2. QUESTION SCORES
+-- ================================================
+
+ALTER TABLE tender_questions
+    ADD COLUMN IF NOT EXISTS evaluator_score DECIMAL(5,2)
+    CHECK (evaluator_score IS NULL OR (evaluator_score >= 0 AND evaluator_score <= 100));
+
+-- ================================================
+-- 3. RECORDING USAGE
+-- ================================================
+
+-- Replaced rather than overloaded so named-argument calls stay unambiguous
+DROP FUNCTION IF EXISTS increment_answer_usage(uuid, uuid, VARCHAR, uuid);
+
+CREATE OR REPLACE FUNCTION increment_answer_usage(
+    answer_id_param uuid,
+    user_id_param uuid,
+    context_param VARCHAR(100) DEFAULT 'general',
+    session_id_param uuid DEFAULT NULL,
+    tender_workflow_id_param uuid DEFAULT NULL,
+    tender_question_id_param uuid DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+    org_id uuid;
+    workflow_id uuid := tender_workflow_id_param;
+BEGIN
+    SELECT auth.jwt() ->> 'organization_id'::text INTO org_id;
+
+    -- A question implies its workflow
+    IF workflow_id IS NULL AND tender_question_id_param IS NOT NULL THEN
+        SELECT tender_workflow_id INTO workflow_id
+        FROM tender_questions
+        WHERE id = tender_question_id_param;
+    END IF;
+
+    -- Only link tenders that belong to the caller's organisation
+    IF workflow_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM tender_workflows tw
+        WHERE tw.id = workflow_id
+          AND tw.organization_id = org_id
+    ) THEN
+        RAISE EXCEPTION 'Tender workflow not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO answer_bank_usage_tracking (
+        answer_id,
+        user_id,
+        organization_id,
+        context,
+        session_id,
+        tender_workflow_id,
+        tender_question_id
+    ) VALUES (
+        answer_id_param,
+        user_id_param,
+        org_id,
+        context_param,
+        session_id_param,
+        workflow_id,
+        tender_question_id_param
+    );
+
+    UPDATE answer_bank
+    SET usage_count = usage_count + 1
+    WHERE id = answer_id_param;
+
+    PERFORM update_answer_popularity_score(answer_id_param);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION increment_answer_usage TO authenticated;
+
+-- ================================================
+-- 4. EFFECTIVENESS VIEWS
+-- ================================================
+
+-- One row per answer per bid it was used in, with the bid's latest outcome
+CREATE OR REPLACE VIEW answer_bank_bid_usage AS
+SELECT
+    b.answer_id,
+    b.organization_id,
+    b.tender_workflow_id,
+    b.first_used_at,
+    ta.outcome,
+    ta.final_score,
+    ta.submission_date,
+    COALESCE(qs.questions_answered, 0) AS questions_answered,
+    COALESCE(qs.scored_questions, 0) AS scored_questions,
+    qs.avg_evaluator_score
+FROM (
+    SELECT answer_id, organization_id, tender_workflow_id, MIN(used_at) AS first_used_at
+    FROM answer_bank_usage_tracking
+    WHERE tender_workflow_id IS NOT NULL
+    GROUP BY answer_id, organization_id, tender_workflow_id
+) b
+LEFT JOIN LATERAL (
+    SELECT outcome, final_score, submission_date
+    FROM tender_analytics
+    WHERE tender_workflow_id = b.tender_workflow_id
+    ORDER BY updated_at DESC
+    LIMIT 1
+) ta ON true
+LEFT JOIN LATERAL (
+    SELECT
+        COUNT(*) AS questions_answered,
+        COUNT(tq.evaluator_score) AS scored_questions,
+        AVG(tq.evaluator_score) AS avg_evaluator_score
+    FROM tender_questions tq
+    WHERE tq.id IN (
+        SELECT u.tender_question_id
+        FROM answer_bank_usage_tracking u
+        WHERE u.answer_id = b.answer_id
+          AND u.tender_workflow_id = b.tender_workflow_id
+    )
+) qs ON true
+WHERE b.organization_id::text = auth.jwt() ->> 'organization_id';
+
+-- Per-answer totals. Win rate only counts decided bids; the evaluator score is
+-- averaged over questions, not bids.
+CREATE OR REPLACE VIEW answer_bank_effectiveness AS
+SELECT
+    bu.answer_id,
+    ab.title,
+    ab.category_id,
+    COUNT(*) AS bids_used,
+    COUNT(*) FILTER (WHERE bu.outcome = 'won') AS bids_won,
+    COUNT(*) FILTER (WHERE bu.outcome = 'lost') AS bids_lost,
+    COUNT(*) FILTER (WHERE bu.outcome IS NULL OR bu.outcome = 'pending') AS bids_pending,
+    ROUND(
+        COUNT(*) FILTER (WHERE bu.outcome = 'won')::DECIMAL
+        / NULLIF(COUNT(*) FILTER (WHERE bu.outcome IN ('won', 'lost')), 0),
+        4
+    ) AS win_rate,
+    ROUND(
+        SUM(bu.avg_evaluator_score * bu.scored_questions) / NULLIF(SUM(bu.scored_questions), 0),
+        2
+    ) AS avg_evaluator_score,
+    ROUND(AVG(bu.final_score), 2) AS avg_final_score,
+    MAX(bu.first_used_at) AS last_used_in_bid_at
+FROM answer_bank_bid_usage bu
+JOIN answer_bank ab ON ab.id = bu.answer_id
+GROUP BY bu.answer_id, ab.title, ab.category_id;
+
+GRANT SELECT ON answer_bank_bid_usage TO authenticated;
+GRANT SELECT ON answer_bank_effectiveness TO authenticated;
+
+-- ================================================
+-- 5. POPULARITY SCORE
+-- ================================================
+
+-- Usage and ratings as before, blended with the win rate of decided bids. The
+-- win rate is smoothed towards 50% and its weight grows with the number of
+-- decided bids (up to 40%), so a single win does not dominate.
+CREATE OR REPLACE FUNCTION update_answer_popularity_score(answer_id_param uuid)
+RETURNS void AS $$
+DECLARE
+    usage_weight DECIMAL := 0.3;
+    rating_weight DECIMAL := 0.7;
+    max_win_weight DECIMAL := 0.4;
+    max_usage INTEGER;
+    avg_rating DECIMAL;
+    normalized_usage DECIMAL;
+    bids_won INTEGER;
+    bids_decided INTEGER;
+    win_weight DECIMAL := 0;
+    smoothed_win_rate DECIMAL := 0;
+    new_score DECIMAL;
+BEGIN
+    SELECT COALESCE(MAX(usage_count), 1) INTO max_usage FROM answer_bank;
+
+    SELECT COALESCE(AVG(rating::DECIMAL), 0) INTO avg_rating
+    FROM answer_bank_ratings WHERE answer_id = answer_id_param;
+
+    SELECT COALESCE(usage_count::DECIMAL / NULLIF(max_usage, 0), 0) INTO normalized_usage
+    FROM answer_bank WHERE id = answer_id_param;
+
+    SELECT
+        COUNT(*) FILTER (WHERE ta.outcome = 'won'),
+        COUNT(*) FILTER (WHERE ta.outcome IN ('won', 'lost'))
+    INTO bids_won, bids_decided
+    FROM (
+        SELECT DISTINCT tender_workflow_id
+        FROM answer_bank_usage_tracking
+        WHERE answer_id = answer_id_param
+          AND tender_workflow_id IS NOT NULL
+    ) b
+    JOIN LATERAL (
+        SELECT outcome
+        FROM tender_analytics
+        WHERE tender_workflow_id = b.tender_workflow_id
+        ORDER BY updated_at DESC
+        LIMIT 1
+    ) ta ON true;
+
+    IF bids_decided > 0 THEN
+        smoothed_win_rate := (bids_won + 1)::DECIMAL / (bids_decided + 2);
+        win_weight := max_win_weight * bids_decided / (bids_decided + 2);
+    END IF;
+
+    new_score := (
+        (1 - win_weight) * (COALESCE(normalized_usage, 0) * usage_weight + (avg_rating / 5.0) * rating_weight)
+        + win_weight * smoothed_win_rate
+    ) * 10.0;
+
+    UPDATE answer_bank
+    SET popularity_score = LEAST(GREATEST(new_score, 0), 10)
+    WHERE id = answer_id_param;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recalculate every answer used in a bid once its outcome is known
+CREATE OR REPLACE FUNCTION refresh_answer_popularity_for_tender()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_answer_id uuid;
+BEGIN
+    FOR v_answer_id IN
+        SELECT DISTINCT answer_id
+        FROM answer_bank_usage_tracking
+        WHERE tender_workflow_id = NEW.tender_workflow_id
+    LOOP
+        PERFORM update_answer_popularity_score(v_answer_id);
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_refresh_answer_popularity_for_tender ON tender_analytics;
+CREATE TRIGGER trigger_refresh_answer_popularity_for_tender
+    AFTER INSERT OR UPDATE OF outcome ON tender_analytics
+    FOR EACH ROW EXECUTE FUNCTION refresh_answer_popularity_for_tender();
+
+-- ================================================
+-- 6. COMMENTS
+-- ================================================
+
+COMMENT ON COLUMN answer_bank_usage_tracking.tender_workflow_id IS 'Bid the answer was used in';
+COMMENT ON COLUMN answer_bank_usage_tracking.tender_question_id IS 'Tender question the answer was used for';
+COMMENT ON COLUMN tender_questions.evaluator_score IS 'Score awarded by the evaluator for this question (0-100)';
+COMMENT ON VIEW answer_bank_bid_usage IS 'Each bid an answer was used in, with its outcome and question scores';
+COMMENT ON VIEW answer_bank_effectiveness IS 'Bids used in, win rate and average evaluator score per answer';
@@ -0,0 +1,143 @@
+-- ================================================
+-- ANSWER BANK FRESHNESS MIGRATION
+-- ================================================
+-- Answers quote figures that go stale, so each one can have:
+-- 1. An owner responsible for keeping it current
+-- 2. A review interval; next_review_at is derived from the last review
+-- 3. An expiry date; the freshness job stamps expired_at and notifies the owner
+-- Owners may review and edit the answers they own.
+
+-- ================================================
+-- 1. FRESHNESS COLUMNS
+-- ================================================
+
+ALTER TABLE answer_bank
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS review_interval_days INTEGER
+        CHECK (review_interval_days IS NULL OR (review_interval_days >= 1 AND review_interval_days <= 1095)),
+    ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS next_review_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS review_notified_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing answers are owned by their author
+UPDATE answer_bank
+SET owner_id = created_by
+WHERE owner_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_owner_id
+    ON answer_bank(owner_id);
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_next_review_at
+    ON answer_bank(next_review_at)
+    WHERE next_review_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_expires_at
+    ON answer_bank(expires_at)
+    WHERE expires_at IS NOT NULL AND expired_at IS NULL;
+
+-- ================================================
+-- 2. REVIEW SCHEDULE
+-- ================================================
+
+-- Keep next_review_at in step with the interval and last review, re-arm the
+-- review reminder when the date moves, and lift an expiry that was extended
+CREATE OR REPLACE FUNCTION update_answer_bank_review_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.owner_id IS NULL AND TG_OP = 'INSERT' THEN
+        NEW.owner_id := NEW.created_by;
+    END IF;
+
+    IF NEW.review_interval_days IS NULL THEN
+        NEW.next_review_at := NULL;
+    ELSE
+        NEW.next_review_at := COALESCE(NEW.last_reviewed_at, NEW.created_at, NOW())
+            + make_interval(days => NEW.review_interval_days);
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND NEW.next_review_at IS DISTINCT FROM OLD.next_review_at THEN
+        NEW.review_notified_at := NULL;
+    END IF;
+
+    IF NEW.expired_at IS NOT NULL AND (NEW.expires_at IS NULL OR NEW.expires_at > NOW()) THEN
+        NEW.expired_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_answer_bank_review_schedule ON answer_bank;
+CREATE TRIGGER trigger_update_answer_bank_review_schedule
+    BEFORE INSERT OR UPDATE OF owner_id, review_interval_days, last_reviewed_at, expires_at, expired_at
+    ON answer_bank
+    FOR EACH ROW EXECUTE FUNCTION update_answer_bank_review_schedule();
+
+-- ================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+-- Owners can review and edit the answers they own
+CREATE POLICY "answer_bank_update_owner" ON answer_bank
+    FOR UPDATE TO authenticated
+    USING (
+        organization_id = auth.jwt() ->> 'organization_id'::text
+        AND owner_id = auth.uid()
+    )
+    WITH CHECK (
+        organization_id = auth.jwt() ->> 'organization_id'::text
+        AND updated_by = auth.uid()
+    );
+
+-- ================================================
+-- 4. ANSWER BANK VIEW
+-- ================================================
+
+-- Recreated so ab.* picks up the versioning and freshness columns
+-- security_invoker keeps answer_bank RLS in force for readers of the view;
+-- emails come from public users because auth.users is not readable by them
+DROP VIEW IF EXISTS answer_bank_with_stats;
+
+CREATE VIEW answer_bank_with_stats WITH (security_invoker = true) AS
+SELECT
+    ab.*,
+    abc.name AS category_name,
+    abc.color AS category_color,
+    abc.icon AS category_icon,
+    COALESCE(avg_ratings.avg_rating, 0) AS avg_rating,
+    COALESCE(avg_ratings.rating_count, 0) AS rating_count,
+    creator.email AS created_by_email,
+    creator_profile.first_name AS created_by_first_name,
+    creator_profile.last_name AS created_by_last_name,
+    updater.email AS updated_by_email,
+    owner.email AS owner_email
+FROM answer_bank ab
+LEFT JOIN answer_bank_categories abc ON ab.category_id = abc.id
+LEFT JOIN (
+    SELECT
+        answer_id,
+        AVG(rating::DECIMAL) AS avg_rating,
+        COUNT(*) AS rating_count
+    FROM answer_bank_ratings
+    GROUP BY answer_id
+) avg_ratings ON ab.id = avg_ratings.answer_id
+LEFT JOIN users creator ON ab.created_by = creator.id
+LEFT JOIN user_profiles creator_profile ON ab.created_by = creator_profile.user_id
+LEFT JOIN users updater ON ab.updated_by = updater.id
+LEFT JOIN users owner ON ab.owner_id = owner.id;
+
+GRANT SELECT ON answer_bank_with_stats TO authenticated;
+
+-- ================================================
+-- 5. COMMENTS
+-- ================================================
+
+COMMENT ON COLUMN answer_bank.owner_id IS 'User responsible for keeping this answer current';
+COMMENT ON COLUMN answer_bank.review_interval_days IS 'Days between reviews; NULL means no review cycle';
+COMMENT ON COLUMN answer_bank.next_review_at IS 'Derived from last_reviewed_at (or created_at) plus the review interval';
+COMMENT ON COLUMN answer_bank.review_notified_at IS 'When the owner was told the current review is due';
+COMMENT ON COLUMN answer_bank.expires_at IS 'Date after which the answer must not be used without review';
+COMMENT ON COLUMN answer_bank.expired_at IS 'When the freshness job marked the answer expired';
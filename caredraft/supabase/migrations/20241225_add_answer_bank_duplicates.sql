@@ -0,0 +1,313 @@
+-- ================================================
+-- ANSWER BANK DUPLICATES MIGRATION
+-- ================================================
+-- Writers keep adding their own variant of the same answer, so:
+-- 1. The duplicate detection job groups near-identical answers into
+--    clusters, scored by embedding and shingle similarity
+-- 2. merge_answer_bank_duplicates folds a cluster into a canonical answer:
+--    tags, usage and ratings move to it and the others are kept, linked to
+--    it through merged_into_id
+-- 3. answer_bank_duplicate_counts gives the open duplicates per category
+-- Merged answers stay in answer_bank but are left out of lists and search.
+
+-- ================================================
+-- 1. MERGED ANSWERS
+-- ================================================
+
+ALTER TABLE answer_bank
+    ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES answer_bank(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS merged_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_merged_into_id
+    ON answer_bank(merged_into_id)
+    WHERE merged_into_id IS NOT NULL;
+
+-- ================================================
+-- 2. DUPLICATE CLUSTERS
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS answer_bank_duplicate_clusters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    -- Sorted member ids, so a dismissed cluster is not raised again
+    member_key TEXT NOT NULL,
+    suggested_canonical_id UUID REFERENCES answer_bank(id) ON DELETE SET NULL,
+    max_similarity DECIMAL(4,3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open',
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+    CONSTRAINT answer_bank_duplicate_clusters_status CHECK (status IN ('open', 'merged', 'dismissed')),
+    CONSTRAINT answer_bank_duplicate_clusters_unique UNIQUE (organization_id, member_key)
+);
+
+CREATE TABLE IF NOT EXISTS answer_bank_duplicate_members (
+    cluster_id UUID NOT NULL REFERENCES answer_bank_duplicate_clusters(id) ON DELETE CASCADE,
+    answer_id UUID NOT NULL REFERENCES answer_bank(id) ON DELETE CASCADE,
+    -- Closest match within the cluster
+    embedding_similarity DECIMAL(4,3) NOT NULL,
+    shingle_similarity DECIMAL(4,3) NOT NULL,
+
+    PRIMARY KEY (cluster_id, answer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_duplicate_clusters_org_status
+    ON answer_bank_duplicate_clusters(organization_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_answer_bank_duplicate_members_answer
+    ON answer_bank_duplicate_members(answer_id);
+
+-- ================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- ================================================
+
+ALTER TABLE answer_bank_duplicate_clusters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE answer_bank_duplicate_members ENABLE ROW LEVEL SECURITY;
+
+-- Clusters are written by the detection job; members see and dismiss them
+CREATE POLICY "answer_bank_duplicate_clusters_select" ON answer_bank_duplicate_clusters
+    FOR SELECT TO authenticated
+    USING (organization_id::text = auth.jwt() ->> 'organization_id');
+
+CREATE POLICY "answer_bank_duplicate_clusters_dismiss" ON answer_bank_duplicate_clusters
+    FOR UPDATE TO authenticated
+    USING (organization_id::text = auth.jwt() ->> 'organization_id' AND status = 'open')
+    WITH CHECK (
+        organization_id::text = auth.jwt() ->> 'organization_id'
+        AND status = 'dismissed'
+        AND resolved_by = auth.uid()
+    );
+
+CREATE POLICY "answer_bank_duplicate_members_select" ON answer_bank_duplicate_members
+    FOR SELECT TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM answer_bank_duplicate_clusters c
+            WHERE c.id = answer_bank_duplicate_members.cluster_id
+        )
+    );
+
+GRANT SELECT, UPDATE ON answer_bank_duplicate_clusters TO authenticated;
+GRANT SELECT ON answer_bank_duplicate_members TO authenticated;
+
+-- ================================================
+-- 4. MERGING
+-- ================================================
+
+-- Fold duplicates into a canonical answer. Tags are combined, usage history
+-- and counts move across, and each rater keeps their latest rating. The
+-- canonical answer gets a new version recording the merge; the duplicates
+-- are kept and linked to it. Allowed for the canonical answer's author or
+-- owner, and for admins and managers.
+CREATE OR REPLACE FUNCTION merge_answer_bank_duplicates(
+    p_canonical_id UUID,
+    p_duplicate_ids UUID[],
+    p_cluster_id UUID DEFAULT NULL
+)
+RETURNS answer_bank AS $$
+DECLARE
+    org_id uuid;
+    v_canonical answer_bank%ROWTYPE;
+    v_duplicate_count INTEGER;
+    v_titles TEXT;
+BEGIN
+    SELECT auth.jwt() ->> 'organization_id'::text INTO org_id;
+
+    IF p_duplicate_ids IS NULL OR cardinality(p_duplicate_ids) = 0 OR p_canonical_id = ANY(p_duplicate_ids) THEN
+        RAISE EXCEPTION 'Choose at least one duplicate other than the canonical answer'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    SELECT * INTO v_canonical
+    FROM answer_bank
+    WHERE id = p_canonical_id
+      AND organization_id = org_id
+      AND merged_into_id IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Answer not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_canonical.created_by <> auth.uid()
+        AND v_canonical.owner_id IS DISTINCT FROM auth.uid()
+        AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role IN ('admin', 'manager')) THEN
+        RAISE EXCEPTION 'Only the author, owner or a manager can merge into this answer'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT COUNT(*) INTO v_duplicate_count
+    FROM (
+        SELECT id
+        FROM answer_bank
+        WHERE id = ANY(p_duplicate_ids)
+          AND organization_id = org_id
+          AND merged_into_id IS NULL
+        FOR UPDATE
+    ) locked;
+
+    IF v_duplicate_count <> cardinality(p_duplicate_ids) THEN
+        RAISE EXCEPTION 'Some duplicates were not found or are already merged'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT string_agg(title, '; ' ORDER BY title) INTO v_titles
+    FROM answer_bank
+    WHERE id = ANY(p_duplicate_ids);
+
+    -- Ratings: the canonical answer's own rating wins, otherwise the rater's latest
+    DELETE FROM answer_bank_ratings r
+    WHERE r.answer_id = ANY(p_duplicate_ids)
+      AND (
+          EXISTS (
+              SELECT 1 FROM answer_bank_ratings own
+              WHERE own.answer_id = p_canonical_id AND own.user_id = r.user_id
+          )
+          OR EXISTS (
+              SELECT 1 FROM answer_bank_ratings newer
+              WHERE newer.answer_id = ANY(p_duplicate_ids)
+                AND newer.user_id = r.user_id
+                AND (newer.updated_at, newer.id) > (r.updated_at, r.id)
+          )
+      );
+
+    UPDATE answer_bank_ratings
+    SET answer_id = p_canonical_id
+    WHERE answer_id = ANY(p_duplicate_ids);
+
+    UPDATE answer_bank_usage_tracking
+    SET answer_id = p_canonical_id
+    WHERE answer_id = ANY(p_duplicate_ids);
+
+    UPDATE answer_bank
+    SET tags = ARRAY(
+            SELECT DISTINCT tag
+            FROM answer_bank ab, unnest(COALESCE(ab.tags, '{}')) AS tag
+            WHERE ab.id = p_canonical_id OR ab.id = ANY(p_duplicate_ids)
+            ORDER BY tag
+        ),
+        usage_count = COALESCE(usage_count, 0) + (
+            SELECT COALESCE(SUM(usage_count), 0) FROM answer_bank WHERE id = ANY(p_duplicate_ids)
+        ),
+        version = COALESCE(version, 1) + 1,
+        updated_by = auth.uid()
+    WHERE id = p_canonical_id
+    RETURNING * INTO v_canonical;
+
+    INSERT INTO answer_bank_versions (answer_id, version, title, content, tags, change_note, created_by)
+    VALUES (
+        p_canonical_id,
+        v_canonical.version,
+        v_canonical.title,
+        v_canonical.content,
+        COALESCE(v_canonical.tags, '{}'),
+        LEFT(format('Merged %s duplicate%s: %s', v_duplicate_count, CASE WHEN v_duplicate_count = 1 THEN '' ELSE 's' END, v_titles), 500),
+        auth.uid()
+    );
+
+    UPDATE answer_bank
+    SET merged_into_id = p_canonical_id,
+        merged_at = NOW(),
+        merged_by = auth.uid(),
+        usage_count = 0
+    WHERE id = ANY(p_duplicate_ids);
+
+    -- Answers merged elsewhere may have been members of other open clusters
+    UPDATE answer_bank_duplicate_clusters
+    SET status = 'merged',
+        resolved_at = NOW(),
+        resolved_by = auth.uid()
+    WHERE organization_id = org_id
+      AND status = 'open'
+      AND (
+          id = p_cluster_id
+          OR (
+              SELECT COUNT(*)
+              FROM answer_bank_duplicate_members m
+              JOIN answer_bank ab ON ab.id = m.answer_id
+              WHERE m.cluster_id = answer_bank_duplicate_clusters.id
+                AND ab.merged_into_id IS NULL
+          ) < 2
+      );
+
+    PERFORM update_answer_popularity_score(p_canonical_id);
+
+    SELECT * INTO v_canonical FROM answer_bank WHERE id = p_canonical_id;
+    RETURN v_canonical;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION merge_answer_bank_duplicates(UUID, UUID[], UUID) TO authenticated;
+
+-- ================================================
+-- 5. DUPLICATE COUNTS
+-- ================================================
+
+-- Answers in open clusters per category; category_id is NULL for uncategorised
+CREATE OR REPLACE VIEW answer_bank_duplicate_counts AS
+SELECT
+    ab.organization_id,
+    ab.category_id,
+    COUNT(DISTINCT m.answer_id) AS duplicate_answers,
+    COUNT(DISTINCT c.id) AS clusters
+FROM answer_bank_duplicate_clusters c
+JOIN answer_bank_duplicate_members m ON m.cluster_id = c.id
+JOIN answer_bank ab ON ab.id = m.answer_id
+WHERE c.status = 'open'
+  AND ab.merged_into_id IS NULL
+  AND c.organization_id::text = auth.jwt() ->> 'organization_id'
+GROUP BY ab.organization_id, ab.category_id;
+
+GRANT SELECT ON answer_bank_duplicate_counts TO authenticated;
+
+-- ================================================
+-- 6. ANSWER BANK VIEW
+-- ================================================
+
+-- Recreated so ab.* picks up merged_into_id
+-- security_invoker keeps answer_bank RLS in force for readers of the view;
+-- emails come from public users because auth.users is not readable by them
+DROP VIEW IF EXISTS answer_bank_with_stats;
+
+CREATE VIEW answer_bank_with_stats WITH (security_invoker = true) AS
+SELECT
+    ab.*,
+    abc.name AS category_name,
+    abc.color AS category_color,
+    abc.icon AS category_icon,
+    COALESCE(avg_ratings.avg_rating, 0) AS avg_rating,
+    COALESCE(avg_ratings.rating_count, 0) AS rating_count,
+    creator.email AS created_by_email,
+    creator_profile.first_name AS created_by_first_name,
+    creator_profile.last_name AS created_by_last_name,
+    updater.email AS updated_by_email,
+    owner.email AS owner_email
+FROM answer_bank ab
+LEFT JOIN answer_bank_categories abc ON ab.category_id = abc.id
+LEFT JOIN (
+    SELECT
+        answer_id,
+        AVG(rating::DECIMAL) AS avg_rating,
+        COUNT(*) AS rating_count
+    FROM answer_bank_ratings
+    GROUP BY answer_id
+) avg_ratings ON ab.id = avg_ratings.answer_id
+LEFT JOIN users creator ON ab.created_by = creator.id
+LEFT JOIN user_profiles creator_profile ON ab.created_by = creator_profile.user_id
+LEFT JOIN users updater ON ab.updated_by = updater.id
+LEFT JOIN users owner ON ab.owner_id = owner.id;
+
+GRANT SELECT ON answer_bank_with_stats TO authenticated;
+
+-- ================================================
+-- 7. COMMENTS
+-- ================================================
+
+COMMENT ON TABLE answer_bank_duplicate_clusters IS 'Groups of near-identical answers found by the duplicate detection job';
+COMMENT ON COLUMN answer_bank_duplicate_clusters.member_key IS 'Sorted member answer ids joined with commas';
+COMMENT ON COLUMN answer_bank_duplicate_clusters.suggested_canonical_id IS 'Most used member, offered as the answer to keep';
+COMMENT ON COLUMN answer_bank.merged_into_id IS 'Canonical answer this duplicate was merged into; merged answers are hidden from the bank';
+COMMENT ON FUNCTION merge_answer_bank_duplicates IS 'Merge duplicate answers into a canonical answer, combining tags, usage and ratings';
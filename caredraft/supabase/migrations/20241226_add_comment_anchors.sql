@@ -0,0 +1,142 @@
+-- ================================================
+-- COMMENT ANCHORS MIGRATION
+-- ================================================
+-- Comments are anchored to a character range of the section's text, so:
+-- 1. Each comment keeps the text it was anchored to and whether that text
+--    has since been deleted (orphaned)
+-- 2. remap_comment_anchors moves the anchors of every comment on a section
+--    after its content is saved; the new ranges are worked out by the client
+--    from a diff of the old and new text
+-- 3. set_comment_resolution lets anyone who can see a thread resolve it,
+--    where editing and deleting stay with the author
+-- updated_at now only moves when the comment text is edited.
+
+-- ================================================
+-- 1. ANCHORS AND RESOLUTION
+-- ================================================
+
+ALTER TABLE comments
+    ADD COLUMN IF NOT EXISTS anchor_text TEXT,
+    ADD COLUMN IF NOT EXISTS is_orphaned BOOLEAN NOT NULL DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS orphaned_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_comments_anchored
+    ON comments(section_id)
+    WHERE parent_comment_id IS NULL AND text_range_start IS NOT NULL AND NOT is_orphaned;
+
+-- Moving an anchor or resolving a thread is not an edit
+CREATE OR REPLACE FUNCTION update_comments_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        NEW.updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_comments_updated_at ON comments;
+CREATE TRIGGER update_comments_updated_at
+    BEFORE UPDATE ON comments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_comments_updated_at_column();
+
+-- ================================================
+-- 2. REMAP ANCHORS
+-- ================================================
+
+-- p_anchors: [{ "id", "start", "end", "anchor_text", "orphaned" }]
+CREATE OR REPLACE FUNCTION remap_comment_anchors(
+    p_section_id UUID,
+    p_anchors JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    -- Only whoever can save the section's content can move its anchors
+    IF NOT EXISTS (SELECT 1 FROM sections WHERE id = p_section_id AND owner_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the section owner can move its comment anchors'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE comments c
+    SET text_range_start = CASE WHEN (a.value ->> 'orphaned')::boolean THEN c.text_range_start ELSE (a.value ->> 'start')::integer END,
+        text_range_end = CASE WHEN (a.value ->> 'orphaned')::boolean THEN c.text_range_end ELSE (a.value ->> 'end')::integer END,
+        anchor_text = CASE WHEN (a.value ->> 'orphaned')::boolean THEN c.anchor_text ELSE a.value ->> 'anchor_text' END,
+        is_orphaned = (a.value ->> 'orphaned')::boolean,
+        orphaned_at = CASE
+            WHEN NOT (a.value ->> 'orphaned')::boolean THEN NULL
+            ELSE COALESCE(c.orphaned_at, NOW())
+        END
+    FROM jsonb_array_elements(p_anchors) a
+    WHERE c.id = (a.value ->> 'id')::uuid
+      AND c.section_id = p_section_id
+      AND c.parent_comment_id IS NULL
+      AND NOT c.is_orphaned;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION remap_comment_anchors(UUID, JSONB) TO authenticated;
+
+-- ================================================
+-- 3. RESOLVE THREADS
+-- ================================================
+
+CREATE OR REPLACE FUNCTION set_comment_resolution(
+    p_comment_id UUID,
+    p_resolved BOOLEAN
+)
+RETURNS comments AS $$
+DECLARE
+    v_comment comments%ROWTYPE;
+BEGIN
+    SELECT * INTO v_comment
+    FROM comments
+    WHERE id = p_comment_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Comment not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_comment.parent_comment_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Only a whole thread can be resolved'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- Matches who can view comments on a section: anyone signed in
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to resolve comments'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE comments
+    SET is_resolved = p_resolved,
+        resolved_by = CASE WHEN p_resolved THEN auth.uid() END,
+        resolved_at = CASE WHEN p_resolved THEN NOW() END
+    WHERE id = p_comment_id
+    RETURNING * INTO v_comment;
+
+    RETURN v_comment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION set_comment_resolution(UUID, BOOLEAN) TO authenticated;
+
+-- ================================================
+-- 4. COMMENTS
+-- ================================================
+
+COMMENT ON COLUMN comments.text_range_start IS 'Start of the anchor in the section text (HTML tags stripped), inclusive';
+COMMENT ON COLUMN comments.text_range_end IS 'End of the anchor in the section text (HTML tags stripped), exclusive';
+COMMENT ON COLUMN comments.anchor_text IS 'Section text the comment is anchored to, kept after the text is deleted';
+COMMENT ON COLUMN comments.is_orphaned IS 'The anchored text has been deleted from the section';
+COMMENT ON FUNCTION remap_comment_anchors IS 'Move comment anchors after a section edit, marking comments whose text was deleted as orphaned';
+COMMENT ON FUNCTION set_comment_resolution IS 'Resolve or reopen a comment thread';
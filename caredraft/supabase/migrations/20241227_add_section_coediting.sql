@@ -0,0 +1,194 @@
+-- ================================================
+-- SECTION CO-EDITING MIGRATION
+-- ================================================
+-- Several writers can edit a section at once. The section text is a CRDT
+-- (lib/utils/text-crdt.ts) whose edits are operations on character ids, so:
+-- 1. section_edit_ops is the log of edit operations; clients append to it and
+--    receive each other's edits through realtime
+-- 2. section_documents holds the latest CRDT snapshot of each section, saved
+--    with the section content by save_section_document, which also trims
+--    the log up to the snapshot
+-- 3. A section can be co-edited by its owner and by members of the
+--    organisation whose tender it belongs to; any co-editor can move its
+--    comment anchors
+
+-- ================================================
+-- 1. TABLES
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS section_edit_ops (
+    id BIGSERIAL PRIMARY KEY,
+    section_id UUID NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Editing session the operations came from
+    client_id TEXT NOT NULL,
+    ops JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_section_edit_ops_section ON section_edit_ops(section_id, id);
+
+CREATE TABLE IF NOT EXISTS section_documents (
+    section_id UUID PRIMARY KEY REFERENCES sections(id) ON DELETE CASCADE,
+    state JSONB NOT NULL,
+    -- Last logged operation included in the snapshot
+    last_op_id BIGINT NOT NULL DEFAULT 0,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ================================================
+-- 2. ROW LEVEL SECURITY
+-- ================================================
+
+ALTER TABLE section_edit_ops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE section_documents ENABLE ROW LEVEL SECURITY;
+
+-- save_section_document and remap_comment_anchors run as definer and rely on
+-- this check alone
+CREATE OR REPLACE FUNCTION can_coedit_section(p_section_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM sections s
+        LEFT JOIN tender_workflows tw ON tw.id = s.project_id
+        LEFT JOIN users u ON u.id = auth.uid()
+        WHERE s.id = p_section_id
+          AND auth.uid() IS NOT NULL
+          AND (s.owner_id = auth.uid() OR tw.organization_id = u.organization_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION can_coedit_section(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION can_coedit_section(UUID) TO authenticated;
+
+CREATE POLICY "Co-editors can view section edits" ON section_edit_ops
+    FOR SELECT USING (can_coedit_section(section_id));
+
+CREATE POLICY "Co-editors can add their own section edits" ON section_edit_ops
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND can_coedit_section(section_id));
+
+-- Snapshots are written through save_section_document only
+CREATE POLICY "Co-editors can view section documents" ON section_documents
+    FOR SELECT USING (can_coedit_section(section_id));
+
+-- ================================================
+-- 3. SAVE SNAPSHOTS
+-- ================================================
+
+-- Returns { saved, previous_content }; saved is false when a newer snapshot
+-- has already been saved
+CREATE OR REPLACE FUNCTION save_section_document(
+    p_section_id UUID,
+    p_state JSONB,
+    p_content TEXT,
+    p_last_op_id BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_saved_op_id BIGINT;
+    v_previous_content TEXT;
+BEGIN
+    IF NOT can_coedit_section(p_section_id) THEN
+        RAISE EXCEPTION 'Section not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Saves of one section run one at a time
+    SELECT content INTO v_previous_content
+    FROM sections
+    WHERE id = p_section_id
+    FOR UPDATE;
+
+    SELECT last_op_id INTO v_saved_op_id
+    FROM section_documents
+    WHERE section_id = p_section_id
+    FOR UPDATE;
+
+    IF v_saved_op_id > p_last_op_id THEN
+        RETURN jsonb_build_object('saved', FALSE, 'previous_content', v_previous_content);
+    END IF;
+
+    INSERT INTO section_documents (section_id, state, last_op_id, updated_by, updated_at)
+    VALUES (p_section_id, p_state, p_last_op_id, auth.uid(), NOW())
+    ON CONFLICT (section_id) DO UPDATE
+    SET state = EXCLUDED.state,
+        last_op_id = EXCLUDED.last_op_id,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = EXCLUDED.updated_at;
+
+    UPDATE sections
+    SET content = p_content
+    WHERE id = p_section_id
+      AND content IS DISTINCT FROM p_content;
+
+    -- Operations are replayed on load, so a few left over do no harm; only
+    -- old ones are trimmed, in case an earlier id committed late
+    DELETE FROM section_edit_ops
+    WHERE section_id = p_section_id
+      AND id <= p_last_op_id
+      AND created_at < NOW() - INTERVAL '5 minutes';
+
+    RETURN jsonb_build_object('saved', TRUE, 'previous_content', v_previous_content);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION save_section_document(UUID, JSONB, TEXT, BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_section_document(UUID, JSONB, TEXT, BIGINT) TO authenticated;
+
+-- ================================================
+-- 4. COMMENT ANCHORS
+-- ================================================
+
+-- Content is now saved by any co-editor, so any co-editor moves the anchors
+CREATE OR REPLACE FUNCTION remap_comment_anchors(
+    p_section_id UUID,
+    p_anchors JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    IF NOT can_coedit_section(p_section_id) THEN
+        RAISE EXCEPTION 'Only co-editors of the section can move its comment anchors'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE comments c
+    SET text_range_start = CASE WHEN (a.value ->> 'orphaned')::boolean THEN c.text_range_start ELSE (a.value ->> 'start')::integer END,
+        text_range_end = CASE WHEN (a.value ->> 'orphaned')::boolean THEN c.text_range_end ELSE (a.value ->> 'end')::integer END,
+        anchor_text = CASE WHEN (a.value ->> 'orphaned')::boolean THEN c.anchor_text ELSE a.value ->> 'anchor_text' END,
+        is_orphaned = (a.value ->> 'orphaned')::boolean,
+        orphaned_at = CASE
+            WHEN NOT (a.value ->> 'orphaned')::boolean THEN NULL
+            ELSE COALESCE(c.orphaned_at, NOW())
+        END
+    FROM jsonb_array_elements(p_anchors) a
+    WHERE c.id = (a.value ->> 'id')::uuid
+      AND c.section_id = p_section_id
+      AND c.parent_comment_id IS NULL
+      AND NOT c.is_orphaned;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION remap_comment_anchors(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION remap_comment_anchors(UUID, JSONB) TO authenticated;
+
+-- ================================================
+-- 5. REALTIME
+-- ================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE section_edit_ops;
+
+-- ================================================
+-- 6. COMMENTS
+-- ================================================
+
+COMMENT ON TABLE section_edit_ops IS 'Log of CRDT edit operations on section content, trimmed as snapshots are saved';
+COMMENT ON TABLE section_documents IS 'Latest CRDT snapshot of each co-edited section';
+COMMENT ON COLUMN section_documents.last_op_id IS 'Last logged operation included in the snapshot';
+COMMENT ON FUNCTION can_coedit_section IS 'Whether the current user can co-edit the section';
+COMMENT ON FUNCTION save_section_document IS 'Save a CRDT snapshot and the section content it reads as, unless a newer one is saved';
@@ -0,0 +1,147 @@
+-- ================================================
+-- SECTION VERSION HISTORY MIGRATION
+-- ================================================
+-- Every autosave and manual save of a section is kept in versions:
+-- 1. versions records how each version came about, the section's word limit
+--    at the time, and an optional milestone name ("Sent for red review")
+-- 2. Saves go through save_section_version, which skips a save that changes
+--    nothing and numbers saves of one section one at a time
+-- 3. Restoring a version first keeps the current text as a version, then
+--    saves the restored text as a new one, so nothing is lost
+-- 4. Milestones are named through name_section_version; the snapshots
+--    themselves are never edited
+
+-- ================================================
+-- 1. VERSION DETAILS
+-- ================================================
+
+ALTER TABLE versions
+    ADD COLUMN IF NOT EXISTS save_kind TEXT NOT NULL DEFAULT 'autosave',
+    ADD COLUMN IF NOT EXISTS milestone_name TEXT,
+    ADD COLUMN IF NOT EXISTS restored_from_version INTEGER,
+    ADD COLUMN IF NOT EXISTS word_count_limit INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE versions
+    ADD CONSTRAINT versions_save_kind_check CHECK (save_kind IN ('autosave', 'manual', 'restore')),
+    ADD CONSTRAINT versions_milestone_name_length CHECK (milestone_name IS NULL OR LENGTH(milestone_name) BETWEEN 1 AND 100);
+
+CREATE INDEX IF NOT EXISTS idx_versions_milestones
+    ON versions(section_id, version_number DESC)
+    WHERE milestone_name IS NOT NULL;
+
+-- ================================================
+-- 2. SAVING A VERSION
+-- ================================================
+
+-- Snapshot a section's content as its next version. Returns the latest
+-- version instead when the content hasn't changed since, naming it if a
+-- milestone name is given. Runs as the caller, so versions RLS decides who
+-- may save.
+CREATE OR REPLACE FUNCTION save_section_version(
+    p_section_id UUID,
+    p_content TEXT,
+    p_word_count INTEGER,
+    p_change_summary TEXT DEFAULT NULL,
+    p_save_kind TEXT DEFAULT 'autosave',
+    p_milestone_name TEXT DEFAULT NULL,
+    p_restored_from_version INTEGER DEFAULT NULL
+)
+RETURNS versions AS $$
+DECLARE
+    v_word_count_limit INTEGER;
+    v_latest versions%ROWTYPE;
+    v_version versions%ROWTYPE;
+BEGIN
+    SELECT COALESCE(word_count_limit, 0) INTO v_word_count_limit
+    FROM sections
+    WHERE id = p_section_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Section not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- Co-editors autosave the same section; number their saves one at a time
+    PERFORM pg_advisory_xact_lock(hashtext('section_versions:' || p_section_id::text));
+
+    SELECT * INTO v_latest
+    FROM versions
+    WHERE section_id = p_section_id
+    ORDER BY version_number DESC
+    LIMIT 1;
+
+    IF FOUND AND v_latest.content_snapshot = p_content AND p_save_kind <> 'restore' THEN
+        IF NULLIF(TRIM(COALESCE(p_milestone_name, '')), '') IS NOT NULL THEN
+            RETURN name_section_version(v_latest.id, p_milestone_name);
+        END IF;
+        RETURN v_latest;
+    END IF;
+
+    INSERT INTO versions (
+        section_id, user_id, content_snapshot, version_number, change_summary, word_count,
+        save_kind, milestone_name, restored_from_version, word_count_limit
+    )
+    VALUES (
+        p_section_id,
+        auth.uid(),
+        p_content,
+        0, -- numbered by auto_increment_version_number
+        NULLIF(TRIM(COALESCE(p_change_summary, '')), ''),
+        COALESCE(p_word_count, 0),
+        p_save_kind,
+        NULLIF(TRIM(COALESCE(p_milestone_name, '')), ''),
+        p_restored_from_version,
+        v_word_count_limit
+    )
+    RETURNING * INTO v_version;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION save_section_version(UUID, TEXT, INTEGER, TEXT, TEXT, TEXT, INTEGER) TO authenticated;
+
+-- ================================================
+-- 3. MILESTONES
+-- ================================================
+
+-- Name or rename a version as a milestone; an empty name clears it
+CREATE OR REPLACE FUNCTION name_section_version(
+    p_version_id UUID,
+    p_milestone_name TEXT
+)
+RETURNS versions AS $$
+DECLARE
+    v_version versions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_version
+    FROM versions
+    WHERE id = p_version_id;
+
+    IF NOT FOUND OR NOT can_coedit_section(v_version.section_id) THEN
+        RAISE EXCEPTION 'Version not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    UPDATE versions
+    SET milestone_name = NULLIF(TRIM(COALESCE(p_milestone_name, '')), '')
+    WHERE id = p_version_id
+    RETURNING * INTO v_version;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION name_section_version(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION name_section_version(UUID, TEXT) TO authenticated;
+
+-- ================================================
+-- 4. COMMENTS
+-- ================================================
+
+COMMENT ON COLUMN versions.save_kind IS 'autosave, manual, or restore when the version restored an earlier one';
+COMMENT ON COLUMN versions.milestone_name IS 'Name of a milestone such as "Submitted", if the version is one';
+COMMENT ON COLUMN versions.restored_from_version IS 'Set when this version restored an earlier one';
+COMMENT ON COLUMN versions.word_count_limit IS 'Section word limit when the version was saved; 0 means no limit';
+COMMENT ON FUNCTION save_section_version IS 'Snapshot section content as its next version, unless nothing changed';
+COMMENT ON FUNCTION name_section_version IS 'Name, rename or clear the milestone name of a section version';
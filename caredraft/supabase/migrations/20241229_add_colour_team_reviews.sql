@@ -0,0 +1,272 @@
+-- ================================================
+-- COLOUR-TEAM REVIEWS MIGRATION
+-- ================================================
+-- Bid teams run structured reviews (pink, red, gold...) of a tender's
+-- responses before submission:
+-- 1. tender_review_stages holds the review stages configured for a tender,
+--    in the order they run
+-- 2. tender_review_assignments says who reviews in each stage and when they
+--    submitted their scorecard
+-- 3. tender_review_scores holds each reviewer's score for each tender question
+--    on the commissioner's scale, with strengths and weaknesses
+-- 4. tender_workflows.scoring_scale_max is that scale: 0-5 or 0-10
+-- 5. submit_review_scorecard is how a reviewer submits their scorecard
+-- 6. record_evaluator_scores writes the commissioner's scores for a tender's
+--    questions in one transaction
+-- Tender owners, managers and admins set up stages and reviewers; assigned
+-- reviewers score while a stage is open.
+
+-- ================================================
+-- 1. SCORING SCALE
+-- ================================================
+
+ALTER TABLE tender_workflows
+    ADD COLUMN IF NOT EXISTS scoring_scale_max SMALLINT NOT NULL DEFAULT 5;
+
+ALTER TABLE tender_workflows
+    ADD CONSTRAINT tender_workflows_scoring_scale_check CHECK (scoring_scale_max IN (5, 10));
+
+-- ================================================
+-- 2. TABLES
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS tender_review_stages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tender_workflow_id UUID NOT NULL REFERENCES tender_workflows(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    colour TEXT NOT NULL CHECK (colour IN ('blue', 'black', 'pink', 'red', 'green', 'gold', 'white')),
+    stage_order INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'open', 'closed')),
+    due_date TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(tender_workflow_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS tender_review_assignments (
+    stage_id UUID NOT NULL REFERENCES tender_review_stages(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    assigned_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Set when the reviewer has scored everything they mean to
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (stage_id, reviewer_id)
+);
+
+CREATE TABLE IF NOT EXISTS tender_review_scores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    stage_id UUID NOT NULL REFERENCES tender_review_stages(id) ON DELETE CASCADE,
+    question_id UUID NOT NULL REFERENCES tender_questions(id) ON DELETE CASCADE,
+    reviewer_id UUID NOT NULL DEFAULT auth.uid() REFERENCES users(id) ON DELETE CASCADE,
+    -- On the tender's scale; checked against it by check_review_score_scale
+    score DECIMAL(4,1) NOT NULL CHECK (score >= 0 AND score <= 10),
+    strengths TEXT[] NOT NULL DEFAULT '{}',
+    weaknesses TEXT[] NOT NULL DEFAULT '{}',
+    comments TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(stage_id, question_id, reviewer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tender_review_stages_tender
+    ON tender_review_stages(tender_workflow_id, stage_order);
+CREATE INDEX IF NOT EXISTS idx_tender_review_assignments_reviewer
+    ON tender_review_assignments(reviewer_id);
+CREATE INDEX IF NOT EXISTS idx_tender_review_scores_stage
+    ON tender_review_scores(stage_id, question_id);
+
+CREATE TRIGGER update_tender_review_stages_updated_at
+    BEFORE UPDATE ON tender_review_stages
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_tender_review_scores_updated_at
+    BEFORE UPDATE ON tender_review_scores
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A score above the tender's scale, or for a question from another tender,
+-- is refused
+CREATE OR REPLACE FUNCTION check_review_score_scale()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_scale_max SMALLINT;
+BEGIN
+    SELECT tw.scoring_scale_max INTO v_scale_max
+    FROM tender_review_stages s
+    JOIN tender_workflows tw ON tw.id = s.tender_workflow_id
+    JOIN tender_questions tq ON tq.tender_workflow_id = tw.id AND tq.id = NEW.question_id
+    WHERE s.id = NEW.stage_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Question is not part of this tender'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NEW.score > v_scale_max THEN
+        RAISE EXCEPTION 'Score % is above the tender''s scale of 0-%', NEW.score, v_scale_max
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_tender_review_score_scale
+    BEFORE INSERT OR UPDATE ON tender_review_scores
+    FOR EACH ROW EXECUTE FUNCTION check_review_score_scale();
+
+-- ================================================
+-- 3. ROW LEVEL SECURITY
+-- ================================================
+
+ALTER TABLE tender_review_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tender_review_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tender_review_scores ENABLE ROW LEVEL SECURITY;
+
+-- Tender owners, managers and admins run a tender's reviews
+CREATE OR REPLACE FUNCTION can_manage_tender_reviews(p_tender_workflow_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM tender_workflows tw
+        WHERE tw.id = p_tender_workflow_id
+          AND tw.organization_id = get_user_organization_id()
+          AND (tw.owner_id = auth.uid() OR is_user_manager_or_admin())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION can_view_review_stage(p_stage_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM tender_review_stages s
+        JOIN tender_workflows tw ON tw.id = s.tender_workflow_id
+        WHERE s.id = p_stage_id
+          AND tw.organization_id = get_user_organization_id()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Assigned reviewers score while the stage is open
+CREATE OR REPLACE FUNCTION can_score_review_stage(p_stage_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM tender_review_stages s
+        JOIN tender_review_assignments a ON a.stage_id = s.id
+        WHERE s.id = p_stage_id
+          AND s.status = 'open'
+          AND a.reviewer_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE POLICY "Organisation members can view review stages" ON tender_review_stages
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM tender_workflows tw
+            WHERE tw.id = tender_review_stages.tender_workflow_id
+              AND tw.organization_id = get_user_organization_id()
+        )
+    );
+
+CREATE POLICY "Review managers can manage review stages" ON tender_review_stages
+    FOR ALL USING (can_manage_tender_reviews(tender_workflow_id))
+    WITH CHECK (can_manage_tender_reviews(tender_workflow_id));
+
+CREATE POLICY "Organisation members can view review assignments" ON tender_review_assignments
+    FOR SELECT USING (can_view_review_stage(stage_id));
+
+-- Reviewers must come from the tender's organisation
+CREATE POLICY "Review managers can manage review assignments" ON tender_review_assignments
+    FOR ALL USING (
+        can_manage_tender_reviews((SELECT tender_workflow_id FROM tender_review_stages WHERE id = stage_id))
+    )
+    WITH CHECK (
+        can_manage_tender_reviews((SELECT tender_workflow_id FROM tender_review_stages WHERE id = stage_id)) AND
+        EXISTS (
+            SELECT 1
+            FROM tender_review_stages s
+            JOIN tender_workflows tw ON tw.id = s.tender_workflow_id
+            JOIN users reviewer ON reviewer.id = tender_review_assignments.reviewer_id
+            WHERE s.id = tender_review_assignments.stage_id
+              AND reviewer.organization_id = tw.organization_id
+        )
+    );
+
+-- Reviewers have no write access to their assignment; submit_review_scorecard
+-- sets submitted_at for them
+
+CREATE POLICY "Organisation members can view review scores" ON tender_review_scores
+    FOR SELECT USING (can_view_review_stage(stage_id));
+
+CREATE POLICY "Reviewers can add their own scores" ON tender_review_scores
+    FOR INSERT WITH CHECK (reviewer_id = auth.uid() AND can_score_review_stage(stage_id));
+
+CREATE POLICY "Reviewers can change their own scores" ON tender_review_scores
+    FOR UPDATE USING (reviewer_id = auth.uid() AND can_score_review_stage(stage_id))
+    WITH CHECK (reviewer_id = auth.uid() AND can_score_review_stage(stage_id));
+
+-- ================================================
+-- 4. SCORECARD SUBMISSION
+-- ================================================
+
+-- Marks the caller's scorecard for an open stage as submitted and changes
+-- nothing else; no row is returned when they are not scoring the stage
+CREATE OR REPLACE FUNCTION submit_review_scorecard(p_stage_id UUID)
+RETURNS SETOF tender_review_assignments AS $$
+    UPDATE tender_review_assignments
+    SET submitted_at = NOW()
+    WHERE stage_id = p_stage_id
+      AND reviewer_id = auth.uid()
+      AND can_score_review_stage(p_stage_id)
+    RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION submit_review_scorecard(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_review_scorecard(UUID) TO authenticated;
+
+-- ================================================
+-- 5. EVALUATOR SCORES
+-- ================================================
+
+-- p_scores is [{ "question_id": ..., "score": 0-100 or null }]. Runs as the
+-- caller, so tender_questions RLS applies; any question outside the tender
+-- rolls back the whole set
+CREATE OR REPLACE FUNCTION record_evaluator_scores(p_tender_workflow_id UUID, p_scores JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_expected INTEGER;
+    v_updated INTEGER;
+BEGIN
+    SELECT COUNT(DISTINCT s->>'question_id') INTO v_expected
+    FROM jsonb_array_elements(p_scores) s;
+
+    UPDATE tender_questions tq
+    SET evaluator_score = (s->>'score')::DECIMAL(5,2)
+    FROM jsonb_array_elements(p_scores) s
+    WHERE tq.id = (s->>'question_id')::UUID
+      AND tq.tender_workflow_id = p_tender_workflow_id;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    IF v_updated <> v_expected THEN
+        RAISE EXCEPTION 'Question not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_evaluator_scores(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_evaluator_scores(UUID, JSONB) TO authenticated;
+
+-- ================================================
+-- 6. COMMENTS
+-- ================================================
+
+COMMENT ON COLUMN tender_workflows.scoring_scale_max IS 'Top of the commissioner''s scoring scale: 5 for 0-5, 10 for 0-10';
+COMMENT ON TABLE tender_review_stages IS 'Colour-team review stages (pink, red, gold...) configured for a tender';
+COMMENT ON TABLE tender_review_assignments IS 'Reviewers in each review stage and when they submitted their scorecard';
+COMMENT ON TABLE tender_review_scores IS 'A reviewer''s score, strengths and weaknesses for one tender question in one stage';
+COMMENT ON FUNCTION check_review_score_scale IS 'Refuse scores above the tender''s scale or for questions from another tender';
+COMMENT ON FUNCTION submit_review_scorecard IS 'Mark the caller''s scorecard for an open review stage as submitted';
+COMMENT ON FUNCTION record_evaluator_scores IS 'Record the commissioner''s scores for a tender''s questions in one transaction';
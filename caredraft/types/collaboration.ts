@@ -1,5 +1,7 @@
 // Types for collaboration features - comments, versions, user presence, and mentions
 
+import type { DiffSegment, DiffStats } from '@/lib/utils/text-diff'
+
 export interface Comment {
   id: string
   section_id: string
@@ -8,7 +10,14 @@ export interface Comment {
   parent_comment_id?: string | null
   text_range_start?: number | null
   text_range_end?: number | null
+  // Section text the comment was anchored to
+  anchor_text?: string | null
+  // The anchored text has been deleted from the section
+  is_orphaned?: boolean
+  orphaned_at?: string | null
   is_resolved: boolean
+  resolved_by?: string | null
+  resolved_at?: string | null
   created_at: string
   updated_at: string
   // Joined data
@@ -23,6 +32,10 @@ export interface Comment {
   replies?: Comment[]
 }
 
+// How a version came about: saved automatically while editing, saved by
+// hand, or written by restoring an earlier version
+export type VersionSaveKind = 'autosave' | 'manual' | 'restore'
+
 export interface Version {
   id: string
   section_id: string
@@ -31,6 +44,12 @@ export interface Version {
   version_number: number
   change_summary?: string | null
   word_count: number
+  save_kind?: VersionSaveKind
+  // Name given to a version worth finding again, e.g. "Submitted"
+  milestone_name?: string | null
+  restored_from_version?: number | null
+  // Section word limit when the version was saved; 0 means no limit
+  word_count_limit?: number
   created_at: string
   // Joined data
   user?: {
@@ -98,6 +117,13 @@ export interface CreateCommentInput {
   parent_comment_id?: string | null
   text_range_start?: number | null
   text_range_end?: number | null
+  // Users picked from @mention suggestions
+  mentioned_user_ids?: string[]
+}
+
+export interface UpdateCommentInput {
+  content: string
+  mentioned_user_ids?: string[]
 }
 
 export interface CreateVersionInput {
@@ -105,6 +131,8 @@ export interface CreateVersionInput {
   content_snapshot: string
   change_summary?: string | null
   word_count?: number
+  save_kind?: Exclude<VersionSaveKind, 'restore'>
+  milestone_name?: string | null
 }
 
 export interface UpdateUserPresenceInput {
@@ -161,13 +189,17 @@ export interface CommentThread {
   totalReplies: number
 }
 
+// Word diff between two versions of a section, older first
 export interface VersionDiff {
-  additions: string[]
-  deletions: string[]
-  modifications: Array<{
-    old: string
-    new: string
-  }>
+  section_id: string
+  from: Version
+  to: Version
+  // Everyone who saved a version after `from`, up to and including `to`
+  authors: Array<NonNullable<Version['user']>>
+  segments: DiffSegment[]
+  stats: DiffStats
+  // Current word limit of the section; 0 means no limit
+  word_count_limit: number
 }
 
 // User colors for collaborative cursors
@@ -204,6 +236,14 @@ export function getUserDisplayName(user: {
   return user.user_metadata?.full_name || user.email?.split('@')[0] || 'Anonymous'
 }
 
+// Users picked from @mention suggestions whose mention is still in the text
+export function getMentionedUserIds(
+  content: string,
+  picked: Array<{ id: string; name: string }>
+): string[] {
+  return Array.from(new Set(picked.filter(user => content.includes(`@${user.name}`)).map(user => user.id)))
+}
+
 // Helper function to format time ago
 export function formatTimeAgo(dateString: string): string {
   const date = new Date(dateString)
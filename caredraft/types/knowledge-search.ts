@@ -0,0 +1,88 @@
+// Knowledge Hub search types shared by the search service, API and UI
+
+export type SearchContentType =
+  | 'document'
+  | 'policy'
+  | 'template'
+  | 'answer'
+  | 'proposal'
+  | 'research'
+  | 'news'
+  | 'compliance'
+
+// Where a result is stored
+export type SearchSource =
+  | 'knowledge-base'
+  | 'answer-bank'
+  | 'proposals'
+  | 'research-sessions'
+  | 'compliance'
+
+export const INTERNAL_SEARCH_SOURCES: readonly string[] = [
+  'internal',
+  'knowledge-base',
+  'answer-bank',
+  'proposals',
+  'research-sessions',
+  'compliance'
+]
+
+export type SearchDateRange = 'all' | 'today' | 'week' | 'month' | 'quarter' | 'year'
+
+export type SearchSortBy = 'relevance' | 'date' | 'popularity' | 'alphabetical'
+
+export interface SearchResult {
+  id: string
+  title: string
+  content: string
+  excerpt: string
+  type: SearchContentType
+  source: SearchSource
+  url?: string
+  date: string
+  // 0-1
+  relevanceScore: number
+  metadata: {
+    author?: string
+    tags: string[]
+    fileType?: string
+    wordCount?: number
+    lastModified?: string
+    usageCount?: number
+    // Query terms as they appear in the excerpt, for highlighting
+    highlights?: string[]
+  }
+}
+
+export interface SearchQuery {
+  query: string
+  useLibraryAI: boolean
+  useInternetAI: boolean
+  // Summarise the top results with AI
+  includeSummary?: boolean
+  limit?: number
+  filters: {
+    // 'all', a content type, or a comma separated list of them
+    contentType: string
+    dateRange: string
+    // 'all', 'internal', or a SearchSource
+    source: string
+    sortBy: string
+    // Results must carry every tag
+    tags?: string[]
+  }
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  totalCount: number
+  searchTime: number
+  aiSummary?: string
+  suggestedQueries?: string[]
+  // Each facet is counted with every filter applied except its own
+  facets: {
+    contentTypes: { [key: string]: number }
+    sources: { [key: string]: number }
+    tags: { [key: string]: number }
+  }
+}
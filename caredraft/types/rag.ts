@@ -36,6 +36,16 @@ export interface KnowledgeDocument {
   version: number
   is_active: boolean
   created_at: string
+  storage_path?: string
+  processing_progress?: number
+  processing_error?: string
+  processing_attempts?: number
+  processed_at?: string
+  next_retry_at?: string
+  document_family_id?: string
+  previous_version_id?: string
+  superseded_at?: string
+  superseded_by?: string
 }
 
 export interface DocumentChunk {
@@ -61,6 +71,26 @@ export interface DocumentEmbedding {
   created_at: string
 }
 
+export type CitationSourceType = 'answer' | 'proposal' | 'section'
+
+// A knowledge chunk cited by an answer or draft
+export interface KnowledgeCitation {
+  id: string
+  document_id: string
+  chunk_id?: string
+  chunk_excerpt: string
+  source_type: CitationSourceType
+  source_id: string
+  cited_by?: string
+  cited_at: string
+  needs_review: boolean
+  flagged_at?: string
+  flag_reason?: string
+  replacement_document_id?: string
+  reviewed_at?: string
+  reviewed_by?: string
+}
+
 export interface RAGSearchQuery {
   id: string
   user_id?: string
@@ -101,6 +131,11 @@ export interface SearchResultWithContext {
   metadata: Record<string, unknown>
   document?: Partial<KnowledgeDocument>
   highlighted_content?: string
+  page_number?: number
+  section_title?: string
+  // Combined keyword and semantic score used to order results
+  relevance_score?: number
+  retrieval_method?: 'semantic' | 'keyword' | 'hybrid'
 }
 
 export interface RAGResponse {
@@ -147,6 +182,7 @@ export interface DocumentUploadRequest {
   tags?: string[]
   metadata?: Record<string, unknown>
   source_url?: string
+  previous_version_id?: string
 }
 
 export interface ProcessingJob {
@@ -182,6 +218,7 @@ export interface SearchOptions {
   }
   include_metadata?: boolean
   rerank_results?: boolean
+  include_superseded?: boolean
 }
 
 export interface SearchRequest {